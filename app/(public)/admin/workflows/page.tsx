@@ -0,0 +1,178 @@
+import Link from "next/link";
+import { ArrowLeft, CheckCircle2, CircleSlash, Plug, XCircle } from "lucide-react";
+import { requireAdminAccess } from "@/lib/auth";
+import { Badge } from "@/components/ui/badge";
+import { PIPELINE_STAGES, checkRegistryHealth, loadWorkflowRegistry } from "@/lib/n8n/registry";
+import type { WorkflowHealth, WorkflowInfo } from "@/lib/n8n/types";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminWorkflowsPage() {
+  await requireAdminAccess();
+
+  const [workflows, health] = await Promise.all([
+    loadWorkflowRegistry({ fresh: true }),
+    checkRegistryHealth(),
+  ]);
+
+  const healthByName = new Map(health.map((h) => [h.name, h]));
+  const stages: string[] = [...PIPELINE_STAGES];
+  for (const workflow of workflows) {
+    if (workflow.stage && !stages.includes(workflow.stage)) stages.push(workflow.stage);
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-[#0a0a0b] text-white">
+      {/* Header */}
+      <header className="border-b border-[#333] py-6">
+        <div className="container mx-auto px-4 flex items-center gap-4">
+          <Link
+            href="/"
+            className="text-[#888] hover:text-[#f5c518] transition-colors"
+          >
+            <ArrowLeft size={24} />
+          </Link>
+          <div className="font-oswald text-2xl font-bold tracking-widest">
+            ripreel<span className="text-[#f5c518]">.io</span>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Page Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <Plug className="text-[#f5c518]" size={28} />
+            <h1 className="font-oswald text-3xl font-bold uppercase tracking-wider text-white">
+              n8n Workflows
+            </h1>
+          </div>
+          <p className="font-courier text-[#888]">
+            Which pipeline stages are wired up, where each workflow comes from, and whether n8n answers.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          {stages.map((stage) => (
+            <StageSection
+              key={stage}
+              stage={stage}
+              workflows={workflows.filter((w) => w.stage === stage)}
+              healthByName={healthByName}
+            />
+          ))}
+
+          {workflows.some((w) => !w.stage) && (
+            <StageSection
+              stage="Unassigned"
+              workflows={workflows.filter((w) => !w.stage)}
+              healthByName={healthByName}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function StageSection({
+  stage,
+  workflows,
+  healthByName,
+}: {
+  stage: string;
+  workflows: WorkflowInfo[];
+  healthByName: Map<string, WorkflowHealth>;
+}) {
+  const isWired = workflows.some((w) => {
+    const health = healthByName.get(w.name);
+    return w.active && health?.configured && health.reachable !== false && health.active !== false;
+  });
+
+  return (
+    <section className="p-6 bg-[#1c1c1f] border border-[#333] rounded-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-oswald text-xl uppercase tracking-wider text-white">{stage}</h2>
+        {isWired ? (
+          <Badge className="bg-green-500/20 text-green-500 border-green-500 font-courier">
+            <CheckCircle2 className="mr-1" size={12} />
+            Wired up
+          </Badge>
+        ) : (
+          <Badge className="bg-[#e02f2f]/20 text-[#e02f2f] border-[#e02f2f] font-courier">
+            <XCircle className="mr-1" size={12} />
+            Not available
+          </Badge>
+        )}
+      </div>
+
+      {workflows.length === 0 ? (
+        <p className="font-courier text-sm text-[#666]">No workflow registered for this stage.</p>
+      ) : (
+        <div className="space-y-3">
+          {workflows.map((workflow) => (
+            <WorkflowRow
+              key={workflow.name}
+              workflow={workflow}
+              health={healthByName.get(workflow.name)}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function WorkflowRow({ workflow, health }: { workflow: WorkflowInfo; health?: WorkflowHealth }) {
+  return (
+    <div className="p-4 bg-[#0a0a0b] border border-[#333] rounded">
+      <div className="flex flex-wrap items-center gap-2 mb-1">
+        <span className="font-courier text-sm text-white">{workflow.name}</span>
+        <Badge className="bg-[#333] text-[#888] border-[#333] font-courier text-xs">
+          {workflow.source ?? "default"}
+        </Badge>
+        {!workflow.active && (
+          <Badge className="bg-[#333] text-[#888] border-[#333] font-courier text-xs">
+            <CircleSlash className="mr-1" size={10} />
+            Disabled
+          </Badge>
+        )}
+      </div>
+
+      {workflow.description && (
+        <p className="font-courier text-xs text-[#888] mb-2">{workflow.description}</p>
+      )}
+
+      <div className="flex flex-wrap gap-4 font-courier text-xs">
+        <HealthItem label="Webhook" value={health?.configured ?? false} />
+        <HealthItem label="Reachable" value={health?.reachable ?? null} />
+        <HealthItem label="Active in n8n" value={health?.active ?? null} />
+        <HealthItem
+          label="Inputs"
+          value={health?.missingInputs ? health.missingInputs.length === 0 : null}
+        />
+      </div>
+
+      {health && health.issues.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {health.issues.map((issue) => (
+            <li key={issue} className="font-courier text-xs text-[#e02f2f]">
+              {issue}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function HealthItem({ label, value }: { label: string; value: boolean | null }) {
+  const color = value === null ? "text-[#666]" : value ? "text-green-500" : "text-[#e02f2f]";
+  const text = value === null ? "not checked" : value ? "ok" : "no";
+
+  return (
+    <span className="text-[#888]">
+      {label}: <span className={color}>{text}</span>
+    </span>
+  );
+}
@@ -0,0 +1,81 @@
+import { db } from "@/lib/drizzle/db";
+import { scenes as scenesTable } from "@/lib/drizzle/schema";
+import { eq, asc } from "drizzle-orm";
+import { AudioLines } from "lucide-react";
+import { SceneAudioPanel } from "@/components/audio/scene-audio-panel";
+import { AUDIO_TRACK_TYPES, buildAudioRequest, getSceneAudioTracks, type AudioTrackType } from "@/lib/audio";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function StudioAudioPage({ params }: PageProps) {
+  const { id } = await params;
+
+  // Fetch scenes
+  const scenes = await db
+    .select()
+    .from(scenesTable)
+    .where(eq(scenesTable.project_id, id))
+    .orderBy(asc(scenesTable.scene_number));
+
+  // Fetch audio tracks for all scenes (newest first)
+  const tracks = await getSceneAudioTracks(scenes.map((s) => s.id));
+
+  const scenesWithAudio = scenes.map((scene) => {
+    // What each track would be generated from
+    const defaults = Object.fromEntries(
+      AUDIO_TRACK_TYPES.map((type) => {
+        const request = buildAudioRequest(scene, type, null);
+        return [type, request ? request.scriptText ?? request.audioDescription : null];
+      })
+    ) as Record<AudioTrackType, string | null>;
+
+    return {
+      scene,
+      defaults,
+      tracks: tracks.filter((track) => track.scene_id === scene.id),
+    };
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-7xl">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-3 mb-4">
+          <AudioLines className="text-[#f5c518]" size={32} />
+          <h1 className="font-oswald text-4xl md:text-5xl uppercase font-bold tracking-tight text-white">
+            Scene Audio
+          </h1>
+        </div>
+
+        {/* Instructions */}
+        <div className="p-6 bg-[#1c1c1f] border-l-4 border-[#f5c518]">
+          <h2 className="font-oswald uppercase text-lg text-[#f5c518] mb-2 tracking-wider">
+            Voiceover, Sound Effects &amp; Music
+          </h2>
+          <p className="font-courier text-[#888] text-sm leading-relaxed">
+            Generate tracks from each scene&apos;s audio breakdown, or upload your own voiceover and
+            score. Approved tracks are mixed into the final reel - an approved voiceover replaces the
+            audio VEO generated for that scene&apos;s shots.
+          </p>
+        </div>
+      </div>
+
+      {scenesWithAudio.length === 0 ? (
+        <p className="font-courier text-sm text-[#888]">No scenes yet.</p>
+      ) : (
+        <div className="space-y-6">
+          {scenesWithAudio.map(({ scene, defaults, tracks: sceneTracks }) => (
+            <SceneAudioPanel
+              key={scene.id}
+              scene={{ id: scene.id, sceneNumber: scene.scene_number, slugline: scene.slugline }}
+              defaults={defaults}
+              initialTracks={sceneTracks}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,10 +5,19 @@ import {
   final_reels,
   projects,
 } from "@/lib/drizzle/schema";
-import { eq, and, inArray, isNotNull } from "drizzle-orm";
+import { eq, and, desc, inArray, isNotNull } from "drizzle-orm";
 import { Download } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ExportPanel } from "@/components/export/export-panel";
+import { ShareLinksPanel } from "@/components/export/share-links-panel";
+import { ReelVersionsPanel } from "@/components/export/reel-versions-panel";
+import { TimelineExportPanel } from "@/components/export/timeline-export-panel";
+import { CaptionsPanel } from "@/components/export/captions-panel";
+import { listProjectShareLinks } from "@/lib/share-links";
+import { toReelManifest } from "@/lib/reel-versions";
+import { toCaptionCues } from "@/lib/captions";
+import { toAnimaticSettings } from "@/lib/animatic";
+import { env } from "@/lib/env";
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -49,12 +58,15 @@ export default async function StudioExportPage({ params }: PageProps) {
     readyVideoCount = readyShots.length;
   }
 
-  // Fetch final reel status
-  const [finalReel] = await db
+  // Fetch reel versions (newest first) - the latest drives the assembly status
+  const reelVersions = await db
     .select()
     .from(final_reels)
     .where(eq(final_reels.project_id, id))
-    .limit(1);
+    .orderBy(desc(final_reels.version_number));
+  const finalReel = reelVersions[0];
+
+  const shareLinks = await listProjectShareLinks(id);
 
   return (
     <div className="container mx-auto px-4 py-12 max-w-4xl">
@@ -82,9 +94,10 @@ export default async function StudioExportPage({ params }: PageProps) {
             Final Assembly
           </h2>
           <p className="font-courier text-[#888] text-sm leading-relaxed">
-            Assemble your scene videos into a final reel with crossfade transitions.
-            The video will be uploaded to YouTube as an unlisted video for easy sharing,
-            and you can also download the MP4 file directly.
+            Assemble your scene videos into a final reel with the transitions set on the Timeline.
+            Every assembly is saved as a new version you can label, compare, restore, and share.
+            With the remote engine the video is also uploaded to YouTube as an unlisted
+            video for easy sharing; either way you can download the MP4 file directly.
           </p>
         </div>
       </div>
@@ -99,16 +112,79 @@ export default async function StudioExportPage({ params }: PageProps) {
           finalReel
             ? {
                 id: finalReel.id,
+                version_number: finalReel.version_number,
                 status: finalReel.status,
                 video_url: finalReel.video_url,
                 youtube_url: finalReel.youtube_url,
                 youtube_id: finalReel.youtube_id,
                 error_message: finalReel.error_message,
+                assembly_progress: finalReel.assembly_progress,
                 created_at: finalReel.created_at,
               }
             : null
         }
+        assemblyBackend={project?.assembly_backend ?? null}
+        defaultBackend={env.ASSEMBLY_BACKEND}
+        animaticSettings={toAnimaticSettings(project?.animatic_settings)}
       />
+
+      {/* Reel Versions */}
+      <div className="mt-8">
+        <ReelVersionsPanel
+          versions={reelVersions.map((reel) => ({
+            id: reel.id,
+            version_number: reel.version_number,
+            label: reel.label,
+            status: reel.status,
+            video_url: reel.video_url,
+            duration_seconds: reel.duration_seconds,
+            manifest: toReelManifest(reel.manifest),
+            created_at: reel.created_at,
+          }))}
+        />
+      </div>
+
+      {/* Captions */}
+      <div className="mt-8">
+        <CaptionsPanel
+          projectId={id}
+          versions={reelVersions.flatMap((reel) =>
+            reel.status === "ready" && reel.video_url
+              ? [
+                  {
+                    id: reel.id,
+                    version_number: reel.version_number,
+                    label: reel.label,
+                    video_url: reel.video_url,
+                    captions: toCaptionCues(reel.captions),
+                    captioned_video_url: reel.captioned_video_url,
+                    captioned_video_status: reel.captioned_video_status,
+                    captioned_error_message: reel.captioned_error_message,
+                  },
+                ]
+              : []
+          )}
+        />
+      </div>
+
+      {/* NLE Interchange Export */}
+      <div className="mt-8">
+        <TimelineExportPanel projectId={id} readyVideoCount={readyVideoCount} />
+      </div>
+
+      {/* Public Share Links */}
+      <div className="mt-8">
+        <ShareLinksPanel
+          projectId={id}
+          initialLinks={shareLinks}
+          reelVersions={reelVersions.map((reel) => ({
+            id: reel.id,
+            version_number: reel.version_number,
+            label: reel.label,
+            status: reel.status,
+          }))}
+        />
+      </div>
     </div>
   );
 }
@@ -3,11 +3,15 @@ import { db } from "@/lib/drizzle/db";
 import { projects } from "@/lib/drizzle/schema";
 import { eq } from "drizzle-orm";
 import { notFound } from "next/navigation";
+import { requireUserId } from "@/lib/auth";
+import { isProjectOwner } from "@/lib/project-access";
+import { getProjectJobSummaries } from "@/lib/jobs";
 import Link from "next/link";
 import { ArrowLeft, Home, FolderOpen } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { StudioSidebar } from "@/components/studio/studio-sidebar";
 import { DeleteProjectButton } from "@/components/projects/delete-project-button";
+import { ProjectJobsPanel } from "@/components/jobs/project-jobs-panel";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -23,6 +27,7 @@ interface StudioLayoutProps {
 
 export default async function StudioLayout({ children, params }: StudioLayoutProps) {
   const { id } = await params;
+  const userId = await requireUserId();
 
   // Fetch project
   const [project] = await db
@@ -31,10 +36,13 @@ export default async function StudioLayout({ children, params }: StudioLayoutPro
     .where(eq(projects.id, id))
     .limit(1);
 
-  if (!project) {
+  // Projects owned by someone else are reported as missing
+  if (!project || !isProjectOwner(project, userId)) {
     notFound();
   }
 
+  const jobs = await getProjectJobSummaries(project.id);
+
   return (
     <div className="min-h-screen w-full bg-[#0a0a0b] text-white">
       {/* Header */}
@@ -106,6 +114,7 @@ export default async function StudioLayout({ children, params }: StudioLayoutPro
       <div className="flex">
         <StudioSidebar projectId={id} />
         <main className="flex-1 overflow-y-auto min-h-[calc(100vh-73px)]">
+          <ProjectJobsPanel projectId={project.id} initialJobs={jobs} />
           {children}
         </main>
       </div>
@@ -14,7 +14,9 @@ import { EditableSceneCard } from '@/components/scenes/editable-scene-card';
 import { ScenesLoader } from '@/components/scenes/scenes-loader';
 import { ApproveAllButton } from '@/components/scenes/approve-all-button';
 import { AutoGenerateButton } from '@/components/scenes/auto-generate-button';
+import { ReimportDraftButton } from '@/components/scenes/reimport-draft-button';
 import { cn } from '@/lib/utils';
+import { getProjectJobSummaries } from '@/lib/jobs';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -60,6 +62,9 @@ export default async function StudioScenesPage({ params }: PageProps) {
     .where(eq(projectProps.project_id, id))
     .orderBy(projectProps.name);
 
+  const sceneJob =
+    (await getProjectJobSummaries(id)).find((job) => job.type === 'scene_generation') ?? null;
+
   // Calculate stats
   const totalScenes = scenes.length;
   const approvedScenes = scenes.filter(
@@ -105,13 +110,14 @@ export default async function StudioScenesPage({ params }: PageProps) {
             {approvedScenes}/{totalScenes} approved
           </span>
         </div>
-        <div className="ml-auto">
+        <div className="ml-auto flex items-center gap-3">
+          {totalScenes > 0 && <ReimportDraftButton projectId={id} />}
           <AutoGenerateButton projectId={id} sceneCount={totalScenes} />
         </div>
       </div>
 
       {/* Scenes List with Loading State */}
-      <ScenesLoader initialProject={project} initialScenes={scenes} />
+      <ScenesLoader initialProject={project} initialScenes={scenes} initialSceneJob={sceneJob} />
 
       {scenes.length > 0 && (
         <div className="space-y-4">
@@ -32,8 +32,8 @@ export default async function StudioTimelinePage({ params }: PageProps) {
 
   // Format duration (seconds to MM:SS)
   const formatDuration = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    const mins = Math.floor(Math.round(seconds) / 60);
+    const secs = Math.round(seconds) % 60;
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
@@ -72,7 +72,8 @@ export default async function StudioTimelinePage({ params }: PageProps) {
             Timeline Instructions
           </h2>
           <p className="font-courier text-[#888] text-sm leading-relaxed">
-            Click any scene to preview its video. Drag and drop scenes to reorder your reel.
+            Click any scene to preview its video. Drag and drop scenes to reorder your reel,
+            trim each shot&apos;s in and out points, and pick the transition at every cut.
             When all videos are ready, proceed to Final Review for audio mixing and export.
           </p>
         </div>
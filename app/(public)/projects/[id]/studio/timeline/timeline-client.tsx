@@ -7,13 +7,19 @@
  * - Scene selection for preview
  * - Shot selection within scenes
  * - Drag-and-drop scene reordering
+ * - Shot trim points and transitions at scene and shot cuts (optimistic updates)
  */
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
 import { PreviewMonitor } from '@/components/timeline/preview-monitor';
+import { ShotTransitions } from '@/components/timeline/shot-transitions';
 import { TimelineSequencer } from '@/components/timeline/timeline-sequencer';
 import { TimelineControls } from '@/components/timeline/timeline-controls';
+import { updateSceneTransition, updateShotTransition, updateShotTrim } from '@/app/actions/timeline';
 import type { TimelineData, TimelineScene, TimelineShot } from '@/app/actions/timeline';
+import type { Transition } from '@/lib/transitions';
+import { getTrimmedDuration, type TrimPoints } from '@/lib/trim';
 
 interface TimelineClientProps {
   timelineData: TimelineData;
@@ -21,23 +27,96 @@ interface TimelineClientProps {
 }
 
 export function TimelineClient({ timelineData, projectId }: TimelineClientProps) {
-  const [selectedScene, setSelectedScene] = useState<TimelineScene | null>(
-    timelineData.scenes[0] || null
+  const [scenes, setScenes] = useState<TimelineScene[]>(timelineData.scenes);
+  const [selectedSceneId, setSelectedSceneId] = useState<string | null>(
+    timelineData.scenes[0]?.id || null
   );
-  const [selectedShot, setSelectedShot] = useState<TimelineShot | null>(
-    timelineData.scenes[0]?.shots[0] || null
+  const [selectedShotId, setSelectedShotId] = useState<string | null>(
+    timelineData.scenes[0]?.shots[0]?.id || null
   );
 
+  // Update local state when the server data changes (revalidation)
+  useEffect(() => {
+    setScenes(timelineData.scenes);
+  }, [timelineData.scenes]);
+
+  // Selection is by ID so edits show up in the preview
+  const selectedScene = scenes.find((s) => s.id === selectedSceneId) || null;
+  const selectedShot = selectedScene?.shots.find((s) => s.id === selectedShotId) || null;
+
   const handleSceneSelect = (scene: TimelineScene): void => {
-    setSelectedScene(scene);
+    setSelectedSceneId(scene.id);
     // Auto-select first shot of the scene with video
     const firstShotWithVideo = scene.shots.find(s => s.video_url) || scene.shots[0];
-    setSelectedShot(firstShotWithVideo || null);
+    setSelectedShotId(firstShotWithVideo?.id || null);
   };
 
   const handleShotChange = (scene: TimelineScene, shot: TimelineShot): void => {
-    setSelectedScene(scene);
-    setSelectedShot(shot);
+    setSelectedSceneId(scene.id);
+    setSelectedShotId(shot.id);
+  };
+
+  const handleSceneTransitionChange = (sceneId: string, transition: Transition | null): void => {
+    const previousScenes = scenes; // Save current state for rollback
+
+    // Optimistic update
+    setScenes(scenes.map((s) => (s.id === sceneId ? { ...s, transition_in: transition } : s)));
+
+    void updateSceneTransition(sceneId, transition).then((result) => {
+      if (!result.success) {
+        setScenes(previousScenes);
+        toast.error(result.error);
+      }
+    });
+  };
+
+  const handleShotTransitionChange = (shotId: string, transition: Transition | null): void => {
+    const previousScenes = scenes; // Save current state for rollback
+
+    // Optimistic update
+    setScenes(
+      scenes.map((s) => ({
+        ...s,
+        shots: s.shots.map((shot) => (shot.id === shotId ? { ...shot, transition_in: transition } : shot)),
+      }))
+    );
+
+    void updateShotTransition(shotId, transition).then((result) => {
+      if (!result.success) {
+        setScenes(previousScenes);
+        toast.error(result.error);
+      }
+    });
+  };
+
+  const handleShotTrimChange = (shotId: string, trim: TrimPoints | null): void => {
+    const previousScenes = scenes; // Save current state for rollback
+    const trimIn = trim && trim.inSeconds > 0 ? trim.inSeconds : null;
+    const trimOut = trim?.outSeconds ?? null;
+
+    // Optimistic update
+    setScenes(
+      scenes.map((s) => ({
+        ...s,
+        shots: s.shots.map((shot) =>
+          shot.id === shotId
+            ? {
+                ...shot,
+                trim_in_seconds: trimIn,
+                trim_out_seconds: trimOut,
+                trimmed_duration_seconds: getTrimmedDuration(shot.shot_duration_seconds, trimIn, trimOut),
+              }
+            : shot
+        ),
+      }))
+    );
+
+    void updateShotTrim(shotId, trim).then((result) => {
+      if (!result.success) {
+        setScenes(previousScenes);
+        toast.error(result.error);
+      }
+    });
   };
 
   return (
@@ -46,22 +125,32 @@ export function TimelineClient({ timelineData, projectId }: TimelineClientProps)
       <PreviewMonitor
         selectedScene={selectedScene}
         selectedShot={selectedShot}
-        allScenes={timelineData.scenes}
+        allScenes={scenes}
         onShotChange={handleShotChange}
+        onTrimChange={handleShotTrimChange}
         className="aspect-video"
       />
 
+      {/* Cuts within the selected scene */}
+      <ShotTransitions
+        scene={selectedScene}
+        selectedShotId={selectedShotId}
+        onShotSelect={handleShotChange}
+        onShotTransitionChange={handleShotTransitionChange}
+      />
+
       {/* Timeline Sequencer */}
       <TimelineSequencer
-        scenes={timelineData.scenes}
+        scenes={scenes}
         projectId={projectId}
-        selectedSceneId={selectedScene?.id || null}
+        selectedSceneId={selectedSceneId}
         onSceneSelect={handleSceneSelect}
+        onSceneTransitionChange={handleSceneTransitionChange}
       />
 
       {/* Timeline Controls */}
       <TimelineControls
-        scenes={timelineData.scenes}
+        scenes={scenes}
         totalDurationSeconds={timelineData.total_duration_seconds}
         allVideosReady={timelineData.all_videos_ready}
         projectId={projectId}
@@ -1,8 +1,9 @@
 import { db } from "@/lib/drizzle/db";
-import { scenes as scenesTable, scene_shots } from "@/lib/drizzle/schema";
+import { scenes as scenesTable, scene_shots, shot_takes } from "@/lib/drizzle/schema";
 import { eq, inArray, asc } from "drizzle-orm";
 import { Video } from "lucide-react";
 import { VideoGenerationDashboard } from "@/components/studio/video-generation-dashboard";
+import { getProjectCharacterNames } from "@/lib/prompt-lint/resolve";
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -28,6 +29,18 @@ export default async function StudioVideoPage({ params }: PageProps) {
         .orderBy(asc(scene_shots.shot_number))
     : [];
 
+  // Fetch every take of those shots, oldest first
+  const takes = shots.length > 0
+    ? await db
+        .select()
+        .from(shot_takes)
+        .where(inArray(shot_takes.shot_id, shots.map((s) => s.id)))
+        .orderBy(asc(shot_takes.take_number))
+    : [];
+
+  // Bible characters, to check names in shot prompts
+  const characterNames = await getProjectCharacterNames(id);
+
   // Create shots map grouped by scene_id
   const shotsMap = new Map<string, typeof shots>();
   for (const shot of shots) {
@@ -36,11 +49,16 @@ export default async function StudioVideoPage({ params }: PageProps) {
     shotsMap.set(shot.scene_id, existing);
   }
 
-  // Combine scenes with their shots
-  const scenesWithShots = scenes.map((scene) => ({
-    scene,
-    shots: shotsMap.get(scene.id) ?? [],
-  }));
+  // Combine scenes with their shots and takes
+  const scenesWithShots = scenes.map((scene) => {
+    const sceneShots = shotsMap.get(scene.id) ?? [];
+    const sceneShotIds = new Set(sceneShots.map((shot) => shot.id));
+    return {
+      scene,
+      shots: sceneShots,
+      takes: takes.filter((take) => sceneShotIds.has(take.shot_id)),
+    };
+  });
 
   return (
     <div className="container mx-auto px-4 py-12 max-w-7xl">
@@ -61,7 +79,8 @@ export default async function StudioVideoPage({ params }: PageProps) {
           <p className="font-courier text-[#888] text-sm leading-relaxed">
             Each scene is divided into shots (max 8 seconds each). Generate videos for each shot
             using the scene&apos;s approved image as the starting frame. Videos are created with
-            Google VEO 3.1 including audio from the prompt.
+            Google VEO 3.1 including audio from the prompt. Every generation is kept as a take -
+            compare a shot&apos;s takes and select the one the timeline uses.
           </p>
         </div>
       </div>
@@ -70,6 +89,7 @@ export default async function StudioVideoPage({ params }: PageProps) {
       <VideoGenerationDashboard
         projectId={id}
         scenesWithShots={scenesWithShots}
+        characterNames={characterNames}
       />
     </div>
   );
@@ -1,35 +1,79 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { ArrowLeft, Upload, FileText, Play, Loader2 } from "lucide-react";
+import { ArrowLeft, Upload, FileText, Play, Loader2, Palette } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { getApiKeysFromStorage } from "@/hooks/use-api-keys";
-
-const VISUAL_STYLES = [
-  { value: "wes-anderson", label: "Wes Anderson", description: "Symmetrical, pastel palette, whimsical nostalgia" },
-  { value: "classic-noir", label: "Classic Film Noir", description: "Black & white, high contrast, shadows" },
-  { value: "70s-crime-drama", label: "The Godfather Style", description: "Warm amber, low-key lighting, operatic" },
-] as const;
+import {
+  detectScreenplayFormat,
+  parseScreenplayFile,
+  type ScreenplayFormat,
+} from "@/lib/screenplay";
+import { BUILTIN_STYLES, DEFAULT_STYLE_KEY } from "@/lib/styles";
+import { DEFAULT_PROJECT_FORMAT, PROJECT_FORMATS, PROJECT_FORMAT_SPECS, type ProjectFormat } from "@/lib/formats";
+import { listStylePresets } from "@/app/actions/styles";
+import type { StylePreset } from "@/lib/drizzle/schema";
 
 export default function NewProjectPage() {
   const router = useRouter();
-  const [selectedStyle, setSelectedStyle] = useState<string>("wes-anderson");
+  // Built-in style key or custom preset id
+  const [selectedStyle, setSelectedStyle] = useState<string>(DEFAULT_STYLE_KEY);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
   const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [screenplayFile, setScreenplayFile] = useState<{
+    name: string;
+    format: ScreenplayFormat;
+    content: string;
+    summary: string | null;
+    error: string | null;
+  } | null>(null);
   const [pastedText, setPastedText] = useState<string>("");
   const [projectTitle, setProjectTitle] = useState<string>("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [activeTab, setActiveTab] = useState<"pdf" | "text">("pdf");
   const [autoMode, setAutoMode] = useState(true);
+  const [format, setFormat] = useState<ProjectFormat>(DEFAULT_PROJECT_FORMAT);
+
+  useEffect(() => {
+    listStylePresets().then((result) => {
+      if (result.success) setStylePresets(result.presets);
+    });
+  }, []);
 
-  const handlePdfChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+  const handlePdfChange = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
     const file = e.target.files?.[0];
-    if (file && file.type === "application/pdf") {
+    if (!file) return;
+
+    // Fountain / Final Draft: read and parse locally for a preview
+    const format = detectScreenplayFormat(file.name);
+    if (format) {
+      const content = await file.text();
+      let summary: string | null = null;
+      let title: string | null = null;
+      let error: string | null = null;
+      try {
+        const screenplay = parseScreenplayFile(format, content);
+        summary = `${screenplay.scenes.length} scenes, ${screenplay.characters.length} speaking characters`;
+        title = screenplay.title;
+      } catch (parseError) {
+        error = parseError instanceof Error ? parseError.message : "Could not read screenplay";
+      }
+      setPdfFile(null);
+      setScreenplayFile({ name: file.name, format, content, summary, error });
+      if (!projectTitle) {
+        setProjectTitle(title || file.name.replace(/\.[^.]+$/, ""));
+      }
+      return;
+    }
+
+    if (file.type === "application/pdf") {
       setPdfFile(file);
+      setScreenplayFile(null);
       if (!projectTitle) {
         setProjectTitle(file.name.replace(".pdf", ""));
       }
@@ -41,9 +85,14 @@ export default function NewProjectPage() {
     try {
       let scriptContent = "";
       let fileData: ArrayBuffer | undefined = undefined;
+      let scriptFormat: ScreenplayFormat | undefined = undefined;
 
       // Get script content based on input type
-      if (inputType === "pdf" && pdfFile) {
+      if (inputType === "pdf" && screenplayFile && !screenplayFile.error) {
+        // Fountain/FDX - parsed again on the server
+        scriptContent = screenplayFile.content;
+        scriptFormat = screenplayFile.format;
+      } else if (inputType === "pdf" && pdfFile) {
         // Read PDF file as ArrayBuffer for proper upload
         fileData = await pdfFile.arrayBuffer();
         scriptContent = ""; // Not needed for PDF - we'll use the URL
@@ -63,13 +112,17 @@ export default function NewProjectPage() {
         kiePresent: !!apiKeys.kie,
         kieLength: apiKeys.kie?.length || 0,
       });
+      const isPreset = stylePresets.some((preset) => preset.id === selectedStyle);
       const result = await createProject({
         projectName: projectTitle,
         scriptContent,
         fileData,
-        visualStyle: selectedStyle,
-        isPdf: inputType === "pdf",
-        fileName: pdfFile?.name,
+        visualStyle: isPreset ? undefined : selectedStyle,
+        stylePresetId: isPreset ? selectedStyle : undefined,
+        format,
+        isPdf: inputType === "pdf" && !scriptFormat,
+        scriptFormat,
+        fileName: scriptFormat ? screenplayFile?.name : pdfFile?.name,
         autoMode,
         apiKeys,
       });
@@ -151,7 +204,7 @@ export default function NewProjectPage() {
           />
         </div>
 
-        {/* Tabs: PDF Upload vs Text Paste */}
+        {/* Tabs: File Upload vs Text Paste */}
         <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as "pdf" | "text")} className="mb-12">
           <TabsList className="grid w-full grid-cols-2 bg-[#1c1c1f] border border-[#333]">
             <TabsTrigger
@@ -159,7 +212,7 @@ export default function NewProjectPage() {
               className="font-oswald uppercase tracking-wider data-[state=active]:bg-[#f5c518] data-[state=active]:text-black"
             >
               <Upload className="mr-2" size={16} />
-              Upload PDF
+              Upload File
             </TabsTrigger>
             <TabsTrigger
               value="text"
@@ -170,19 +223,31 @@ export default function NewProjectPage() {
             </TabsTrigger>
           </TabsList>
 
-          {/* PDF Upload Tab */}
+          {/* File Upload Tab (PDF, Fountain, FDX) */}
           <TabsContent value="pdf" className="mt-6">
             <div className="border-2 border-dashed border-[#333] hover:border-[#f5c518] transition-colors p-12 text-center bg-[#1c1c1f]">
               <Upload className="w-16 h-16 text-[#666] mx-auto mb-4" />
               <p className="font-courier text-[#888] mb-4">
                 {pdfFile
                   ? `Selected: ${pdfFile.name}`
-                  : "Click to upload or drag and drop"}
+                  : screenplayFile
+                    ? `Selected: ${screenplayFile.name}`
+                    : "PDF, Fountain (.fountain) or Final Draft (.fdx)"}
               </p>
+              {screenplayFile?.summary && (
+                <p className="font-courier text-[#f5c518] text-sm mb-4">
+                  {screenplayFile.summary}
+                </p>
+              )}
+              {screenplayFile?.error && (
+                <p className="font-courier text-red-400 text-sm mb-4">
+                  {screenplayFile.error}
+                </p>
+              )}
               <input
                 id="pdf-upload"
                 type="file"
-                accept=".pdf"
+                accept=".pdf,.fountain,.spmd,.fdx"
                 onChange={handlePdfChange}
                 className="hidden"
               />
@@ -192,7 +257,7 @@ export default function NewProjectPage() {
                   onClick={() => document.getElementById("pdf-upload")?.click()}
                   className="bg-[#333] hover:bg-[#444] text-white font-oswald uppercase tracking-wider"
                 >
-                  Choose PDF File
+                  Choose File
                 </Button>
               </label>
             </div>
@@ -230,19 +295,53 @@ He kneels, examining tire tracks..."
           </TabsContent>
         </Tabs>
 
+        {/* Format Selection */}
+        <div className="mb-12">
+          <h2 className="font-oswald uppercase text-xl text-[#f5c518] mb-4 tracking-wider">
+            Select Format
+          </h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {PROJECT_FORMATS.map((value) => {
+              const spec = PROJECT_FORMAT_SPECS[value];
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setFormat(value)}
+                  className={`p-4 border-2 transition-all ${
+                    format === value
+                      ? "border-[#f5c518] bg-[#f5c518]/10"
+                      : "border-[#333] hover:border-[#555]"
+                  }`}
+                >
+                  <h3 className="font-oswald uppercase text-sm mb-1 text-white">
+                    {spec.label}
+                  </h3>
+                  <p className="font-courier text-xs text-[#888]">
+                    {spec.description}
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+          <p className="font-courier text-xs text-[#666] mt-3">
+            Scene images, shot frames, videos, and the final reel are all generated in this format. It can&apos;t be changed later.
+          </p>
+        </div>
+
         {/* Visual Style Selection */}
         <div className="mb-12">
           <h2 className="font-oswald uppercase text-xl text-[#f5c518] mb-4 tracking-wider">
             Select Visual Style
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {VISUAL_STYLES.map((style) => (
+            {BUILTIN_STYLES.map((style) => (
               <button
-                key={style.value}
+                key={style.key}
                 type="button"
-                onClick={() => setSelectedStyle(style.value)}
+                onClick={() => setSelectedStyle(style.key)}
                 className={`p-4 border-2 transition-all ${
-                  selectedStyle === style.value
+                  selectedStyle === style.key
                     ? "border-[#f5c518] bg-[#f5c518]/10"
                     : "border-[#333] hover:border-[#555]"
                 }`}
@@ -255,7 +354,40 @@ He kneels, examining tire tracks..."
                 </p>
               </button>
             ))}
+            {stylePresets.map((preset) => (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => setSelectedStyle(preset.id)}
+                className={`p-4 border-2 transition-all ${
+                  selectedStyle === preset.id
+                    ? "border-[#f5c518] bg-[#f5c518]/10"
+                    : "border-[#333] hover:border-[#555]"
+                }`}
+              >
+                <h3 className="font-oswald uppercase text-sm mb-1 text-white flex items-center justify-center gap-2">
+                  <Palette className="w-3 h-3 text-[#f5c518]" />
+                  {preset.name}
+                </h3>
+                <p className="font-courier text-xs text-[#888] line-clamp-2">
+                  {preset.prompt_fragment}
+                </p>
+                {preset.color_palette.length > 0 && (
+                  <div className="flex justify-center gap-1 mt-2">
+                    {preset.color_palette.map((color) => (
+                      <span key={color} className="w-4 h-4 border border-[#333]" style={{ backgroundColor: color }} />
+                    ))}
+                  </div>
+                )}
+              </button>
+            ))}
           </div>
+          <p className="font-courier text-xs text-[#666] mt-3">
+            Create your own looks under{" "}
+            <Link href="/settings" className="text-[#f5c518] hover:underline">
+              Settings
+            </Link>
+          </p>
 
           {/* Auto Mode Checkbox */}
           <div className="flex items-center space-x-3 mt-6 p-4 bg-[#1c1c1f] border border-[#333] rounded">
@@ -282,7 +414,7 @@ He kneels, examining tire tracks..."
             disabled={
               isSubmitting ||
               !projectTitle ||
-              (activeTab === "pdf" ? !pdfFile : !pastedText)
+              (activeTab === "pdf" ? !pdfFile && !(screenplayFile && !screenplayFile.error) : !pastedText)
             }
             className="inline-flex items-center gap-3 bg-[#e02f2f] hover:bg-red-600 text-white font-oswald text-xl uppercase tracking-widest px-12 py-6 transition-all hover:scale-105 shadow-2xl shadow-red-900/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
           >
@@ -297,9 +429,9 @@ He kneels, examining tire tracks..."
             Enter a project title to continue
           </p>
         )}
-        {projectTitle && !pdfFile && !pastedText && (
+        {projectTitle && !pdfFile && !screenplayFile && !pastedText && (
           <p className="text-center text-[#666] font-courier text-sm mt-4">
-            Upload a PDF or paste screenplay text to continue
+            Upload a screenplay file or paste screenplay text to continue
           </p>
         )}
       </div>
@@ -2,16 +2,19 @@ import Link from "next/link";
 import { Plus, Film } from "lucide-react";
 import { db } from "@/lib/drizzle/db";
 import { projects } from "@/lib/drizzle/schema";
-import { desc, ne } from "drizzle-orm";
+import { and, desc, eq, ne } from "drizzle-orm";
+import { requireUserId } from "@/lib/auth";
 import { ProjectCard } from "@/components/projects/project-card";
 import { EmptyState } from "@/components/projects/empty-state";
 
 export default async function ProjectsPage() {
-  // Fetch all projects (excluding failed ones)
+  const userId = await requireUserId();
+
+  // Fetch the current user's projects (excluding failed ones)
   const allProjects = await db
     .select()
     .from(projects)
-    .where(ne(projects.status, "failed"))
+    .where(and(eq(projects.owner_id, userId), ne(projects.status, "failed")))
     .orderBy(desc(projects.updated_at));
 
   return (
@@ -3,6 +3,7 @@
 import Link from "next/link";
 import { ArrowLeft, Key, Shield } from "lucide-react";
 import { ApiKeyForm } from "@/components/settings/api-key-form";
+import { StylePresetManager } from "@/components/settings/style-preset-manager";
 
 export default function SettingsPage() {
   return (
@@ -32,13 +33,18 @@ export default function SettingsPage() {
             </h1>
           </div>
           <p className="font-courier text-[#888]">
-            Configure your API keys to use RipReel&apos;s AI features
+            Configure your API keys and visual styles for RipReel&apos;s AI features
           </p>
         </div>
 
         {/* API Keys Form */}
         <ApiKeyForm />
 
+        {/* Custom Visual Styles */}
+        <div className="mt-8">
+          <StylePresetManager />
+        </div>
+
         {/* Security Note */}
         <div className="mt-8 p-4 bg-[#0a0a0b] border border-[#333] rounded">
           <div className="flex items-start gap-3">
@@ -0,0 +1,197 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Clapperboard, Film, LinkIcon } from "lucide-react";
+import { getSharedReel, lookupShareLink, recordShareView } from "@/lib/share-links";
+import { getFormatSpec, type ProjectFormat } from "@/lib/formats";
+import { cn } from "@/lib/utils";
+
+interface PageProps {
+  params: Promise<{ shareId: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { shareId } = await params;
+  const lookup = await lookupShareLink(shareId);
+
+  return {
+    title: lookup.status === "ok" ? lookup.link.title : "Shared Reel",
+    robots: { index: false, follow: false },
+  };
+}
+
+/**
+ * Public reel review page - no account required
+ * Serves active, unexpired share links and counts each view.
+ */
+export default async function SharePage({ params }: PageProps) {
+  const { shareId } = await params;
+  const lookup = await lookupShareLink(shareId);
+
+  if (lookup.status === "not_found") {
+    notFound();
+  }
+
+  if (lookup.status !== "ok") {
+    return (
+      <ShareShell>
+        <div className="max-w-md mx-auto text-center py-24 space-y-4">
+          <LinkIcon className="mx-auto text-[#666]" size={48} />
+          <h1 className="font-oswald text-3xl uppercase tracking-wider text-white">
+            Link Unavailable
+          </h1>
+          <p className="font-courier text-sm text-[#888]">
+            {lookup.status === "expired"
+              ? "This share link has expired. Ask the filmmaker for a new one."
+              : "This share link has been turned off by the filmmaker."}
+          </p>
+        </div>
+      </ShareShell>
+    );
+  }
+
+  const shared = await getSharedReel(lookup.link);
+  if (!shared) {
+    notFound();
+  }
+
+  await recordShareView(lookup.link.id);
+
+  const aspectClass = getAspectClass(shared.format);
+
+  return (
+    <ShareShell>
+      <div className="max-w-5xl mx-auto space-y-12">
+        <h1 className="font-oswald text-4xl md:text-5xl uppercase font-bold tracking-tight text-white">
+          {shared.link.title}
+        </h1>
+
+        {/* Final Reel */}
+        {shared.reel ? (
+          <section className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Film className="text-[#f5c518]" size={24} />
+              <h2 className="font-oswald text-xl uppercase tracking-wider text-white">The Reel</h2>
+              <span className="font-courier text-sm text-[#888]">{shared.reel.version}</span>
+            </div>
+            <div
+              className={cn(
+                aspectClass,
+                "bg-black rounded-lg overflow-hidden border border-[#333]",
+                getFormatSpec(shared.format).aspectRatio === "9:16" && "max-w-sm mx-auto"
+              )}
+            >
+              {shared.reel.videoUrl ? (
+                <video
+                  src={shared.reel.videoUrl}
+                  controls
+                  playsInline
+                  poster={shared.reel.posterUrl ?? shared.storyboard[0]?.imageUrl ?? undefined}
+                  className="w-full h-full"
+                >
+                  {shared.reel.hasCaptions && (
+                    <track
+                      kind="captions"
+                      src={`/api/share/${shareId}/captions`}
+                      srcLang="en"
+                      label="English"
+                      default
+                    />
+                  )}
+                </video>
+              ) : (
+                <iframe
+                  src={`https://www.youtube.com/embed/${shared.reel.youtubeId}`}
+                  title={shared.link.title}
+                  allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                  allowFullScreen
+                  className="w-full h-full"
+                />
+              )}
+            </div>
+          </section>
+        ) : (
+          <p className="font-courier text-sm text-[#888] p-4 bg-[#1c1c1f] border border-[#333] rounded">
+            The final reel isn&apos;t assembled yet - browse the storyboard below.
+          </p>
+        )}
+
+        {/* Storyboard */}
+        {shared.storyboard.length > 0 && (
+          <section className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Clapperboard className="text-[#f5c518]" size={24} />
+              <h2 className="font-oswald text-xl uppercase tracking-wider text-white">Storyboard</h2>
+            </div>
+            <ol className="space-y-6">
+              {shared.storyboard.map((scene) => (
+                <li
+                  key={scene.id}
+                  className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-[#1c1c1f] border border-[#333] rounded-lg"
+                >
+                  <div className="space-y-2">
+                    {scene.videos.length > 0 ? (
+                      scene.videos.map((video, index) => (
+                        <video
+                          key={video.url}
+                          src={video.url}
+                          controls
+                          playsInline
+                          preload="none"
+                          poster={video.posterUrl ?? (index === 0 ? scene.imageUrl ?? undefined : undefined)}
+                          className={cn("w-full bg-black rounded", aspectClass)}
+                        />
+                      ))
+                    ) : (
+                      <img
+                        src={scene.imageUrl!}
+                        alt={scene.slugline}
+                        className={cn("w-full object-cover bg-black rounded", aspectClass)}
+                      />
+                    )}
+                  </div>
+                  <div>
+                    <p className="font-courier text-xs text-[#f5c518] uppercase mb-1">
+                      Scene {scene.sceneNumber}
+                    </p>
+                    <h3 className="font-courier font-bold uppercase text-white mb-2">{scene.slugline}</h3>
+                    <p className="font-courier text-sm text-[#888] leading-relaxed">{scene.actionText}</p>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+      </div>
+    </ShareShell>
+  );
+}
+
+function ShareShell({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen w-full bg-[#0a0a0b] text-white">
+      <header className="border-b border-[#333] py-6">
+        <div className="container mx-auto px-4">
+          <div className="font-oswald text-2xl font-bold tracking-widest">
+            ripreel<span className="text-[#f5c518]">.io</span>
+          </div>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-12">{children}</main>
+    </div>
+  );
+}
+
+/**
+ * Tailwind aspect class for the ratio a format is generated in
+ * (scope reels are delivered letterboxed in 16:9)
+ */
+function getAspectClass(format: ProjectFormat): string {
+  switch (getFormatSpec(format).aspectRatio) {
+    case "9:16":
+      return "aspect-[9/16]";
+    case "1:1":
+      return "aspect-square";
+    default:
+      return "aspect-video";
+  }
+}
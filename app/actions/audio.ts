@@ -0,0 +1,203 @@
+'use server';
+
+/**
+ * Scene Audio Server Actions
+ *
+ * Generate, upload, approve, and delete per-scene voiceover, SFX, and music
+ * tracks. Track lifecycle (replacement, storage cleanup) lives in lib/audio.ts.
+ */
+
+import { requireSceneAudioOwner, requireSceneOwner } from '@/lib/project-access';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import type { SceneAudio } from '@/lib/drizzle/schema';
+import type { ApiKeys } from '@/lib/n8n/types';
+import {
+  AUDIO_TRACK_TYPES,
+  approveSceneAudioTrack,
+  deleteSceneAudioTrack,
+  getSceneAudioTracks,
+  startSceneAudioGeneration,
+  uploadSceneAudioTrack,
+} from '@/lib/audio';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AudioActionResult =
+  | { success: true; track: SceneAudio }
+  | { success: false; error: string };
+
+/** Stays under the server action body limit (next.config.ts) */
+const MAX_AUDIO_UPLOAD_BYTES = 12 * 1024 * 1024;
+
+const ALLOWED_AUDIO_TYPES = ['audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/webm', 'audio/mp4', 'audio/aac'];
+
+const generateAudioSchema = z.object({
+  type: z.enum(AUDIO_TRACK_TYPES),
+  scriptText: z.string().trim().max(4000, 'Voiceover text is limited to 4000 characters').optional(),
+  description: z.string().trim().max(1000, 'Description is limited to 1000 characters').optional(),
+});
+
+const uploadAudioSchema = z.object({
+  type: z.enum(AUDIO_TRACK_TYPES),
+  durationSeconds: z.number().positive().max(3600).nullable(),
+});
+
+// ============================================================================
+// Audio Actions
+// ============================================================================
+
+/**
+ * Generate a track from the scene's audio requirements (or custom text)
+ * The new track replaces the current one of its type once it is ready.
+ */
+export async function generateSceneAudio(
+  sceneId: string,
+  options: { type: (typeof AUDIO_TRACK_TYPES)[number]; scriptText?: string; description?: string },
+  apiKeys?: ApiKeys
+): Promise<AudioActionResult> {
+  try {
+    const validation = generateAudioSchema.safeParse(options);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const projectId = await requireSceneOwner(sceneId);
+
+    console.log(`🎙️ Generating ${validation.data.type} for scene:`, sceneId);
+
+    const track = await startSceneAudioGeneration(sceneId, validation.data.type, {
+      scriptText: validation.data.scriptText || undefined,
+      description: validation.data.description || undefined,
+      apiKeys,
+    });
+
+    revalidatePath(`/projects/${projectId}/studio/audio`);
+    return { success: true, track };
+  } catch (error) {
+    console.error('❌ Error generating scene audio:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate audio',
+    };
+  }
+}
+
+/**
+ * Upload a finished track (custom VO or score)
+ * @param formData - `file`, `type`, and optional `durationSeconds` (read by the browser)
+ */
+export async function uploadSceneAudio(sceneId: string, formData: FormData): Promise<AudioActionResult> {
+  try {
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      return { success: false, error: 'Choose an audio file to upload' };
+    }
+    if (!ALLOWED_AUDIO_TYPES.includes(file.type)) {
+      return { success: false, error: 'Upload an MP3, WAV, WebM, or M4A file' };
+    }
+    if (file.size > MAX_AUDIO_UPLOAD_BYTES) {
+      return { success: false, error: 'Audio files are limited to 12 MB' };
+    }
+
+    const rawDuration = Number(formData.get('durationSeconds'));
+    const validation = uploadAudioSchema.safeParse({
+      type: formData.get('type'),
+      durationSeconds: Number.isFinite(rawDuration) && rawDuration > 0 ? rawDuration : null,
+    });
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const projectId = await requireSceneOwner(sceneId);
+
+    const track = await uploadSceneAudioTrack(
+      sceneId,
+      validation.data.type,
+      {
+        buffer: Buffer.from(await file.arrayBuffer()),
+        filename: file.name,
+        contentType: file.type,
+      },
+      validation.data.durationSeconds
+    );
+
+    console.log(`📤 Uploaded ${track.audio_type} for scene:`, sceneId);
+
+    revalidatePath(`/projects/${projectId}/studio/audio`);
+    return { success: true, track };
+  } catch (error) {
+    console.error('❌ Error uploading scene audio:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to upload audio',
+    };
+  }
+}
+
+/**
+ * Approve a track for the final reel
+ */
+export async function approveSceneAudio(audioId: string): Promise<AudioActionResult> {
+  try {
+    const projectId = await requireSceneAudioOwner(audioId);
+
+    const track = await approveSceneAudioTrack(audioId);
+
+    console.log(`✅ Approved ${track.audio_type} track:`, audioId);
+
+    revalidatePath(`/projects/${projectId}/studio/audio`);
+    return { success: true, track };
+  } catch (error) {
+    console.error('❌ Error approving scene audio:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to approve audio',
+    };
+  }
+}
+
+/**
+ * Delete a track - the scene falls back to the shot videos' own audio
+ */
+export async function deleteSceneAudio(
+  audioId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    const projectId = await requireSceneAudioOwner(audioId);
+
+    await deleteSceneAudioTrack(audioId);
+
+    console.log('🗑️ Deleted scene audio track:', audioId);
+
+    revalidatePath(`/projects/${projectId}/studio/audio`);
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error deleting scene audio:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete audio',
+    };
+  }
+}
+
+/**
+ * Current tracks of a scene, newest first (polled while generating)
+ */
+export async function getSceneAudio(
+  sceneId: string
+): Promise<{ success: true; tracks: SceneAudio[] } | { success: false; error: string }> {
+  try {
+    await requireSceneOwner(sceneId);
+
+    return { success: true, tracks: await getSceneAudioTracks([sceneId]) };
+  } catch (error) {
+    console.error('❌ Error loading scene audio:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load audio',
+    };
+  }
+}
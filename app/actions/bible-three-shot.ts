@@ -1,6 +1,7 @@
 'use server';
 
 import { db } from '@/lib/drizzle/db';
+import { requireBibleAssetOwner, requireBibleVariantOwner, requireProjectOwner } from '@/lib/project-access';
 import {
   projectCharacters,
   projectLocations,
@@ -11,7 +12,8 @@ import {
 } from '@/lib/drizzle/schema';
 import { eq, and, isNull } from 'drizzle-orm';
 import { revalidatePath } from 'next/cache';
-import { generateBibleImage } from '@/lib/n8n/mcp-client';
+import { generateBibleImage } from '@/lib/providers';
+import { getProjectStyle } from '@/lib/styles/resolve';
 import type { ApiKeys } from '@/lib/n8n/types';
 import { mapModelToN8NName, getDefaultAspectRatio } from '@/lib/bible/models';
 import type { AIModel, ShotType } from '@/lib/bible/models';
@@ -245,6 +247,8 @@ export async function generateCharacterShot(
   apiKeys?: ApiKeys
 ): Promise<BibleActionResult> {
   try {
+    const projectId = await requireBibleAssetOwner('character', characterId);
+
     console.log(`🎨 Generating ${shotType} for character:`, characterId);
 
     const [character] = await db
@@ -312,7 +316,7 @@ export async function generateCharacterShot(
       aspect_ratio: getDefaultAspectRatio(shotType),
       quality: getQualityForModel(mappedModel),
       shot_type: shotType,
-    }, apiKeys);
+    }, apiKeys, await getProjectStyle(projectId));
 
     console.log('📥 n8n response:', result);
 
@@ -368,6 +372,8 @@ export async function uploadCharacterShot(
   }
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner('character', characterId);
+
     console.log(`📤 Uploading ${shotType} for character:`, characterId);
 
     const [character] = await db
@@ -446,6 +452,8 @@ export async function refineCharacterShot(
   apiKeys?: ApiKeys
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner('character', characterId);
+
     console.log(`🔄 Refining ${shotType} for character:`, characterId);
 
     const [character] = await db
@@ -541,7 +549,7 @@ export async function refineCharacterShot(
     if (responseData?.taskId) {
       await db
         .update(bibleImageVariants)
-        .set({ n8n_job_id: responseData.taskId })
+        .set({ n8n_job_id: result.executionId ?? responseData.taskId })
         .where(eq(bibleImageVariants.id, variant.id));
     }
 
@@ -564,7 +572,7 @@ export async function refineCharacterShot(
             image_url: uploaded.url,
             storage_path: uploaded.path,
             status: 'ready',
-            n8n_job_id: responseData.taskId,
+            n8n_job_id: result.executionId ?? responseData.taskId,
             updated_at: new Date(),
           })
           .where(eq(bibleImageVariants.id, variant.id));
@@ -594,6 +602,8 @@ export async function approveCharacterShot(
   shotType: ShotType
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner('character', characterId);
+
     console.log(`✅ Approving ${shotType} for character:`, characterId);
 
     const [character] = await db
@@ -663,6 +673,8 @@ export async function unapproveCharacterShot(
   shotType: ShotType
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner('character', characterId);
+
     console.log(`↩️ Unapproving ${shotType} for character:`, characterId);
 
     const [character] = await db
@@ -717,6 +729,8 @@ export async function resetStuckVariants(
   maxAgeMinutes: number = 5
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner(assetType, assetId);
+
     const cutoffTime = new Date(Date.now() - maxAgeMinutes * 60 * 1000);
     console.log(`🔧 Resetting stuck variants for ${assetType}:${assetId} older than ${cutoffTime.toISOString()}`);
 
@@ -800,6 +814,8 @@ export async function resetStuckVariants(
 export async function checkCharacterComplete(
   characterId: string
 ): Promise<{ complete: boolean; approved_shots: number }> {
+  await requireBibleAssetOwner('character', characterId);
+
   const [character] = await db
     .select()
     .from(projectCharacters)
@@ -828,6 +844,8 @@ export async function updateCharacterPrompt(
   newPrompt: string
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner('character', characterId);
+
     console.log(`📝 Updating ${shotType} prompt for character:`, characterId);
 
     const [character] = await db
@@ -883,6 +901,8 @@ export async function generateLocationImageWithModel(
   apiKeys?: ApiKeys
 ): Promise<BibleActionResult> {
   try {
+    const projectId = await requireBibleAssetOwner('location', locationId);
+
     console.log('🎨 Generating location image:', locationId);
 
     const [location] = await db
@@ -914,7 +934,7 @@ export async function generateLocationImageWithModel(
       model: mappedModel,
       aspect_ratio: '16:9',
       quality: getQualityForModel(mappedModel),
-    }, apiKeys);
+    }, apiKeys, await getProjectStyle(projectId));
 
     if (!result.success) {
       await db
@@ -931,7 +951,7 @@ export async function generateLocationImageWithModel(
     await db
       .update(projectLocations)
       .set({
-        n8n_job_id: result.data?.taskId,
+        n8n_job_id: result.executionId ?? result.data?.taskId,
         updated_at: new Date(),
       })
       .where(eq(projectLocations.id, locationId));
@@ -964,6 +984,8 @@ export async function uploadLocationImage(
   }
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner('location', locationId);
+
     console.log('📤 Uploading location image:', locationId);
 
     const [location] = await db
@@ -1028,6 +1050,8 @@ export async function refineLocationImage(
   apiKeys?: ApiKeys
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner('location', locationId);
+
     console.log('🔄 Refining location image:', locationId);
 
     const [location] = await db
@@ -1113,7 +1137,7 @@ export async function refineLocationImage(
     if (responseData?.taskId) {
       await db
         .update(bibleImageVariants)
-        .set({ n8n_job_id: responseData.taskId })
+        .set({ n8n_job_id: result.executionId ?? responseData.taskId })
         .where(eq(bibleImageVariants.id, variant.id));
     }
 
@@ -1135,7 +1159,7 @@ export async function refineLocationImage(
             image_url: uploaded.url,
             storage_path: uploaded.path,
             status: 'ready',
-            n8n_job_id: responseData.taskId,
+            n8n_job_id: result.executionId ?? responseData.taskId,
             updated_at: new Date(),
           })
           .where(eq(bibleImageVariants.id, variant.id));
@@ -1176,6 +1200,8 @@ export async function generatePropImageWithModel(
   apiKeys?: ApiKeys
 ): Promise<BibleActionResult> {
   try {
+    const projectId = await requireBibleAssetOwner('prop', propId);
+
     console.log('🎨 Generating prop image:', propId);
 
     const [prop] = await db
@@ -1205,7 +1231,7 @@ export async function generatePropImageWithModel(
       model: mappedModel,
       aspect_ratio: '1:1',
       quality: getQualityForModel(mappedModel),
-    }, apiKeys);
+    }, apiKeys, await getProjectStyle(projectId));
 
     if (!result.success) {
       await db
@@ -1222,7 +1248,7 @@ export async function generatePropImageWithModel(
     await db
       .update(projectProps)
       .set({
-        n8n_job_id: result.data?.taskId,
+        n8n_job_id: result.executionId ?? result.data?.taskId,
         updated_at: new Date(),
       })
       .where(eq(projectProps.id, propId));
@@ -1255,6 +1281,8 @@ export async function uploadPropImage(
   }
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner('prop', propId);
+
     console.log('📤 Uploading prop image:', propId);
 
     const [prop] = await db
@@ -1317,6 +1345,8 @@ export async function refinePropImage(
   apiKeys?: ApiKeys
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner('prop', propId);
+
     console.log('🔄 Refining prop image:', propId);
 
     const [prop] = await db
@@ -1402,7 +1432,7 @@ export async function refinePropImage(
     if (responseData?.taskId) {
       await db
         .update(bibleImageVariants)
-        .set({ n8n_job_id: responseData.taskId })
+        .set({ n8n_job_id: result.executionId ?? responseData.taskId })
         .where(eq(bibleImageVariants.id, variant.id));
     }
 
@@ -1424,7 +1454,7 @@ export async function refinePropImage(
             image_url: uploaded.url,
             storage_path: uploaded.path,
             status: 'ready',
-            n8n_job_id: responseData.taskId,
+            n8n_job_id: result.executionId ?? responseData.taskId,
             updated_at: new Date(),
           })
           .where(eq(bibleImageVariants.id, variant.id));
@@ -1471,6 +1501,8 @@ export async function generateMultipleVariants(
   apiKeys?: ApiKeys
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner(assetType, assetId);
+
     console.log(`🎨 Generating multiple variants for ${assetType}:`, assetId);
 
     // Map selected models to full AIModel names
@@ -1571,6 +1603,9 @@ export async function generateMultipleVariants(
       })
     );
 
+    // Visual style preset - injected into each model's prompt
+    const style = await getProjectStyle(projectId);
+
     // Step 2: Trigger ALL generations in PARALLEL
     console.log(`🚀 Starting PARALLEL generation for ${models.length} variants...`);
 
@@ -1591,7 +1626,7 @@ export async function generateMultipleVariants(
         quality: getQualityForModel(mappedModel),
         shot_type: shotType,
         variant_id: variant.id,
-      }, apiKeys);
+      }, apiKeys, style);
 
       // Log FULL response structure
       console.log(`📦 [${model}] n8n response:`, JSON.stringify(result, null, 2));
@@ -1608,7 +1643,7 @@ export async function generateMultipleVariants(
         if (responseData.taskId) {
           await db
             .update(bibleImageVariants)
-            .set({ n8n_job_id: responseData.taskId })
+            .set({ n8n_job_id: result.executionId ?? responseData.taskId })
             .where(eq(bibleImageVariants.id, variant.id));
           console.log(`✅ [${model}] Stored taskId: ${responseData.taskId}`);
         } else {
@@ -1636,7 +1671,7 @@ export async function generateMultipleVariants(
                 image_url: uploaded.url,
                 storage_path: uploaded.path,
                 status: 'ready',
-                n8n_job_id: responseData.taskId,
+                n8n_job_id: result.executionId ?? responseData.taskId,
                 updated_at: new Date(),
               })
               .where(eq(bibleImageVariants.id, variant.id));
@@ -1647,7 +1682,7 @@ export async function generateMultipleVariants(
             await db
               .update(bibleImageVariants)
               .set({
-                n8n_job_id: responseData.taskId,
+                n8n_job_id: result.executionId ?? responseData.taskId,
                 updated_at: new Date(),
               })
               .where(eq(bibleImageVariants.id, variant.id));
@@ -1820,7 +1855,7 @@ export async function generateMultipleVariantsFromReference(
         if (responseData.taskId) {
           await db
             .update(bibleImageVariants)
-            .set({ n8n_job_id: responseData.taskId })
+            .set({ n8n_job_id: result.executionId ?? responseData.taskId })
             .where(eq(bibleImageVariants.id, variant.id));
           console.log(`✅ [${model}] Stored taskId: ${responseData.taskId}`);
         }
@@ -1844,7 +1879,7 @@ export async function generateMultipleVariantsFromReference(
                 image_url: uploaded.url,
                 storage_path: uploaded.path,
                 status: 'ready',
-                n8n_job_id: responseData.taskId,
+                n8n_job_id: result.executionId ?? responseData.taskId,
                 updated_at: new Date(),
               })
               .where(eq(bibleImageVariants.id, variant.id));
@@ -1855,7 +1890,7 @@ export async function generateMultipleVariantsFromReference(
             await db
               .update(bibleImageVariants)
               .set({
-                n8n_job_id: responseData.taskId,
+                n8n_job_id: result.executionId ?? responseData.taskId,
                 updated_at: new Date(),
               })
               .where(eq(bibleImageVariants.id, variant.id));
@@ -1893,6 +1928,8 @@ export async function generateMultipleVariantsFromReference(
  */
 export async function selectVariant(variantId: string): Promise<BibleActionResult> {
   try {
+    await requireBibleVariantOwner(variantId);
+
     console.log('✅ Selecting variant:', variantId);
 
     const [variant] = await db
@@ -2098,6 +2135,8 @@ export async function addSingleVariant(
   apiKeys?: ApiKeys
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner(assetType, assetId);
+
     console.log(`🎨 Adding single variant for ${assetType}:`, assetId, `with model: ${model}`);
 
     // Map model name to full AIModel
@@ -2222,7 +2261,7 @@ export async function addSingleVariant(
       quality: getQualityForModel(mappedModel),
       shot_type: shotType,
       variant_id: variant.id,
-    }, apiKeys);
+    }, apiKeys, await getProjectStyle(projectId));
 
     if (!result.success) {
       await db
@@ -2243,7 +2282,7 @@ export async function addSingleVariant(
     if (responseData?.taskId) {
       await db
         .update(bibleImageVariants)
-        .set({ n8n_job_id: responseData.taskId })
+        .set({ n8n_job_id: result.executionId ?? responseData.taskId })
         .where(eq(bibleImageVariants.id, variant.id));
     }
 
@@ -2265,7 +2304,7 @@ export async function addSingleVariant(
             image_url: uploaded.url,
             storage_path: uploaded.path,
             status: 'ready',
-            n8n_job_id: responseData.taskId,
+            n8n_job_id: result.executionId ?? responseData.taskId,
             updated_at: new Date(),
           })
           .where(eq(bibleImageVariants.id, variant.id));
@@ -2298,6 +2337,8 @@ export async function addSingleVariant(
  */
 export async function deleteVariant(variantId: string): Promise<BibleActionResult> {
   try {
+    await requireBibleVariantOwner(variantId);
+
     console.log('🗑️ Deleting variant:', variantId);
 
     const [variant] = await db
@@ -2401,6 +2442,8 @@ export async function fixDuplicateSelectedVariants(
   shotType?: 'portrait' | 'three_quarter' | 'full_body'
 ): Promise<BibleActionResult> {
   try {
+    await requireBibleAssetOwner(assetType, assetId);
+
     console.log('🔧 Fixing duplicate selected variants:', { assetType, assetId, shotType });
 
     // Find all selected variants for this asset/shot
@@ -2490,6 +2533,8 @@ export async function fixDuplicateSelectedVariants(
  */
 export async function forceDeleteVariant(variantId: string): Promise<BibleActionResult> {
   try {
+    await requireBibleVariantOwner(variantId);
+
     console.log('⚠️ Force deleting variant:', variantId);
 
     const [variant] = await db
@@ -2623,6 +2668,8 @@ export async function bulkApproveBibleImages(
   projectId: string
 ): Promise<BibleActionResult & { approvedCount?: number }> {
   try {
+    await requireProjectOwner(projectId);
+
     console.log('📦 Bulk approving Bible images for project:', projectId);
 
     let approvedCount = 0;
@@ -1,6 +1,7 @@
 'use server';
 
 import { db } from '@/lib/drizzle/db';
+import { requireBibleAssetOwner, requireProjectOwner } from '@/lib/project-access';
 import {
   projectCharacters,
   projectLocations,
@@ -107,6 +108,8 @@ export async function generateCharacterPortrait(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireBibleAssetOwner('character', characterId);
+
     console.log('🎨 Generating character portrait:', characterId);
 
     const [character] = await db
@@ -165,6 +168,8 @@ export async function approveCharacterPortrait(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireBibleAssetOwner('character', characterId);
+
     console.log('✅ Approving character portrait:', characterId);
 
     const [character] = await db
@@ -224,6 +229,8 @@ export async function updateCharacter(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireBibleAssetOwner('character', characterId);
+
     const [character] = await db
       .select()
       .from(projectCharacters)
@@ -294,6 +301,8 @@ export async function generateLocationImage(
       return { success: false, error: 'Invalid time variant' };
     }
 
+    await requireBibleAssetOwner('location', locationId);
+
     console.log('🎨 Generating location image:', locationId, timeVariant);
 
     const [location] = await db
@@ -353,6 +362,8 @@ export async function approveLocationImage(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireBibleAssetOwner('location', locationId);
+
     console.log('✅ Approving location image:', locationId);
 
     const [location] = await db
@@ -417,6 +428,8 @@ export async function updateLocation(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireBibleAssetOwner('location', locationId);
+
     const [location] = await db
       .select()
       .from(projectLocations)
@@ -482,6 +495,8 @@ export async function generatePropImage(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireBibleAssetOwner('prop', propId);
+
     console.log('🎨 Generating prop image:', propId);
 
     const [prop] = await db
@@ -538,6 +553,8 @@ export async function updateProp(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireBibleAssetOwner('prop', propId);
+
     const [prop] = await db
       .select()
       .from(projectProps)
@@ -588,6 +605,8 @@ export async function approveProp(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireBibleAssetOwner('prop', propId);
+
     console.log('✅ Approving prop:', propId);
 
     const [prop] = await db
@@ -643,6 +662,8 @@ export async function approveAllBibleAssets(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireProjectOwner(projectId);
+
     console.log('✅ Approving all Bible assets for project:', projectId);
     const now = new Date();
 
@@ -713,6 +734,8 @@ export async function approveAllBibleAssets(
 export async function getBibleApprovalStatus(
   projectId: string
 ): Promise<BibleApprovalStatus> {
+  await requireProjectOwner(projectId);
+
   const characters = await db
     .select()
     .from(projectCharacters)
@@ -791,6 +814,8 @@ export async function skipBibleReview(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireProjectOwner(projectId);
+
     console.log('⏭️ Skipping Bible review for project:', projectId);
 
     // Mark all Bible assets as approved without images
@@ -846,6 +871,8 @@ export async function updatePropToDescribe(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireBibleAssetOwner('prop', propId);
+
     const [prop] = await db
       .select()
       .from(projectProps)
@@ -894,6 +921,8 @@ export async function batchUpdatePropsToDescribe(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireProjectOwner(projectId);
+
     const props = await db
       .select()
       .from(projectProps)
@@ -952,6 +981,8 @@ export async function listProjectProps(
       return { success: false, error: validation.error.errors[0].message };
     }
 
+    await requireProjectOwner(projectId);
+
     const props = await db
       .select({
         id: projectProps.id,
@@ -0,0 +1,172 @@
+'use server';
+
+/**
+ * Reel Caption Server Actions
+ *
+ * Edit and regenerate a reel version's caption cues, and queue a
+ * `caption_burn_in` background job that renders a copy of the reel with
+ * the captions in the picture. Cues are generated when the version is
+ * created (see lib/captions.ts); SRT and WebVTT downloads are served by
+ * the captions API routes.
+ */
+
+import { db } from '@/lib/drizzle/db';
+import { requireReelOwner } from '@/lib/project-access';
+import { final_reels } from '@/lib/drizzle/schema';
+import { eq } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { generateReelCaptions } from '@/lib/assembly';
+import { isFfmpegAvailable } from '@/lib/ffmpeg';
+import { enqueueJob, kickJobWorker } from '@/lib/jobs';
+import { normalizeCaptionCues, toCaptionCues, type CaptionCue } from '@/lib/captions';
+import { toReelManifest } from '@/lib/reel-versions';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CaptionActionResult =
+  | { success: true; cues: CaptionCue[] }
+  | { success: false; error: string };
+
+export type BurnInCaptionsResult =
+  | { success: true; jobId: string }
+  | { success: false; error: string };
+
+const cueSchema = z
+  .object({
+    start: z.number().min(0, 'Cue times cannot be negative'),
+    end: z.number().min(0, 'Cue times cannot be negative'),
+    text: z.string().max(200, 'Cues are limited to 200 characters'),
+  })
+  .refine((cue) => cue.end > cue.start, 'Every cue must end after it starts');
+
+const cuesSchema = z.array(cueSchema).max(2000, 'Too many cues (2000 at most)');
+
+// Edited captions make an existing burned-in copy stale
+const CLEAR_BURN_IN = {
+  captioned_video_url: null,
+  captioned_video_status: null,
+  captioned_error_message: null,
+} as const;
+
+// ============================================================================
+// Caption Actions
+// ============================================================================
+
+/**
+ * Save edited caption cues for a reel version
+ *
+ * Cues are sorted by start time and empty ones dropped. Clears the
+ * burned-in copy, which no longer matches.
+ */
+export async function saveReelCaptions(
+  reelId: string,
+  cues: CaptionCue[]
+): Promise<CaptionActionResult> {
+  try {
+    const validation = cuesSchema.safeParse(cues);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const reel = await requireReelOwner(reelId);
+    const normalized = normalizeCaptionCues(validation.data);
+
+    await db
+      .update(final_reels)
+      .set({ captions: normalized, ...CLEAR_BURN_IN })
+      .where(eq(final_reels.id, reelId));
+
+    console.log(`💬 Saved ${normalized.length} captions for reel`, reelId);
+
+    revalidatePath(`/projects/${reel.project_id}/studio/export`, 'page');
+    return { success: true, cues: normalized };
+  } catch (error) {
+    console.error('❌ Error saving captions:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save captions',
+    };
+  }
+}
+
+/**
+ * Rebuild a reel version's captions from the current shot dialogue,
+ * replacing any edits
+ */
+export async function regenerateReelCaptions(reelId: string): Promise<CaptionActionResult> {
+  try {
+    const reel = await requireReelOwner(reelId);
+
+    const manifest = toReelManifest(reel.manifest);
+    if (!manifest) {
+      return { success: false, error: 'This version was assembled before versioning - assemble a new version to caption it' };
+    }
+
+    const cues = await generateReelCaptions(manifest);
+
+    await db
+      .update(final_reels)
+      .set({ captions: cues, ...CLEAR_BURN_IN })
+      .where(eq(final_reels.id, reelId));
+
+    console.log(`💬 Regenerated ${cues.length} captions for reel`, reelId);
+
+    revalidatePath(`/projects/${reel.project_id}/studio/export`, 'page');
+    return { success: true, cues };
+  } catch (error) {
+    console.error('❌ Error regenerating captions:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to regenerate captions',
+    };
+  }
+}
+
+/**
+ * Queue rendering a copy of a ready reel with its captions burned in
+ * Needs ffmpeg on the server, whichever engine assembled the reel.
+ */
+export async function burnInCaptions(reelId: string): Promise<BurnInCaptionsResult> {
+  try {
+    const reel = await requireReelOwner(reelId);
+
+    if (reel.status !== 'ready' || !reel.video_url) {
+      return { success: false, error: 'Only assembled reels can be captioned' };
+    }
+
+    const cues = toCaptionCues(reel.captions);
+    if (!cues || cues.length === 0) {
+      return { success: false, error: 'This version has no captions - add or regenerate them first' };
+    }
+
+    if (reel.captioned_video_status === 'generating') {
+      return { success: false, error: 'Captions are already being burned in' };
+    }
+
+    if (!(await isFfmpegAvailable())) {
+      return { success: false, error: 'ffmpeg not found on the server - install it or set FFMPEG_PATH' };
+    }
+
+    await db
+      .update(final_reels)
+      .set({ captioned_video_url: null, captioned_video_status: 'generating', captioned_error_message: null })
+      .where(eq(final_reels.id, reelId));
+
+    const job = await enqueueJob(reel.project_id, 'caption_burn_in', { reelId }, { dedupe: false });
+    kickJobWorker();
+
+    console.log('✅ Caption burn-in queued:', job.id);
+    revalidatePath(`/projects/${reel.project_id}/studio/export`, 'page');
+
+    return { success: true, jobId: job.id };
+  } catch (error) {
+    console.error('❌ Error queueing caption burn-in:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to burn in captions',
+    };
+  }
+}
@@ -0,0 +1,106 @@
+'use server';
+
+/**
+ * Keyframe Continuity Server Actions
+ *
+ * Turn a scene's continuity mode on or off, and let single shots keep their
+ * own start frame. Chained start frames are resolved when shots generate -
+ * see lib/continuity.
+ */
+
+import { db } from '@/lib/drizzle/db';
+import { requireSceneOwner, requireShotOwner } from '@/lib/project-access';
+import { scenes, scene_shots } from '@/lib/drizzle/schema';
+import { eq } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { syncSceneContinuity } from '@/lib/continuity/resolve';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ContinuityActionResult =
+  | { success: true; extracted?: number }
+  | { success: false; error: string };
+
+const enabledSchema = z.boolean();
+
+// ============================================================================
+// Continuity Actions
+// ============================================================================
+
+/**
+ * Turn keyframe continuity on or off for a scene
+ *
+ * Turning it on extracts the last frames of the scene's existing videos
+ * (when ffmpeg is available) so the chained start frames show right away.
+ */
+export async function setSceneContinuityMode(
+  sceneId: string,
+  enabled: boolean
+): Promise<ContinuityActionResult> {
+  try {
+    const validation = enabledSchema.safeParse(enabled);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const projectId = await requireSceneOwner(sceneId);
+
+    await db
+      .update(scenes)
+      .set({ continuity_mode: validation.data, updated_at: new Date() })
+      .where(eq(scenes.id, sceneId));
+
+    console.log(`🔗 Continuity ${validation.data ? 'on' : 'off'} for scene:`, sceneId);
+
+    const { extracted } = validation.data
+      ? await syncSceneContinuity(sceneId, { extract: true })
+      : { extracted: 0 };
+
+    revalidatePath(`/projects/${projectId}/studio/video`, 'page');
+
+    return { success: true, extracted };
+  } catch (error) {
+    console.error('❌ Error setting scene continuity:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update continuity',
+    };
+  }
+}
+
+/**
+ * Keep a shot's own start frame in a continuity scene (or chain it again)
+ */
+export async function setShotContinuityOverride(
+  shotId: string,
+  override: boolean
+): Promise<ContinuityActionResult> {
+  try {
+    const validation = enabledSchema.safeParse(override);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const projectId = await requireShotOwner(shotId);
+
+    await db
+      .update(scene_shots)
+      .set({ continuity_override: validation.data, updated_at: new Date() })
+      .where(eq(scene_shots.id, shotId));
+
+    console.log(`🔗 Continuity override ${validation.data ? 'set' : 'cleared'} for shot:`, shotId);
+
+    revalidatePath(`/projects/${projectId}/studio/video`, 'page');
+
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error setting continuity override:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update continuity override',
+    };
+  }
+}
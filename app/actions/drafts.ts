@@ -0,0 +1,74 @@
+'use server';
+
+/**
+ * Draft Re-import Server Actions
+ *
+ * Preview and apply a revised screenplay draft on an existing project.
+ * The diff and the writes live in lib/draft-reimport.ts.
+ */
+
+import { requireProjectOwner } from '@/lib/project-access';
+import { revalidatePath } from 'next/cache';
+import { applyDraft, diffDraft, type DraftInput, type DraftReimportSummary } from '@/lib/draft-reimport';
+import type { ScreenplayDiff } from '@/lib/screenplay';
+
+export type DraftPreviewResult =
+  | { success: true; diff: ScreenplayDiff }
+  | { success: false; error: string };
+
+export type DraftApplyResult =
+  | { success: true; summary: DraftReimportSummary }
+  | { success: false; error: string };
+
+/**
+ * Diff a new draft against the project's scenes without changing anything
+ */
+export async function previewDraftReimport(
+  projectId: string,
+  draft: DraftInput
+): Promise<DraftPreviewResult> {
+  try {
+    await requireProjectOwner(projectId);
+
+    console.log('📄 Diffing new draft for project:', projectId);
+
+    const diff = await diffDraft(projectId, draft);
+
+    console.log('📄 Draft diff:', diff.counts);
+    return { success: true, diff };
+  } catch (error) {
+    console.error('❌ Error diffing draft:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read draft',
+    };
+  }
+}
+
+/**
+ * Apply a new draft: keep unchanged scenes, reset changed ones, add and remove the rest
+ */
+export async function applyDraftReimport(
+  projectId: string,
+  draft: DraftInput
+): Promise<DraftApplyResult> {
+  try {
+    await requireProjectOwner(projectId);
+
+    console.log('📄 Applying new draft to project:', projectId);
+
+    const summary = await applyDraft(projectId, draft);
+
+    console.log('✅ Draft applied:', summary);
+
+    revalidatePath(`/projects/${projectId}/studio`, 'layout');
+
+    return { success: true, summary };
+  } catch (error) {
+    console.error('❌ Error applying draft:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to apply draft',
+    };
+  }
+}
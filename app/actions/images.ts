@@ -1,9 +1,11 @@
 "use server";
 
 import { db } from "@/lib/drizzle/db";
+import { requireSceneImageOwner, requireSceneOwner } from "@/lib/project-access";
 import { scene_images } from "@/lib/drizzle/schema";
 import { eq, and, isNull } from "drizzle-orm";
-import { env } from "@/lib/env";
+import { createSignedHeaders } from "@/lib/n8n/signing";
+import { getWorkflowByName } from "@/lib/n8n/mcp-client";
 
 export type GenerateImageResult =
   | { success: true; imageId: string }
@@ -21,6 +23,8 @@ export async function generateNanoBananaImage(
   prompt: string
 ): Promise<GenerateImageResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     console.log("🍌 Generating Nano Banana image for scene:", sceneId);
 
     // Create scene_images record with nano-banana phase
@@ -40,17 +44,19 @@ export async function generateNanoBananaImage(
 
     // Trigger n8n workflow for Nano Banana generation
     try {
-      if (!env.N8N_IMAGE_GENERATION_WEBHOOK) {
-        throw new Error('N8N_IMAGE_GENERATION_WEBHOOK not configured');
+      const workflow = await getWorkflowByName("image_generation_orchestrator");
+      if (!workflow?.webhookUrl) {
+        throw new Error('Image generation workflow not configured');
       }
-      const webhookResponse = await fetch(env.N8N_IMAGE_GENERATION_WEBHOOK, {
+      const body = JSON.stringify({
+        scene_image_id: imageRecord.id,
+        prompt: prompt,
+        callback_url: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/nano-banana-complete`,
+      });
+      const webhookResponse = await fetch(workflow.webhookUrl, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          scene_image_id: imageRecord.id,
-          prompt: prompt,
-          callback_url: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/nano-banana-complete`,
-        }),
+        headers: { "Content-Type": "application/json", ...createSignedHeaders(body) },
+        body,
       });
 
       if (!webhookResponse.ok) {
@@ -99,6 +105,8 @@ export async function regenerateNanoBananaImage(
   userFeedback?: string
 ): Promise<GenerateImageResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     console.log("🔄 Regenerating Nano Banana image for scene:", sceneId);
 
     // Get current iteration
@@ -130,20 +138,22 @@ export async function regenerateNanoBananaImage(
 
     // Trigger n8n workflow for Nano Banana regeneration with optional feedback
     try {
-      if (!env.N8N_IMAGE_GENERATION_WEBHOOK) {
-        throw new Error('N8N_IMAGE_GENERATION_WEBHOOK not configured');
+      const workflow = await getWorkflowByName("image_generation_orchestrator");
+      if (!workflow?.webhookUrl) {
+        throw new Error('Image generation workflow not configured');
       }
-      const webhookResponse = await fetch(env.N8N_IMAGE_GENERATION_WEBHOOK, {
+      const body = JSON.stringify({
+        scene_image_id: newImageRecord.id,
+        prompt: prompt,
+        user_feedback: userFeedback || "Please improve the image",
+        iteration: newImageRecord.refinement_iteration,
+        previous_image_id: currentImageId,
+        callback_url: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/nano-banana-complete`,
+      });
+      const webhookResponse = await fetch(workflow.webhookUrl, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          scene_image_id: newImageRecord.id,
-          prompt: prompt,
-          user_feedback: userFeedback || "Please improve the image",
-          iteration: newImageRecord.refinement_iteration,
-          previous_image_id: currentImageId,
-          callback_url: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/nano-banana-complete`,
-        }),
+        headers: { "Content-Type": "application/json", ...createSignedHeaders(body) },
+        body,
       });
 
       if (!webhookResponse.ok) {
@@ -189,6 +199,8 @@ export async function approveNanoBananaImage(
   imageId: string
 ): Promise<ApproveImageResult> {
   try {
+    await requireSceneImageOwner(imageId);
+
     console.log("✅ Approving Nano Banana image:", imageId);
 
     await db
@@ -219,6 +231,8 @@ export async function generateFluxEnhancement(
   enhancementPrompt: string
 ): Promise<GenerateImageResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     console.log("🎨 Generating Flux enhancement for scene:", sceneId);
 
     // Verify Nano Banana image is approved
@@ -263,18 +277,20 @@ export async function generateFluxEnhancement(
 
     // Trigger n8n workflow for Flux image-to-image enhancement
     try {
-      if (!env.N8N_FLUX_ENHANCEMENT_WEBHOOK) {
+      const workflow = await getWorkflowByName("image_enhancement_flux");
+      if (!workflow?.webhookUrl) {
         throw new Error("Flux enhancement webhook not configured");
       }
-      const webhookResponse = await fetch(env.N8N_FLUX_ENHANCEMENT_WEBHOOK, {
+      const body = JSON.stringify({
+        scene_image_id: fluxRecord.id,
+        reference_image_url: nanoBananaImage.image_url,
+        enhancement_prompt: enhancementPrompt,
+        callback_url: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/flux-complete`,
+      });
+      const webhookResponse = await fetch(workflow.webhookUrl, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          scene_image_id: fluxRecord.id,
-          reference_image_url: nanoBananaImage.image_url,
-          enhancement_prompt: enhancementPrompt,
-          callback_url: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/flux-complete`,
-        }),
+        headers: { "Content-Type": "application/json", ...createSignedHeaders(body) },
+        body,
       });
 
       if (!webhookResponse.ok) {
@@ -324,6 +340,8 @@ export async function regenerateFluxEnhancement(
   userFeedback?: string
 ): Promise<GenerateImageResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     console.log("🔄 Regenerating Flux enhancement for scene:", sceneId);
 
     // Get current iteration
@@ -366,21 +384,23 @@ export async function regenerateFluxEnhancement(
 
     // Trigger n8n workflow for Flux regeneration with optional feedback
     try {
-      if (!env.N8N_FLUX_ENHANCEMENT_WEBHOOK) {
+      const workflow = await getWorkflowByName("image_enhancement_flux");
+      if (!workflow?.webhookUrl) {
         throw new Error("Flux enhancement webhook not configured");
       }
-      const webhookResponse = await fetch(env.N8N_FLUX_ENHANCEMENT_WEBHOOK, {
+      const body = JSON.stringify({
+        scene_image_id: newFluxRecord.id,
+        reference_image_url: nanoBananaImage.image_url,
+        enhancement_prompt: enhancementPrompt,
+        user_feedback: userFeedback || "Please improve the enhancement",
+        iteration: newFluxRecord.refinement_iteration,
+        previous_image_id: currentFluxImageId,
+        callback_url: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/flux-complete`,
+      });
+      const webhookResponse = await fetch(workflow.webhookUrl, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          scene_image_id: newFluxRecord.id,
-          reference_image_url: nanoBananaImage.image_url,
-          enhancement_prompt: enhancementPrompt,
-          user_feedback: userFeedback || "Please improve the enhancement",
-          iteration: newFluxRecord.refinement_iteration,
-          previous_image_id: currentFluxImageId,
-          callback_url: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/flux-complete`,
-        }),
+        headers: { "Content-Type": "application/json", ...createSignedHeaders(body) },
+        body,
       });
 
       if (!webhookResponse.ok) {
@@ -426,6 +446,8 @@ export async function approveFluxImage(
   imageId: string
 ): Promise<ApproveImageResult> {
   try {
+    await requireSceneImageOwner(imageId);
+
     console.log("✅ Approving Flux image:", imageId);
 
     await db
@@ -456,6 +478,8 @@ export async function approveFluxImage(
  */
 export async function getSceneImages(sceneId: string) {
   try {
+    await requireSceneOwner(sceneId);
+
     const images = await db
       .select()
       .from(scene_images)
@@ -0,0 +1,63 @@
+'use server';
+
+/**
+ * Background Job Server Actions
+ *
+ * Lets the studio UI read real job state (queued, running, retrying,
+ * failed) and retry jobs that ran out of attempts.
+ */
+
+import { requireJobOwner, requireProjectOwner } from '@/lib/project-access';
+import {
+  getProjectJobSummaries,
+  kickJobWorker,
+  requeueJob,
+  toJobSummary,
+  type JobSummary,
+} from '@/lib/jobs';
+import type { ApiKeys } from '@/lib/n8n/types';
+
+export type JobActionResult =
+  | { success: true; job: JobSummary }
+  | { success: false; error: string };
+
+/**
+ * Get the latest job of each type for a project
+ */
+export async function getProjectJobs(projectId: string): Promise<JobSummary[]> {
+  await requireProjectOwner(projectId);
+
+  return getProjectJobSummaries(projectId);
+}
+
+/**
+ * Retry a failed job with a fresh set of attempts
+ *
+ * API keys are removed from job payloads once a job fails, so pass them
+ * again when the job needs user-provided keys.
+ */
+export async function retryJob(
+  jobId: string,
+  apiKeys?: ApiKeys
+): Promise<JobActionResult> {
+  try {
+    await requireJobOwner(jobId);
+
+    console.log('🔄 Retrying job:', jobId);
+
+    const job = await requeueJob(jobId, apiKeys ? { apiKeys } : undefined);
+    if (!job) {
+      return { success: false, error: 'Only failed jobs can be retried' };
+    }
+
+    kickJobWorker();
+
+    return { success: true, job: toJobSummary(job) };
+  } catch (error) {
+    console.error('❌ Error retrying job:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retry job',
+    };
+  }
+}
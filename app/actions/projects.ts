@@ -1,18 +1,32 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
-import { generateBible, generateScenes, parseScript, type ParseScriptResult, type ApiKeys } from "@/lib/n8n";
+import { parseScript, type ParseScriptResult, type ApiKeys } from "@/lib/n8n";
+import { generateBible } from "@/lib/providers";
 import { db } from "@/lib/drizzle/db";
+import { requireProjectOwner, requireSceneOwner } from "@/lib/project-access";
 import {
   projects,
   scenes as scenesTable,
   projectCharacters,
   projectLocations,
   projectProps,
+  style_presets,
   type NewScene,
-  type RawSceneData,
 } from "@/lib/drizzle/schema";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
+import { enqueueJob, kickJobWorker } from "@/lib/jobs";
+import {
+  parseScreenplayFile,
+  toRawSceneData,
+  toScreenplayText,
+  findMissingCharacters,
+  ScreenplayParseError,
+  type ParsedScreenplay,
+  type ScreenplayFormat,
+} from "@/lib/screenplay";
+import { DEFAULT_STYLE_KEY, getBuiltinStyle } from "@/lib/styles";
+import { DEFAULT_PROJECT_FORMAT, isProjectFormat, type ProjectFormat } from "@/lib/formats";
 
 // Helper to map n8n character tier to database role enum
 function mapTierToRole(tier: string | undefined): 'lead' | 'supporting' | 'background' {
@@ -40,8 +54,11 @@ export type UploadScriptPayload = {
   projectName: string;
   scriptContent: string; // For text input
   fileData?: ArrayBuffer; // For PDF upload
-  visualStyle?: string;
+  visualStyle?: string; // Built-in style key
+  stylePresetId?: string; // User style preset (takes precedence over visualStyle)
+  format?: ProjectFormat; // Aspect ratio / delivery format (defaults to 16:9)
   isPdf: boolean;
+  scriptFormat?: ScreenplayFormat; // Fountain/FDX file in scriptContent - parsed locally first
   fileName?: string;
   autoMode?: boolean; // Auto-generate Bible assets after parsing
   apiKeys?: ApiKeys; // User-provided API keys from localStorage
@@ -54,6 +71,9 @@ export type UploadScriptPayload = {
  * 2. Uploading the screenplay to Supabase Storage (if PDF)
  * 3. Sending the screenplay to n8n for parsing
  * 4. Storing the parsed scenes (optional - can be done via webhook callback)
+ *
+ * Fountain and Final Draft files are parsed locally first: the parse fixes
+ * the scene list and dialogue, and adds any speaking character the LLM missed.
  */
 export async function createProject(
   payload: UploadScriptPayload
@@ -68,12 +88,57 @@ export async function createProject(
       kieLength: payload.apiKeys?.kie?.length || 0,
     });
 
-    // Get authenticated user (for Supabase storage)
+    // Get authenticated user (project owner + storage path prefix)
     const supabase = await createClient();
     const {
       data: { user },
     } = await supabase.auth.getUser();
 
+    if (!user) {
+      return {
+        success: false,
+        error: "Authentication required",
+      };
+    }
+
+    // Fountain/FDX: parse locally before anything is stored
+    let parsedScreenplay: ParsedScreenplay | null = null;
+    if (payload.scriptFormat) {
+      try {
+        parsedScreenplay = parseScreenplayFile(payload.scriptFormat, payload.scriptContent);
+      } catch (error) {
+        if (error instanceof ScreenplayParseError) {
+          return { success: false, error: error.message };
+        }
+        throw error;
+      }
+      console.log(`📄 Parsed ${payload.scriptFormat} screenplay:`, {
+        scenes: parsedScreenplay.scenes.length,
+        characters: parsedScreenplay.characters.length,
+      });
+    }
+
+    if (payload.format !== undefined && !isProjectFormat(payload.format)) {
+      return { success: false, error: "Unsupported project format" };
+    }
+
+    // Visual style: one of the user's presets, or a built-in key
+    let visualStyle = getBuiltinStyle(payload.visualStyle ?? "")?.key ?? DEFAULT_STYLE_KEY;
+    let stylePresetId: string | null = null;
+    if (payload.stylePresetId) {
+      const [preset] = await db
+        .select({ id: style_presets.id, name: style_presets.name })
+        .from(style_presets)
+        .where(and(eq(style_presets.id, payload.stylePresetId), eq(style_presets.owner_id, user.id)))
+        .limit(1);
+
+      if (!preset) {
+        return { success: false, error: "Style preset not found" };
+      }
+      visualStyle = preset.name;
+      stylePresetId = preset.id;
+    }
+
     // For storage uploads in demo mode, use service role key to bypass RLS
     const { createClient: createSupabaseClient } = await import("@supabase/supabase-js");
     const { env } = await import("@/lib/env");
@@ -84,7 +149,7 @@ export async function createProject(
 
     // Generate storage path for screenplay
     const timestamp = Date.now();
-    const userId = user?.id || "anonymous";
+    const userId = user.id;
     const storagePath = `${userId}/${timestamp}/${payload.fileName || "script.txt"}`;
 
     // Store screenplay content in Supabase Storage
@@ -103,7 +168,9 @@ export async function createProject(
     const { data: uploadData2, error: uploadError } = await storageClient.storage
       .from("pdfs")
       .upload(storagePath, uploadData, {
-        contentType: payload.isPdf ? "application/pdf" : "text/plain",
+        contentType: payload.isPdf
+          ? "application/pdf"
+          : payload.scriptFormat === "fdx" ? "application/xml" : "text/plain",
       });
 
     if (uploadError) {
@@ -129,13 +196,13 @@ export async function createProject(
     const [project] = await db
       .insert(projects)
       .values({
+        owner_id: userId,
         title: payload.projectName,
         screenplay_filename: payload.fileName || "script.txt",
         screenplay_storage_path: storagePath,
-        visual_style: (payload.visualStyle as
-          | "wes-anderson"
-          | "classic-noir"
-          | "70s-crime-drama") || "wes-anderson",
+        visual_style: visualStyle,
+        style_preset_id: stylePresetId,
+        format: payload.format ?? DEFAULT_PROJECT_FORMAT,
         status: "parsing",
         auto_mode: payload.autoMode ?? false,
       })
@@ -152,14 +219,25 @@ export async function createProject(
     // STEP 1: Generate Bible (characters, locations, props) - ~2.5 min
     // =========================================================================
     console.log("📖 STEP 1: Generating Bible data...");
-    const scriptContent = payload.isPdf && storageUrl ? storageUrl : payload.scriptContent;
+    // Parsed files go to the LLM as plain screenplay text (not FDX XML)
+    const scriptContent = payload.isPdf && storageUrl
+      ? storageUrl
+      : parsedScreenplay ? toScreenplayText(parsedScreenplay) : payload.scriptContent;
 
     const bibleResult = await generateBible({
       script_content: scriptContent,
-      visual_style: payload.visualStyle,
+      visual_style: visualStyle,
       is_pdf: payload.isPdf,
       project_id: project.id,
       user_id: userId,
+      parsed_screenplay: parsedScreenplay
+        ? {
+            format: parsedScreenplay.format,
+            scene_count: parsedScreenplay.scenes.length,
+            characters: parsedScreenplay.characters,
+            sluglines: parsedScreenplay.scenes.map((scene) => scene.slugline),
+          }
+        : undefined,
     }, payload.apiKeys);
 
     console.log("📖 Bible generation result:", {
@@ -183,6 +261,25 @@ export async function createProject(
       };
     }
 
+    // Speaking characters from the local parse that the LLM missed
+    if (parsedScreenplay) {
+      const missing = findMissingCharacters(
+        parsedScreenplay,
+        bibleResult.data.characters.map((char) => char.name)
+      );
+      if (missing.length > 0) {
+        console.log("📄 Adding characters found by the screenplay parser:", missing);
+        bibleResult.data.characters.push(
+          ...missing.map((name) => ({
+            name,
+            role: "supporting",
+            tier: "TIER 2",
+            visual_dna: `${name} - speaking character from the screenplay`,
+          }))
+        );
+      }
+    }
+
     // Convert Bible result to ParseScriptResult format for existing code
     const parseResult: ParseScriptResult = {
       success: true,
@@ -283,41 +380,35 @@ export async function createProject(
 
       // Auto-generate Bible images if auto_mode is enabled
       if (payload.autoMode) {
-        console.log("🚀 Auto mode enabled - triggering parallel Bible asset generation...");
-        // Import and call auto-generation (fire and forget)
-        const { autoGenerateBibleAssets } = await import('./auto-mode');
-        autoGenerateBibleAssets(project.id).catch((error) => {
-          console.error("❌ Auto-generation error (non-blocking):", error);
-        });
-        console.log("✅ Auto-generation triggered (running in background)");
+        console.log("🚀 Auto mode enabled - queueing Bible asset generation...");
+        await enqueueJob(project.id, "bible_auto_generation", {});
+        // Separate worker so scene generation below doesn't wait behind the images
+        kickJobWorker();
       }
     }
 
     // =========================================================================
-    // STEP 2: Generate Scenes (using Bible data) - RUNS IN BACKGROUND
+    // STEP 2: Generate Scenes (using Bible data) - BACKGROUND JOB
     // =========================================================================
-    // Scene generation takes ~3 min, so we run it in background to not block the UI
+    // Scene generation takes ~3 min, so it runs as a durable background job
     // User sees Bible page immediately and can start reviewing while scenes generate
-    console.log("🎬 STEP 2: Triggering scene generation in background...");
-
-    // Fire-and-forget: run scene generation in background
-    generateScenesInBackground(
-      project.id,
-      payload.scriptContent,
-      payload.visualStyle || "wes-anderson",
-      bibleResult.data,
-      payload.apiKeys
-    ).catch((error) => {
-      console.error("❌ Background scene generation error (non-blocking):", error);
+    console.log("🎬 STEP 2: Queueing scene generation job...");
+
+    await enqueueJob(project.id, "scene_generation", {
+      scriptContent: parsedScreenplay ? scriptContent : payload.scriptContent,
+      visualStyle,
+      bibleData: bibleResult.data,
+      parsedScenes: parsedScreenplay ? toRawSceneData(parsedScreenplay) : undefined,
+      apiKeys: payload.apiKeys,
     });
-    console.log("✅ Scene generation triggered (running in background)");
+    kickJobWorker();
 
-    // NOTE: Scenes are stored by generateScenesInBackground when they're ready
-    // We don't wait for them here - user can see Bible page immediately
+    // NOTE: Scenes are stored by the scene_generation job when they're ready
+    // (see lib/scene-generation.ts) - retried with backoff if n8n fails
 
     // Set project status to bible_review (scenes will be available when background job completes)
     const newStatus = "bible_review";
-    console.log("✅ Project status set to bible_review (scenes generating in background)");
+    console.log("✅ Project status set to bible_review (scenes generating in background job)");
 
     await db
       .update(projects)
@@ -360,6 +451,8 @@ export async function uploadPdfToStorage(
       };
     }
 
+    await requireProjectOwner(projectId);
+
     // Upload to Supabase Storage
     const filePath = `${user.id}/${projectId}/${file.name}`;
     const { data, error } = await supabase.storage
@@ -458,6 +551,8 @@ export async function updateScene(
   }
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    await requireSceneOwner(sceneId);
+
     console.log("💾 Updating scene:", { sceneId, updates });
 
     // Get existing scene to preserve full_data
@@ -535,6 +630,8 @@ export async function updateScene(
  */
 export async function deleteProject(projectId: string): Promise<{ success: boolean; error?: string }> {
   try {
+    await requireProjectOwner(projectId);
+
     console.log("🗑️ Deleting project:", projectId);
 
     // Delete associated scenes first (foreign key constraint)
@@ -561,94 +658,3 @@ export async function deleteProject(projectId: string): Promise<{ success: boole
     };
   }
 }
-
-/**
- * Generate scenes in background (non-blocking)
- * Called from createProject after Bible generation completes
- * Stores scenes directly in database when ready
- */
-async function generateScenesInBackground(
-  projectId: string,
-  scriptContent: string,
-  visualStyle: string,
-  bibleData: {
-    characters: Array<{ name: string; role?: string; visual_dna?: string; visual_dna_reference?: string }>;
-    locations: Array<{ name: string; visual_dna?: string }>;
-    props: Array<{ name: string; visual_dna?: string; importance?: string }>;
-  },
-  apiKeys?: ApiKeys
-): Promise<void> {
-  try {
-    console.log("🎬 [Background] Starting scene generation for project:", projectId);
-
-    // Call n8n scene generation workflow
-    const sceneResult = await generateScenes({
-      script_content: scriptContent,
-      visual_style: visualStyle,
-      project_id: projectId,
-      bible_data: {
-        characters: bibleData.characters.map((c) => ({
-          name: c.name,
-          role: c.role || "supporting",
-          visual_dna: c.visual_dna_reference || c.visual_dna || "",
-        })),
-        locations: bibleData.locations.map((l) => ({
-          name: l.name,
-          visual_dna: l.visual_dna || "",
-        })),
-        props: bibleData.props.map((p) => ({
-          name: p.name,
-          importance: p.importance || "medium",
-          visual_dna: p.visual_dna || "",
-        })),
-      },
-    }, apiKeys);
-
-    const scenes = sceneResult.data?.scenes;
-
-    console.log("🎬 [Background] Scene generation result:", {
-      success: sceneResult.success,
-      sceneCount: scenes?.length || 0,
-    });
-
-    if (!sceneResult.success || !scenes || scenes.length === 0) {
-      console.error("❌ [Background] Scene generation failed:", sceneResult.error);
-      // Keep at bible_review, user can retry
-      return;
-    }
-
-    // Store scenes in database
-    console.log("💾 [Background] Storing", scenes.length, "scenes...");
-
-    const sceneValues = scenes.map((scene: Record<string, unknown>, index: number) => {
-      const rawScene = scene as unknown as RawSceneData;
-      return {
-        project_id: projectId,
-        scene_number: rawScene.scene_number || index + 1,
-        slugline: rawScene.slugline || `Scene ${index + 1}`,
-        action_text: rawScene.action_description || rawScene.action_summary || "",
-        dialogue_text: rawScene.dialogue_snippet || null,
-        status: "pending" as const,
-        full_data: rawScene,
-      };
-    });
-
-    await db.insert(scenesTable).values(sceneValues);
-
-    // Update project with scene order
-    const sceneOrder = sceneValues.map((_, idx: number) => idx + 1);
-    await db
-      .update(projects)
-      .set({
-        scene_order: sceneOrder,
-        // Keep at bible_review (scenes ready for when user navigates to Scenes tab)
-      })
-      .where(eq(projects.id, projectId));
-
-    console.log("✅ [Background] Scenes stored successfully:", scenes.length, "scenes");
-  } catch (error) {
-    console.error("❌ [Background] Scene generation error:", error);
-    // Don't update project status - keep at bible_review
-    // User can see Bible page and scenes will be empty (they can manually trigger later if needed)
-  }
-}
@@ -0,0 +1,228 @@
+'use server';
+
+/**
+ * Reel Version Server Actions
+ *
+ * Label reel versions and restore the timeline edit a version was
+ * assembled from. Versions are created by triggerFinalAssembly and
+ * compared client-side (see lib/reel-versions.ts).
+ */
+
+import { db } from '@/lib/drizzle/db';
+import { requireReelOwner } from '@/lib/project-access';
+import { final_reels, projects, scenes, scene_shots } from '@/lib/drizzle/schema';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { countManifestShots, formatReelVersion, toReelManifest } from '@/lib/reel-versions';
+import { planShotChain } from '@/lib/shot-list';
+import type { Transition } from '@/lib/transitions';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReelVersionActionResult =
+  | { success: true }
+  | { success: false; error: string };
+
+export type RestoreReelVersionResult =
+  | { success: true; restoredShots: number; missingShots: number }
+  | { success: false; error: string };
+
+// Empty = no label
+const labelSchema = z.string().trim().max(80, 'Labels are limited to 80 characters');
+
+// ============================================================================
+// Reel Version Actions
+// ============================================================================
+
+/**
+ * Label a reel version, e.g. "producer notes"
+ *
+ * @param reelId - The reel version
+ * @param label - The label (empty clears it)
+ */
+export async function labelReelVersion(
+  reelId: string,
+  label: string
+): Promise<ReelVersionActionResult> {
+  try {
+    const validation = labelSchema.safeParse(label);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const reel = await requireReelOwner(reelId);
+
+    await db
+      .update(final_reels)
+      .set({ label: validation.data || null })
+      .where(eq(final_reels.id, reelId));
+
+    console.log('🏷️ Labelled reel version:', formatReelVersion({ ...reel, label: validation.data || null }));
+
+    revalidatePath(`/projects/${reel.project_id}/studio/export`, 'page');
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error labelling reel version:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to label reel version',
+    };
+  }
+}
+
+/**
+ * Put the timeline back the way a reel version was cut
+ *
+ * Re-applies the version's scene order, shot order, transitions, and trim
+ * points. Scenes and shots outside the version keep their place (extend
+ * chains are relinked as in the shot list editor); shots deleted since are
+ * skipped. Assemble again to render the restored edit as a new version.
+ *
+ * @param reelId - The reel version to restore
+ * @returns How many of the version's shots were restored / no longer exist
+ */
+export async function restoreReelVersion(reelId: string): Promise<RestoreReelVersionResult> {
+  try {
+    const reel = await requireReelOwner(reelId);
+    const projectId = reel.project_id;
+
+    const manifest = toReelManifest(reel.manifest);
+    if (!manifest) {
+      return { success: false, error: 'This reel was assembled before versioning and has no edit to restore' };
+    }
+
+    const [project] = await db
+      .select({ scene_order: projects.scene_order })
+      .from(projects)
+      .where(eq(projects.id, projectId))
+      .limit(1);
+
+    const projectScenes = await db
+      .select({ id: scenes.id })
+      .from(scenes)
+      .where(eq(scenes.project_id, projectId))
+      .orderBy(asc(scenes.scene_number));
+
+    const sceneIds = new Set(projectScenes.map((s) => s.id));
+    const versionScenes = manifest.scenes.filter((scene) => sceneIds.has(scene.id));
+
+    const existingShots = versionScenes.length > 0
+      ? await db
+          .select()
+          .from(scene_shots)
+          .where(inArray(scene_shots.scene_id, versionScenes.map((scene) => scene.id)))
+          .orderBy(asc(scene_shots.shot_number), asc(scene_shots.created_at))
+      : [];
+    const shotsById = new Map(existingShots.map((s) => [s.id, s]));
+    const restoredShots = versionScenes.flatMap((scene) => scene.shots).filter((shot) => shotsById.has(shot.id));
+
+    if (existingShots.some((s) => s.video_status === 'generating')) {
+      return { success: false, error: 'Wait for the version\'s scenes to finish generating before restoring it' };
+    }
+
+    // Within each scene, the version's shots take the slots they hold now, in the version's order
+    const shotChain = versionScenes.flatMap((scene) => {
+      const current = existingShots.filter((s) => s.scene_id === scene.id);
+      const versionShotIds = new Set(scene.shots.map((shot) => shot.id));
+      const queue = scene.shots.filter((shot) => shotsById.has(shot.id));
+      const ordered = current.map((s) => (versionShotIds.has(s.id) ? shotsById.get(queue.shift()!.id)! : s));
+
+      return planShotChain(ordered).filter((position) => {
+        const shot = shotsById.get(position.id)!;
+        return (
+          shot.shot_number !== position.shot_number ||
+          shot.is_first_shot !== position.is_first_shot ||
+          shot.uses_extend !== position.uses_extend ||
+          shot.previous_shot_id !== position.previous_shot_id
+        );
+      });
+    });
+
+    // Current timeline order (scene_order, then any unordered scenes)
+    const storedOrder = Array.isArray(project?.scene_order)
+      ? (project.scene_order as unknown[]).filter((id): id is string => typeof id === 'string' && sceneIds.has(id))
+      : [];
+    const currentOrder = [
+      ...storedOrder,
+      ...projectScenes.map((s) => s.id).filter((id) => !storedOrder.includes(id)),
+    ];
+
+    // The version's scenes take the slots they hold now, in the version's order
+    const versionSceneIds = new Set(versionScenes.map((scene) => scene.id));
+    const queue = [...versionScenes];
+    const sceneOrder = currentOrder.map((id) => (versionSceneIds.has(id) ? queue.shift()!.id : id));
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(projects)
+        .set({ scene_order: sceneOrder, updated_at: new Date() })
+        .where(eq(projects.id, projectId));
+
+      for (const scene of versionScenes) {
+        await tx
+          .update(scenes)
+          .set({ ...toColumns(scene.transition), updated_at: new Date() })
+          .where(eq(scenes.id, scene.id));
+      }
+
+      for (const shot of restoredShots) {
+        await tx
+          .update(scene_shots)
+          .set({
+            ...toColumns(shot.transition),
+            trim_in_seconds: shot.trimIn,
+            trim_out_seconds: shot.trimOut,
+            updated_at: new Date(),
+          })
+          .where(eq(scene_shots.id, shot.id));
+      }
+
+      for (const position of shotChain) {
+        await tx
+          .update(scene_shots)
+          .set({
+            shot_number: position.shot_number,
+            is_first_shot: position.is_first_shot,
+            uses_extend: position.uses_extend,
+            previous_shot_id: position.previous_shot_id,
+            updated_at: new Date(),
+          })
+          .where(eq(scene_shots.id, position.id));
+      }
+    });
+
+    console.log(
+      `⏪ Restored the timeline of reel ${formatReelVersion(reel)}:`,
+      `${restoredShots.length}/${countManifestShots(manifest)} shots`
+    );
+
+    revalidatePath(`/projects/${projectId}/studio/timeline`, 'page');
+    revalidatePath(`/projects/${projectId}/studio/export`, 'page');
+
+    return {
+      success: true,
+      restoredShots: restoredShots.length,
+      missingShots: countManifestShots(manifest) - restoredShots.length,
+    };
+  } catch (error) {
+    console.error('❌ Error restoring reel version:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore reel version',
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toColumns(transition: Transition | null) {
+  return {
+    transition_in: transition?.type ?? null,
+    transition_in_seconds: transition && transition.type !== 'cut' ? transition.duration : null,
+  };
+}
@@ -1,6 +1,7 @@
 'use server';
 
 import { db } from '@/lib/drizzle/db';
+import { requireProjectOwner, requireSceneOwner, requireSceneVariantOwner } from '@/lib/project-access';
 import {
   scenes,
   sceneImageVariants,
@@ -14,7 +15,9 @@ import {
 } from '@/lib/drizzle/schema';
 import { eq, and, inArray } from 'drizzle-orm';
 import { revalidatePath } from 'next/cache';
-import { generateImage } from '@/lib/n8n/mcp-client';
+import { generateImage } from '@/lib/providers';
+import { getProjectStyle } from '@/lib/styles/resolve';
+import { getFormatSpec, getImageFormatError } from '@/lib/formats';
 import type { ApiKeys } from '@/lib/n8n/types';
 import { mapModelToN8NName, getDefaultAspectRatio } from '@/lib/bible/models';
 import type { AIModel } from '@/lib/bible/models';
@@ -202,6 +205,8 @@ export async function resolveBibleElements(
   projectId: string,
   scene: Scene
 ): Promise<BibleInjectionData> {
+  await requireProjectOwner(projectId);
+
   // Import bibleImageVariants for variant-based image lookup
   const { bibleImageVariants } = await import('@/lib/drizzle/schema');
 
@@ -411,10 +416,7 @@ export async function resolveBibleElements(
  *
  * The AI model will use the reference images for visual consistency.
  */
-function composeScenePromptShort(
-  scene: Scene,
-  projectVisualStyle: string
-): string {
+function composeScenePromptShort(scene: Scene): string {
   const parts: string[] = [];
   // Use full_data (where scene data is stored) OR raw_scene_data as fallback
   const rawData = scene.full_data || scene.raw_scene_data;
@@ -423,47 +425,42 @@ function composeScenePromptShort(
     return scene.slugline;
   }
 
-  // 1. Project visual style (brief)
-  if (projectVisualStyle) {
-    parts.push(projectVisualStyle);
-  }
-
-  // 2. Action/scene description - THE CORE of the prompt
+  // 1. Action/scene description - THE CORE of the prompt
   const actionDescription = rawData.action_description || rawData.action_summary;
   if (actionDescription) {
     parts.push(actionDescription);
   }
 
-  // 3. Shot type (from N8N)
+  // 2. Shot type (from N8N)
   if (rawData.shot_type) {
     parts.push(rawData.shot_type);
   }
 
-  // 4. Wardrobe - scene-specific clothing (NOT character visual DNA)
+  // 3. Wardrobe - scene-specific clothing (NOT character visual DNA)
   if (rawData.wardrobe_description) {
     parts.push(rawData.wardrobe_description);
   }
 
-  // 5. Composition instruction (framing, camera angles)
+  // 4. Composition instruction (framing, camera angles)
   if (rawData.composition_instruction) {
     parts.push(rawData.composition_instruction);
   } else if (rawData.visual_mood?.composition) {
     parts.push(rawData.visual_mood.composition);
   }
 
-  // 6. Visual atmosphere (mood, feeling)
+  // 5. Visual atmosphere (mood, feeling)
   if (rawData.visual_atmosphere) {
     parts.push(rawData.visual_atmosphere);
   } else if (rawData.visual_mood?.atmosphere) {
     parts.push(rawData.visual_mood.atmosphere);
   }
 
-  // 7. Time of day
+  // 6. Time of day
   if (rawData.time_of_day) {
     parts.push(rawData.time_of_day);
   }
 
-  // 8. Anti-collage instruction - prevent multi-panel/storyboard outputs
+  // 7. Anti-collage instruction - prevent multi-panel/storyboard outputs
   parts.push('Single cohesive cinematic frame, no collage, no multiple panels, no split screen, no storyboard');
 
   return parts.join('. ');
@@ -508,8 +505,7 @@ function collectBibleReferenceImages(bibleData: BibleInjectionData): string[] {
  */
 function composeScenePromptFallback(
   scene: Scene,
-  bibleData: BibleInjectionData,
-  projectVisualStyle: string
+  bibleData: BibleInjectionData
 ): string {
   const parts: string[] = [];
   // Use full_data (where scene data is stored) OR raw_scene_data as fallback
@@ -519,18 +515,13 @@ function composeScenePromptFallback(
     return scene.slugline;
   }
 
-  // 1. Visual style (brief)
-  if (projectVisualStyle) {
-    parts.push(projectVisualStyle);
-  }
-
-  // 2. Location NAME only (not description)
+  // 1. Location NAME only (not description)
   const locationName = bibleData.location?.name || rawData.location || rawData.bible_location_id;
   if (locationName) {
     parts.push(locationName);
   }
 
-  // 3. Character NAMES only (not visual DNA)
+  // 2. Character NAMES only (not visual DNA)
   const characterNames = bibleData.characters.length > 0
     ? bibleData.characters.map((c) => c.name)
     : rawData.characters_present || rawData.bible_character_ids || [];
@@ -538,23 +529,23 @@ function composeScenePromptFallback(
     parts.push(characterNames.join(' and '));
   }
 
-  // 4. Action - core of the scene
+  // 3. Action - core of the scene
   const actionDescription = rawData.action_description || rawData.action_summary;
   if (actionDescription) {
     parts.push(actionDescription);
   }
 
-  // 5. Shot type
+  // 4. Shot type
   if (rawData.shot_type) {
     parts.push(rawData.shot_type);
   }
 
-  // 6. Time of day
+  // 5. Time of day
   if (rawData.time_of_day) {
     parts.push(rawData.time_of_day);
   }
 
-  // 7. Anti-collage instruction - prevent multi-panel/storyboard outputs
+  // 6. Anti-collage instruction - prevent multi-panel/storyboard outputs
   parts.push('Single cohesive cinematic frame, no collage, no multiple panels, no split screen, no storyboard');
 
   return parts.join('. ');
@@ -640,6 +631,8 @@ export async function generateSceneVariants(
   apiKeys?: ApiKeys
 ): Promise<SceneImageActionResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     // Validate input
     const validation = generateSceneVariantsSchema.safeParse({ sceneId, modelSelection });
     if (!validation.success) {
@@ -670,6 +663,9 @@ export async function generateSceneVariants(
       return { success: false, error: 'Project not found' };
     }
 
+    // Visual style preset - injected into the prompt per model
+    const style = await getProjectStyle(project.id);
+
     // Resolve Bible elements
     const bibleData = await resolveBibleElements(scene.project_id, scene);
 
@@ -693,11 +689,11 @@ export async function generateSceneVariants(
     let prompt: string;
     if (hasReferenceImages) {
       // SHORT prompt - action/composition only (reference images provide visual context)
-      prompt = composeScenePromptShort(scene, project.visual_style || '');
+      prompt = composeScenePromptShort(scene);
       console.log('📝 Using SHORT prompt (I2I with reference images)');
     } else {
       // MINIMAL fallback prompt - just names + action (avoid long descriptions)
-      prompt = composeScenePromptFallback(scene, bibleData, project.visual_style || '');
+      prompt = composeScenePromptFallback(scene, bibleData);
       console.log('⚠️ Using FALLBACK prompt (T2I - no reference images found)');
     }
 
@@ -708,6 +704,15 @@ export async function generateSceneVariants(
 
     console.log('🎯 Models selected:', models, hasReferenceImages ? '(I2I)' : '(T2I)');
 
+    // Block models that can't generate the project's format before anything is created
+    const format = getFormatSpec(project.format);
+    for (const model of models) {
+      const formatError = getImageFormatError(format.value, model);
+      if (formatError) {
+        return { success: false, error: formatError };
+      }
+    }
+
     // Extract Bible element IDs for tracking
     const injectedCharacterIds = bibleData.characters.map((c) => c.id);
     const injectedLocationIds = bibleData.location
@@ -754,7 +759,7 @@ export async function generateSceneVariants(
       const generationPayload: Parameters<typeof generateImage>[0] = {
         prompt,
         model: mappedModel,
-        aspect_ratio: '16:9', // Scene images are widescreen
+        aspect_ratio: format.aspectRatio, // Scene images follow the project format
         quality: getQualityForModel(mappedModel),
         variant_id: variant.id,
         next_js_callback_url: `${env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/scene-image-variant`,
@@ -766,7 +771,7 @@ export async function generateSceneVariants(
         console.log(`🖼️ [${model}] Injecting ${referenceImages.length} reference images`);
       }
 
-      const result = await generateImage(generationPayload, apiKeys);
+      const result = await generateImage(generationPayload, apiKeys, style);
 
       console.log(`📦 [${model}] n8n response:`, JSON.stringify(result, null, 2));
 
@@ -783,7 +788,7 @@ export async function generateSceneVariants(
         if (responseData.taskId) {
           await db
             .update(sceneImageVariants)
-            .set({ n8n_job_id: responseData.taskId })
+            .set({ n8n_job_id: result.executionId ?? responseData.taskId })
             .where(eq(sceneImageVariants.id, variant.id));
           console.log(`✅ [${model}] Stored taskId: ${responseData.taskId}`);
         }
@@ -806,7 +811,7 @@ export async function generateSceneVariants(
                 image_url: uploaded.url,
                 storage_path: uploaded.path,
                 status: 'ready',
-                n8n_job_id: responseData.taskId,
+                n8n_job_id: result.executionId ?? responseData.taskId,
                 updated_at: new Date(),
               })
               .where(eq(sceneImageVariants.id, variant.id));
@@ -872,6 +877,8 @@ export async function selectSceneVariant(
   variantId: string
 ): Promise<SceneImageActionResult> {
   try {
+    await requireSceneVariantOwner(variantId);
+
     // Validate input
     const validation = selectVariantSchema.safeParse({ variantId });
     if (!validation.success) {
@@ -971,6 +978,8 @@ export async function unselectSceneVariant(
   variantId: string
 ): Promise<SceneImageActionResult> {
   try {
+    await requireSceneVariantOwner(variantId);
+
     // Validate input
     const validation = variantIdSchema.safeParse({ variantId });
     if (!validation.success) {
@@ -1063,6 +1072,8 @@ export async function refineSceneVariant(
   apiKeys?: ApiKeys
 ): Promise<SceneImageActionResult> {
   try {
+    await requireSceneVariantOwner(variantId);
+
     // Validate input
     const validation = refineVariantSchema.safeParse({ variantId, modelSelection, refinementPrompt });
     if (!validation.success) {
@@ -1118,6 +1129,12 @@ export async function refineSceneVariant(
       ? 'seedream-4.5-image-to-image'
       : 'nano-banana-pro-image-to-image';
 
+    const format = getFormatSpec(project.format);
+    const formatError = getImageFormatError(format.value, model);
+    if (formatError) {
+      return { success: false, error: formatError };
+    }
+
     // Get current max generation_order for this scene
     const existingVariants = await db
       .select()
@@ -1157,7 +1174,7 @@ export async function refineSceneVariant(
     const generationPayload: Parameters<typeof generateImage>[0] = {
       prompt: refinementPrompt, // For I2I, send ONLY the refinement instructions
       model: mappedModel,
-      aspect_ratio: '16:9',
+      aspect_ratio: format.aspectRatio,
       quality: getQualityForModel(mappedModel),
       variant_id: newVariant.id,
       source_image_url: sourceVariant.image_url, // Use source image for I2I
@@ -1184,7 +1201,7 @@ export async function refineSceneVariant(
       if (responseData.taskId) {
         await db
           .update(sceneImageVariants)
-          .set({ n8n_job_id: responseData.taskId })
+          .set({ n8n_job_id: result.executionId ?? responseData.taskId })
           .where(eq(sceneImageVariants.id, newVariant.id));
         console.log(`✅ Stored taskId: ${responseData.taskId}`);
       }
@@ -1207,7 +1224,7 @@ export async function refineSceneVariant(
               image_url: uploaded.url,
               storage_path: uploaded.path,
               status: 'ready',
-              n8n_job_id: responseData.taskId,
+              n8n_job_id: result.executionId ?? responseData.taskId,
               updated_at: new Date(),
             })
             .where(eq(sceneImageVariants.id, newVariant.id));
@@ -1265,6 +1282,8 @@ export async function deleteFailedVariants(
   sceneId: string
 ): Promise<SceneImageActionResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     // Validate input
     const validation = sceneIdSchema.safeParse({ sceneId });
     if (!validation.success) {
@@ -1319,6 +1338,8 @@ export async function deleteAllVariants(
   sceneId: string
 ): Promise<SceneImageActionResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     // Validate input
     const validation = sceneIdSchema.safeParse({ sceneId });
     if (!validation.success) {
@@ -1370,6 +1391,8 @@ export async function deleteVariant(
   variantId: string
 ): Promise<SceneImageActionResult> {
   try {
+    await requireSceneVariantOwner(variantId);
+
     // Validate input
     const validation = variantIdSchema.safeParse({ variantId });
     if (!validation.success) {
@@ -1432,6 +1455,8 @@ export async function retryVariant(
   apiKeys?: ApiKeys
 ): Promise<SceneImageActionResult> {
   try {
+    await requireSceneVariantOwner(variantId);
+
     // Validate input
     const validation = variantIdSchema.safeParse({ variantId });
     if (!validation.success) {
@@ -1492,6 +1517,8 @@ export async function retryVariant(
 export async function getSceneVariants(
   sceneId: string
 ): Promise<SceneVariantsData> {
+  await requireSceneOwner(sceneId);
+
   const variants = await db
     .select()
     .from(sceneImageVariants)
@@ -1516,6 +1543,8 @@ export async function getSceneVariants(
 export async function getBibleInjectionPreview(
   sceneId: string
 ): Promise<BibleInjectionData | null> {
+  await requireSceneOwner(sceneId);
+
   const [scene] = await db
     .select()
     .from(scenes)
@@ -1541,6 +1570,8 @@ export async function bulkApproveSceneImages(
   projectId: string
 ): Promise<SceneImageActionResult & { approvedCount?: number }> {
   try {
+    await requireProjectOwner(projectId);
+
     // Validate input
     const validation = projectIdSchema.safeParse({ projectId });
     if (!validation.success) {
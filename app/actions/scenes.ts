@@ -1,6 +1,7 @@
 'use server';
 
 import { db } from '@/lib/drizzle/db';
+import { requireProjectOwner, requireSceneOwner } from '@/lib/project-access';
 import { scenes as scenesTable, projects } from '@/lib/drizzle/schema';
 import { eq, and } from 'drizzle-orm';
 
@@ -15,6 +16,8 @@ export type ActionResult =
  */
 export async function approveScene(sceneId: string): Promise<ActionResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     console.log('✅ Approving scene:', sceneId);
 
     // Get the scene to find its project
@@ -80,6 +83,8 @@ export async function approveScene(sceneId: string): Promise<ActionResult> {
  */
 export async function rejectScene(sceneId: string): Promise<ActionResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     console.log('⏪ Resetting scene to pending:', sceneId);
 
     const [scene] = await db
@@ -137,6 +142,8 @@ export async function approveAllScenes(
   projectId: string
 ): Promise<ActionResult> {
   try {
+    await requireProjectOwner(projectId);
+
     console.log('✅ Approving all scenes for project:', projectId);
 
     // Get all pending scenes for this project
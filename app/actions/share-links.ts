@@ -0,0 +1,146 @@
+'use server';
+
+/**
+ * Share Link Server Actions
+ *
+ * Create, list, and revoke public review links for a project's reel
+ * (the latest version, or a specific one).
+ * Link lookup and the shared content live in lib/share-links.ts.
+ */
+
+import { db } from '@/lib/drizzle/db';
+import { requireProjectOwner } from '@/lib/project-access';
+import { final_reels, share_links } from '@/lib/drizzle/schema';
+import { and, eq } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import {
+  createShareLinkRecord,
+  listProjectShareLinks,
+  toShareLinkSummary,
+  type ShareLinkSummary,
+} from '@/lib/share-links';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ShareLinkActionResult =
+  | { success: true; link: ShareLinkSummary }
+  | { success: false; error: string };
+
+const createShareLinkSchema = z.object({
+  title: z.string().trim().max(120, 'Title is limited to 120 characters').optional(),
+  // null = never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+  // A specific reel version (unset = always the latest)
+  reelId: z.string().uuid('Invalid reel version').nullable().optional(),
+});
+
+// ============================================================================
+// Share Link Actions
+// ============================================================================
+
+/**
+ * Create a public share link for a project, optionally pinned to one reel version
+ */
+export async function createShareLink(
+  projectId: string,
+  options: { title?: string; expiresInDays: number | null; reelId?: string | null }
+): Promise<ShareLinkActionResult> {
+  try {
+    const validation = createShareLinkSchema.safeParse(options);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const project = await requireProjectOwner(projectId);
+
+    const reelId = validation.data.reelId ?? null;
+    if (reelId) {
+      const [reel] = await db
+        .select({ id: final_reels.id })
+        .from(final_reels)
+        .where(and(eq(final_reels.id, reelId), eq(final_reels.project_id, projectId)))
+        .limit(1);
+
+      if (!reel) {
+        return { success: false, error: 'Reel version not found' };
+      }
+    }
+
+    const link = await createShareLinkRecord(
+      projectId,
+      validation.data.title || project.title,
+      validation.data.expiresInDays,
+      reelId
+    );
+
+    console.log('🔗 Created share link:', link.share_id, 'for project:', projectId);
+
+    revalidatePath(`/projects/${projectId}/studio/export`);
+    return { success: true, link: toShareLinkSummary(link) };
+  } catch (error) {
+    console.error('❌ Error creating share link:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create share link',
+    };
+  }
+}
+
+/**
+ * List a project's share links (including revoked and expired ones)
+ */
+export async function listShareLinks(
+  projectId: string
+): Promise<{ success: true; links: ShareLinkSummary[] } | { success: false; error: string }> {
+  try {
+    await requireProjectOwner(projectId);
+
+    return { success: true, links: await listProjectShareLinks(projectId) };
+  } catch (error) {
+    console.error('❌ Error listing share links:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load share links',
+    };
+  }
+}
+
+/**
+ * Revoke a share link - the public page stops serving it immediately
+ */
+export async function revokeShareLink(linkId: string): Promise<ShareLinkActionResult> {
+  try {
+    const [existing] = await db
+      .select({ project_id: share_links.project_id })
+      .from(share_links)
+      .where(eq(share_links.id, linkId))
+      .limit(1);
+
+    if (!existing) {
+      return { success: false, error: 'Share link not found' };
+    }
+
+    await requireProjectOwner(existing.project_id);
+
+    const [link] = await db
+      .update(share_links)
+      .set({ is_active: false })
+      .where(eq(share_links.id, linkId))
+      .returning();
+
+    console.log('🔒 Revoked share link:', link.share_id);
+
+    revalidatePath(`/projects/${existing.project_id}/studio/export`);
+    revalidatePath(`/share/${link.share_id}`);
+    return { success: true, link: toShareLinkSummary(link) };
+  } catch (error) {
+    console.error('❌ Error revoking share link:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revoke share link',
+    };
+  }
+}
@@ -0,0 +1,496 @@
+'use server';
+
+/**
+ * Shot List Server Actions
+ *
+ * Hand edits to a scene's shot list: insert, split, merge, delete, reorder,
+ * and retime shots. Structural edits renumber the scene's shots and relink
+ * the extend chain (see lib/shot-list.ts), and are refused while any shot of
+ * the scene is generating.
+ */
+
+import { db } from '@/lib/drizzle/db';
+import { requireSceneOwner, requireShotOwner } from '@/lib/project-access';
+import { scene_shots, shot_takes, type SceneShot } from '@/lib/drizzle/schema';
+import { asc, eq } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { composeVeo3Prompt } from '@/lib/videos';
+import { MIN_TRIMMED_SECONDS } from '@/lib/trim';
+import {
+  MAX_SHOT_SECONDS,
+  MIN_SHOT_SECONDS,
+  joinText,
+  mergeVeo3Prompts,
+  planShotChain,
+} from '@/lib/shot-list';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ShotListActionResult =
+  | { success: true; shotId?: string }
+  | { success: false; error: string };
+
+export interface NewShotInput {
+  /** Shot number the new shot takes - later shots move down */
+  position: number;
+  shot_type: string;
+  shot_duration_seconds: number;
+  /** What happens in the shot - becomes its video prompt */
+  description: string;
+}
+
+export interface ShotDetailsInput {
+  shot_type: string;
+  shot_duration_seconds: number;
+}
+
+type ShotWriter = Pick<typeof db, 'update'>;
+
+const durationSchema = z
+  .number()
+  .int('Shot length must be whole seconds')
+  .min(MIN_SHOT_SECONDS, `Shots must be at least ${MIN_SHOT_SECONDS}s`)
+  .max(MAX_SHOT_SECONDS, `Shots are limited to ${MAX_SHOT_SECONDS}s`);
+
+const shotTypeSchema = z.string().trim().min(1, 'Shot type is required').max(60, 'Shot type is too long');
+
+const shotDetailsSchema = z.object({
+  shot_type: shotTypeSchema,
+  shot_duration_seconds: durationSchema,
+});
+
+const newShotSchema = shotDetailsSchema.extend({
+  position: z.number().int().min(1),
+  description: z.string().trim().min(1, 'Describe what happens in the shot').max(2000, 'Description is too long'),
+});
+
+/** A split or merged shot needs a new video - its takes no longer fit */
+const CLEARED_VIDEO = {
+  video_url: null,
+  video_storage_path: null,
+  video_status: null,
+  veo_task_id: null,
+  video_job_id: null,
+  trim_in_seconds: null,
+  trim_out_seconds: null,
+  error_message: null,
+} as const;
+
+// ============================================================================
+// Structural Edits
+// ============================================================================
+
+/**
+ * Insert a new shot (e.g. a cutaway) into a scene
+ *
+ * The shot is independent - it doesn't extend the shot before it.
+ */
+export async function insertShot(sceneId: string, input: NewShotInput): Promise<ShotListActionResult> {
+  try {
+    const validation = newShotSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const projectId = await requireSceneOwner(sceneId);
+
+    const shots = await getSceneShots(sceneId);
+    const blocked = getGeneratingError(shots);
+    if (blocked) {
+      return { success: false, error: blocked };
+    }
+
+    const { position, shot_type, shot_duration_seconds, description } = validation.data;
+    const index = Math.min(position, shots.length + 1) - 1;
+
+    const shotId = await db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(scene_shots)
+        .values({
+          scene_id: sceneId,
+          shot_number: index + 1,
+          shot_duration_seconds,
+          shot_type,
+          action_prompt: description,
+          uses_extend: false,
+        })
+        .returning();
+
+      await writeShotChain(tx, [...shots.slice(0, index), inserted, ...shots.slice(index)]);
+      return inserted.id;
+    });
+
+    console.log(`➕ Inserted shot ${index + 1} into scene:`, sceneId);
+
+    revalidateShotList(projectId);
+    return { success: true, shotId };
+  } catch (error) {
+    console.error('❌ Error inserting shot:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to insert shot',
+    };
+  }
+}
+
+/**
+ * Split a shot in two at a whole second
+ *
+ * The first part keeps the shot's start frame, dialogue, and transition; the
+ * second part takes its end frame. Both copy the prompts and need new videos.
+ *
+ * @param firstSeconds - Length of the first part
+ */
+export async function splitShot(shotId: string, firstSeconds: number): Promise<ShotListActionResult> {
+  try {
+    const projectId = await requireShotOwner(shotId);
+
+    const shot = await getShot(shotId);
+    if (!shot) {
+      return { success: false, error: 'Shot not found' };
+    }
+
+    if (!Number.isInteger(firstSeconds) || firstSeconds < MIN_SHOT_SECONDS || firstSeconds > shot.shot_duration_seconds - MIN_SHOT_SECONDS) {
+      return {
+        success: false,
+        error: `Split a ${shot.shot_duration_seconds}s shot between ${MIN_SHOT_SECONDS}s and ${shot.shot_duration_seconds - MIN_SHOT_SECONDS}s`,
+      };
+    }
+
+    const shots = await getSceneShots(shot.scene_id);
+    const blocked = getGeneratingError(shots);
+    if (blocked) {
+      return { success: false, error: blocked };
+    }
+
+    // The second part has the shot's action without its dialogue
+    const secondVeo3 = shot.video_prompt_veo3 ? { ...shot.video_prompt_veo3, dialogue: null } : null;
+
+    const secondId = await db.transaction(async (tx) => {
+      await tx.delete(shot_takes).where(eq(shot_takes.shot_id, shot.id));
+
+      const [first] = await tx
+        .update(scene_shots)
+        .set({
+          ...CLEARED_VIDEO,
+          shot_duration_seconds: firstSeconds,
+          end_frame_instruction: null,
+          end_frame_image_url: null,
+          end_frame_storage_path: null,
+          end_frame_status: null,
+          end_frame_source_image_url: null,
+          end_frame_job_id: null,
+          updated_at: new Date(),
+        })
+        .where(eq(scene_shots.id, shot.id))
+        .returning();
+
+      const [second] = await tx
+        .insert(scene_shots)
+        .values({
+          scene_id: shot.scene_id,
+          shot_number: shot.shot_number + 1,
+          shot_duration_seconds: shot.shot_duration_seconds - firstSeconds,
+          shot_type: shot.shot_type,
+          composition_instruction: shot.composition_instruction,
+          video_prompt_veo3: secondVeo3,
+          action_prompt: secondVeo3 ? composeVeo3Prompt(secondVeo3) : shot.action_prompt,
+          end_frame_instruction: shot.end_frame_instruction,
+          end_frame_image_url: shot.end_frame_image_url,
+          end_frame_storage_path: shot.end_frame_storage_path,
+          end_frame_status: shot.end_frame_status,
+          end_frame_source_image_url: shot.end_frame_source_image_url,
+          // Continues the first part when the shot was part of an extend chain
+          uses_extend: shot.uses_extend,
+        })
+        .returning();
+
+      const index = shots.findIndex((s) => s.id === shot.id);
+      await writeShotChain(tx, [...shots.slice(0, index), first, second, ...shots.slice(index + 1)]);
+      return second.id;
+    });
+
+    console.log(`✂️ Split shot ${shot.shot_number} at ${firstSeconds}s:`, shotId);
+
+    revalidateShotList(projectId);
+    return { success: true, shotId: secondId };
+  } catch (error) {
+    console.error('❌ Error splitting shot:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to split shot',
+    };
+  }
+}
+
+/**
+ * Merge a shot with the shot after it
+ *
+ * The merged shot keeps the first shot's start frame, type, and transition
+ * and the second shot's end frame; action, dialogue, and sounds run one
+ * after the other. It needs a new video.
+ */
+export async function mergeShotWithNext(shotId: string): Promise<ShotListActionResult> {
+  try {
+    const projectId = await requireShotOwner(shotId);
+
+    const shot = await getShot(shotId);
+    if (!shot) {
+      return { success: false, error: 'Shot not found' };
+    }
+
+    const shots = await getSceneShots(shot.scene_id);
+    const blocked = getGeneratingError(shots);
+    if (blocked) {
+      return { success: false, error: blocked };
+    }
+
+    const index = shots.findIndex((s) => s.id === shot.id);
+    const next = shots[index + 1];
+    if (!next) {
+      return { success: false, error: 'The last shot has no shot after it to merge with' };
+    }
+
+    const duration = shot.shot_duration_seconds + next.shot_duration_seconds;
+    if (duration > MAX_SHOT_SECONDS) {
+      return {
+        success: false,
+        error: `Merged shot would be ${duration}s - shots are limited to ${MAX_SHOT_SECONDS}s`,
+      };
+    }
+
+    const mergedVeo3 = mergeVeo3Prompts(shot.video_prompt_veo3, next.video_prompt_veo3);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(shot_takes).where(eq(shot_takes.shot_id, shot.id));
+      await tx.delete(scene_shots).where(eq(scene_shots.id, next.id));
+
+      const [merged] = await tx
+        .update(scene_shots)
+        .set({
+          ...CLEARED_VIDEO,
+          shot_duration_seconds: duration,
+          video_prompt_veo3: mergedVeo3,
+          action_prompt: mergedVeo3 ? composeVeo3Prompt(mergedVeo3) : joinText(shot.action_prompt, next.action_prompt),
+          dialogue_segment: joinText(shot.dialogue_segment, next.dialogue_segment),
+          end_frame_instruction: next.end_frame_instruction,
+          end_frame_image_url: next.end_frame_image_url,
+          end_frame_storage_path: next.end_frame_storage_path,
+          end_frame_status: next.end_frame_status,
+          end_frame_source_image_url: next.end_frame_source_image_url,
+          end_frame_job_id: null,
+          updated_at: new Date(),
+        })
+        .where(eq(scene_shots.id, shot.id))
+        .returning();
+
+      await writeShotChain(tx, [...shots.slice(0, index), merged, ...shots.slice(index + 2)]);
+    });
+
+    console.log(`🔗 Merged shots ${shot.shot_number} and ${next.shot_number}:`, shotId);
+
+    revalidateShotList(projectId);
+    return { success: true, shotId };
+  } catch (error) {
+    console.error('❌ Error merging shots:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to merge shots',
+    };
+  }
+}
+
+/**
+ * Delete a shot and its takes
+ */
+export async function deleteShot(shotId: string): Promise<ShotListActionResult> {
+  try {
+    const projectId = await requireShotOwner(shotId);
+
+    const shot = await getShot(shotId);
+    if (!shot) {
+      return { success: false, error: 'Shot not found' };
+    }
+
+    const shots = await getSceneShots(shot.scene_id);
+    const blocked = getGeneratingError(shots);
+    if (blocked) {
+      return { success: false, error: blocked };
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(scene_shots).where(eq(scene_shots.id, shot.id));
+      await writeShotChain(tx, shots.filter((s) => s.id !== shot.id));
+    });
+
+    console.log(`🗑️ Deleted shot ${shot.shot_number}:`, shotId);
+
+    revalidateShotList(projectId);
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error deleting shot:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete shot',
+    };
+  }
+}
+
+/**
+ * Put a scene's shots in a new order
+ * @param orderedShotIds - Every shot of the scene, in the new order
+ */
+export async function reorderShots(sceneId: string, orderedShotIds: string[]): Promise<ShotListActionResult> {
+  try {
+    const projectId = await requireSceneOwner(sceneId);
+
+    const shots = await getSceneShots(sceneId);
+    const blocked = getGeneratingError(shots);
+    if (blocked) {
+      return { success: false, error: blocked };
+    }
+
+    const shotsById = new Map(shots.map((s) => [s.id, s]));
+    const ordered = orderedShotIds.flatMap((id) => shotsById.get(id) ?? []);
+    if (ordered.length !== shots.length || new Set(orderedShotIds).size !== shots.length) {
+      return { success: false, error: 'The new order must list every shot of the scene once' };
+    }
+
+    await db.transaction(async (tx) => {
+      await writeShotChain(tx, ordered);
+    });
+
+    console.log('🔄 Reordered shots of scene:', sceneId);
+
+    revalidateShotList(projectId);
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error reordering shots:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reorder shots',
+    };
+  }
+}
+
+// ============================================================================
+// Shot Details
+// ============================================================================
+
+/**
+ * Change a shot's type and length
+ *
+ * The length applies to the next generation. Trim points past the new
+ * length are cleared.
+ */
+export async function updateShotDetails(shotId: string, input: ShotDetailsInput): Promise<ShotListActionResult> {
+  try {
+    const validation = shotDetailsSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const projectId = await requireShotOwner(shotId);
+
+    const shot = await getShot(shotId);
+    if (!shot) {
+      return { success: false, error: 'Shot not found' };
+    }
+
+    const { shot_type, shot_duration_seconds } = validation.data;
+    const trimOut = shot.trim_out_seconds !== null && shot.trim_out_seconds <= shot_duration_seconds
+      ? shot.trim_out_seconds
+      : null;
+    const trimIn = shot.trim_in_seconds !== null && (trimOut ?? shot_duration_seconds) - shot.trim_in_seconds >= MIN_TRIMMED_SECONDS
+      ? shot.trim_in_seconds
+      : null;
+
+    await db
+      .update(scene_shots)
+      .set({
+        shot_type,
+        shot_duration_seconds,
+        trim_in_seconds: trimIn,
+        trim_out_seconds: trimOut,
+        updated_at: new Date(),
+      })
+      .where(eq(scene_shots.id, shotId));
+
+    console.log('📝 Shot details updated:', shotId, { shot_type, shot_duration_seconds });
+
+    revalidateShotList(projectId);
+    return { success: true, shotId };
+  } catch (error) {
+    console.error('❌ Error updating shot details:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update shot',
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function getShot(shotId: string): Promise<SceneShot | undefined> {
+  const [shot] = await db
+    .select()
+    .from(scene_shots)
+    .where(eq(scene_shots.id, shotId))
+    .limit(1);
+  return shot;
+}
+
+async function getSceneShots(sceneId: string): Promise<SceneShot[]> {
+  return db
+    .select()
+    .from(scene_shots)
+    .where(eq(scene_shots.scene_id, sceneId))
+    .orderBy(asc(scene_shots.shot_number), asc(scene_shots.created_at));
+}
+
+function getGeneratingError(shots: SceneShot[]): string | null {
+  return shots.some((s) => s.video_status === 'generating')
+    ? 'Wait for the scene\'s videos to finish generating before editing its shot list'
+    : null;
+}
+
+/**
+ * Write shot numbers and extend links for a scene's shots in play order,
+ * touching only the shots that changed
+ */
+async function writeShotChain(writer: ShotWriter, orderedShots: SceneShot[]): Promise<void> {
+  const current = new Map(orderedShots.map((s) => [s.id, s]));
+
+  for (const position of planShotChain(orderedShots)) {
+    const shot = current.get(position.id)!;
+    if (
+      shot.shot_number === position.shot_number &&
+      shot.is_first_shot === position.is_first_shot &&
+      shot.uses_extend === position.uses_extend &&
+      shot.previous_shot_id === position.previous_shot_id
+    ) {
+      continue;
+    }
+
+    await writer
+      .update(scene_shots)
+      .set({
+        shot_number: position.shot_number,
+        is_first_shot: position.is_first_shot,
+        uses_extend: position.uses_extend,
+        previous_shot_id: position.previous_shot_id,
+        updated_at: new Date(),
+      })
+      .where(eq(scene_shots.id, position.id));
+  }
+}
+
+function revalidateShotList(projectId: string): void {
+  revalidatePath(`/projects/${projectId}/studio/video`, 'page');
+  revalidatePath(`/projects/${projectId}/studio/timeline`, 'page');
+}
@@ -0,0 +1,185 @@
+'use server';
+
+/**
+ * Shot Take Server Actions
+ *
+ * Review the takes of a shot: select the take the timeline and assembly
+ * use, flag takes as circled or rejected, and delete the ones not needed.
+ * Takes are recorded by video generation - see lib/takes.ts.
+ */
+
+import { db } from '@/lib/drizzle/db';
+import { requireShotOwner, requireShotTakeOwner } from '@/lib/project-access';
+import { shot_takes, type ShotTake } from '@/lib/drizzle/schema';
+import { asc, eq } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { applyTakeSelection } from '@/lib/takes';
+import { kickJobWorker } from '@/lib/jobs';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ShotTakeActionResult =
+  | { success: true; take?: ShotTake }
+  | { success: false; error: string };
+
+const takeFlagSchema = z.enum(['circled', 'rejected']).nullable();
+
+// ============================================================================
+// Take Actions
+// ============================================================================
+
+/**
+ * Get a shot's takes, oldest first
+ */
+export async function getShotTakes(shotId: string): Promise<ShotTake[]> {
+  await requireShotOwner(shotId);
+
+  return db
+    .select()
+    .from(shot_takes)
+    .where(eq(shot_takes.shot_id, shotId))
+    .orderBy(asc(shot_takes.take_number));
+}
+
+/**
+ * Select a take as the shot's video
+ *
+ * The timeline, assembly, and exports use the selected take from the next
+ * render on. Rejected takes can't be selected. The take's stills are made
+ * in the background (see lib/video-media).
+ */
+export async function selectShotTake(takeId: string): Promise<ShotTakeActionResult> {
+  try {
+    const projectId = await requireShotTakeOwner(takeId);
+
+    const [take] = await db
+      .select()
+      .from(shot_takes)
+      .where(eq(shot_takes.id, takeId))
+      .limit(1);
+
+    if (!take) {
+      return { success: false, error: 'Take not found' };
+    }
+
+    if (take.status !== 'ready' || !take.video_url) {
+      return { success: false, error: `Take ${take.take_number} is ${take.status}, not ready to select` };
+    }
+
+    if (take.flag === 'rejected') {
+      return { success: false, error: `Take ${take.take_number} is rejected - clear the flag to select it` };
+    }
+
+    console.log('🎬 Selecting take', take.take_number, 'for shot:', take.shot_id);
+
+    await applyTakeSelection(take);
+    // Make the new video's poster and scrub sprite
+    kickJobWorker();
+
+    revalidatePath(`/projects/${projectId}/studio/video`, 'page');
+    revalidatePath(`/projects/${projectId}/studio/timeline`, 'page');
+
+    return { success: true, take: { ...take, is_selected: true } };
+  } catch (error) {
+    console.error('❌ Error selecting take:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to select take',
+    };
+  }
+}
+
+/**
+ * Flag a take as circled (a keeper) or rejected
+ * @param flag - null clears the flag
+ */
+export async function flagShotTake(
+  takeId: string,
+  flag: ShotTake['flag']
+): Promise<ShotTakeActionResult> {
+  try {
+    const validation = takeFlagSchema.safeParse(flag);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const projectId = await requireShotTakeOwner(takeId);
+
+    const [take] = await db
+      .select()
+      .from(shot_takes)
+      .where(eq(shot_takes.id, takeId))
+      .limit(1);
+
+    if (!take) {
+      return { success: false, error: 'Take not found' };
+    }
+
+    if (validation.data === 'rejected' && take.is_selected) {
+      return { success: false, error: 'Select another take before rejecting this one' };
+    }
+
+    const [updated] = await db
+      .update(shot_takes)
+      .set({ flag: validation.data, updated_at: new Date() })
+      .where(eq(shot_takes.id, takeId))
+      .returning();
+
+    console.log('🏷️ Take', take.take_number, 'of shot', take.shot_id, '→', validation.data ?? 'unflagged');
+
+    revalidatePath(`/projects/${projectId}/studio/video`, 'page');
+    return { success: true, take: updated };
+  } catch (error) {
+    console.error('❌ Error flagging take:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to flag take',
+    };
+  }
+}
+
+/**
+ * Delete a take
+ *
+ * The selected take and takes still generating can't be deleted. Deleting
+ * the latest take frees its number for the next one.
+ */
+export async function deleteShotTake(takeId: string): Promise<ShotTakeActionResult> {
+  try {
+    const projectId = await requireShotTakeOwner(takeId);
+
+    const [take] = await db
+      .select()
+      .from(shot_takes)
+      .where(eq(shot_takes.id, takeId))
+      .limit(1);
+
+    if (!take) {
+      return { success: false, error: 'Take not found' };
+    }
+
+    if (take.is_selected) {
+      return { success: false, error: 'Cannot delete the selected take' };
+    }
+
+    if (take.status === 'generating') {
+      return { success: false, error: 'Take is still generating - cancel it instead' };
+    }
+
+    await db.delete(shot_takes).where(eq(shot_takes.id, takeId));
+
+    console.log('🗑️ Deleted take', take.take_number, 'of shot:', take.shot_id);
+
+    revalidatePath(`/projects/${projectId}/studio/video`, 'page');
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error deleting take:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete take',
+    };
+  }
+}
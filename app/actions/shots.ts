@@ -18,22 +18,28 @@
  */
 
 import { db } from '@/lib/drizzle/db';
+import { requireProjectOwner, requireSceneOwner, requireShotOwner } from '@/lib/project-access';
 import {
   scene_shots,
   scenes,
+  shot_takes,
   type SceneShot,
-  type RawSceneData,
+  type ShotTake,
   type Veo3PromptData,
 } from '@/lib/drizzle/schema';
-import { eq, asc } from 'drizzle-orm';
+import { and, asc, desc, eq } from 'drizzle-orm';
 import { revalidatePath } from 'next/cache';
-import { env } from '@/lib/env';
-import {
-  generateSceneVideo,
-  generateImage,
-  invokeWorkflow,
-} from '@/lib/n8n/mcp-client';
+import { generateSceneVideo } from '@/lib/n8n/mcp-client';
+import { divideSceneIntoShots } from '@/lib/providers';
+import { getVideoAspectRatio, getVideoFormatError } from '@/lib/formats';
+import { getProjectFormat } from '@/lib/formats/resolve';
 import type { ApiKeys } from '@/lib/n8n/types';
+import { composeShotVideoPrompt, composeVeo3Prompt, startShotVideoGeneration } from '@/lib/videos';
+import { enqueueJob, kickJobWorker } from '@/lib/jobs';
+import { getStaleShots } from '@/lib/shot-dependencies/resolve';
+import { syncSceneContinuity } from '@/lib/continuity/resolve';
+import { startShotFrameGeneration } from '@/lib/shot-frames';
+import { applyTakeSelection, createShotTake, discardGeneratingTakes, settleShotTake } from '@/lib/takes';
 
 // ============================================================================
 // Types
@@ -43,18 +49,6 @@ export type ShotActionResult =
   | { success: true; shotId?: string; shotIds?: string[]; data?: unknown }
   | { success: false; error: string };
 
-/**
- * AI-generated shot structure from n8n workflow
- */
-interface AIGeneratedShot {
-  shot_number: number;
-  duration_seconds: number;
-  action: string;
-  dialogue: string | null;
-  shot_type: string;
-  composition: string;
-}
-
 // ============================================================================
 // AI-Based Shot Creation (MVP)
 // ============================================================================
@@ -75,6 +69,8 @@ export async function createShotsWithAI(
   apiKeys?: ApiKeys
 ): Promise<ShotActionResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     console.log('🤖 Creating shots with AI for scene:', sceneId);
 
     const [scene] = await db
@@ -102,9 +98,8 @@ export async function createShotsWithAI(
     const rawData = scene.raw_scene_data;
     const estimatedDuration = rawData?.estimated_duration_seconds || 10;
 
-    // Call n8n workflow to intelligently divide scene into shots
-    const result = await invokeWorkflow<{ shots: AIGeneratedShot[] }>(
-      'scene-to-shots',
+    // Call the generation provider to intelligently divide scene into shots
+    const result = await divideSceneIntoShots(
       {
         sceneId: scene.id,
         sceneText: scene.action_text || '',
@@ -112,7 +107,7 @@ export async function createShotsWithAI(
         characters: scene.characters || [],
         estimatedDuration,
       },
-      { apiKeys }
+      apiKeys
     );
 
     if (!result.success || !result.data?.shots) {
@@ -206,6 +201,8 @@ async function createDefaultShotFromScene(sceneId: string): Promise<ShotActionRe
  */
 export async function createAllProjectShotsWithAI(projectId: string): Promise<ShotActionResult> {
   try {
+    await requireProjectOwner(projectId);
+
     console.log('🎬 Creating shots with AI for all scenes in project:', projectId);
 
     const projectScenes = await db
@@ -239,34 +236,6 @@ export async function createAllProjectShotsWithAI(projectId: string): Promise<Sh
 // Shot Creation (Legacy)
 // ============================================================================
 
-/**
- * Compose video_prompt_veo3 into a single prompt string
- * Veo 3.1 7-component format: subject, action, scene, style, dialogue, sounds, technical
- *
- * NOTE: Content policy compliance is handled by n8n workflow (Claude Haiku rewrite)
- * See workflow "video_generation_simple" for detection and rewriting logic.
- */
-function composeVeo3Prompt(vp: {
-  subject?: string | null;
-  action?: string | null;
-  scene?: string | null;
-  style?: string | null;
-  dialogue?: string | null;
-  sounds?: string | null;
-  technical?: string | null;
-}): string {
-  const parts: string[] = [];
-  if (vp.subject) parts.push(vp.subject);
-  if (vp.action) parts.push(vp.action);
-  if (vp.scene) parts.push(vp.scene);
-  if (vp.style) parts.push(vp.style);
-  if (vp.dialogue) parts.push(vp.dialogue);
-  if (vp.sounds) parts.push(vp.sounds);
-  if (vp.technical) parts.push(vp.technical);
-
-  return parts.join('. ');
-}
-
 /**
  * Create shots from scene data
  *
@@ -280,6 +249,8 @@ export async function createShotsFromScene(
   sceneId: string
 ): Promise<ShotActionResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     console.log('🎬 Creating shots for scene:', sceneId);
 
     // Get the scene
@@ -408,6 +379,8 @@ export async function createShotsForProject(
   projectId: string
 ): Promise<ShotActionResult> {
   try {
+    await requireProjectOwner(projectId);
+
     console.log('🎬 Creating shots for project:', projectId);
 
     const projectScenes = await db
@@ -458,62 +431,14 @@ export async function createShotsForProject(
  *
  * Only for first shots that have a composition_instruction.
  * This generates the image that will be used as the first frame in Veo 3.1.
+ * Shots chained by keyframe continuity take theirs from the previous shot.
  */
 export async function triggerStartFrameGeneration(
   shotId: string
 ): Promise<ShotActionResult> {
   try {
-    console.log('🖼️ Triggering start frame generation for shot:', shotId);
-
-    const [shot] = await db
-      .select()
-      .from(scene_shots)
-      .where(eq(scene_shots.id, shotId))
-      .limit(1);
-
-    if (!shot) {
-      return { success: false, error: 'Shot not found' };
-    }
-
-    if (!shot.composition_instruction) {
-      return { success: false, error: 'Shot has no composition_instruction for start frame' };
-    }
-
-    // Update status to generating
-    await db
-      .update(scene_shots)
-      .set({ start_frame_status: 'generating' })
-      .where(eq(scene_shots.id, shotId));
-
-    // Invoke n8n image generation workflow
-    const result = await generateImage({
-      prompt: shot.composition_instruction,
-      model: 'seedream4.5',
-      aspect_ratio: '16:9',
-      next_js_callback_url: `${env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/shot-frame-generated?shot_id=${shotId}&frame_type=start`,
-    });
-
-    if (!result.success) {
-      await db
-        .update(scene_shots)
-        .set({
-          start_frame_status: 'failed',
-          error_message: result.error || 'Failed to start frame generation',
-        })
-        .where(eq(scene_shots.id, shotId));
-
-      return { success: false, error: result.error || 'Failed to start frame generation' };
-    }
-
-    // Store job ID for tracking
-    await db
-      .update(scene_shots)
-      .set({ start_frame_job_id: result.data?.taskId })
-      .where(eq(scene_shots.id, shotId));
-
-    console.log('✅ Start frame generation triggered for shot:', shotId);
-
-    return { success: true, shotId };
+    await requireShotOwner(shotId);
+    return await startShotFrameGeneration(shotId, 'start');
   } catch (error) {
     console.error('❌ Error triggering start frame generation:', error);
     return {
@@ -533,57 +458,8 @@ export async function triggerEndFrameGeneration(
   shotId: string
 ): Promise<ShotActionResult> {
   try {
-    console.log('🖼️ Triggering end frame generation for shot:', shotId);
-
-    const [shot] = await db
-      .select()
-      .from(scene_shots)
-      .where(eq(scene_shots.id, shotId))
-      .limit(1);
-
-    if (!shot) {
-      return { success: false, error: 'Shot not found' };
-    }
-
-    if (!shot.end_frame_instruction) {
-      return { success: false, error: 'Shot has no end_frame_instruction' };
-    }
-
-    // Update status to generating
-    await db
-      .update(scene_shots)
-      .set({ end_frame_status: 'generating' })
-      .where(eq(scene_shots.id, shotId));
-
-    // Invoke n8n image generation workflow
-    const result = await generateImage({
-      prompt: shot.end_frame_instruction,
-      model: 'seedream4.5',
-      aspect_ratio: '16:9',
-      next_js_callback_url: `${env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/shot-frame-generated?shot_id=${shotId}&frame_type=end`,
-    });
-
-    if (!result.success) {
-      await db
-        .update(scene_shots)
-        .set({
-          end_frame_status: 'failed',
-          error_message: result.error || 'Failed to start end frame generation',
-        })
-        .where(eq(scene_shots.id, shotId));
-
-      return { success: false, error: result.error || 'Failed to start end frame generation' };
-    }
-
-    // Store job ID for tracking
-    await db
-      .update(scene_shots)
-      .set({ end_frame_job_id: result.data?.taskId })
-      .where(eq(scene_shots.id, shotId));
-
-    console.log('✅ End frame generation triggered for shot:', shotId);
-
-    return { success: true, shotId };
+    await requireShotOwner(shotId);
+    return await startShotFrameGeneration(shotId, 'end');
   } catch (error) {
     console.error('❌ Error triggering end frame generation:', error);
     return {
@@ -593,126 +469,6 @@ export async function triggerEndFrameGeneration(
   }
 }
 
-// ============================================================================
-// Video Prompt Composition
-// ============================================================================
-
-/**
- * Compose a complete video prompt for Veo 3.1
- *
- * Veo 3.1 generates video WITH audio from a single prompt.
- * All audio (dialogue, SFX, ambient, music) must be described in the prompt.
- *
- * Prompt structure:
- * 1. Camera type and movement
- * 2. Main action description
- * 3. Visual atmosphere (lighting, colors)
- * 4. Dialogue with voice description
- * 5. Sound effects and ambient audio
- * 6. Music mood
- *
- * @param shot - The shot data
- * @param scene - The parent scene with full data
- * @returns A complete video generation prompt for Veo 3.1
- */
-function composeShotVideoPrompt(
-  shot: SceneShot,
-  scene: {
-    raw_scene_data: RawSceneData | null;
-    slugline: string;
-  }
-): string {
-  // PREFER structured VEO 3.1 prompt if available
-  // This gives full control over the 7 prompt components
-  if (shot.video_prompt_veo3 && Object.values(shot.video_prompt_veo3).some(v => v)) {
-    console.log('📹 Using structured VEO3 prompt for shot:', shot.id);
-    return composeVeo3Prompt(shot.video_prompt_veo3);
-  }
-
-  // Fallback to action_prompt if it exists (composed from video_prompt_veo3 or legacy)
-  // NOTE: Content policy compliance is handled by n8n workflow
-  if (shot.action_prompt) {
-    console.log('📹 Using action_prompt fallback for shot:', shot.id);
-    return shot.action_prompt;
-  }
-
-  // Legacy: Build prompt from scene data (for shots created before structured prompts)
-  console.log('📹 Using legacy scene data for shot:', shot.id);
-  const parts: string[] = [];
-  const rawData = scene.raw_scene_data;
-  const audioReqs = rawData?.audio_requirements;
-
-  // 1. Camera type (shot framing)
-  if (shot.shot_type) {
-    parts.push(`${shot.shot_type}.`);
-  }
-
-  // 2. Camera movement / composition instruction
-  if (shot.composition_instruction) {
-    parts.push(`Camera: ${shot.composition_instruction}.`);
-  } else if (rawData?.composition_instruction) {
-    parts.push(`Camera: ${rawData.composition_instruction}.`);
-  }
-
-  // 3. Visual atmosphere
-  if (rawData?.visual_atmosphere) {
-    parts.push(rawData.visual_atmosphere);
-  } else if (rawData?.visual_mood?.atmosphere) {
-    parts.push(rawData.visual_mood.atmosphere);
-  }
-
-  // 4. Lighting
-  if (rawData?.visual_mood?.lighting) {
-    parts.push(`${rawData.visual_mood.lighting} lighting.`);
-  }
-
-  // 5. Color palette
-  if (rawData?.visual_mood?.color_palette) {
-    parts.push(`${rawData.visual_mood.color_palette} color palette.`);
-  }
-
-  // 6. Dialogue with voice type (Veo 3.1 generates spoken audio)
-  const dialogue = shot.dialogue_segment ||
-    rawData?.dialogue_snippet ||
-    audioReqs?.dialogue_transcript;
-
-  if (dialogue) {
-    const voiceDesc = audioReqs?.voice_type
-      ? ` in a ${audioReqs.voice_type} voice`
-      : '';
-    const toneDesc = audioReqs?.dialogue_tone
-      ? `, ${audioReqs.dialogue_tone}`
-      : '';
-    parts.push(`Character speaks${voiceDesc}${toneDesc}: "${dialogue}"`);
-  }
-
-  // 7. Sound effects
-  if (audioReqs?.sfx) {
-    const sfxArray = Array.isArray(audioReqs.sfx) ? audioReqs.sfx : [audioReqs.sfx];
-    if (sfxArray.length > 0) {
-      parts.push(`Sound effects: ${sfxArray.join(', ')}.`);
-    }
-  }
-
-  // 8. Ambient sounds
-  if (audioReqs?.ambient) {
-    const ambientArray = Array.isArray(audioReqs.ambient) ? audioReqs.ambient : [audioReqs.ambient];
-    if (ambientArray.length > 0) {
-      parts.push(`Ambient audio: ${ambientArray.join(', ')}.`);
-    }
-  }
-
-  // 9. Music mood
-  if (audioReqs?.music_mood) {
-    parts.push(`Music: ${audioReqs.music_mood}.`);
-  } else if (audioReqs?.music) {
-    parts.push(`Music: ${audioReqs.music}.`);
-  }
-
-  // NOTE: Content policy compliance is handled by n8n workflow
-  return parts.join(' ');
-}
-
 // ============================================================================
 // Scene Video Generation (all shots at once)
 // ============================================================================
@@ -749,11 +505,16 @@ interface ShotPayload {
  * - etc.
  *
  * n8n polls Kie.ai internally and returns all video URLs when complete.
+ * Each shot gets a new take that replaces its selected take when ready, so
+ * the extend chain stays one generation. In continuity mode, cut shots start
+ * on the previous shot's current end frame or extracted last frame.
  */
 export async function triggerSceneVideoGeneration(
   sceneId: string
 ): Promise<ShotActionResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     console.log('🎬 Triggering video generation for scene:', sceneId);
 
     // Get the scene
@@ -767,6 +528,9 @@ export async function triggerSceneVideoGeneration(
       return { success: false, error: 'Scene not found' };
     }
 
+    // Keyframe continuity: chain start frames before reading the shots
+    await syncSceneContinuity(sceneId);
+
     // Get all shots for this scene
     const shots = await db
       .select()
@@ -778,6 +542,12 @@ export async function triggerSceneVideoGeneration(
       return { success: false, error: 'No shots found for this scene' };
     }
 
+    const format = await getProjectFormat(scene.project_id);
+    const aspectRatio = getVideoAspectRatio(format);
+    if (!aspectRatio) {
+      return { success: false, error: getVideoFormatError(format) ?? 'Unsupported project format' };
+    }
+
     // Check that first shot has start frame ready
     const firstShot = shots[0];
     if (!firstShot.start_frame_image_url) {
@@ -804,8 +574,21 @@ export async function triggerSceneVideoGeneration(
       has_end_frame: !!s.end_frame_image_url,
     })));
 
-    // Update all shots status to generating
-    for (const shot of shots) {
+    // Each shot gets a new take; extend shots record the take they continue
+    const takes: ShotTake[] = [];
+    for (const [index, shot] of shots.entries()) {
+      const previousTake = shot.uses_extend && index > 0 ? takes[index - 1] : null;
+      takes.push(
+        await createShotTake(shot.id, shotsPayload[index].prompt, {
+          sources: {
+            start_frame_url: previousTake ? null : shot.start_frame_image_url,
+            end_frame_url: shot.end_frame_image_url,
+            previous_take_id: previousTake?.id ?? null,
+          },
+          replacesSelection: true,
+        })
+      );
+
       await db
         .update(scene_shots)
         .set({ video_status: 'generating' })
@@ -813,24 +596,19 @@ export async function triggerSceneVideoGeneration(
     }
 
     // Invoke n8n workflow with ALL shots
-    // model (veo3_fast) and aspectRatio (16:9) are set by default in n8n
+    // model (veo3_fast) is set by default in n8n
     const result = await generateSceneVideo({
       scene_id: sceneId,
       scene_number: scene.scene_number,
       slugline: scene.slugline,
+      aspectRatio,
       shots: shotsPayload,
     });
 
     if (!result.success) {
-      // Mark all shots as failed
-      for (const shot of shots) {
-        await db
-          .update(scene_shots)
-          .set({
-            video_status: 'failed',
-            error_message: result.error || 'Failed to start video generation',
-          })
-          .where(eq(scene_shots.id, shot.id));
+      // Fail every take - shots with a selected take keep it
+      for (const take of takes) {
+        await settleShotTake(take.id, { status: 'failed', error: result.error || 'Failed to start video generation' });
       }
 
       return { success: false, error: result.error || 'Failed to start video generation' };
@@ -860,6 +638,8 @@ export async function triggerProjectVideoGeneration(
   projectId: string
 ): Promise<ShotActionResult> {
   try {
+    await requireProjectOwner(projectId);
+
     console.log('🎬 Triggering video generation for project:', projectId);
 
     const projectScenes = await db
@@ -904,6 +684,8 @@ export async function triggerProjectVideoGeneration(
  * Get all shots for a scene
  */
 export async function getShotsForScene(sceneId: string) {
+  await requireSceneOwner(sceneId);
+
   return db
     .select()
     .from(scene_shots)
@@ -921,6 +703,8 @@ export async function getProjectShotStatus(projectId: string): Promise<{
   videosReady: number;
   videosFailed: number;
 }> {
+  await requireProjectOwner(projectId);
+
   const projectScenes = await db
     .select()
     .from(scenes)
@@ -981,6 +765,8 @@ export async function getProjectShotStatus(projectId: string): Promise<{
  * - Independent 8s video per shot
  * - No chaining with previous shots
  *
+ * Refused when the shot's prompt has lint errors (see lib/prompt-lint).
+ *
  * @param shotId - ID of the shot to generate video for
  * @param apiKeys - Optional user-provided API keys from localStorage
  */
@@ -989,104 +775,9 @@ export async function generateShotVideoMVP(
   apiKeys?: ApiKeys
 ): Promise<ShotActionResult> {
   try {
-    console.log('🎬 MVP: Generating video for shot:', shotId);
-
-    const [shot] = await db
-      .select()
-      .from(scene_shots)
-      .where(eq(scene_shots.id, shotId))
-      .limit(1);
-
-    if (!shot) {
-      return { success: false, error: 'Shot not found' };
-    }
+    await requireShotOwner(shotId);
 
-    // Get scene with approved image
-    const [scene] = await db
-      .select()
-      .from(scenes)
-      .where(eq(scenes.id, shot.scene_id))
-      .limit(1);
-
-    if (!scene) {
-      return { success: false, error: 'Scene not found' };
-    }
-
-    // MVP: Use scene's approved image as start frame
-    const imageUrl = scene.approved_image_url;
-    if (!imageUrl) {
-      return { success: false, error: 'No approved image for scene. Generate and approve a scene image first.' };
-    }
-
-    // Update status to generating
-    await db
-      .update(scene_shots)
-      .set({
-        video_status: 'generating',
-        start_frame_image_url: imageUrl, // Store reference to scene image
-        updated_at: new Date(),
-      })
-      .where(eq(scene_shots.id, shotId));
-
-    // Compose video prompt
-    const videoPrompt = composeShotVideoPrompt(shot, scene);
-
-    // Call VEO3 via n8n - simplified (no extend)
-    // Uses workflow "video_generation_simple" with N8N_VIDEO_GENERATION_SIMPLE_WEBHOOK
-    // IMPORTANT: timeout: 0 means no timeout - video generation takes several minutes
-    const result = await invokeWorkflow<{ videoUrl?: string; taskId?: string }>(
-      'video_generation_simple',
-      {
-        shotId: shot.id,
-        imageUrl,
-        prompt: videoPrompt,
-        duration: shot.shot_duration_seconds,
-        aspectRatio: '16:9',
-      },
-      { timeout: 0, apiKeys } // No timeout - video generation can take 2-5 minutes
-    );
-
-    if (!result.success) {
-      await db
-        .update(scene_shots)
-        .set({
-          video_status: 'failed',
-          error_message: result.error || 'Video generation failed',
-          updated_at: new Date(),
-        })
-        .where(eq(scene_shots.id, shotId));
-
-      return { success: false, error: result.error || 'Video generation failed' };
-    }
-
-    // Store job ID for tracking (async workflow)
-    if (result.data?.taskId) {
-      await db
-        .update(scene_shots)
-        .set({
-          video_job_id: result.data.taskId,
-          veo_task_id: result.data.taskId,
-          updated_at: new Date(),
-        })
-        .where(eq(scene_shots.id, shotId));
-    }
-
-    // If synchronous result with video URL
-    if (result.data?.videoUrl) {
-      await db
-        .update(scene_shots)
-        .set({
-          video_url: result.data.videoUrl,
-          video_status: 'ready',
-          updated_at: new Date(),
-        })
-        .where(eq(scene_shots.id, shotId));
-    }
-
-    console.log('✅ MVP: Video generation triggered for shot:', shotId);
-    revalidatePath(`/projects/${scene.project_id}/studio/video`, 'page');
-
-    return { success: true, shotId };
+    return await startShotVideoGeneration(shotId, apiKeys);
   } catch (error) {
     console.error('❌ Error generating shot video (MVP):', error);
     return {
@@ -1099,7 +790,9 @@ export async function generateShotVideoMVP(
 /**
  * Generate videos for all shots in a project (MVP: Batched, no extend)
  *
- * MVP: Process shots in batches of 3 to avoid overloading n8n
+ * Queues a `shot_video_batch` background job, which processes pending
+ * shots in batches of 3 to avoid overloading n8n. Progress shows up on
+ * the shots themselves and in the studio job panel.
  *
  * @param projectId - Project to generate videos for
  * @param apiKeys - Optional user-provided API keys from localStorage
@@ -1109,72 +802,68 @@ export async function generateAllShotVideosMVP(
   apiKeys?: ApiKeys
 ): Promise<ShotActionResult> {
   try {
-    console.log('🎬 MVP: Generating all shot videos for project:', projectId);
-
-    const MAX_CONCURRENT = 3;
+    await requireProjectOwner(projectId);
 
-    // Get all shots for the project
-    const projectScenes = await db
-      .select()
-      .from(scenes)
-      .where(eq(scenes.project_id, projectId))
-      .orderBy(asc(scenes.scene_number));
+    console.log('🎬 MVP: Queueing video generation for project:', projectId);
 
-    const allShots: SceneShot[] = [];
+    const job = await enqueueJob(projectId, 'shot_video_batch', { apiKeys });
+    kickJobWorker();
 
-    for (const scene of projectScenes) {
-      // Only process scenes with approved images
-      if (!scene.approved_image_url) {
-        console.log(`⏭️ Skipping scene ${scene.scene_number} - no approved image`);
-        continue;
-      }
+    return { success: true, data: { jobId: job.id } };
+  } catch (error) {
+    console.error('❌ Error generating all shot videos (MVP):', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate videos',
+    };
+  }
+}
 
-      const shots = await db
-        .select()
-        .from(scene_shots)
-        .where(eq(scene_shots.scene_id, scene.id))
-        .orderBy(asc(scene_shots.shot_number));
+/**
+ * Regenerate stale shots downstream of changed assets, in chain order
+ *
+ * Queues a `stale_shot_regeneration` background job, which regenerates one
+ * chain step at a time; the new takes replace the stale ones when ready.
+ * Reuses a regeneration already running for the same scene (or project).
+ * See lib/shot-dependencies for what makes a shot stale.
+ *
+ * @param projectId - Project to regenerate stale shots in
+ * @param sceneId - Only this scene's stale shots (all scenes when omitted)
+ * @param apiKeys - Optional user-provided API keys from localStorage
+ */
+export async function regenerateStaleShots(
+  projectId: string,
+  sceneId?: string | null,
+  apiKeys?: ApiKeys
+): Promise<ShotActionResult> {
+  try {
+    await requireProjectOwner(projectId);
 
-      allShots.push(...shots);
+    if (sceneId && (await requireSceneOwner(sceneId)) !== projectId) {
+      return { success: false, error: 'Scene not found' };
     }
 
-    // Filter to shots that haven't been processed yet (null or generating)
-    const pendingShots = allShots.filter(
-      (s) => s.video_status === null || s.video_status === 'generating'
-    );
-
-    console.log(`📊 Found ${pendingShots.length} pending shots to process`);
-
-    // Process in batches of MAX_CONCURRENT
-    const allShotIds: string[] = [];
-
-    for (let i = 0; i < pendingShots.length; i += MAX_CONCURRENT) {
-      const batch = pendingShots.slice(i, i + MAX_CONCURRENT);
-      console.log(`🔄 Processing batch ${Math.floor(i / MAX_CONCURRENT) + 1}: ${batch.length} shots`);
-
-      const results = await Promise.all(
-        batch.map((shot) => generateShotVideoMVP(shot.id, apiKeys))
-      );
-
-      for (const result of results) {
-        if (result.success && result.shotId) {
-          allShotIds.push(result.shotId);
-        }
-      }
+    const staleShots = (await getStaleShots(projectId, sceneId)).filter((stale) => !stale.generating);
+    if (staleShots.length === 0) {
+      return { success: false, error: 'No stale shots to regenerate' };
     }
 
-    console.log(`✅ MVP: Video generation triggered for ${allShotIds.length} shots`);
+    console.log(`♻️ Queueing regeneration of ${staleShots.length} stale shots for project:`, projectId);
 
-    return {
-      success: true,
-      shotIds: allShotIds,
-      data: { queued: allShotIds.length, total: pendingShots.length },
-    };
+    const job = await enqueueJob(
+      projectId,
+      'stale_shot_regeneration',
+      { sceneId: sceneId ?? null, apiKeys },
+      { dedupeOn: 'sceneId' }
+    );
+    kickJobWorker();
+
+    return { success: true, shotIds: staleShots.map((stale) => stale.shotId), data: { jobId: job.id } };
   } catch (error) {
-    console.error('❌ Error generating all shot videos (MVP):', error);
+    console.error('❌ Error regenerating stale shots:', error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to generate videos',
+      error: error instanceof Error ? error.message : 'Failed to regenerate stale shots',
     };
   }
 }
@@ -1190,6 +879,8 @@ export async function generateAllShotVideosMVP(
  */
 export async function resetShotsForScene(sceneId: string): Promise<ShotActionResult> {
   try {
+    await requireSceneOwner(sceneId);
+
     console.log('🔄 Resetting shots for scene:', sceneId);
 
     // Delete existing shots
@@ -1224,6 +915,8 @@ export async function resetShotsForScene(sceneId: string): Promise<ShotActionRes
  */
 export async function resetShotsForProject(projectId: string): Promise<ShotActionResult> {
   try {
+    await requireProjectOwner(projectId);
+
     console.log('🔄 Resetting all shots for project:', projectId);
 
     const projectScenes = await db
@@ -1279,6 +972,8 @@ export async function updateShotPrompt(
   newPrompt: string
 ): Promise<ShotActionResult> {
   try {
+    await requireShotOwner(shotId);
+
     console.log('📝 Updating shot prompt:', shotId);
 
     const [shot] = await db
@@ -1335,6 +1030,8 @@ export async function updateShotVeo3Prompt(
   promptData: Veo3PromptData
 ): Promise<ShotActionResult> {
   try {
+    await requireShotOwner(shotId);
+
     console.log('📝 Updating shot VEO3 prompt:', shotId);
 
     const [shot] = await db
@@ -1394,6 +1091,8 @@ export async function cancelShotVideoGeneration(
   shotId: string
 ): Promise<ShotActionResult> {
   try {
+    await requireShotOwner(shotId);
+
     console.log('🛑 Cancelling video generation for shot:', shotId);
 
     const [shot] = await db
@@ -1419,6 +1118,7 @@ export async function cancelShotVideoGeneration(
         updated_at: new Date(),
       })
       .where(eq(scene_shots.id, shotId));
+    await discardGeneratingTakes([shotId]);
 
     // Get scene to revalidate the correct path
     const [scene] = await db
@@ -1446,7 +1146,8 @@ export async function cancelShotVideoGeneration(
  * Manually update shot video result
  *
  * Used to fix shots that failed to update via webhook but actually succeeded.
- * Sets video URL, status, and task ID directly.
+ * Records the video as the shot's generating take (or a new take) and
+ * selects it.
  */
 export async function updateShotVideoResult(
   shotId: string,
@@ -1454,6 +1155,8 @@ export async function updateShotVideoResult(
   taskId?: string
 ): Promise<ShotActionResult> {
   try {
+    await requireShotOwner(shotId);
+
     console.log('🔧 Manually updating shot video result:', shotId);
 
     const [shot] = await db
@@ -1466,16 +1169,23 @@ export async function updateShotVideoResult(
       return { success: false, error: 'Shot not found' };
     }
 
-    await db
-      .update(scene_shots)
-      .set({
-        video_url: videoUrl,
-        video_status: 'ready',
-        veo_task_id: taskId || shot.veo_task_id,
-        error_message: null,
-        updated_at: new Date(),
-      })
-      .where(eq(scene_shots.id, shotId));
+    // Settle the stuck take (or record a new one) and select it
+    const [generatingTake] = await db
+      .select()
+      .from(shot_takes)
+      .where(and(eq(shot_takes.shot_id, shotId), eq(shot_takes.status, 'generating')))
+      .orderBy(desc(shot_takes.take_number))
+      .limit(1);
+
+    const take = await settleShotTake((generatingTake ?? (await createShotTake(shotId, null))).id, {
+      status: 'ready',
+      videoUrl,
+      veoTaskId: taskId || generatingTake?.veo_task_id,
+    });
+    if (take) {
+      await applyTakeSelection(take);
+    }
+    kickJobWorker();
 
     // Get scene to revalidate the correct path
     const [scene] = await db
@@ -1508,6 +1218,8 @@ export async function cancelAllProjectVideoGeneration(
   projectId: string
 ): Promise<ShotActionResult> {
   try {
+    await requireProjectOwner(projectId);
+
     console.log('🛑 Cancelling all video generation for project:', projectId);
 
     // Get all scenes for this project
@@ -1542,6 +1254,7 @@ export async function cancelAllProjectVideoGeneration(
     const projectShotIds = updatedShots
       .filter((shot) => sceneIds.includes(shot.scene_id))
       .map((shot) => shot.id);
+    await discardGeneratingTakes(projectShotIds);
 
     revalidatePath(`/projects/${projectId}/studio/video`, 'page');
 
@@ -0,0 +1,230 @@
+'use server';
+
+/**
+ * Style Preset Server Actions
+ *
+ * CRUD for user-defined visual style presets. Presets belong to the user
+ * who created them; projects reference one through style_preset_id.
+ */
+
+import { db } from '@/lib/drizzle/db';
+import { projects, style_presets, type StylePreset } from '@/lib/drizzle/schema';
+import { requireAuthenticatedUserId } from '@/lib/project-access';
+import { getBuiltinStyle } from '@/lib/styles';
+import { and, desc, eq } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const uuidSchema = z.string().uuid('Invalid UUID format');
+
+const fragmentSchema = z.string().trim().max(2000, 'Prompt fragments are limited to 2000 characters');
+
+const stylePresetInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60, 'Name is limited to 60 characters'),
+  prompt_fragment: fragmentSchema.pipe(z.string().min(1, 'Prompt fragment is required')),
+  negative_prompt: fragmentSchema.optional().nullable(),
+  color_palette: z
+    .array(z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colors must be hex values like #ff2a6d'))
+    .max(8, 'Up to 8 palette colors')
+    .default([]),
+  reference_image_urls: z
+    .array(z.string().url('Reference images must be URLs'))
+    .max(4, 'Up to 4 reference images')
+    .default([]),
+  model_overrides: z
+    .object({
+      seedream: fragmentSchema.optional(),
+      nano_banana: fragmentSchema.optional(),
+      veo: fragmentSchema.optional(),
+    })
+    .default({}),
+});
+
+export type StylePresetInput = z.input<typeof stylePresetInputSchema>;
+
+export type StylePresetActionResult =
+  | { success: true; preset: StylePreset }
+  | { success: false; error: string };
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * List the current user's style presets (newest first)
+ */
+export async function listStylePresets(): Promise<
+  { success: true; presets: StylePreset[] } | { success: false; error: string }
+> {
+  try {
+    const userId = await requireAuthenticatedUserId();
+
+    const presets = await db
+      .select()
+      .from(style_presets)
+      .where(eq(style_presets.owner_id, userId))
+      .orderBy(desc(style_presets.created_at));
+
+    return { success: true, presets };
+  } catch (error) {
+    console.error('❌ Error listing style presets:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load style presets',
+    };
+  }
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Create a style preset for the current user
+ */
+export async function createStylePreset(input: StylePresetInput): Promise<StylePresetActionResult> {
+  try {
+    const validation = stylePresetInputSchema.safeParse(input);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const userId = await requireAuthenticatedUserId();
+
+    if (getBuiltinStyle(validation.data.name)) {
+      return { success: false, error: 'That name is reserved for a built-in style' };
+    }
+
+    const [preset] = await db
+      .insert(style_presets)
+      .values({ owner_id: userId, ...normalizePresetInput(validation.data) })
+      .returning();
+
+    console.log('🎨 Created style preset:', preset.id, preset.name);
+
+    revalidatePath('/settings');
+    return { success: true, preset };
+  } catch (error) {
+    console.error('❌ Error creating style preset:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create style preset',
+    };
+  }
+}
+
+/**
+ * Update a style preset
+ * Projects using the preset pick up the change on their next generation.
+ */
+export async function updateStylePreset(
+  presetId: string,
+  input: StylePresetInput
+): Promise<StylePresetActionResult> {
+  try {
+    const idValidation = uuidSchema.safeParse(presetId);
+    const validation = stylePresetInputSchema.safeParse(input);
+    if (!idValidation.success) {
+      return { success: false, error: idValidation.error.errors[0].message };
+    }
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const userId = await requireAuthenticatedUserId();
+
+    if (getBuiltinStyle(validation.data.name)) {
+      return { success: false, error: 'That name is reserved for a built-in style' };
+    }
+
+    const [preset] = await db
+      .update(style_presets)
+      .set({ ...normalizePresetInput(validation.data), updated_at: new Date() })
+      .where(and(eq(style_presets.id, presetId), eq(style_presets.owner_id, userId)))
+      .returning();
+
+    if (!preset) {
+      return { success: false, error: 'Style preset not found' };
+    }
+
+    // Projects store the preset name as visual_style (sent to n8n workflows)
+    await db
+      .update(projects)
+      .set({ visual_style: preset.name, updated_at: new Date() })
+      .where(eq(projects.style_preset_id, preset.id));
+
+    console.log('🎨 Updated style preset:', preset.id, preset.name);
+
+    revalidatePath('/settings');
+    return { success: true, preset };
+  } catch (error) {
+    console.error('❌ Error updating style preset:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update style preset',
+    };
+  }
+}
+
+/**
+ * Delete a style preset
+ * Projects that used it keep the name as their style but lose the fragments.
+ */
+export async function deleteStylePreset(
+  presetId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    const validation = uuidSchema.safeParse(presetId);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const userId = await requireAuthenticatedUserId();
+
+    const [deleted] = await db
+      .delete(style_presets)
+      .where(and(eq(style_presets.id, presetId), eq(style_presets.owner_id, userId)))
+      .returning({ id: style_presets.id });
+
+    if (!deleted) {
+      return { success: false, error: 'Style preset not found' };
+    }
+
+    console.log('🗑️ Deleted style preset:', presetId);
+
+    revalidatePath('/settings');
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error deleting style preset:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete style preset',
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Drop empty optional fields so they fall back to the generic fragment
+ */
+function normalizePresetInput(input: z.output<typeof stylePresetInputSchema>) {
+  const overrides = Object.fromEntries(
+    Object.entries(input.model_overrides).filter(([, value]) => value)
+  );
+
+  return {
+    name: input.name,
+    prompt_fragment: input.prompt_fragment,
+    negative_prompt: input.negative_prompt || null,
+    color_palette: input.color_palette.map((color) => color.toLowerCase()),
+    reference_image_urls: input.reference_image_urls,
+    model_overrides: overrides,
+  };
+}
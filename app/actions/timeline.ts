@@ -3,13 +3,19 @@
 /**
  * Timeline Server Actions
  *
- * Server actions for managing timeline data and scene reordering.
+ * Server actions for managing timeline data, scene reordering, shot trim
+ * points, and the transition at each cut.
  */
 
 import { db } from '@/lib/drizzle/db';
-import { projects, scenes, scene_shots } from '@/lib/drizzle/schema';
+import { requireProjectOwner, requireSceneOwner, requireShotOwner } from '@/lib/project-access';
+import { projects, scenes, scene_shots, type ScrubSprite } from '@/lib/drizzle/schema';
 import { eq, asc, inArray } from 'drizzle-orm';
 import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { MAX_TRANSITION_SECONDS, TRANSITION_TYPES, resolveTransition, type Transition } from '@/lib/transitions';
+import { MIN_TRIMMED_SECONDS, getTrimmedDuration, type TrimPoints } from '@/lib/trim';
+import { getFreshVideoMedia } from '@/lib/video-media';
 
 // ============================================================================
 // Types
@@ -27,6 +33,8 @@ export interface TimelineScene {
   scene_number: number;
   slugline: string;
   approved_image_url: string | null;
+  /** Transition from the previous scene (null = default) */
+  transition_in: Transition | null;
   shots: TimelineShot[];
 }
 
@@ -37,9 +45,19 @@ export interface TimelineShot {
   id: string;
   shot_number: number;
   shot_duration_seconds: number;
+  /** In/out points in seconds from the clip start (null = clip start / end) */
+  trim_in_seconds: number | null;
+  trim_out_seconds: number | null;
+  /** Length on the reel after trimming */
+  trimmed_duration_seconds: number;
   video_url: string | null;
   video_status: string | null;
   start_frame_image_url: string | null;
+  /** Stills of the current video, once processed (see lib/video-media) */
+  poster_url: string | null;
+  scrub_sprite: ScrubSprite | null;
+  /** Transition from the previous shot of the scene (null = default) */
+  transition_in: Transition | null;
 }
 
 /**
@@ -53,6 +71,23 @@ export interface TimelineData {
   all_videos_ready: boolean;
 }
 
+const transitionSchema = z
+  .object({
+    type: z.enum(TRANSITION_TYPES),
+    duration: z
+      .number()
+      .min(0)
+      .max(MAX_TRANSITION_SECONDS, `Transitions are limited to ${MAX_TRANSITION_SECONDS} seconds`),
+  })
+  .nullable();
+
+const trimSchema = z
+  .object({
+    inSeconds: z.number().min(0, 'The in point must be at or after the clip start'),
+    outSeconds: z.number().positive().nullable(),
+  })
+  .nullable();
+
 // ============================================================================
 // Timeline Data Fetching
 // ============================================================================
@@ -68,6 +103,8 @@ export interface TimelineData {
  */
 export async function getTimelineData(projectId: string): Promise<TimelineActionResult> {
   try {
+    await requireProjectOwner(projectId);
+
     console.log('📊 Fetching timeline data for project:', projectId);
 
     // Get project
@@ -133,19 +170,32 @@ export async function getTimelineData(projectId: string): Promise<TimelineAction
       // Calculate duration and check video status
       let sceneDuration = 0;
       const shots: TimelineShot[] = sceneShots.map((shot) => {
-        sceneDuration += shot.shot_duration_seconds;
+        const trimmedDuration = getTrimmedDuration(
+          shot.shot_duration_seconds,
+          shot.trim_in_seconds,
+          shot.trim_out_seconds
+        );
+        sceneDuration += trimmedDuration;
 
         if (shot.video_status !== 'ready' && shot.video_status !== 'approved') {
           allVideosReady = false;
         }
 
+        const media = getFreshVideoMedia(shot);
+
         return {
           id: shot.id,
           shot_number: shot.shot_number,
           shot_duration_seconds: shot.shot_duration_seconds,
+          trim_in_seconds: shot.trim_in_seconds,
+          trim_out_seconds: shot.trim_out_seconds,
+          trimmed_duration_seconds: trimmedDuration,
           video_url: shot.video_url,
           video_status: shot.video_status,
           start_frame_image_url: shot.start_frame_image_url,
+          poster_url: media?.poster_url ?? null,
+          scrub_sprite: media?.sprite ?? null,
+          transition_in: toTransition(shot.transition_in, shot.transition_in_seconds),
         };
       });
 
@@ -156,6 +206,7 @@ export async function getTimelineData(projectId: string): Promise<TimelineAction
         scene_number: scene.scene_number,
         slugline: scene.slugline,
         approved_image_url: scene.approved_image_url,
+        transition_in: toTransition(scene.transition_in, scene.transition_in_seconds),
         shots,
       });
     }
@@ -164,7 +215,8 @@ export async function getTimelineData(projectId: string): Promise<TimelineAction
       project_id: projectId,
       project_title: project.title,
       scenes: timelineScenes,
-      total_duration_seconds: totalDurationSeconds,
+      // Trimmed durations are fractional - drop float noise
+      total_duration_seconds: Math.round(totalDurationSeconds * 100) / 100,
       all_videos_ready: allVideosReady,
     };
 
@@ -203,6 +255,8 @@ export async function updateSceneOrder(
   orderedSceneIds: string[]
 ): Promise<TimelineActionResult> {
   try {
+    await requireProjectOwner(projectId);
+
     console.log('🔄 Updating scene order for project:', projectId, {
       sceneCount: orderedSceneIds.length,
     });
@@ -243,3 +297,162 @@ export async function updateSceneOrder(
     };
   }
 }
+
+// ============================================================================
+// Trim Points
+// ============================================================================
+
+/**
+ * Set a shot's in/out points
+ *
+ * Trimmed shots must stay at least MIN_TRIMMED_SECONDS long. Assembly clamps
+ * the points to the clip's actual length.
+ *
+ * @param shotId - The shot ID
+ * @param trim - In/out points, or null to play the whole clip
+ * @returns Success result
+ */
+export async function updateShotTrim(
+  shotId: string,
+  trim: TrimPoints | null
+): Promise<TimelineActionResult> {
+  try {
+    const validation = trimSchema.safeParse(trim);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const projectId = await requireShotOwner(shotId);
+
+    const [shot] = await db
+      .select({ shot_duration_seconds: scene_shots.shot_duration_seconds })
+      .from(scene_shots)
+      .where(eq(scene_shots.id, shotId))
+      .limit(1);
+
+    if (!shot) {
+      return { success: false, error: 'Shot not found' };
+    }
+
+    const points = validation.data;
+    if (points && (points.outSeconds ?? shot.shot_duration_seconds) - points.inSeconds < MIN_TRIMMED_SECONDS) {
+      return { success: false, error: `Trimmed shots must be at least ${MIN_TRIMMED_SECONDS}s long` };
+    }
+
+    await db
+      .update(scene_shots)
+      .set({
+        trim_in_seconds: points && points.inSeconds > 0 ? points.inSeconds : null,
+        trim_out_seconds: points?.outSeconds ?? null,
+        updated_at: new Date(),
+      })
+      .where(eq(scene_shots.id, shotId));
+
+    console.log('✂️ Shot trim updated:', shotId, points ?? 'full clip');
+
+    revalidatePath(`/projects/${projectId}/studio/timeline`, 'page');
+
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error updating shot trim:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update trim points',
+    };
+  }
+}
+
+// ============================================================================
+// Transitions
+// ============================================================================
+
+/**
+ * Set the transition into a scene from the previous scene
+ *
+ * @param sceneId - The scene ID
+ * @param transition - Type and duration, or null for the default
+ * @returns Success result
+ */
+export async function updateSceneTransition(
+  sceneId: string,
+  transition: Transition | null
+): Promise<TimelineActionResult> {
+  try {
+    const validation = transitionSchema.safeParse(transition);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const projectId = await requireSceneOwner(sceneId);
+
+    await db
+      .update(scenes)
+      .set({ ...toColumns(validation.data), updated_at: new Date() })
+      .where(eq(scenes.id, sceneId));
+
+    console.log('🎞️ Scene transition updated:', sceneId, validation.data ?? 'default');
+
+    revalidatePath(`/projects/${projectId}/studio/timeline`, 'page');
+
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error updating scene transition:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update transition',
+    };
+  }
+}
+
+/**
+ * Set the transition into a shot from the previous shot of its scene
+ *
+ * @param shotId - The shot ID
+ * @param transition - Type and duration, or null for the default
+ * @returns Success result
+ */
+export async function updateShotTransition(
+  shotId: string,
+  transition: Transition | null
+): Promise<TimelineActionResult> {
+  try {
+    const validation = transitionSchema.safeParse(transition);
+    if (!validation.success) {
+      return { success: false, error: validation.error.errors[0].message };
+    }
+
+    const projectId = await requireShotOwner(shotId);
+
+    await db
+      .update(scene_shots)
+      .set({ ...toColumns(validation.data), updated_at: new Date() })
+      .where(eq(scene_shots.id, shotId));
+
+    console.log('🎞️ Shot transition updated:', shotId, validation.data ?? 'default');
+
+    revalidatePath(`/projects/${projectId}/studio/timeline`, 'page');
+
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Error updating shot transition:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update transition',
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toTransition(type: Transition['type'] | null, seconds: number | null): Transition | null {
+  return type ? resolveTransition(type, seconds) : null;
+}
+
+function toColumns(transition: Transition | null) {
+  return {
+    transition_in: transition?.type ?? null,
+    transition_in_seconds: transition && transition.type !== 'cut' ? transition.duration : null,
+  };
+}
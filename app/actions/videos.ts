@@ -8,6 +8,7 @@
  */
 
 import { db } from '@/lib/drizzle/db';
+import { requireProjectOwner, requireSceneOwner, requireSceneVideoOwner } from '@/lib/project-access';
 import {
   scene_videos,
   scenes,
@@ -15,11 +16,17 @@ import {
 } from '@/lib/drizzle/schema';
 import { eq } from 'drizzle-orm';
 import { revalidatePath } from 'next/cache';
-import { generateVideoSimple, type SimpleVideoResult } from '@/lib/n8n/mcp-client';
+import { generateVideoSimple } from '@/lib/providers';
+import { getProjectStyle } from '@/lib/styles/resolve';
+import { getVideoAspectRatio, getVideoFormatError } from '@/lib/formats';
+import { getProjectFormat } from '@/lib/formats/resolve';
+import type { SimpleVideoResult } from '@/lib/n8n/mcp-client';
 import type { ApiKeys } from '@/lib/n8n';
 import {
   canStartVideoGeneration,
   composeVideoPrompt,
+  drainVideoQueue,
+  startSceneVideoGeneration,
   MAX_CONCURRENT_VIDEO_JOBS,
 } from '@/lib/videos';
 
@@ -52,128 +59,9 @@ export async function triggerVideoGeneration(
   apiKeys?: ApiKeys
 ): Promise<VideoActionResult> {
   try {
-    console.log('🎬 Triggering video generation for scene:', sceneId);
+    await requireSceneOwner(sceneId);
 
-    // Get the scene
-    const [scene] = await db
-      .select()
-      .from(scenes)
-      .where(eq(scenes.id, sceneId))
-      .limit(1);
-
-    if (!scene) {
-      return { success: false, error: 'Scene not found' };
-    }
-
-    // Get the approved variant
-    const [variant] = await db
-      .select()
-      .from(sceneImageVariants)
-      .where(eq(sceneImageVariants.id, variantId))
-      .limit(1);
-
-    if (!variant) {
-      return { success: false, error: 'Variant not found' };
-    }
-
-    if (!variant.image_url) {
-      return { success: false, error: 'Variant has no image URL' };
-    }
-
-    // Check if video already exists for this scene
-    const [existingVideo] = await db
-      .select()
-      .from(scene_videos)
-      .where(eq(scene_videos.scene_id, sceneId))
-      .limit(1);
-
-    if (existingVideo) {
-      console.log('⚠️ Video already exists for scene:', sceneId);
-      // If already generating, just return success
-      if (existingVideo.status === 'generating') {
-        return { success: true, videoId: existingVideo.id, queued: false };
-      }
-      // If ready/approved, don't regenerate automatically
-      if (existingVideo.status === 'ready' || existingVideo.status === 'approved') {
-        return { success: true, videoId: existingVideo.id };
-      }
-      // If failed, we could regenerate - but for now just return the existing
-      return { success: true, videoId: existingVideo.id };
-    }
-
-    // Check batch limit
-    const canStart = await canStartVideoGeneration();
-    if (!canStart) {
-      console.log('⏳ Batch limit reached, scene queued for later');
-      // Don't create a record yet - it will be picked up by queue processor
-      return { success: true, queued: true };
-    }
-
-    // Create video record
-    const [video] = await db
-      .insert(scene_videos)
-      .values({
-        scene_id: sceneId,
-        source_variant_id: variantId,
-        status: 'generating',
-      })
-      .returning();
-
-    console.log('📹 Created video record:', video.id);
-
-    // Compose video prompt for simple workflow
-    const prompt = composeVideoPrompt(scene);
-    console.log('📝 Video prompt:', prompt.substring(0, 200) + (prompt.length > 200 ? '...' : ''));
-
-    // Invoke n8n simple video workflow (synchronous - returns when video is ready)
-    const result = await generateVideoSimple({
-      shotId: video.id,
-      imageUrl: variant.image_url,
-      prompt,
-      duration: 8,
-      model: 'veo3_fast',
-      aspectRatio: '16:9',
-    }, apiKeys);
-
-    if (!result.success) {
-      console.error('❌ Failed to generate video:', result.error);
-      // Update video status to failed
-      await db
-        .update(scene_videos)
-        .set({
-          status: 'failed',
-          error_message: result.error || 'Failed to generate video',
-        })
-        .where(eq(scene_videos.id, video.id));
-
-      return { success: false, error: result.error || 'Failed to generate video' };
-    }
-
-    // Extract video URL from simple workflow response
-    const simpleResponse = result.data as SimpleVideoResult;
-    const videoUrl = simpleResponse?.videoUrl;
-    const taskId = simpleResponse?.taskId;
-
-    if (videoUrl) {
-      // Update video record with the URL (video is ready!)
-      await db
-        .update(scene_videos)
-        .set({
-          status: 'ready',
-          video_url: videoUrl,
-          n8n_job_id: taskId || null,
-        })
-        .where(eq(scene_videos.id, video.id));
-
-      console.log('✅ Video generation complete:', video.id, videoUrl);
-    } else {
-      console.log('✅ Video generation started (no URL in response yet):', video.id);
-    }
-
-    revalidatePath(`/projects/${scene.project_id}/studio/images`, 'page');
-    revalidatePath(`/projects/${scene.project_id}/studio/video`, 'page');
-
-    return { success: true, videoId: video.id };
+    return await startSceneVideoGeneration(sceneId, variantId, apiKeys);
   } catch (error) {
     console.error('❌ Error triggering video generation:', error);
     return {
@@ -197,6 +85,8 @@ export async function regenerateVideo(
   apiKeys?: ApiKeys
 ): Promise<VideoActionResult> {
   try {
+    await requireSceneVideoOwner(sceneVideoId);
+
     console.log('🔄 Regenerating video:', sceneVideoId);
 
     // Get the video record
@@ -232,6 +122,12 @@ export async function regenerateVideo(
       return { success: false, error: 'Source image not found' };
     }
 
+    const format = await getProjectFormat(scene.project_id);
+    const aspectRatio = getVideoAspectRatio(format);
+    if (!aspectRatio) {
+      return { success: false, error: getVideoFormatError(format) ?? 'Unsupported project format' };
+    }
+
     // Check batch limit
     const canStart = await canStartVideoGeneration();
     if (!canStart) {
@@ -262,8 +158,8 @@ export async function regenerateVideo(
       prompt,
       duration: 8,
       model: 'veo3_fast',
-      aspectRatio: '16:9',
-    }, apiKeys);
+      aspectRatio,
+    }, apiKeys, await getProjectStyle(scene.project_id));
 
     if (!result.success) {
       await db
@@ -321,6 +217,8 @@ export async function cancelVideoGeneration(
   sceneVideoId: string
 ): Promise<VideoActionResult> {
   try {
+    await requireSceneVideoOwner(sceneVideoId);
+
     console.log('🛑 Cancelling video generation:', sceneVideoId);
 
     // Get the video record
@@ -367,54 +265,15 @@ export async function cancelVideoGeneration(
  * Process video generation queue
  *
  * Checks for scenes waiting for video generation and starts them
- * if slots are available. Called by webhook when a video completes.
+ * if slots are available. The video webhook calls drainVideoQueue directly.
  */
 export async function processVideoQueue(
   projectId: string
 ): Promise<{ triggered: number }> {
   try {
-    console.log('🔄 Processing video queue for project:', projectId);
-
-    let triggered = 0;
+    await requireProjectOwner(projectId);
 
-    // Get scenes with approved images but no video
-    const projectScenes = await db
-      .select()
-      .from(scenes)
-      .where(eq(scenes.project_id, projectId))
-      .orderBy(scenes.scene_number);
-
-    for (const scene of projectScenes) {
-      // Check if we can start more jobs
-      const canStart = await canStartVideoGeneration();
-      if (!canStart) {
-        console.log('⏳ Batch limit reached, stopping queue processing');
-        break;
-      }
-
-      // Skip scenes without approved images
-      if (!scene.approved_image_id) continue;
-
-      // Check if video already exists
-      const [existingVideo] = await db
-        .select()
-        .from(scene_videos)
-        .where(eq(scene_videos.scene_id, scene.id))
-        .limit(1);
-
-      if (existingVideo) continue;
-
-      // Trigger video generation
-      console.log(`📹 Queue: Starting video for scene ${scene.scene_number}`);
-      const result = await triggerVideoGeneration(scene.id, scene.approved_image_id);
-
-      if (result.success && !result.queued) {
-        triggered++;
-      }
-    }
-
-    console.log(`✅ Queue processing complete: ${triggered} videos triggered`);
-    return { triggered };
+    return await drainVideoQueue(projectId);
   } catch (error) {
     console.error('❌ Error processing video queue:', error);
     return { triggered: 0 };
@@ -431,6 +290,8 @@ export async function getVideoStats(projectId: string): Promise<{
   failed: number;
   pending: number;
 }> {
+  await requireProjectOwner(projectId);
+
   const projectScenes = await db
     .select()
     .from(scenes)
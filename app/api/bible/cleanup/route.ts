@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/drizzle/db';
 import { bibleImageVariants, projectCharacters, projectLocations } from '@/lib/drizzle/schema';
 import { eq, inArray, and } from 'drizzle-orm';
+import { authorizeProjectRoute } from '@/lib/project-access';
 
 /**
  * POST /api/bible/cleanup
@@ -21,6 +22,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const project = await authorizeProjectRoute(projectId);
+    if (project instanceof NextResponse) {
+      return project;
+    }
+
     console.log(`🧹 Cleaning up stuck variants for project ${projectId}`);
 
     // Get all characters and locations for this project
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { env } from "@/lib/env";
+import { runJobWorker } from "@/lib/jobs";
+import { reconcileOrphanedGenerations } from "@/lib/n8n/reconciler";
+
+// Scene generation alone takes ~3 minutes
+export const maxDuration = 300;
+
+/**
+ * Cron endpoint that drains the background job queue
+ *
+ * Server actions start a worker right after queueing a job; this endpoint
+ * is the safety net that picks up retries (after their backoff) and jobs
+ * whose worker died. It also settles generations whose n8n callback never
+ * arrived. Schedule it every minute with:
+ *   Authorization: Bearer $CRON_SECRET
+ */
+export async function GET(request: Request) {
+  if (!env.CRON_SECRET) {
+    console.error("❌ CRON_SECRET not configured - job worker endpoint disabled");
+    return NextResponse.json({ error: "Job worker endpoint is not configured" }, { status: 503 });
+  }
+
+  const expected = Buffer.from(`Bearer ${env.CRON_SECRET}`);
+  const received = Buffer.from(request.headers.get("authorization") ?? "");
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const reconciled = await reconcileOrphanedGenerations();
+    const result = await runJobWorker();
+    return NextResponse.json({ success: true, ...result, reconciled });
+  } catch (error) {
+    console.error("❌ Error running job worker:", error);
+    return NextResponse.json(
+      { error: "Failed to run job worker", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { env } from "@/lib/env";
+import {
+  isMockAudioType,
+  isMockSeed,
+  MOCK_AUDIO_MAX_SECONDS,
+  renderPlaceholderWav,
+} from "@/lib/providers/mock-media";
+
+/**
+ * Placeholder audio track for the mock generation provider
+ *
+ * GET /api/mock-media/audio?seed=<12 hex>&duration=8&type=music
+ * Only served when GENERATION_PROVIDER=mock.
+ */
+export async function GET(request: Request) {
+  if (env.GENERATION_PROVIDER !== "mock") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const seed = searchParams.get("seed");
+  const duration = Number(searchParams.get("duration") ?? "8");
+  const type = searchParams.get("type");
+
+  if (
+    !isMockSeed(seed) ||
+    !isMockAudioType(type) ||
+    !Number.isInteger(duration) ||
+    duration < 1 ||
+    duration > MOCK_AUDIO_MAX_SECONDS
+  ) {
+    return NextResponse.json({ error: "Invalid seed, duration, or type" }, { status: 400 });
+  }
+
+  const wav = renderPlaceholderWav(seed, duration, type);
+
+  return new NextResponse(new Uint8Array(wav), {
+    headers: {
+      "Content-Type": "audio/wav",
+      "Content-Length": String(wav.length),
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
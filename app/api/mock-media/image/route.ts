@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { env } from "@/lib/env";
+import { isMockAspectRatio, isMockSeed, renderPlaceholderPng } from "@/lib/providers/mock-media";
+
+/**
+ * Placeholder image for the mock generation provider
+ *
+ * GET /api/mock-media/image?seed=<12 hex>&aspect=16:9
+ * Only served when GENERATION_PROVIDER=mock.
+ */
+export async function GET(request: Request) {
+  if (env.GENERATION_PROVIDER !== "mock") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const seed = searchParams.get("seed");
+  const aspect = searchParams.get("aspect") ?? "16:9";
+
+  if (!isMockSeed(seed) || !isMockAspectRatio(aspect)) {
+    return NextResponse.json({ error: "Invalid seed or aspect" }, { status: 400 });
+  }
+
+  const png = renderPlaceholderPng(seed, aspect);
+
+  return new NextResponse(new Uint8Array(png), {
+    headers: {
+      "Content-Type": "image/png",
+      "Content-Length": String(png.length),
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { readFile } from "fs/promises";
+import { env } from "@/lib/env";
+import { isMockSeed, MOCK_VIDEO_MAX_SECONDS, renderPlaceholderVideo } from "@/lib/providers/mock-media";
+
+// Long reels take a while to render the first time
+export const maxDuration = 120;
+
+/**
+ * Placeholder video for the mock generation provider
+ *
+ * GET /api/mock-media/video?seed=<12 hex>&duration=8&aspect=16:9
+ * Rendered with ffmpeg on first request and cached in the temp dir.
+ * Only served when GENERATION_PROVIDER=mock.
+ */
+export async function GET(request: Request) {
+  if (env.GENERATION_PROVIDER !== "mock") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const seed = searchParams.get("seed");
+  const duration = Number(searchParams.get("duration") ?? "8");
+  const aspect = searchParams.get("aspect") ?? "16:9";
+
+  if (
+    !isMockSeed(seed) ||
+    !Number.isInteger(duration) ||
+    duration < 1 ||
+    duration > MOCK_VIDEO_MAX_SECONDS ||
+    (aspect !== "16:9" && aspect !== "9:16")
+  ) {
+    return NextResponse.json({ error: "Invalid seed, duration, or aspect" }, { status: 400 });
+  }
+
+  try {
+    const videoPath = await renderPlaceholderVideo(seed, duration, aspect);
+    const video = await readFile(videoPath);
+
+    return new NextResponse(new Uint8Array(video), {
+      headers: {
+        "Content-Type": "video/mp4",
+        "Content-Length": String(video.length),
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("❌ [Mock] Failed to render placeholder video:", error);
+    return NextResponse.json(
+      { error: "Failed to render placeholder video", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
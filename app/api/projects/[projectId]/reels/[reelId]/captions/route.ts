@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/drizzle/db";
+import { final_reels } from "@/lib/drizzle/schema";
+import { and, eq } from "drizzle-orm";
+import { authorizeProjectRoute } from "@/lib/project-access";
+import { CAPTION_FORMATS, formatCaptions, toCaptionCues, type CaptionFormat } from "@/lib/captions";
+
+/**
+ * Download a reel version's captions as SRT or WebVTT
+ * GET /api/projects/:projectId/reels/:reelId/captions?format=srt|vtt
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string; reelId: string }> }
+) {
+  try {
+    const { projectId, reelId } = await context.params;
+    const format = new URL(request.url).searchParams.get("format") ?? "srt";
+
+    if (!CAPTION_FORMATS.includes(format as CaptionFormat)) {
+      return NextResponse.json(
+        { error: `Unknown format - use one of ${CAPTION_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const project = await authorizeProjectRoute(projectId);
+    if (project instanceof NextResponse) {
+      return project;
+    }
+
+    const [reel] = await db
+      .select({ version_number: final_reels.version_number, captions: final_reels.captions })
+      .from(final_reels)
+      .where(and(eq(final_reels.id, reelId), eq(final_reels.project_id, projectId)))
+      .limit(1);
+
+    if (!reel) {
+      return NextResponse.json(
+        { error: "Reel version not found" },
+        { status: 404 }
+      );
+    }
+
+    const cues = toCaptionCues(reel.captions);
+    if (!cues || cues.length === 0) {
+      return NextResponse.json(
+        { error: "This version has no captions" },
+        { status: 404 }
+      );
+    }
+
+    const fileName = `${toFileSlug(project.title)}-v${reel.version_number}.${format}`;
+
+    return new Response(formatCaptions(cues, format as CaptionFormat), {
+      headers: {
+        "Content-Type": format === "vtt" ? "text/vtt; charset=utf-8" : "application/x-subrip; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("❌ Error downloading captions:", error);
+    return NextResponse.json(
+      { error: "Failed to download captions", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+function toFileSlug(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "reel";
+}
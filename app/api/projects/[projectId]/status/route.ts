@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/drizzle/db";
-import { projects, scenes } from "@/lib/drizzle/schema";
+import { scenes } from "@/lib/drizzle/schema";
 import { eq, count } from "drizzle-orm";
+import { authorizeProjectRoute } from "@/lib/project-access";
+import { getProjectJobSummaries } from "@/lib/jobs";
 
 export async function GET(
   request: Request,
@@ -12,19 +14,9 @@ export async function GET(
 
     console.log("📊 Status API called for project:", projectId);
 
-    // Fetch project
-    const [project] = await db
-      .select()
-      .from(projects)
-      .where(eq(projects.id, projectId))
-      .limit(1);
-
-    if (!project) {
-      console.log("❌ Project not found:", projectId);
-      return NextResponse.json(
-        { error: "Project not found" },
-        { status: 404 }
-      );
+    const project = await authorizeProjectRoute(projectId);
+    if (project instanceof NextResponse) {
+      return project;
     }
 
     // Count scenes
@@ -36,6 +28,7 @@ export async function GET(
     const response = {
       status: project.status,
       sceneCount: sceneCount?.count || 0,
+      jobs: await getProjectJobSummaries(projectId),
     };
 
     console.log("✅ Status API response:", response);
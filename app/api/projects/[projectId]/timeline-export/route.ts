@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { authorizeProjectRoute } from "@/lib/project-access";
+import { getTimelineData, type TimelineData } from "@/app/actions/timeline";
+import {
+  INTERCHANGE_FORMATS,
+  buildInterchangeTimeline,
+  createTimelineExportZip,
+  type InterchangeFormat,
+} from "@/lib/interchange";
+
+/**
+ * Download the timeline as an EDL, FCPXML, or OTIO zip with its shot videos
+ * GET /api/projects/:projectId/timeline-export?format=edl|fcpxml|otio
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await context.params;
+    const format = new URL(request.url).searchParams.get("format") ?? "fcpxml";
+
+    if (!INTERCHANGE_FORMATS.includes(format as InterchangeFormat)) {
+      return NextResponse.json(
+        { error: `Unknown format - use one of ${INTERCHANGE_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeProjectRoute(projectId);
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const result = await getTimelineData(projectId);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    const timeline = buildInterchangeTimeline(result.data as TimelineData);
+    if (timeline.clips.length === 0) {
+      return NextResponse.json(
+        { error: "No ready shot videos to export" },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🎞️ Exporting ${timeline.clips.length} shots of project ${projectId} as ${format}`);
+
+    const { fileName, stream } = createTimelineExportZip(timeline, format as InterchangeFormat);
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("❌ Error exporting timeline:", error);
+    return NextResponse.json(
+      { error: "Failed to export timeline", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getSharedReelCaptions, lookupShareLink } from "@/lib/share-links";
+import { toVtt } from "@/lib/captions";
+
+/**
+ * WebVTT captions for the reel a share link shows (the share page's <track>)
+ * GET /api/share/:shareId/captions
+ *
+ * Public - served only while the link is active and unexpired.
+ */
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ shareId: string }> }
+) {
+  try {
+    const { shareId } = await context.params;
+    const lookup = await lookupShareLink(shareId);
+
+    if (lookup.status !== "ok") {
+      return NextResponse.json(
+        { error: "Share link not found" },
+        { status: 404 }
+      );
+    }
+
+    const cues = await getSharedReelCaptions(lookup.link);
+    if (!cues) {
+      return NextResponse.json(
+        { error: "This reel has no captions" },
+        { status: 404 }
+      );
+    }
+
+    return new Response(toVtt(cues), {
+      headers: {
+        "Content-Type": "text/vtt; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("❌ Error serving shared captions:", error);
+    return NextResponse.json(
+      { error: "Failed to load captions" },
+      { status: 500 }
+    );
+  }
+}
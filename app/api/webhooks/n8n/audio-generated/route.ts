@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyN8nWebhook } from '@/lib/n8n/signing';
+import { settleSceneAudio } from '@/lib/audio';
+
+interface AudioGeneratedPayload {
+  scene_audio_id?: string;
+  sceneAudioId?: string;
+  audio_url?: string;
+  audioUrl?: string;
+  duration_seconds?: number;
+  durationSeconds?: number;
+  status?: 'ready' | 'failed';
+  error_message?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Webhook endpoint to receive scene audio generation results from n8n
+ *
+ * Expected payload (supports both camelCase and snake_case):
+ * {
+ *   scene_audio_id: string;
+ *   audio_url?: string;
+ *   duration_seconds?: number;
+ *   status: "ready" | "failed";
+ *   error_message?: string;
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const verified = await verifyN8nWebhook<AudioGeneratedPayload>(request);
+    if (!verified.success) return verified.response;
+    const body = verified.payload;
+
+    console.log('📥 Audio generation webhook received:', JSON.stringify(body, null, 2));
+
+    // Handle both camelCase and snake_case formats
+    const scene_audio_id = body.scene_audio_id || body.sceneAudioId;
+    const audio_url = body.audio_url || body.audioUrl;
+    const duration_seconds = body.duration_seconds || body.durationSeconds;
+    const error_message = body.error_message || body.errorMessage;
+
+    if (!scene_audio_id) {
+      return NextResponse.json(
+        { success: false, error: 'scene_audio_id is required' },
+        { status: 400 }
+      );
+    }
+
+    // A "ready" result without a file is unusable
+    const track = body.status !== 'failed' && audio_url
+      ? await settleSceneAudio(scene_audio_id, {
+          status: 'ready',
+          audioUrl: audio_url,
+          durationSeconds: duration_seconds,
+        })
+      : await settleSceneAudio(scene_audio_id, {
+          status: 'failed',
+          error: error_message || 'Audio generation failed',
+        });
+
+    if (!track) {
+      return NextResponse.json(
+        { success: false, error: 'Audio track not found or already settled' },
+        { status: 404 }
+      );
+    }
+
+    console.log(
+      track.status === 'ready'
+        ? `✅ Audio ${scene_audio_id} updated successfully`
+        : `❌ Audio ${scene_audio_id} marked as failed`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `Audio ${scene_audio_id} ${track.status === 'ready' ? 'updated successfully' : 'marked as failed'}`,
+    });
+  } catch (error) {
+    console.error('❌ Audio webhook error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
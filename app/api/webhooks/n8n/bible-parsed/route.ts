@@ -8,6 +8,7 @@ import {
   projectProps
 } from "@/lib/drizzle/schema";
 import { eq } from "drizzle-orm";
+import { verifyN8nWebhook } from "@/lib/n8n/signing";
 import type { RawSceneData } from "@/lib/drizzle/schema/scenes";
 
 /**
@@ -190,7 +191,9 @@ interface BibleParsedPayload {
  */
 export async function POST(request: NextRequest) {
   try {
-    const body: BibleParsedPayload = await request.json();
+    const verified = await verifyN8nWebhook<BibleParsedPayload>(request);
+    if (!verified.success) return verified.response;
+    const body = verified.payload;
     const { project_id, bible, raw_scenes } = body;
 
     console.log("📥 Received Bible + raw scenes:", {
@@ -1,8 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/drizzle/db";
-import { projectCharacters, bibleImageVariants } from "@/lib/drizzle/schema";
+import { projectCharacters } from "@/lib/drizzle/schema";
 import { eq } from "drizzle-orm";
+import { verifyN8nWebhook } from "@/lib/n8n/signing";
 import { uploadBibleFile, getCharacterShotPath, BIBLE_STORAGE_BUCKETS } from "@/lib/supabase/storage-bible";
+import { settleBibleVariant } from "@/lib/image-variants";
+
+interface CharacterImagePayload {
+  character_id?: string;
+  characterId?: string;
+  shot_type?: "portrait" | "three_quarter" | "full_body";
+  shotType?: "portrait" | "three_quarter" | "full_body";
+  image_url?: string;
+  imageUrl?: string;
+  storage_path?: string;
+  storagePath?: string;
+  status?: "ready" | "failed";
+  error_message?: string;
+  errorMessage?: string;
+  variant_id?: string;
+  variantId?: string;
+}
 
 /**
  * Webhook endpoint to receive character image generation results from n8n
@@ -20,7 +38,9 @@ import { uploadBibleFile, getCharacterShotPath, BIBLE_STORAGE_BUCKETS } from "@/
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const verified = await verifyN8nWebhook<CharacterImagePayload>(request);
+    if (!verified.success) return verified.response;
+    const body = verified.payload;
 
     // Log full payload for debugging
     console.log("📥 Received full webhook payload:", JSON.stringify(body, null, 2));
@@ -62,80 +82,33 @@ export async function POST(request: NextRequest) {
     if (variant_id) {
       console.log(`📸 Updating variant ${variant_id}...`);
 
-      // If status is failed, just update the status
-      if (status === 'failed') {
-        await db
-          .update(bibleImageVariants)
-          .set({
-            status: 'failed',
-            error_message: error_message || null,
-            n8n_job_id: null,
-            updated_at: new Date(),
-          })
-          .where(eq(bibleImageVariants.id, variant_id));
+      // Store the image in Supabase (the n8n URL is temporary) and update the variant
+      const settled = await settleBibleVariant(
+        variant_id,
+        status === 'failed'
+          ? { status: 'failed', error: error_message }
+          : { status: 'ready', imageUrl: image_url || '', storagePath: storage_path }
+      );
 
-        console.log(`❌ Variant ${variant_id} marked as failed`);
+      if (!settled) {
+        console.log(`⏭️ Variant ${variant_id} not found or already settled`);
         return NextResponse.json({
           success: true,
-          message: `Variant ${variant_id} marked as failed`,
+          message: `Variant ${variant_id} already settled`,
         });
       }
 
-      // Download image from temporary URL and upload to Supabase
-      let permanentUrl = image_url;
-      let permanentPath = storage_path;
-
-      if (image_url) {
-        try {
-          console.log(`⬇️ Downloading image from temporary URL: ${image_url.substring(0, 50)}...`);
-
-          const imageResponse = await fetch(image_url);
-          if (!imageResponse.ok) {
-            throw new Error(`Failed to download image: ${imageResponse.statusText}`);
-          }
-
-          const imageBuffer = Buffer.from(await imageResponse.arrayBuffer());
-          console.log(`📦 Downloaded ${imageBuffer.length} bytes`);
-
-          // Generate storage path
-          const filename = `${variant_id}_${Date.now()}.png`;
-          const storagePath = getCharacterShotPath(character_id, shot_type, filename);
-
-          // Upload to Supabase
-          console.log(`⬆️ Uploading to Supabase: ${storagePath}`);
-          const { url, path } = await uploadBibleFile(
-            BIBLE_STORAGE_BUCKETS.characters,
-            storagePath,
-            imageBuffer,
-            'image/png'
-          );
-
-          permanentUrl = url;
-          permanentPath = path;
-          console.log(`✅ Permanently stored at: ${url.substring(0, 50)}...`);
-        } catch (error) {
-          console.error(`❌ Failed to store image permanently:`, error);
-          // Continue with temporary URL if upload fails
-        }
-      }
-
-      await db
-        .update(bibleImageVariants)
-        .set({
-          image_url: permanentUrl || '',
-          storage_path: permanentPath || '',
-          status: 'ready',
-          error_message: error_message || null,
-          n8n_job_id: null, // Clear job ID when complete
-          updated_at: new Date(),
-        })
-        .where(eq(bibleImageVariants.id, variant_id));
-
-      console.log(`✅ Variant ${variant_id} updated successfully with permanent URL`);
+      console.log(
+        settled.status === 'failed'
+          ? `❌ Variant ${variant_id} marked as failed`
+          : `✅ Variant ${variant_id} updated successfully with permanent URL`
+      );
 
       return NextResponse.json({
         success: true,
-        message: `Variant ${variant_id} updated successfully`,
+        message: settled.status === 'failed'
+          ? `Variant ${variant_id} marked as failed`
+          : `Variant ${variant_id} updated successfully`,
       });
     }
 
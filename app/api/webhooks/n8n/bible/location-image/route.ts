@@ -2,8 +2,21 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/drizzle/db";
 import { projectLocations } from "@/lib/drizzle/schema";
 import { eq } from "drizzle-orm";
+import { verifyN8nWebhook } from "@/lib/n8n/signing";
 import { uploadBibleFile, getLocationImagePath, BIBLE_STORAGE_BUCKETS } from "@/lib/supabase/storage-bible";
 
+interface LocationImagePayload {
+  location_id?: string;
+  locationId?: string;
+  image_url?: string;
+  imageUrl?: string;
+  storage_path?: string;
+  storagePath?: string;
+  status?: "ready" | "failed";
+  error_message?: string;
+  errorMessage?: string;
+}
+
 /**
  * Webhook endpoint to receive location image generation results from n8n
  *
@@ -18,7 +31,9 @@ import { uploadBibleFile, getLocationImagePath, BIBLE_STORAGE_BUCKETS } from "@/
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const verified = await verifyN8nWebhook<LocationImagePayload>(request);
+    if (!verified.success) return verified.response;
+    const body = verified.payload;
 
     // Log full payload for debugging
     console.log("📥 Received full webhook payload:", JSON.stringify(body, null, 2));
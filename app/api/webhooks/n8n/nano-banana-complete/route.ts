@@ -2,6 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/drizzle/db";
 import { scene_images } from "@/lib/drizzle/schema";
 import { eq } from "drizzle-orm";
+import { verifyN8nWebhook } from "@/lib/n8n/signing";
+
+interface NanoBananaCompletePayload {
+  scene_image_id?: string;
+  image_url?: string;
+  status?: "ready" | "failed";
+  error_message?: string;
+}
 
 /**
  * Webhook endpoint to receive Nano Banana generation results from n8n
@@ -16,7 +24,9 @@ import { eq } from "drizzle-orm";
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const verified = await verifyN8nWebhook<NanoBananaCompletePayload>(request);
+    if (!verified.success) return verified.response;
+    const body = verified.payload;
     const { scene_image_id, image_url, status, error_message } = body;
 
     console.log("📥 Received Nano Banana result:", {
@@ -1,61 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/drizzle/db';
-import { sceneImageVariants, scenes } from '@/lib/drizzle/schema';
+import { sceneImageVariants } from '@/lib/drizzle/schema';
 import { eq } from 'drizzle-orm';
-import { createClient } from '@supabase/supabase-js';
-import { env } from '@/lib/env';
-
-/**
- * Scene Images Storage Bucket
- */
-const SCENE_IMAGES_BUCKET = 'scene-images';
-
-/**
- * Initialize Supabase client with service role for bucket management
- */
-function getAdminClient() {
-  return createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
-  });
-}
-
-/**
- * Upload file to Supabase storage
- */
-async function uploadToStorage(
-  path: string,
-  file: Buffer,
-  contentType: string
-): Promise<{ url: string; path: string }> {
-  const supabase = getAdminClient();
-
-  const { data, error } = await supabase.storage
-    .from(SCENE_IMAGES_BUCKET)
-    .upload(path, file, {
-      upsert: true,
-      contentType,
-    });
-
-  if (error) {
-    console.error('Storage upload error:', error);
-    throw new Error(`Failed to upload file: ${error.message}`);
-  }
-
-  const {
-    data: { publicUrl },
-  } = supabase.storage.from(SCENE_IMAGES_BUCKET).getPublicUrl(data.path);
-
-  return { url: publicUrl, path: data.path };
-}
-
-/**
- * Generate storage path for scene image
- */
-function getSceneImagePath(sceneId: string, variantId: string): string {
-  return `scenes/${sceneId}/${variantId}_${Date.now()}.png`;
+import { verifyN8nWebhook } from '@/lib/n8n/signing';
+import { settleSceneImageVariant } from '@/lib/image-variants';
+
+interface SceneImageVariantPayload {
+  variant_id?: string;
+  variantId?: string;
+  image_url?: string;
+  imageUrl?: string;
+  status?: 'ready' | 'failed';
+  error_message?: string;
+  errorMessage?: string;
 }
 
 /**
@@ -71,7 +28,9 @@ function getSceneImagePath(sceneId: string, variantId: string): string {
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const verified = await verifyN8nWebhook<SceneImageVariantPayload>(request);
+    if (!verified.success) return verified.response;
+    const body = verified.payload;
 
     // Log full payload for debugging
     console.log(
@@ -100,9 +59,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get variant to find scene_id
     const [variant] = await db
-      .select()
+      .select({ id: sceneImageVariants.id })
       .from(sceneImageVariants)
       .where(eq(sceneImageVariants.id, variant_id))
       .limit(1);
@@ -114,86 +72,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Handle failed status
-    if (status === 'failed') {
-      await db
-        .update(sceneImageVariants)
-        .set({
-          status: 'failed',
-          error_message: error_message || 'Generation failed',
-          n8n_job_id: null,
-          updated_at: new Date(),
-        })
-        .where(eq(sceneImageVariants.id, variant_id));
+    // Store the image in Supabase (the n8n URL is temporary) and update the variant
+    const settled = await settleSceneImageVariant(
+      variant_id,
+      status === 'failed'
+        ? { status: 'failed', error: error_message }
+        : { status: 'ready', imageUrl: image_url || '' }
+    );
 
-      console.log(`❌ Scene variant ${variant_id} marked as failed`);
+    if (!settled) {
+      console.log(`⏭️ Scene variant ${variant_id} already settled`);
       return NextResponse.json({
         success: true,
-        message: `Scene variant ${variant_id} marked as failed`,
+        message: `Scene variant ${variant_id} already settled`,
       });
     }
 
-    // Download image from temporary URL and upload to Supabase
-    let permanentUrl = image_url;
-    let permanentPath = '';
-
-    if (image_url) {
-      try {
-        console.log(
-          `⬇️ Downloading image from temporary URL: ${image_url.substring(0, 50)}...`
-        );
-
-        const imageResponse = await fetch(image_url);
-        if (!imageResponse.ok) {
-          throw new Error(`Failed to download image: ${imageResponse.statusText}`);
-        }
-
-        const imageBuffer = Buffer.from(await imageResponse.arrayBuffer());
-        console.log(`📦 Downloaded ${imageBuffer.length} bytes`);
-
-        // Validate we got actual image data
-        if (imageBuffer.length < 1000) {
-          console.error(
-            `❌ Downloaded data too small (${imageBuffer.length} bytes)`
-          );
-          throw new Error('Downloaded image data too small');
-        }
-
-        // Generate storage path
-        const storagePath = getSceneImagePath(variant.scene_id, variant_id);
-
-        // Upload to Supabase
-        console.log(`⬆️ Uploading to Supabase: ${storagePath}`);
-        const result = await uploadToStorage(storagePath, imageBuffer, 'image/png');
-
-        permanentUrl = result.url;
-        permanentPath = result.path;
-        console.log(`✅ Permanently stored at: ${permanentUrl.substring(0, 50)}...`);
-      } catch (error) {
-        console.error(`❌ Failed to store image permanently:`, error);
-        // Continue with temporary URL if upload fails
-        // The image may still work for a while
-      }
-    }
-
-    // Update variant record
-    await db
-      .update(sceneImageVariants)
-      .set({
-        image_url: permanentUrl || '',
-        storage_path: permanentPath || '',
-        status: 'ready',
-        error_message: null,
-        n8n_job_id: null, // Clear job ID when complete
-        updated_at: new Date(),
-      })
-      .where(eq(sceneImageVariants.id, variant_id));
-
-    console.log(`✅ Scene variant ${variant_id} updated successfully`);
+    console.log(
+      settled.status === 'failed'
+        ? `❌ Scene variant ${variant_id} marked as failed`
+        : `✅ Scene variant ${variant_id} updated successfully`
+    );
 
     return NextResponse.json({
       success: true,
-      message: `Scene variant ${variant_id} updated successfully`,
+      message: settled.status === 'failed'
+        ? `Scene variant ${variant_id} marked as failed`
+        : `Scene variant ${variant_id} updated successfully`,
     });
   } catch (error) {
     console.error('❌ Scene variant webhook error:', error);
@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/drizzle/db';
+import { scene_shots } from '@/lib/drizzle/schema';
+import { eq } from 'drizzle-orm';
+import { verifyN8nWebhook } from '@/lib/n8n/signing';
+import { createClient } from '@supabase/supabase-js';
+import { env } from '@/lib/env';
+
+/**
+ * Shot frames are stored with the scene images
+ */
+const SCENE_IMAGES_BUCKET = 'scene-images';
+
+type FrameType = 'start' | 'end';
+
+/**
+ * Initialize Supabase client with service role for bucket management
+ */
+function getAdminClient() {
+  return createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+/**
+ * Upload file to Supabase storage
+ */
+async function uploadToStorage(
+  path: string,
+  file: Buffer,
+  contentType: string
+): Promise<{ url: string; path: string }> {
+  const supabase = getAdminClient();
+
+  const { data, error } = await supabase.storage
+    .from(SCENE_IMAGES_BUCKET)
+    .upload(path, file, {
+      upsert: true,
+      contentType,
+    });
+
+  if (error) {
+    console.error('Storage upload error:', error);
+    throw new Error(`Failed to upload file: ${error.message}`);
+  }
+
+  const {
+    data: { publicUrl },
+  } = supabase.storage.from(SCENE_IMAGES_BUCKET).getPublicUrl(data.path);
+
+  return { url: publicUrl, path: data.path };
+}
+
+interface ShotFramePayload {
+  image_url?: string;
+  imageUrl?: string;
+  status?: 'ready' | 'failed';
+  error_message?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Webhook endpoint to receive shot start/end frame images from n8n
+ *
+ * The shot and frame come from the callback URL set by
+ * startShotFrameGeneration (lib/shot-frames.ts):
+ * `?shot_id=<id>&frame_type=start|end&source_image_url=<scene image>`
+ * The scene image the frame was made from is recorded on the shot, so a new
+ * scene image marks the frame stale (see lib/shot-dependencies).
+ *
+ * Expected payload (supports both camelCase and snake_case):
+ * {
+ *   image_url?: string (or imageUrl);
+ *   status: "ready" | "failed";
+ *   error_message?: string (or errorMessage);
+ * }
+ *
+ * In a continuity scene, a new end frame becomes the next shot's start frame
+ * the next time that shot generates (see lib/continuity).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const verified = await verifyN8nWebhook<ShotFramePayload>(request);
+    if (!verified.success) return verified.response;
+    const body = verified.payload;
+
+    const shot_id = request.nextUrl.searchParams.get('shot_id');
+    const frame_type = request.nextUrl.searchParams.get('frame_type');
+    const source_image_url = request.nextUrl.searchParams.get('source_image_url');
+    const image_url = body.image_url || body.imageUrl;
+    const status = body.status;
+    const error_message = body.error_message || body.errorMessage;
+
+    console.log('📥 Shot frame webhook received:', {
+      shot_id,
+      frame_type,
+      status,
+      has_image: !!image_url,
+    });
+
+    // Validate required fields
+    if (!shot_id || (frame_type !== 'start' && frame_type !== 'end')) {
+      return NextResponse.json(
+        { success: false, error: 'shot_id and frame_type (start or end) are required' },
+        { status: 400 }
+      );
+    }
+
+    const [shot] = await db
+      .select({ id: scene_shots.id })
+      .from(scene_shots)
+      .where(eq(scene_shots.id, shot_id))
+      .limit(1);
+
+    if (!shot) {
+      return NextResponse.json(
+        { success: false, error: 'Shot not found' },
+        { status: 404 }
+      );
+    }
+
+    const frameType: FrameType = frame_type;
+
+    // Handle failed status
+    if (status === 'failed' || !image_url) {
+      await db
+        .update(scene_shots)
+        .set({
+          ...(frameType === 'start'
+            ? { start_frame_status: 'failed' as const, start_frame_job_id: null }
+            : { end_frame_status: 'failed' as const, end_frame_job_id: null }),
+          error_message: error_message || `${frameType} frame generation failed`,
+          updated_at: new Date(),
+        })
+        .where(eq(scene_shots.id, shot_id));
+
+      console.log(`❌ Shot ${shot_id} ${frameType} frame marked as failed`);
+      return NextResponse.json({
+        success: true,
+        message: `Shot ${shot_id} ${frameType} frame marked as failed`,
+      });
+    }
+
+    // Download image from temporary URL and upload to Supabase
+    let permanentUrl = image_url;
+    let permanentPath: string | null = null;
+
+    try {
+      const imageResponse = await fetch(image_url);
+      if (!imageResponse.ok) {
+        throw new Error(`Failed to download image: ${imageResponse.statusText}`);
+      }
+
+      const imageBuffer = Buffer.from(await imageResponse.arrayBuffer());
+      if (imageBuffer.length < 1000) {
+        throw new Error('Downloaded image data too small');
+      }
+
+      const result = await uploadToStorage(
+        `shots/${shot_id}/${frameType}-frame_${Date.now()}.png`,
+        imageBuffer,
+        'image/png'
+      );
+
+      permanentUrl = result.url;
+      permanentPath = result.path;
+      console.log(`✅ Permanently stored at: ${permanentUrl.substring(0, 50)}...`);
+    } catch (error) {
+      console.error(`❌ Failed to store frame permanently:`, error);
+      // Continue with temporary URL if upload fails
+    }
+
+    await db
+      .update(scene_shots)
+      .set({
+        ...(frameType === 'start'
+          ? {
+              start_frame_image_url: permanentUrl,
+              start_frame_storage_path: permanentPath,
+              start_frame_status: 'ready' as const,
+              start_frame_source_image_url: source_image_url,
+              start_frame_job_id: null,
+            }
+          : {
+              end_frame_image_url: permanentUrl,
+              end_frame_storage_path: permanentPath,
+              end_frame_status: 'ready' as const,
+              end_frame_source_image_url: source_image_url,
+              end_frame_job_id: null,
+            }),
+        error_message: null,
+        updated_at: new Date(),
+      })
+      .where(eq(scene_shots.id, shot_id));
+
+    console.log(`✅ Shot ${shot_id} ${frameType} frame updated successfully`);
+
+    return NextResponse.json({
+      success: true,
+      message: `Shot ${shot_id} ${frameType} frame updated successfully`,
+    });
+  } catch (error) {
+    console.error('❌ Shot frame webhook error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,20 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/drizzle/db';
 import { scene_videos, scenes } from '@/lib/drizzle/schema';
 import { eq } from 'drizzle-orm';
-import { processVideoQueue } from '@/app/actions/videos';
+import { verifyN8nWebhook } from '@/lib/n8n/signing';
+import { drainVideoQueue } from '@/lib/videos';
+
+interface VideoGeneratedPayload {
+  scene_video_id?: string;
+  sceneVideoId?: string;
+  video_url?: string;
+  videoUrl?: string;
+  duration_seconds?: number;
+  durationSeconds?: number;
+  status?: 'ready' | 'failed';
+  error_message?: string;
+  errorMessage?: string;
+}
 
 /**
  * Webhook endpoint to receive video generation results from n8n
@@ -18,7 +31,9 @@ import { processVideoQueue } from '@/app/actions/videos';
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const verified = await verifyN8nWebhook<VideoGeneratedPayload>(request);
+    if (!verified.success) return verified.response;
+    const body = verified.payload;
 
     // Log full payload for debugging
     console.log(
@@ -85,7 +100,7 @@ export async function POST(request: NextRequest) {
 
       // Still process queue to start next video
       if (scene) {
-        await processVideoQueue(scene.project_id);
+        await drainVideoQueue(scene.project_id);
       }
 
       return NextResponse.json({
@@ -111,7 +126,7 @@ export async function POST(request: NextRequest) {
     // Process queue to start next video if slots available
     if (scene) {
       console.log('🔄 Processing video queue after completion...');
-      const queueResult = await processVideoQueue(scene.project_id);
+      const queueResult = await drainVideoQueue(scene.project_id);
       console.log(`📊 Queue processing: ${queueResult.triggered} videos started`);
     }
 
@@ -0,0 +1,330 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  CheckCircle,
+  Loader2,
+  Mic,
+  Music,
+  Sparkles,
+  Trash2,
+  Upload,
+  Volume2,
+  XCircle,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  approveSceneAudio,
+  deleteSceneAudio,
+  generateSceneAudio,
+  getSceneAudio,
+  uploadSceneAudio,
+} from '@/app/actions/audio';
+import type { SceneAudio } from '@/lib/drizzle/schema';
+import type { AudioTrackType } from '@/lib/audio';
+
+const TRACK_SLOTS: Array<{ type: AudioTrackType; label: string; icon: typeof Mic; placeholder: string }> = [
+  { type: 'voiceover', label: 'Voiceover', icon: Mic, placeholder: 'Lines to voice (defaults to the scene dialogue)' },
+  { type: 'sfx', label: 'Sound Effects', icon: Volume2, placeholder: 'Effects and ambience (defaults to the scene breakdown)' },
+  { type: 'music', label: 'Music', icon: Music, placeholder: 'Music brief (defaults to the scene music mood)' },
+];
+
+interface SceneAudioPanelProps {
+  scene: {
+    id: string;
+    sceneNumber: number;
+    slugline: string;
+  };
+  /** What each track generates from when no custom text is given */
+  defaults: Record<AudioTrackType, string | null>;
+  initialTracks: SceneAudio[];
+}
+
+/**
+ * Voiceover, SFX, and music tracks for one scene
+ * Approved tracks are mixed into the final reel; an approved voiceover mutes the shots' own audio.
+ */
+export function SceneAudioPanel({ scene, defaults, initialTracks }: SceneAudioPanelProps) {
+  const [tracks, setTracks] = useState<SceneAudio[]>(initialTracks);
+  const isGenerating = tracks.some((track) => track.status === 'generating');
+
+  // Poll while a track is generating
+  useEffect(() => {
+    if (!isGenerating) return;
+
+    const interval = setInterval(async () => {
+      const result = await getSceneAudio(scene.id);
+      if (result.success) {
+        setTracks(result.tracks);
+      }
+    }, 4000);
+
+    return () => clearInterval(interval);
+  }, [isGenerating, scene.id]);
+
+  const refresh = async () => {
+    const result = await getSceneAudio(scene.id);
+    if (result.success) {
+      setTracks(result.tracks);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-[#1c1c1f] border border-[#333] rounded-lg">
+      <div className="flex items-center gap-3 mb-4">
+        <span className="font-oswald text-sm text-[#f5c518] uppercase">Scene {scene.sceneNumber}</span>
+        <h3 className="font-courier font-bold uppercase text-white truncate">{scene.slugline}</h3>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {TRACK_SLOTS.map((slot) => (
+          <TrackSlot
+            key={slot.type}
+            sceneId={scene.id}
+            slot={slot}
+            defaultText={defaults[slot.type]}
+            tracks={tracks.filter((track) => track.audio_type === slot.type)}
+            onChange={refresh}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface TrackSlotProps {
+  sceneId: string;
+  slot: (typeof TRACK_SLOTS)[number];
+  defaultText: string | null;
+  /** Tracks of this type, newest first */
+  tracks: SceneAudio[];
+  onChange: () => Promise<void>;
+}
+
+function TrackSlot({ sceneId, slot, defaultText, tracks, onChange }: TrackSlotProps) {
+  const [customText, setCustomText] = useState('');
+  const [busy, setBusy] = useState<'generate' | 'upload' | 'approve' | 'delete' | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const latest = tracks[0] ?? null;
+  // A regeneration keeps the previous track playable until it is replaced
+  const playable = tracks.find((track) => track.audio_url && (track.status === 'ready' || track.status === 'approved'));
+  const Icon = slot.icon;
+
+  const handleGenerate = async () => {
+    setBusy('generate');
+    try {
+      const text = customText.trim() || undefined;
+      const result = await generateSceneAudio(sceneId, {
+        type: slot.type,
+        ...(slot.type === 'voiceover' ? { scriptText: text } : { description: text }),
+      });
+      if (result.success) {
+        toast.success(`${slot.label} generation started`);
+        setCustomText('');
+        await onChange();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    setBusy('upload');
+    try {
+      const formData = new FormData();
+      formData.set('file', file);
+      formData.set('type', slot.type);
+      const duration = await readAudioDuration(file);
+      if (duration) formData.set('durationSeconds', String(duration));
+
+      const result = await uploadSceneAudio(sceneId, formData);
+      if (result.success) {
+        toast.success(`${slot.label} uploaded`);
+        await onChange();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setBusy(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleApprove = async (audioId: string) => {
+    setBusy('approve');
+    try {
+      const result = await approveSceneAudio(audioId);
+      if (result.success) {
+        toast.success(`${slot.label} approved for the final reel`);
+        await onChange();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (audioId: string) => {
+    setBusy('delete');
+    try {
+      const result = await deleteSceneAudio(audioId);
+      if (result.success) {
+        await onChange();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const getStatusBadge = () => {
+    if (!latest) return null;
+
+    switch (latest.status) {
+      case 'generating':
+        return (
+          <Badge className="bg-[#00f2ea]/20 text-[#00f2ea] border-none">
+            <Loader2 size={10} className="mr-1 animate-spin" />
+            Generating
+          </Badge>
+        );
+      case 'approved':
+        return (
+          <Badge className="bg-green-500/20 text-green-400 border-none">
+            <CheckCircle size={10} className="mr-1" />
+            Approved
+          </Badge>
+        );
+      case 'failed':
+        return (
+          <Badge className="bg-red-500/20 text-red-400 border-none">
+            <XCircle size={10} className="mr-1" />
+            Failed
+          </Badge>
+        );
+      default:
+        return (
+          <Badge className="bg-[#f5c518]/20 text-[#f5c518] border-none">
+            {latest.is_uploaded ? 'Uploaded' : 'Ready'}
+          </Badge>
+        );
+    }
+  };
+
+  return (
+    <div className="p-4 bg-[#0a0a0b] border border-[#333] rounded-lg flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Icon className="text-[#f5c518]" size={16} />
+          <span className="font-oswald uppercase text-sm tracking-wider text-white">{slot.label}</span>
+        </div>
+        {getStatusBadge()}
+      </div>
+
+      {latest?.status === 'failed' && latest.error_message && (
+        <p className="font-courier text-xs text-red-400 break-words">{latest.error_message}</p>
+      )}
+
+      {playable?.audio_url ? (
+        <div className="space-y-2">
+          <audio src={playable.audio_url} controls preload="none" className="w-full h-10" />
+          {playable.script_text && (
+            <p className="font-courier text-xs text-[#888] line-clamp-2">&ldquo;{playable.script_text}&rdquo;</p>
+          )}
+          <div className="flex gap-2">
+            {playable.status === 'ready' && (
+              <Button
+                size="sm"
+                onClick={() => handleApprove(playable.id)}
+                disabled={busy !== null}
+                className="bg-green-600 hover:bg-green-600/90 text-white font-oswald uppercase tracking-wider"
+              >
+                {busy === 'approve' ? <Loader2 className="animate-spin" size={14} /> : <CheckCircle size={14} />}
+                Approve
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(playable.id)}
+              disabled={busy !== null}
+              className="text-[#888] hover:text-[#e02f2f] hover:bg-[#1c1c1f]"
+            >
+              {busy === 'delete' ? <Loader2 className="animate-spin" size={14} /> : <Trash2 size={14} />}
+              Remove
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="font-courier text-xs text-[#666]">
+          {defaultText ? `From the script: ${defaultText}` : 'Nothing in the scene breakdown - describe it below or upload a file.'}
+        </p>
+      )}
+
+      <Textarea
+        value={customText}
+        onChange={(e) => setCustomText(e.target.value)}
+        placeholder={slot.placeholder}
+        rows={2}
+        className="bg-[#1c1c1f] border-[#333] text-white font-courier text-xs focus:border-[#f5c518]"
+      />
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={handleGenerate}
+          disabled={busy !== null || latest?.status === 'generating' || (!defaultText && !customText.trim())}
+          className="flex-1 bg-[#f5c518] hover:bg-[#f5c518]/90 text-black font-oswald uppercase tracking-wider"
+        >
+          {busy === 'generate' ? <Loader2 className="animate-spin" size={14} /> : <Sparkles size={14} />}
+          {playable ? 'Replace' : 'Generate'}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+          className="border-[#333] text-white hover:bg-[#1c1c1f] font-oswald uppercase tracking-wider"
+        >
+          {busy === 'upload' ? <Loader2 className="animate-spin" size={14} /> : <Upload size={14} />}
+          Upload
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/mpeg,audio/wav,audio/webm,audio/mp4,audio/aac"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleUpload(file);
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Read a local audio file's duration (null when the browser can't decode it)
+ */
+function readAudioDuration(file: File): Promise<number | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const finish = (duration: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => finish(null);
+    audio.src = url;
+  });
+}
@@ -0,0 +1,338 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Captions, Download, Flame, Loader2, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { burnInCaptions, regenerateReelCaptions, saveReelCaptions } from '@/app/actions/captions';
+import { formatCaptionTime, toVtt, type CaptionCue } from '@/lib/captions';
+import { formatReelVersion } from '@/lib/reel-versions';
+
+export interface CaptionedReelData {
+  id: string;
+  version_number: number;
+  label: string | null;
+  video_url: string;
+  captions: CaptionCue[] | null;
+  captioned_video_url: string | null;
+  captioned_video_status: 'generating' | 'ready' | 'approved' | 'failed' | null;
+  captioned_error_message: string | null;
+}
+
+interface CaptionsPanelProps {
+  projectId: string;
+  /** Ready reel versions, newest first */
+  versions: CaptionedReelData[];
+}
+
+/** Length of a cue added by hand */
+const NEW_CUE_SECONDS = 2;
+
+/**
+ * Caption editor - edit a version's cues against the reel, download SRT/VTT,
+ * and render a copy with the captions burned in
+ */
+export function CaptionsPanel({ projectId, versions }: CaptionsPanelProps) {
+  const [selectedId, setSelectedId] = useState(versions[0]?.id ?? '');
+  const selected = versions.find((version) => version.id === selectedId) ?? versions[0];
+
+  if (!selected) {
+    return null;
+  }
+
+  return (
+    <div className="p-6 bg-[#1c1c1f] border border-[#333] rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <Captions className="text-[#f5c518]" size={24} />
+        <h3 className="font-oswald text-xl uppercase tracking-wider text-white">
+          Captions
+        </h3>
+      </div>
+      <p className="font-courier text-sm text-[#888] mb-4">
+        Timed from each shot&apos;s dialogue and an estimated speaking rate. Adjust the cues against the
+        preview, then download SRT or WebVTT, or render a copy with the captions burned in.
+        Share links play the captions automatically.
+      </p>
+
+      {/* Keyed by version so switching starts a fresh draft */}
+      <CaptionEditor
+        key={selected.id}
+        projectId={projectId}
+        reel={selected}
+        versionPicker={
+          <Select value={selected.id} onValueChange={setSelectedId}>
+            <SelectTrigger className="md:w-56 bg-[#0a0a0b] border-[#333] text-white font-courier">
+              <SelectValue placeholder="Reel version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={version.id}>
+                  {formatReelVersion(version)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        }
+      />
+    </div>
+  );
+}
+
+interface CaptionEditorProps {
+  projectId: string;
+  reel: CaptionedReelData;
+  versionPicker: React.ReactNode;
+}
+
+function CaptionEditor({ projectId, reel, versionPicker }: CaptionEditorProps) {
+  const router = useRouter();
+  const [cues, setCues] = useState<CaptionCue[]>(reel.captions ?? []);
+  const [isDirty, setIsDirty] = useState(false);
+  const [busy, setBusy] = useState<'save' | 'regenerate' | 'burn' | null>(null);
+
+  // The preview plays the draft, edits included
+  const previewTrackUrl = useMemo(
+    () => (cues.length > 0 ? URL.createObjectURL(new Blob([toVtt(cues)], { type: 'text/vtt' })) : null),
+    [cues]
+  );
+  useEffect(() => () => {
+    if (previewTrackUrl) URL.revokeObjectURL(previewTrackUrl);
+  }, [previewTrackUrl]);
+
+  const isBurning = reel.captioned_video_status === 'generating';
+
+  // Pick up the burn-in job's result
+  useEffect(() => {
+    if (!isBurning) return;
+    const interval = setInterval(() => router.refresh(), 3000);
+    return () => clearInterval(interval);
+  }, [isBurning, router]);
+
+  const updateCue = (index: number, changes: Partial<CaptionCue>) => {
+    setCues((current) => current.map((cue, i) => (i === index ? { ...cue, ...changes } : cue)));
+    setIsDirty(true);
+  };
+
+  const removeCue = (index: number) => {
+    setCues((current) => current.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const addCue = () => {
+    const start = cues.length > 0 ? cues[cues.length - 1].end + 0.1 : 0;
+    setCues((current) => [...current, { start, end: start + NEW_CUE_SECONDS, text: '' }]);
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setBusy('save');
+    try {
+      const result = await saveReelCaptions(reel.id, cues);
+      if (result.success) {
+        setCues(result.cues);
+        setIsDirty(false);
+        toast.success(`Saved ${result.cues.length} captions`);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!confirm('Rebuild the captions from the current shot dialogue? Your edits to this version are replaced.')) {
+      return;
+    }
+
+    setBusy('regenerate');
+    try {
+      const result = await regenerateReelCaptions(reel.id);
+      if (result.success) {
+        setCues(result.cues);
+        setIsDirty(false);
+        toast.success(result.cues.length > 0 ? `Generated ${result.cues.length} captions` : 'No dialogue found for this version');
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleBurnIn = async () => {
+    setBusy('burn');
+    try {
+      const result = await burnInCaptions(reel.id);
+      if (result.success) {
+        toast.success('Burning in captions...');
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const downloadUrl = (format: 'srt' | 'vtt') =>
+    `/api/projects/${projectId}/reels/${reel.id}/captions?format=${format}`;
+  const hasSavedCaptions = (reel.captions?.length ?? 0) > 0;
+
+  return (
+    <>
+      <div className="flex flex-col md:flex-row gap-3 mb-4">
+        {versionPicker}
+        <div className="flex gap-2 md:ml-auto">
+          <Button
+            variant="outline"
+            onClick={handleRegenerate}
+            disabled={busy !== null}
+            className="border-[#333] text-white hover:bg-[#0a0a0b] font-oswald uppercase tracking-wider"
+          >
+            {busy === 'regenerate' ? <Loader2 className="animate-spin" size={16} /> : <RefreshCw size={16} />}
+            Regenerate
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!isDirty || busy !== null}
+            className="bg-[#f5c518] text-black hover:bg-[#f5c518]/90 font-oswald uppercase tracking-wider"
+          >
+            {busy === 'save' ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {/* Preview */}
+      <video
+        src={reel.video_url}
+        controls
+        playsInline
+        preload="metadata"
+        className="w-full aspect-video bg-black rounded mb-4"
+      >
+        {previewTrackUrl && (
+          <track key={previewTrackUrl} kind="captions" src={previewTrackUrl} srcLang="en" label="English" default />
+        )}
+      </video>
+
+      {/* Cues */}
+      {cues.length === 0 ? (
+        <p className="font-courier text-xs text-[#666] mb-3">
+          No captions for this version - the shots have no dialogue. Add cues by hand or regenerate after
+          adding dialogue.
+        </p>
+      ) : (
+        <ol className="space-y-2 mb-3 max-h-[28rem] overflow-y-auto pr-1">
+          {cues.map((cue, index) => (
+            <li key={index} className="flex gap-2 p-2 bg-[#0a0a0b] border border-[#333] rounded">
+              <div className="flex flex-col gap-1 w-28 shrink-0">
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={cue.start}
+                  onChange={(e) => updateCue(index, { start: Number(e.target.value) })}
+                  title={formatCaptionTime(cue.start, '.')}
+                  aria-label="Start (seconds)"
+                  className="h-8 bg-[#0a0a0b] border-[#333] text-white font-courier text-xs focus:border-[#f5c518]"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={cue.end}
+                  onChange={(e) => updateCue(index, { end: Number(e.target.value) })}
+                  title={formatCaptionTime(cue.end, '.')}
+                  aria-label="End (seconds)"
+                  className="h-8 bg-[#0a0a0b] border-[#333] text-white font-courier text-xs focus:border-[#f5c518]"
+                />
+              </div>
+              <Textarea
+                value={cue.text}
+                onChange={(e) => updateCue(index, { text: e.target.value })}
+                rows={2}
+                aria-label="Caption text"
+                className={`flex-1 min-h-0 bg-[#0a0a0b] border-[#333] text-white font-courier text-sm focus:border-[#f5c518] ${
+                  cue.end <= cue.start ? 'border-[#e02f2f]' : ''
+                }`}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeCue(index)}
+                title="Remove cue"
+                className="text-[#888] hover:text-[#e02f2f] hover:bg-[#1c1c1f]"
+              >
+                <Trash2 size={16} />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <Button
+        variant="ghost"
+        onClick={addCue}
+        className="text-[#888] hover:text-white hover:bg-[#0a0a0b] font-courier text-xs mb-4"
+      >
+        <Plus size={14} />
+        Add cue
+      </Button>
+
+      {/* Exports */}
+      <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-[#333]">
+        {hasSavedCaptions && (
+          <>
+            <Button asChild variant="outline" className="border-[#333] text-white hover:bg-[#0a0a0b] font-courier">
+              <a href={downloadUrl('srt')} download>
+                <Download size={16} />
+                SRT
+              </a>
+            </Button>
+            <Button asChild variant="outline" className="border-[#333] text-white hover:bg-[#0a0a0b] font-courier">
+              <a href={downloadUrl('vtt')} download>
+                <Download size={16} />
+                WebVTT
+              </a>
+            </Button>
+          </>
+        )}
+
+        <div className="flex items-center gap-2 md:ml-auto">
+          {reel.captioned_video_status === 'ready' && reel.captioned_video_url && (
+            <Button
+              variant="outline"
+              onClick={() => window.open(reel.captioned_video_url!, '_blank')}
+              className="border-[#00f2ea]/40 text-[#00f2ea] hover:bg-[#00f2ea]/10 font-courier"
+            >
+              <Download size={16} />
+              Captioned MP4
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={handleBurnIn}
+            disabled={!hasSavedCaptions || isDirty || isBurning || busy !== null}
+            title={isDirty ? 'Save your edits first' : undefined}
+            className="border-[#333] text-white hover:bg-[#0a0a0b] font-oswald uppercase tracking-wider"
+          >
+            {isBurning || busy === 'burn' ? <Loader2 className="animate-spin" size={16} /> : <Flame size={16} />}
+            {isBurning ? 'Burning In...' : reel.captioned_video_status === 'ready' ? 'Burn In Again' : 'Burn In Captions'}
+          </Button>
+        </div>
+      </div>
+
+      {reel.captioned_video_status === 'failed' && reel.captioned_error_message && (
+        <p className="font-courier text-xs text-[#e02f2f] mt-2">{reel.captioned_error_message}</p>
+      )}
+    </>
+  );
+}
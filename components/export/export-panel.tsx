@@ -1,28 +1,77 @@
 'use client';
 
 import { useState, useTransition, useEffect, useCallback } from 'react';
-import { Download, Share2, Youtube, Loader2, Play, AlertCircle, CheckCircle2, RefreshCw, ExternalLink, Clock } from 'lucide-react';
+import { Download, Share2, Youtube, Loader2, Play, AlertCircle, CheckCircle2, RefreshCw, ExternalLink, Clock, Images } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { triggerFinalAssembly, retryAssembly, getAssemblyStatus, type AssemblyActionResult } from '@/app/actions/assembly';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  triggerFinalAssembly,
+  retryAssembly,
+  getAssemblyStatus,
+  setAssemblyBackend,
+  triggerAnimaticAssembly,
+  type AssemblyActionResult,
+} from '@/app/actions/assembly';
+import type { AssemblyBackend } from '@/lib/assembly';
+import {
+  ANIMATIC_TEXT_LABELS,
+  ANIMATIC_TEXT_MODES,
+  KEN_BURNS_LABELS,
+  KEN_BURNS_MOTIONS,
+  type AnimaticSettings,
+  type AnimaticTextMode,
+  type KenBurnsMotion,
+} from '@/lib/animatic';
+import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 
 interface FinalReelData {
   id: string;
+  version_number: number;
   status: 'assembling' | 'uploading' | 'ready' | 'failed';
   video_url: string | null;
   youtube_url: string | null;
   youtube_id: string | null;
   error_message: string | null;
+  assembly_progress: unknown;
   created_at: Date;
 }
 
+/** Local assembly progress as written by lib/assembly.ts */
+interface AssemblyProgress {
+  backend?: AssemblyBackend;
+  step?: string;
+  percent?: number;
+}
+
+const BACKEND_LABELS: Record<AssemblyBackend, string> = {
+  local: 'Local FFmpeg',
+  remote: 'Remote FFmpeg API',
+};
+
+const PROGRESS_STEP_LABELS: Record<string, string> = {
+  downloading: 'Downloading shots',
+  normalizing: 'Normalizing clips',
+  animating: 'Animating stills',
+  rendering: 'Rendering reel',
+  uploading_to_supabase: 'Uploading to storage',
+};
+
+const ANIMATIC_ZOOM_OPTIONS = [1.1, 1.2, 1.3, 1.4, 1.5];
+
 interface ExportPanelProps {
   projectId: string;
   projectTitle: string;
   readyVideoCount: number;
   totalSceneCount: number;
   finalReel: FinalReelData | null;
+  /** The project's own setting (null = server default) */
+  assemblyBackend: AssemblyBackend | null;
+  defaultBackend: AssemblyBackend;
+  /** The project's saved animatic settings (defaults filled in) */
+  animaticSettings: AnimaticSettings;
 }
 
 export function ExportPanel({
@@ -31,29 +80,58 @@ export function ExportPanel({
   readyVideoCount,
   totalSceneCount,
   finalReel,
+  assemblyBackend,
+  defaultBackend,
+  animaticSettings,
 }: ExportPanelProps) {
+  const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [result, setResult] = useState<AssemblyActionResult | null>(null);
   const [localStatus, setLocalStatus] = useState<'idle' | 'assembling' | 'uploading' | 'ready' | 'failed'>(
     finalReel?.status || 'idle'
   );
+  const [progress, setProgress] = useState<AssemblyProgress | null>(
+    (finalReel?.assembly_progress as AssemblyProgress | null) ?? null
+  );
+  const [backendSetting, setBackendSetting] = useState<AssemblyBackend | 'default'>(assemblyBackend ?? 'default');
+  const [isSavingBackend, setIsSavingBackend] = useState(false);
+  const [animatic, setAnimatic] = useState<AnimaticSettings>(animaticSettings);
 
   const canAssemble = readyVideoCount >= 2;
   const isAssembling = localStatus === 'assembling' || localStatus === 'uploading' || isPending;
   const isReady = localStatus === 'ready' || finalReel?.status === 'ready';
   const hasFailed = localStatus === 'failed' || finalReel?.status === 'failed';
 
-  // Poll for status updates while assembling
+  // Poll for status updates while the assembly job runs
+  // (not while the trigger is in flight - the reel row may still hold the previous result)
   useEffect(() => {
-    if (!isAssembling) return;
+    if (!isAssembling || isPending) return;
 
     const pollStatus = async () => {
       const status = await getAssemblyStatus(projectId);
-      if (status) {
-        // Update local status from database
-        if (status.status === 'uploading' && localStatus !== 'uploading') {
-          setLocalStatus('uploading');
-        }
+      if (!status) return;
+
+      setProgress((status.assembly_progress as AssemblyProgress | null) ?? null);
+
+      // Update local status from database
+      if (status.status === 'uploading' && localStatus !== 'uploading') {
+        setLocalStatus('uploading');
+      } else if (status.status === 'ready') {
+        setLocalStatus('ready');
+        setResult({
+          success: true,
+          reelId: status.id,
+          videoUrl: status.video_url ?? undefined,
+          youtubeUrl: status.youtube_url ?? undefined,
+          youtubeId: status.youtube_id ?? undefined,
+        });
+        toast.success('Reel assembled successfully!');
+        router.refresh();
+      } else if (status.status === 'failed') {
+        setLocalStatus('failed');
+        setResult({ success: false, error: status.error_message || 'Assembly failed' });
+        toast.error(status.error_message || 'Assembly failed');
+        router.refresh();
       }
     };
 
@@ -61,7 +139,7 @@ export function ExportPanel({
     const interval = setInterval(pollStatus, 2000);
 
     return () => clearInterval(interval);
-  }, [isAssembling, projectId, localStatus]);
+  }, [isAssembling, isPending, projectId, localStatus, router]);
 
   // Use result URLs if available, otherwise use finalReel data
   const videoUrl = (result && 'videoUrl' in result ? result.videoUrl : null) || finalReel?.video_url;
@@ -78,8 +156,8 @@ export function ExportPanel({
       setResult(assemblyResult);
 
       if (assemblyResult.success) {
-        setLocalStatus('ready');
-        toast.success('Reel assembled successfully!');
+        // Assembly runs as a background job - the poll above picks up the result
+        toast.success(`Assembling v${assemblyResult.versionNumber}`);
       } else {
         setLocalStatus('failed');
         toast.error(assemblyResult.error || 'Assembly failed');
@@ -96,8 +174,8 @@ export function ExportPanel({
       setResult(retryResult);
 
       if (retryResult.success) {
-        setLocalStatus('ready');
-        toast.success('Reel assembled successfully!');
+        // Assembly runs as a background job - the poll above picks up the result
+        toast.success(`Assembling v${retryResult.versionNumber}`);
       } else {
         setLocalStatus('failed');
         toast.error(retryResult.error || 'Assembly failed');
@@ -105,6 +183,41 @@ export function ExportPanel({
     });
   };
 
+  const handleRenderAnimatic = () => {
+    setLocalStatus('assembling');
+    setResult(null);
+
+    startTransition(async () => {
+      const animaticResult = await triggerAnimaticAssembly(projectId, animatic);
+      setResult(animaticResult);
+
+      if (animaticResult.success) {
+        // Rendered by the same background job - the poll above picks up the result
+        toast.success(`Rendering animatic v${animaticResult.versionNumber}`);
+      } else {
+        setLocalStatus('failed');
+        toast.error(animaticResult.error || 'Animatic failed');
+      }
+    });
+  };
+
+  const handleBackendChange = async (value: string) => {
+    const previous = backendSetting;
+    setBackendSetting(value as AssemblyBackend | 'default');
+    setIsSavingBackend(true);
+    try {
+      const update = await setAssemblyBackend(projectId, value === 'default' ? null : (value as AssemblyBackend));
+      if (update.success) {
+        toast.success(`Reels will be assembled with ${BACKEND_LABELS[update.backend]}`);
+      } else {
+        setBackendSetting(previous);
+        toast.error(update.error);
+      }
+    } finally {
+      setIsSavingBackend(false);
+    }
+  };
+
   const handleDownload = () => {
     if (videoUrl) {
       window.open(videoUrl, '_blank');
@@ -125,6 +238,7 @@ export function ExportPanel({
         <div className="flex items-center justify-between mb-4">
           <h3 className="font-oswald text-xl uppercase tracking-wider text-white">
             Assembly Status
+            {finalReel && <span className="ml-2 text-[#888]">v{finalReel.version_number}</span>}
           </h3>
           <StatusBadge status={localStatus} isAssembling={isAssembling} />
         </div>
@@ -144,6 +258,37 @@ export function ExportPanel({
           </div>
         </div>
 
+        {/* Assembly engine */}
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div>
+            <p className="font-courier text-xs text-[#888] uppercase mb-1">Assembly Engine</p>
+            <p className="font-courier text-xs text-[#666]">
+              Local FFmpeg renders on this server (MP4 only, no YouTube upload).
+            </p>
+          </div>
+          <Select value={backendSetting} onValueChange={handleBackendChange} disabled={isAssembling || isSavingBackend}>
+            <SelectTrigger className="w-56 bg-[#0a0a0b] border-[#333] text-white font-courier">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default ({BACKEND_LABELS[defaultBackend]})</SelectItem>
+              <SelectItem value="local">{BACKEND_LABELS.local}</SelectItem>
+              <SelectItem value="remote">{BACKEND_LABELS.remote}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Local assembly progress */}
+        {isAssembling && typeof progress?.percent === 'number' && (
+          <div className="mb-6 space-y-2">
+            <div className="flex justify-between font-courier text-xs text-[#888]">
+              <span>{PROGRESS_STEP_LABELS[progress.step ?? ''] ?? 'Assembling'}</span>
+              <span>{progress.percent}%</span>
+            </div>
+            <Progress value={progress.percent} className="bg-[#333] [&>div]:bg-[#f5c518]" />
+          </div>
+        )}
+
         {/* Not enough shots warning */}
         {!canAssemble && (
           <div className="p-4 bg-[#2a1a1a] border border-[#f5c518]/30 rounded mb-4">
@@ -210,6 +355,91 @@ export function ExportPanel({
         )}
       </div>
 
+      {/* Animatic - a reel from the approved stills, no video generation */}
+      <div className="p-6 bg-[#1c1c1f] border border-[#333] rounded-lg">
+        <div className="flex items-center gap-2 mb-2">
+          <Images className="text-[#f5c518]" size={24} />
+          <h3 className="font-oswald text-xl uppercase tracking-wider text-white">
+            Animatic
+          </h3>
+        </div>
+        <p className="font-courier text-sm text-[#888] mb-4">
+          Render a reel from the shot start frames and approved scene images instead of video - each still
+          is held for its estimated duration with a slow pan or zoom, with the approved scene audio underneath.
+          Renders on this server in a few minutes.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+          <div>
+            <p className="font-courier text-xs text-[#888] uppercase mb-1">Motion</p>
+            <Select
+              value={animatic.motion}
+              onValueChange={(value) => setAnimatic({ ...animatic, motion: value as KenBurnsMotion })}
+              disabled={isAssembling}
+            >
+              <SelectTrigger className="bg-[#0a0a0b] border-[#333] text-white font-courier">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {KEN_BURNS_MOTIONS.map((motion) => (
+                  <SelectItem key={motion} value={motion}>
+                    {KEN_BURNS_LABELS[motion]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <p className="font-courier text-xs text-[#888] uppercase mb-1">Zoom</p>
+            <Select
+              value={String(animatic.zoom)}
+              onValueChange={(value) => setAnimatic({ ...animatic, zoom: Number(value) })}
+              disabled={isAssembling || animatic.motion === 'none'}
+            >
+              <SelectTrigger className="bg-[#0a0a0b] border-[#333] text-white font-courier">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ANIMATIC_ZOOM_OPTIONS.map((zoom) => (
+                  <SelectItem key={zoom} value={String(zoom)}>
+                    {zoom}×
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <p className="font-courier text-xs text-[#888] uppercase mb-1">On-Screen Text</p>
+            <Select
+              value={animatic.text}
+              onValueChange={(value) => setAnimatic({ ...animatic, text: value as AnimaticTextMode })}
+              disabled={isAssembling}
+            >
+              <SelectTrigger className="bg-[#0a0a0b] border-[#333] text-white font-courier">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ANIMATIC_TEXT_MODES.map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {ANIMATIC_TEXT_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Button
+          onClick={handleRenderAnimatic}
+          disabled={isAssembling}
+          variant="outline"
+          className="border-[#f5c518] text-[#f5c518] hover:bg-[#f5c518]/10 font-oswald uppercase tracking-wider"
+        >
+          {isAssembling ? <Loader2 className="animate-spin" size={18} /> : <Images size={18} />}
+          Render Animatic
+        </Button>
+      </div>
+
       {/* Ready Section - YouTube Preview & Downloads */}
       {isReady && (youtubeId || videoUrl) && (
         <div className="space-y-6">
@@ -297,7 +527,7 @@ export function ExportPanel({
               className="text-[#888] hover:text-white font-courier text-sm"
             >
               <RefreshCw size={14} />
-              Re-assemble Reel
+              Assemble New Version
             </Button>
           </div>
         </div>
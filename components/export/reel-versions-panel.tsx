@@ -0,0 +1,262 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Check, Download, GitCompare, History, Loader2, Pencil, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { labelReelVersion, restoreReelVersion } from '@/app/actions/reel-versions';
+import {
+  compareReelManifests,
+  countManifestShots,
+  formatReelVersion,
+  isAnimaticManifest,
+  type ReelManifest,
+} from '@/lib/reel-versions';
+
+export interface ReelVersionData {
+  id: string;
+  version_number: number;
+  label: string | null;
+  status: 'assembling' | 'uploading' | 'ready' | 'failed';
+  video_url: string | null;
+  duration_seconds: number | null;
+  manifest: ReelManifest | null;
+  created_at: Date;
+}
+
+interface ReelVersionsPanelProps {
+  /** Newest first */
+  versions: ReelVersionData[];
+}
+
+/**
+ * Every assembled reel version - label, compare, download, and restore the edit
+ */
+export function ReelVersionsPanel({ versions }: ReelVersionsPanelProps) {
+  const router = useRouter();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  // Up to two versions, in the order they were picked
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const startEditing = (version: ReelVersionData) => {
+    setEditingId(version.id);
+    setDraftLabel(version.label ?? '');
+  };
+
+  const handleSaveLabel = async (reelId: string) => {
+    setSavingId(reelId);
+    try {
+      const result = await labelReelVersion(reelId, draftLabel);
+      if (result.success) {
+        setEditingId(null);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRestore = async (version: ReelVersionData) => {
+    if (!confirm(`Restore the timeline to ${formatReelVersion(version)}? Current scene and shot order, transitions, and trims are replaced.`)) {
+      return;
+    }
+
+    setRestoringId(version.id);
+    try {
+      const result = await restoreReelVersion(version.id);
+      if (result.success) {
+        toast.success(
+          result.missingShots > 0
+            ? `Timeline restored - ${result.missingShots} shot(s) from v${version.version_number} no longer exist`
+            : `Timeline restored to v${version.version_number} - assemble to render it`
+        );
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const toggleCompare = (reelId: string) => {
+    setCompareIds((current) =>
+      current.includes(reelId) ? current.filter((id) => id !== reelId) : [...current, reelId].slice(-2)
+    );
+  };
+
+  // Older → newer
+  const compared = versions
+    .filter((version) => compareIds.includes(version.id))
+    .sort((a, b) => a.version_number - b.version_number);
+  const changes =
+    compared.length === 2 && compared[0].manifest && compared[1].manifest
+      ? compareReelManifests(compared[0].manifest, compared[1].manifest)
+      : null;
+
+  if (versions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="p-6 bg-[#1c1c1f] border border-[#333] rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <History className="text-[#f5c518]" size={24} />
+        <h3 className="font-oswald text-xl uppercase tracking-wider text-white">
+          Reel Versions
+        </h3>
+      </div>
+      <p className="font-courier text-sm text-[#888] mb-4">
+        Every assembly is kept. Pick two versions to compare them, or restore a version&apos;s edit to the timeline.
+      </p>
+
+      {/* Comparison */}
+      {compared.length === 2 && (
+        <div className="mb-4 p-4 bg-[#0a0a0b] border border-[#f5c518]/30 rounded">
+          <p className="font-oswald uppercase text-sm text-[#f5c518] mb-2">
+            {formatReelVersion(compared[0])} → {formatReelVersion(compared[1])}
+          </p>
+          {changes === null ? (
+            <p className="font-courier text-xs text-[#888]">
+              Versions assembled before versioning have no recorded edit to compare.
+            </p>
+          ) : changes.length === 0 ? (
+            <p className="font-courier text-xs text-[#888]">Same edit - no changes.</p>
+          ) : (
+            <ul className="space-y-1 font-courier text-xs text-white/80 list-disc pl-4">
+              {changes.map((change, index) => (
+                <li key={index}>{change}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {versions.map((version) => {
+          const isComparing = compareIds.includes(version.id);
+          return (
+            <li
+              key={version.id}
+              className="flex items-center gap-3 p-3 bg-[#0a0a0b] border border-[#333] rounded"
+            >
+              <div className="flex-1 min-w-0">
+                {editingId === version.id ? (
+                  <div className="flex items-center gap-2">
+                    <span className="font-oswald uppercase text-sm text-white">v{version.version_number}</span>
+                    <Input
+                      value={draftLabel}
+                      onChange={(e) => setDraftLabel(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSaveLabel(version.id);
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      placeholder="Label, e.g. producer notes"
+                      autoFocus
+                      className="h-8 bg-[#0a0a0b] border-[#333] text-white font-courier focus:border-[#f5c518]"
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleSaveLabel(version.id)}
+                      disabled={savingId === version.id}
+                      className="text-[#f5c518] hover:bg-[#f5c518]/10"
+                    >
+                      {savingId === version.id ? <Loader2 className="animate-spin" size={14} /> : <Check size={14} />}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setEditingId(null)}
+                      className="text-[#888] hover:text-white"
+                    >
+                      <X size={14} />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <p className="font-oswald uppercase text-sm text-white truncate">{formatReelVersion(version)}</p>
+                    <button
+                      type="button"
+                      onClick={() => startEditing(version)}
+                      title="Edit label"
+                      className="text-[#666] hover:text-white"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <VersionStatusBadge status={version.status} />
+                    {version.manifest && isAnimaticManifest(version.manifest) && (
+                      <Badge className="bg-[#00f2ea]/10 text-[#00f2ea] border-[#00f2ea]/40 font-courier">Animatic</Badge>
+                    )}
+                  </div>
+                )}
+                <p className="font-courier text-xs text-[#666] flex items-center gap-3 mt-1">
+                  <span>{new Date(version.created_at).toLocaleString()}</span>
+                  {version.manifest && (
+                    <span>
+                      {version.manifest.animatic
+                        ? `${version.manifest.animatic.frames.length} stills`
+                        : `${countManifestShots(version.manifest)} shots`}
+                    </span>
+                  )}
+                  {version.manifest?.format && <span>{version.manifest.format}</span>}
+                  {version.duration_seconds !== null && <span>{version.duration_seconds}s</span>}
+                </p>
+              </div>
+
+              {version.video_url && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => window.open(version.video_url!, '_blank')}
+                  title="Download MP4"
+                  className="text-[#888] hover:text-white hover:bg-[#1c1c1f]"
+                >
+                  <Download size={16} />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => toggleCompare(version.id)}
+                title="Compare"
+                className={isComparing ? 'text-[#f5c518] bg-[#f5c518]/10' : 'text-[#888] hover:text-white hover:bg-[#1c1c1f]'}
+              >
+                <GitCompare size={16} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRestore(version)}
+                disabled={!version.manifest || restoringId !== null}
+                title={version.manifest ? 'Restore this edit to the timeline' : 'Assembled before versioning'}
+                className="text-[#888] hover:text-white hover:bg-[#1c1c1f]"
+              >
+                {restoringId === version.id ? <Loader2 className="animate-spin" size={16} /> : <RotateCcw size={16} />}
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function VersionStatusBadge({ status }: { status: ReelVersionData['status'] }) {
+  switch (status) {
+    case 'ready':
+      return <Badge className="bg-green-500/20 text-green-500 border-green-500 font-courier">Ready</Badge>;
+    case 'failed':
+      return <Badge className="bg-[#e02f2f]/20 text-[#e02f2f] border-[#e02f2f] font-courier">Failed</Badge>;
+    default:
+      return <Badge className="bg-[#f5c518]/20 text-[#f5c518] border-[#f5c518] font-courier">Assembling</Badge>;
+  }
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { Copy, Eye, Link2, Loader2, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { createShareLink, revokeShareLink } from '@/app/actions/share-links';
+import type { ShareLinkSummary } from '@/lib/share-links';
+import { formatReelVersion } from '@/lib/reel-versions';
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '24 hours' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: 'never', label: 'Never' },
+] as const;
+
+interface ShareLinksPanelProps {
+  projectId: string;
+  initialLinks: ShareLinkSummary[];
+  /** Reel versions a link can be pinned to, newest first */
+  reelVersions: Array<{ id: string; version_number: number; label: string | null; status: string }>;
+}
+
+/**
+ * Public review links - send a reel to producers without giving them an account
+ */
+export function ShareLinksPanel({ projectId, initialLinks, reelVersions }: ShareLinksPanelProps) {
+  const [links, setLinks] = useState<ShareLinkSummary[]>(initialLinks);
+  const [title, setTitle] = useState('');
+  const [expiry, setExpiry] = useState<string>('7');
+  const [reelId, setReelId] = useState<string>('latest');
+  const readyVersions = reelVersions.filter((version) => version.status === 'ready');
+  const versionNames = new Map(reelVersions.map((version) => [version.id, formatReelVersion(version)]));
+  const [isPending, startTransition] = useTransition();
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const copyLink = (url: string) => {
+    navigator.clipboard.writeText(url);
+    toast.success('Share link copied to clipboard!');
+  };
+
+  const handleCreate = () => {
+    startTransition(async () => {
+      const result = await createShareLink(projectId, {
+        title: title || undefined,
+        expiresInDays: expiry === 'never' ? null : Number(expiry),
+        reelId: reelId === 'latest' ? null : reelId,
+      });
+
+      if (result.success) {
+        setLinks((current) => [result.link, ...current]);
+        setTitle('');
+        copyLink(result.link.url);
+      } else {
+        toast.error(result.error);
+      }
+    });
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    setRevokingId(linkId);
+    try {
+      const result = await revokeShareLink(linkId);
+      if (result.success) {
+        setLinks((current) => current.map((link) => (link.id === linkId ? result.link : link)));
+        toast.success('Share link revoked');
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-[#1c1c1f] border border-[#333] rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <Link2 className="text-[#00f2ea]" size={24} />
+        <h3 className="font-oswald text-xl uppercase tracking-wider text-white">
+          Share Links
+        </h3>
+      </div>
+      <p className="font-courier text-sm text-[#888] mb-4">
+        Anyone with the link can watch the reel and browse the storyboard - no account needed.
+        Links show the latest reel unless pinned to a version.
+      </p>
+
+      {/* Create */}
+      <div className="flex flex-col md:flex-row gap-3 mb-6">
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Title (defaults to the project title)"
+          className="flex-1 bg-[#0a0a0b] border-[#333] text-white font-courier focus:border-[#f5c518]"
+        />
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="md:w-36 bg-[#0a0a0b] border-[#333] text-white font-courier">
+            <SelectValue placeholder="Expires" />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.value === 'never' ? 'Never expires' : `Expires in ${option.label}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={reelId} onValueChange={setReelId}>
+          <SelectTrigger className="md:w-44 bg-[#0a0a0b] border-[#333] text-white font-courier">
+            <SelectValue placeholder="Reel" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="latest">Latest reel</SelectItem>
+            {readyVersions.map((version) => (
+              <SelectItem key={version.id} value={version.id}>
+                {formatReelVersion(version)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={handleCreate}
+          disabled={isPending}
+          className="bg-[#00f2ea] hover:bg-[#00f2ea]/90 text-black font-oswald uppercase tracking-wider"
+        >
+          {isPending ? <Loader2 className="animate-spin" size={16} /> : <Link2 size={16} />}
+          Create Link
+        </Button>
+      </div>
+
+      {/* List */}
+      {links.length === 0 ? (
+        <p className="font-courier text-xs text-[#666]">No share links yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {links.map((link) => {
+            const isLive = link.is_active && !link.isExpired;
+            return (
+              <li
+                key={link.id}
+                className="flex items-center gap-3 p-3 bg-[#0a0a0b] border border-[#333] rounded"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-oswald uppercase text-sm text-white truncate">{link.title}</p>
+                    {link.reel_id && (
+                      <Badge className="bg-[#1c1c1f] text-[#f5c518] border-[#f5c518]/30 font-courier">
+                        {versionNames.get(link.reel_id) ?? 'Pinned version'}
+                      </Badge>
+                    )}
+                    {!link.is_active ? (
+                      <Badge className="bg-[#333] text-[#888] border-[#333] font-courier">Revoked</Badge>
+                    ) : link.isExpired ? (
+                      <Badge className="bg-[#333] text-[#888] border-[#333] font-courier">Expired</Badge>
+                    ) : null}
+                  </div>
+                  <p className="font-courier text-xs text-[#666] truncate">{link.url}</p>
+                  <p className="font-courier text-xs text-[#666] flex items-center gap-3 mt-1">
+                    <span className="flex items-center gap-1">
+                      <Eye size={12} />
+                      {link.view_count} {link.view_count === 1 ? 'view' : 'views'}
+                    </span>
+                    <span>
+                      {link.expires_at
+                        ? `${link.isExpired ? 'Expired' : 'Expires'} ${new Date(link.expires_at).toLocaleDateString()}`
+                        : 'No expiry'}
+                    </span>
+                  </p>
+                </div>
+                {isLive && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => copyLink(link.url)}
+                      className="text-[#888] hover:text-[#00f2ea] hover:bg-[#1c1c1f]"
+                    >
+                      <Copy size={16} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRevoke(link.id)}
+                      disabled={revokingId === link.id}
+                      className="text-[#888] hover:text-[#e02f2f] hover:bg-[#1c1c1f]"
+                    >
+                      {revokingId === link.id ? (
+                        <Loader2 className="animate-spin" size={16} />
+                      ) : (
+                        <ShieldOff size={16} />
+                      )}
+                    </Button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { FileCode2, FileText, Film } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { InterchangeFormat } from '@/lib/interchange';
+
+const EXPORT_OPTIONS: Array<{ format: InterchangeFormat; label: string; description: string; icon: typeof Film }> = [
+  { format: 'fcpxml', label: 'FCPXML', description: 'Final Cut Pro, DaVinci Resolve', icon: FileCode2 },
+  { format: 'edl', label: 'EDL', description: 'CMX3600 - Premiere, Avid, Resolve', icon: FileText },
+  { format: 'otio', label: 'OpenTimelineIO', description: 'OTIO-aware editors and pipelines', icon: Film },
+];
+
+interface TimelineExportPanelProps {
+  projectId: string;
+  readyVideoCount: number;
+}
+
+/**
+ * Editor handoff - the timeline as an NLE project file, zipped with the shot videos
+ */
+export function TimelineExportPanel({ projectId, readyVideoCount }: TimelineExportPanelProps) {
+  return (
+    <div className="p-6 bg-[#1c1c1f] border border-[#333] rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <FileCode2 className="text-[#f5c518]" size={24} />
+        <h3 className="font-oswald text-xl uppercase tracking-wider text-white">
+          Editor Handoff
+        </h3>
+      </div>
+      <p className="font-courier text-sm text-[#888] mb-4">
+        Re-cut the reel in your editor: each zip holds the timeline - scene and shot names, trims,
+        and transitions - plus the shot videos it references. Relink to the media folder if prompted.
+      </p>
+
+      {readyVideoCount === 0 ? (
+        <p className="font-courier text-xs text-[#666]">No ready shot videos to export yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {EXPORT_OPTIONS.map(({ format, label, description, icon: Icon }) => (
+            <Button
+              key={format}
+              asChild
+              variant="outline"
+              className="h-auto py-3 justify-start border-[#333] text-white hover:bg-[#0a0a0b] font-oswald uppercase tracking-wider"
+            >
+              <a href={`/api/projects/${projectId}/timeline-export?format=${format}`} download>
+                <Icon size={18} />
+                <div className="text-left">
+                  <div>{label}</div>
+                  <div className="text-xs text-[#888] normal-case font-courier">{description}</div>
+                </div>
+              </a>
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useRef, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { getProjectJobs, retryJob } from "@/app/actions/jobs";
+import { isJobActive, JOB_TYPE_LABELS, type JobSummary } from "@/lib/jobs/types";
+
+interface ProjectJobsPanelProps {
+  projectId: string;
+  initialJobs: JobSummary[];
+}
+
+/**
+ * Shows queued, running, and failed background jobs for a project
+ * Succeeded jobs are hidden - their results show up in the studio tabs.
+ */
+export function ProjectJobsPanel({ projectId, initialJobs }: ProjectJobsPanelProps) {
+  const router = useRouter();
+  const [jobs, setJobs] = useState<JobSummary[]>(initialJobs);
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null);
+  const [, startTransition] = useTransition();
+  const activeJobIds = useRef(new Set(initialJobs.filter(isJobActive).map((job) => job.id)));
+
+  // Keep in sync with server-rendered data after router.refresh()
+  useEffect(() => {
+    setJobs(initialJobs);
+  }, [initialJobs]);
+
+  const hasActiveJobs = jobs.some(isJobActive);
+
+  // Poll while anything is queued or running
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const latestJobs = await getProjectJobs(projectId);
+        setJobs(latestJobs);
+
+        // Refresh the page once a job we were watching finishes
+        const finished = latestJobs.some(
+          (job) => activeJobIds.current.has(job.id) && !isJobActive(job)
+        );
+        activeJobIds.current = new Set(latestJobs.filter(isJobActive).map((job) => job.id));
+
+        if (finished) {
+          router.refresh();
+        }
+      } catch (error) {
+        console.error("Error polling project jobs:", error);
+      }
+    }, 3000);
+
+    return () => clearInterval(interval);
+  }, [hasActiveJobs, projectId, router]);
+
+  const handleRetry = (jobId: string) => {
+    setRetryingJobId(jobId);
+
+    startTransition(async () => {
+      const result = await retryJob(jobId);
+
+      if (result.success) {
+        activeJobIds.current.add(result.job.id);
+        setJobs((prev) => prev.map((job) => (job.id === jobId ? result.job : job)));
+        toast.success(`${JOB_TYPE_LABELS[result.job.type]} queued again`);
+      } else {
+        toast.error(result.error);
+      }
+
+      setRetryingJobId(null);
+    });
+  };
+
+  const visibleJobs = jobs.filter((job) => job.status !== "succeeded");
+  if (visibleJobs.length === 0) return null;
+
+  return (
+    <div className="border-b border-[#333] bg-[#141416] px-6 py-3 space-y-2">
+      {visibleJobs.map((job) => (
+        <div key={job.id} className="flex items-center gap-3 font-courier text-sm">
+          {job.status === "failed" ? (
+            <AlertCircle size={16} className="text-[#e02f2f] shrink-0" />
+          ) : (
+            <Loader2 size={16} className="text-[#f5c518] animate-spin shrink-0" />
+          )}
+
+          <span className="font-oswald uppercase tracking-wider text-white">
+            {JOB_TYPE_LABELS[job.type]}
+          </span>
+
+          <span className={job.status === "failed" ? "text-[#e02f2f]" : "text-[#888]"}>
+            {getJobStatusText(job)}
+          </span>
+
+          {job.lastError && (
+            <span className="text-[#666] truncate" title={job.lastError}>
+              {job.lastError}
+            </span>
+          )}
+
+          {job.status === "failed" && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleRetry(job.id)}
+              disabled={retryingJobId === job.id}
+              className="ml-auto border-[#f5c518] text-[#f5c518] hover:bg-[#f5c518]/10 font-oswald uppercase text-xs"
+            >
+              {retryingJobId === job.id ? (
+                <Loader2 size={12} className="animate-spin" />
+              ) : (
+                <RefreshCw size={12} />
+              )}
+              Retry
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function getJobStatusText(job: JobSummary): string {
+  switch (job.status) {
+    case "running":
+      return `Running (attempt ${job.attempts}/${job.maxAttempts})`;
+    case "queued":
+      return job.attempts > 0
+        ? `Retrying (attempt ${job.attempts + 1}/${job.maxAttempts} at ${new Date(job.runAt).toLocaleTimeString()})`
+        : "Queued";
+    case "failed":
+      return `Failed after ${job.attempts} attempt${job.attempts === 1 ? "" : "s"}`;
+    default:
+      return job.status;
+  }
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FileDiff, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { previewDraftReimport, applyDraftReimport } from '@/app/actions/drafts';
+import { detectScreenplayFormat, type ScreenplayDiff, type ScreenplayFormat } from '@/lib/screenplay';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+
+interface ReimportDraftButtonProps {
+  projectId: string;
+}
+
+const CHANGE_STYLES = {
+  added: 'text-green-400',
+  removed: 'text-[#e02f2f] line-through',
+  changed: 'text-[#f5c518]',
+  unchanged: 'text-[#666]',
+} as const;
+
+/**
+ * "Re-import Draft" - load a revised screenplay, review the scene diff, apply it
+ */
+export function ReimportDraftButton({ projectId }: ReimportDraftButtonProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [draft, setDraft] = useState<{ scriptContent: string; scriptFormat: ScreenplayFormat } | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [pastedText, setPastedText] = useState('');
+  const [diff, setDiff] = useState<ScreenplayDiff | null>(null);
+
+  const reset = () => {
+    setDraft(null);
+    setFileName(null);
+    setPastedText('');
+    setDiff(null);
+  };
+
+  const runPreview = async (input: { scriptContent: string; scriptFormat: ScreenplayFormat }) => {
+    setIsLoading(true);
+    try {
+      const result = await previewDraftReimport(projectId, input);
+      if (result.success) {
+        setDraft(input);
+        setDiff(result.diff);
+      } else {
+        setDiff(null);
+        toast.error(result.error);
+      }
+    } catch (error) {
+      console.error('Error previewing draft:', error);
+      toast.error('Failed to read draft');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const format = detectScreenplayFormat(file.name);
+    if (!format) {
+      toast.error('Choose a Fountain (.fountain) or Final Draft (.fdx) file');
+      return;
+    }
+
+    setFileName(file.name);
+    setPastedText('');
+    await runPreview({ scriptContent: await file.text(), scriptFormat: format });
+  };
+
+  const handleApply = async () => {
+    if (!draft) return;
+    setIsLoading(true);
+    try {
+      const result = await applyDraftReimport(projectId, draft);
+      if (result.success) {
+        const { counts } = result.summary;
+        toast.success(
+          `Draft applied: ${counts.added} added, ${counts.changed} changed, ${counts.removed} removed, ${counts.unchanged} kept`
+        );
+        setIsOpen(false);
+        reset();
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } catch (error) {
+      console.error('Error applying draft:', error);
+      toast.error('Failed to apply draft');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const hasChanges = diff !== null && diff.counts.added + diff.counts.removed + diff.counts.changed > 0;
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-2 bg-[#333] hover:bg-[#444] text-white font-oswald uppercase tracking-wider px-4 py-2 transition-colors text-sm">
+          <FileDiff className="w-4 h-4" />
+          Re-import Draft
+        </button>
+      </DialogTrigger>
+      <DialogContent className="bg-[#1c1c1f] border-[#333] sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-oswald text-2xl uppercase text-white">
+            Re-import Draft
+          </DialogTitle>
+          <DialogDescription className="font-courier text-[#888] text-sm">
+            Load the revised screenplay. Unchanged scenes keep their approved images, shots,
+            and videos; changed and new scenes go back to review for regeneration.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!diff && (
+          <div className="space-y-4">
+            <input
+              id="draft-upload"
+              type="file"
+              accept=".fountain,.spmd,.fdx"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              type="button"
+              disabled={isLoading}
+              onClick={() => document.getElementById('draft-upload')?.click()}
+              className="w-full flex items-center justify-center gap-2 border-2 border-dashed border-[#333] hover:border-[#f5c518] p-6 font-courier text-[#888] transition-colors disabled:opacity-50"
+            >
+              <Upload className="w-4 h-4" />
+              {fileName ?? 'Choose a Fountain or Final Draft file'}
+            </button>
+            <textarea
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              placeholder="...or paste the screenplay text"
+              className="w-full h-40 bg-[#0a0a0b] border border-[#333] text-white p-3 font-courier text-sm focus:outline-none focus:border-[#f5c518] resize-none"
+            />
+          </div>
+        )}
+
+        {diff && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-4 font-courier text-sm">
+              <span className="text-green-400">{diff.counts.added} added</span>
+              <span className="text-[#f5c518]">{diff.counts.changed} changed</span>
+              <span className="text-[#e02f2f]">{diff.counts.removed} removed</span>
+              <span className="text-[#666]">{diff.counts.unchanged} unchanged</span>
+            </div>
+
+            <ul className="max-h-72 overflow-y-auto space-y-1 border border-[#333] p-3">
+              {diff.entries.map((entry, index) => (
+                <li key={entry.existingSceneId ?? `added-${index}`} className="font-courier text-sm flex gap-3">
+                  <span className="w-20 shrink-0 uppercase text-xs pt-0.5 text-[#666]">{entry.type}</span>
+                  <span className={cn('flex-1', CHANGE_STYLES[entry.type])}>
+                    {entry.sceneNumber ?? entry.previousSceneNumber}. {entry.slugline}
+                    {entry.changes.length > 0 && (
+                      <span className="text-[#888]"> ({entry.changes.join(', ')})</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {(diff.newCharacters.length > 0 || diff.newLocations.length > 0) && (
+              <div className="font-courier text-sm text-[#888] space-y-1">
+                {diff.newCharacters.length > 0 && (
+                  <p>New characters: <span className="text-white">{diff.newCharacters.join(', ')}</span></p>
+                )}
+                {diff.newLocations.length > 0 && (
+                  <p>New locations: <span className="text-white">{diff.newLocations.map((l) => l.name).join(', ')}</span></p>
+                )}
+                <p className="text-xs">These are added to the Bible as pending.</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <button
+            onClick={() => (diff ? reset() : setIsOpen(false))}
+            disabled={isLoading}
+            className="bg-[#333] hover:bg-[#444] text-white font-oswald uppercase tracking-wider px-6 py-2 transition-colors text-sm disabled:opacity-50"
+          >
+            {diff ? 'Back' : 'Cancel'}
+          </button>
+          {diff ? (
+            <button
+              onClick={handleApply}
+              disabled={isLoading || !hasChanges}
+              className="flex items-center gap-2 bg-[#f5c518] hover:bg-white text-black font-oswald uppercase tracking-wider px-6 py-2 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              {hasChanges ? 'Apply Draft' : 'No Changes'}
+            </button>
+          ) : (
+            <button
+              onClick={() => runPreview({ scriptContent: pastedText, scriptFormat: 'fountain' })}
+              disabled={isLoading || !pastedText.trim()}
+              className="flex items-center gap-2 bg-[#f5c518] hover:bg-white text-black font-oswald uppercase tracking-wider px-6 py-2 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              Compare
+            </button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
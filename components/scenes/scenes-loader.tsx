@@ -2,18 +2,23 @@
 
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { Film, Loader2 } from "lucide-react";
+import { AlertCircle, Film, Loader2 } from "lucide-react";
 import type { Project, Scene } from "@/lib/drizzle/schema";
+import { isJobActive, type JobSummary } from "@/lib/jobs/types";
 
 interface ScenesLoaderProps {
   initialProject: Project;
   initialScenes: Scene[];
+  /** Latest scene_generation job for the project, if any */
+  initialSceneJob?: JobSummary | null;
 }
 
-export function ScenesLoader({ initialProject, initialScenes }: ScenesLoaderProps) {
+export function ScenesLoader({ initialProject, initialScenes, initialSceneJob = null }: ScenesLoaderProps) {
   const router = useRouter();
+  const [sceneJob, setSceneJob] = useState<JobSummary | null>(initialSceneJob);
   const [isPolling, setIsPolling] = useState(
-    initialProject.status === "parsing" && initialScenes.length === 0
+    initialScenes.length === 0 &&
+      (initialProject.status === "parsing" || (initialSceneJob !== null && isJobActive(initialSceneJob)))
   );
 
   useEffect(() => {
@@ -34,11 +39,21 @@ export function ScenesLoader({ initialProject, initialScenes }: ScenesLoaderProp
         const data = await response.json();
         console.log("✅ Status poll response:", data);
 
+        const latestSceneJob = (data.jobs as JobSummary[] | undefined)?.find(
+          (job) => job.type === "scene_generation"
+        );
+        if (latestSceneJob) {
+          setSceneJob(latestSceneJob);
+        }
+
         if (data.status === "scene_validation" || data.sceneCount > 0) {
           // Scenes are ready! Refresh the page to show them
           console.log("🎉 Scenes are ready! Refreshing page...");
           setIsPolling(false);
           router.refresh();
+        } else if (latestSceneJob?.status === "failed") {
+          console.log("❌ Scene generation job failed");
+          setIsPolling(false);
         }
       } catch (error) {
         console.error("Error polling project status:", error);
@@ -57,7 +72,29 @@ export function ScenesLoader({ initialProject, initialScenes }: ScenesLoaderProp
     };
   }, [isPolling, initialProject.id, router]);
 
-  if (isPolling || (initialProject.status === "parsing" && initialScenes.length === 0)) {
+  const sceneJobFailed = sceneJob?.status === "failed" && initialScenes.length === 0;
+
+  if (sceneJobFailed) {
+    return (
+      <div className="min-h-[40vh] flex flex-col items-center justify-center">
+        <div className="text-center max-w-2xl">
+          <AlertCircle className="w-16 h-16 text-[#e02f2f] mx-auto mb-6" />
+          <h2 className="font-oswald text-3xl uppercase font-bold tracking-tight text-white mb-4">
+            Scene Generation Failed
+          </h2>
+          <p className="font-courier text-[#888] text-lg leading-relaxed mb-4">
+            Scene generation failed after {sceneJob.attempts} of {sceneJob.maxAttempts} attempts.
+            Use Retry in the jobs panel above to try again.
+          </p>
+          {sceneJob.lastError && (
+            <p className="font-courier text-[#e02f2f] text-sm mb-6">{sceneJob.lastError}</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (isPolling || (initialScenes.length === 0 && (initialProject.status === "parsing" || (sceneJob !== null && isJobActive(sceneJob))))) {
     return (
       <div className="min-h-[60vh] flex flex-col items-center justify-center">
         <div className="text-center max-w-2xl">
@@ -78,8 +115,14 @@ export function ScenesLoader({ initialProject, initialScenes }: ScenesLoaderProp
               </span>
             </div>
             <p className="font-courier text-[#f5c518] text-sm">
-              {initialProject.status === "parsing" ? "Parsing screenplay..." : "Almost ready..."}
+              {initialProject.status === "parsing" ? "Parsing screenplay..." : "Generating scenes..."}
             </p>
+            {sceneJob && sceneJob.attempts > 1 && (
+              <p className="font-courier text-[#888] text-xs mt-2">
+                Attempt {sceneJob.attempts} of {sceneJob.maxAttempts}
+                {sceneJob.lastError && ` - last error: ${sceneJob.lastError}`}
+              </p>
+            )}
           </div>
           <button
             onClick={() => {
@@ -91,7 +134,7 @@ export function ScenesLoader({ initialProject, initialScenes }: ScenesLoaderProp
             Check if Ready
           </button>
           <p className="font-courier text-[#666] text-xs mt-4">
-            Click the button above when your n8n workflow completes
+            Failed attempts are retried automatically
           </p>
         </div>
       </div>
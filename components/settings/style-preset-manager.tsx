@@ -0,0 +1,306 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Palette, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  listStylePresets,
+  createStylePreset,
+  updateStylePreset,
+  deleteStylePreset,
+  type StylePresetInput,
+} from "@/app/actions/styles";
+import type { StylePreset } from "@/lib/drizzle/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface PresetFormState {
+  name: string;
+  prompt_fragment: string;
+  negative_prompt: string;
+  color_palette: string; // Comma-separated hex colors
+  reference_image_urls: string; // One URL per line
+  seedream: string;
+  nano_banana: string;
+  veo: string;
+}
+
+const EMPTY_FORM: PresetFormState = {
+  name: "",
+  prompt_fragment: "",
+  negative_prompt: "",
+  color_palette: "",
+  reference_image_urls: "",
+  seedream: "",
+  nano_banana: "",
+  veo: "",
+};
+
+const MODEL_OVERRIDE_FIELDS = [
+  { key: "seedream", label: "Seedream override" },
+  { key: "nano_banana", label: "Nano Banana override" },
+  { key: "veo", label: "Veo override" },
+] as const;
+
+const INPUT_CLASS = "bg-[#0a0a0b] border-[#333] text-white font-courier focus:border-[#f5c518]";
+
+function toFormState(preset: StylePreset): PresetFormState {
+  return {
+    name: preset.name,
+    prompt_fragment: preset.prompt_fragment,
+    negative_prompt: preset.negative_prompt ?? "",
+    color_palette: preset.color_palette.join(", "),
+    reference_image_urls: preset.reference_image_urls.join("\n"),
+    seedream: preset.model_overrides.seedream ?? "",
+    nano_banana: preset.model_overrides.nano_banana ?? "",
+    veo: preset.model_overrides.veo ?? "",
+  };
+}
+
+function toPresetInput(form: PresetFormState): StylePresetInput {
+  const splitList = (value: string) =>
+    value
+      .split(/[\n,]/)
+      .map((item) => item.trim())
+      .filter(Boolean);
+
+  return {
+    name: form.name,
+    prompt_fragment: form.prompt_fragment,
+    negative_prompt: form.negative_prompt,
+    color_palette: splitList(form.color_palette),
+    reference_image_urls: splitList(form.reference_image_urls),
+    model_overrides: {
+      seedream: form.seedream,
+      nano_banana: form.nano_banana,
+      veo: form.veo,
+    },
+  };
+}
+
+/**
+ * Custom visual style presets - selectable when creating a project
+ */
+export function StylePresetManager() {
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // null = closed, "new" = creating, otherwise the preset id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<PresetFormState>(EMPTY_FORM);
+
+  useEffect(() => {
+    listStylePresets().then((result) => {
+      if (result.success) {
+        setPresets(result.presets);
+      } else {
+        toast.error(result.error);
+      }
+      setIsLoading(false);
+    });
+  }, []);
+
+  const updateField = (field: keyof PresetFormState, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const openEditor = (preset?: StylePreset) => {
+    setForm(preset ? toFormState(preset) : EMPTY_FORM);
+    setEditing(preset ? preset.id : "new");
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    try {
+      const input = toPresetInput(form);
+      const result = editing === "new"
+        ? await createStylePreset(input)
+        : await updateStylePreset(editing, input);
+
+      if (result.success) {
+        setPresets((current) =>
+          editing === "new"
+            ? [result.preset, ...current]
+            : current.map((preset) => (preset.id === result.preset.id ? result.preset : preset))
+        );
+        toast.success(`Saved "${result.preset.name}"`);
+        closeEditor();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: StylePreset) => {
+    if (!confirm(`Delete the "${preset.name}" style? Projects using it keep their existing images.`)) {
+      return;
+    }
+    const result = await deleteStylePreset(preset.id);
+    if (result.success) {
+      setPresets((current) => current.filter((p) => p.id !== preset.id));
+      if (editing === preset.id) closeEditor();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  return (
+    <Card className="bg-[#1c1c1f] border-[#333]">
+      <CardHeader className="border-b border-[#333]">
+        <CardTitle className="font-oswald text-xl uppercase text-white tracking-wide">
+          Visual Styles
+        </CardTitle>
+        <CardDescription className="font-courier text-[#888]">
+          Custom looks for new projects. A style is added to every Bible, scene, and shot prompt.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center gap-2 font-courier text-sm text-[#888]">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading styles...
+          </div>
+        ) : presets.length === 0 && !editing ? (
+          <p className="font-courier text-sm text-[#666]">
+            No custom styles yet. The built-in styles are always available.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {presets.map((preset) => (
+              <li key={preset.id} className="flex items-start gap-3 border border-[#333] p-3">
+                <Palette className="w-4 h-4 text-[#f5c518] mt-1 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-oswald uppercase text-sm text-white">{preset.name}</p>
+                  <p className="font-courier text-xs text-[#888] truncate">{preset.prompt_fragment}</p>
+                  {preset.color_palette.length > 0 && (
+                    <div className="flex gap-1 mt-2">
+                      {preset.color_palette.map((color) => (
+                        <span key={color} className="w-4 h-4 border border-[#333]" style={{ backgroundColor: color }} />
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => openEditor(preset)}
+                  className="text-[#888] hover:text-[#f5c518] hover:bg-[#0a0a0b]"
+                >
+                  <Pencil size={16} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(preset)}
+                  className="text-[#888] hover:text-red-500 hover:bg-[#0a0a0b]"
+                >
+                  <Trash2 size={16} />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {editing ? (
+          <div className="space-y-4 border-t border-[#333] pt-6">
+            <div className="space-y-2">
+              <Label className="text-white font-oswald uppercase tracking-wide">Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => updateField("name", e.target.value)}
+                placeholder="Neon Cyberpunk"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white font-oswald uppercase tracking-wide">Prompt fragment</Label>
+              <Textarea
+                value={form.prompt_fragment}
+                onChange={(e) => updateField("prompt_fragment", e.target.value)}
+                placeholder="Neon-soaked cyberpunk, rain-slick streets, anamorphic lens flares"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white font-oswald uppercase tracking-wide">Negative prompt</Label>
+              <Input
+                value={form.negative_prompt}
+                onChange={(e) => updateField("negative_prompt", e.target.value)}
+                placeholder="daylight, pastel colors"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white font-oswald uppercase tracking-wide">Color palette</Label>
+              <Input
+                value={form.color_palette}
+                onChange={(e) => updateField("color_palette", e.target.value)}
+                placeholder="#ff2a6d, #05d9e8, #01012b"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white font-oswald uppercase tracking-wide">Reference images</Label>
+              <Textarea
+                value={form.reference_image_urls}
+                onChange={(e) => updateField("reference_image_urls", e.target.value)}
+                placeholder="One image URL per line"
+                className={INPUT_CLASS}
+              />
+              <p className="text-xs text-[#666] font-courier">
+                Sent alongside character and location references when a model accepts reference images.
+              </p>
+            </div>
+            {MODEL_OVERRIDE_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label className="text-white font-oswald uppercase tracking-wide">{label}</Label>
+                <Input
+                  value={form[key]}
+                  onChange={(e) => updateField(key, e.target.value)}
+                  placeholder="Optional - replaces the prompt fragment for this model"
+                  className={INPUT_CLASS}
+                />
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={handleSave}
+                disabled={isSaving || !form.name.trim() || !form.prompt_fragment.trim()}
+                className="bg-[#f5c518] text-black hover:bg-[#d4a617] font-oswald uppercase"
+              >
+                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                Save Style
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={closeEditor}
+                className="text-[#888] hover:text-white hover:bg-[#0a0a0b]"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            onClick={() => openEditor()}
+            className="bg-[#333] text-white hover:bg-[#444] font-oswald uppercase"
+          >
+            <Plus className="w-4 h-4" />
+            New Style
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useId, useState, useTransition } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { insertShot } from '@/app/actions/shot-list';
+import { SHOT_SECONDS_OPTIONS, SHOT_TYPE_SUGGESTIONS } from '@/lib/shot-list';
+import type { SceneShot } from '@/lib/drizzle/schema';
+
+interface NewShotFormProps {
+  sceneId: string;
+  /** The scene's shots in order */
+  shots: SceneShot[];
+  onCancel: () => void;
+  onCreated: () => void;
+}
+
+/**
+ * Insert a shot by hand - a cutaway, insert, or anything the breakdown missed
+ */
+export function NewShotForm({ sceneId, shots, onCancel, onCreated }: NewShotFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const suggestionsId = useId();
+  const [position, setPosition] = useState(String(shots.length + 1));
+  const [shotType, setShotType] = useState('Cutaway');
+  const [duration, setDuration] = useState('4');
+  const [description, setDescription] = useState('');
+
+  const handleSubmit = () => {
+    startTransition(async () => {
+      const result = await insertShot(sceneId, {
+        position: Number(position),
+        shot_type: shotType,
+        shot_duration_seconds: Number(duration),
+        description,
+      });
+      if (result.success) {
+        toast.success(`Shot ${position} added`);
+        onCreated();
+      } else {
+        toast.error(result.error);
+      }
+    });
+  };
+
+  return (
+    <div className="p-3 bg-[#0a0a0b] border border-[#f5c518]/40 rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-oswald uppercase text-xs text-[#f5c518]">New Shot</span>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onCancel}
+          className="h-6 px-1 text-[#888] hover:text-white"
+        >
+          <X size={12} />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Select value={position} onValueChange={setPosition}>
+          <SelectTrigger className="w-40 h-8 bg-[#0a0a0b] border-[#333] text-white font-courier text-xs">
+            <SelectValue placeholder="Position" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="1">At the start</SelectItem>
+            {shots.map((shot) => (
+              <SelectItem key={shot.id} value={String(shot.shot_number + 1)}>
+                After shot {shot.shot_number}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={shotType}
+          onChange={(e) => setShotType(e.target.value)}
+          list={suggestionsId}
+          placeholder="Shot type"
+          className="flex-1 min-w-[160px] h-8 bg-[#0a0a0b] border-[#333] text-white font-courier text-xs focus:border-[#f5c518]"
+        />
+        <datalist id={suggestionsId}>
+          {SHOT_TYPE_SUGGESTIONS.map((type) => (
+            <option key={type} value={type} />
+          ))}
+        </datalist>
+        <Select value={duration} onValueChange={setDuration}>
+          <SelectTrigger className="w-20 h-8 bg-[#0a0a0b] border-[#333] text-white font-courier text-xs">
+            <SelectValue placeholder="Length" />
+          </SelectTrigger>
+          <SelectContent>
+            {SHOT_SECONDS_OPTIONS.map((seconds) => (
+              <SelectItem key={seconds} value={String(seconds)}>
+                {seconds}s
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="What happens in the shot, e.g. Close on the clock as the minute hand ticks to midnight"
+        rows={2}
+        className="bg-[#0a0a0b] border-[#333] text-white font-courier text-xs focus:border-[#f5c518]"
+      />
+
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={handleSubmit}
+          disabled={isPending || !description.trim()}
+          className="bg-[#f5c518] hover:bg-[#d4a616] text-black font-courier text-xs h-7"
+        >
+          {isPending ? <Loader2 size={12} className="mr-1 animate-spin" /> : <Plus size={12} className="mr-1" />}
+          Add Shot
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { useTransition } from 'react';
+import { useId, useState, useTransition, type ReactNode } from 'react';
+import { toast } from 'sonner';
 import {
   Play,
   Loader2,
@@ -9,34 +10,81 @@ import {
   Clock,
   Film,
   StopCircle,
+  Pencil,
+  Check,
+  X,
+  Scissors,
+  Merge,
+  Trash2,
+  Link2,
+  Link2Off,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Veo3PromptEditor } from './veo3-prompt-editor';
 import { updateShotVeo3Prompt, cancelShotVideoGeneration } from '@/app/actions/shots';
+import { deleteShot, mergeShotWithNext, splitShot, updateShotDetails } from '@/app/actions/shot-list';
+import { setShotContinuityOverride } from '@/app/actions/continuity';
+import { describeContinuityLink, type ContinuityLink } from '@/lib/continuity';
+import { getVideoPosterUrl } from '@/lib/video-media';
+import { MAX_SHOT_SECONDS, MIN_SHOT_SECONDS, SHOT_SECONDS_OPTIONS, SHOT_TYPE_SUGGESTIONS } from '@/lib/shot-list';
 import type { SceneShot, Veo3PromptData } from '@/lib/drizzle/schema';
 
 interface ShotCardProps {
   shot: SceneShot;
+  /** The shot after this one in the scene, if any - for merging */
+  nextShot?: SceneShot | null;
   sceneApprovedImageUrl: string | null;
+  /** The scene chains start frames (keyframe continuity) */
+  continuityMode?: boolean;
+  /** Where this shot's chained start frame comes from - null when it keeps its own */
+  continuityLink?: ContinuityLink | null;
+  /** Bible character names, for prompt linting */
+  characterNames?: string[];
   isGenerating: boolean;
   onGenerateVideo: () => void;
   onRefresh?: () => void;
   disabled?: boolean;
+  /** Split, merge, and delete are locked while the scene is generating */
+  structureLocked?: boolean;
+  /** Drag handle for reordering */
+  dragHandle?: ReactNode;
 }
 
 export function ShotCard({
   shot,
+  nextShot = null,
   sceneApprovedImageUrl,
+  continuityMode = false,
+  continuityLink = null,
+  characterNames,
   isGenerating,
   onGenerateVideo,
   onRefresh,
   disabled = false,
+  structureLocked = false,
+  dragHandle,
 }: ShotCardProps) {
   const [isPending, startTransition] = useTransition();
+  const suggestionsId = useId();
+  const [isEditingDetails, setIsEditingDetails] = useState(false);
+  const [draftType, setDraftType] = useState(shot.shot_type ?? '');
+  const [draftDuration, setDraftDuration] = useState(String(shot.shot_duration_seconds));
+  const [splitSeconds, setSplitSeconds] = useState<string | null>(null);
+
+  const hasVideo = !!shot.video_url;
+  const posterUrl = getVideoPosterUrl(shot);
+  const canSplit = shot.shot_duration_seconds >= MIN_SHOT_SECONDS * 2;
+  const mergedDuration = nextShot ? shot.shot_duration_seconds + nextShot.shot_duration_seconds : null;
+  const canMerge = mergedDuration !== null && mergedDuration <= MAX_SHOT_SECONDS;
 
   const hasApprovedImage = !!sceneApprovedImageUrl;
 
+  // Overridden shots can be chained again (the first shot and extend shots never are)
+  const canChain = continuityMode && shot.continuity_override && shot.shot_number > 1 && !shot.uses_extend;
+
   const canGenerate =
     hasApprovedImage &&
     !isGenerating &&
@@ -58,6 +106,97 @@ export function ShotCard({
     });
   };
 
+  const startEditingDetails = () => {
+    setDraftType(shot.shot_type ?? '');
+    setDraftDuration(String(shot.shot_duration_seconds));
+    setIsEditingDetails(true);
+  };
+
+  const handleSaveDetails = () => {
+    startTransition(async () => {
+      const result = await updateShotDetails(shot.id, {
+        shot_type: draftType,
+        shot_duration_seconds: Number(draftDuration),
+      });
+      if (result.success) {
+        setIsEditingDetails(false);
+        onRefresh?.();
+      } else {
+        toast.error(result.error);
+      }
+    });
+  };
+
+  const handleSplit = () => {
+    if (splitSeconds === null) return;
+    if (hasVideo && !confirm(`Split shot ${shot.shot_number}? Its video and takes are discarded - both parts need new videos.`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await splitShot(shot.id, Number(splitSeconds));
+      if (result.success) {
+        setSplitSeconds(null);
+        toast.success(`Shot ${shot.shot_number} split in two`);
+        onRefresh?.();
+      } else {
+        toast.error(result.error);
+      }
+    });
+  };
+
+  const handleMerge = () => {
+    if (!nextShot) return;
+    if (
+      (hasVideo || nextShot.video_url) &&
+      !confirm(`Merge shots ${shot.shot_number} and ${nextShot.shot_number}? Their videos and takes are discarded - the merged shot needs a new video.`)
+    ) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await mergeShotWithNext(shot.id);
+      if (result.success) {
+        toast.success(`Shots ${shot.shot_number} and ${nextShot.shot_number} merged`);
+        onRefresh?.();
+      } else {
+        toast.error(result.error);
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete shot ${shot.shot_number}${hasVideo ? ' and its takes' : ''}? This cannot be undone.`)) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await deleteShot(shot.id);
+      if (result.success) {
+        toast.success(`Shot ${shot.shot_number} deleted`);
+        onRefresh?.();
+      } else {
+        toast.error(result.error);
+      }
+    });
+  };
+
+  const handleContinuityOverride = (override: boolean) => {
+    startTransition(async () => {
+      const result = await setShotContinuityOverride(shot.id, override);
+      if (result.success) {
+        toast.success(
+          override
+            ? `Shot ${shot.shot_number} keeps its own start frame`
+            : `Shot ${shot.shot_number} starts where shot ${shot.shot_number - 1} ends`
+        );
+        onRefresh?.();
+      } else {
+        toast.error(result.error);
+      }
+    });
+  };
+
   const handleSaveVeo3Prompt = async (data: Veo3PromptData) => {
     const result = await updateShotVeo3Prompt(shot.id, data);
     if (result.success) {
@@ -116,6 +255,8 @@ export function ShotCard({
   return (
     <div className="p-3 bg-[#0a0a0b] border border-[#333] rounded-lg">
       <div className="flex items-start gap-3">
+        {dragHandle}
+
         {/* Shot Number */}
         <div className="w-8 h-8 bg-[#1c1c1f] border border-[#333] rounded flex items-center justify-center flex-shrink-0">
           <span className="font-oswald text-sm text-[#f5c518]">
@@ -126,24 +267,167 @@ export function ShotCard({
         {/* Shot Info */}
         <div className="flex-1 min-w-0">
           {/* Shot Type & Duration */}
-          <div className="flex items-center gap-2 mb-2 flex-wrap">
-            {shot.shot_type && (
+          {isEditingDetails ? (
+            <div className="flex items-center gap-2 mb-2 flex-wrap">
+              <Input
+                value={draftType}
+                onChange={(e) => setDraftType(e.target.value)}
+                list={suggestionsId}
+                placeholder="Shot type"
+                className="w-48 h-7 bg-[#0a0a0b] border-[#333] text-white font-courier text-xs focus:border-[#f5c518]"
+              />
+              <datalist id={suggestionsId}>
+                {SHOT_TYPE_SUGGESTIONS.map((type) => (
+                  <option key={type} value={type} />
+                ))}
+              </datalist>
+              <Select value={draftDuration} onValueChange={setDraftDuration}>
+                <SelectTrigger className="w-20 h-7 bg-[#0a0a0b] border-[#333] text-white font-courier text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHOT_SECONDS_OPTIONS.map((seconds) => (
+                    <SelectItem key={seconds} value={String(seconds)}>
+                      {seconds}s
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleSaveDetails}
+                disabled={isPending}
+                className="h-7 px-2 text-[#f5c518] hover:bg-[#f5c518]/10"
+              >
+                {isPending ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setIsEditingDetails(false)}
+                className="h-7 px-2 text-[#888] hover:text-white"
+              >
+                <X size={12} />
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 mb-2 flex-wrap">
+              {shot.shot_type && (
+                <Badge variant="outline" className="text-xs border-[#444] text-[#888]">
+                  <Film size={10} className="mr-1" />
+                  {shot.shot_type}
+                </Badge>
+              )}
               <Badge variant="outline" className="text-xs border-[#444] text-[#888]">
-                <Film size={10} className="mr-1" />
-                {shot.shot_type}
+                {shot.shot_duration_seconds}s
               </Badge>
-            )}
-            <Badge variant="outline" className="text-xs border-[#444] text-[#888]">
-              {shot.shot_duration_seconds}s
-            </Badge>
-            {getStatusBadge()}
-          </div>
+              {getStatusBadge()}
+              <button
+                type="button"
+                onClick={startEditingDetails}
+                disabled={disabled || isPending}
+                title="Edit shot type and length"
+                className="text-[#666] hover:text-white disabled:opacity-50"
+              >
+                <Pencil size={12} />
+              </button>
+            </div>
+          )}
+
+          {/* Split point picker */}
+          {splitSeconds !== null && (
+            <div className="flex items-center gap-2 mb-2 p-2 bg-[#1c1c1f] border border-[#333] rounded">
+              <span className="font-courier text-xs text-[#888]">Split after</span>
+              <Select value={splitSeconds} onValueChange={setSplitSeconds}>
+                <SelectTrigger className="w-20 h-7 bg-[#0a0a0b] border-[#333] text-white font-courier text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHOT_SECONDS_OPTIONS.filter((seconds) => seconds <= shot.shot_duration_seconds - MIN_SHOT_SECONDS).map((seconds) => (
+                    <SelectItem key={seconds} value={String(seconds)}>
+                      {seconds}s
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="font-courier text-xs text-[#666]">
+                → {splitSeconds}s + {shot.shot_duration_seconds - Number(splitSeconds)}s
+              </span>
+              <Button
+                size="sm"
+                onClick={handleSplit}
+                disabled={isPending || structureLocked}
+                className="h-7 px-2 bg-[#f5c518] hover:bg-[#d4a616] text-black font-courier text-xs"
+              >
+                {isPending ? <Loader2 size={12} className="animate-spin" /> : 'Split'}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setSplitSeconds(null)}
+                className="h-7 px-2 text-[#888] hover:text-white"
+              >
+                <X size={12} />
+              </Button>
+            </div>
+          )}
+
+          {/* Keyframe continuity - chained start frame */}
+          {continuityLink && (
+            <div className="flex items-center gap-2 mb-2 p-2 bg-[#1c1c1f] border border-[#333] rounded">
+              {continuityLink.frame ? (
+                <img
+                  src={continuityLink.frame.url}
+                  alt={`Start frame from shot ${continuityLink.fromShotNumber}`}
+                  className="w-12 h-8 object-cover rounded border border-[#333] flex-shrink-0"
+                />
+              ) : (
+                <Link2 size={12} className="text-[#666] flex-shrink-0" />
+              )}
+              <span className="font-courier text-xs text-[#888] flex-1 min-w-0">
+                Starts on: <span className="text-white">{describeContinuityLink(continuityLink)}</span>
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleContinuityOverride(true)}
+                disabled={disabled || isPending}
+                title="Use this shot's own start frame instead"
+                className="h-6 px-2 text-[#888] hover:text-white font-courier text-xs"
+              >
+                <Link2Off size={12} className="mr-1" />
+                Override
+              </Button>
+            </div>
+          )}
+          {canChain && (
+            <div className="flex items-center gap-2 mb-2 p-2 bg-[#1c1c1f] border border-dashed border-[#333] rounded">
+              <Link2Off size={12} className="text-[#666] flex-shrink-0" />
+              <span className="font-courier text-xs text-[#888] flex-1">
+                Own start frame (continuity overridden)
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleContinuityOverride(false)}
+                disabled={disabled || isPending}
+                title={`Start on shot ${shot.shot_number - 1}'s last image again`}
+                className="h-6 px-2 text-[#888] hover:text-white font-courier text-xs"
+              >
+                <Link2 size={12} className="mr-1" />
+                Chain
+              </Button>
+            </div>
+          )}
 
           {/* VEO 3.1 Structured Prompt Editor - Always shown */}
           <Veo3PromptEditor
             promptData={shot.video_prompt_veo3}
             legacyPrompt={shot.action_prompt}
             dialogueSegment={shot.dialogue_segment}
+            durationSeconds={shot.shot_duration_seconds}
+            characterNames={characterNames}
             onSave={handleSaveVeo3Prompt}
             disabled={disabled || isPending}
             className="mb-2"
@@ -167,6 +451,8 @@ export function ShotCard({
                 className="w-full h-full object-cover"
                 controls
                 muted
+                preload={posterUrl ? 'none' : 'metadata'}
+                poster={posterUrl || undefined}
               />
             </div>
           )}
@@ -232,6 +518,46 @@ export function ShotCard({
               </span>
             )}
           </div>
+
+          {/* Shot List Edits */}
+          <div className="flex items-center gap-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setSplitSeconds(String(Math.floor(shot.shot_duration_seconds / 2)))}
+              disabled={disabled || isPending || structureLocked || !canSplit}
+              title={canSplit ? 'Split into two shots' : 'Too short to split'}
+              className="h-7 px-2 text-[#888] hover:text-white"
+            >
+              <Scissors size={12} />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleMerge}
+              disabled={disabled || isPending || structureLocked || !canMerge}
+              title={
+                !nextShot
+                  ? 'No shot after this one to merge with'
+                  : canMerge
+                    ? `Merge with shot ${nextShot.shot_number}`
+                    : `Merged shot would be ${mergedDuration}s - the limit is ${MAX_SHOT_SECONDS}s`
+              }
+              className="h-7 px-2 text-[#888] hover:text-white"
+            >
+              <Merge size={12} />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleDelete}
+              disabled={disabled || isPending || structureLocked}
+              title="Delete shot"
+              className="h-7 px-2 text-[#888] hover:text-red-400"
+            >
+              <Trash2 size={12} />
+            </Button>
+          </div>
         </div>
       </div>
     </div>
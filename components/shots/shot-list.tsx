@@ -1,6 +1,24 @@
 'use client';
 
-import { useState, useTransition } from 'react';
+import { useEffect, useId, useState, useTransition, type ComponentProps } from 'react';
+import { toast } from 'sonner';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
 import {
   ChevronDown,
   ChevronRight,
@@ -9,15 +27,27 @@ import {
   Play,
   CheckCircle,
   XCircle,
+  GripVertical,
+  Plus,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { ShotCard } from './shot-card';
+import { NewShotForm } from './new-shot-form';
 import { createShotsFromScene, generateShotVideoMVP } from '@/app/actions/shots';
+import { reorderShots } from '@/app/actions/shot-list';
+import { setSceneContinuityMode } from '@/app/actions/continuity';
+import { planContinuity } from '@/lib/continuity';
 import type { SceneShot } from '@/lib/drizzle/schema';
 
 interface ShotListProps {
   sceneId: string;
   sceneApprovedImageUrl: string | null;
+  /** Chain each shot's start frame from the shot before it */
+  continuityMode: boolean;
+  /** Bible character names, for prompt linting */
+  characterNames?: string[];
   shots: SceneShot[];
   onRefresh?: () => void;
 }
@@ -25,6 +55,8 @@ interface ShotListProps {
 export function ShotList({
   sceneId,
   sceneApprovedImageUrl,
+  continuityMode,
+  characterNames,
   shots,
   onRefresh,
 }: ShotListProps) {
@@ -32,10 +64,34 @@ export function ShotList({
   const [isPending, startTransition] = useTransition();
   const [isCreatingShots, setIsCreatingShots] = useState(false);
   const [generatingShots, setGeneratingShots] = useState<Set<string>>(new Set());
+  const [orderedShots, setOrderedShots] = useState<SceneShot[]>(shots);
+  const [isAddingShot, setIsAddingShot] = useState(false);
+  const [isSavingContinuity, setIsSavingContinuity] = useState(false);
+  const continuityId = useId();
+
+  // Update local order when shots prop changes
+  useEffect(() => {
+    setOrderedShots(shots);
+  }, [shots]);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8, // Require 8px movement before drag starts (prevents accidental drags)
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
 
   const hasShots = shots.length > 0;
   const hasApprovedImage = !!sceneApprovedImageUrl;
 
+  const continuityLinks = new Map(
+    planContinuity({ continuity_mode: continuityMode }, orderedShots).map((link) => [link.shotId, link])
+  );
+
   // Calculate shot stats
   const stats = {
     total: shots.length,
@@ -61,12 +117,68 @@ export function ShotList({
     });
   };
 
+  // The shot list can't change shape while any of its videos generate
+  const structureLocked = stats.generating > 0 || generatingShots.size > 0;
+
+  const handleDragEnd = (event: DragEndEvent): void => {
+    const { active, over } = event;
+
+    if (!over || active.id === over.id) {
+      return;
+    }
+
+    const oldIndex = orderedShots.findIndex((s) => s.id === active.id);
+    const newIndex = orderedShots.findIndex((s) => s.id === over.id);
+
+    if (oldIndex === -1 || newIndex === -1) {
+      return;
+    }
+
+    const previousOrder = orderedShots; // Save current state for rollback
+    const newOrder = arrayMove(orderedShots, oldIndex, newIndex).map((shot, index) => ({
+      ...shot,
+      shot_number: index + 1,
+    }));
+
+    // Optimistic update
+    setOrderedShots(newOrder);
+
+    void reorderShots(sceneId, newOrder.map((s) => s.id)).then((result) => {
+      if (result.success) {
+        onRefresh?.();
+      } else {
+        // Rollback to previous UI state on error
+        setOrderedShots(previousOrder);
+        toast.error(result.error);
+      }
+    });
+  };
+
+  const handleContinuityChange = (enabled: boolean) => {
+    setIsSavingContinuity(true);
+    startTransition(async () => {
+      const result = await setSceneContinuityMode(sceneId, enabled);
+      if (result.success) {
+        toast.success(
+          enabled
+            ? 'Continuity on - each shot starts where the one before it ends'
+            : 'Continuity off - shots use their own start frames'
+        );
+        onRefresh?.();
+      } else {
+        toast.error(result.error);
+      }
+      setIsSavingContinuity(false);
+    });
+  };
+
   const handleGenerateVideo = async (shotId: string) => {
     setGeneratingShots((prev) => new Set(prev).add(shotId));
     startTransition(async () => {
       const result = await generateShotVideoMVP(shotId);
       if (!result.success) {
         console.error('Failed to generate video:', result.error);
+        toast.error(result.error);
       }
       // Keep in generating set for a short time to show UI feedback
       setTimeout(() => {
@@ -198,27 +310,130 @@ export function ShotList({
                 </div>
               )}
 
-              {/* Shot cards */}
-              <div className="space-y-2">
-                {shots.map((shot) => (
-                  <ShotCard
-                    key={shot.id}
-                    shot={shot}
-                    sceneApprovedImageUrl={sceneApprovedImageUrl}
-                    isGenerating={
-                      generatingShots.has(shot.id) ||
-                      shot.video_status === 'generating'
-                    }
-                    onGenerateVideo={() => handleGenerateVideo(shot.id)}
-                    onRefresh={onRefresh}
-                    disabled={isPending}
+              {/* Keyframe continuity */}
+              {stats.total > 1 && (
+                <div className="flex items-center gap-2 px-2">
+                  <Checkbox
+                    id={continuityId}
+                    checked={continuityMode}
+                    onCheckedChange={(checked) => handleContinuityChange(checked === true)}
+                    disabled={isPending || isSavingContinuity}
+                    className="border-[#f5c518] data-[state=checked]:bg-[#f5c518] data-[state=checked]:text-black"
                   />
-                ))}
-              </div>
+                  <Label
+                    htmlFor={continuityId}
+                    className="font-courier text-xs text-[#888] cursor-pointer"
+                  >
+                    <span className="text-[#f5c518] font-oswald uppercase tracking-wider">Continuity</span>
+                    <span className="ml-2">— Start each shot on the previous shot&apos;s end frame or last frame</span>
+                  </Label>
+                  {isSavingContinuity && <Loader2 size={12} className="animate-spin text-[#888]" />}
+                </div>
+              )}
+
+              {/* Shot cards - drag the handle to reorder */}
+              <DndContext
+                sensors={sensors}
+                collisionDetection={closestCenter}
+                onDragEnd={handleDragEnd}
+              >
+                <SortableContext
+                  items={orderedShots.map((s) => s.id)}
+                  strategy={verticalListSortingStrategy}
+                >
+                  <div className="space-y-2">
+                    {orderedShots.map((shot, index) => (
+                      <SortableShotCard
+                        key={shot.id}
+                        shot={shot}
+                        nextShot={orderedShots[index + 1] ?? null}
+                        sceneApprovedImageUrl={sceneApprovedImageUrl}
+                        continuityMode={continuityMode}
+                        characterNames={characterNames}
+                        continuityLink={continuityLinks.get(shot.id) ?? null}
+                        isGenerating={
+                          generatingShots.has(shot.id) ||
+                          shot.video_status === 'generating'
+                        }
+                        onGenerateVideo={() => handleGenerateVideo(shot.id)}
+                        onRefresh={onRefresh}
+                        disabled={isPending}
+                        structureLocked={structureLocked}
+                      />
+                    ))}
+                  </div>
+                </SortableContext>
+              </DndContext>
             </>
           )}
+
+          {/* Add a shot by hand */}
+          {isAddingShot ? (
+            <NewShotForm
+              sceneId={sceneId}
+              shots={orderedShots}
+              onCancel={() => setIsAddingShot(false)}
+              onCreated={() => {
+                setIsAddingShot(false);
+                onRefresh?.();
+              }}
+            />
+          ) : (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setIsAddingShot(true)}
+              disabled={isPending || structureLocked}
+              className="h-7 px-2 text-[#888] hover:text-white font-courier text-xs"
+            >
+              <Plus size={12} className="mr-1" />
+              Add Shot
+            </Button>
+          )}
         </div>
       )}
     </div>
   );
 }
+
+type SortableShotCardProps = Omit<ComponentProps<typeof ShotCard>, 'dragHandle'>;
+
+/**
+ * Shot card that reorders by dragging its handle, so the prompt editor
+ * stays usable
+ */
+function SortableShotCard(props: SortableShotCardProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: props.shot.id, disabled: props.structureLocked });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <div ref={setNodeRef} style={style} className={isDragging ? 'opacity-50' : undefined}>
+      <ShotCard
+        {...props}
+        dragHandle={
+          <button
+            type="button"
+            {...attributes}
+            {...listeners}
+            disabled={props.structureLocked}
+            title={props.structureLocked ? 'Wait for generation to finish to reorder' : 'Drag to reorder'}
+            className="mt-2 text-[#666] hover:text-white cursor-grab active:cursor-grabbing disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <GripVertical size={14} />
+          </button>
+        }
+      />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   User,
   Play,
@@ -16,17 +16,25 @@ import {
   X,
   Loader2,
   FileText,
+  AlertCircle,
+  AlertTriangle,
+  Wand2,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
+import { applyPromptLintFix, lintVeo3Prompt, type PromptLintFix, type PromptLintIssue } from '@/lib/prompt-lint';
 import type { Veo3PromptData } from '@/lib/drizzle/schema';
 
 interface Veo3PromptEditorProps {
   promptData: Veo3PromptData | null;
   legacyPrompt?: string | null;
   dialogueSegment?: string | null;
+  /** Shot length - dialogue is checked against it */
+  durationSeconds: number;
+  /** Bible character names - names in the prompt are checked against them */
+  characterNames?: string[];
   onSave: (data: Veo3PromptData) => Promise<void>;
   disabled?: boolean;
   className?: string;
@@ -92,10 +100,15 @@ const PROMPT_CATEGORIES: PromptCategory[] = [
   },
 ];
 
+/** Stable default, so the lint isn't recomputed on every render */
+const NO_CHARACTERS: string[] = [];
+
 export function Veo3PromptEditor({
   promptData,
   legacyPrompt,
   dialogueSegment,
+  durationSeconds,
+  characterNames = NO_CHARACTERS,
   onSave,
   disabled = false,
   className,
@@ -113,6 +126,20 @@ export function Veo3PromptEditor({
     ? PROMPT_CATEGORIES.filter((cat) => promptData[cat.key]).length
     : 0;
 
+  // Lint what would be sent - the draft while editing
+  const lintIssues = useMemo(
+    () =>
+      lintVeo3Prompt({
+        prompt: isEditing ? editedData : promptData,
+        legacyPrompt: isEditing ? null : legacyPrompt,
+        durationSeconds,
+        characterNames,
+      }),
+    [isEditing, editedData, promptData, legacyPrompt, durationSeconds, characterNames]
+  );
+  const lintErrorCount = lintIssues.filter((issue) => issue.severity === 'error').length;
+  const promptIssues = lintIssues.filter((issue) => !issue.field);
+
   // Initialize edited data when editing starts
   useEffect(() => {
     if (isEditing) {
@@ -147,6 +174,22 @@ export function Veo3PromptEditor({
     }
   };
 
+  const handleApplyFix = async (fix: PromptLintFix) => {
+    if (isEditing) {
+      setEditedData((prev) => applyPromptLintFix(prev, fix));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(applyPromptLintFix(promptData || {}, fix));
+    } catch (error) {
+      console.error('Failed to apply prompt fix:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleFieldChange = (key: keyof Veo3PromptData, value: string) => {
     setEditedData((prev) => ({
       ...prev,
@@ -173,6 +216,18 @@ export function Veo3PromptEditor({
           ) : hasLegacyPrompt ? (
             <span className="text-amber-500 text-xs font-courier">(legacy format)</span>
           ) : null}
+          {lintIssues.length > 0 && (
+            <span
+              className={cn(
+                'flex items-center gap-1 text-xs font-courier',
+                lintErrorCount > 0 ? 'text-red-400' : 'text-amber-500'
+              )}
+              title={lintErrorCount > 0 ? 'Generation is blocked until the errors are fixed' : undefined}
+            >
+              {lintErrorCount > 0 ? <AlertCircle size={12} /> : <AlertTriangle size={12} />}
+              {lintIssues.length} {lintIssues.length === 1 ? 'issue' : 'issues'}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2">
           {!isEditing && (
@@ -199,6 +254,13 @@ export function Veo3PromptEditor({
       {/* Expanded Content */}
       {isExpanded && (
         <div className="border-t border-[#333] p-3 space-y-3">
+          {/* Issues spanning the whole prompt */}
+          <PromptLintIssues
+            issues={promptIssues}
+            onApplyFix={handleApplyFix}
+            disabled={disabled || isSaving}
+          />
+
           {/* Legacy Prompt Display (if no structured data) */}
           {hasLegacyPrompt && !isEditing && (
             <div className="mb-4">
@@ -266,6 +328,12 @@ export function Veo3PromptEditor({
                     {displayValue || 'Not set'}
                   </div>
                 )}
+
+                <PromptLintIssues
+                  issues={lintIssues.filter((issue) => issue.field === category.key)}
+                  onApplyFix={handleApplyFix}
+                  disabled={disabled || isSaving}
+                />
               </div>
             );
           })}
@@ -305,3 +373,50 @@ export function Veo3PromptEditor({
     </div>
   );
 }
+
+/**
+ * Inline lint warnings with their auto-fix buttons
+ */
+function PromptLintIssues({
+  issues,
+  onApplyFix,
+  disabled,
+}: {
+  issues: PromptLintIssue[];
+  onApplyFix: (fix: PromptLintFix) => void;
+  disabled: boolean;
+}) {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {issues.map((issue, index) => (
+        <li
+          key={`${issue.rule}-${index}`}
+          className={cn(
+            'flex items-start gap-1.5 font-courier text-[10px]',
+            issue.severity === 'error' ? 'text-red-400' : 'text-amber-500'
+          )}
+        >
+          {issue.severity === 'error' ? (
+            <AlertCircle size={11} className="mt-px flex-shrink-0" />
+          ) : (
+            <AlertTriangle size={11} className="mt-px flex-shrink-0" />
+          )}
+          <span className="flex-1">{issue.message}</span>
+          {issue.fix && (
+            <button
+              type="button"
+              onClick={() => onApplyFix(issue.fix!)}
+              disabled={disabled}
+              className="flex items-center gap-1 text-[#f5c518] hover:text-[#d4a616] disabled:opacity-50 flex-shrink-0"
+            >
+              <Wand2 size={10} />
+              {issue.fix.label}
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
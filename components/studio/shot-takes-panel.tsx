@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Check, CircleCheck, Loader2, Trash2, X, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { deleteShotTake, flagShotTake, selectShotTake } from '@/app/actions/shot-takes';
+import { getVideoPosterUrl } from '@/lib/video-media';
+import type { SceneShot, ShotTake, ShotTakeFlag } from '@/lib/drizzle/schema';
+
+interface ShotTakesPanelProps {
+  shot: SceneShot;
+  /** Oldest first */
+  takes: ShotTake[];
+  /** Fallback for takes without a processed poster */
+  posterUrl: string | null;
+  onClose: () => void;
+}
+
+/**
+ * A shot's takes side by side - select the one the timeline uses, circle
+ * keepers, and reject or delete the rest
+ */
+export function ShotTakesPanel({ shot, takes, posterUrl, onClose }: ShotTakesPanelProps) {
+  const router = useRouter();
+  const [busyTakeId, setBusyTakeId] = useState<string | null>(null);
+
+  const runTakeAction = async (
+    takeId: string,
+    action: () => Promise<{ success: true } | { success: false; error: string }>,
+    successMessage: string
+  ) => {
+    setBusyTakeId(takeId);
+    try {
+      const result = await action();
+      if (result.success) {
+        toast.success(successMessage);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setBusyTakeId(null);
+    }
+  };
+
+  const handleSelect = (take: ShotTake) =>
+    runTakeAction(
+      take.id,
+      () => selectShotTake(take.id),
+      `Take ${take.take_number} selected for shot ${shot.shot_number}`
+    );
+
+  const handleFlag = (take: ShotTake, flag: ShotTakeFlag) => {
+    const next = take.flag === flag ? null : flag;
+    return runTakeAction(
+      take.id,
+      () => flagShotTake(take.id, next),
+      next ? `Take ${take.take_number} ${next}` : `Take ${take.take_number} unflagged`
+    );
+  };
+
+  const handleDelete = (take: ShotTake) => {
+    if (!confirm(`Delete take ${take.take_number} of shot ${shot.shot_number}? This cannot be undone.`)) {
+      return;
+    }
+    return runTakeAction(take.id, () => deleteShotTake(take.id), `Take ${take.take_number} deleted`);
+  };
+
+  return (
+    <div className="mt-3 p-4 bg-[#0a0a0b] border border-[#f5c518]/30 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <p className="font-oswald uppercase text-sm text-[#f5c518]">
+          Shot {shot.shot_number} Takes
+        </p>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onClose}
+          className="h-7 px-2 text-[#888] hover:text-white"
+        >
+          <X size={14} />
+        </Button>
+      </div>
+
+      {takes.length === 0 ? (
+        <p className="font-courier text-xs text-[#888]">No takes recorded for this shot yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+          {takes.map((take) => {
+            const isBusy = busyTakeId === take.id;
+            const isReady = take.status === 'ready' && !!take.video_url;
+
+            return (
+              <div
+                key={take.id}
+                className={`bg-black rounded-lg overflow-hidden border ${
+                  take.is_selected ? 'border-[#f5c518]' : 'border-[#333]'
+                } ${take.flag === 'rejected' ? 'opacity-60' : ''}`}
+              >
+                {/* Take Label + Badges */}
+                <div className="flex items-center gap-2 px-2 py-1.5 bg-[#1c1c1f]">
+                  <span className="font-oswald text-xs text-white">Take {take.take_number}</span>
+                  <TakeBadges take={take} />
+                </div>
+
+                {/* Video */}
+                {isReady ? (
+                  <video
+                    src={take.video_url!}
+                    className="w-full aspect-video object-contain"
+                    controls
+                    preload="metadata"
+                    poster={
+                      getVideoPosterUrl({ video_url: take.video_url, video_media: shot.video_media }) ||
+                      posterUrl ||
+                      undefined
+                    }
+                  />
+                ) : (
+                  <div className="w-full aspect-video flex items-center justify-center p-3">
+                    {take.status === 'generating' ? (
+                      <Loader2 size={20} className="text-[#00f2ea] animate-spin" />
+                    ) : (
+                      <p className="font-courier text-xs text-red-400 text-center line-clamp-3">
+                        {take.error_message || 'Generation failed'}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Actions */}
+                <div className="flex items-center gap-1 p-2 border-t border-[#333]">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleSelect(take)}
+                    disabled={isBusy || !isReady || take.is_selected || take.flag === 'rejected'}
+                    className="h-7 px-2 border-[#444] text-[#f5c518] hover:bg-[#f5c518]/10 font-courier text-xs"
+                  >
+                    {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} className="mr-1" />}
+                    {take.is_selected ? 'Selected' : 'Select'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleFlag(take, 'circled')}
+                    disabled={isBusy || !isReady}
+                    title={take.flag === 'circled' ? 'Uncircle' : 'Circle this take'}
+                    className={`h-7 px-2 ${take.flag === 'circled' ? 'text-green-400 bg-green-500/10' : 'text-[#888] hover:text-white'}`}
+                  >
+                    <CircleCheck size={14} />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleFlag(take, 'rejected')}
+                    disabled={isBusy || take.status === 'generating' || take.is_selected}
+                    title={take.flag === 'rejected' ? 'Unreject' : 'Reject this take'}
+                    className={`h-7 px-2 ${take.flag === 'rejected' ? 'text-red-400 bg-red-500/10' : 'text-[#888] hover:text-white'}`}
+                  >
+                    <XCircle size={14} />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(take)}
+                    disabled={isBusy || take.is_selected || take.status === 'generating'}
+                    title="Delete take"
+                    className="h-7 px-2 ml-auto text-[#888] hover:text-red-400"
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TakeBadges({ take }: { take: ShotTake }) {
+  return (
+    <>
+      {take.is_selected && (
+        <Badge className="bg-[#f5c518]/20 text-[#f5c518] border-none font-courier text-[10px]">Selected</Badge>
+      )}
+      {take.flag === 'circled' && (
+        <Badge className="bg-green-500/20 text-green-400 border-none font-courier text-[10px]">Circled</Badge>
+      )}
+      {take.flag === 'rejected' && (
+        <Badge className="bg-red-500/20 text-red-400 border-none font-courier text-[10px]">Rejected</Badge>
+      )}
+      {take.status === 'generating' && (
+        <Badge className="bg-[#00f2ea]/20 text-[#00f2ea] border-none font-courier text-[10px]">Generating</Badge>
+      )}
+      {take.status === 'failed' && (
+        <Badge className="bg-red-500/20 text-red-400 border-none font-courier text-[10px]">Failed</Badge>
+      )}
+    </>
+  );
+}
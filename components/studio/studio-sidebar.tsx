@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { BookOpen, Film, Image as ImageIcon, Video, Clock, Download, Settings } from "lucide-react";
+import { BookOpen, Film, Image as ImageIcon, Video, AudioLines, Clock, Download, Settings } from "lucide-react";
 
 interface StudioSidebarProps {
   projectId: string;
@@ -36,6 +36,12 @@ export function StudioSidebar({ projectId }: StudioSidebarProps) {
       icon: Video,
       description: "Video generation"
     },
+    {
+      name: "Audio",
+      href: `/projects/${projectId}/studio/audio`,
+      icon: AudioLines,
+      description: "Voiceover, SFX & music"
+    },
     {
       name: "Timeline",
       href: `/projects/${projectId}/studio/timeline`,
@@ -14,32 +14,44 @@ import {
   RotateCcw,
   AlertTriangle,
   StopCircle,
+  Layers,
+  Link2Off,
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ShotList } from '@/components/shots/shot-list';
+import { ShotTakesPanel } from '@/components/studio/shot-takes-panel';
 import {
   createShotsForProject,
   generateAllShotVideosMVP,
   generateShotVideoMVP,
   resetShotsForProject,
   cancelAllProjectVideoGeneration,
+  regenerateStaleShots,
 } from '@/app/actions/shots';
-import type { Scene, SceneShot } from '@/lib/drizzle/schema';
+import { findStaleShots, formatStaleReasons } from '@/lib/shot-dependencies';
+import { getVideoPosterUrl } from '@/lib/video-media';
+import type { Scene, SceneShot, ShotTake } from '@/lib/drizzle/schema';
 
 interface SceneWithShots {
   scene: Scene;
   shots: SceneShot[];
+  /** Every take of the scene's shots, oldest first */
+  takes: ShotTake[];
 }
 
 interface VideoGenerationDashboardProps {
   projectId: string;
   scenesWithShots: SceneWithShots[];
+  /** Bible character names, for prompt linting */
+  characterNames: string[];
 }
 
 export function VideoGenerationDashboard({
   projectId,
   scenesWithShots,
+  characterNames,
 }: VideoGenerationDashboardProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
@@ -48,6 +60,15 @@ export function VideoGenerationDashboard({
   const [isResettingShots, setIsResettingShots] = useState(false);
   const [isCancellingAll, setIsCancellingAll] = useState(false);
   const [regeneratingShots, setRegeneratingShots] = useState<Set<string>>(new Set());
+  const [openTakeShotId, setOpenTakeShotId] = useState<string | null>(null);
+  // 'all' or a scene ID while its stale shots are being queued
+  const [regeneratingStale, setRegeneratingStale] = useState<string | null>(null);
+
+  // Shots whose selected take was generated from assets that have changed since
+  const staleByScene = new Map(
+    scenesWithShots.map(({ scene, shots, takes }) => [scene.id, findStaleShots(scene, shots, takes)])
+  );
+  const staleShotCount = [...staleByScene.values()].reduce((sum, stale) => sum + stale.length, 0);
 
   // Calculate stats across all scenes and shots
   const stats = {
@@ -181,6 +202,7 @@ export function VideoGenerationDashboard({
       const result = await generateShotVideoMVP(shotId);
       if (!result.success) {
         console.error('Failed to regenerate video:', result.error);
+        toast.error(result.error);
       }
       // Keep in regenerating set briefly for UI feedback, then refresh
       setTimeout(() => {
@@ -194,6 +216,20 @@ export function VideoGenerationDashboard({
     });
   };
 
+  const handleRegenerateStale = (sceneId: string | null) => {
+    setRegeneratingStale(sceneId ?? 'all');
+    startTransition(async () => {
+      const result = await regenerateStaleShots(projectId, sceneId);
+      if (result.success) {
+        toast.success(`Regenerating ${result.shotIds?.length ?? 0} stale shot(s) in chain order`);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+      setRegeneratingStale(null);
+    });
+  };
+
   const getSceneStatusBadge = (sceneWithShots: SceneWithShots) => {
     const { scene, shots } = sceneWithShots;
 
@@ -384,6 +420,40 @@ export function VideoGenerationDashboard({
         )}
       </div>
 
+      {/* Stale shots downstream of changed assets */}
+      {staleShotCount > 0 && (
+        <div className="p-4 bg-[#1c1c1f] border border-amber-500/50 rounded-lg">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-start gap-3">
+              <Link2Off size={20} className="text-amber-500 flex-shrink-0 mt-0.5" />
+              <div>
+                <h3 className="font-oswald text-sm text-white mb-1">
+                  {staleShotCount} Stale Shot{staleShotCount > 1 ? 's' : ''}
+                </h3>
+                <p className="font-courier text-[#888] text-xs">
+                  A scene image, frame, or earlier shot in the chain changed after{' '}
+                  {staleShotCount > 1 ? 'these shots were' : 'this shot was'} generated.
+                  Regenerating remakes stale frames first, then each shot once the one it continues is ready.
+                </p>
+              </div>
+            </div>
+            <Button
+              onClick={() => handleRegenerateStale(null)}
+              disabled={isPending || regeneratingStale !== null}
+              variant="outline"
+              className="border-amber-500 text-amber-500 hover:bg-amber-500/10 font-oswald uppercase text-xs"
+            >
+              {regeneratingStale === 'all' ? (
+                <Loader2 size={14} className="mr-2 animate-spin" />
+              ) : (
+                <RefreshCw size={14} className="mr-2" />
+              )}
+              Regenerate Stale Downstream
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Generating indicator with Cancel button */}
       {hasGeneratingShots && (
         <div className="p-4 bg-[#1c1c1f] border border-[#00f2ea]/50 rounded-lg">
@@ -422,11 +492,11 @@ export function VideoGenerationDashboard({
           Scenes & Shots
         </h2>
 
-        {scenesWithShots.map(({ scene, shots }) => {
-          // Get shots with ready videos
-          const readyShots = shots.filter(
-            (s) => s.video_url && (s.video_status === 'ready' || s.video_status === 'approved')
-          );
+        {scenesWithShots.map(({ scene, shots, takes }) => {
+          // Get shots with a selected take - it stays visible while a new take generates
+          const readyShots = shots.filter((s) => s.video_url);
+          const openTakeShot = shots.find((s) => s.id === openTakeShotId);
+          const sceneStale = staleByScene.get(scene.id) ?? [];
 
           return (
             <div
@@ -463,7 +533,24 @@ export function VideoGenerationDashboard({
                     <span className="font-courier text-white text-sm truncate">
                       {scene.slugline}
                     </span>
-                    {getSceneStatusBadge({ scene, shots })}
+                    {getSceneStatusBadge({ scene, shots, takes })}
+                    {sceneStale.length > 0 && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRegenerateStale(scene.id)}
+                        disabled={isPending || regeneratingStale !== null}
+                        title="Regenerate this scene's stale shots in chain order"
+                        className="h-6 px-2 border-amber-500/50 text-amber-500 hover:bg-amber-500/10 font-courier text-xs"
+                      >
+                        {regeneratingStale === scene.id ? (
+                          <Loader2 size={10} className="mr-1 animate-spin" />
+                        ) : (
+                          <Link2Off size={10} className="mr-1" />
+                        )}
+                        {sceneStale.length} stale
+                      </Button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -474,6 +561,7 @@ export function VideoGenerationDashboard({
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                     {readyShots.map((shot) => {
                       const isRegenerating = regeneratingShots.has(shot.id) || shot.video_status === 'generating';
+                      const stale = sceneStale.find((entry) => entry.shotId === shot.id);
 
                       return (
                         <div
@@ -488,10 +576,29 @@ export function VideoGenerationDashboard({
                             <span className="px-2 py-0.5 bg-black/70 text-white text-xs font-courier rounded">
                               {shot.shot_duration_seconds}s
                             </span>
+                            {stale && (
+                              <span
+                                title={formatStaleReasons(stale.reasons)}
+                                className="px-2 py-0.5 bg-amber-500 text-black text-xs font-oswald rounded"
+                              >
+                                Stale
+                              </span>
+                            )}
                           </div>
 
-                          {/* Regenerate Button */}
-                          <div className="absolute top-2 right-2 z-10">
+                          {/* Takes + Regenerate Buttons */}
+                          <div className="absolute top-2 right-2 z-10 flex items-center gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setOpenTakeShotId(openTakeShotId === shot.id ? null : shot.id)}
+                              className={`h-7 px-2 bg-black/70 border-[#444] hover:bg-black/90 font-courier text-xs ${
+                                openTakeShotId === shot.id ? 'text-[#f5c518]' : 'text-[#888] hover:text-white'
+                              }`}
+                            >
+                              <Layers size={12} className="mr-1" />
+                              Takes ({takes.filter((t) => t.shot_id === shot.id).length})
+                            </Button>
                             <Button
                               size="sm"
                               variant="outline"
@@ -515,13 +622,23 @@ export function VideoGenerationDashboard({
                             src={shot.video_url!}
                             className="w-full aspect-video object-contain"
                             controls
-                            preload="metadata"
-                            poster={scene.approved_image_url || undefined}
+                            preload={getVideoPosterUrl(shot) ? 'none' : 'metadata'}
+                            poster={getVideoPosterUrl(shot) || scene.approved_image_url || undefined}
                           />
                         </div>
                       );
                     })}
                   </div>
+
+                  {/* Take comparison for the shot picked above */}
+                  {openTakeShot && (
+                    <ShotTakesPanel
+                      shot={openTakeShot}
+                      takes={takes.filter((t) => t.shot_id === openTakeShot.id)}
+                      posterUrl={scene.approved_image_url}
+                      onClose={() => setOpenTakeShotId(null)}
+                    />
+                  )}
                 </div>
               )}
 
@@ -530,6 +647,8 @@ export function VideoGenerationDashboard({
                 <ShotList
                   sceneId={scene.id}
                   sceneApprovedImageUrl={scene.approved_image_url}
+                  continuityMode={scene.continuity_mode}
+                  characterNames={characterNames}
                   shots={shots}
                   onRefresh={handleRefresh}
                 />
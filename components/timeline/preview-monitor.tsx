@@ -6,7 +6,9 @@
  * Large video player area for previewing selected scene videos.
  * Features:
  * - Shot markers showing all shots in current scene
+ * - Playback limited to each shot's trim points, with a trim scrubber
  * - Sequential auto-play across all shots/scenes
+ * - Transition preview when advancing to the next shot (Next / auto-play)
  * - Scene and shot information overlay
  */
 
@@ -14,13 +16,17 @@ import { useState, useRef, useEffect } from 'react';
 import { Play, Pause, SkipForward } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { DEFAULT_TRANSITION, formatTransition, type Transition } from '@/lib/transitions';
+import type { TrimPoints } from '@/lib/trim';
 import type { TimelineScene, TimelineShot } from '@/app/actions/timeline';
+import { TrimScrubber } from './trim-scrubber';
 
 interface PreviewMonitorProps {
   selectedScene: TimelineScene | null;
   selectedShot: TimelineShot | null;
   allScenes: TimelineScene[];
   onShotChange: (scene: TimelineScene, shot: TimelineShot) => void;
+  onTrimChange: (shotId: string, trim: TrimPoints | null) => void;
   className?: string;
 }
 
@@ -29,27 +35,61 @@ export function PreviewMonitor({
   selectedShot,
   allScenes,
   onShotChange,
+  onTrimChange,
   className
 }: PreviewMonitorProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [autoPlay, setAutoPlay] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
+  // Real length of the loaded clip (the nominal shot length can differ)
+  const [clipDuration, setClipDuration] = useState<number | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const freezeFrameRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // Transition to play when the next shot loads (set when advancing in sequence)
+  const pendingTransitionRef = useRef<Transition | null>(null);
 
-  // Reset playing state when shot changes
+  // Trim points of the current shot
+  const inPoint = selectedShot?.trim_in_seconds ?? 0;
+  const outPoint = selectedShot?.trim_out_seconds ?? null;
+
+  // Reset playing state when the shot, its video, or its in point changes
   useEffect(() => {
     setIsPlaying(false);
-    setCurrentTime(0);
+    setCurrentTime(inPoint);
+    setClipDuration(null);
+
+    const transition = pendingTransitionRef.current;
+    pendingTransitionRef.current = null;
+
     if (videoRef.current) {
-      videoRef.current.pause();
-      videoRef.current.currentTime = 0;
+      const video = videoRef.current;
+      video.pause();
+      video.currentTime = inPoint;
+
+      // A fade to black finishes on the outgoing frame before the next shot starts
+      const delayMs = transition ? previewTransition(transition) : 0;
 
       // Auto-play next shot if auto-play is enabled
       if (autoPlay && selectedShot?.video_url) {
-        void videoRef.current.play();
+        if (delayMs === 0) {
+          void video.play();
+        } else {
+          const timeout = setTimeout(() => void video.play(), delayMs);
+          return () => clearTimeout(timeout);
+        }
       }
     }
-  }, [selectedShot?.id, autoPlay]);
+  }, [selectedShot?.id, selectedShot?.video_url, inPoint, autoPlay]);
+
+  // Start again from the in point once playback is outside the trimmed range
+  const rewindToInPoint = (): void => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.currentTime < inPoint || (outPoint !== null && video.currentTime >= outPoint - 0.01)) {
+      video.currentTime = inPoint;
+    }
+  };
 
   const togglePlayPause = (): void => {
     if (!videoRef.current) return;
@@ -57,6 +97,7 @@ export function PreviewMonitor({
     if (isPlaying) {
       videoRef.current.pause();
     } else {
+      rewindToInPoint();
       void videoRef.current.play();
     }
 
@@ -86,6 +127,112 @@ export function PreviewMonitor({
     }
   };
 
+  const handleLoadedMetadata = (): void => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (Number.isFinite(video.duration)) {
+      setClipDuration(video.duration);
+    }
+    if (video.currentTime < inPoint) {
+      video.currentTime = inPoint;
+    }
+  };
+
+  const handleScrub = (time: number): void => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+      setCurrentTime(time);
+    }
+  };
+
+  // Stop at the out point - timeupdate fires too rarely to catch it on time
+  const endedHandlerRef = useRef(handleVideoEnded);
+  useEffect(() => {
+    endedHandlerRef.current = handleVideoEnded;
+  });
+
+  useEffect(() => {
+    if (!isPlaying || outPoint === null) return;
+
+    let frame = 0;
+    const checkOutPoint = (): void => {
+      const video = videoRef.current;
+      if (video && video.currentTime >= outPoint) {
+        video.pause();
+        endedHandlerRef.current();
+        return;
+      }
+      frame = requestAnimationFrame(checkOutPoint);
+    };
+
+    frame = requestAnimationFrame(checkOutPoint);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, outPoint]);
+
+  // Freeze the outgoing frame and set up the incoming shot's transition
+  const advanceTo = (scene: TimelineScene, shot: TimelineShot): void => {
+    const video = videoRef.current;
+    const canvas = freezeFrameRef.current;
+    if (video && canvas && video.videoWidth > 0) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext('2d')?.drawImage(video, 0, 0);
+    }
+
+    pendingTransitionRef.current = getIncomingTransition(scene, shot, allScenes);
+    onShotChange(scene, shot);
+  };
+
+  // Animate the freeze frame, overlay, and incoming video for a transition
+  // Returns how long to hold the incoming shot before it plays (ms)
+  const previewTransition = (transition: Transition): number => {
+    const video = videoRef.current;
+    const canvas = freezeFrameRef.current;
+    const overlay = overlayRef.current;
+    if (!video || !canvas || !overlay || transition.type === 'cut') return 0;
+
+    const duration = transition.duration * 1000;
+
+    switch (transition.type) {
+      case 'dissolve':
+        canvas.animate([{ opacity: 1 }, { opacity: 0 }], { duration });
+        return 0;
+      case 'dip_to_white':
+        overlay.style.backgroundColor = '#fff';
+        overlay.animate([{ opacity: 0 }, { opacity: 1 }, { opacity: 0 }], { duration });
+        canvas.animate(
+          [{ opacity: 1 }, { opacity: 1, offset: 0.5 }, { opacity: 0, offset: 0.5 }, { opacity: 0 }],
+          { duration }
+        );
+        return 0;
+      case 'whip':
+        canvas.animate(
+          [
+            { opacity: 1, transform: 'translateX(0)', filter: 'blur(0)' },
+            { opacity: 1, transform: 'translateX(-100%)', filter: 'blur(12px)' },
+          ],
+          { duration, easing: 'ease-in' }
+        );
+        video.animate(
+          [
+            { transform: 'translateX(100%)', filter: 'blur(12px)' },
+            { transform: 'translateX(0)', filter: 'blur(0)' },
+          ],
+          { duration, easing: 'ease-out' }
+        );
+        return 0;
+      case 'fade_to_black':
+        overlay.style.backgroundColor = '#000';
+        overlay.animate([{ opacity: 0 }, { opacity: 1 }], { duration });
+        canvas.animate([{ opacity: 1 }, { opacity: 1 }], { duration });
+        return duration;
+      case 'fade_from_black':
+        overlay.style.backgroundColor = '#000';
+        overlay.animate([{ opacity: 1 }, { opacity: 0 }], { duration });
+        return 0;
+    }
+  };
+
   // Find next shot in sequence (across all scenes)
   const playNextShot = (): void => {
     if (!selectedScene || !selectedShot) return;
@@ -95,7 +242,7 @@ export function PreviewMonitor({
     if (currentShotIndex < selectedScene.shots.length - 1) {
       const nextShot = selectedScene.shots[currentShotIndex + 1];
       if (nextShot.video_url) {
-        onShotChange(selectedScene, nextShot);
+        advanceTo(selectedScene, nextShot);
         return;
       }
     }
@@ -106,7 +253,7 @@ export function PreviewMonitor({
       const nextScene = allScenes[currentSceneIndex + 1];
       const firstShotWithVideo = nextScene.shots.find(s => s.video_url);
       if (firstShotWithVideo) {
-        onShotChange(nextScene, firstShotWithVideo);
+        advanceTo(nextScene, firstShotWithVideo);
         return;
       }
     }
@@ -123,15 +270,18 @@ export function PreviewMonitor({
   // Show placeholder if no shot selected or no video available
   const showPlaceholder = !selectedShot || !selectedShot.video_url;
   const showVideo = selectedShot?.video_url && selectedShot.video_status === 'ready';
+  const incomingTransition = selectedScene && selectedShot
+    ? getIncomingTransition(selectedScene, selectedShot, allScenes)
+    : null;
 
   // Calculate shot markers for current scene
   const shotMarkers = selectedScene?.shots.map((shot, index) => {
-    const totalDuration = selectedScene.shots.reduce((sum, s) => sum + s.shot_duration_seconds, 0);
+    const totalDuration = selectedScene.shots.reduce((sum, s) => sum + s.trimmed_duration_seconds, 0);
     const shotStart = selectedScene.shots
       .slice(0, index)
-      .reduce((sum, s) => sum + s.shot_duration_seconds, 0);
+      .reduce((sum, s) => sum + s.trimmed_duration_seconds, 0);
     const position = (shotStart / totalDuration) * 100;
-    const width = (shot.shot_duration_seconds / totalDuration) * 100;
+    const width = (shot.trimmed_duration_seconds / totalDuration) * 100;
 
     return {
       shot,
@@ -147,6 +297,7 @@ export function PreviewMonitor({
       // Enable auto-play and start playing current video
       setAutoPlay(true);
       if (videoRef.current && selectedShot?.video_url) {
+        rewindToInPoint();
         void videoRef.current.play();
       }
     } else {
@@ -193,10 +344,18 @@ export function PreviewMonitor({
             onPlay={handleVideoPlay}
             onPause={handleVideoPause}
             onTimeUpdate={handleTimeUpdate}
+            onLoadedMetadata={handleLoadedMetadata}
             playsInline
           />
         )}
 
+        {/* Transition Preview Layers (outgoing freeze frame, black/white overlay) */}
+        <canvas
+          ref={freezeFrameRef}
+          className="absolute inset-0 w-full h-full object-contain bg-black opacity-0 pointer-events-none"
+        />
+        <div ref={overlayRef} className="absolute inset-0 opacity-0 pointer-events-none" />
+
       {/* Placeholder - No Video */}
       {showPlaceholder && (
         <div className="absolute inset-0 flex items-center justify-center">
@@ -311,8 +470,16 @@ export function PreviewMonitor({
                   </span>
                   <span className="text-white/40">•</span>
                   <span className="text-white/60 font-['Courier'] text-sm">
-                    {selectedShot.shot_duration_seconds}s
+                    {selectedShot.trimmed_duration_seconds}s
                   </span>
+                  {incomingTransition && (
+                    <>
+                      <span className="text-white/40">•</span>
+                      <span className="text-white/60 font-['Courier'] text-sm">
+                        In: {formatTransition(incomingTransition)}
+                      </span>
+                    </>
+                  )}
                   {autoPlay && (
                     <>
                       <span className="text-white/40">•</span>
@@ -334,7 +501,7 @@ export function PreviewMonitor({
                 <div
                   className="absolute h-full bg-[#f5c518] transition-all"
                   style={{
-                    width: `${(currentTime / selectedShot.shot_duration_seconds) * 100}%`,
+                    width: `${Math.min(Math.max((currentTime - inPoint) / selectedShot.trimmed_duration_seconds, 0), 1) * 100}%`,
                   }}
                 />
               </div>
@@ -343,6 +510,39 @@ export function PreviewMonitor({
         </div>
       )}
       </div>
+
+      {/* In/Out Points */}
+      {showVideo && selectedShot && clipDuration && (
+        <TrimScrubber
+          clipDuration={clipDuration}
+          inPoint={inPoint}
+          outPoint={outPoint}
+          currentTime={currentTime}
+          onScrub={handleScrub}
+          onChange={(trim) => onTrimChange(selectedShot.id, trim)}
+        />
+      )}
     </div>
   );
 }
+
+/**
+ * Transition into a shot on the reel: a scene's first playable shot takes the
+ * scene's transition, later shots their own (null at the start of the reel)
+ */
+function getIncomingTransition(
+  scene: TimelineScene,
+  shot: TimelineShot,
+  allScenes: TimelineScene[]
+): Transition | null {
+  const firstShot = scene.shots.find(s => s.video_url) || scene.shots[0];
+  if (shot.id !== firstShot?.id) {
+    return shot.transition_in ?? DEFAULT_TRANSITION;
+  }
+
+  if (allScenes[0]?.id === scene.id) {
+    return null;
+  }
+
+  return scene.transition_in ?? DEFAULT_TRANSITION;
+}
@@ -4,14 +4,17 @@
  * Scene Thumbnail Component
  *
  * Draggable scene card for the timeline sequencer.
- * Shows scene thumbnail, number, and total duration.
+ * Shows scene thumbnail, number, and total duration. Hovering scrubs through
+ * the scene's shots using their sprite sheets (see lib/video-media).
  */
 
+import { useState, type MouseEvent } from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { GripVertical, Film, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { TimelineScene } from '@/app/actions/timeline';
+import { getSpriteTileStyle } from '@/lib/video-media';
+import type { TimelineScene, TimelineShot } from '@/app/actions/timeline';
 
 interface SceneThumbnailProps {
   scene: TimelineScene;
@@ -28,22 +31,35 @@ export function SceneThumbnail({ scene, isSelected, onClick }: SceneThumbnailPro
     transition,
     isDragging,
   } = useSortable({ id: scene.id });
+  const [scrubFraction, setScrubFraction] = useState<number | null>(null);
 
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
   };
 
-  // Calculate total scene duration from all shots
-  const totalDuration = scene.shots.reduce((sum, shot) => sum + shot.shot_duration_seconds, 0);
+  // Calculate total scene duration from all (trimmed) shots
+  const totalDuration = Math.round(
+    scene.shots.reduce((sum, shot) => sum + shot.trimmed_duration_seconds, 0) * 10
+  ) / 10;
 
   // Check if all shots have videos ready
   const allVideosReady = scene.shots.every(
     shot => shot.video_status === 'ready' || shot.video_status === 'approved'
   );
 
-  // Get thumbnail image (use approved_image_url or first shot's start frame)
-  const thumbnailUrl = scene.approved_image_url || scene.shots[0]?.start_frame_image_url;
+  // Get thumbnail image (first shot's poster, approved_image_url, or first shot's start frame)
+  const thumbnailUrl =
+    scene.shots[0]?.poster_url || scene.approved_image_url || scene.shots[0]?.start_frame_image_url;
+
+  const scrubStyle = scrubFraction !== null ? getScrubStyle(scene.shots, scrubFraction * totalDuration) : null;
+  const canScrub = scene.shots.some((shot) => shot.scrub_sprite);
+
+  const handleMouseMove = (event: MouseEvent<HTMLDivElement>) => {
+    if (!canScrub || isDragging) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    setScrubFraction(Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)));
+  };
 
   return (
     <div
@@ -58,6 +74,8 @@ export function SceneThumbnail({ scene, isSelected, onClick }: SceneThumbnailPro
         !isDragging && 'cursor-move'
       )}
       onClick={onClick}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setScrubFraction(null)}
     >
       {/* Drag Handle */}
       <div
@@ -69,7 +87,15 @@ export function SceneThumbnail({ scene, isSelected, onClick }: SceneThumbnailPro
       </div>
 
       {/* Thumbnail Image */}
-      {thumbnailUrl ? (
+      {scrubStyle ? (
+        <>
+          <div className="w-full h-full bg-no-repeat bg-black" style={scrubStyle} />
+          <div
+            className="absolute top-0 left-0 h-0.5 bg-[#f5c518]"
+            style={{ width: `${(scrubFraction ?? 0) * 100}%` }}
+          />
+        </>
+      ) : thumbnailUrl ? (
         <img
           src={thumbnailUrl}
           alt={scene.slugline}
@@ -126,3 +152,21 @@ export function SceneThumbnail({ scene, isSelected, onClick }: SceneThumbnailPro
     </div>
   );
 }
+
+/**
+ * Sprite tile for a moment of the scene, walking the shots' trimmed lengths
+ * Null when the shot playing at that moment has no sprite.
+ */
+function getScrubStyle(shots: TimelineShot[], sceneSeconds: number) {
+  let elapsed = 0;
+  for (const [index, shot] of shots.entries()) {
+    const isLast = index === shots.length - 1;
+    if (sceneSeconds < elapsed + shot.trimmed_duration_seconds || isLast) {
+      if (!shot.scrub_sprite) return null;
+      const clipSeconds = (shot.trim_in_seconds ?? 0) + Math.max(0, sceneSeconds - elapsed);
+      return getSpriteTileStyle(shot.scrub_sprite, clipSeconds);
+    }
+    elapsed += shot.trimmed_duration_seconds;
+  }
+  return null;
+}
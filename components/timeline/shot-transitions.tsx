@@ -0,0 +1,71 @@
+'use client';
+
+/**
+ * Shot Transitions Component
+ *
+ * The cuts between the selected scene's shots, each with a transition picker.
+ */
+
+import { Fragment } from 'react';
+import { cn } from '@/lib/utils';
+import { TransitionPicker } from './transition-picker';
+import type { TimelineScene, TimelineShot } from '@/app/actions/timeline';
+import type { Transition } from '@/lib/transitions';
+
+interface ShotTransitionsProps {
+  scene: TimelineScene | null;
+  selectedShotId: string | null;
+  onShotSelect: (scene: TimelineScene, shot: TimelineShot) => void;
+  onShotTransitionChange: (shotId: string, transition: Transition | null) => void;
+}
+
+export function ShotTransitions({
+  scene,
+  selectedShotId,
+  onShotSelect,
+  onShotTransitionChange,
+}: ShotTransitionsProps) {
+  if (!scene || scene.shots.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="w-full">
+      <div className="mb-3 flex items-baseline gap-3">
+        <h2 className="text-[#f5c518] font-['Oswald'] text-xl uppercase tracking-wider">
+          Shot Cuts
+        </h2>
+        <span className="text-white/40 font-['Courier'] text-sm">Scene {scene.scene_number}</span>
+      </div>
+
+      <div className="overflow-x-auto pb-2">
+        <div className="flex items-center gap-3 min-w-min font-['Courier']">
+          {scene.shots.map((shot, index) => (
+            <Fragment key={shot.id}>
+              {index > 0 && (
+                <TransitionPicker
+                  value={shot.transition_in}
+                  onChange={(transition) => onShotTransitionChange(shot.id, transition)}
+                  label={`Shot ${shot.shot_number}`}
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => onShotSelect(scene, shot)}
+                className={cn(
+                  'px-3 py-2 rounded border text-sm whitespace-nowrap transition-colors',
+                  shot.id === selectedShotId
+                    ? 'border-[#f5c518] text-[#f5c518] bg-[#f5c518]/10'
+                    : 'border-[#333] text-white/70 bg-[#1c1c1f] hover:border-[#f5c518]/60'
+                )}
+              >
+                Shot {shot.shot_number}
+                <span className="ml-2 text-white/40">{shot.trimmed_duration_seconds}s</span>
+              </button>
+            </Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -38,8 +38,8 @@ export function TimelineControls({
 
   // Format duration (seconds to MM:SS)
   const formatDuration = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    const mins = Math.floor(Math.round(seconds) / 60);
+    const secs = Math.round(seconds) % 60;
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
@@ -97,7 +97,9 @@ export function TimelineControls({
               shot => shot.video_status === 'ready' || shot.video_status === 'approved'
             );
             const sceneGenerating = scene.shots.some(shot => shot.video_status === 'generating');
-            const sceneDuration = scene.shots.reduce((sum, shot) => sum + shot.shot_duration_seconds, 0);
+            const sceneDuration = Math.round(
+              scene.shots.reduce((sum, shot) => sum + shot.trimmed_duration_seconds, 0) * 10
+            ) / 10;
 
             return (
               <div
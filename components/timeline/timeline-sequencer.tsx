@@ -5,9 +5,10 @@
  *
  * Horizontal drag-and-drop scene track for the timeline.
  * Uses @dnd-kit for sortable functionality with optimistic updates.
+ * A transition picker sits at each scene boundary.
  */
 
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useEffect } from 'react';
 import {
   DndContext,
   closestCenter,
@@ -24,8 +25,10 @@ import {
   horizontalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { SceneThumbnail } from './scene-thumbnail';
+import { TransitionPicker } from './transition-picker';
 import { updateSceneOrder } from '@/app/actions/timeline';
 import type { TimelineScene } from '@/app/actions/timeline';
+import type { Transition } from '@/lib/transitions';
 import { Flag } from 'lucide-react';
 
 interface TimelineSequencerProps {
@@ -33,6 +36,7 @@ interface TimelineSequencerProps {
   projectId: string;
   selectedSceneId: string | null;
   onSceneSelect: (scene: TimelineScene) => void;
+  onSceneTransitionChange: (sceneId: string, transition: Transition | null) => void;
 }
 
 export function TimelineSequencer({
@@ -40,6 +44,7 @@ export function TimelineSequencer({
   projectId,
   selectedSceneId,
   onSceneSelect,
+  onSceneTransitionChange,
 }: TimelineSequencerProps) {
   const [orderedScenes, setOrderedScenes] = useState<TimelineScene[]>(scenes);
 
@@ -112,14 +117,23 @@ export function TimelineSequencer({
               items={orderedScenes.map((s) => s.id)}
               strategy={horizontalListSortingStrategy}
             >
-              <div className="flex gap-4 min-w-min">
-                {orderedScenes.map((scene) => (
-                  <SceneThumbnail
-                    key={scene.id}
-                    scene={scene}
-                    isSelected={scene.id === selectedSceneId}
-                    onClick={() => onSceneSelect(scene)}
-                  />
+              <div className="flex items-center gap-4 min-w-min">
+                {orderedScenes.map((scene, index) => (
+                  <Fragment key={scene.id}>
+                    {/* Transition from the previous scene */}
+                    {index > 0 && (
+                      <TransitionPicker
+                        value={scene.transition_in}
+                        onChange={(transition) => onSceneTransitionChange(scene.id, transition)}
+                        label={`Scene ${scene.scene_number}`}
+                      />
+                    )}
+                    <SceneThumbnail
+                      scene={scene}
+                      isSelected={scene.id === selectedSceneId}
+                      onClick={() => onSceneSelect(scene)}
+                    />
+                  </Fragment>
                 ))}
 
                 {/* End of Reel Marker */}
@@ -0,0 +1,130 @@
+'use client';
+
+/**
+ * Transition Picker Component
+ *
+ * Small dropdown for the transition at one cut (scene or shot boundary).
+ * Unset cuts show the default transition, dimmed.
+ */
+
+import { Blend, Scissors, Sun, Sunrise, Sunset, Wind, type LucideIcon } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_TRANSITION,
+  DEFAULT_TRANSITION_SECONDS,
+  TRANSITION_LABELS,
+  TRANSITION_TYPES,
+  type Transition,
+  type TransitionType,
+} from '@/lib/transitions';
+
+const TRANSITION_ICONS: Record<TransitionType, LucideIcon> = {
+  cut: Scissors,
+  dissolve: Blend,
+  fade_to_black: Sunset,
+  fade_from_black: Sunrise,
+  dip_to_white: Sun,
+  whip: Wind,
+};
+
+const DURATION_PRESETS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3];
+
+interface TransitionPickerProps {
+  /** Stored transition (null = default) */
+  value: Transition | null;
+  onChange: (transition: Transition | null) => void;
+  /** Describes the cut, e.g. "Scene 2" */
+  label: string;
+  className?: string;
+}
+
+export function TransitionPicker({ value, onChange, label, className }: TransitionPickerProps) {
+  const transition = value ?? DEFAULT_TRANSITION;
+  const Icon = TRANSITION_ICONS[transition.type];
+  const durations = DURATION_PRESETS.includes(transition.duration)
+    ? DURATION_PRESETS
+    : [...DURATION_PRESETS, transition.duration].sort((a, b) => a - b);
+
+  const handleTypeChange = (type: string): void => {
+    const nextType = type as TransitionType;
+    if (nextType === transition.type && value) return;
+    onChange({ type: nextType, duration: DEFAULT_TRANSITION_SECONDS[nextType] });
+  };
+
+  return (
+    <DropdownMenu modal={false}>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          title={`Transition into ${label}`}
+          className={cn(
+            'flex flex-col items-center gap-1 px-2 py-1 rounded border transition-colors',
+            value
+              ? 'border-[#f5c518]/60 text-[#f5c518] bg-[#f5c518]/10 hover:bg-[#f5c518]/20'
+              : 'border-[#333] text-white/40 bg-black/40 hover:text-white/70 hover:border-[#f5c518]/40',
+            className
+          )}
+        >
+          <Icon className="w-4 h-4" />
+          <span className="font-['Courier'] text-[10px] leading-none whitespace-nowrap">
+            {transition.type === 'cut' ? 'Cut' : `${transition.duration}s`}
+          </span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="center" className="w-52">
+        <DropdownMenuLabel className="font-['Oswald'] uppercase tracking-wider text-xs">
+          Into {label}
+        </DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={transition.type} onValueChange={handleTypeChange}>
+          {TRANSITION_TYPES.map((type) => {
+            const TypeIcon = TRANSITION_ICONS[type];
+            return (
+              <DropdownMenuRadioItem key={type} value={type} className="flex gap-2">
+                <TypeIcon className="w-4 h-4 text-muted-foreground" />
+                <span>{TRANSITION_LABELS[type]}</span>
+              </DropdownMenuRadioItem>
+            );
+          })}
+        </DropdownMenuRadioGroup>
+
+        {transition.type !== 'cut' && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="font-['Oswald'] uppercase tracking-wider text-xs">
+              Duration
+            </DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={String(transition.duration)}
+              onValueChange={(duration) => onChange({ type: transition.type, duration: Number(duration) })}
+            >
+              {durations.map((duration) => (
+                <DropdownMenuRadioItem key={duration} value={String(duration)}>
+                  {duration}s
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </>
+        )}
+
+        {value && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => onChange(null)}>
+              Reset to default ({TRANSITION_LABELS[DEFAULT_TRANSITION.type]} {DEFAULT_TRANSITION.duration}s)
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
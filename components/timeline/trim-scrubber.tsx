@@ -0,0 +1,197 @@
+'use client';
+
+/**
+ * Trim Scrubber Component
+ *
+ * In/out point editor for the shot in the preview monitor. Dragging a handle
+ * scrubs the preview to that frame; the points are saved on release.
+ */
+
+import { useRef, useState, type PointerEvent } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { MIN_TRIMMED_SECONDS, snapToFrame, type TrimPoints } from '@/lib/trim';
+
+interface TrimScrubberProps {
+  /** Real length of the loaded clip */
+  clipDuration: number;
+  inPoint: number;
+  /** Null = the end of the clip */
+  outPoint: number | null;
+  /** Preview playhead */
+  currentTime: number;
+  onScrub: (time: number) => void;
+  onChange: (trim: TrimPoints | null) => void;
+}
+
+type Handle = 'in' | 'out';
+
+export function TrimScrubber({
+  clipDuration,
+  inPoint,
+  outPoint,
+  currentTime,
+  onScrub,
+  onChange,
+}: TrimScrubberProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  // Points being dragged (saved on release)
+  const [draft, setDraft] = useState<{ handle: Handle; inPoint: number; outPoint: number } | null>(null);
+
+  const shownIn = draft?.inPoint ?? inPoint;
+  const shownOut = draft?.outPoint ?? Math.min(outPoint ?? clipDuration, clipDuration);
+  const isTrimmed = inPoint > 0 || outPoint !== null;
+
+  const percent = (time: number): string => `${(time / clipDuration) * 100}%`;
+
+  const timeAt = (clientX: number): number => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const fraction = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return snapToFrame(fraction * clipDuration);
+  };
+
+  const commit = (nextIn: number, nextOut: number): void => {
+    // An out point on the last frame is the clip end
+    const atEnd = nextOut >= clipDuration - 1 / 48;
+    if (nextIn <= 0 && atEnd) {
+      onChange(null);
+    } else {
+      onChange({ inSeconds: Math.max(nextIn, 0), outSeconds: atEnd ? null : nextOut });
+    }
+  };
+
+  const handlePointerDown = (handle: Handle) => (e: PointerEvent<HTMLDivElement>): void => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({ handle, inPoint: shownIn, outPoint: shownOut });
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>): void => {
+    if (!draft) return;
+    const time = timeAt(e.clientX);
+
+    if (draft.handle === 'in') {
+      const nextIn = Math.max(0, Math.min(time, draft.outPoint - MIN_TRIMMED_SECONDS));
+      setDraft({ ...draft, inPoint: nextIn });
+      onScrub(nextIn);
+    } else {
+      const nextOut = Math.min(clipDuration, Math.max(time, draft.inPoint + MIN_TRIMMED_SECONDS));
+      setDraft({ ...draft, outPoint: nextOut });
+      onScrub(nextOut);
+    }
+  };
+
+  const handlePointerUp = (): void => {
+    if (!draft) return;
+    // A click on a handle without moving it saves nothing
+    const storedOut = Math.min(outPoint ?? clipDuration, clipDuration);
+    if (draft.inPoint !== inPoint || draft.outPoint !== storedOut) {
+      commit(draft.inPoint, draft.outPoint);
+    }
+    setDraft(null);
+  };
+
+  const setInAtPlayhead = (): void => {
+    commit(Math.min(snapToFrame(currentTime), shownOut - MIN_TRIMMED_SECONDS), shownOut);
+  };
+
+  const setOutAtPlayhead = (): void => {
+    commit(shownIn, Math.max(snapToFrame(currentTime), shownIn + MIN_TRIMMED_SECONDS));
+  };
+
+  return (
+    <div className="bg-[#1c1c1f] border border-[#333] rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-[#f5c518] font-['Oswald'] text-sm uppercase tracking-wider">Trim</h3>
+        <div className="flex items-center gap-3 text-white/60 font-['Courier'] text-xs">
+          <span>In {formatTime(shownIn)}</span>
+          <span className="text-white/40">•</span>
+          <span>Out {formatTime(shownOut)}</span>
+          <span className="text-white/40">•</span>
+          <span className="text-white">{(shownOut - shownIn).toFixed(2)}s</span>
+        </div>
+      </div>
+
+      {/* Track: click to scrub, drag the handles to trim */}
+      <div
+        ref={trackRef}
+        className="relative h-10 bg-black/40 rounded cursor-pointer select-none touch-none"
+        onPointerDown={(e) => onScrub(timeAt(e.clientX))}
+      >
+        {/* Kept range */}
+        <div
+          className="absolute inset-y-0 bg-[#f5c518]/15 border-y border-[#f5c518]/60"
+          style={{ left: percent(shownIn), width: percent(shownOut - shownIn) }}
+        />
+
+        {/* Playhead */}
+        <div
+          className="absolute inset-y-0 w-px bg-white pointer-events-none"
+          style={{ left: percent(Math.min(currentTime, clipDuration)) }}
+        />
+
+        {(['in', 'out'] as const).map((handle) => (
+          <div
+            key={handle}
+            role="slider"
+            aria-label={handle === 'in' ? 'In point' : 'Out point'}
+            aria-valuemin={0}
+            aria-valuemax={clipDuration}
+            aria-valuenow={handle === 'in' ? shownIn : shownOut}
+            className={cn(
+              'absolute inset-y-0 w-3 bg-[#f5c518] cursor-ew-resize hover:bg-[#f5c518]/80',
+              handle === 'in' ? '-translate-x-full rounded-l' : 'rounded-r',
+              draft?.handle === handle && 'bg-white'
+            )}
+            style={{ left: percent(handle === 'in' ? shownIn : shownOut) }}
+            onPointerDown={handlePointerDown(handle)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => setDraft(null)}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={setInAtPlayhead}
+          className="border-[#333] text-white hover:bg-black/40 font-['Courier'] text-xs"
+        >
+          Set In
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={setOutAtPlayhead}
+          className="border-[#333] text-white hover:bg-black/40 font-['Courier'] text-xs"
+        >
+          Set Out
+        </Button>
+        {isTrimmed && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => onChange(null)}
+            className="text-white/60 hover:text-white hover:bg-black/40 font-['Courier'] text-xs"
+          >
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Full Clip
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Seconds as M:SS.ss
+ */
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds - mins * 60).toFixed(2).padStart(5, '0');
+  return `${mins}:${secs}`;
+}
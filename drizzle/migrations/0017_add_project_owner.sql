@@ -0,0 +1,12 @@
+-- Custom SQL migration file, put your code below! --
+-- Add owner_id to projects so every server action can enforce per-user access
+
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "owner_id" uuid;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "project_owner_id_idx" ON "projects" USING btree ("owner_id");--> statement-breakpoint
+
+-- Backfill from the screenplay storage path, which has always been "<userId>/<timestamp>/<filename>"
+-- Projects uploaded as "anonymous/..." keep a NULL owner and are no longer reachable from the app
+UPDATE "projects"
+SET "owner_id" = split_part("screenplay_storage_path", '/', 1)::uuid
+WHERE "owner_id" IS NULL
+  AND split_part("screenplay_storage_path", '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
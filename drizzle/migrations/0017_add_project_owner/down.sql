@@ -0,0 +1,5 @@
+-- Down Migration: Remove project ownership
+-- Migration: 0017_add_project_owner
+
+DROP INDEX IF EXISTS "project_owner_id_idx";
+ALTER TABLE "projects" DROP COLUMN IF EXISTS "owner_id";
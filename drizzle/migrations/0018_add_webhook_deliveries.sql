@@ -0,0 +1,10 @@
+-- Custom SQL migration file, put your code below! --
+-- Track verified n8n callback signatures for replay protection
+
+CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+	"signature" text PRIMARY KEY NOT NULL,
+	"path" text NOT NULL,
+	"received_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_delivery_received_at_idx" ON "webhook_deliveries" USING btree ("received_at");
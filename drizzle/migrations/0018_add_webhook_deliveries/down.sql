@@ -0,0 +1,5 @@
+-- Down Migration: Remove webhook replay protection table
+-- Migration: 0018_add_webhook_deliveries
+
+DROP INDEX IF EXISTS "webhook_delivery_received_at_idx";
+DROP TABLE IF EXISTS "webhook_deliveries";
@@ -0,0 +1,28 @@
+-- Custom SQL migration file, put your code below! --
+-- Durable background job queue (scene generation, auto Bible images, video batches, assembly)
+
+CREATE TYPE "public"."job_type" AS ENUM('scene_generation', 'bible_auto_generation', 'shot_video_batch', 'final_assembly');--> statement-breakpoint
+CREATE TYPE "public"."job_status" AS ENUM('queued', 'running', 'succeeded', 'failed');--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "background_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"type" "job_type" NOT NULL,
+	"status" "job_status" DEFAULT 'queued' NOT NULL,
+	"payload" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"result" jsonb,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"last_error" text,
+	"run_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"locked_by" text,
+	"locked_until" timestamp with time zone,
+	"heartbeat_at" timestamp with time zone,
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "background_jobs" ADD CONSTRAINT "background_jobs_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "background_job_status_run_at_idx" ON "background_jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "background_job_project_id_idx" ON "background_jobs" USING btree ("project_id");
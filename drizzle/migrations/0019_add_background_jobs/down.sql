@@ -0,0 +1,8 @@
+-- Down Migration: Remove background job queue
+-- Migration: 0019_add_background_jobs
+
+DROP INDEX IF EXISTS "background_job_project_id_idx";
+DROP INDEX IF EXISTS "background_job_status_run_at_idx";
+DROP TABLE IF EXISTS "background_jobs";
+DROP TYPE IF EXISTS "public"."job_status";
+DROP TYPE IF EXISTS "public"."job_type";
@@ -0,0 +1,15 @@
+-- Custom SQL migration file, put your code below! --
+-- Per-deployment overrides for the n8n workflow registry
+
+CREATE TABLE IF NOT EXISTS "n8n_workflows" (
+	"name" text PRIMARY KEY NOT NULL,
+	"n8n_workflow_id" text,
+	"webhook_url" text,
+	"webhook_method" text,
+	"active" boolean,
+	"stage" text,
+	"description" text,
+	"required_inputs" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
@@ -0,0 +1,4 @@
+-- Down Migration: Remove n8n workflow registry overrides
+-- Migration: 0020_add_n8n_workflows
+
+DROP TABLE IF EXISTS "n8n_workflows";
@@ -0,0 +1,20 @@
+-- Custom SQL migration file, put your code below! --
+-- User-defined visual style presets; projects.visual_style becomes free text
+
+CREATE TABLE IF NOT EXISTS "style_presets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"prompt_fragment" text NOT NULL,
+	"negative_prompt" text,
+	"color_palette" text[] DEFAULT '{}' NOT NULL,
+	"reference_image_urls" text[] DEFAULT '{}' NOT NULL,
+	"model_overrides" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "style_preset_owner_id_idx" ON "style_presets" USING btree ("owner_id");--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "style_preset_id" uuid;--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_style_preset_id_style_presets_id_fk" FOREIGN KEY ("style_preset_id") REFERENCES "public"."style_presets"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "projects" ALTER COLUMN "visual_style" SET DATA TYPE text USING "visual_style"::text;--> statement-breakpoint
+DROP TYPE IF EXISTS "public"."visual_style";
@@ -0,0 +1,15 @@
+-- Down Migration: Remove style presets
+-- Migration: 0021_add_style_presets
+-- Projects on a custom preset fall back to the first built-in style
+
+CREATE TYPE "public"."visual_style" AS ENUM('wes-anderson', 'classic-noir', '70s-crime-drama');
+
+UPDATE "projects" SET "visual_style" = 'wes-anderson'
+WHERE "visual_style" NOT IN ('wes-anderson', 'classic-noir', '70s-crime-drama');
+
+ALTER TABLE "projects" ALTER COLUMN "visual_style" SET DATA TYPE "public"."visual_style" USING "visual_style"::"public"."visual_style";
+
+ALTER TABLE "projects" DROP CONSTRAINT IF EXISTS "projects_style_preset_id_style_presets_id_fk";
+ALTER TABLE "projects" DROP COLUMN IF EXISTS "style_preset_id";
+
+DROP TABLE IF EXISTS "style_presets";
@@ -0,0 +1,7 @@
+-- Custom SQL migration file, put your code below! --
+-- Scene audio tracks: what was asked for, uploads, and a last-change timestamp for the reconciler
+
+ALTER TABLE "scene_audio" ADD COLUMN IF NOT EXISTS "script_text" text;--> statement-breakpoint
+ALTER TABLE "scene_audio" ADD COLUMN IF NOT EXISTS "audio_description" text;--> statement-breakpoint
+ALTER TABLE "scene_audio" ADD COLUMN IF NOT EXISTS "is_uploaded" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "scene_audio" ADD COLUMN IF NOT EXISTS "updated_at" timestamp with time zone DEFAULT now() NOT NULL;
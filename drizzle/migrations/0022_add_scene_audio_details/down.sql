@@ -0,0 +1,7 @@
+-- Down Migration: Remove scene audio track details
+-- Migration: 0022_add_scene_audio_details
+
+ALTER TABLE "scene_audio" DROP COLUMN IF EXISTS "updated_at";
+ALTER TABLE "scene_audio" DROP COLUMN IF EXISTS "is_uploaded";
+ALTER TABLE "scene_audio" DROP COLUMN IF EXISTS "audio_description";
+ALTER TABLE "scene_audio" DROP COLUMN IF EXISTS "script_text";
@@ -0,0 +1,4 @@
+-- Custom SQL migration file, put your code below! --
+-- Per-project choice of final reel assembly engine (null = ASSEMBLY_BACKEND env default)
+
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "assembly_backend" text;
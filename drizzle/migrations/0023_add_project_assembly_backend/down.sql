@@ -0,0 +1,4 @@
+-- Down Migration: Remove per-project assembly backend
+-- Migration: 0023_add_project_assembly_backend
+
+ALTER TABLE "projects" DROP COLUMN IF EXISTS "assembly_backend";
@@ -0,0 +1,8 @@
+-- Custom SQL migration file, put your code below! --
+-- Per-cut transitions: the transition into each scene and shot from the previous one (null = default dissolve)
+
+CREATE TYPE "public"."transition_type" AS ENUM('cut', 'dissolve', 'fade_to_black', 'fade_from_black', 'dip_to_white', 'whip');--> statement-breakpoint
+ALTER TABLE "scenes" ADD COLUMN IF NOT EXISTS "transition_in" "transition_type";--> statement-breakpoint
+ALTER TABLE "scenes" ADD COLUMN IF NOT EXISTS "transition_in_seconds" real;--> statement-breakpoint
+ALTER TABLE "scene_shots" ADD COLUMN IF NOT EXISTS "transition_in" "transition_type";--> statement-breakpoint
+ALTER TABLE "scene_shots" ADD COLUMN IF NOT EXISTS "transition_in_seconds" real;
@@ -0,0 +1,8 @@
+-- Down Migration: Remove per-cut transitions
+-- Migration: 0024_add_cut_transitions
+
+ALTER TABLE "scene_shots" DROP COLUMN IF EXISTS "transition_in_seconds";
+ALTER TABLE "scene_shots" DROP COLUMN IF EXISTS "transition_in";
+ALTER TABLE "scenes" DROP COLUMN IF EXISTS "transition_in_seconds";
+ALTER TABLE "scenes" DROP COLUMN IF EXISTS "transition_in";
+DROP TYPE IF EXISTS "public"."transition_type";
@@ -0,0 +1,5 @@
+-- Custom SQL migration file, put your code below! --
+-- Per-shot in/out points, in seconds from the clip start (null = clip start / end)
+
+ALTER TABLE "scene_shots" ADD COLUMN IF NOT EXISTS "trim_in_seconds" real;--> statement-breakpoint
+ALTER TABLE "scene_shots" ADD COLUMN IF NOT EXISTS "trim_out_seconds" real;
@@ -0,0 +1,5 @@
+-- Down Migration: Remove shot trim points
+-- Migration: 0025_add_shot_trim_points
+
+ALTER TABLE "scene_shots" DROP COLUMN IF EXISTS "trim_out_seconds";
+ALTER TABLE "scene_shots" DROP COLUMN IF EXISTS "trim_in_seconds";
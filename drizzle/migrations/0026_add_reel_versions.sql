@@ -0,0 +1,17 @@
+-- Custom SQL migration file, put your code below! --
+-- Every assembly creates a new, immutable reel version recording what it rendered;
+-- share links can point at one version (null = the latest ready reel)
+
+ALTER TABLE "final_reels" ADD COLUMN IF NOT EXISTS "version_number" integer;--> statement-breakpoint
+ALTER TABLE "final_reels" ADD COLUMN IF NOT EXISTS "label" text;--> statement-breakpoint
+ALTER TABLE "final_reels" ADD COLUMN IF NOT EXISTS "manifest" jsonb;--> statement-breakpoint
+UPDATE "final_reels" SET "version_number" = "numbered"."version_number"
+FROM (
+	SELECT "id", row_number() OVER (PARTITION BY "project_id" ORDER BY "created_at", "id") AS "version_number"
+	FROM "final_reels"
+) AS "numbered"
+WHERE "final_reels"."id" = "numbered"."id" AND "final_reels"."version_number" IS NULL;--> statement-breakpoint
+ALTER TABLE "final_reels" ALTER COLUMN "version_number" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "final_reel_project_version_idx" ON "final_reels" USING btree ("project_id","version_number");--> statement-breakpoint
+ALTER TABLE "share_links" ADD COLUMN IF NOT EXISTS "reel_id" uuid;--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_reel_id_final_reels_id_fk" FOREIGN KEY ("reel_id") REFERENCES "public"."final_reels"("id") ON DELETE set null ON UPDATE no action;
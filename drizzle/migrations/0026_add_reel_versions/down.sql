@@ -0,0 +1,11 @@
+-- Down Migration: Remove reel versions
+-- Migration: 0026_add_reel_versions
+-- Projects keep every version row; the app only reads the newest one again
+
+ALTER TABLE "share_links" DROP CONSTRAINT IF EXISTS "share_links_reel_id_final_reels_id_fk";
+ALTER TABLE "share_links" DROP COLUMN IF EXISTS "reel_id";
+
+DROP INDEX IF EXISTS "final_reel_project_version_idx";
+ALTER TABLE "final_reels" DROP COLUMN IF EXISTS "manifest";
+ALTER TABLE "final_reels" DROP COLUMN IF EXISTS "label";
+ALTER TABLE "final_reels" DROP COLUMN IF EXISTS "version_number";
@@ -0,0 +1,9 @@
+-- Custom SQL migration file, put your code below! --
+-- Caption cues per reel version, plus a copy of the reel with the captions
+-- burned in (rendered by the caption_burn_in background job)
+
+ALTER TYPE "public"."job_type" ADD VALUE IF NOT EXISTS 'caption_burn_in';--> statement-breakpoint
+ALTER TABLE "final_reels" ADD COLUMN IF NOT EXISTS "captions" jsonb;--> statement-breakpoint
+ALTER TABLE "final_reels" ADD COLUMN IF NOT EXISTS "captioned_video_url" text;--> statement-breakpoint
+ALTER TABLE "final_reels" ADD COLUMN IF NOT EXISTS "captioned_video_status" "asset_status";--> statement-breakpoint
+ALTER TABLE "final_reels" ADD COLUMN IF NOT EXISTS "captioned_error_message" text;
@@ -0,0 +1,9 @@
+-- Down Migration: Remove reel captions
+-- Migration: 0027_add_reel_captions
+-- Postgres can't drop an enum value - 'caption_burn_in' stays in job_type
+-- (delete any caption_burn_in jobs before rolling back the app)
+
+ALTER TABLE "final_reels" DROP COLUMN IF EXISTS "captioned_error_message";
+ALTER TABLE "final_reels" DROP COLUMN IF EXISTS "captioned_video_status";
+ALTER TABLE "final_reels" DROP COLUMN IF EXISTS "captioned_video_url";
+ALTER TABLE "final_reels" DROP COLUMN IF EXISTS "captions";
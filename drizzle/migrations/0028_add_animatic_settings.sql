@@ -0,0 +1,4 @@
+-- Custom SQL migration file, put your code below! --
+-- Per-project animatic settings (Ken Burns motion, zoom, on-screen text)
+
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "animatic_settings" jsonb;
@@ -0,0 +1,4 @@
+-- Down Migration: Remove animatic settings
+-- Migration: 0028_add_animatic_settings
+
+ALTER TABLE "projects" DROP COLUMN IF EXISTS "animatic_settings";
@@ -0,0 +1,4 @@
+-- Custom SQL migration file, put your code below! --
+-- Project-wide aspect ratio / delivery format (16:9, 9:16, 1:1, 2.39:1)
+
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "format" text DEFAULT '16:9' NOT NULL;
@@ -0,0 +1,4 @@
+-- Down Migration: Remove project format
+-- Migration: 0029_add_project_format
+
+ALTER TABLE "projects" DROP COLUMN IF EXISTS "format";
@@ -0,0 +1,28 @@
+-- Custom SQL migration file, put your code below! --
+-- Every Veo generation of a shot is kept as a take; the selected take's video
+-- stays on scene_shots. Existing shot videos become take 1, selected.
+
+CREATE TABLE IF NOT EXISTS "shot_takes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shot_id" uuid NOT NULL,
+	"take_number" integer NOT NULL,
+	"video_url" text,
+	"video_storage_path" text,
+	"prompt" text,
+	"status" text DEFAULT 'generating' NOT NULL,
+	"is_selected" boolean DEFAULT false NOT NULL,
+	"flag" text,
+	"veo_task_id" text,
+	"video_job_id" text,
+	"error_message" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+ALTER TABLE "shot_takes" ADD CONSTRAINT "shot_takes_shot_id_scene_shots_id_fk" FOREIGN KEY ("shot_id") REFERENCES "public"."scene_shots"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "shot_take_shot_id_idx" ON "shot_takes" USING btree ("shot_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "shot_take_status_idx" ON "shot_takes" USING btree ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "shot_take_is_selected_idx" ON "shot_takes" USING btree ("is_selected");--> statement-breakpoint
+INSERT INTO "shot_takes" ("shot_id", "take_number", "video_url", "video_storage_path", "status", "is_selected", "veo_task_id", "created_at", "updated_at")
+SELECT "id", 1, "video_url", "video_storage_path", 'ready', true, "veo_task_id", "updated_at", "updated_at"
+FROM "scene_shots"
+WHERE "video_url" IS NOT NULL;
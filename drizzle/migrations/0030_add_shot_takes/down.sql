@@ -0,0 +1,5 @@
+-- Down Migration: Remove shot takes
+-- Migration: 0030_add_shot_takes
+-- Shots keep their selected take's video
+
+DROP TABLE IF EXISTS "shot_takes";
@@ -0,0 +1,8 @@
+-- Custom SQL migration file, put your code below! --
+-- Each take records the inputs it was generated from (scene image, start/end
+-- frames, the extended take) so changed upstream assets mark it stale, and
+-- stale regenerations can replace the selected take when they finish
+
+ALTER TYPE "public"."job_type" ADD VALUE IF NOT EXISTS 'stale_shot_regeneration';--> statement-breakpoint
+ALTER TABLE "shot_takes" ADD COLUMN IF NOT EXISTS "sources" jsonb;--> statement-breakpoint
+ALTER TABLE "shot_takes" ADD COLUMN IF NOT EXISTS "replaces_selection" boolean DEFAULT false NOT NULL;
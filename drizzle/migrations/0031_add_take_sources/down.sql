@@ -0,0 +1,7 @@
+-- Down Migration: Remove take sources
+-- Migration: 0031_add_take_sources
+-- Postgres can't drop an enum value - 'stale_shot_regeneration' stays in job_type
+-- (delete any stale_shot_regeneration jobs before rolling back the app)
+
+ALTER TABLE "shot_takes" DROP COLUMN IF EXISTS "replaces_selection";
+ALTER TABLE "shot_takes" DROP COLUMN IF EXISTS "sources";
@@ -0,0 +1,9 @@
+-- Custom SQL migration file, put your code below! --
+-- Keyframe continuity: scenes can chain each shot's end frame (or the last
+-- frame of its video) into the next shot's start frame; shots can opt out
+
+ALTER TABLE "scenes" ADD COLUMN IF NOT EXISTS "continuity_mode" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "scene_shots" ADD COLUMN IF NOT EXISTS "last_frame_image_url" text;--> statement-breakpoint
+ALTER TABLE "scene_shots" ADD COLUMN IF NOT EXISTS "last_frame_storage_path" text;--> statement-breakpoint
+ALTER TABLE "scene_shots" ADD COLUMN IF NOT EXISTS "last_frame_video_url" text;--> statement-breakpoint
+ALTER TABLE "scene_shots" ADD COLUMN IF NOT EXISTS "continuity_override" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,8 @@
+-- Down Migration: Remove keyframe continuity
+-- Migration: 0032_add_keyframe_continuity
+
+ALTER TABLE "scene_shots" DROP COLUMN IF EXISTS "continuity_override";
+ALTER TABLE "scene_shots" DROP COLUMN IF EXISTS "last_frame_video_url";
+ALTER TABLE "scene_shots" DROP COLUMN IF EXISTS "last_frame_storage_path";
+ALTER TABLE "scene_shots" DROP COLUMN IF EXISTS "last_frame_image_url";
+ALTER TABLE "scenes" DROP COLUMN IF EXISTS "continuity_mode";
@@ -0,0 +1,7 @@
+-- Custom SQL migration file, put your code below! --
+-- Media processing: first/middle/last frames, a poster, and a scrub sprite
+-- for every shot video and reel, made by the video_media background job
+
+ALTER TYPE "public"."job_type" ADD VALUE IF NOT EXISTS 'video_media';--> statement-breakpoint
+ALTER TABLE "scene_shots" ADD COLUMN IF NOT EXISTS "video_media" jsonb;--> statement-breakpoint
+ALTER TABLE "final_reels" ADD COLUMN IF NOT EXISTS "video_media" jsonb;
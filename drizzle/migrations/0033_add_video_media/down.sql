@@ -0,0 +1,7 @@
+-- Down Migration: Remove video media
+-- Migration: 0033_add_video_media
+-- Postgres can't drop an enum value - 'video_media' stays in job_type
+-- (delete any video_media jobs before rolling back the app)
+
+ALTER TABLE "final_reels" DROP COLUMN IF EXISTS "video_media";
+ALTER TABLE "scene_shots" DROP COLUMN IF EXISTS "video_media";
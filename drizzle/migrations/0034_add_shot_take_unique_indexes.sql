@@ -0,0 +1,19 @@
+-- Custom SQL migration file, put your code below! --
+-- Take numbers are unique per shot, and a shot has at most one selected take.
+-- Renumber duplicate takes and keep the most recently selected one first.
+
+UPDATE "shot_takes" SET "take_number" = "numbered"."take_number"
+FROM (
+	SELECT "id", row_number() OVER (PARTITION BY "shot_id" ORDER BY "take_number", "created_at", "id") AS "take_number"
+	FROM "shot_takes"
+) AS "numbered"
+WHERE "shot_takes"."id" = "numbered"."id" AND "shot_takes"."take_number" <> "numbered"."take_number";--> statement-breakpoint
+UPDATE "shot_takes" SET "is_selected" = false
+WHERE "is_selected" = true AND "id" NOT IN (
+	SELECT DISTINCT ON ("shot_id") "id"
+	FROM "shot_takes"
+	WHERE "is_selected" = true
+	ORDER BY "shot_id", "updated_at" DESC, "id"
+);--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "shot_take_shot_number_idx" ON "shot_takes" USING btree ("shot_id","take_number");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "shot_take_shot_selected_idx" ON "shot_takes" USING btree ("shot_id") WHERE "shot_takes"."is_selected" = true;
@@ -0,0 +1,6 @@
+-- Down Migration: Remove shot take unique indexes
+-- Migration: 0034_add_shot_take_unique_indexes
+-- Renumbered takes and cleared selections are not restored
+
+DROP INDEX IF EXISTS "shot_take_shot_selected_idx";
+DROP INDEX IF EXISTS "shot_take_shot_number_idx";
@@ -0,0 +1,6 @@
+-- Custom SQL migration file, put your code below! --
+-- Scene image a generated start/end frame was made from, so a new scene
+-- image marks the frame (and the takes built on it) stale
+
+ALTER TABLE "scene_shots" ADD COLUMN IF NOT EXISTS "start_frame_source_image_url" text;--> statement-breakpoint
+ALTER TABLE "scene_shots" ADD COLUMN IF NOT EXISTS "end_frame_source_image_url" text;
@@ -0,0 +1,6 @@
+-- Down Migration: Remove shot frame sources
+-- Migration: 0035_add_shot_frame_sources
+-- Frames are no longer checked against the scene image
+
+ALTER TABLE "scene_shots" DROP COLUMN IF EXISTS "end_frame_source_image_url";
+ALTER TABLE "scene_shots" DROP COLUMN IF EXISTS "start_frame_source_image_url";
@@ -0,0 +1,10 @@
+/**
+ * Next.js startup hook
+ * Validates the n8n workflow registry once per server process.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { validateWorkflowRegistry } = await import("@/lib/n8n/registry");
+  await validateWorkflowRegistry();
+}
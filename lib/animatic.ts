@@ -0,0 +1,125 @@
+/**
+ * Animatic Mode
+ *
+ * A moving storyboard rendered from stills instead of generated video: each
+ * shot's start frame (or its scene's approved image, for scenes without
+ * shots or frames) is held for its estimated duration with a Ken Burns pan
+ * or zoom, captioned on screen with the slugline and dialogue, joined with
+ * the timeline transitions, and laid under the approved scene audio. It is
+ * rendered with local ffmpeg in minutes, before committing to Veo.
+ *
+ * Settings are kept per project (`projects.animatic_settings`) and recorded
+ * on each animatic reel version.
+ */
+
+import type { Transition } from "@/lib/transitions";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const KEN_BURNS_MOTIONS = ["alternate", "zoom_in", "zoom_out", "pan_left", "pan_right", "none"] as const;
+export type KenBurnsMotion = (typeof KEN_BURNS_MOTIONS)[number];
+
+export const ANIMATIC_TEXT_MODES = ["slugline_and_dialogue", "slugline", "dialogue", "none"] as const;
+export type AnimaticTextMode = (typeof ANIMATIC_TEXT_MODES)[number];
+
+export interface AnimaticSettings {
+  motion: KenBurnsMotion;
+  /** Zoom at the tightest point of the move (1 = the full frame) */
+  zoom: number;
+  text: AnimaticTextMode;
+}
+
+export interface AnimaticFrame {
+  sceneId: string;
+  /** Null when the scene's approved image stands in for a scene without shots */
+  shotId: string | null;
+  imageUrl: string;
+  /** Seconds on screen - the shot's (or scene's) estimated duration */
+  duration: number;
+  /** Transition from the previous frame (unset on the first) */
+  transition?: Transition;
+  /** Set on a scene's first frame */
+  slugline: string | null;
+  dialogue: string | null;
+}
+
+/** What an animatic reel version rendered (see ReelManifest) */
+export interface AnimaticManifest {
+  settings: AnimaticSettings;
+  frames: AnimaticFrame[];
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const MIN_ANIMATIC_ZOOM = 1.05;
+export const MAX_ANIMATIC_ZOOM = 1.5;
+
+export const DEFAULT_ANIMATIC_SETTINGS: AnimaticSettings = {
+  motion: "alternate",
+  zoom: 1.2,
+  text: "slugline_and_dialogue",
+};
+
+/** Scenes without an estimate are held this long */
+export const DEFAULT_ANIMATIC_SCENE_SECONDS = 8;
+
+export const KEN_BURNS_LABELS: Record<KenBurnsMotion, string> = {
+  alternate: "Alternate moves",
+  zoom_in: "Zoom in",
+  zoom_out: "Zoom out",
+  pan_left: "Pan left",
+  pan_right: "Pan right",
+  none: "No motion",
+};
+
+export const ANIMATIC_TEXT_LABELS: Record<AnimaticTextMode, string> = {
+  slugline_and_dialogue: "Slugline + dialogue",
+  slugline: "Slugline only",
+  dialogue: "Dialogue only",
+  none: "No text",
+};
+
+/** The cycle "alternate" steps through, frame by frame */
+const ALTERNATE_MOTIONS: Exclude<KenBurnsMotion, "alternate">[] = ["zoom_in", "pan_right", "zoom_out", "pan_left"];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The move applied to the frame at `index`
+ */
+export function resolveFrameMotion(motion: KenBurnsMotion, index: number): Exclude<KenBurnsMotion, "alternate"> {
+  return motion === "alternate" ? ALTERNATE_MOTIONS[index % ALTERNATE_MOTIONS.length] : motion;
+}
+
+/**
+ * Read stored settings, filling in defaults for anything missing or invalid
+ */
+export function toAnimaticSettings(value: unknown): AnimaticSettings {
+  const stored = (value && typeof value === "object" ? value : {}) as Partial<AnimaticSettings>;
+  return {
+    motion: KEN_BURNS_MOTIONS.includes(stored.motion as KenBurnsMotion)
+      ? (stored.motion as KenBurnsMotion)
+      : DEFAULT_ANIMATIC_SETTINGS.motion,
+    zoom:
+      typeof stored.zoom === "number" && stored.zoom >= MIN_ANIMATIC_ZOOM && stored.zoom <= MAX_ANIMATIC_ZOOM
+        ? stored.zoom
+        : DEFAULT_ANIMATIC_SETTINGS.zoom,
+    text: ANIMATIC_TEXT_MODES.includes(stored.text as AnimaticTextMode)
+      ? (stored.text as AnimaticTextMode)
+      : DEFAULT_ANIMATIC_SETTINGS.text,
+  };
+}
+
+export function showsSlugline(text: AnimaticTextMode): boolean {
+  return text === "slugline_and_dialogue" || text === "slugline";
+}
+
+export function showsDialogue(text: AnimaticTextMode): boolean {
+  return text === "slugline_and_dialogue" || text === "dialogue";
+}
@@ -0,0 +1,1098 @@
+/**
+ * Final Reel Assembly
+ *
+ * Gathers approved shot videos, orders them by scene_order, and assembles
+ * them (with any approved scene audio tracks) on one of two backends:
+ *
+ * - "remote": the generation provider's assembly (the n8n FFmpeg workflow
+ *   with transitions and a YouTube upload by default)
+ * - "local": ffmpeg on this server (see lib/ffmpeg), reporting progress
+ *   into `final_reels.assembly_progress`
+ *
+ * The backend is the project's `assembly_backend`, else ASSEMBLY_BACKEND.
+ * Each video carries the transition from the previous one and its trim
+ * points, set in the timeline (see lib/transitions.ts and lib/trim.ts).
+ * Either way the video ends up in the Supabase reels bucket.
+ *
+ * Every assembly is a new reel version whose manifest records what is
+ * rendered (see lib/reel-versions.ts); the job renders from that manifest,
+ * so a version always matches the edit it was queued with. Its captions are
+ * timed from the same manifest (see lib/captions.ts) and can be burned into
+ * a copy of the reel by a `caption_burn_in` job (local ffmpeg either way).
+ *
+ * Animatic versions (see lib/animatic.ts) render approved stills with local
+ * ffmpeg instead of shot videos, so they need no generated video at all.
+ *
+ * The assembly call runs as a `final_assembly` background job (see lib/jobs).
+ */
+
+import { db } from '@/lib/drizzle/db';
+import {
+  final_reels,
+  scene_audio,
+  scene_shots,
+  scenes,
+  projects,
+  type Project,
+  type Scene,
+  type SceneAudio,
+} from '@/lib/drizzle/schema';
+import { eq, and, desc, inArray, isNotNull, sql } from 'drizzle-orm';
+import { revalidatePath } from 'next/cache';
+import { readFile } from 'fs/promises';
+import { createClient } from '@supabase/supabase-js';
+import { env } from '@/lib/env';
+import { assembleReel, isAssemblyAvailable, type ReelAssemblyPayload } from '@/lib/providers';
+import { JobPermanentError } from '@/lib/jobs/types';
+import {
+  assembleReelLocally,
+  burnInCaptions,
+  isFfmpegAvailable,
+  renderAnimaticLocally,
+  type LocalAssemblyProgress,
+  type LocalAssemblyResult,
+} from '@/lib/ffmpeg';
+import type { AudioTrackType } from '@/lib/audio';
+import { DEFAULT_TRANSITION, resolveTransition, type Transition } from '@/lib/transitions';
+import { getTrimmedDuration } from '@/lib/trim';
+import { toReelManifest, type ReelManifest, type ReelManifestScene } from '@/lib/reel-versions';
+import { getFormatSpec } from '@/lib/formats';
+import { buildCaptionCues, toCaptionCues, toSrt, type CaptionCue, type CaptionSourceScene } from '@/lib/captions';
+import { DEFAULT_ANIMATIC_SCENE_SECONDS, type AnimaticFrame, type AnimaticSettings } from '@/lib/animatic';
+import { queueReelMedia } from '@/lib/video-media/process';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const ASSEMBLY_BACKENDS = ['local', 'remote'] as const;
+export type AssemblyBackend = (typeof ASSEMBLY_BACKENDS)[number];
+
+export interface VideoForAssembly {
+  url: string;
+  duration: number;
+  /** Drop the shot's own audio (the scene has an approved voiceover) */
+  muted?: boolean;
+  /** Transition from the previous video (unset on the first) */
+  transition?: Transition;
+  /** In/out points in seconds from the clip start (unset = clip start / end) */
+  trimIn?: number;
+  trimOut?: number;
+}
+
+export interface AudioForAssembly {
+  url: string;
+  type: AudioTrackType;
+  /** Index into the ordered videos where the track starts */
+  startVideoIndex: number;
+}
+
+// ============================================================================
+// Supabase Storage Helper
+// ============================================================================
+
+/**
+ * Download video from temporary URL and upload to Supabase Storage
+ * @param tempUrl - Temporary URL from FFmpeg API
+ * @param projectId - Project ID for file naming
+ * @returns Permanent Supabase public URL
+ */
+async function uploadVideoToSupabase(tempUrl: string, projectId: string): Promise<string> {
+  console.log('📥 Downloading video from temporary URL...');
+
+  // Download the video from FFmpeg API
+  const response = await fetch(tempUrl);
+
+  if (!response.ok) {
+    throw new Error(`Failed to download video: ${response.status} ${response.statusText}`);
+  }
+
+  const videoBuffer = await response.arrayBuffer();
+  const videoSize = videoBuffer.byteLength;
+  console.log(`📦 Downloaded ${(videoSize / 1024 / 1024).toFixed(2)}MB`);
+
+  return uploadReelFile(videoBuffer, projectId);
+}
+
+/**
+ * Upload an assembled reel to Supabase Storage (reels bucket)
+ * @param fileLabel - File name prefix ("final-reel-1718000000000.mp4")
+ * @returns Permanent Supabase public URL
+ */
+async function uploadReelFile(
+  videoBuffer: ArrayBuffer | Buffer,
+  projectId: string,
+  fileLabel = 'final-reel'
+): Promise<string> {
+  const supabaseUrl = env.SUPABASE_URL;
+  const supabaseServiceKey = env.SUPABASE_SERVICE_ROLE_KEY;
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+
+  // Generate unique filename
+  const timestamp = Date.now();
+  const filename = `${projectId}/${fileLabel}-${timestamp}.mp4`;
+
+  console.log('📤 Uploading to Supabase Storage...');
+
+  // Upload to Supabase Storage (reels bucket)
+  const { error } = await supabase.storage
+    .from('reels')
+    .upload(filename, videoBuffer, {
+      contentType: 'video/mp4',
+      upsert: true,
+    });
+
+  if (error) {
+    throw new Error(`Supabase upload failed: ${error.message}`);
+  }
+
+  // Get public URL
+  const { data: urlData } = supabase.storage
+    .from('reels')
+    .getPublicUrl(filename);
+
+  if (!urlData?.publicUrl) {
+    throw new Error('Failed to get public URL');
+  }
+
+  console.log('✅ Uploaded to Supabase:', urlData.publicUrl);
+
+  return urlData.publicUrl;
+}
+
+// ============================================================================
+// Backend Selection
+// ============================================================================
+
+/**
+ * The assembly backend a project uses (its own setting, else ASSEMBLY_BACKEND)
+ */
+export function getAssemblyBackend(project: Pick<Project, 'assembly_backend'>): AssemblyBackend {
+  return project.assembly_backend ?? env.ASSEMBLY_BACKEND;
+}
+
+/**
+ * Why a backend can't assemble right now
+ * @returns null when it is ready
+ */
+export async function getAssemblyUnavailableReason(backend: AssemblyBackend): Promise<string | null> {
+  if (backend === 'local') {
+    return (await isFfmpegAvailable())
+      ? null
+      : 'ffmpeg not found on the server - install it, set FFMPEG_PATH, or switch to remote assembly';
+  }
+
+  return (await isAssemblyAvailable()) ? null : 'Assembly webhook URL not configured';
+}
+
+// ============================================================================
+// Assembly Preparation
+// ============================================================================
+
+export type AssemblyPlan =
+  | {
+      success: true;
+      project: Project;
+      orderedVideos: VideoForAssembly[];
+      audio: AudioForAssembly[];
+      /** The timeline edit behind orderedVideos (one manifest shot per video) */
+      timeline: ReelManifestScene[];
+      sceneCount: number;
+    }
+  | { success: false; error: string };
+
+export type ReadyAssemblyPlan = Extract<AssemblyPlan, { success: true }>;
+
+/**
+ * Collect the ready shot videos for a project in playback order, plus the
+ * approved scene audio to mix over them
+ *
+ * Fails when there are fewer than 2 ready shots.
+ */
+export async function prepareAssembly(projectId: string): Promise<AssemblyPlan> {
+  // Get the project with scene_order
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    return { success: false, error: 'Project not found' };
+  }
+
+  // Get all scenes for this project
+  const projectScenes = await db
+    .select()
+    .from(scenes)
+    .where(eq(scenes.project_id, projectId));
+
+  if (projectScenes.length === 0) {
+    return { success: false, error: 'No scenes found for project' };
+  }
+
+  // Get all ready video shots from scene_shots table, ordered by shot_number
+  const sceneIds = projectScenes.map((s) => s.id);
+  const readyShots = await db
+    .select({
+      id: scene_shots.id,
+      scene_id: scene_shots.scene_id,
+      shot_number: scene_shots.shot_number,
+      video_url: scene_shots.video_url,
+      shot_duration_seconds: scene_shots.shot_duration_seconds,
+      transition_in: scene_shots.transition_in,
+      transition_in_seconds: scene_shots.transition_in_seconds,
+      trim_in_seconds: scene_shots.trim_in_seconds,
+      trim_out_seconds: scene_shots.trim_out_seconds,
+    })
+    .from(scene_shots)
+    .where(
+      and(
+        inArray(scene_shots.scene_id, sceneIds),
+        eq(scene_shots.video_status, 'ready'),
+        isNotNull(scene_shots.video_url)
+      )
+    )
+    .orderBy(scene_shots.scene_id, scene_shots.shot_number);
+
+  if (readyShots.length < 2) {
+    return {
+      success: false,
+      error: `Need at least 2 ready video shots for assembly. Found: ${readyShots.length}`,
+    };
+  }
+
+  // Group shots by scene_id (already ordered by shot_number from query)
+  // NOTE: We don't send durations - let FFmpeg probe actual video durations for accuracy
+  const videoMap = new Map<string, VideoForAssembly[]>();
+  for (const shot of readyShots) {
+    if (shot.video_url) {
+      const existing = videoMap.get(shot.scene_id) || [];
+      existing.push({
+        url: shot.video_url,
+        duration: 0, // Let FFmpeg probe actual duration
+        transition: resolveTransition(shot.transition_in, shot.transition_in_seconds),
+        ...(shot.trim_in_seconds ? { trimIn: shot.trim_in_seconds } : {}),
+        ...(shot.trim_out_seconds ? { trimOut: shot.trim_out_seconds } : {}),
+      });
+      videoMap.set(shot.scene_id, existing);
+    }
+  }
+
+  // Each scene may have multiple shots that need to be flattened in order
+  const orderedSceneIds = orderScenes(project, projectScenes, [...videoMap.keys()]);
+  const audioByScene = await loadApprovedAudio(sceneIds);
+
+  const orderedVideos: VideoForAssembly[] = [];
+  const audio: AudioForAssembly[] = [];
+  const timeline: ReelManifestScene[] = [];
+  const sceneById = new Map(projectScenes.map((s) => [s.id, s]));
+
+  for (const sceneId of orderedSceneIds) {
+    const shots = videoMap.get(sceneId);
+    const scene = sceneById.get(sceneId);
+    if (!shots || !scene) continue;
+
+    // The scene's first (ready) shot takes the scene boundary's transition
+    const sceneShots = shots.map((video, index) =>
+      index === 0 ? { ...video, transition: resolveTransition(scene.transition_in, scene.transition_in_seconds) } : video
+    );
+
+    const tracks = audioByScene.get(sceneId) || [];
+    // An approved voiceover replaces the Veo dialogue
+    const muted = tracks.some((t) => t.audio_type === 'voiceover');
+
+    for (const track of tracks) {
+      audio.push({ url: track.audio_url!, type: track.audio_type, startVideoIndex: orderedVideos.length });
+    }
+    orderedVideos.push(...(muted ? sceneShots.map((video) => ({ ...video, muted: true })) : sceneShots));
+
+    timeline.push({
+      id: scene.id,
+      sceneNumber: scene.scene_number,
+      transition: scene.transition_in ? resolveTransition(scene.transition_in, scene.transition_in_seconds) : null,
+      shots: readyShots
+        .filter((shot) => shot.scene_id === sceneId)
+        .map((shot) => ({
+          id: shot.id,
+          shotNumber: shot.shot_number,
+          transition: shot.transition_in ? resolveTransition(shot.transition_in, shot.transition_in_seconds) : null,
+          trimIn: shot.trim_in_seconds,
+          trimOut: shot.trim_out_seconds,
+          duration: shot.shot_duration_seconds,
+        })),
+    });
+  }
+
+  if (orderedVideos.length < 2) {
+    return {
+      success: false,
+      error: `Need at least 2 video shots with URLs. Found: ${orderedVideos.length}`,
+    };
+  }
+
+  // Nothing to transition from
+  delete orderedVideos[0].transition;
+
+  console.log(`📹 Assembling ${orderedVideos.length} video shots from ${videoMap.size} scenes`);
+
+  if (audio.length > 0) {
+    console.log(`🎵 Mixing ${audio.length} approved scene audio tracks`);
+  }
+
+  return { success: true, project, orderedVideos, audio, timeline, sceneCount: videoMap.size };
+}
+
+/**
+ * Scene IDs in playback order: the project's scene_order (UUIDs, or scene
+ * numbers on older projects), else `sceneIds` by scene number
+ */
+function orderScenes(project: Project, projectScenes: Scene[], sceneIds: string[]): string[] {
+  const rawSceneOrder = (project.scene_order as (string | number)[]) || [];
+
+  // Create maps for both UUID and scene_number lookups
+  const sceneNumberToId = new Map(projectScenes.map((s) => [s.scene_number, s.id]));
+  const sceneIdToNumber = new Map(projectScenes.map((s) => [s.id, s.scene_number]));
+
+  // Detect if scene_order contains UUIDs or scene numbers
+  const hasUuidOrder = rawSceneOrder.length > 0 && typeof rawSceneOrder[0] === 'string' && rawSceneOrder[0].includes('-');
+
+  if (hasUuidOrder) {
+    // scene_order contains UUIDs - use directly
+    return rawSceneOrder as string[];
+  }
+
+  if (rawSceneOrder.length > 0) {
+    // scene_order contains scene numbers - convert to UUIDs
+    return (rawSceneOrder as number[])
+      .map((sceneNum) => sceneNumberToId.get(sceneNum))
+      .filter((sceneId): sceneId is string => !!sceneId);
+  }
+
+  // No scene_order - fallback: order by scene_number
+  return [...sceneIds].sort((a, b) => {
+    const numA = sceneIdToNumber.get(a) || 0;
+    const numB = sceneIdToNumber.get(b) || 0;
+    return numA - numB;
+  });
+}
+
+/**
+ * Approved scene audio - the newest approved track per scene and type
+ */
+async function loadApprovedAudio(sceneIds: string[]): Promise<Map<string, SceneAudio[]>> {
+  const approvedAudio = await db
+    .select()
+    .from(scene_audio)
+    .where(
+      and(
+        inArray(scene_audio.scene_id, sceneIds),
+        eq(scene_audio.status, 'approved'),
+        isNotNull(scene_audio.audio_url)
+      )
+    )
+    .orderBy(desc(scene_audio.created_at));
+
+  const audioByScene = new Map<string, SceneAudio[]>();
+  for (const track of approvedAudio) {
+    const tracks = audioByScene.get(track.scene_id) || [];
+    if (!tracks.some((t) => t.audio_type === track.audio_type)) {
+      tracks.push(track);
+      audioByScene.set(track.scene_id, tracks);
+    }
+  }
+  return audioByScene;
+}
+
+/**
+ * Record what a plan will render, as stored on its reel version
+ */
+export function buildReelManifest(plan: ReadyAssemblyPlan): ReelManifest {
+  const { project } = plan;
+  return {
+    backend: getAssemblyBackend(project),
+    format: getFormatSpec(project.format).value,
+    // Title and description for YouTube
+    title: `${project.title} - Film Reel`,
+    description: `Film reel for "${project.title}"\n\nCreated with RipReel.io - AI-powered film production tool`,
+    scenes: plan.timeline,
+    videos: plan.orderedVideos,
+    audio: plan.audio,
+  };
+}
+
+/**
+ * Create the next reel version for a plan, marked as assembling
+ * Earlier versions are left as they are.
+ */
+export async function startFinalReel(plan: ReadyAssemblyPlan): Promise<{ reelId: string; versionNumber: number }> {
+  return insertReelVersion(plan.project.id, buildReelManifest(plan), plan.orderedVideos.length);
+}
+
+/**
+ * Insert the next reel version with its manifest and generated captions
+ * @param itemCount - Videos (or animatic frames) it renders
+ */
+async function insertReelVersion(
+  projectId: string,
+  manifest: ReelManifest,
+  itemCount: number
+): Promise<{ reelId: string; versionNumber: number }> {
+  const [newReel] = await db
+    .insert(final_reels)
+    .values({
+      project_id: projectId,
+      // Next version of this project (the unique index rejects a concurrent duplicate)
+      version_number: sql<number>`(select coalesce(max(${final_reels.version_number}), 0) + 1 from ${final_reels} where ${final_reels.project_id} = ${projectId})`,
+      manifest,
+      captions: await generateReelCaptions(manifest),
+      status: 'assembling',
+      assembly_progress: { queued_at: new Date().toISOString(), video_count: itemCount },
+    })
+    .returning();
+  console.log(`📝 Created reel version v${newReel.version_number}:`, newReel.id);
+  return { reelId: newReel.id, versionNumber: newReel.version_number };
+}
+
+/**
+ * Time the spoken lines of a version's shots as caption cues
+ *
+ * Positions come from the manifest (order, trims, transitions - or an
+ * animatic's frames); the lines are the shots' current dialogue segments,
+ * else their scene's transcript.
+ */
+export async function generateReelCaptions(manifest: ReelManifest): Promise<CaptionCue[]> {
+  if (manifest.scenes.length === 0) return [];
+  const shotIds = manifest.scenes.flatMap((scene) => scene.shots.map((shot) => shot.id));
+
+  // Animatic scenes without shots are held on the scene image
+  const shotRows = shotIds.length === 0 ? [] : await db
+    .select({
+      id: scene_shots.id,
+      shot_duration_seconds: scene_shots.shot_duration_seconds,
+      dialogue_segment: scene_shots.dialogue_segment,
+    })
+    .from(scene_shots)
+    .where(inArray(scene_shots.id, shotIds));
+
+  const sceneRows = await db
+    .select({ id: scenes.id, raw_scene_data: scenes.raw_scene_data, full_data: scenes.full_data })
+    .from(scenes)
+    .where(inArray(scenes.id, manifest.scenes.map((scene) => scene.id)));
+
+  const shotById = new Map(shotRows.map((shot) => [shot.id, shot]));
+  const sceneById = new Map(sceneRows.map((scene) => [scene.id, scene]));
+
+  const getTranscript = (sceneId: string) => {
+    const row = sceneById.get(sceneId);
+    return (
+      row?.raw_scene_data?.audio_requirements?.dialogue_transcript ??
+      row?.full_data?.audio_requirements?.dialogue_transcript ??
+      null
+    );
+  };
+
+  if (manifest.animatic) {
+    // Frames are consecutive per scene
+    const frameScenes: CaptionSourceScene[] = [];
+    let currentSceneId: string | null = null;
+    for (const frame of manifest.animatic.frames) {
+      if (frame.sceneId !== currentSceneId) {
+        currentSceneId = frame.sceneId;
+        frameScenes.push({ transcript: getTranscript(frame.sceneId), shots: [] });
+      }
+      frameScenes[frameScenes.length - 1].shots.push({
+        durationSeconds: frame.duration,
+        transition: frame.transition ?? DEFAULT_TRANSITION,
+        dialogue: frame.shotId ? shotById.get(frame.shotId)?.dialogue_segment ?? null : null,
+      });
+    }
+    return buildCaptionCues(frameScenes);
+  }
+
+  return buildCaptionCues(
+    manifest.scenes.map((scene) => ({
+      transcript: getTranscript(scene.id),
+      shots: scene.shots.map((shot, index) => {
+        const current = shotById.get(shot.id);
+        // Deleted shots still take up their place on the reel
+        const nominal = shot.duration ?? current?.shot_duration_seconds ?? 8;
+        return {
+          durationSeconds: getTrimmedDuration(nominal, shot.trimIn, shot.trimOut),
+          transition: (index === 0 ? scene.transition : shot.transition) ?? DEFAULT_TRANSITION,
+          dialogue: current?.dialogue_segment ?? null,
+        };
+      }),
+    }))
+  );
+}
+
+// ============================================================================
+// Animatic Preparation
+// ============================================================================
+
+export type AnimaticPlan =
+  | {
+      success: true;
+      project: Project;
+      settings: AnimaticSettings;
+      frames: AnimaticFrame[];
+      /** `startVideoIndex` is the frame the scene's audio starts on */
+      audio: AudioForAssembly[];
+      timeline: ReelManifestScene[];
+      sceneCount: number;
+    }
+  | { success: false; error: string };
+
+export type ReadyAnimaticPlan = Extract<AnimaticPlan, { success: true }>;
+
+/**
+ * Collect the stills for an animatic in playback order: each shot's start
+ * frame (else its scene's approved image), or the approved image alone for
+ * a scene without shots. Frames are held for the estimated durations - trim
+ * points apply to generated video only.
+ *
+ * Fails when no scene has an image.
+ */
+export async function prepareAnimatic(projectId: string, settings: AnimaticSettings): Promise<AnimaticPlan> {
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    return { success: false, error: 'Project not found' };
+  }
+
+  const projectScenes = await db
+    .select()
+    .from(scenes)
+    .where(eq(scenes.project_id, projectId));
+
+  if (projectScenes.length === 0) {
+    return { success: false, error: 'No scenes found for project' };
+  }
+
+  const sceneIds = projectScenes.map((s) => s.id);
+  const projectShots = await db
+    .select({
+      id: scene_shots.id,
+      scene_id: scene_shots.scene_id,
+      shot_number: scene_shots.shot_number,
+      start_frame_image_url: scene_shots.start_frame_image_url,
+      shot_duration_seconds: scene_shots.shot_duration_seconds,
+      dialogue_segment: scene_shots.dialogue_segment,
+      transition_in: scene_shots.transition_in,
+      transition_in_seconds: scene_shots.transition_in_seconds,
+      trim_in_seconds: scene_shots.trim_in_seconds,
+      trim_out_seconds: scene_shots.trim_out_seconds,
+    })
+    .from(scene_shots)
+    .where(inArray(scene_shots.scene_id, sceneIds))
+    .orderBy(scene_shots.scene_id, scene_shots.shot_number);
+
+  const shotsByScene = new Map<string, typeof projectShots>();
+  for (const shot of projectShots) {
+    const existing = shotsByScene.get(shot.scene_id) || [];
+    existing.push(shot);
+    shotsByScene.set(shot.scene_id, existing);
+  }
+
+  const sceneById = new Map(projectScenes.map((s) => [s.id, s]));
+  const animatedSceneIds = projectScenes
+    .filter((scene) => scene.approved_image_url || shotsByScene.get(scene.id)?.some((shot) => shot.start_frame_image_url))
+    .map((scene) => scene.id);
+  const orderedSceneIds = orderScenes(project, projectScenes, animatedSceneIds);
+  const audioByScene = await loadApprovedAudio(sceneIds);
+
+  const frames: AnimaticFrame[] = [];
+  const audio: AudioForAssembly[] = [];
+  const timeline: ReelManifestScene[] = [];
+
+  for (const sceneId of orderedSceneIds) {
+    const scene = sceneById.get(sceneId);
+    if (!scene) continue;
+
+    const sceneTransition = resolveTransition(scene.transition_in, scene.transition_in_seconds);
+    const shots = (shotsByScene.get(sceneId) || []).filter((shot) => shot.start_frame_image_url || scene.approved_image_url);
+    const sceneFrames: AnimaticFrame[] =
+      shots.length > 0
+        ? shots.map((shot, index) => ({
+            sceneId,
+            shotId: shot.id,
+            imageUrl: (shot.start_frame_image_url || scene.approved_image_url)!,
+            duration: shot.shot_duration_seconds,
+            // The scene's first shot takes the scene boundary's transition
+            transition: index === 0 ? sceneTransition : resolveTransition(shot.transition_in, shot.transition_in_seconds),
+            slugline: null,
+            dialogue: shot.dialogue_segment,
+          }))
+        : scene.approved_image_url
+          ? [
+              {
+                sceneId,
+                shotId: null,
+                imageUrl: scene.approved_image_url,
+                duration:
+                  scene.raw_scene_data?.estimated_duration_seconds ??
+                  scene.full_data?.estimated_duration_seconds ??
+                  DEFAULT_ANIMATIC_SCENE_SECONDS,
+                transition: sceneTransition,
+                slugline: null,
+                dialogue:
+                  scene.raw_scene_data?.audio_requirements?.dialogue_transcript ??
+                  scene.full_data?.audio_requirements?.dialogue_transcript ??
+                  null,
+              },
+            ]
+          : [];
+    if (sceneFrames.length === 0) continue;
+    sceneFrames[0].slugline = scene.slugline;
+
+    for (const track of audioByScene.get(sceneId) || []) {
+      audio.push({ url: track.audio_url!, type: track.audio_type, startVideoIndex: frames.length });
+    }
+    frames.push(...sceneFrames);
+
+    timeline.push({
+      id: scene.id,
+      sceneNumber: scene.scene_number,
+      transition: scene.transition_in ? sceneTransition : null,
+      shots: shots.map((shot) => ({
+        id: shot.id,
+        shotNumber: shot.shot_number,
+        transition: shot.transition_in ? resolveTransition(shot.transition_in, shot.transition_in_seconds) : null,
+        trimIn: shot.trim_in_seconds,
+        trimOut: shot.trim_out_seconds,
+        duration: shot.shot_duration_seconds,
+      })),
+    });
+  }
+
+  if (frames.length === 0) {
+    return {
+      success: false,
+      error: 'No stills to animate - approve scene images or generate shot start frames first',
+    };
+  }
+
+  // Nothing to transition from
+  delete frames[0].transition;
+
+  console.log(`🖼️ Animating ${frames.length} stills from ${timeline.length} scenes`);
+
+  return { success: true, project, settings, frames, audio, timeline, sceneCount: timeline.length };
+}
+
+/**
+ * Record what an animatic plan will render, as stored on its reel version
+ */
+export function buildAnimaticManifest(plan: ReadyAnimaticPlan): ReelManifest {
+  const { project } = plan;
+  return {
+    backend: 'local',
+    mode: 'animatic',
+    format: getFormatSpec(project.format).value,
+    title: `${project.title} - Animatic`,
+    description: `Animatic for "${project.title}"\n\nCreated with RipReel.io - AI-powered film production tool`,
+    scenes: plan.timeline,
+    videos: [],
+    audio: plan.audio,
+    animatic: { settings: plan.settings, frames: plan.frames },
+  };
+}
+
+/**
+ * Create the next reel version for an animatic, marked as assembling
+ */
+export async function startAnimaticReel(plan: ReadyAnimaticPlan): Promise<{ reelId: string; versionNumber: number }> {
+  return insertReelVersion(plan.project.id, buildAnimaticManifest(plan), plan.frames.length);
+}
+
+// ============================================================================
+// Assembly
+// ============================================================================
+
+/**
+ * Run final reel assembly for a project
+ *
+ * Throws on failure so the job queue can retry. The reel is only marked
+ * failed on the final attempt (or when retrying cannot help); until then
+ * it stays `assembling` with the last error recorded.
+ */
+export async function assembleFinalReel(
+  projectId: string,
+  reelId: string,
+  isFinalAttempt: boolean
+): Promise<{ videoUrl?: string; youtubeUrl?: string; youtubeId?: string }> {
+  const failReel = async (message: string, permanent: boolean) => {
+    await db
+      .update(final_reels)
+      .set(
+        permanent || isFinalAttempt
+          ? { status: 'failed', error_message: message }
+          : { error_message: `${message} (retrying)` }
+      )
+      .where(eq(final_reels.id, reelId));
+
+    revalidatePath(`/projects/${projectId}/studio/export`, 'page');
+    return permanent ? new JobPermanentError(message) : new Error(message);
+  };
+
+  const [reel] = await db
+    .select({ manifest: final_reels.manifest })
+    .from(final_reels)
+    .where(eq(final_reels.id, reelId))
+    .limit(1);
+
+  if (!reel) {
+    throw new JobPermanentError(`Reel ${reelId} not found`);
+  }
+
+  // Render exactly what the version recorded; reels queued before versioning
+  // have no manifest and take the current shots
+  let manifest = toReelManifest(reel.manifest);
+  if (!manifest) {
+    const plan = await prepareAssembly(projectId);
+    if (!plan.success) {
+      throw await failReel(plan.error, true);
+    }
+    manifest = buildReelManifest(plan);
+  }
+
+  const { backend, format, videos: orderedVideos, audio, animatic } = manifest;
+
+  const unavailable = await getAssemblyUnavailableReason(backend);
+  if (unavailable) {
+    throw await failReel(unavailable, true);
+  }
+
+  const itemCount = animatic ? animatic.frames.length : orderedVideos.length;
+  const startedAt = new Date().toISOString();
+  await db
+    .update(final_reels)
+    .set({
+      status: 'assembling',
+      assembly_progress: { backend, started_at: startedAt, video_count: itemCount },
+    })
+    .where(eq(final_reels.id, reelId));
+
+  if (animatic) {
+    return assembleOnServer(
+      projectId,
+      reelId,
+      (onProgress) => renderAnimaticLocally({ frames: animatic.frames, audio, settings: animatic.settings, format }, onProgress),
+      itemCount,
+      startedAt,
+      failReel
+    );
+  }
+
+  const payload: ReelAssemblyPayload = {
+    projectId,
+    title: manifest.title,
+    description: manifest.description,
+    // Versions from before formats keep the size of their first video
+    ...(format ? { format } : {}),
+    videos: orderedVideos,
+    ...(audio.length > 0 ? { audio } : {}),
+  };
+
+  if (backend === 'local') {
+    return assembleOnServer(
+      projectId,
+      reelId,
+      (onProgress) => assembleReelLocally(payload, onProgress),
+      itemCount,
+      startedAt,
+      failReel
+    );
+  }
+
+  // Call the provider (n8n FFmpeg workflow by default)
+  const result = await assembleReel(payload);
+
+  if (!result.success) {
+    console.error('❌ Assembly failed:', result.error);
+    throw await failReel(result.error || 'Assembly failed', false);
+  }
+
+  // FFmpeg assembly successful! Now upload to Supabase for permanent storage
+  let permanentVideoUrl = result.videoUrl;
+
+  if (result.videoUrl) {
+    try {
+      console.log('📦 Uploading assembled video to Supabase...');
+
+      await db
+        .update(final_reels)
+        .set({
+          status: 'uploading',
+          assembly_progress: {
+            step: 'uploading_to_supabase',
+            video_count: orderedVideos.length,
+          },
+        })
+        .where(eq(final_reels.id, reelId));
+
+      permanentVideoUrl = await uploadVideoToSupabase(result.videoUrl, projectId);
+      console.log('✅ Video uploaded to Supabase:', permanentVideoUrl);
+    } catch (uploadError) {
+      console.error('⚠️ Supabase upload failed, using temporary URL:', uploadError);
+      // Continue with temporary URL if upload fails
+      // The video will still be available for 2 hours
+    }
+  }
+
+  // Success! Update final_reels with permanent Supabase URL and YouTube URL
+  await db
+    .update(final_reels)
+    .set({
+      status: 'ready',
+      video_url: permanentVideoUrl, // Permanent Supabase URL (or temp if upload failed)
+      youtube_url: result.youtubeUrl, // YouTube unlisted URL
+      youtube_id: result.youtubeId, // YouTube video ID for embedding
+      error_message: null,
+      assembly_progress: {
+        completed_at: new Date().toISOString(),
+        video_count: orderedVideos.length,
+        uploaded_to_supabase: permanentVideoUrl !== result.videoUrl,
+      },
+    })
+    .where(eq(final_reels.id, reelId));
+
+  console.log('✅ Assembly complete');
+  console.log('   - Video URL:', permanentVideoUrl);
+  console.log('   - YouTube URL:', result.youtubeUrl);
+
+  if (permanentVideoUrl) {
+    await queueReelMediaSafely(projectId, reelId);
+  }
+
+  revalidatePath(`/projects/${projectId}/studio/export`, 'page');
+
+  return {
+    videoUrl: permanentVideoUrl,
+    youtubeUrl: result.youtubeUrl,
+    youtubeId: result.youtubeId,
+  };
+}
+
+/**
+ * Render the reel with local ffmpeg (shot assembly or an animatic) and
+ * upload it to Supabase (no YouTube upload on this backend)
+ * @param videoCount - Videos (or animatic frames) rendered
+ */
+async function assembleOnServer(
+  projectId: string,
+  reelId: string,
+  render: (onProgress: (progress: LocalAssemblyProgress) => void) => Promise<LocalAssemblyResult>,
+  videoCount: number,
+  startedAt: string,
+  failReel: (message: string, permanent: boolean) => Promise<Error>
+): Promise<{ videoUrl?: string }> {
+  const progress = createProgressWriter(reelId, { backend: 'local', started_at: startedAt, video_count: videoCount });
+
+  let reel: LocalAssemblyResult;
+  try {
+    reel = await render(progress.report);
+  } catch (error) {
+    console.error('❌ Local assembly failed:', error);
+    await progress.flush();
+    throw await failReel(error instanceof Error ? error.message : 'Local assembly failed', false);
+  }
+
+  await progress.flush();
+
+  try {
+    console.log(`📦 Uploading locally assembled reel (${(reel.fileSizeBytes / 1024 / 1024).toFixed(2)}MB)...`);
+
+    await db
+      .update(final_reels)
+      .set({
+        status: 'uploading',
+        assembly_progress: {
+          backend: 'local',
+          step: 'uploading_to_supabase',
+          percent: 100,
+          started_at: startedAt,
+          video_count: videoCount,
+        },
+      })
+      .where(eq(final_reels.id, reelId));
+
+    const videoUrl = await uploadReelFile(await readFile(reel.outputPath), projectId);
+
+    await db
+      .update(final_reels)
+      .set({
+        status: 'ready',
+        video_url: videoUrl,
+        youtube_url: null,
+        youtube_id: null,
+        duration_seconds: Math.round(reel.durationSeconds),
+        file_size_bytes: reel.fileSizeBytes,
+        resolution: `${reel.width}x${reel.height}`,
+        error_message: null,
+        assembly_progress: {
+          backend: 'local',
+          started_at: startedAt,
+          completed_at: new Date().toISOString(),
+          video_count: videoCount,
+          uploaded_to_supabase: true,
+        },
+      })
+      .where(eq(final_reels.id, reelId));
+
+    console.log('✅ Local assembly complete:', videoUrl);
+    await queueReelMediaSafely(projectId, reelId);
+    revalidatePath(`/projects/${projectId}/studio/export`, 'page');
+
+    return { videoUrl };
+  } catch (error) {
+    console.error('❌ Uploading the local reel failed:', error);
+    throw await failReel(error instanceof Error ? error.message : 'Failed to upload the reel', false);
+  } finally {
+    await reel.cleanup();
+  }
+}
+
+/**
+ * Write local assembly progress into final_reels.assembly_progress
+ * At most one write every 2 seconds per step, applied in order.
+ */
+function createProgressWriter(reelId: string, base: Record<string, unknown>) {
+  let queue: Promise<unknown> = Promise.resolve();
+  let lastStep: string | null = null;
+  let lastWriteAt = 0;
+
+  return {
+    report: (progress: LocalAssemblyProgress) => {
+      const now = Date.now();
+      if (progress.step === lastStep && now - lastWriteAt < 2000) return;
+      lastStep = progress.step;
+      lastWriteAt = now;
+
+      queue = queue
+        .then(() =>
+          db
+            .update(final_reels)
+            .set({ assembly_progress: { ...base, ...progress } })
+            .where(and(eq(final_reels.id, reelId), eq(final_reels.status, 'assembling')))
+        )
+        .catch((error) => console.error('⚠️ Failed to record assembly progress:', error));
+    },
+    /** Wait for pending progress writes */
+    flush: () => queue,
+  };
+}
+
+/**
+ * Queue the reel's poster and scrub sprite - the reel is ready either way
+ */
+async function queueReelMediaSafely(projectId: string, reelId: string): Promise<void> {
+  try {
+    await queueReelMedia(projectId, reelId);
+  } catch (error) {
+    console.error('⚠️ Failed to queue reel media processing:', error);
+  }
+}
+
+// ============================================================================
+// Caption Burn-In
+// ============================================================================
+
+/**
+ * Render a copy of a reel version with its captions burned in and upload it
+ *
+ * Throws on failure so the job queue can retry; the captioned copy is only
+ * marked failed on the final attempt. A result is discarded when the
+ * captions were edited while it rendered (the status is no longer
+ * `generating`).
+ */
+export async function burnInReelCaptions(
+  projectId: string,
+  reelId: string,
+  isFinalAttempt: boolean
+): Promise<{ captionedVideoUrl: string } | void> {
+  const failBurnIn = async (message: string, permanent: boolean) => {
+    await db
+      .update(final_reels)
+      .set(
+        permanent || isFinalAttempt
+          ? { captioned_video_status: 'failed', captioned_error_message: message }
+          : { captioned_error_message: `${message} (retrying)` }
+      )
+      .where(and(eq(final_reels.id, reelId), eq(final_reels.captioned_video_status, 'generating')));
+
+    revalidatePath(`/projects/${projectId}/studio/export`, 'page');
+    return permanent ? new JobPermanentError(message) : new Error(message);
+  };
+
+  const [reel] = await db
+    .select({ video_url: final_reels.video_url, captions: final_reels.captions })
+    .from(final_reels)
+    .where(eq(final_reels.id, reelId))
+    .limit(1);
+
+  if (!reel) {
+    throw new JobPermanentError(`Reel ${reelId} not found`);
+  }
+
+  const cues = toCaptionCues(reel.captions);
+  if (!reel.video_url) {
+    throw await failBurnIn('The reel has no video to caption', true);
+  }
+  if (!cues || cues.length === 0) {
+    throw await failBurnIn('The reel has no captions to burn in', true);
+  }
+  if (!(await isFfmpegAvailable())) {
+    throw await failBurnIn('ffmpeg not found on the server - install it or set FFMPEG_PATH', true);
+  }
+
+  console.log(`💬 Burning ${cues.length} captions into reel ${reelId}`);
+
+  let captioned: Awaited<ReturnType<typeof burnInCaptions>>;
+  try {
+    captioned = await burnInCaptions(reel.video_url, toSrt(cues));
+  } catch (error) {
+    console.error('❌ Caption burn-in failed:', error);
+    throw await failBurnIn(error instanceof Error ? error.message : 'Caption burn-in failed', false);
+  }
+
+  try {
+    const captionedVideoUrl = await uploadReelFile(
+      await readFile(captioned.outputPath),
+      projectId,
+      'final-reel-captioned'
+    );
+
+    const updated = await db
+      .update(final_reels)
+      .set({ captioned_video_url: captionedVideoUrl, captioned_video_status: 'ready', captioned_error_message: null })
+      .where(and(eq(final_reels.id, reelId), eq(final_reels.captioned_video_status, 'generating')))
+      .returning({ id: final_reels.id });
+
+    if (updated.length === 0) {
+      console.log('⚠️ Captions changed during burn-in - discarding the render');
+      return;
+    }
+
+    console.log('✅ Captioned reel ready:', captionedVideoUrl);
+    revalidatePath(`/projects/${projectId}/studio/export`, 'page');
+
+    return { captionedVideoUrl };
+  } catch (error) {
+    console.error('❌ Uploading the captioned reel failed:', error);
+    throw await failBurnIn(error instanceof Error ? error.message : 'Failed to upload the captioned reel', false);
+  } finally {
+    await captioned.cleanup();
+  }
+}
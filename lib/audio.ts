@@ -0,0 +1,353 @@
+/**
+ * Scene Audio Tracks
+ *
+ * Voiceover, SFX, and music tracks per scene. Veo bakes audio into every
+ * shot, but it is often unusable - these tracks replace or layer over it
+ * at assembly:
+ *
+ * - voiceover: the scene's dialogue transcript, voiced with its tone/voice type
+ *   (an approved voiceover mutes the shot videos' own audio)
+ * - sfx: the listed sound effects and ambience
+ * - music: the scene's music mood
+ *
+ * Tracks are generated from the scene's `audio_requirements` (optionally
+ * overridden) or uploaded. A new track replaces the older tracks of the same
+ * type once it is ready, so a failed regeneration keeps the previous one.
+ * Only approved tracks go into the final reel.
+ */
+
+import { db } from "@/lib/drizzle/db";
+import {
+  scene_audio,
+  scene_shots,
+  scenes,
+  type RawSceneData,
+  type Scene,
+  type SceneAudio,
+} from "@/lib/drizzle/schema";
+import { and, desc, eq, inArray, lt, ne } from "drizzle-orm";
+import { env } from "@/lib/env";
+import { generateAudio } from "@/lib/providers";
+import { createSupabaseServerAdminClient } from "@/lib/supabase/admin";
+import type { ApiKeys } from "@/lib/n8n";
+import { getTrimmedDuration } from "@/lib/trim";
+
+// ============================================================================
+// Constants & Types
+// ============================================================================
+
+export const AUDIO_TRACK_TYPES = ["voiceover", "sfx", "music"] as const;
+export type AudioTrackType = (typeof AUDIO_TRACK_TYPES)[number];
+
+/** Public bucket for uploaded tracks (see scripts/setup-storage.ts) */
+export const SCENE_AUDIO_BUCKET = "scene-audio";
+
+/** Used when a scene has neither shots nor an estimated duration */
+const DEFAULT_TRACK_SECONDS = 8;
+
+export interface AudioTrackRequest {
+  scriptText: string | null;
+  audioDescription: string;
+  durationSeconds: number;
+}
+
+export interface AudioTrackOverrides {
+  /** Voiceover lines (defaults to the dialogue transcript) */
+  scriptText?: string;
+  /** Voice direction, SFX list, or music brief (defaults to audio_requirements) */
+  description?: string;
+}
+
+export type AudioOutcome =
+  | { status: "ready"; audioUrl: string; durationSeconds?: number | null }
+  | { status: "failed"; error: string };
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * Build a track request from the scene's audio requirements
+ * @returns null when the scene has nothing to generate for this track type
+ */
+export function buildAudioRequest(
+  scene: Pick<Scene, "full_data" | "raw_scene_data">,
+  type: AudioTrackType,
+  shotSeconds: number | null,
+  overrides: AudioTrackOverrides = {}
+): AudioTrackRequest | null {
+  // raw_scene_data carries the full audio breakdown (voice type, music cue)
+  const requirements: RawSceneData["audio_requirements"] = {
+    ...scene.full_data?.audio_requirements,
+    ...scene.raw_scene_data?.audio_requirements,
+  };
+  const estimated = scene.raw_scene_data?.estimated_duration_seconds ?? scene.full_data?.estimated_duration_seconds;
+  const durationSeconds = shotSeconds || estimated || DEFAULT_TRACK_SECONDS;
+  const description = overrides.description?.trim();
+
+  if (type === "voiceover") {
+    const scriptText = overrides.scriptText?.trim() || requirements.dialogue_transcript?.trim();
+    if (!scriptText) return null;
+
+    const direction = [requirements.voice_type, requirements.dialogue_tone].filter(Boolean).join(", ");
+    return {
+      scriptText,
+      audioDescription: description || direction || "Natural delivery matching the scene",
+      durationSeconds,
+    };
+  }
+
+  if (type === "sfx") {
+    const effects = [...toList(requirements.sfx), ...toList(requirements.ambient)];
+    const audioDescription = description || effects.join(", ");
+    return audioDescription ? { scriptText: null, audioDescription, durationSeconds } : null;
+  }
+
+  const audioDescription = description || requirements.music || requirements.music_mood;
+  return audioDescription ? { scriptText: null, audioDescription, durationSeconds } : null;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * All audio tracks of the given scenes, newest first
+ */
+export async function getSceneAudioTracks(sceneIds: string[]): Promise<SceneAudio[]> {
+  if (sceneIds.length === 0) return [];
+
+  return db
+    .select()
+    .from(scene_audio)
+    .where(inArray(scene_audio.scene_id, sceneIds))
+    .orderBy(desc(scene_audio.created_at));
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+/**
+ * Start generating a track for a scene
+ * @throws Error when the scene has nothing to generate or the provider rejects the request
+ */
+export async function startSceneAudioGeneration(
+  sceneId: string,
+  type: AudioTrackType,
+  options: AudioTrackOverrides & { apiKeys?: ApiKeys } = {}
+): Promise<SceneAudio> {
+  const [scene] = await db.select().from(scenes).where(eq(scenes.id, sceneId)).limit(1);
+  if (!scene) {
+    throw new Error("Scene not found");
+  }
+
+  const shots = await db
+    .select({
+      seconds: scene_shots.shot_duration_seconds,
+      trimIn: scene_shots.trim_in_seconds,
+      trimOut: scene_shots.trim_out_seconds,
+    })
+    .from(scene_shots)
+    .where(eq(scene_shots.scene_id, sceneId));
+  // Tracks cover the scene as it plays in the reel (trimmed)
+  const shotSeconds = shots.reduce((sum, shot) => sum + getTrimmedDuration(shot.seconds, shot.trimIn, shot.trimOut), 0);
+
+  const request = buildAudioRequest(scene, type, shotSeconds || null, options);
+  if (!request) {
+    throw new Error(
+      type === "voiceover"
+        ? "Scene has no dialogue - enter the voiceover lines to generate one"
+        : `Scene lists no ${type === "sfx" ? "sound effects" : "music"} - describe what you want to generate`
+    );
+  }
+
+  const [track] = await db
+    .insert(scene_audio)
+    .values({
+      scene_id: sceneId,
+      audio_type: type,
+      status: "generating",
+      script_text: request.scriptText,
+      audio_description: request.audioDescription,
+      duration_seconds: Math.round(request.durationSeconds),
+    })
+    .returning();
+
+  const result = await generateAudio(
+    {
+      scene_audio_id: track.id,
+      audio_type: type,
+      script_text: request.scriptText ?? undefined,
+      audio_description: request.audioDescription,
+      duration: request.durationSeconds,
+      callback_url: `${env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/audio-generated`,
+    },
+    options.apiKeys
+  );
+
+  if (!result.success) {
+    await settleSceneAudio(track.id, { status: "failed", error: result.error || "Audio generation failed" });
+    throw new Error(result.error || "Audio generation failed");
+  }
+
+  const [updated] = await db
+    .update(scene_audio)
+    .set({ n8n_job_id: result.executionId ?? result.data?.taskId ?? null, updated_at: new Date() })
+    .where(eq(scene_audio.id, track.id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Record a generation result (webhook callback or reconciler)
+ * Only generating tracks are settled; a ready track replaces the older
+ * tracks of its type.
+ * @returns The settled track, or null when it is gone or already settled
+ */
+export async function settleSceneAudio(audioId: string, outcome: AudioOutcome): Promise<SceneAudio | null> {
+  const [track] = await db
+    .update(scene_audio)
+    .set(
+      outcome.status === "ready"
+        ? {
+            status: "ready",
+            audio_url: outcome.audioUrl,
+            ...(outcome.durationSeconds ? { duration_seconds: Math.round(outcome.durationSeconds) } : {}),
+            error_message: null,
+            n8n_job_id: null,
+            updated_at: new Date(),
+          }
+        : { status: "failed", error_message: outcome.error, n8n_job_id: null, updated_at: new Date() }
+    )
+    .where(and(eq(scene_audio.id, audioId), eq(scene_audio.status, "generating")))
+    .returning();
+
+  if (track?.status === "ready") {
+    await removeReplacedTracks(track);
+  }
+
+  return track ?? null;
+}
+
+// ============================================================================
+// Uploads & Review
+// ============================================================================
+
+/**
+ * Store an uploaded track (ready for approval right away)
+ */
+export async function uploadSceneAudioTrack(
+  sceneId: string,
+  type: AudioTrackType,
+  file: { buffer: Buffer; filename: string; contentType: string },
+  durationSeconds: number | null
+): Promise<SceneAudio> {
+  const supabase = createSupabaseServerAdminClient();
+  const safeName = file.filename.replace(/[^a-zA-Z0-9._-]/g, "_");
+  const storagePath = `${sceneId}/${type}-${Date.now()}-${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(SCENE_AUDIO_BUCKET)
+    .upload(storagePath, file.buffer, { contentType: file.contentType, upsert: true });
+
+  if (error) {
+    throw new Error(`Failed to upload audio: ${error.message}`);
+  }
+
+  const { data } = supabase.storage.from(SCENE_AUDIO_BUCKET).getPublicUrl(storagePath);
+
+  const [track] = await db
+    .insert(scene_audio)
+    .values({
+      scene_id: sceneId,
+      audio_type: type,
+      status: "ready",
+      audio_storage_path: storagePath,
+      audio_url: data.publicUrl,
+      duration_seconds: durationSeconds ? Math.round(durationSeconds) : null,
+      is_uploaded: true,
+    })
+    .returning();
+
+  await removeReplacedTracks(track);
+  return track;
+}
+
+/**
+ * Approve a ready track for the final reel
+ * @throws Error when the track is not ready
+ */
+export async function approveSceneAudioTrack(audioId: string): Promise<SceneAudio> {
+  const [track] = await db
+    .update(scene_audio)
+    .set({ status: "approved", approved_at: new Date(), updated_at: new Date() })
+    .where(and(eq(scene_audio.id, audioId), inArray(scene_audio.status, ["ready", "approved"])))
+    .returning();
+
+  if (!track) {
+    throw new Error("Only finished tracks can be approved");
+  }
+
+  return track;
+}
+
+/**
+ * Delete a track (and its uploaded file)
+ */
+export async function deleteSceneAudioTrack(audioId: string): Promise<void> {
+  const [track] = await db
+    .delete(scene_audio)
+    .where(eq(scene_audio.id, audioId))
+    .returning();
+
+  if (track) {
+    await removeUploadedFiles([track]);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toList(value: string[] | string | undefined): string[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Drop the older tracks a newly ready track replaces
+ * Newer in-flight generations are left alone.
+ */
+async function removeReplacedTracks(track: SceneAudio): Promise<void> {
+  const replaced = await db
+    .delete(scene_audio)
+    .where(
+      and(
+        eq(scene_audio.scene_id, track.scene_id),
+        eq(scene_audio.audio_type, track.audio_type),
+        ne(scene_audio.id, track.id),
+        lt(scene_audio.created_at, track.created_at)
+      )
+    )
+    .returning();
+
+  if (replaced.length > 0) {
+    console.log(`🔁 Replaced ${replaced.length} ${track.audio_type} track(s) on scene ${track.scene_id}`);
+    await removeUploadedFiles(replaced);
+  }
+}
+
+async function removeUploadedFiles(tracks: SceneAudio[]): Promise<void> {
+  const paths = tracks
+    .filter((track) => track.is_uploaded && track.audio_storage_path)
+    .map((track) => track.audio_storage_path!);
+  if (paths.length === 0) return;
+
+  const { error } = await createSupabaseServerAdminClient().storage.from(SCENE_AUDIO_BUCKET).remove(paths);
+  if (error) {
+    // Orphaned files are harmless - don't fail the replacement
+    console.error("⚠️ Failed to remove replaced audio files:", error.message);
+  }
+}
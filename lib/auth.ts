@@ -1,10 +1,11 @@
 import { createClient } from "@/lib/supabase/server";
 import { redirect } from "next/navigation";
 import type { User } from "@supabase/supabase-js";
+import { env } from "@/lib/env";
 
 /**
  * Get the current authenticated user and their role
- * Note: Demo mode - no users table yet, using Supabase auth only
+ * Note: no users table yet - Supabase auth plus the ADMIN_EMAILS allowlist
  * @returns Promise<{user: User, isAdmin: boolean} | null>
  */
 export async function getCurrentUserWithRole(): Promise<{
@@ -22,11 +23,15 @@ export async function getCurrentUserWithRole(): Promise<{
       return null;
     }
 
-    // Demo mode: All users are non-admin
-    // TODO: Add users table and role checking in Phase 4+
+    // No users table yet - admins are listed in ADMIN_EMAILS
+    const adminEmails = (env.ADMIN_EMAILS ?? "")
+      .split(",")
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean);
+
     return {
       user: authUser,
-      isAdmin: false,
+      isAdmin: !!authUser.email && adminEmails.includes(authUser.email.toLowerCase()),
     };
   } catch (error) {
     console.error("Error getting current user with role:", error);
@@ -0,0 +1,288 @@
+/**
+ * Reel Captions
+ *
+ * Subtitle cues for an assembled reel, built from the spoken lines of its
+ * shots (`scene_shots.dialogue_segment`, else the scene's
+ * `audio_requirements.dialogue_transcript` spread over the scene's shots).
+ * Each line is placed at its shot's position on the reel and held for an
+ * estimated speech rate, then the cues can be edited by hand and exported
+ * as SRT or WebVTT.
+ */
+
+import { isOverlappingTransition, type Transition } from "@/lib/transitions";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const CAPTION_FORMATS = ["srt", "vtt"] as const;
+export type CaptionFormat = (typeof CAPTION_FORMATS)[number];
+
+export interface CaptionCue {
+  /** Seconds from the start of the reel */
+  start: number;
+  end: number;
+  /** One or two lines */
+  text: string;
+}
+
+export interface CaptionSourceShot {
+  /** Length on the reel (after trimming) */
+  durationSeconds: number;
+  /** Transition from the previous shot on the reel (ignored on the first) */
+  transition: Transition;
+  dialogue: string | null;
+}
+
+export interface CaptionSourceScene {
+  /** Spread over the whole scene when none of its shots has dialogue */
+  transcript: string | null;
+  shots: CaptionSourceShot[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Average speaking rate (150 words per minute) */
+export const WORDS_PER_SECOND = 2.5;
+
+export const MAX_CAPTION_LINE_CHARS = 42;
+const MAX_CUE_CHARS = MAX_CAPTION_LINE_CHARS * 2;
+
+/** Shortest time a cue stays up when there is room for it */
+const MIN_CUE_SECONDS = 1;
+/** Delay before the first line of a shot and pause between cues */
+const CUE_LEAD_SECONDS = 0.2;
+const CUE_GAP_SECONDS = 0.1;
+
+/** Matches the reel's 24 fps - shorter transitions are cuts */
+const MIN_TRANSITION_SECONDS = 1 / 24;
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+/**
+ * Time the dialogue of a reel's shots as caption cues
+ *
+ * Shot positions follow assembly: overlapping transitions (at most half of
+ * either shot) pull the next shot earlier, fades and cuts don't.
+ */
+export function buildCaptionCues(scenes: CaptionSourceScene[]): CaptionCue[] {
+  const shots = scenes.flatMap((scene) => scene.shots);
+  const starts: number[] = [];
+  shots.forEach((shot, index) => {
+    if (index === 0) {
+      starts.push(0);
+      return;
+    }
+    const previous = shots[index - 1];
+    const overlap = Math.min(shot.transition.duration, previous.durationSeconds / 2, shot.durationSeconds / 2);
+    const overlaps = isOverlappingTransition(shot.transition.type) && overlap >= MIN_TRANSITION_SECONDS;
+    starts.push(starts[index - 1] + previous.durationSeconds - (overlaps ? overlap : 0));
+  });
+
+  const cues: CaptionCue[] = [];
+  let shotIndex = 0;
+
+  for (const scene of scenes) {
+    const first = shotIndex;
+    shotIndex += scene.shots.length;
+    if (scene.shots.length === 0) continue;
+
+    if (scene.shots.some((shot) => shot.dialogue?.trim())) {
+      scene.shots.forEach((shot, index) => {
+        if (!shot.dialogue?.trim()) return;
+        const start = starts[first + index];
+        cues.push(...layoutSpeech(shot.dialogue, start, start + shot.durationSeconds));
+      });
+    } else if (scene.transcript?.trim()) {
+      const last = shotIndex - 1;
+      cues.push(...layoutSpeech(scene.transcript, starts[first], starts[last] + shots[last].durationSeconds));
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * Lay spoken text out as consecutive cues within [start, end], each held
+ * for its estimated speaking time (squeezed when the window is too short)
+ */
+function layoutSpeech(text: string, start: number, end: number): CaptionCue[] {
+  const chunks = toCaptionLines(text).flatMap(splitIntoChunks);
+  if (chunks.length === 0) return [];
+
+  const speaking = chunks.map((chunk) =>
+    Math.max(MIN_CUE_SECONDS, chunk.split(/\s+/).length / WORDS_PER_SECOND)
+  );
+  const needed = speaking.reduce((total, seconds) => total + seconds, 0) + CUE_GAP_SECONDS * (chunks.length - 1);
+  const available = end - start - CUE_LEAD_SECONDS;
+  const scale = available > 0 ? Math.min(1, available / needed) : 0;
+  if (scale === 0) return [];
+
+  const cues: CaptionCue[] = [];
+  let time = start + CUE_LEAD_SECONDS;
+  chunks.forEach((chunk, index) => {
+    const cueEnd = time + speaking[index] * scale;
+    cues.push({ start: roundTime(time), end: roundTime(cueEnd), text: wrapCaption(chunk) });
+    time = cueEnd + CUE_GAP_SECONDS * scale;
+  });
+
+  return cues;
+}
+
+/**
+ * Spoken lines of a dialogue segment or transcript, without delivery notes:
+ * `JOHN (angry): "Get out."` -> `JOHN: Get out.`
+ */
+export function toCaptionLines(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .map((line) =>
+      line
+        .replace(/\([^)]*\)|\[[^\]]*\]/g, " ")
+        .replace(/\s+/g, " ")
+        .replace(/\s+([:,.!?])/g, "$1")
+        .trim()
+    )
+    .map((line) => {
+      const speaker = line.match(/^([A-Z][A-Z0-9 .'-]{0,30}):\s*(.*)$/);
+      const [name, speech] = speaker ? [speaker[1].trim(), speaker[2]] : [null, line];
+      const unquoted = speech.replace(/^["'“‘]+|["'”’]+$/g, "").trim();
+      return unquoted && name ? `${name}: ${unquoted}` : unquoted;
+    })
+    .filter(Boolean);
+}
+
+/**
+ * Split a line into cue-sized chunks, preferring sentence ends
+ */
+function splitIntoChunks(line: string): string[] {
+  const sentences = line.match(/[^.!?…]+[.!?…]*["'”’]?\s*/g) ?? [line];
+  const chunks: string[] = [];
+  let current = "";
+
+  const push = (piece: string) => {
+    const joined = current ? `${current} ${piece}` : piece;
+    if (joined.length <= MAX_CUE_CHARS) {
+      current = joined;
+      return;
+    }
+    if (current) chunks.push(current);
+    current = piece;
+  };
+
+  for (const sentence of sentences.map((s) => s.trim()).filter(Boolean)) {
+    if (sentence.length <= MAX_CUE_CHARS) {
+      push(sentence);
+      continue;
+    }
+    // A sentence too long for one cue is split by words
+    for (const word of sentence.split(/\s+/)) {
+      push(word);
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Break a cue into two balanced lines when it is too long for one
+ */
+export function wrapCaption(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= MAX_CAPTION_LINE_CHARS) return flat;
+
+  const middle = flat.length / 2;
+  let breakAt = -1;
+  for (let i = 0; i < flat.length; i++) {
+    if (flat[i] === " " && (breakAt === -1 || Math.abs(i - middle) < Math.abs(breakAt - middle))) {
+      breakAt = i;
+    }
+  }
+  return breakAt === -1 ? flat : `${flat.slice(0, breakAt)}\n${flat.slice(breakAt + 1)}`;
+}
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+/**
+ * Clean up edited cues: trimmed text, no empty cues, in start order
+ */
+export function normalizeCaptionCues(cues: CaptionCue[]): CaptionCue[] {
+  return cues
+    .map((cue) => ({
+      start: roundTime(Math.max(0, cue.start)),
+      end: roundTime(Math.max(0, cue.end)),
+      text: cue.text
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join("\n"),
+    }))
+    .filter((cue) => cue.text && cue.end > cue.start)
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Read a reel's stored captions (null when none were generated)
+ */
+export function toCaptionCues(captions: unknown): CaptionCue[] | null {
+  return Array.isArray(captions) ? (captions as CaptionCue[]) : null;
+}
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+/**
+ * SubRip (.srt) - numbered cues, `00:00:01,500` timestamps
+ */
+export function toSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatCaptionTime(cue.start, ",")} --> ${formatCaptionTime(cue.end, ",")}\n${cue.text}\n`)
+    .join("\n");
+}
+
+/**
+ * WebVTT (.vtt) for the HTML5 <track> element - `00:00:01.500` timestamps
+ */
+export function toVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map((cue) => `${formatCaptionTime(cue.start, ".")} --> ${formatCaptionTime(cue.end, ".")}\n${escapeVttText(cue.text)}\n`)
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+export function formatCaptions(cues: CaptionCue[], format: CaptionFormat): string {
+  return format === "srt" ? toSrt(cues) : toVtt(cues);
+}
+
+/**
+ * 83.5 -> "00:01:23,500" (SRT) or "00:01:23.500" (VTT)
+ */
+export function formatCaptionTime(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -0,0 +1,119 @@
+/**
+ * Keyframe Continuity
+ *
+ * In a scene's continuity mode, every cut inside the scene matches: shot N's
+ * start frame is shot N-1's final image - its generated end frame when that
+ * is ready, otherwise the last frame extracted from its video. The first
+ * shot, extend shots (which continue the previous clip anyway), and shots
+ * with `continuity_override` keep their own start frame.
+ *
+ * A last frame belongs to the video it was taken from
+ * (`last_frame_video_url`); when the shot's selected take changes, the frame
+ * has to be extracted again before the next shot can use it.
+ */
+
+import type { Scene, SceneShot } from "@/lib/drizzle/schema";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ContinuityFrameSource = "end_frame" | "last_frame";
+
+export interface ContinuityFrame {
+  url: string;
+  source: ContinuityFrameSource;
+}
+
+/** How a shot's start frame is chained from the shot before it */
+export interface ContinuityLink {
+  shotId: string;
+  fromShotId: string;
+  fromShotNumber: number;
+  /** Null until the previous shot has an end frame or an extracted last frame */
+  frame: ContinuityFrame | null;
+  /** The previous shot has a video whose last frame hasn't been extracted */
+  needsExtraction: boolean;
+  /** The previous shot's video is being regenerated - its final image will change */
+  fromShotGenerating: boolean;
+}
+
+export type ContinuityShot = Pick<
+  SceneShot,
+  | "id"
+  | "shot_number"
+  | "uses_extend"
+  | "continuity_override"
+  | "end_frame_image_url"
+  | "end_frame_status"
+  | "last_frame_image_url"
+  | "last_frame_video_url"
+  | "video_url"
+  | "video_status"
+>;
+
+export const CONTINUITY_SOURCE_LABELS: Record<ContinuityFrameSource, string> = {
+  end_frame: "end frame",
+  last_frame: "last frame",
+};
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * The image a shot's successor starts on, if it has one yet
+ */
+export function getContinuityFrame(shot: ContinuityShot): ContinuityFrame | null {
+  if (shot.end_frame_status === "ready" && shot.end_frame_image_url) {
+    return { url: shot.end_frame_image_url, source: "end_frame" };
+  }
+  if (shot.last_frame_image_url && shot.video_url && shot.last_frame_video_url === shot.video_url) {
+    return { url: shot.last_frame_image_url, source: "last_frame" };
+  }
+  return null;
+}
+
+/**
+ * Chain a scene's shots
+ *
+ * @param scene - The scene, for its continuity mode
+ * @param shots - The scene's shots in play order
+ * @returns A link for each shot that takes its start frame from the shot
+ *   before it (none when continuity mode is off)
+ */
+export function planContinuity(
+  scene: Pick<Scene, "continuity_mode">,
+  shots: ContinuityShot[]
+): ContinuityLink[] {
+  if (!scene.continuity_mode) return [];
+
+  return shots.flatMap((shot, index) => {
+    if (index === 0 || shot.uses_extend || shot.continuity_override) return [];
+
+    const previous = shots[index - 1];
+    const frame = getContinuityFrame(previous);
+    return [
+      {
+        shotId: shot.id,
+        fromShotId: previous.id,
+        fromShotNumber: previous.shot_number,
+        frame,
+        needsExtraction: !frame && !!previous.video_url,
+        fromShotGenerating: previous.video_status === "generating",
+      },
+    ];
+  });
+}
+
+/**
+ * Describe where a chained start frame comes from, e.g. "Shot 2 end frame"
+ */
+export function describeContinuityLink(link: ContinuityLink): string {
+  if (link.frame) {
+    return `Shot ${link.fromShotNumber} ${CONTINUITY_SOURCE_LABELS[link.frame.source]}`;
+  }
+  return link.needsExtraction
+    ? `Shot ${link.fromShotNumber} last frame (extracted when this shot generates)`
+    : `Shot ${link.fromShotNumber} end frame (not generated yet)`;
+}
@@ -0,0 +1,142 @@
+/**
+ * Keyframe continuity (server only) - see lib/continuity for the rules
+ *
+ * Writes chained start frames onto shots. When the previous shot has no end
+ * frame and its video hasn't been processed yet, its media is made on the
+ * spot (see lib/video-media) for the last frame.
+ */
+
+import { db } from "@/lib/drizzle/db";
+import { scenes, scene_shots, type Scene, type SceneShot } from "@/lib/drizzle/schema";
+import { asc, eq } from "drizzle-orm";
+import { processShotMedia } from "@/lib/video-media/process";
+import { planContinuity, type ContinuityFrame, type ContinuityLink } from "./index";
+
+export interface ContinuitySyncResult {
+  /** Shots whose start frame changed */
+  updated: number;
+  /** Last frames extracted from shot videos */
+  extracted: number;
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Chain the start frames of a scene in continuity mode
+ * @param options.extract - Extract missing last frames (needs ffmpeg);
+ *   without it, shots waiting for one keep their current start frame
+ */
+export async function syncSceneContinuity(
+  sceneId: string,
+  options: { extract?: boolean } = {}
+): Promise<ContinuitySyncResult> {
+  const result: ContinuitySyncResult = { updated: 0, extracted: 0 };
+
+  const [scene] = await db.select().from(scenes).where(eq(scenes.id, sceneId)).limit(1);
+  if (!scene?.continuity_mode) return result;
+
+  const shots = await getSceneShots(sceneId);
+  for (const link of planContinuity(scene, shots)) {
+    const applied = await applyContinuityLink(link, shots, options.extract ?? false);
+    if (applied.extracted) result.extracted++;
+    if (applied.updated) result.updated++;
+  }
+
+  if (result.updated > 0 || result.extracted > 0) {
+    console.log(`🔗 Continuity synced for scene ${sceneId}:`, result);
+  }
+
+  return result;
+}
+
+/**
+ * Bring one shot's chained start frame up to date before it generates
+ *
+ * Extracts the previous shot's last frame when needed, unless the previous
+ * shot is generating.
+ * @returns The shot's link (its frame is null when the previous shot has
+ *   nothing to chain yet), or null when the shot keeps its own start frame
+ */
+export async function resolveContinuityStartFrame(
+  scene: Scene,
+  shotId: string
+): Promise<ContinuityLink | null> {
+  if (!scene.continuity_mode) return null;
+
+  const shots = await getSceneShots(scene.id);
+  const link = planContinuity(scene, shots).find((entry) => entry.shotId === shotId);
+  if (!link) return null;
+
+  // The previous shot's final image is about to change - nothing to extract yet
+  if (link.fromShotGenerating) return link;
+
+  const { frame } = await applyContinuityLink(link, shots, true);
+  return { ...link, frame, needsExtraction: link.needsExtraction && !frame };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function getSceneShots(sceneId: string): Promise<SceneShot[]> {
+  return db
+    .select()
+    .from(scene_shots)
+    .where(eq(scene_shots.scene_id, sceneId))
+    .orderBy(asc(scene_shots.shot_number));
+}
+
+async function applyContinuityLink(
+  link: ContinuityLink,
+  shots: SceneShot[],
+  extract: boolean
+): Promise<{ frame: ContinuityFrame | null; updated: boolean; extracted: boolean }> {
+  let frame = link.frame;
+  let extracted = false;
+
+  const previous = shots.find((shot) => shot.id === link.fromShotId);
+  if (!frame && link.needsExtraction && extract && previous) {
+    try {
+      frame = await extractShotLastFrame(previous);
+      extracted = true;
+    } catch (error) {
+      console.error(`❌ Failed to extract last frame of shot ${previous.id}:`, error);
+    }
+  }
+
+  const shot = shots.find((entry) => entry.id === link.shotId);
+  if (!frame || !shot || shot.start_frame_image_url === frame.url) {
+    return { frame, updated: false, extracted };
+  }
+
+  // The image belongs to the previous shot - don't take over its storage path
+  await db
+    .update(scene_shots)
+    .set({
+      start_frame_image_url: frame.url,
+      start_frame_storage_path: null,
+      start_frame_status: "ready",
+      start_frame_source_image_url: null,
+      updated_at: new Date(),
+    })
+    .where(eq(scene_shots.id, shot.id));
+
+  return { frame, updated: true, extracted };
+}
+
+/**
+ * Make the stills for a shot's video and chain its last frame
+ * @throws Error when the shot has no video, or ffmpeg or the upload fails
+ */
+async function extractShotLastFrame(shot: SceneShot): Promise<ContinuityFrame> {
+  console.log(`🎞️ Extracting last frame of shot ${shot.shot_number}:`, shot.id);
+
+  const media = await processShotMedia(shot.id);
+  if (!media) {
+    throw new Error(`Shot ${shot.shot_number} has no video, or it changed while processing`);
+  }
+
+  return { url: media.last_frame_url, source: "last_frame" };
+}
@@ -0,0 +1,319 @@
+/**
+ * Draft Re-import
+ *
+ * Applies a revised screenplay draft to an existing project instead of
+ * starting over. The draft is parsed locally (Fountain, Final Draft, or
+ * plain-text screenplay format) and diffed against the current scenes:
+ *
+ * - unchanged scenes keep their approval, images, shots, and videos
+ *   (only their scene number follows the new order, and scenes from older
+ *   imports take the draft's fingerprint and dialogue so the next re-import
+ *   compares exactly)
+ * - changed scenes take the new script text, go back to pending review,
+ *   and lose their approved image, shots, and audio so they regenerate
+ * - added scenes are inserted as pending scenes
+ * - removed scenes are deleted with their assets
+ *
+ * New speaking characters and locations are added to the Bible as pending.
+ */
+
+import { db } from "@/lib/drizzle/db";
+import {
+  projects,
+  scenes as scenesTable,
+  scene_shots,
+  scene_audio,
+  projectCharacters,
+  projectLocations,
+  type NewScene,
+  type RawSceneData,
+  type SceneData,
+} from "@/lib/drizzle/schema";
+import { eq, inArray } from "drizzle-orm";
+import {
+  parseScreenplayFile,
+  toRawSceneData,
+  diffScreenplayScenes,
+  type ScreenplayDiff,
+  type ScreenplayFormat,
+} from "@/lib/screenplay";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DraftInput {
+  scriptContent: string;
+  /** Pasted text is read as Fountain */
+  scriptFormat: ScreenplayFormat;
+}
+
+export interface DraftReimportSummary {
+  counts: ScreenplayDiff["counts"];
+  charactersAdded: number;
+  locationsAdded: number;
+}
+
+/** Project phases that go back to scene review when scenes need regeneration */
+const LATER_PHASES = new Set([
+  "asset_generation",
+  "timeline_review",
+  "final_review",
+  "completed",
+]);
+
+/** Scene data derived from the old script text (prompts, shot breakdown) */
+const STALE_SCENE_FIELDS: Array<keyof SceneData> = [
+  "shots",
+  "requires_extend",
+  "estimated_duration_seconds",
+  "composition_instruction",
+  "composition_instruction_seedream",
+  "composition_instruction_nano_banana",
+  "image_generation_prompt",
+  "video_prompt_veo3",
+];
+
+// ============================================================================
+// Diff & Apply
+// ============================================================================
+
+/**
+ * Parse a draft and diff it against the project's current scenes
+ * @throws ScreenplayParseError when the draft can't be read
+ */
+export async function diffDraft(projectId: string, draft: DraftInput): Promise<ScreenplayDiff> {
+  const screenplay = parseScreenplayFile(draft.scriptFormat, draft.scriptContent);
+
+  const [currentScenes, characters, locations] = await Promise.all([
+    db.select().from(scenesTable).where(eq(scenesTable.project_id, projectId)),
+    db
+      .select({ name: projectCharacters.name })
+      .from(projectCharacters)
+      .where(eq(projectCharacters.project_id, projectId)),
+    db
+      .select({ name: projectLocations.name })
+      .from(projectLocations)
+      .where(eq(projectLocations.project_id, projectId)),
+  ]);
+
+  return diffScreenplayScenes(currentScenes, toRawSceneData(screenplay), screenplay, {
+    characters: characters.map((c) => c.name),
+    locations: locations.map((l) => l.name),
+  });
+}
+
+/**
+ * Apply a draft to the project (recomputes the diff, then writes it in one transaction)
+ * @throws ScreenplayParseError when the draft can't be read
+ */
+export async function applyDraft(projectId: string, draft: DraftInput): Promise<DraftReimportSummary> {
+  const diff = await diffDraft(projectId, draft);
+
+  const [project] = await db
+    .select({ status: projects.status })
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const previousRows = new Map(
+    (await db
+      .select({ id: scenesTable.id, full_data: scenesTable.full_data, raw_scene_data: scenesTable.raw_scene_data })
+      .from(scenesTable)
+      .where(eq(scenesTable.project_id, projectId))
+    ).map((scene) => [scene.id, scene])
+  );
+
+  const removedIds = diff.entries
+    .filter((entry) => entry.type === "removed")
+    .map((entry) => entry.existingSceneId!);
+  const changedIds = diff.entries
+    .filter((entry) => entry.type === "changed")
+    .map((entry) => entry.existingSceneId!);
+
+  await db.transaction(async (tx) => {
+    if (removedIds.length > 0) {
+      await tx.delete(scenesTable).where(inArray(scenesTable.id, removedIds));
+    }
+
+    if (changedIds.length > 0) {
+      await tx.delete(scene_shots).where(inArray(scene_shots.scene_id, changedIds));
+      await tx.delete(scene_audio).where(inArray(scene_audio.scene_id, changedIds));
+    }
+
+    const sceneOrder: string[] = [];
+
+    for (const entry of diff.entries) {
+      if (entry.type === "removed" || !entry.scene || entry.sceneNumber === null) continue;
+
+      if (entry.type === "added") {
+        const [inserted] = await tx
+          .insert(scenesTable)
+          .values({
+            project_id: projectId,
+            scene_number: entry.sceneNumber,
+            slugline: entry.scene.slugline,
+            action_text: entry.scene.action_description || "",
+            full_data: entry.scene,
+          })
+          .returning({ id: scenesTable.id });
+        sceneOrder.push(inserted.id);
+        continue;
+      }
+
+      const sceneId = entry.existingSceneId!;
+      sceneOrder.push(sceneId);
+
+      const previous = previousRows.get(sceneId);
+
+      if (entry.type === "unchanged") {
+        await tx
+          .update(scenesTable)
+          .set({
+            scene_number: entry.sceneNumber,
+            ...(previous ? withSourceText(previous, entry.scene) : {}),
+            updated_at: new Date(),
+          })
+          .where(eq(scenesTable.id, sceneId));
+        continue;
+      }
+
+      await tx
+        .update(scenesTable)
+        .set({
+          scene_number: entry.sceneNumber,
+          slugline: entry.scene.slugline,
+          action_text: entry.scene.action_description || "",
+          full_data: reviseSceneData(
+            previous?.full_data ?? previous?.raw_scene_data ?? null,
+            entry.scene,
+            entry.changes.includes("slugline")
+          ),
+          validation_status: "pending",
+          approved_at: null,
+          approved_image_id: null,
+          approved_image_url: null,
+          updated_at: new Date(),
+        })
+        .where(eq(scenesTable.id, sceneId));
+    }
+
+    if (diff.newCharacters.length > 0) {
+      await tx.insert(projectCharacters).values(
+        diff.newCharacters.map((name) => ({
+          project_id: projectId,
+          name,
+          role: "supporting" as const,
+          visual_dna: `${name} - speaking character from the screenplay`,
+        }))
+      );
+    }
+
+    if (diff.newLocations.length > 0) {
+      await tx.insert(projectLocations).values(
+        diff.newLocations.map((location) => ({
+          project_id: projectId,
+          name: location.name,
+          type: location.type === "EXT" ? ("exterior" as const) : ("interior" as const),
+          visual_description: location.name,
+        }))
+      );
+    }
+
+    const needsReview = diff.counts.added + diff.counts.changed > 0;
+    await tx
+      .update(projects)
+      .set({
+        scene_order: sceneOrder,
+        ...(needsReview && LATER_PHASES.has(project.status) ? { status: "scene_validation" as const } : {}),
+        updated_at: new Date(),
+      })
+      .where(eq(projects.id, projectId));
+  });
+
+  return {
+    counts: diff.counts,
+    charactersAdded: diff.newCharacters.length,
+    locationsAdded: diff.newLocations.length,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Backfill the draft's source fingerprint and dialogue transcript on a scene
+ * imported without a fingerprint, replacing the LLM's rewording of the dialogue
+ * @returns The scene data column to write, or nothing when there is nothing to add
+ */
+function withSourceText(
+  scene: { full_data: SceneData | null; raw_scene_data: RawSceneData | null },
+  draft: RawSceneData
+): Partial<Pick<NewScene, "full_data" | "raw_scene_data">> {
+  if (!draft.source_fingerprint) return {};
+
+  const source = {
+    source_fingerprint: draft.source_fingerprint,
+    dialogue_transcript: draft.audio_requirements?.dialogue_transcript,
+  };
+
+  if (scene.full_data) {
+    if (scene.full_data.source_fingerprint) return {};
+    return { full_data: withSource(scene.full_data, source) };
+  }
+  if (scene.raw_scene_data && !scene.raw_scene_data.source_fingerprint) {
+    return { raw_scene_data: withSource(scene.raw_scene_data, source) };
+  }
+  return {};
+}
+
+function withSource<T extends SceneData | RawSceneData>(
+  data: T,
+  source: { source_fingerprint: string; dialogue_transcript: string | undefined }
+): T {
+  return {
+    ...data,
+    source_fingerprint: source.source_fingerprint,
+    audio_requirements: { ...data.audio_requirements, dialogue_transcript: source.dialogue_transcript },
+  };
+}
+
+/**
+ * New script facts over the previous scene data
+ * Keeps the interpretive fields (visual mood, audio, Bible links) and drops
+ * everything generated from the old text.
+ */
+function reviseSceneData(
+  previous: SceneData | RawSceneData | null,
+  revised: RawSceneData,
+  sluglineChanged: boolean
+): SceneData {
+  if (!previous) return revised;
+
+  const kept: SceneData = { ...previous };
+  for (const field of STALE_SCENE_FIELDS) delete kept[field];
+
+  // Speakers from the draft plus anyone the LLM placed in the scene before
+  const characters = [...(kept.characters_present ?? [])];
+  const names = new Set(characters.map((c) => (typeof c === "string" ? c : c.name ?? "").toLowerCase()));
+  for (const name of revised.characters_present ?? []) {
+    if (!names.has(name.toLowerCase())) characters.push(name);
+  }
+
+  return {
+    ...kept,
+    ...revised,
+    // Keep the Bible-matched location name while the slugline is the same
+    location: sluglineChanged ? revised.location : previous.location || revised.location,
+    characters_present: characters,
+    audio_requirements: {
+      ...kept.audio_requirements,
+      dialogue_transcript: revised.audio_requirements?.dialogue_transcript,
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { pgTable, uuid, text, integer, jsonb, timestamp, index } from "drizzle-orm/pg-core";
+import { jobTypeEnum, jobStatusEnum } from "./enums";
+import { projects } from "./projects";
+import type { InferSelectModel } from "drizzle-orm";
+
+/**
+ * Background Jobs Table
+ *
+ * Durable Postgres-backed queue for long-running work that must survive
+ * the request that started it (scene generation, auto Bible images,
+ * shot video batches, final assembly).
+ *
+ * Workers claim rows with a lease (locked_until) and extend it with
+ * heartbeats. A row whose lease expires while running is reclaimed by
+ * the next worker and counts as a failed attempt.
+ */
+export const background_jobs = pgTable(
+  "background_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    project_id: uuid("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    type: jobTypeEnum("type").notNull(),
+    status: jobStatusEnum("status").default("queued").notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().default({}).notNull(),
+    result: jsonb("result").$type<Record<string, unknown>>(),
+    attempts: integer("attempts").default(0).notNull(),
+    max_attempts: integer("max_attempts").default(3).notNull(),
+    last_error: text("last_error"),
+    run_at: timestamp("run_at", { withTimezone: true }).defaultNow().notNull(), // Earliest time a worker may pick it up (backoff)
+    locked_by: text("locked_by"), // Worker ID holding the lease
+    locked_until: timestamp("locked_until", { withTimezone: true }),
+    heartbeat_at: timestamp("heartbeat_at", { withTimezone: true }),
+    started_at: timestamp("started_at", { withTimezone: true }),
+    completed_at: timestamp("completed_at", { withTimezone: true }),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (t) => [
+    index("background_job_status_run_at_idx").on(t.status, t.run_at),
+    index("background_job_project_id_idx").on(t.project_id),
+  ]
+);
+
+export type BackgroundJob = InferSelectModel<typeof background_jobs>;
+export type NewBackgroundJob = typeof background_jobs.$inferInsert;
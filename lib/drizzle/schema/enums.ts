@@ -13,13 +13,6 @@ export const projectStatusEnum = pgEnum('project_status', [
   'failed',
 ]);
 
-// Visual style presets for film production (3 main styles)
-export const visualStyleEnum = pgEnum('visual_style', [
-  'wes-anderson',
-  'classic-noir',
-  '70s-crime-drama',
-]);
-
 // Prop generation method (from n8n workflow)
 export const propGenerationMethodEnum = pgEnum('prop_generation_method', [
   'GENERATE',
@@ -100,3 +93,32 @@ export const reelStatusEnum = pgEnum('reel_status', [
   'ready',
   'failed',
 ]);
+
+// Background job types (durable queue, see lib/jobs)
+export const jobTypeEnum = pgEnum('job_type', [
+  'scene_generation',
+  'bible_auto_generation',
+  'shot_video_batch',
+  'final_assembly',
+  'caption_burn_in',
+  'stale_shot_regeneration',
+  'video_media',
+]);
+
+// Background job lifecycle
+export const jobStatusEnum = pgEnum('job_status', [
+  'queued', // Waiting for a worker (or for its backoff to elapse)
+  'running', // Leased by a worker - reclaimed if the lease expires
+  'succeeded',
+  'failed', // Out of attempts or permanently failed
+]);
+
+// Transition into a scene or shot from the previous one (see lib/transitions.ts)
+export const transitionTypeEnum = pgEnum('transition_type', [
+  'cut',
+  'dissolve',
+  'fade_to_black',
+  'fade_from_black',
+  'dip_to_white',
+  'whip',
+]);
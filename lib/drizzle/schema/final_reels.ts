@@ -1,6 +1,7 @@
-import { pgTable, uuid, text, integer, bigint, jsonb, timestamp, index } from "drizzle-orm/pg-core";
-import { reelStatusEnum } from "./enums";
+import { pgTable, uuid, text, integer, bigint, jsonb, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { assetStatusEnum, reelStatusEnum } from "./enums";
 import { projects } from "./projects";
+import type { VideoMedia } from "./scene_shots";
 import type { InferSelectModel } from "drizzle-orm";
 
 export const final_reels = pgTable(
@@ -10,8 +11,13 @@ export const final_reels = pgTable(
     project_id: uuid("project_id")
       .notNull()
       .references(() => projects.id, { onDelete: "cascade" }),
+    // Each assembly adds a version (1, 2, ...) - earlier versions are never overwritten
+    version_number: integer("version_number").notNull(),
+    label: text("label"), // "v3 - producer notes"
+    manifest: jsonb("manifest"), // What was rendered - see lib/reel-versions.ts
     video_storage_path: text("video_storage_path"),
     video_url: text("video_url"), // Direct MP4 download URL from FFmpeg API
+    video_media: jsonb("video_media").$type<VideoMedia>(), // Frames, poster, and scrub sprite - see lib/video-media
     youtube_url: text("youtube_url"), // YouTube unlisted video URL
     youtube_id: text("youtube_id"), // YouTube video ID for embedding
     duration_seconds: integer("duration_seconds"),
@@ -20,6 +26,12 @@ export const final_reels = pgTable(
     status: reelStatusEnum("status").default("assembling").notNull(),
     n8n_job_id: text("n8n_job_id"),
     assembly_progress: jsonb("assembly_progress"),
+    // Caption cues timed to this version - see lib/captions.ts
+    captions: jsonb("captions"),
+    // Copy of the reel with the captions burned in (null status = not rendered)
+    captioned_video_url: text("captioned_video_url"),
+    captioned_video_status: assetStatusEnum("captioned_video_status"),
+    captioned_error_message: text("captioned_error_message"),
     approved_at: timestamp("approved_at", { withTimezone: true }),
     error_message: text("error_message"),
     created_at: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
@@ -27,6 +39,7 @@ export const final_reels = pgTable(
   (t) => [
     index("final_reel_project_id_idx").on(t.project_id),
     index("final_reel_status_idx").on(t.status),
+    uniqueIndex("final_reel_project_version_idx").on(t.project_id, t.version_number),
   ]
 );
 
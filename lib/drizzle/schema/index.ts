@@ -9,9 +9,14 @@ export * from "./scene_images";
 export * from "./scene_image_variants";
 export * from "./scene_videos";
 export * from "./scene_shots";
+export * from "./shot_takes";
 export * from "./scene_audio";
 export * from "./final_reels";
 export * from "./share_links";
+export * from "./webhook_deliveries";
+export * from "./background_jobs";
+export * from "./n8n_workflows";
+export * from "./style_presets";
 
 // Bible assets (characters, locations, props)
 export * from "./project_characters";
@@ -25,10 +30,15 @@ export type { Scene, NewScene, RawSceneData, SceneData, ShotData, InlineCharacte
 export type { SceneImage, NewSceneImage } from "./scene_images";
 export type { SceneImageVariant, NewSceneImageVariant } from "./scene_image_variants";
 export type { SceneVideo, NewSceneVideo } from "./scene_videos";
-export type { SceneShot, NewSceneShot, Veo3PromptData } from "./scene_shots";
+export type { SceneShot, NewSceneShot, Veo3PromptData, VideoMedia, ScrubSprite } from "./scene_shots";
+export type { ShotTake, NewShotTake, ShotTakeFlag, TakeSources } from "./shot_takes";
 export type { SceneAudio, NewSceneAudio } from "./scene_audio";
 export type { FinalReel, NewFinalReel } from "./final_reels";
 export type { ShareLink, NewShareLink } from "./share_links";
+export type { WebhookDelivery, NewWebhookDelivery } from "./webhook_deliveries";
+export type { BackgroundJob, NewBackgroundJob } from "./background_jobs";
+export type { N8nWorkflowRow, NewN8nWorkflowRow } from "./n8n_workflows";
+export type { StylePreset, NewStylePreset, StyleModelOverrides } from "./style_presets";
 
 // Bible asset types
 export type { ProjectCharacter, NewProjectCharacter, CharacterRawData } from "./project_characters";
@@ -0,0 +1,26 @@
+import { pgTable, text, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import type { InferSelectModel } from "drizzle-orm";
+
+/**
+ * n8n Workflows Table
+ *
+ * Per-deployment overrides for the workflow registry (lib/n8n/registry.ts).
+ * A row replaces the built-in/config-file entry with the same name, so a
+ * self-hosted instance can point a pipeline stage at its own n8n without
+ * editing source. Null columns keep the lower-priority value.
+ */
+export const n8n_workflows = pgTable("n8n_workflows", {
+  name: text("name").primaryKey(), // Registry key, e.g. "generate_scenes"
+  n8n_workflow_id: text("n8n_workflow_id"),
+  webhook_url: text("webhook_url"),
+  webhook_method: text("webhook_method"),
+  active: boolean("active"),
+  stage: text("stage"),
+  description: text("description"),
+  required_inputs: jsonb("required_inputs").$type<string[]>(),
+  created_at: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+export type N8nWorkflowRow = InferSelectModel<typeof n8n_workflows>;
+export type NewN8nWorkflowRow = typeof n8n_workflows.$inferInsert;
@@ -1,18 +1,30 @@
 import { pgTable, uuid, text, boolean, integer, jsonb, timestamp, index } from "drizzle-orm/pg-core";
-import { projectStatusEnum, visualStyleEnum } from "./enums";
+import { projectStatusEnum } from "./enums";
+import { style_presets } from "./style_presets";
 import type { InferSelectModel } from "drizzle-orm";
 
 export const projects = pgTable(
   "projects",
   {
     id: uuid("id").primaryKey().defaultRandom(),
+    // Supabase auth user who created the project (null for legacy anonymous uploads)
+    owner_id: uuid("owner_id"),
     title: text("title").notNull(),
     screenplay_filename: text("screenplay_filename").notNull(),
     screenplay_storage_path: text("screenplay_storage_path").notNull(),
-    visual_style: visualStyleEnum("visual_style").notNull(),
+    // Built-in style key (lib/styles) or the custom preset's name
+    visual_style: text("visual_style").notNull(),
+    // Custom style preset (null = built-in style from visual_style)
+    style_preset_id: uuid("style_preset_id").references(() => style_presets.id, { onDelete: "set null" }),
     style_locked: boolean("style_locked").default(false).notNull(),
     // Auto mode: generates Bible assets (portraits + locations) automatically after parsing
     auto_mode: boolean("auto_mode").default(false).notNull(),
+    // Final reel assembly engine: local ffmpeg or the remote FFmpeg API (null = ASSEMBLY_BACKEND)
+    assembly_backend: text("assembly_backend").$type<"local" | "remote">(),
+    // Animatic render settings - Ken Burns motion, zoom, on-screen text (null = defaults, see lib/animatic)
+    animatic_settings: jsonb("animatic_settings"),
+    // Aspect ratio / delivery format, chosen at creation (see lib/formats)
+    format: text("format").$type<"16:9" | "9:16" | "1:1" | "2.39:1">().default("16:9").notNull(),
     status: projectStatusEnum("status").default("parsing").notNull(),
     n8n_parse_job_id: text("n8n_parse_job_id"),
     total_duration_seconds: integer("total_duration_seconds"),
@@ -21,6 +33,7 @@ export const projects = pgTable(
     updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
   },
   (t) => [
+    index("project_owner_id_idx").on(t.owner_id),
     index("project_status_idx").on(t.status),
     index("project_created_at_idx").on(t.created_at),
   ]
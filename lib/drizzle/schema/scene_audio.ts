@@ -1,8 +1,15 @@
-import { pgTable, uuid, text, integer, timestamp, index } from "drizzle-orm/pg-core";
+import { pgTable, uuid, text, integer, boolean, timestamp, index } from "drizzle-orm/pg-core";
 import { audioTypeEnum, assetStatusEnum } from "./enums";
 import { scenes } from "./scenes";
 import type { InferSelectModel } from "drizzle-orm";
 
+/**
+ * Scene Audio Table
+ *
+ * Voiceover, SFX, and music tracks per scene - generated from the scene's
+ * audio_requirements or uploaded. Approved tracks are mixed over the shot
+ * videos at assembly (an approved voiceover replaces the Veo audio).
+ */
 export const scene_audio = pgTable(
   "scene_audio",
   {
@@ -17,9 +24,13 @@ export const scene_audio = pgTable(
     status: assetStatusEnum("status").default("generating").notNull(),
     n8n_job_id: text("n8n_job_id"),
     genre_preset: text("genre_preset"),
+    script_text: text("script_text"), // Voiceover lines sent for generation
+    audio_description: text("audio_description"), // SFX/music/voice direction sent for generation
+    is_uploaded: boolean("is_uploaded").default(false).notNull(),
     approved_at: timestamp("approved_at", { withTimezone: true }),
     error_message: text("error_message"),
     created_at: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
   },
   (t) => [
     index("scene_audio_scene_id_idx").on(t.scene_id),
@@ -7,8 +7,9 @@ import {
   timestamp,
   index,
   jsonb,
+  real,
 } from "drizzle-orm/pg-core";
-import { assetStatusEnum } from "./enums";
+import { assetStatusEnum, transitionTypeEnum } from "./enums";
 import { scenes } from "./scenes";
 import type { InferSelectModel } from "drizzle-orm";
 
@@ -37,6 +38,37 @@ export interface Veo3PromptData {
   technical?: string | null;
 }
 
+/**
+ * Scrub sprite sheet: a grid of small frames taken every `interval_seconds`,
+ * left to right, top to bottom
+ */
+export interface ScrubSprite {
+  url: string;
+  columns: number;
+  rows: number;
+  frame_count: number;
+  tile_width: number;
+  tile_height: number;
+  interval_seconds: number;
+}
+
+/**
+ * Stills made from a shot video or reel by media processing (see
+ * lib/video-media). Only valid while `video_url` is the row's video.
+ */
+export interface VideoMedia {
+  video_url: string;
+  duration_seconds: number;
+  first_frame_url: string;
+  middle_frame_url: string;
+  last_frame_url: string;
+  poster_url: string;
+  sprite: ScrubSprite;
+  /** Storage folder holding the files */
+  storage_prefix: string;
+  processed_at: string;
+}
+
 /**
  * Scene Shots Table for Veo 3.1 Video Generation
  *
@@ -50,6 +82,13 @@ export interface Veo3PromptData {
  * - start_frame_image_url: Generated from composition_instruction
  * - end_frame_image_url: Generated from end_frame_instruction (optional)
  * - Both can be passed to Veo 3.1 for better video generation with controlled start/end
+ * - Frames use the scene's approved image as a reference and record it
+ *   (*_frame_source_image_url) - see lib/shot-dependencies
+ *
+ * Keyframe continuity (scene `continuity_mode`):
+ * - A cut shot's start frame is the previous shot's end frame, or the last
+ *   frame of its video (last_frame_image_url) - see lib/continuity
+ * - continuity_override keeps the shot's own start frame
  */
 export const scene_shots = pgTable(
   "scene_shots",
@@ -79,22 +118,41 @@ export const scene_shots = pgTable(
     start_frame_image_url: text("start_frame_image_url"),
     start_frame_storage_path: text("start_frame_storage_path"),
     start_frame_status: assetStatusEnum("start_frame_status"),
+    start_frame_source_image_url: text("start_frame_source_image_url"), // Scene image it was generated from (null = none, or chained)
 
     // End frame image generation (optional, for significant state changes)
     end_frame_image_url: text("end_frame_image_url"),
     end_frame_storage_path: text("end_frame_storage_path"),
     end_frame_status: assetStatusEnum("end_frame_status"),
+    end_frame_source_image_url: text("end_frame_source_image_url"), // Scene image it was generated from (null = none)
+
+    // Last frame of the shot's video, extracted for keyframe continuity
+    last_frame_image_url: text("last_frame_image_url"),
+    last_frame_storage_path: text("last_frame_storage_path"),
+    last_frame_video_url: text("last_frame_video_url"), // Video the frame was taken from
+
+    // Keep this shot's own start frame when the scene is in continuity mode
+    continuity_override: boolean("continuity_override").notNull().default(false),
 
     // Video generation
     video_url: text("video_url"),
     video_storage_path: text("video_storage_path"),
     video_status: assetStatusEnum("video_status"), // No default - null means "pending" (not yet triggered)
+    video_media: jsonb("video_media").$type<VideoMedia>(), // Frames, poster, and scrub sprite
 
     // Veo 3.1 specific fields
     veo_task_id: text("veo_task_id"), // Task ID returned by Veo API (needed for extend)
     previous_shot_id: uuid("previous_shot_id"), // Reference to previous shot for extend chain
     uses_extend: boolean("uses_extend").notNull().default(false), // True if this shot uses extend API
 
+    // Trim points in seconds from the clip start (null = clip start / end, see lib/trim.ts)
+    trim_in_seconds: real("trim_in_seconds"),
+    trim_out_seconds: real("trim_out_seconds"),
+
+    // Transition into this shot from the previous shot of the scene (null = default dissolve)
+    transition_in: transitionTypeEnum("transition_in"),
+    transition_in_seconds: real("transition_in_seconds"),
+
     // n8n job tracking
     start_frame_job_id: text("start_frame_job_id"),
     end_frame_job_id: text("end_frame_job_id"),
@@ -1,5 +1,5 @@
-import { pgTable, uuid, integer, text, timestamp, index, jsonb } from "drizzle-orm/pg-core";
-import { sceneValidationStatusEnum } from "./enums";
+import { pgTable, uuid, integer, text, boolean, timestamp, index, jsonb, real } from "drizzle-orm/pg-core";
+import { sceneValidationStatusEnum, transitionTypeEnum } from "./enums";
 import { projects } from "./projects";
 import type { InferSelectModel } from "drizzle-orm";
 
@@ -96,6 +96,9 @@ export interface SceneData {
 
   // Veo 3.1 video prompt (7-component format)
   video_prompt_veo3?: VideoPromptVeo3;
+
+  // Hash of the scene's screenplay text (Fountain/FDX imports) - used to diff re-imported drafts
+  source_fingerprint?: string;
 }
 
 /**
@@ -199,6 +202,9 @@ export interface RawSceneData {
 
   // Veo 3.1 video prompt (7-component format)
   video_prompt_veo3?: VideoPromptVeo3;
+
+  // Hash of the scene's screenplay text (Fountain/FDX imports) - used to diff re-imported drafts
+  source_fingerprint?: string;
 }
 
 export const scenes = pgTable(
@@ -227,6 +233,13 @@ export const scenes = pgTable(
     approved_image_id: uuid("approved_image_id"),
     approved_image_url: text("approved_image_url"),
 
+    // Transition into this scene from the previous one (null = default dissolve)
+    transition_in: transitionTypeEnum("transition_in"),
+    transition_in_seconds: real("transition_in_seconds"),
+
+    // Keyframe continuity: each shot starts on the previous shot's last frame (see lib/continuity)
+    continuity_mode: boolean("continuity_mode").notNull().default(false),
+
     approved_at: timestamp("approved_at", { withTimezone: true }),
     created_at: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
     updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
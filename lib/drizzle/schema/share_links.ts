@@ -1,5 +1,6 @@
 import { pgTable, uuid, text, boolean, integer, timestamp, index } from "drizzle-orm/pg-core";
 import { projects } from "./projects";
+import { final_reels } from "./final_reels";
 import type { InferSelectModel } from "drizzle-orm";
 
 export const share_links = pgTable(
@@ -10,6 +11,8 @@ export const share_links = pgTable(
       .notNull()
       .references(() => projects.id, { onDelete: "cascade" }),
     share_id: text("share_id").notNull().unique(),
+    // The reel version shown (null = the latest ready reel)
+    reel_id: uuid("reel_id").references(() => final_reels.id, { onDelete: "set null" }),
     title: text("title").notNull(),
     is_active: boolean("is_active").default(true).notNull(),
     view_count: integer("view_count").default(0).notNull(),
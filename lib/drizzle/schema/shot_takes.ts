@@ -0,0 +1,92 @@
+import {
+  pgTable,
+  uuid,
+  text,
+  integer,
+  boolean,
+  timestamp,
+  index,
+  uniqueIndex,
+  jsonb,
+} from "drizzle-orm/pg-core";
+import { scene_shots } from "./scene_shots";
+import { sql, type InferSelectModel } from "drizzle-orm";
+
+/**
+ * Inputs a take was generated from (see lib/shot-dependencies). Only the
+ * inputs the generation used are set; a take is stale when one of them no
+ * longer matches the current asset.
+ */
+export interface TakeSources {
+  /** Scene approved image Veo started from */
+  scene_image_url?: string | null;
+  /** Shot start frame Veo started from */
+  start_frame_url?: string | null;
+  /** Shot end frame Veo ended on */
+  end_frame_url?: string | null;
+  /** Take of the previous shot this take extends (Veo extend) */
+  previous_take_id?: string | null;
+}
+
+/**
+ * Shot Takes Table
+ *
+ * Every Veo generation of a shot is kept as a take (take 1, 2, ...) instead
+ * of overwriting the last one. At most one take per shot is selected; its video is
+ * copied onto the shot (scene_shots.video_url, video_storage_path,
+ * veo_task_id), so the timeline, assembly, and exports play the selected take.
+ *
+ * Takes can be flagged like on set: circled (a keeper) or rejected.
+ */
+export const shot_takes = pgTable(
+  "shot_takes",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+
+    // Shot reference
+    shot_id: uuid("shot_id")
+      .notNull()
+      .references(() => scene_shots.id, { onDelete: "cascade" }),
+    take_number: integer("take_number").notNull(),
+
+    // Video data
+    video_url: text("video_url"),
+    video_storage_path: text("video_storage_path"),
+    prompt: text("prompt"), // Video prompt the take was generated from
+    sources: jsonb("sources").$type<TakeSources>(), // null = recorded before dependency tracking
+
+    // Status tracking
+    status: text("status", {
+      enum: ["generating", "ready", "failed"],
+    })
+      .notNull()
+      .default("generating"),
+    is_selected: boolean("is_selected").default(false).notNull(),
+    flag: text("flag", { enum: ["circled", "rejected"] }), // null = unflagged
+    replaces_selection: boolean("replaces_selection").default(false).notNull(), // Selected when ready, even over an existing selection
+
+    // Veo / n8n job tracking
+    veo_task_id: text("veo_task_id"),
+    video_job_id: text("video_job_id"),
+    error_message: text("error_message"),
+
+    // Timestamps
+    created_at: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updated_at: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (t) => [
+    index("shot_take_shot_id_idx").on(t.shot_id),
+    index("shot_take_status_idx").on(t.status),
+    index("shot_take_is_selected_idx").on(t.is_selected),
+    uniqueIndex("shot_take_shot_number_idx").on(t.shot_id, t.take_number),
+    uniqueIndex("shot_take_shot_selected_idx").on(t.shot_id).where(sql`${t.is_selected} = true`),
+  ]
+);
+
+export type ShotTake = InferSelectModel<typeof shot_takes>;
+export type NewShotTake = typeof shot_takes.$inferInsert;
+export type ShotTakeFlag = NonNullable<ShotTake["flag"]>;
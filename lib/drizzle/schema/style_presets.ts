@@ -0,0 +1,39 @@
+import { pgTable, uuid, text, timestamp, index, jsonb } from "drizzle-orm/pg-core";
+import type { InferSelectModel } from "drizzle-orm";
+
+/**
+ * Per-model prompt fragments - replace the generic fragment for that model
+ */
+export interface StyleModelOverrides {
+  seedream?: string;
+  nano_banana?: string;
+  veo?: string;
+}
+
+/**
+ * Style Presets Table
+ *
+ * User-defined visual styles, alongside the built-in ones in lib/styles.
+ * The preset is injected into every Bible, scene, and shot prompt of
+ * projects that use it (see lib/styles/apply.ts).
+ */
+export const style_presets = pgTable(
+  "style_presets",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    // Supabase auth user who created the preset
+    owner_id: uuid("owner_id").notNull(),
+    name: text("name").notNull(),
+    prompt_fragment: text("prompt_fragment").notNull(), // "Neon-soaked cyberpunk, anamorphic flares, ..."
+    negative_prompt: text("negative_prompt"),
+    color_palette: text("color_palette").array().default([]).notNull(), // Hex colors, e.g. "#ff2a6d"
+    reference_image_urls: text("reference_image_urls").array().default([]).notNull(),
+    model_overrides: jsonb("model_overrides").$type<StyleModelOverrides>().default({}).notNull(),
+    created_at: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updated_at: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (t) => [index("style_preset_owner_id_idx").on(t.owner_id)]
+);
+
+export type StylePreset = InferSelectModel<typeof style_presets>;
+export type NewStylePreset = typeof style_presets.$inferInsert;
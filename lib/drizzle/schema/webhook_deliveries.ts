@@ -0,0 +1,24 @@
+import { pgTable, text, timestamp, index } from "drizzle-orm/pg-core";
+import type { InferSelectModel } from "drizzle-orm";
+
+/**
+ * Webhook Deliveries Table
+ *
+ * Records the signature of every verified n8n callback so a captured request
+ * cannot be replayed inside the timestamp tolerance window.
+ * Rows older than the window are pruned by the verifier.
+ */
+export const webhook_deliveries = pgTable(
+  "webhook_deliveries",
+  {
+    signature: text("signature").primaryKey(),
+    path: text("path").notNull(),
+    received_at: timestamp("received_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (t) => [
+    index("webhook_delivery_received_at_idx").on(t.received_at),
+  ]
+);
+
+export type WebhookDelivery = InferSelectModel<typeof webhook_deliveries>;
+export type NewWebhookDelivery = typeof webhook_deliveries.$inferInsert;
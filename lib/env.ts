@@ -21,6 +21,32 @@ export const env = createEnv({
     N8N_SCENE_TO_SHOTS_WEBHOOK: z.string().url().optional(),
     N8N_VIDEO_GENERATION_SIMPLE_WEBHOOK: z.string().url().optional(),
     N8N_ASSEMBLY_WEBHOOK: z.string().url().optional(),
+    N8N_AUDIO_GENERATION_WEBHOOK: z.string().url().optional(),
+
+    // Optional JSON file overriding the workflow registry (default: ./n8n.workflows.json)
+    N8N_WORKFLOWS_CONFIG: z.string().min(1).optional(),
+
+    // Shared secret for signing n8n requests and verifying n8n callbacks
+    N8N_WEBHOOK_SECRET: z.string().min(32).optional(),
+
+    // n8n REST API (execution status lookups for stuck generations)
+    N8N_API_URL: z.string().url().optional(),
+    N8N_API_KEY: z.string().min(1).optional(),
+
+    // Bearer token for the /api/jobs/run cron endpoint (background job queue)
+    CRON_SECRET: z.string().min(16).optional(),
+    // Encrypts user API keys while they sit in queued jobs (dropped when unset)
+    JOB_PAYLOAD_SECRET: z.string().min(32).optional(),
+
+    // Generation backend: "n8n" (default) or "mock" for offline placeholder media
+    GENERATION_PROVIDER: z.enum(["n8n", "mock"]).default("n8n"),
+    // ffmpeg binary for local assembly and mock videos (default: ffmpeg on PATH)
+    FFMPEG_PATH: z.string().min(1).optional(),
+    // Default final reel assembly engine (projects can override it)
+    ASSEMBLY_BACKEND: z.enum(["remote", "local"]).default("remote"),
+
+    // Comma-separated emails allowed on /admin pages
+    ADMIN_EMAILS: z.string().optional(),
 
     // AI Providers (optional - not needed until Phase 5+ for image generation)
     OPENROUTER_API_KEY: z.string().min(1).optional(),
@@ -47,6 +73,17 @@ export const env = createEnv({
     N8N_SCENE_TO_SHOTS_WEBHOOK: process.env.N8N_SCENE_TO_SHOTS_WEBHOOK,
     N8N_VIDEO_GENERATION_SIMPLE_WEBHOOK: process.env.N8N_VIDEO_GENERATION_SIMPLE_WEBHOOK,
     N8N_ASSEMBLY_WEBHOOK: process.env.N8N_ASSEMBLY_WEBHOOK,
+    N8N_AUDIO_GENERATION_WEBHOOK: process.env.N8N_AUDIO_GENERATION_WEBHOOK,
+    N8N_WORKFLOWS_CONFIG: process.env.N8N_WORKFLOWS_CONFIG,
+    N8N_WEBHOOK_SECRET: process.env.N8N_WEBHOOK_SECRET,
+    N8N_API_URL: process.env.N8N_API_URL,
+    N8N_API_KEY: process.env.N8N_API_KEY,
+    CRON_SECRET: process.env.CRON_SECRET,
+    JOB_PAYLOAD_SECRET: process.env.JOB_PAYLOAD_SECRET,
+    GENERATION_PROVIDER: process.env.GENERATION_PROVIDER,
+    FFMPEG_PATH: process.env.FFMPEG_PATH,
+    ASSEMBLY_BACKEND: process.env.ASSEMBLY_BACKEND,
+    ADMIN_EMAILS: process.env.ADMIN_EMAILS,
     OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
 
     NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL,
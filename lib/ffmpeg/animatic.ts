@@ -0,0 +1,306 @@
+/**
+ * Local Animatic Rendering
+ *
+ * Renders an animatic reel (see lib/animatic.ts) from stills:
+ *
+ * 1. Download the frame images and approved scene audio tracks
+ * 2. Turn each still into a clip of its duration with a Ken Burns move
+ *    (zoompan on a supersampled copy, so the move doesn't jitter), framed
+ *    in the project's format, with the on-screen slugline/dialogue (an ASS
+ *    subtitle file - needs libass)
+ * 3. Join the clips with their transitions and mix the scene audio, as
+ *    shot assembly does (see joinClips)
+ *
+ * Works in a temp directory; the caller uploads the result and calls
+ * `cleanup()`.
+ */
+
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { ReelAssemblyPayload } from "@/lib/providers";
+import {
+  resolveFrameMotion,
+  showsDialogue,
+  showsSlugline,
+  type AnimaticFrame,
+  type AnimaticSettings,
+  type KenBurnsMotion,
+} from "@/lib/animatic";
+import { toCaptionLines, wrapCaption } from "@/lib/captions";
+import { DEFAULT_PROJECT_FORMAT, getFormatFrame, type FormatFrame, type ProjectFormat } from "@/lib/formats";
+import {
+  AUDIO_SAMPLE_RATE,
+  OUTPUT_FPS,
+  createProgressReporter,
+  extensionOf,
+  joinClips,
+  pad,
+  type LocalAssemblyProgress,
+  type LocalAssemblyResult,
+} from "./assemble";
+import { downloadFile, escapeFilterValue, runFfmpeg } from "./run";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AnimaticRenderPayload {
+  frames: AnimaticFrame[];
+  /** `startVideoIndex` is the index of the frame the track starts on */
+  audio: NonNullable<ReelAssemblyPayload["audio"]>;
+  settings: AnimaticSettings;
+  /** 16:9 when unset */
+  format?: ProjectFormat;
+}
+
+/** Draft quality - animatics are for pitching, not delivery */
+const ANIMATIC_LONG_EDGE = 1280;
+
+/** Stills are scaled up this much before zoompan so moves are smooth */
+const SUPERSAMPLE = 2;
+
+/** The slugline stays up this long on a scene's first frame */
+const SLUGLINE_SECONDS = 4;
+const MAX_DIALOGUE_LINES = 4;
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render an animatic reel from its frames
+ * @throws Error when a download or ffmpeg step fails (the temp directory is removed)
+ */
+export async function renderAnimaticLocally(
+  payload: AnimaticRenderPayload,
+  onProgress?: (progress: LocalAssemblyProgress) => void
+): Promise<LocalAssemblyResult> {
+  if (payload.frames.length === 0) {
+    throw new Error("No frames to animate");
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), "ripreel-animatic-"));
+  const cleanup = () => rm(workDir, { recursive: true, force: true });
+  const report = createProgressReporter(onProgress);
+
+  try {
+    const { frames, audio, settings } = payload;
+    const frame = getFormatFrame(payload.format ?? DEFAULT_PROJECT_FORMAT, ANIMATIC_LONG_EDGE);
+    const downloadCount = frames.length + audio.length;
+
+    // 1. Download
+    const imagePaths: string[] = [];
+    for (const [index, still] of frames.entries()) {
+      const imagePath = path.join(workDir, `still-${pad(index)}${extensionOf(still.imageUrl, ".png")}`);
+      await downloadFile(still.imageUrl, imagePath);
+      imagePaths.push(imagePath);
+      report("downloading", index + 1, downloadCount);
+    }
+
+    const tracks: Array<(typeof audio)[number] & { path: string }> = [];
+    for (const [index, track] of audio.entries()) {
+      const trackPath = path.join(workDir, `track-${pad(index)}${extensionOf(track.url, ".audio")}`);
+      await downloadFile(track.url, trackPath);
+      tracks.push({ ...track, path: trackPath });
+      report("downloading", frames.length + index + 1, downloadCount);
+    }
+
+    // 2. Animate
+    const clips: Array<{ path: string; durationSeconds: number }> = [];
+    for (const [index, still] of frames.entries()) {
+      const clipPath = path.join(workDir, `clip-${pad(index)}.mp4`);
+      const subtitles = buildFrameSubtitles(still, settings, frame);
+      let subtitlesPath: string | null = null;
+      if (subtitles) {
+        subtitlesPath = path.join(workDir, `text-${pad(index)}.ass`);
+        await writeFile(subtitlesPath, subtitles, "utf8");
+      }
+
+      const durationSeconds = await animateStill(imagePaths[index], clipPath, {
+        frame,
+        durationSeconds: still.duration,
+        motion: resolveFrameMotion(settings.motion, index),
+        zoom: settings.zoom,
+        subtitlesPath,
+      });
+      clips.push({ path: clipPath, durationSeconds });
+      report("animating", index + 1, frames.length);
+    }
+
+    // 3. Join, mix, and encode
+    const reel = await joinClips(
+      workDir,
+      clips,
+      frames.map((still) => still.transition),
+      tracks,
+      report
+    );
+
+    return { ...reel, width: frame.width, height: frame.height, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+// ============================================================================
+// Steps
+// ============================================================================
+
+/**
+ * Render a still as a clip with a Ken Burns move over the frame's picture
+ * area (letterboxed formats get black bars), in the normalized clip format
+ * joinClips expects (24 fps, yuv420p, silent AAC stereo)
+ * @returns The clip length in seconds (whole frames)
+ */
+async function animateStill(
+  imagePath: string,
+  outputPath: string,
+  options: {
+    frame: FormatFrame;
+    durationSeconds: number;
+    motion: Exclude<KenBurnsMotion, "alternate">;
+    zoom: number;
+    subtitlesPath: string | null;
+  }
+): Promise<number> {
+  const { frame, durationSeconds, motion, zoom, subtitlesPath } = options;
+  const frameCount = Math.max(1, Math.round(durationSeconds * OUTPUT_FPS));
+  const clipSeconds = frameCount / OUTPUT_FPS;
+  const { z, x, y } = zoompanExpressions(motion, zoom, frameCount);
+  const [sourceWidth, sourceHeight] = [frame.pictureWidth * SUPERSAMPLE, frame.pictureHeight * SUPERSAMPLE];
+
+  const videoFilters = [
+    // Fill the picture (cropping the excess), then move over the supersampled still
+    `scale=${sourceWidth}:${sourceHeight}:force_original_aspect_ratio=increase`,
+    `crop=${sourceWidth}:${sourceHeight}`,
+    "setsar=1",
+    `zoompan=z='${z}':x='${x}':y='${y}':d=${frameCount}:s=${frame.pictureWidth}x${frame.pictureHeight}:fps=${OUTPUT_FPS}`,
+    `pad=${frame.width}:${frame.height}:(ow-iw)/2:(oh-ih)/2`,
+    ...(subtitlesPath ? [`subtitles=filename=${escapeFilterValue(subtitlesPath)}`] : []),
+    "format=yuv420p",
+  ];
+
+  await runFfmpeg(
+    [
+      "-i", imagePath,
+      "-f", "lavfi", "-i", `anullsrc=r=${AUDIO_SAMPLE_RATE}:cl=stereo`,
+      "-filter_complex", `[0:v]${videoFilters.join(",")}[v]`,
+      "-map", "[v]",
+      "-map", "1:a",
+      "-c:v", "libx264", "-preset", "veryfast", "-crf", "20",
+      "-c:a", "aac", "-b:a", "192k",
+      "-t", clipSeconds.toFixed(3),
+      outputPath,
+    ],
+    { timeoutMs: Math.max(5 * 60 * 1000, clipSeconds * 10000) }
+  );
+
+  return clipSeconds;
+}
+
+/**
+ * zoompan expressions for a move over `frameCount` frames (`on` is the
+ * output frame number; x/y are the top-left of the visible window)
+ */
+function zoompanExpressions(
+  motion: Exclude<KenBurnsMotion, "alternate">,
+  zoom: number,
+  frameCount: number
+): { z: string; x: string; y: string } {
+  const progress = `on/${Math.max(frameCount - 1, 1)}`;
+  const centerX = "iw/2-(iw/zoom/2)";
+  const centerY = "ih/2-(ih/zoom/2)";
+  const range = (zoom - 1).toFixed(4);
+
+  switch (motion) {
+    case "zoom_in":
+      return { z: `1+${range}*${progress}`, x: centerX, y: centerY };
+    case "zoom_out":
+      return { z: `${zoom.toFixed(4)}-${range}*${progress}`, x: centerX, y: centerY };
+    case "pan_right":
+      return { z: zoom.toFixed(4), x: `(iw-iw/zoom)*${progress}`, y: centerY };
+    case "pan_left":
+      return { z: zoom.toFixed(4), x: `(iw-iw/zoom)*(1-${progress})`, y: centerY };
+    case "none":
+      return { z: "1", x: "0", y: "0" };
+  }
+}
+
+/**
+ * ASS subtitles with a frame's on-screen text: the slugline top left, the
+ * dialogue bottom center
+ * @returns null when the frame shows no text
+ */
+function buildFrameSubtitles(
+  frame: AnimaticFrame,
+  settings: AnimaticSettings,
+  output: FormatFrame
+): string | null {
+  const events: string[] = [];
+  const end = formatAssTime(Math.max(1, Math.round(frame.duration * OUTPUT_FPS)) / OUTPUT_FPS);
+
+  if (frame.slugline && showsSlugline(settings.text)) {
+    const sluglineEnd = formatAssTime(Math.min(frame.duration, SLUGLINE_SECONDS));
+    events.push(`Dialogue: 0,0:00:00.00,${sluglineEnd},Slugline,,0,0,0,,${toAssText(frame.slugline.toUpperCase())}`);
+  }
+
+  if (frame.dialogue && showsDialogue(settings.text)) {
+    const lines = toCaptionLines(frame.dialogue)
+      .flatMap((line) => wrapCaption(line).split("\n"))
+      .slice(0, MAX_DIALOGUE_LINES);
+    if (lines.length > 0) {
+      events.push(`Dialogue: 0,0:00:00.00,${end},Dialogue,,0,0,0,,${lines.map(toAssText).join("\\N")}`);
+    }
+  }
+
+  if (events.length === 0) return null;
+
+  // Sized off the short edge so vertical and square frames fit the text
+  const base = Math.min(output.width, output.height);
+  const margin = Math.round(base * 0.05);
+  const sluglineSize = Math.round(base * 0.042);
+  const dialogueSize = Math.round(base * 0.05);
+
+  return [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${output.width}`,
+    `PlayResY: ${output.height}`,
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    // Colours are &HAABBGGRR; BorderStyle 3 draws an opaque box in OutlineColour
+    `Style: Slugline,Courier New,${sluglineSize},&H0018C5F5,&H000000FF,&H80000000,&H80000000,-1,0,0,0,100,100,0,0,3,6,0,7,${margin},${margin},${margin},1`,
+    `Style: Dialogue,Arial,${dialogueSize},&H00FFFFFF,&H000000FF,&H80000000,&H80000000,0,0,0,0,100,100,0,0,3,6,0,2,${margin},${margin},${margin},1`,
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...events,
+    "",
+  ].join("\n");
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * 83.5 -> "0:01:23.50"
+ */
+function formatAssTime(seconds: number): string {
+  const centiseconds = Math.round(seconds * 100);
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const secs = Math.floor((centiseconds % 6000) / 100);
+  const pad2 = (value: number) => String(value).padStart(2, "0");
+  return `${hours}:${pad2(minutes)}:${pad2(secs)}.${pad2(centiseconds % 100)}`;
+}
+
+/**
+ * Plain text for an ASS event (braces start override tags, backslashes escapes)
+ */
+function toAssText(text: string): string {
+  return text.replace(/[{}]/g, "").replace(/\\/g, "/").replace(/\s*\n\s*/g, " ");
+}
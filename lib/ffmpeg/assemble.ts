@@ -0,0 +1,445 @@
+/**
+ * Local Reel Assembly
+ *
+ * Renders the final reel with ffmpeg on this server, as an alternative to
+ * the remote FFmpeg API behind N8N_ASSEMBLY_WEBHOOK:
+ *
+ * 1. Download the ordered shot videos and approved scene audio tracks
+ * 2. Cut every shot to its trim points and normalize it to the format's
+ *    frame (letterboxing scope), 24 fps, H.264/AAC stereo (muted shots and
+ *    shots without audio get a silent track)
+ * 3. Join the shots with each cut's transition (see lib/transitions.ts), mix
+ *    the scene audio on top, and encode the reel as a faststart MP4
+ *
+ * Works in a temp directory; the caller uploads the result and calls
+ * `cleanup()`.
+ */
+
+import { mkdtemp, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { ReelAssemblyPayload } from "@/lib/providers";
+import { getFormatFrame, type FormatFrame } from "@/lib/formats";
+import { DEFAULT_TRANSITION, isOverlappingTransition, type Transition, type TransitionType } from "@/lib/transitions";
+import { MIN_TRIMMED_SECONDS } from "@/lib/trim";
+import { downloadFile, probeMedia, runFfmpeg } from "./run";
+
+// ============================================================================
+// Constants & Types
+// ============================================================================
+
+export const OUTPUT_FPS = 24;
+export const AUDIO_SAMPLE_RATE = 48000;
+
+/**
+ * Reels are rendered at their format's size (or, for payloads without one,
+ * the first shot's), capped to this long edge
+ */
+const MAX_LONG_EDGE = 1920;
+
+/** Scene audio levels relative to the shots' own audio */
+const TRACK_VOLUME: Record<NonNullable<ReelAssemblyPayload["audio"]>[number]["type"], number> = {
+  voiceover: 1,
+  sfx: 0.8,
+  music: 0.35,
+};
+
+/** xfade effect for each overlapping transition */
+const XFADE_TRANSITION: Partial<Record<TransitionType, string>> = {
+  dissolve: "fade",
+  dip_to_white: "fadewhite",
+  whip: "hblur",
+};
+
+/** Transitions shorter than a frame are rendered as cuts */
+const MIN_TRANSITION_SECONDS = 1 / OUTPUT_FPS;
+
+export type LocalAssemblyStep = "downloading" | "normalizing" | "animating" | "rendering";
+
+export interface LocalAssemblyProgress {
+  step: LocalAssemblyStep;
+  /** Item within the step (files downloaded, shots normalized, stills animated) */
+  current: number;
+  total: number;
+  /** Overall progress, 0-100 */
+  percent: number;
+}
+
+export interface LocalAssemblyResult {
+  outputPath: string;
+  durationSeconds: number;
+  width: number;
+  height: number;
+  fileSizeBytes: number;
+  /** Remove the temp directory holding the output */
+  cleanup: () => Promise<void>;
+}
+
+/** Share of the overall progress each step covers */
+const STEP_RANGE: Record<LocalAssemblyStep, [number, number]> = {
+  downloading: [0, 20],
+  normalizing: [20, 60],
+  animating: [20, 60],
+  rendering: [60, 100],
+};
+
+export type ProgressReporter = (step: LocalAssemblyStep, current: number, total: number, fraction?: number) => void;
+
+// ============================================================================
+// Assembly
+// ============================================================================
+
+/**
+ * Render a reel from the assembly payload
+ * @throws Error when a download or ffmpeg step fails (the temp directory is removed)
+ */
+export async function assembleReelLocally(
+  payload: ReelAssemblyPayload,
+  onProgress?: (progress: LocalAssemblyProgress) => void
+): Promise<LocalAssemblyResult> {
+  if (payload.videos.length === 0) {
+    throw new Error("No videos to assemble");
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), "ripreel-assembly-"));
+  const cleanup = () => rm(workDir, { recursive: true, force: true });
+
+  const report = createProgressReporter(onProgress);
+
+  try {
+    const audioTracks = payload.audio ?? [];
+    const downloadCount = payload.videos.length + audioTracks.length;
+
+    // 1. Download
+    const clipPaths: string[] = [];
+    for (const [index, video] of payload.videos.entries()) {
+      const clipPath = path.join(workDir, `clip-${pad(index)}.mp4`);
+      await downloadFile(video.url, clipPath);
+      clipPaths.push(clipPath);
+      report("downloading", index + 1, downloadCount);
+    }
+
+    const trackPaths: string[] = [];
+    for (const [index, track] of audioTracks.entries()) {
+      const trackPath = path.join(workDir, `track-${pad(index)}${extensionOf(track.url, ".audio")}`);
+      await downloadFile(track.url, trackPath);
+      trackPaths.push(trackPath);
+      report("downloading", payload.videos.length + index + 1, downloadCount);
+    }
+
+    // 2. Normalize
+    const first = await probeMedia(clipPaths[0]);
+    const frame = payload.format
+      ? getFormatFrame(payload.format, MAX_LONG_EDGE)
+      : outputSize(first.width ?? 1280, first.height ?? 720);
+
+    const normalized: Array<{ path: string; durationSeconds: number }> = [];
+    for (const [index, clipPath] of clipPaths.entries()) {
+      const info = index === 0 ? first : await probeMedia(clipPath);
+      const normalizedPath = path.join(workDir, `norm-${pad(index)}.mp4`);
+      const video = payload.videos[index];
+
+      await normalizeClip(clipPath, normalizedPath, {
+        frame,
+        ...trimRange(info.durationSeconds, video.trimIn, video.trimOut),
+        silent: !info.hasAudio || !!video.muted,
+      });
+
+      // fps conversion can shift the length by a frame - offsets need the real one
+      const { durationSeconds } = await probeMedia(normalizedPath);
+      normalized.push({ path: normalizedPath, durationSeconds });
+      report("normalizing", index + 1, clipPaths.length);
+    }
+
+    // 3. Join, mix, and encode
+    const reel = await joinClips(
+      workDir,
+      normalized,
+      payload.videos.map((video) => video.transition),
+      audioTracks.map((track, index) => ({ ...track, path: trackPaths[index] })),
+      report
+    );
+
+    return { ...reel, width: frame.width, height: frame.height, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+/**
+ * Map step progress onto the overall 0-100 range
+ */
+export function createProgressReporter(onProgress?: (progress: LocalAssemblyProgress) => void): ProgressReporter {
+  return (step, current, total, fraction = current / total) => {
+    const [from, to] = STEP_RANGE[step];
+    onProgress?.({ step, current, total, percent: Math.round(from + (to - from) * fraction) });
+  };
+}
+
+/**
+ * Join normalized clips with each clip's incoming transition, mix the scene
+ * audio tracks on top, and encode the reel as `reel.mp4` in the work directory
+ *
+ * Clips must share size, frame rate, and audio format (see normalizeClip).
+ */
+export async function joinClips(
+  workDir: string,
+  clips: Array<{ path: string; durationSeconds: number }>,
+  incomingTransitions: Array<Transition | undefined>,
+  audioTracks: Array<NonNullable<ReelAssemblyPayload["audio"]>[number] & { path: string }>,
+  report: ProgressReporter
+): Promise<{ outputPath: string; durationSeconds: number; fileSizeBytes: number }> {
+  const durations = clips.map((clip) => clip.durationSeconds);
+  const transitions = durations.slice(1).map((duration, index) =>
+    fitTransition(incomingTransitions[index + 1] ?? DEFAULT_TRANSITION, durations[index], duration)
+  );
+  const starts = clipStarts(durations, transitions);
+  const totalSeconds = starts[starts.length - 1] + durations[durations.length - 1];
+
+  const outputPath = path.join(workDir, "reel.mp4");
+  await runFfmpeg(
+    [
+      // Each clip is read twice (picture, then sound) - see buildRenderGraph
+      ...clips.flatMap((clip) => ["-i", clip.path]),
+      ...clips.flatMap((clip) => ["-i", clip.path]),
+      ...audioTracks.flatMap((track) => ["-i", track.path]),
+      "-filter_complex", buildRenderGraph(durations, transitions, starts, audioTracks),
+      "-map", "[vout]",
+      "-map", "[aout]",
+      "-c:v", "libx264", "-preset", "veryfast", "-crf", "20", "-pix_fmt", "yuv420p",
+      "-c:a", "aac", "-b:a", "192k",
+      "-t", totalSeconds.toFixed(3),
+      "-movflags", "+faststart",
+      outputPath,
+    ],
+    {
+      timeoutMs: Math.max(10 * 60 * 1000, totalSeconds * 6000),
+      durationSeconds: totalSeconds,
+      onProgress: (fraction) => report("rendering", 1, 1, fraction),
+    }
+  );
+
+  const { size } = await stat(outputPath);
+  return { outputPath, durationSeconds: totalSeconds, fileSizeBytes: size };
+}
+
+// ============================================================================
+// Steps
+// ============================================================================
+
+/**
+ * Re-encode a shot's trimmed range so every clip shares size, frame rate,
+ * and audio format (xfade, acrossfade, and concat require it)
+ */
+async function normalizeClip(
+  inputPath: string,
+  outputPath: string,
+  options: { frame: FormatFrame; startSeconds: number; durationSeconds: number; silent: boolean }
+): Promise<void> {
+  const { frame, startSeconds, durationSeconds, silent } = options;
+  const duration = durationSeconds.toFixed(3);
+  const audioSource = silent ? "1:a" : "0:a";
+
+  const graph = [
+    `[0:v]${frameFilters(frame).join(",")},fps=${OUTPUT_FPS},format=yuv420p[v]`,
+    // Pad/trim the audio to the video length so the transitions stay in sync
+    `[${audioSource}]aresample=${AUDIO_SAMPLE_RATE},aformat=sample_fmts=fltp:channel_layouts=stereo,` +
+      `apad,atrim=0:${duration},asetpts=PTS-STARTPTS[a]`,
+  ].join(";");
+
+  await runFfmpeg(
+    [
+      // Input seeking is frame-accurate when re-encoding
+      ...(startSeconds > 0 ? ["-ss", startSeconds.toFixed(3)] : []),
+      "-i", inputPath,
+      ...(silent ? ["-f", "lavfi", "-i", `anullsrc=r=${AUDIO_SAMPLE_RATE}:cl=stereo`] : []),
+      "-filter_complex", graph,
+      "-map", "[v]",
+      "-map", "[a]",
+      "-c:v", "libx264", "-preset", "veryfast", "-crf", "18",
+      "-c:a", "aac", "-b:a", "192k",
+      "-t", duration,
+      outputPath,
+    ],
+    { timeoutMs: Math.max(5 * 60 * 1000, durationSeconds * 10000) }
+  );
+}
+
+/**
+ * Filter graph joining the normalized clips with their transitions and
+ * mixing the scene audio tracks in at their scene's start
+ *
+ * Inputs: clip pictures (0..n-1), the same clips again for their sound
+ * (n..2n-1), then the scene audio tracks. Reading picture and sound from
+ * one input stalls the acrossfade chain when a short clip comes last.
+ *
+ * Overlapping transitions are xfade/acrossfade; cuts and fades play the clips
+ * back to back (concat), with fades applied to the clip ends first.
+ */
+function buildRenderGraph(
+  durations: number[],
+  transitions: Transition[],
+  starts: number[],
+  audioTracks: NonNullable<ReelAssemblyPayload["audio"]>
+): string {
+  const clipCount = durations.length;
+  const filters: string[] = [];
+
+  // Fades to/from black on the clip ends. Every clip gets concat's time
+  // base - xfade rejects inputs whose time bases differ.
+  const clips = durations.map((duration, index) => {
+    const videoFilters = ["settb=AVTB"];
+    const audioFades: string[] = [];
+
+    const incoming = transitions[index - 1];
+    if (incoming?.type === "fade_from_black") {
+      videoFilters.push(`fade=t=in:st=0:d=${incoming.duration.toFixed(3)}`);
+      audioFades.push(`afade=t=in:st=0:d=${incoming.duration.toFixed(3)}`);
+    }
+
+    const outgoing = transitions[index];
+    if (outgoing?.type === "fade_to_black") {
+      const start = (duration - outgoing.duration).toFixed(3);
+      videoFilters.push(`fade=t=out:st=${start}:d=${outgoing.duration.toFixed(3)}`);
+      audioFades.push(`afade=t=out:st=${start}:d=${outgoing.duration.toFixed(3)}`);
+    }
+
+    filters.push(`[${index}:v]${videoFilters.join(",")}[cv${index}]`);
+    if (audioFades.length === 0) {
+      return { video: `[cv${index}]`, audio: `[${clipCount + index}:a]` };
+    }
+
+    filters.push(`[${clipCount + index}:a]${audioFades.join(",")}[ca${index}]`);
+    return { video: `[cv${index}]`, audio: `[ca${index}]` };
+  });
+
+  if (clipCount === 1) {
+    filters.push(`${clips[0].video}null[vjoin]`, `${clips[0].audio}anull[ajoin]`);
+  } else {
+    let video = clips[0].video;
+    let audio = clips[0].audio;
+    for (let k = 1; k < clipCount; k++) {
+      const last = k === clipCount - 1;
+      const videoOut = last ? "[vjoin]" : `[v${k}]`;
+      const audioOut = last ? "[ajoin]" : `[a${k}]`;
+      const transition = transitions[k - 1];
+      const xfade = XFADE_TRANSITION[transition.type];
+
+      if (xfade) {
+        const duration = transition.duration.toFixed(3);
+        filters.push(
+          `${video}${clips[k].video}xfade=transition=${xfade}:duration=${duration}:offset=${starts[k].toFixed(3)}${videoOut}`,
+          `${audio}${clips[k].audio}acrossfade=d=${duration}${audioOut}`
+        );
+      } else {
+        filters.push(`${video}${audio}${clips[k].video}${clips[k].audio}concat=n=2:v=1:a=1${videoOut}${audioOut}`);
+      }
+      video = videoOut;
+      audio = audioOut;
+    }
+  }
+
+  filters.push("[vjoin]null[vout]");
+
+  if (audioTracks.length === 0) {
+    filters.push("[ajoin]anull[aout]");
+  } else {
+    const trackLabels = audioTracks.map((track, index) => {
+      const delayMs = Math.round((starts[track.startVideoIndex] ?? 0) * 1000);
+      filters.push(
+        `[${2 * clipCount + index}:a]aresample=${AUDIO_SAMPLE_RATE},aformat=sample_fmts=fltp:channel_layouts=stereo,` +
+          `volume=${TRACK_VOLUME[track.type]},adelay=${delayMs}:all=1[t${index}]`
+      );
+      return `[t${index}]`;
+    });
+    // duration=first keeps the reel as long as the picture
+    filters.push(
+      `[ajoin]${trackLabels.join("")}amix=inputs=${trackLabels.length + 1}:duration=first:dropout_transition=0:normalize=0[aout]`
+    );
+  }
+
+  return filters.join(";");
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Clamp a shot's trim points to the clip's real length (generated clips can
+ * run shorter than their nominal duration)
+ */
+function trimRange(
+  clipSeconds: number,
+  trimIn: number | undefined,
+  trimOut: number | undefined
+): { startSeconds: number; durationSeconds: number } {
+  const end = Math.min(trimOut ?? clipSeconds, clipSeconds);
+  const start = Math.min(Math.max(trimIn ?? 0, 0), Math.max(end - MIN_TRIMMED_SECONDS, 0));
+  return { startSeconds: start, durationSeconds: end - start };
+}
+
+/**
+ * Shorten a transition to fit its clips (at most half of either, so the
+ * transitions at both ends of a clip never overlap)
+ */
+function fitTransition(transition: Transition, previousSeconds: number, nextSeconds: number): Transition {
+  const duration = Math.min(transition.duration, previousSeconds / 2, nextSeconds / 2);
+  if (transition.type === "cut" || duration < MIN_TRANSITION_SECONDS) {
+    return { type: "cut", duration: 0 };
+  }
+  return { type: transition.type, duration };
+}
+
+/**
+ * Start time of each clip on the reel timeline (overlapping transitions
+ * overlap the end of one clip with the start of the next)
+ */
+function clipStarts(durations: number[], transitions: Transition[]): number[] {
+  const starts = [0];
+  for (let k = 1; k < durations.length; k++) {
+    const { type, duration } = transitions[k - 1];
+    starts.push(starts[k - 1] + durations[k - 1] - (isOverlappingTransition(type) ? duration : 0));
+  }
+  return starts;
+}
+
+function outputSize(width: number, height: number): FormatFrame {
+  const scale = Math.min(1, MAX_LONG_EDGE / Math.max(width, height));
+  // Even dimensions keep yuv420p happy
+  const even = (value: number) => Math.max(2, Math.round((value * scale) / 2) * 2);
+  return { width: even(width), height: even(height), pictureWidth: even(width), pictureHeight: even(height) };
+}
+
+/**
+ * Filters placing a picture in the output frame: letterboxed frames fill
+ * the picture area (cropping the excess), others fit the whole picture in
+ */
+function frameFilters(frame: FormatFrame): string[] {
+  const { width, height, pictureWidth, pictureHeight } = frame;
+  const letterboxed = pictureWidth !== width || pictureHeight !== height;
+  return [
+    ...(letterboxed
+      ? [
+          `scale=${pictureWidth}:${pictureHeight}:force_original_aspect_ratio=increase`,
+          `crop=${pictureWidth}:${pictureHeight}`,
+        ]
+      : [`scale=${width}:${height}:force_original_aspect_ratio=decrease`]),
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`,
+    "setsar=1",
+  ];
+}
+
+export function extensionOf(url: string, fallback: string): string {
+  try {
+    const extension = path.extname(new URL(url).pathname);
+    return /^\.[a-z0-9]{1,5}$/i.test(extension) ? extension : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function pad(index: number): string {
+  return String(index).padStart(3, "0");
+}
@@ -0,0 +1,90 @@
+/**
+ * Caption Burn-In
+ *
+ * Renders a copy of an assembled reel with its captions drawn into the
+ * picture (ffmpeg's `subtitles` filter, which needs an ffmpeg built with
+ * libass). The sound is copied as is.
+ *
+ * Works in a temp directory; the caller uploads the result and calls
+ * `cleanup()`.
+ */
+
+import { writeFile, mkdtemp, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { downloadFile, escapeFilterValue, probeMedia, runFfmpeg } from "./run";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BurnInResult {
+  outputPath: string;
+  fileSizeBytes: number;
+  /** Remove the temp directory holding the output */
+  cleanup: () => Promise<void>;
+}
+
+/** libass style: white text on a translucent box, clear of the frame edge */
+const CAPTION_STYLE = [
+  "FontName=Arial",
+  "FontSize=20",
+  "PrimaryColour=&H00FFFFFF",
+  "BackColour=&H80000000",
+  "BorderStyle=4",
+  "Outline=0",
+  "Shadow=0",
+  "MarginV=24",
+].join(",");
+
+// ============================================================================
+// Burn-In
+// ============================================================================
+
+/**
+ * Render the video at `videoUrl` with SRT captions burned in
+ * @param onProgress - Called with the encoded fraction (0-1)
+ * @throws Error when the download or ffmpeg fails (the temp directory is removed)
+ */
+export async function burnInCaptions(
+  videoUrl: string,
+  srt: string,
+  onProgress?: (fraction: number) => void
+): Promise<BurnInResult> {
+  const workDir = await mkdtemp(path.join(tmpdir(), "ripreel-captions-"));
+  const cleanup = () => rm(workDir, { recursive: true, force: true });
+
+  try {
+    const inputPath = path.join(workDir, "reel.mp4");
+    const captionsPath = path.join(workDir, "captions.srt");
+    const outputPath = path.join(workDir, "reel-captioned.mp4");
+
+    await downloadFile(videoUrl, inputPath);
+    await writeFile(captionsPath, srt, "utf8");
+    const { durationSeconds } = await probeMedia(inputPath);
+
+    await runFfmpeg(
+      [
+        "-i", inputPath,
+        "-vf", `subtitles=filename=${escapeFilterValue(captionsPath)}:force_style=${escapeFilterValue(CAPTION_STYLE)}`,
+        "-map", "0:v:0",
+        "-map", "0:a?",
+        "-c:v", "libx264", "-preset", "veryfast", "-crf", "20", "-pix_fmt", "yuv420p",
+        "-c:a", "copy",
+        "-movflags", "+faststart",
+        outputPath,
+      ],
+      {
+        timeoutMs: Math.max(10 * 60 * 1000, durationSeconds * 6000),
+        durationSeconds,
+        onProgress,
+      }
+    );
+
+    const { size } = await stat(outputPath);
+    return { outputPath, fileSizeBytes: size, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Frame Extraction
+ *
+ * Makes the stills for a video (see lib/video-media): first, middle, and
+ * last frames, a poster, and a scrub sprite sheet. The last frame is a PNG
+ * because keyframe continuity feeds it back to Veo as a start frame; the
+ * rest are JPEGs.
+ *
+ * Works in a temp directory; the caller uploads the results and calls
+ * `cleanup()`.
+ */
+
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { POSTER_POSITION, planScrubSprite, type SpriteLayout } from "@/lib/video-media";
+import { downloadFile, probeMedia, runFfmpeg } from "./run";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VideoStillFiles {
+  firstFrame: string;
+  middleFrame: string;
+  lastFrame: string;
+  poster: string;
+  sprite: string;
+}
+
+export interface VideoStillsResult {
+  /** Local paths of the images */
+  files: VideoStillFiles;
+  sprite: SpriteLayout;
+  durationSeconds: number;
+  /** Remove the temp directory holding the images */
+  cleanup: () => Promise<void>;
+}
+
+/** Single frames seek before decoding, so they're quick */
+const FRAME_TIMEOUT_MS = 60 * 1000;
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Make the stills for the video at `videoUrl`
+ * @throws Error when the download or ffmpeg fails (the temp directory is removed)
+ */
+export async function extractVideoStills(videoUrl: string): Promise<VideoStillsResult> {
+  const workDir = await mkdtemp(path.join(tmpdir(), "ripreel-stills-"));
+  const cleanup = () => rm(workDir, { recursive: true, force: true });
+
+  try {
+    const inputPath = path.join(workDir, "video.mp4");
+    const files: VideoStillFiles = {
+      firstFrame: path.join(workDir, "first-frame.jpg"),
+      middleFrame: path.join(workDir, "middle-frame.jpg"),
+      lastFrame: path.join(workDir, "last-frame.png"),
+      poster: path.join(workDir, "poster.jpg"),
+      sprite: path.join(workDir, "sprite.jpg"),
+    };
+
+    await downloadFile(videoUrl, inputPath);
+    const { durationSeconds, width, height } = await probeMedia(inputPath);
+
+    await grabFrame(inputPath, 0, files.firstFrame);
+    await grabFrame(inputPath, durationSeconds / 2, files.middleFrame);
+    await grabFrame(inputPath, durationSeconds * POSTER_POSITION, files.poster);
+
+    // Decode the final second and keep overwriting the image - the last write wins
+    await runFfmpeg(["-sseof", "-1", "-i", inputPath, "-an", "-update", "1", files.lastFrame], {
+      timeoutMs: FRAME_TIMEOUT_MS,
+    });
+
+    const sprite = planScrubSprite(durationSeconds, width, height);
+    await runFfmpeg(
+      [
+        "-i", inputPath,
+        "-an",
+        "-vf", `fps=1/${sprite.interval_seconds},scale=${sprite.tile_width}:${sprite.tile_height},tile=${sprite.columns}x${sprite.rows}`,
+        "-frames:v", "1",
+        "-q:v", "4",
+        files.sprite,
+      ],
+      {
+        timeoutMs: Math.max(2 * 60 * 1000, durationSeconds * 1000),
+        durationSeconds,
+      }
+    );
+
+    return { files, sprite, durationSeconds, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function grabFrame(inputPath: string, seconds: number, outputPath: string): Promise<void> {
+  return runFfmpeg(
+    ["-ss", seconds.toFixed(3), "-i", inputPath, "-an", "-frames:v", "1", "-q:v", "2", outputPath],
+    { timeoutMs: FRAME_TIMEOUT_MS }
+  );
+}
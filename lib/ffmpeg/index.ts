@@ -0,0 +1,31 @@
+/**
+ * Local ffmpeg
+ *
+ * Server-side media processing with the ffmpeg binary (FFMPEG_PATH, default
+ * `ffmpeg` on PATH). Used by the local assembly backend (ASSEMBLY_BACKEND or
+ * the project's `assembly_backend`), to render animatics from stills, to
+ * burn captions into a reel, and to make stills (frames, posters, scrub
+ * sprites) from shot videos and reels.
+ *
+ * @example
+ * ```typescript
+ * import { assembleReelLocally, isFfmpegAvailable } from "@/lib/ffmpeg";
+ *
+ * if (await isFfmpegAvailable()) {
+ *   const reel = await assembleReelLocally(payload, (p) => console.log(p.percent));
+ *   // upload reel.outputPath, then:
+ *   await reel.cleanup();
+ * }
+ * ```
+ */
+
+export { downloadFile, escapeFilterValue, getFfmpegPath, isFfmpegAvailable, probeMedia, runFfmpeg } from "./run";
+export type { MediaInfo, RunFfmpegOptions } from "./run";
+export { assembleReelLocally } from "./assemble";
+export type { LocalAssemblyProgress, LocalAssemblyResult, LocalAssemblyStep } from "./assemble";
+export { renderAnimaticLocally } from "./animatic";
+export type { AnimaticRenderPayload } from "./animatic";
+export { burnInCaptions } from "./captions";
+export type { BurnInResult } from "./captions";
+export { extractVideoStills } from "./frames";
+export type { VideoStillFiles, VideoStillsResult } from "./frames";
@@ -0,0 +1,203 @@
+/**
+ * ffmpeg Process Helpers
+ *
+ * Runs the ffmpeg binary (FFMPEG_PATH, default `ffmpeg` on PATH) with
+ * progress reporting, probes media by parsing `ffmpeg -i` output so no
+ * separate ffprobe binary is needed, and downloads inputs to disk.
+ */
+
+import { execFile, spawn } from "child_process";
+import { createWriteStream } from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { promisify } from "util";
+import { env } from "@/lib/env";
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MediaInfo {
+  durationSeconds: number;
+  hasAudio: boolean;
+  /** Null for audio-only files */
+  width: number | null;
+  height: number | null;
+}
+
+export interface RunFfmpegOptions {
+  /** Kill ffmpeg after this long (default 10 minutes) */
+  timeoutMs?: number;
+  /** Expected output length - enables onProgress */
+  durationSeconds?: number;
+  /** Called with the encoded fraction (0-1) as ffmpeg reports progress */
+  onProgress?: (fraction: number) => void;
+}
+
+// ============================================================================
+// Binary
+// ============================================================================
+
+export function getFfmpegPath(): string {
+  return env.FFMPEG_PATH ?? "ffmpeg";
+}
+
+let ffmpegAvailable: boolean | null = null;
+
+/**
+ * Whether the ffmpeg binary can be run (cached once found)
+ */
+export async function isFfmpegAvailable(): Promise<boolean> {
+  if (ffmpegAvailable) return true;
+
+  try {
+    await execFileAsync(getFfmpegPath(), ["-hide_banner", "-version"], { timeout: 10000 });
+    ffmpegAvailable = true;
+  } catch {
+    ffmpegAvailable = false;
+  }
+
+  return ffmpegAvailable;
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+/**
+ * Run ffmpeg to completion
+ * @throws Error with the tail of ffmpeg's log when it fails or times out
+ */
+export function runFfmpeg(args: string[], options: RunFfmpegOptions = {}): Promise<void> {
+  const { timeoutMs = 10 * 60 * 1000, durationSeconds, onProgress } = options;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      getFfmpegPath(),
+      ["-hide_banner", "-nostdin", "-y", "-loglevel", "error", "-progress", "pipe:1", "-nostats", ...args],
+      { stdio: ["ignore", "pipe", "pipe"] }
+    );
+
+    let stderr = "";
+    let stdoutBuffer = "";
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGKILL");
+    }, timeoutMs);
+
+    child.stderr.on("data", (chunk: Buffer) => {
+      // Keep only the tail - errors are at the end
+      stderr = (stderr + chunk.toString()).slice(-4000);
+    });
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdoutBuffer += chunk.toString();
+      const lines = stdoutBuffer.split("\n");
+      stdoutBuffer = lines.pop() ?? "";
+
+      if (!onProgress || !durationSeconds) return;
+      for (const line of lines) {
+        // out_time_us (and the misnamed out_time_ms) are both microseconds
+        const match = line.match(/^out_time_(?:us|ms)=(\d+)/);
+        if (match) {
+          onProgress(Math.min(Number(match[1]) / 1_000_000 / durationSeconds, 1));
+        }
+      }
+    });
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(
+        error.code === "ENOENT"
+          ? new Error("ffmpeg not found - install ffmpeg or set FFMPEG_PATH")
+          : error
+      );
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`ffmpeg timed out after ${Math.round(timeoutMs / 1000)}s`));
+      } else if (code !== 0) {
+        reject(new Error(`ffmpeg exited with code ${code}: ${lastLines(stderr)}`));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+// ============================================================================
+// Probing
+// ============================================================================
+
+/**
+ * Read a media file's duration, video size, and whether it has audio
+ * @throws Error when the file has no readable duration
+ */
+export async function probeMedia(filePath: string): Promise<MediaInfo> {
+  let output: string;
+  try {
+    // Without an output file ffmpeg prints the input info and exits with 1
+    const result = await execFileAsync(getFfmpegPath(), ["-hide_banner", "-nostdin", "-i", filePath], {
+      timeout: 30000,
+    });
+    output = result.stderr;
+  } catch (error) {
+    const execError = error as NodeJS.ErrnoException & { stderr?: string };
+    if (execError.code === "ENOENT") {
+      throw new Error("ffmpeg not found - install ffmpeg or set FFMPEG_PATH");
+    }
+    output = execError.stderr ?? "";
+  }
+
+  const duration = output.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!duration) {
+    throw new Error(`Could not read media duration: ${lastLines(output)}`);
+  }
+
+  const video = output.match(/Stream #.*Video:.*?, (\d{2,5})x(\d{2,5})/);
+
+  return {
+    durationSeconds: Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3]),
+    hasAudio: /Stream #.*Audio:/.test(output),
+    width: video ? Number(video[1]) : null,
+    height: video ? Number(video[2]) : null,
+  };
+}
+
+// ============================================================================
+// Downloads
+// ============================================================================
+
+/**
+ * Stream a URL to a local file (ffmpeg inputs are read from disk)
+ */
+export async function downloadFile(url: string, filePath: string): Promise<void> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  await pipeline(Readable.fromWeb(response.body as WebReadableStream), createWriteStream(filePath));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Quote a filter option value (paths and styles contain `:` and `,`)
+ */
+export function escapeFilterValue(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "'\\''")}'`;
+}
+
+function lastLines(log: string, count = 3): string {
+  return log.trim().split("\n").slice(-count).join(" | ") || "no output";
+}
@@ -0,0 +1,170 @@
+/**
+ * Project Formats
+ *
+ * The aspect ratio a project is shot and delivered in, chosen when the
+ * project is created (`projects.format`). It sets the ratio requested for
+ * scene images, shot start/end frames, and Veo videos, and the frame the
+ * reel is assembled into. 2.39:1 is generated at 16:9 and letterboxed on
+ * assembly - no model renders scope directly.
+ *
+ * A format only works with models that generate its ratio: image models
+ * list theirs in `AIModelOption.aspectRatios` (lib/bible/models.ts), and
+ * Veo 3.1 renders 16:9 and 9:16 only. Generation checks the combination
+ * up front and refuses unsupported ones. No server-only imports - the
+ * new-project page lists the formats from here. Server code loads a
+ * project's format with getProjectFormat from "@/lib/formats/resolve".
+ *
+ * @example
+ * ```typescript
+ * import { getFormatSpec, getImageFormatError } from "@/lib/formats";
+ * import { getProjectFormat } from "@/lib/formats/resolve";
+ *
+ * const format = await getProjectFormat(projectId);
+ * const error = getImageFormatError(format, "seedream-4.5-text-to-image");
+ * if (!error) {
+ *   await generateImage({ prompt, model, aspect_ratio: getFormatSpec(format).aspectRatio });
+ * }
+ * ```
+ */
+
+import { getModelByValue, isAspectRatioSupported, type AIModel, type AspectRatio } from "@/lib/bible/models";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const PROJECT_FORMATS = ["16:9", "9:16", "1:1", "2.39:1"] as const;
+export type ProjectFormat = (typeof PROJECT_FORMATS)[number];
+
+/** Ratios Veo 3.1 generates */
+export const VEO_ASPECT_RATIOS = ["16:9", "9:16"] as const;
+export type VeoAspectRatio = (typeof VEO_ASPECT_RATIOS)[number];
+
+export interface FormatSpec {
+  value: ProjectFormat;
+  label: string;
+  description: string;
+  /** Ratio requested from image and video models */
+  aspectRatio: AspectRatio;
+  /** Delivered frame size of the assembled reel */
+  width: number;
+  height: number;
+  /** Picture is cropped to 2.39:1 inside the frame, with black bars */
+  letterbox: boolean;
+}
+
+/** An output frame and the picture area centered in it */
+export interface FormatFrame {
+  width: number;
+  height: number;
+  /** Smaller than the frame when letterboxed */
+  pictureWidth: number;
+  pictureHeight: number;
+}
+
+export const DEFAULT_PROJECT_FORMAT: ProjectFormat = "16:9";
+
+const SCOPE_RATIO = 2.39;
+
+export const PROJECT_FORMAT_SPECS: Record<ProjectFormat, FormatSpec> = {
+  "16:9": {
+    value: "16:9",
+    label: "Widescreen 16:9",
+    description: "Standard HD - YouTube, festivals, pitch decks",
+    aspectRatio: "16:9",
+    width: 1920,
+    height: 1080,
+    letterbox: false,
+  },
+  "9:16": {
+    value: "9:16",
+    label: "Vertical 9:16",
+    description: "Reels, Shorts, and TikTok",
+    aspectRatio: "9:16",
+    width: 1080,
+    height: 1920,
+    letterbox: false,
+  },
+  "1:1": {
+    value: "1:1",
+    label: "Square 1:1",
+    description: "Feeds - stills and animatics only, Veo 3.1 has no square video",
+    aspectRatio: "1:1",
+    width: 1080,
+    height: 1080,
+    letterbox: false,
+  },
+  "2.39:1": {
+    value: "2.39:1",
+    label: "Scope 2.39:1",
+    description: "Anamorphic look - generated at 16:9 and letterboxed",
+    aspectRatio: "16:9",
+    width: 1920,
+    height: 1080,
+    letterbox: true,
+  },
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isProjectFormat(value: unknown): value is ProjectFormat {
+  return PROJECT_FORMATS.includes(value as ProjectFormat);
+}
+
+/**
+ * A format's spec (the default for unknown values)
+ */
+export function getFormatSpec(format: string | null | undefined): FormatSpec {
+  return PROJECT_FORMAT_SPECS[isProjectFormat(format) ? format : DEFAULT_PROJECT_FORMAT];
+}
+
+/**
+ * The Veo aspect ratio for a format
+ * @returns null when Veo can't generate it
+ */
+export function getVideoAspectRatio(format: ProjectFormat): VeoAspectRatio | null {
+  const { aspectRatio } = getFormatSpec(format);
+  return VEO_ASPECT_RATIOS.includes(aspectRatio as VeoAspectRatio) ? (aspectRatio as VeoAspectRatio) : null;
+}
+
+/**
+ * Why an image model can't generate a format's images
+ * @returns null when it can
+ */
+export function getImageFormatError(format: ProjectFormat, model: AIModel): string | null {
+  const spec = getFormatSpec(format);
+  if (isAspectRatioSupported(model, spec.aspectRatio)) return null;
+  const label = getModelByValue(model)?.label ?? model;
+  return `${label} can't generate ${spec.aspectRatio} images for this ${spec.label} project`;
+}
+
+/**
+ * Why Veo can't generate a format's videos
+ * @returns null when it can
+ */
+export function getVideoFormatError(format: ProjectFormat): string | null {
+  if (getVideoAspectRatio(format)) return null;
+  const spec = getFormatSpec(format);
+  return `Veo 3.1 can't generate ${spec.aspectRatio} video for this ${spec.label} project - render an animatic from the Export page instead`;
+}
+
+/**
+ * The picture area inside the delivered frame, scaled to fit `maxLongEdge`
+ * (letterboxed formats leave bars above and below)
+ */
+export function getFormatFrame(format: ProjectFormat, maxLongEdge: number): FormatFrame {
+  const spec = getFormatSpec(format);
+  const scale = Math.min(1, maxLongEdge / Math.max(spec.width, spec.height));
+  // Even dimensions keep yuv420p happy
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  const width = even(spec.width * scale);
+  const height = even(spec.height * scale);
+  return {
+    width,
+    height,
+    pictureWidth: width,
+    pictureHeight: spec.letterbox ? even(width / SCOPE_RATIO) : height,
+  };
+}
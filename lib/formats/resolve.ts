@@ -0,0 +1,21 @@
+/**
+ * Project format lookup (server only)
+ */
+
+import { db } from "@/lib/drizzle/db";
+import { projects } from "@/lib/drizzle/schema";
+import { eq } from "drizzle-orm";
+import { getFormatSpec, type ProjectFormat } from "./index";
+
+/**
+ * Load a project's format (the default if the project doesn't exist)
+ */
+export async function getProjectFormat(projectId: string): Promise<ProjectFormat> {
+  const [row] = await db
+    .select({ format: projects.format })
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  return getFormatSpec(row?.format).value;
+}
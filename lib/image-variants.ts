@@ -0,0 +1,221 @@
+/**
+ * Image Variant Results
+ *
+ * Settles generated scene and Bible image variants, from the n8n webhook
+ * callbacks or the reconciler. The KIE/n8n image URL is temporary, so a
+ * ready image is downloaded and stored in Supabase first; if that fails
+ * the temporary URL is kept and may still work for a while.
+ */
+
+import { db } from "@/lib/drizzle/db";
+import {
+  bibleImageVariants,
+  sceneImageVariants,
+  type BibleImageVariant,
+  type SceneImageVariant,
+} from "@/lib/drizzle/schema";
+import { and, eq } from "drizzle-orm";
+import { createSupabaseServerAdminClient } from "@/lib/supabase/admin";
+import {
+  uploadBibleFile,
+  getCharacterShotPath,
+  getLocationImagePath,
+  getPropImagePath,
+  BIBLE_STORAGE_BUCKETS,
+} from "@/lib/supabase/storage-bible";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type VariantOutcome =
+  | { status: "ready"; imageUrl: string; storagePath?: string | null }
+  | { status: "failed"; error?: string | null };
+
+const SCENE_IMAGES_BUCKET = "scene-images";
+
+// ============================================================================
+// Settling
+// ============================================================================
+
+/**
+ * Record a scene image variant's generation result
+ * Only generating variants are settled.
+ * @returns The settled variant, or null when it is gone or already settled
+ */
+export async function settleSceneImageVariant(
+  variantId: string,
+  outcome: VariantOutcome
+): Promise<SceneImageVariant | null> {
+  const [variant] = await db
+    .select()
+    .from(sceneImageVariants)
+    .where(and(eq(sceneImageVariants.id, variantId), eq(sceneImageVariants.status, "generating")))
+    .limit(1);
+
+  if (!variant) return null;
+
+  if (outcome.status === "failed") {
+    const [failed] = await db
+      .update(sceneImageVariants)
+      .set({
+        status: "failed",
+        error_message: outcome.error || "Generation failed",
+        n8n_job_id: null,
+        updated_at: new Date(),
+      })
+      .where(and(eq(sceneImageVariants.id, variantId), eq(sceneImageVariants.status, "generating")))
+      .returning();
+
+    return failed ?? null;
+  }
+
+  const stored = await storeImage(outcome.imageUrl, async (image) => {
+    const supabase = createSupabaseServerAdminClient();
+    const storagePath = `scenes/${variant.scene_id}/${variantId}_${Date.now()}.png`;
+
+    // Validate we got actual image data
+    if (image.length < 1000) {
+      throw new Error("Downloaded image data too small");
+    }
+
+    const { data, error } = await supabase.storage
+      .from(SCENE_IMAGES_BUCKET)
+      .upload(storagePath, image, { upsert: true, contentType: "image/png" });
+
+    if (error) {
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from(SCENE_IMAGES_BUCKET).getPublicUrl(data.path);
+
+    return { url: publicUrl, path: data.path };
+  });
+
+  const [ready] = await db
+    .update(sceneImageVariants)
+    .set({
+      image_url: stored?.url ?? outcome.imageUrl,
+      storage_path: stored?.path ?? outcome.storagePath ?? "",
+      status: "ready",
+      error_message: null,
+      n8n_job_id: null,
+      updated_at: new Date(),
+    })
+    .where(and(eq(sceneImageVariants.id, variantId), eq(sceneImageVariants.status, "generating")))
+    .returning();
+
+  return ready ?? null;
+}
+
+/**
+ * Record a Bible image variant's generation result
+ * Only generating variants are settled.
+ * @returns The settled variant, or null when it is gone or already settled
+ */
+export async function settleBibleVariant(
+  variantId: string,
+  outcome: VariantOutcome
+): Promise<BibleImageVariant | null> {
+  const [variant] = await db
+    .select()
+    .from(bibleImageVariants)
+    .where(and(eq(bibleImageVariants.id, variantId), eq(bibleImageVariants.status, "generating")))
+    .limit(1);
+
+  if (!variant) return null;
+
+  if (outcome.status === "failed") {
+    const [failed] = await db
+      .update(bibleImageVariants)
+      .set({
+        status: "failed",
+        error_message: outcome.error || null,
+        n8n_job_id: null,
+        updated_at: new Date(),
+      })
+      .where(and(eq(bibleImageVariants.id, variantId), eq(bibleImageVariants.status, "generating")))
+      .returning();
+
+    return failed ?? null;
+  }
+
+  const stored = await storeImage(outcome.imageUrl, (image) => {
+    const filename = `${variantId}_${Date.now()}.png`;
+
+    switch (variant.asset_type) {
+      case "character":
+        return uploadBibleFile(
+          BIBLE_STORAGE_BUCKETS.characters,
+          getCharacterShotPath(variant.asset_id, variant.shot_type ?? "portrait", filename),
+          image,
+          "image/png"
+        );
+      case "location":
+        return uploadBibleFile(
+          BIBLE_STORAGE_BUCKETS.locations,
+          getLocationImagePath(variant.asset_id, filename),
+          image,
+          "image/png"
+        );
+      case "prop":
+        return uploadBibleFile(
+          BIBLE_STORAGE_BUCKETS.props,
+          getPropImagePath(variant.asset_id, filename),
+          image,
+          "image/png"
+        );
+    }
+  });
+
+  const [ready] = await db
+    .update(bibleImageVariants)
+    .set({
+      image_url: stored?.url ?? outcome.imageUrl,
+      storage_path: stored?.path ?? outcome.storagePath ?? "",
+      status: "ready",
+      error_message: null,
+      n8n_job_id: null,
+      updated_at: new Date(),
+    })
+    .where(and(eq(bibleImageVariants.id, variantId), eq(bibleImageVariants.status, "generating")))
+    .returning();
+
+  return ready ?? null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Download an image from its temporary URL and upload it
+ * @returns The permanent URL and storage path, or null to keep the temporary (or missing) URL
+ */
+async function storeImage(
+  imageUrl: string,
+  upload: (image: Buffer) => Promise<{ url: string; path: string }>
+): Promise<{ url: string; path: string } | null> {
+  if (!imageUrl) return null;
+
+  try {
+    console.log(`⬇️ Downloading image from temporary URL: ${imageUrl.substring(0, 50)}...`);
+
+    const imageResponse = await fetch(imageUrl);
+    if (!imageResponse.ok) {
+      throw new Error(`Failed to download image: ${imageResponse.statusText}`);
+    }
+
+    const image = Buffer.from(await imageResponse.arrayBuffer());
+    console.log(`📦 Downloaded ${image.length} bytes`);
+
+    const stored = await upload(image);
+    console.log(`✅ Permanently stored at: ${stored.url.substring(0, 50)}...`);
+    return stored;
+  } catch (error) {
+    console.error("❌ Failed to store image permanently:", error);
+    return null;
+  }
+}
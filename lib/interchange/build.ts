@@ -0,0 +1,163 @@
+import type { TimelineData } from "@/app/actions/timeline";
+import { DEFAULT_TRANSITION, isOverlappingTransition, type Transition } from "@/lib/transitions";
+import type { InterchangeClip, InterchangeTimeline, TrackItem } from "./types";
+
+/** Timeline rate - the rate shots are generated and reels assembled at */
+export const INTERCHANGE_FPS = 24;
+
+/**
+ * Build the exported timeline from the project's timeline data
+ *
+ * Takes the shots assembly would use (ready, with a video) in timeline
+ * order, with their trim points and transitions. Transitions are fitted the
+ * way local assembly fits them: at most half of either clip, and anything
+ * shorter than a frame becomes a cut.
+ */
+export function buildInterchangeTimeline(data: TimelineData): InterchangeTimeline {
+  const clips: InterchangeClip[] = [];
+  let recordEnd = 0;
+
+  for (const scene of data.scenes) {
+    const shots = scene.shots.filter((shot) => shot.video_url && shot.video_status === "ready");
+
+    shots.forEach((shot, index) => {
+      const mediaFrames = Math.max(1, toFrames(shot.shot_duration_seconds));
+      const sourceOut = Math.min(toFrames(shot.trim_out_seconds ?? shot.shot_duration_seconds), mediaFrames);
+      const sourceIn = Math.min(toFrames(shot.trim_in_seconds ?? 0), sourceOut - 1);
+      const length = sourceOut - sourceIn;
+
+      const previous = clips[clips.length - 1];
+      // The scene's first shot takes the scene boundary's transition
+      const stored = index === 0 ? scene.transition_in : shot.transition_in;
+      const transition = previous
+        ? fitTransition(stored ?? DEFAULT_TRANSITION, previous.sourceOut - previous.sourceIn, length)
+        : { type: "cut" as const, frames: 0 };
+
+      const recordIn = isOverlappingTransition(transition.type) ? recordEnd - transition.frames : recordEnd;
+      recordEnd = recordIn + length;
+
+      const code = `S${pad(scene.scene_number)}_SH${pad(shot.shot_number)}`;
+      clips.push({
+        sceneId: scene.id,
+        shotId: shot.id,
+        sceneNumber: scene.scene_number,
+        shotNumber: shot.shot_number,
+        slugline: scene.slugline,
+        name: `Scene ${scene.scene_number} Shot ${shot.shot_number}`,
+        fileName: `${code}${getExtension(shot.video_url!)}`,
+        url: shot.video_url!,
+        mediaFrames,
+        sourceIn,
+        sourceOut,
+        recordIn,
+        transition,
+      });
+    });
+  }
+
+  return { title: data.project_title, fps: INTERCHANGE_FPS, clips, durationFrames: recordEnd };
+}
+
+/**
+ * Lay the clips out as one track with edit-centered transitions
+ * (see TrackItem). Plays back the same as the record times on the clips.
+ */
+export function buildTrackItems(timeline: InterchangeTimeline): TrackItem[] {
+  const { clips } = timeline;
+
+  // Frames each clip gives up at its head and tail
+  const headTrim = clips.map(() => 0);
+  const tailTrim = clips.map(() => 0);
+  // Gaps a fade transitions through: before the clip / after it
+  const gapBefore = clips.map(() => 0);
+  const gapAfter = clips.map(() => 0);
+
+  clips.forEach((clip, index) => {
+    const { type, frames } = clip.transition;
+    if (index === 0 || type === "cut" || frames === 0) return;
+    const [before, after] = split(frames);
+
+    if (isOverlappingTransition(type)) {
+      tailTrim[index - 1] += after;
+      headTrim[index] += before;
+    } else if (type === "fade_to_black") {
+      tailTrim[index - 1] += after;
+      gapAfter[index - 1] = after;
+    } else {
+      headTrim[index] += before;
+      gapBefore[index] = before;
+    }
+  });
+
+  const items: TrackItem[] = [];
+  clips.forEach((clip, index) => {
+    const { type, frames } = clip.transition;
+    const [before, after] = split(frames);
+    const transition = { kind: "transition" as const, type, inOffset: before, outOffset: after };
+
+    if (index > 0 && type !== "cut" && frames > 0 && isOverlappingTransition(type)) {
+      items.push(transition);
+    }
+    if (gapBefore[index] > 0) {
+      items.push({ kind: "gap", duration: gapBefore[index] }, transition);
+    }
+
+    items.push({
+      kind: "clip",
+      clip,
+      sourceStart: clip.sourceIn + headTrim[index],
+      duration: clip.sourceOut - clip.sourceIn - headTrim[index] - tailTrim[index],
+    });
+
+    if (gapAfter[index] > 0) {
+      const next = clips[index + 1].transition;
+      const [nextBefore, nextAfter] = split(next.frames);
+      items.push({ kind: "transition", type: next.type, inOffset: nextBefore, outOffset: nextAfter });
+      items.push({ kind: "gap", duration: gapAfter[index] });
+    }
+  });
+
+  return items;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function toFrames(seconds: number): number {
+  return Math.round(seconds * INTERCHANGE_FPS);
+}
+
+/**
+ * Fit a transition between two clips (lengths in frames)
+ */
+function fitTransition(
+  transition: Transition,
+  previousLength: number,
+  length: number
+): InterchangeClip["transition"] {
+  if (transition.type === "cut") return { type: "cut", frames: 0 };
+
+  const frames = Math.min(toFrames(transition.duration), Math.floor(Math.min(previousLength, length) / 2));
+  return frames < 1 ? { type: "cut", frames: 0 } : { type: transition.type, frames };
+}
+
+/**
+ * Split a transition around its edit point: [before, after]
+ */
+function split(frames: number): [number, number] {
+  const before = Math.floor(frames / 2);
+  return [before, frames - before];
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function getExtension(url: string): string {
+  try {
+    return new URL(url).pathname.match(/\.[a-z0-9]{2,4}$/i)?.[0].toLowerCase() ?? ".mp4";
+  } catch {
+    return ".mp4";
+  }
+}
@@ -0,0 +1,155 @@
+import { TRANSITION_LABELS, isOverlappingTransition } from "@/lib/transitions";
+import type { InterchangeClip, InterchangeTimeline } from "./types";
+
+/** Record timecode of the first frame (the usual 01:00:00:00 program start) */
+const RECORD_START_SECONDS = 3600;
+
+/** Every shot shares one reel; editors relink by the FROM CLIP NAME comment */
+const CLIP_REEL = "AX";
+const BLACK_REEL = "BL";
+
+/** Picture plus stereo audio */
+const TRACKS = "AA/V";
+
+interface EdlLine {
+  reel: string;
+  edit: "C" | "D";
+  /** Dissolve length (D only) */
+  frames?: number;
+  sourceIn: number;
+  sourceOut: number;
+  recordIn: number;
+  recordOut: number;
+}
+
+/**
+ * CMX3600 EDL of the timeline
+ *
+ * Dissolves, dips, and whips become dissolves starting where the previous
+ * shot's event ends; fades to or from black dissolve through black (BL).
+ */
+export function buildEdl(timeline: InterchangeTimeline): string {
+  const { clips, fps } = timeline;
+  const recordStart = RECORD_START_SECONDS * fps;
+  const lines = [`TITLE: ${sanitize(timeline.title).slice(0, 70)}`, "FCM: NON-DROP FRAME", ""];
+  let eventNumber = 0;
+
+  const addEvent = (entries: EdlLine[], comments: string[]) => {
+    eventNumber += 1;
+    for (const entry of entries) {
+      const frames = entry.frames === undefined ? "   " : String(entry.frames).padStart(3, "0");
+      lines.push(
+        `${String(eventNumber).padStart(3, "0")}  ${entry.reel.padEnd(8)} ${TRACKS.padEnd(5)} ` +
+          `${entry.edit.padEnd(4)} ${frames} ` +
+          [entry.sourceIn, entry.sourceOut, recordStart + entry.recordIn, recordStart + entry.recordOut]
+            .map((frame) => toTimecode(frame, fps))
+            .join(" ")
+      );
+    }
+    lines.push(...comments.map((comment) => `* ${comment}`), "");
+  };
+
+  clips.forEach((clip, index) => {
+    const next = clips[index + 1]?.transition;
+    const previous = clips[index - 1];
+    const { type, frames } = clip.transition;
+
+    // The event ends where a dissolve or fade out of it begins
+    const tail = next && next.type !== "cut" && next.type !== "fade_from_black" ? next.frames : 0;
+    const event: EdlLine = {
+      reel: CLIP_REEL,
+      edit: "C",
+      sourceIn: clip.sourceIn,
+      sourceOut: clip.sourceOut - tail,
+      recordIn: clip.recordIn,
+      recordOut: clip.recordIn + clip.sourceOut - clip.sourceIn - tail,
+    };
+
+    if (previous && frames > 0 && isOverlappingTransition(type)) {
+      addEvent(
+        [
+          atFrame(CLIP_REEL, previous.sourceOut - frames, clip.recordIn),
+          { ...event, edit: "D", frames },
+        ],
+        [
+          `FROM CLIP NAME: ${previous.fileName}`,
+          `TO CLIP NAME: ${clip.fileName}`,
+          `EFFECT NAME: ${TRANSITION_LABELS[type].toUpperCase()}`,
+          ...describe(clip),
+        ]
+      );
+    } else if (previous && frames > 0 && type === "fade_from_black") {
+      addEvent(
+        [atFrame(BLACK_REEL, 0, clip.recordIn), { ...event, edit: "D", frames }],
+        [`TO CLIP NAME: ${clip.fileName}`, "EFFECT NAME: FADE FROM BLACK", ...describe(clip)]
+      );
+    } else {
+      addEvent([event], [`FROM CLIP NAME: ${clip.fileName}`, ...describe(clip)]);
+    }
+
+    // Fade the tail of this clip out to black
+    if (next?.type === "fade_to_black" && next.frames > 0) {
+      addEvent(
+        [
+          atFrame(CLIP_REEL, event.sourceOut, event.recordOut),
+          {
+            reel: BLACK_REEL,
+            edit: "D",
+            frames: next.frames,
+            sourceIn: 0,
+            sourceOut: next.frames,
+            recordIn: event.recordOut,
+            recordOut: event.recordOut + next.frames,
+          },
+        ],
+        [`FROM CLIP NAME: ${clip.fileName}`, "EFFECT NAME: FADE TO BLACK"]
+      );
+    }
+  });
+
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Zero-length cut that a dissolve starts from
+ */
+function atFrame(reel: string, sourceFrame: number, recordFrame: number): EdlLine {
+  return {
+    reel,
+    edit: "C",
+    sourceIn: sourceFrame,
+    sourceOut: sourceFrame,
+    recordIn: recordFrame,
+    recordOut: recordFrame,
+  };
+}
+
+function describe(clip: InterchangeClip): string[] {
+  return [`COMMENT: ${clip.name} - ${sanitize(clip.slugline)}`];
+}
+
+/**
+ * HH:MM:SS:FF, non-drop frame
+ */
+export function toTimecode(frames: number, fps: number): string {
+  const totalSeconds = Math.floor(frames / fps);
+  return [
+    Math.floor(totalSeconds / 3600),
+    Math.floor(totalSeconds / 60) % 60,
+    totalSeconds % 60,
+    frames % fps,
+  ]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+}
+
+/**
+ * EDLs are plain ASCII, one event line per line
+ */
+function sanitize(text: string): string {
+  return text.replace(/[\r\n]+/g, " ").replace(/[^\x20-\x7e]/g, "").trim();
+}
@@ -0,0 +1,101 @@
+import { TRANSITION_LABELS } from "@/lib/transitions";
+import { buildTrackItems } from "./build";
+import type { InterchangeTimeline } from "./types";
+
+/**
+ * FCPXML 1.8 - the newest version with media paths on the asset, which
+ * Resolve and Premiere importers read as well as Final Cut Pro
+ */
+const FCPXML_VERSION = "1.8";
+
+/** Final Cut's built-in Cross Dissolve and audio crossfade */
+const CROSS_DISSOLVE_UID = "FxPlug:4731E73A-8DAC-4113-9A30-AE85B1761265";
+const AUDIO_CROSSFADE_UID = "FFAudioTransition";
+
+/**
+ * FCPXML of the timeline: one project on a 1080p sequence at the timeline
+ * rate, with one asset per shot (media paths relative to the export folder)
+ *
+ * Every transition is a Cross Dissolve centered on its edit (named after
+ * the timeline transition); fades to or from black dissolve to a gap.
+ */
+export function buildFcpxml(timeline: InterchangeTimeline): string {
+  const { clips, fps } = timeline;
+  const time = (frames: number) => (frames === 0 ? "0s" : `${frames}/${fps}s`);
+
+  const assets = clips.map(
+    (clip, index) =>
+      `    <asset id="a${index + 1}" name="${escapeXml(clip.fileName)}" ` +
+      `src="media/${escapeXml(clip.fileName)}" start="0s" duration="${time(clip.mediaFrames)}" ` +
+      `hasVideo="1" hasAudio="1" format="r1" audioSources="1" audioChannels="2" audioRate="48000"/>`
+  );
+  const assetIds = new Map(clips.map((clip, index) => [clip.shotId, `a${index + 1}`]));
+
+  let offset = 0;
+  const spine = buildTrackItems(timeline).map((item) => {
+    switch (item.kind) {
+      case "clip": {
+        const { clip } = item;
+        const element =
+          `            <asset-clip ref="${assetIds.get(clip.shotId)}" offset="${time(offset)}" ` +
+          `name="${escapeXml(clip.name)}" start="${time(item.sourceStart)}" duration="${time(item.duration)}" ` +
+          `format="r1" tcFormat="NDF">\n` +
+          `              <note>${escapeXml(clip.slugline)}</note>\n` +
+          `            </asset-clip>`;
+        offset += item.duration;
+        return element;
+      }
+      case "gap": {
+        const element = `            <gap name="Gap" offset="${time(offset)}" start="0s" duration="${time(item.duration)}"/>`;
+        offset += item.duration;
+        return element;
+      }
+      case "transition":
+        // Transitions overlap their neighbours and don't advance the spine
+        return (
+          `            <transition name="${TRANSITION_LABELS[item.type]}" offset="${time(offset - item.inOffset)}" ` +
+          `duration="${time(item.inOffset + item.outOffset)}">\n` +
+          `              <filter-video ref="r2" name="Cross Dissolve"/>\n` +
+          `              <filter-audio ref="r3" name="Audio Crossfade"/>\n` +
+          `            </transition>`
+        );
+    }
+  });
+
+  const title = escapeXml(timeline.title);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<!DOCTYPE fcpxml>`,
+    ``,
+    `<fcpxml version="${FCPXML_VERSION}">`,
+    `  <resources>`,
+    `    <format id="r1" name="FFVideoFormat1080p${fps}" frameDuration="1/${fps}s" width="1920" height="1080"/>`,
+    `    <effect id="r2" name="Cross Dissolve" uid="${CROSS_DISSOLVE_UID}"/>`,
+    `    <effect id="r3" name="Audio Crossfade" uid="${AUDIO_CROSSFADE_UID}"/>`,
+    ...assets,
+    `  </resources>`,
+    `  <library>`,
+    `    <event name="${title}">`,
+    `      <project name="${title}">`,
+    `        <sequence format="r1" duration="${time(timeline.durationFrames)}" tcStart="0s" tcFormat="NDF" audioLayout="stereo" audioRate="48k">`,
+    `          <spine>`,
+    ...spine,
+    `          </spine>`,
+    `        </sequence>`,
+    `      </project>`,
+    `    </event>`,
+    `  </library>`,
+    `</fcpxml>`,
+    ``,
+  ].join("\n");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,100 @@
+/**
+ * Editing Interchange Export
+ *
+ * Hands the timeline to Premiere, Resolve, or Final Cut as a CMX3600 EDL,
+ * FCPXML, or OpenTimelineIO file, zipped with the shot videos it references
+ * (named after their scene and shot) so the reel can be re-cut without
+ * regenerating anything. Clips carry their trim points and transitions.
+ * Scene audio tracks are not included - only the shots' own sound.
+ *
+ * @example
+ * ```typescript
+ * import { buildInterchangeTimeline, createTimelineExportZip } from "@/lib/interchange";
+ *
+ * const timeline = buildInterchangeTimeline(timelineData);
+ * const { fileName, stream } = createTimelineExportZip(timeline, "fcpxml");
+ * return new Response(stream, { headers: { "Content-Type": "application/zip" } });
+ * ```
+ */
+
+import { buildEdl } from "./edl";
+import { buildFcpxml } from "./fcpxml";
+import { buildOtio } from "./otio";
+import { createZipStream } from "./zip";
+import type { InterchangeFormat, InterchangeTimeline } from "./types";
+
+export { INTERCHANGE_FPS, buildInterchangeTimeline, buildTrackItems } from "./build";
+export { buildEdl } from "./edl";
+export { buildFcpxml } from "./fcpxml";
+export { buildOtio } from "./otio";
+export { createZipStream } from "./zip";
+export type { ZipEntry } from "./zip";
+export { INTERCHANGE_FORMATS } from "./types";
+export type { InterchangeClip, InterchangeFormat, InterchangeTimeline, TrackItem } from "./types";
+
+const TIMELINE_FILE_EXTENSIONS: Record<InterchangeFormat, string> = {
+  edl: "edl",
+  fcpxml: "fcpxml",
+  otio: "otio",
+};
+
+/**
+ * The timeline file in one format
+ */
+export function buildTimelineFile(timeline: InterchangeTimeline, format: InterchangeFormat): string {
+  switch (format) {
+    case "edl":
+      return buildEdl(timeline);
+    case "fcpxml":
+      return buildFcpxml(timeline);
+    case "otio":
+      return buildOtio(timeline);
+  }
+}
+
+/**
+ * Zip the timeline file with its media:
+ * `<project>/<project>.<ext>` and `<project>/media/S01_SH01.mp4`, ...
+ *
+ * Shot videos are downloaded one at a time as the zip streams; a failed
+ * download errors the stream.
+ */
+export function createTimelineExportZip(
+  timeline: InterchangeTimeline,
+  format: InterchangeFormat
+): { fileName: string; stream: ReadableStream<Uint8Array> } {
+  const folder = toFileSlug(timeline.title);
+  const encoder = new TextEncoder();
+
+  const stream = createZipStream([
+    {
+      name: `${folder}/${folder}.${TIMELINE_FILE_EXTENSIONS[format]}`,
+      load: async () => encoder.encode(buildTimelineFile(timeline, format)),
+    },
+    ...timeline.clips.map((clip) => ({
+      name: `${folder}/media/${clip.fileName}`,
+      load: async () => {
+        const response = await fetch(clip.url);
+        if (!response.ok) {
+          throw new Error(`Failed to download ${clip.name}: ${response.status} ${response.statusText}`);
+        }
+        return new Uint8Array(await response.arrayBuffer());
+      },
+    })),
+  ]);
+
+  return { fileName: `${folder}-${format}.zip`, stream };
+}
+
+/**
+ * "My Film: Take 2" -> "my-film-take-2"
+ */
+function toFileSlug(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "timeline"
+  );
+}
@@ -0,0 +1,105 @@
+import { TRANSITION_LABELS } from "@/lib/transitions";
+import { buildTrackItems } from "./build";
+import type { InterchangeTimeline, TrackItem } from "./types";
+
+/**
+ * OpenTimelineIO JSON of the timeline: a video track and a matching audio
+ * track (the shots' own sound), media paths relative to the export folder
+ *
+ * Every transition is an SMPTE dissolve centered on its edit; the timeline
+ * transition type is kept in the `ripreel` metadata.
+ */
+export function buildOtio(timeline: InterchangeTimeline): string {
+  const items = buildTrackItems(timeline);
+  const rt = (frames: number) => ({ OTIO_SCHEMA: "RationalTime.1", rate: timeline.fps, value: frames });
+  const range = (start: number, duration: number) => ({
+    OTIO_SCHEMA: "TimeRange.1",
+    start_time: rt(start),
+    duration: rt(duration),
+  });
+
+  const toChild = (item: TrackItem) => {
+    switch (item.kind) {
+      case "clip": {
+        const { clip } = item;
+        return {
+          OTIO_SCHEMA: "Clip.2",
+          name: clip.name,
+          source_range: range(item.sourceStart, item.duration),
+          media_references: {
+            DEFAULT_MEDIA: {
+              OTIO_SCHEMA: "ExternalReference.1",
+              name: clip.fileName,
+              target_url: `media/${clip.fileName}`,
+              available_range: range(0, clip.mediaFrames),
+              metadata: {},
+            },
+          },
+          active_media_reference_key: "DEFAULT_MEDIA",
+          effects: [],
+          markers: [],
+          enabled: true,
+          metadata: {
+            ripreel: {
+              scene_id: clip.sceneId,
+              shot_id: clip.shotId,
+              scene_number: clip.sceneNumber,
+              shot_number: clip.shotNumber,
+              slugline: clip.slugline,
+            },
+          },
+        };
+      }
+      case "gap":
+        return {
+          OTIO_SCHEMA: "Gap.1",
+          name: "",
+          source_range: range(0, item.duration),
+          effects: [],
+          markers: [],
+          enabled: true,
+          metadata: {},
+        };
+      case "transition":
+        return {
+          OTIO_SCHEMA: "Transition.1",
+          name: TRANSITION_LABELS[item.type],
+          transition_type: "SMPTE_Dissolve",
+          in_offset: rt(item.inOffset),
+          out_offset: rt(item.outOffset),
+          metadata: { ripreel: { transition: item.type } },
+        };
+    }
+  };
+
+  const track = (name: string, kind: "Video" | "Audio") => ({
+    OTIO_SCHEMA: "Track.1",
+    name,
+    kind,
+    source_range: null,
+    effects: [],
+    markers: [],
+    enabled: true,
+    metadata: {},
+    children: items.map(toChild),
+  });
+
+  const otio = {
+    OTIO_SCHEMA: "Timeline.1",
+    name: timeline.title,
+    global_start_time: null,
+    metadata: {},
+    tracks: {
+      OTIO_SCHEMA: "Stack.1",
+      name: "tracks",
+      source_range: null,
+      effects: [],
+      markers: [],
+      enabled: true,
+      metadata: {},
+      children: [track("V1", "Video"), track("A1", "Audio")],
+    },
+  };
+
+  return `${JSON.stringify(otio, null, 2)}\n`;
+}
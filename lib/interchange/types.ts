@@ -0,0 +1,66 @@
+import type { TransitionType } from "@/lib/transitions";
+
+/**
+ * Editing interchange formats
+ * - edl: CMX3600 edit decision list
+ * - fcpxml: Final Cut Pro XML (also read by Resolve and Premiere)
+ * - otio: OpenTimelineIO JSON
+ */
+export const INTERCHANGE_FORMATS = ["edl", "fcpxml", "otio"] as const;
+export type InterchangeFormat = (typeof INTERCHANGE_FORMATS)[number];
+
+/**
+ * One shot on the exported timeline. All times are frames at the timeline
+ * rate (INTERCHANGE_FPS).
+ */
+export interface InterchangeClip {
+  sceneId: string;
+  shotId: string;
+  sceneNumber: number;
+  shotNumber: number;
+  slugline: string;
+  /** "Scene 3 Shot 2" */
+  name: string;
+  /** Media file name in the export, e.g. "S03_SH02.mp4" */
+  fileName: string;
+  /** Where the media is downloaded from */
+  url: string;
+  /** Whole source clip length */
+  mediaFrames: number;
+  /** Range of the source clip used (trim points) */
+  sourceIn: number;
+  sourceOut: number;
+  /** Where the clip starts on the timeline */
+  recordIn: number;
+  /**
+   * Transition from the previous clip, fitted to both clips (a cut on the
+   * first clip). Overlapping transitions start `frames` before the previous
+   * clip ends; fades play over the end / start of one clip.
+   */
+  transition: { type: TransitionType; frames: number };
+}
+
+export interface InterchangeTimeline {
+  title: string;
+  fps: number;
+  clips: InterchangeClip[];
+  durationFrames: number;
+}
+
+/**
+ * The timeline as a single track with transitions centered on each edit
+ * point (how FCPXML and OTIO model them). Clips give up the frames a
+ * transition covers, so every transition has media handles on both sides;
+ * fades to or from black transition to a gap.
+ */
+export type TrackItem =
+  | { kind: "clip"; clip: InterchangeClip; sourceStart: number; duration: number }
+  | { kind: "gap"; duration: number }
+  | {
+      kind: "transition";
+      type: TransitionType;
+      /** Frames before the edit point */
+      inOffset: number;
+      /** Frames after the edit point */
+      outOffset: number;
+    };
@@ -0,0 +1,95 @@
+import { crc32 } from "zlib";
+
+export interface ZipEntry {
+  /** Path inside the archive ("folder/file.ext") */
+  name: string;
+  /** Loaded when the entry is written, so one entry is in memory at a time */
+  load: () => Promise<Uint8Array>;
+}
+
+/** Zip format limit without Zip64 */
+const MAX_ZIP32_BYTES = 0xffffffff;
+
+/**
+ * Stream a zip archive of the entries
+ *
+ * Entries are stored uncompressed - the media is already compressed video
+ * and the text files are small - so each one can be written as soon as it
+ * is loaded. Archives are limited to 4 GB (no Zip64).
+ */
+export function createZipStream(entries: ZipEntry[]): ReadableStream<Uint8Array> {
+  const centralDirectory: Buffer[] = [];
+  const { time, date } = toDosDateTime(new Date());
+  let offset = 0;
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index < entries.length) {
+        const entry = entries[index++];
+        const data = Buffer.from(await entry.load());
+        const name = Buffer.from(entry.name, "utf8");
+        const checksum = crc32(data);
+
+        if (offset + 30 + name.length + data.length > MAX_ZIP32_BYTES) {
+          throw new Error("Export is too large for a zip archive (over 4 GB)");
+        }
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0); // Local file header signature
+        local.writeUInt16LE(20, 4); // Version needed (2.0)
+        local.writeUInt16LE(0x0800, 6); // UTF-8 names
+        local.writeUInt16LE(0, 8); // Stored
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(checksum, 14);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28); // Extra field length
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0); // Central directory header signature
+        central.writeUInt16LE(20, 4); // Version made by
+        central.writeUInt16LE(20, 6); // Version needed
+        central.writeUInt16LE(0x0800, 8);
+        central.writeUInt16LE(0, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(date, 14);
+        central.writeUInt32LE(checksum, 16);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        // Extra, comment, disk number, internal and external attributes stay 0
+        central.writeUInt32LE(offset, 42);
+        centralDirectory.push(central, name);
+
+        controller.enqueue(new Uint8Array(Buffer.concat([local, name])));
+        controller.enqueue(new Uint8Array(data));
+        offset += local.length + name.length + data.length;
+        return;
+      }
+
+      const directory = Buffer.concat(centralDirectory);
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+      end.writeUInt16LE(entries.length, 8);
+      end.writeUInt16LE(entries.length, 10);
+      end.writeUInt32LE(directory.length, 12);
+      end.writeUInt32LE(offset, 16);
+
+      controller.enqueue(new Uint8Array(Buffer.concat([directory, end])));
+      controller.close();
+    },
+  });
+}
+
+/**
+ * MS-DOS time and date fields (local time, 2-second resolution)
+ */
+function toDosDateTime(value: Date): { time: number; date: number } {
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Job Handlers
+ *
+ * Maps each job type to the function that does the work.
+ */
+
+import { generateProjectScenes } from "@/lib/scene-generation";
+import { generateBibleAssetsForProject } from "@/lib/bible/auto-generation";
+import { generateProjectShotVideos, regenerateStaleShotVideos } from "@/lib/videos";
+import { assembleFinalReel, burnInReelCaptions } from "@/lib/assembly";
+import { processReelMedia, processShotMedia } from "@/lib/video-media/process";
+import type { JobHandler, JobType } from "./types";
+
+export const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+  scene_generation: (payload, { projectId }) =>
+    generateProjectScenes(
+      projectId,
+      payload.scriptContent,
+      payload.visualStyle,
+      payload.bibleData,
+      payload.apiKeys,
+      payload.parsedScenes
+    ),
+
+  bible_auto_generation: (_payload, { projectId }) =>
+    generateBibleAssetsForProject(projectId),
+
+  shot_video_batch: async (payload, { projectId }) => {
+    const { queued, total } = await generateProjectShotVideos(projectId, payload.apiKeys);
+    return { queued, total };
+  },
+
+  final_assembly: (payload, { projectId, isFinalAttempt }) =>
+    assembleFinalReel(projectId, payload.reelId, isFinalAttempt),
+
+  caption_burn_in: (payload, { projectId, isFinalAttempt }) =>
+    burnInReelCaptions(projectId, payload.reelId, isFinalAttempt),
+
+  stale_shot_regeneration: async (payload, { projectId }) => {
+    const { queued, total, waiting, failed } = await regenerateStaleShotVideos(
+      projectId,
+      payload.sceneId,
+      payload.apiKeys,
+      payload.step ?? 0
+    );
+    return { queued, total, waiting, failed };
+  },
+
+  video_media: async (payload) => {
+    const media = payload.target === "shot" ? await processShotMedia(payload.id) : await processReelMedia(payload.id);
+    return { processed: !!media };
+  },
+};
@@ -0,0 +1,40 @@
+/**
+ * Background Jobs - Main Entry Point
+ *
+ * Durable Postgres-backed queue for work that must outlive a request.
+ *
+ * @example Queue a job from a server action
+ * ```typescript
+ * import { enqueueJob, kickJobWorker } from "@/lib/jobs";
+ *
+ * await requireProjectOwner(projectId);
+ * await enqueueJob(projectId, "final_assembly", { reelId });
+ * kickJobWorker();
+ * ```
+ */
+
+export {
+  enqueueJob,
+  requeueJob,
+  getJob,
+  getProjectJobSummaries,
+  toJobSummary,
+} from "./queue";
+
+export { runJobWorker, kickJobWorker } from "./worker";
+
+export {
+  JobPermanentError,
+  isJobActive,
+  JOB_TYPE_LABELS,
+  ACTIVE_JOB_STATUSES,
+} from "./types";
+
+export type {
+  JobType,
+  JobPayloadMap,
+  JobSummary,
+  JobHandler,
+  JobHandlerContext,
+  SceneGenerationBibleData,
+} from "./types";
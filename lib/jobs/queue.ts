@@ -0,0 +1,340 @@
+/**
+ * Background Job Queue
+ *
+ * Postgres-backed queue operations. Jobs are claimed with
+ * `FOR UPDATE SKIP LOCKED` so several workers can run side by side, and
+ * each claim holds a lease that the worker extends with heartbeats.
+ */
+
+import { db } from "@/lib/drizzle/db";
+import { background_jobs, type BackgroundJob } from "@/lib/drizzle/schema";
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { sealPayload } from "./secrets";
+import { ACTIVE_JOB_STATUSES, type JobPayloadMap, type JobSummary, type JobType } from "./types";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * How long a claimed job stays leased without a heartbeat
+ * Video batches hold a single n8n request open for several minutes,
+ * so the lease must outlive one heartbeat interval comfortably.
+ */
+export const JOB_LEASE_SECONDS = 120;
+
+/** Heartbeat interval while a handler runs */
+export const JOB_HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/** First retry delay - doubled on every further attempt */
+const BACKOFF_BASE_SECONDS = 30;
+
+/** Upper bound for the retry delay */
+const BACKOFF_MAX_SECONDS = 15 * 60;
+
+// ============================================================================
+// Enqueue
+// ============================================================================
+
+export interface EnqueueJobOptions<T extends JobType = JobType> {
+  /** Default 3 */
+  maxAttempts?: number;
+  /**
+   * Reuse an existing queued/running job of the same type for the project
+   * instead of creating a duplicate (default true)
+   */
+  dedupe?: boolean;
+  /** Only reuse an active job whose payload has the same value for this key */
+  dedupeOn?: keyof JobPayloadMap[T] & string;
+  /** Earliest time a worker may pick it up (default now) */
+  runAt?: Date;
+}
+
+/**
+ * Add a job to the queue
+ * @returns The new (or deduplicated existing) job row
+ */
+export async function enqueueJob<T extends JobType>(
+  projectId: string,
+  type: T,
+  payload: JobPayloadMap[T],
+  options: EnqueueJobOptions<T> = {}
+): Promise<BackgroundJob> {
+  const { maxAttempts = 3, dedupe = true, dedupeOn, runAt } = options;
+
+  if (dedupe) {
+    const [existing] = await db
+      .select()
+      .from(background_jobs)
+      .where(
+        and(
+          eq(background_jobs.project_id, projectId),
+          eq(background_jobs.type, type),
+          inArray(background_jobs.status, ACTIVE_JOB_STATUSES),
+          dedupeOn
+            ? sql`${background_jobs.payload} ->> ${dedupeOn}::text is not distinct from ${toPayloadText(payload[dedupeOn])}::text`
+            : undefined
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      console.log(`⏭️ Job ${type} already active for project ${projectId}:`, existing.id);
+      return existing;
+    }
+  }
+
+  const [job] = await db
+    .insert(background_jobs)
+    .values({
+      project_id: projectId,
+      type,
+      payload: sealPayload(payload as Record<string, unknown>),
+      max_attempts: maxAttempts,
+      ...(runAt ? { run_at: runAt } : {}),
+    })
+    .returning();
+
+  console.log(`📥 Enqueued ${type} job ${job.id} for project ${projectId}`);
+  return job;
+}
+
+// ============================================================================
+// Worker Operations
+// ============================================================================
+
+/**
+ * Claim the next runnable job and lease it to a worker
+ *
+ * Runnable means queued with run_at in the past, or running with an
+ * expired lease (the previous worker died). Each claim counts as an attempt.
+ */
+export async function claimNextJob(workerId: string): Promise<BackgroundJob | null> {
+  const [job] = await db
+    .update(background_jobs)
+    .set({
+      status: "running",
+      attempts: sql`${background_jobs.attempts} + 1`,
+      locked_by: workerId,
+      locked_until: sql`now() + make_interval(secs => ${JOB_LEASE_SECONDS})`,
+      heartbeat_at: sql`now()`,
+      started_at: sql`coalesce(${background_jobs.started_at}, now())`,
+      updated_at: sql`now()`,
+    })
+    .where(
+      eq(
+        background_jobs.id,
+        sql`(
+          select ${background_jobs.id} from ${background_jobs}
+          where (${background_jobs.status} = 'queued' and ${background_jobs.run_at} <= now())
+             or (${background_jobs.status} = 'running' and ${background_jobs.locked_until} < now())
+          order by ${background_jobs.run_at}
+          for update skip locked
+          limit 1
+        )`
+      )
+    )
+    .returning();
+
+  return job ?? null;
+}
+
+/**
+ * Extend the lease on a running job
+ * @returns false if the worker no longer holds the lease
+ */
+export async function heartbeatJob(jobId: string, workerId: string): Promise<boolean> {
+  const updated = await db
+    .update(background_jobs)
+    .set({
+      locked_until: sql`now() + make_interval(secs => ${JOB_LEASE_SECONDS})`,
+      heartbeat_at: sql`now()`,
+    })
+    .where(
+      and(
+        eq(background_jobs.id, jobId),
+        eq(background_jobs.locked_by, workerId),
+        eq(background_jobs.status, "running")
+      )
+    )
+    .returning({ id: background_jobs.id });
+
+  return updated.length > 0;
+}
+
+/**
+ * Mark a job as succeeded and release its lease
+ * Secrets (API keys) are removed from the stored payload.
+ */
+export async function completeJob(
+  job: BackgroundJob,
+  workerId: string,
+  result?: Record<string, unknown>
+): Promise<void> {
+  await db
+    .update(background_jobs)
+    .set({
+      status: "succeeded",
+      result: result ?? null,
+      payload: scrubPayload(job.payload),
+      last_error: null,
+      locked_by: null,
+      locked_until: null,
+      completed_at: new Date(),
+      updated_at: new Date(),
+    })
+    .where(and(eq(background_jobs.id, job.id), eq(background_jobs.locked_by, workerId)));
+}
+
+/**
+ * Record a failed attempt
+ *
+ * Retries with exponential backoff until max_attempts is reached;
+ * permanent failures skip the remaining attempts.
+ * @returns true if the job will be retried
+ */
+export async function failJob(
+  job: BackgroundJob,
+  workerId: string,
+  error: string,
+  permanent = false
+): Promise<boolean> {
+  const willRetry = !permanent && job.attempts < job.max_attempts;
+
+  if (willRetry) {
+    const delaySeconds = getBackoffSeconds(job.attempts);
+
+    await db
+      .update(background_jobs)
+      .set({
+        status: "queued",
+        last_error: error,
+        run_at: new Date(Date.now() + delaySeconds * 1000),
+        locked_by: null,
+        locked_until: null,
+        updated_at: new Date(),
+      })
+      .where(and(eq(background_jobs.id, job.id), eq(background_jobs.locked_by, workerId)));
+
+    console.log(`🔄 Job ${job.id} (${job.type}) retrying in ${delaySeconds}s (attempt ${job.attempts}/${job.max_attempts})`);
+    return true;
+  }
+
+  await db
+    .update(background_jobs)
+    .set({
+      status: "failed",
+      last_error: error,
+      payload: scrubPayload(job.payload),
+      locked_by: null,
+      locked_until: null,
+      completed_at: new Date(),
+      updated_at: new Date(),
+    })
+    .where(and(eq(background_jobs.id, job.id), eq(background_jobs.locked_by, workerId)));
+
+  console.error(`❌ Job ${job.id} (${job.type}) failed permanently:`, error);
+  return false;
+}
+
+/**
+ * Put a failed job back in the queue with a fresh set of attempts
+ * Payload secrets were scrubbed on failure, so the retry runs with
+ * server-side API keys unless new ones are provided.
+ */
+export async function requeueJob(
+  jobId: string,
+  payloadOverrides?: Record<string, unknown>
+): Promise<BackgroundJob | null> {
+  const [job] = await db
+    .update(background_jobs)
+    .set({
+      status: "queued",
+      attempts: 0,
+      last_error: null,
+      run_at: new Date(),
+      completed_at: null,
+      ...(payloadOverrides
+        ? { payload: sql`${background_jobs.payload} || ${JSON.stringify(sealPayload(payloadOverrides))}::jsonb` }
+        : {}),
+      updated_at: new Date(),
+    })
+    .where(and(eq(background_jobs.id, jobId), eq(background_jobs.status, "failed")))
+    .returning();
+
+  return job ?? null;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Get a job by ID
+ */
+export async function getJob(jobId: string): Promise<BackgroundJob | null> {
+  const [job] = await db
+    .select()
+    .from(background_jobs)
+    .where(eq(background_jobs.id, jobId))
+    .limit(1);
+
+  return job ?? null;
+}
+
+/**
+ * Get the most recent job of each type for a project
+ */
+export async function getProjectJobSummaries(projectId: string): Promise<JobSummary[]> {
+  const jobs = await db
+    .select()
+    .from(background_jobs)
+    .where(eq(background_jobs.project_id, projectId))
+    .orderBy(desc(background_jobs.created_at));
+
+  const latestByType = new Map<string, BackgroundJob>();
+  for (const job of jobs) {
+    if (!latestByType.has(job.type)) {
+      latestByType.set(job.type, job);
+    }
+  }
+
+  return [...latestByType.values()].map(toJobSummary);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getBackoffSeconds(attempt: number): number {
+  return Math.min(BACKOFF_BASE_SECONDS * 2 ** Math.max(attempt - 1, 0), BACKOFF_MAX_SECONDS);
+}
+
+/**
+ * A payload value as Postgres `->>` returns it (null stays null)
+ */
+function toPayloadText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function scrubPayload(payload: Record<string, unknown>): Record<string, unknown> {
+  const scrubbed = { ...payload };
+  delete scrubbed.apiKeys;
+  return scrubbed;
+}
+
+export function toJobSummary(job: BackgroundJob): JobSummary {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    lastError: job.last_error,
+    runAt: job.run_at,
+    startedAt: job.started_at,
+    completedAt: job.completed_at,
+    createdAt: job.created_at,
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Job Payload Secrets
+ *
+ * User API keys ride along with the jobs that spend them, but are never
+ * stored in plain text: the queue seals them with AES-256-GCM under
+ * JOB_PAYLOAD_SECRET before writing the row, and the worker opens them
+ * just before the handler runs. Without the secret, user keys are dropped
+ * and the job runs with the server-side keys.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { env } from "@/lib/env";
+import type { ApiKeys } from "@/lib/n8n/types";
+
+const SEAL_VERSION = "v1";
+
+/**
+ * Replace a payload's API keys with their sealed form (or drop them)
+ */
+export function sealPayload(payload: Record<string, unknown>): Record<string, unknown> {
+  if (payload.apiKeys === undefined) return payload;
+
+  const { apiKeys, ...rest } = payload;
+  const secret = env.JOB_PAYLOAD_SECRET;
+
+  if (!apiKeys || !secret) {
+    if (apiKeys) console.warn("⚠️ JOB_PAYLOAD_SECRET not set - job runs with server-side API keys");
+    return rest;
+  }
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", toKey(secret), iv);
+  const sealed = Buffer.concat([cipher.update(JSON.stringify(apiKeys), "utf8"), cipher.final()]);
+
+  return {
+    ...rest,
+    apiKeys: [SEAL_VERSION, iv.toString("base64"), cipher.getAuthTag().toString("base64"), sealed.toString("base64")].join("."),
+  };
+}
+
+/**
+ * Restore a stored payload's API keys for its handler
+ * Keys that can't be opened (secret changed or removed) are dropped.
+ */
+export function openPayload(payload: Record<string, unknown>): Record<string, unknown> {
+  if (typeof payload.apiKeys !== "string") return payload;
+
+  const { apiKeys, ...rest } = payload;
+  const opened = openApiKeys(apiKeys);
+  return opened ? { ...rest, apiKeys: opened } : rest;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function openApiKeys(sealed: string): ApiKeys | null {
+  const secret = env.JOB_PAYLOAD_SECRET;
+  const [version, iv, tag, data] = sealed.split(".");
+
+  if (!secret || version !== SEAL_VERSION || !iv || !tag || !data) {
+    console.warn("⚠️ Could not open job API keys - running with server-side keys");
+    return null;
+  }
+
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", toKey(secret), Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    const json = Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf8");
+    return JSON.parse(json) as ApiKeys;
+  } catch (error) {
+    console.warn("⚠️ Could not open job API keys - running with server-side keys:", error);
+    return null;
+  }
+}
+
+function toKey(secret: string): Buffer {
+  return createHash("sha256").update(secret).digest();
+}
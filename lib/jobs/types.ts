@@ -0,0 +1,152 @@
+/**
+ * Type definitions for the background job queue
+ * Shared between the queue, the worker, job handlers, and client components
+ * (no server-only imports here)
+ */
+
+import type { ApiKeys, GenerateBibleResult } from "@/lib/n8n/types";
+import type { BackgroundJob, RawSceneData } from "@/lib/drizzle/schema";
+
+// ============================================================================
+// Job Payloads
+// ============================================================================
+
+/**
+ * Bible data passed to scene generation (subset of the generate_bible result)
+ */
+export type SceneGenerationBibleData = NonNullable<GenerateBibleResult["data"]>;
+
+export interface SceneGenerationJobPayload {
+  scriptContent: string;
+  visualStyle: string;
+  bibleData: SceneGenerationBibleData;
+  /** Scenes from a local Fountain/FDX parse - authoritative for count and dialogue */
+  parsedScenes?: RawSceneData[];
+  /** Encrypted in the row (see ./secrets.ts) and scrubbed once the job finishes */
+  apiKeys?: ApiKeys;
+}
+
+export type BibleAutoGenerationJobPayload = Record<string, never>;
+
+export interface ShotVideoBatchJobPayload {
+  /** Encrypted in the row (see ./secrets.ts) and scrubbed once the job finishes */
+  apiKeys?: ApiKeys;
+}
+
+export interface StaleShotRegenerationJobPayload {
+  /** Null = every scene of the project */
+  sceneId: string | null;
+  /** Encrypted in the row (see ./secrets.ts) and scrubbed once the job finishes */
+  apiKeys?: ApiKeys;
+  /** Chain steps run before this one (each step queues the next while shots wait) */
+  step?: number;
+}
+
+export interface VideoMediaJobPayload {
+  /** A shot (its selected video) or a reel */
+  target: "shot" | "reel";
+  id: string;
+}
+
+export interface FinalAssemblyJobPayload {
+  reelId: string;
+}
+
+export interface CaptionBurnInJobPayload {
+  reelId: string;
+}
+
+/**
+ * Payload shape for each job type
+ */
+export interface JobPayloadMap {
+  scene_generation: SceneGenerationJobPayload;
+  bible_auto_generation: BibleAutoGenerationJobPayload;
+  shot_video_batch: ShotVideoBatchJobPayload;
+  final_assembly: FinalAssemblyJobPayload;
+  caption_burn_in: CaptionBurnInJobPayload;
+  stale_shot_regeneration: StaleShotRegenerationJobPayload;
+  video_media: VideoMediaJobPayload;
+}
+
+export type JobType = keyof JobPayloadMap;
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export interface JobHandlerContext {
+  jobId: string;
+  projectId: string;
+  /** 1-based attempt number for this run */
+  attempt: number;
+  /** True when a failure now will not be retried */
+  isFinalAttempt: boolean;
+}
+
+/**
+ * A job handler does the work and returns a small JSON-serializable result.
+ * Throw to fail the attempt (retried with backoff), or throw
+ * JobPermanentError to fail without retrying.
+ */
+export type JobHandler<T extends JobType> = (
+  payload: JobPayloadMap[T],
+  context: JobHandlerContext
+) => Promise<Record<string, unknown> | void>;
+
+// ============================================================================
+// Status
+// ============================================================================
+
+/**
+ * Client-safe view of a job row (no payload, which may contain API keys)
+ */
+export interface JobSummary {
+  id: string;
+  type: JobType;
+  status: BackgroundJob["status"];
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+export const ACTIVE_JOB_STATUSES: JobSummary["status"][] = ["queued", "running"];
+
+/**
+ * Check whether a job is still waiting or running
+ */
+export function isJobActive(job: Pick<JobSummary, "status">): boolean {
+  return ACTIVE_JOB_STATUSES.includes(job.status);
+}
+
+/**
+ * Human-readable job names for the UI
+ */
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+  scene_generation: "Scene generation",
+  bible_auto_generation: "Bible image generation",
+  shot_video_batch: "Video generation",
+  final_assembly: "Final assembly",
+  caption_burn_in: "Caption burn-in",
+  stale_shot_regeneration: "Stale shot regeneration",
+  video_media: "Thumbnails and previews",
+};
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown by handlers for failures that retrying cannot fix
+ * (missing records, invalid input, not enough ready shots, ...)
+ */
+export class JobPermanentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobPermanentError";
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Background Job Worker
+ *
+ * Claims jobs from the queue and runs their handlers, keeping the lease
+ * alive with heartbeats. A worker runs until the queue is empty or its
+ * time budget is spent; jobs it cannot finish are picked up by the next
+ * run (after() kick, or the /api/jobs/run cron endpoint).
+ */
+
+import { after } from "next/server";
+import { randomUUID } from "crypto";
+import type { BackgroundJob } from "@/lib/drizzle/schema";
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  JOB_HEARTBEAT_INTERVAL_MS,
+} from "./queue";
+import { jobHandlers } from "./handlers";
+import { openPayload } from "./secrets";
+import { JobPermanentError, type JobHandler, type JobPayloadMap, type JobType } from "./types";
+
+/**
+ * Stop claiming new jobs after this long
+ * Keeps a worker inside the platform's function duration limit.
+ */
+const DEFAULT_TIME_BUDGET_MS = 4 * 60 * 1000;
+
+/** Safety cap on jobs per run */
+const DEFAULT_MAX_JOBS = 10;
+
+export interface RunJobWorkerOptions {
+  timeBudgetMs?: number;
+  maxJobs?: number;
+}
+
+export interface JobWorkerRunResult {
+  workerId: string;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  retried: number;
+}
+
+/**
+ * Process queued jobs until the queue is empty or the budget is spent
+ */
+export async function runJobWorker(options: RunJobWorkerOptions = {}): Promise<JobWorkerRunResult> {
+  const { timeBudgetMs = DEFAULT_TIME_BUDGET_MS, maxJobs = DEFAULT_MAX_JOBS } = options;
+  const workerId = `worker-${randomUUID()}`;
+  const startedAt = Date.now();
+  const stats: JobWorkerRunResult = { workerId, processed: 0, succeeded: 0, failed: 0, retried: 0 };
+
+  while (stats.processed < maxJobs && Date.now() - startedAt < timeBudgetMs) {
+    const job = await claimNextJob(workerId);
+    if (!job) break;
+
+    stats.processed++;
+    const outcome = await processJob(job, workerId);
+    stats[outcome]++;
+  }
+
+  if (stats.processed > 0) {
+    console.log(`🏁 Job worker ${workerId} done:`, stats);
+  }
+
+  return stats;
+}
+
+/**
+ * Start a worker after the current response is sent
+ *
+ * Call from server actions right after enqueueing so work begins
+ * immediately; the cron endpoint picks up anything this run misses.
+ */
+export function kickJobWorker(): void {
+  after(async () => {
+    try {
+      await runJobWorker();
+    } catch (error) {
+      console.error("❌ Job worker crashed:", error);
+    }
+  });
+}
+
+async function processJob(
+  job: BackgroundJob,
+  workerId: string
+): Promise<"succeeded" | "failed" | "retried"> {
+  console.log(`🚀 Running job ${job.id} (${job.type}) attempt ${job.attempts}/${job.max_attempts}`);
+
+  // A previous worker died mid-run and used up the last attempt
+  if (job.attempts > job.max_attempts) {
+    await failJob(job, workerId, job.last_error || "Worker lease expired", true);
+    return "failed";
+  }
+
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, workerId)
+      .then((held) => {
+        if (!held) console.warn(`⚠️ Lost lease on job ${job.id}`);
+      })
+      .catch((error) => console.error(`❌ Heartbeat failed for job ${job.id}:`, error));
+  }, JOB_HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const handler = jobHandlers[job.type] as JobHandler<JobType>;
+    const result = await handler(openPayload(job.payload) as unknown as JobPayloadMap[JobType], {
+      jobId: job.id,
+      projectId: job.project_id,
+      attempt: job.attempts,
+      isFinalAttempt: job.attempts >= job.max_attempts,
+    });
+
+    await completeJob(job, workerId, result ?? undefined);
+    console.log(`✅ Job ${job.id} (${job.type}) succeeded`);
+    return "succeeded";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const willRetry = await failJob(job, workerId, message, error instanceof JobPermanentError);
+    return willRetry ? "retried" : "failed";
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
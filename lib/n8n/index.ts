@@ -24,7 +24,7 @@
  *
  * @example Convenience functions
  * ```typescript
- * import { parseScreenplay, generateBibleImage } from "@/lib/n8n";
+ * import { parseScreenplay } from "@/lib/n8n";
  *
  * const parseResult = await parseScreenplay({
  *   script_content: "...",
@@ -32,14 +32,10 @@
  *   user_id: "456",
  *   is_pdf: false
  * });
- *
- * const imageResult = await generateBibleImage({
- *   asset_type: "character",
- *   asset_id: "abc",
- *   prompt: "...",
- *   model: "seedream-4.5-text-to-image"
- * });
  * ```
+ *
+ * Pipeline code should call generation through "@/lib/providers" instead,
+ * which dispatches to these n8n functions or to the offline mock.
  */
 
 // ============================================================================
@@ -56,8 +52,8 @@ export {
   generateBible,
   generateScenes,
   generateImage,
-  generateBibleImage,
   generateVideoSimple,
+  generateAudio,
   enhanceImageWithFlux,
 } from "./mcp-client";
 
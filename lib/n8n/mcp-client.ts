@@ -19,13 +19,16 @@
  */
 
 import { env } from "@/lib/env";
+import { createSignedHeaders } from "./signing";
+import { loadWorkflowRegistry } from "./registry";
+import type { VeoAspectRatio } from "@/lib/formats";
 import type {
   WorkflowInfo,
   DiscoverWorkflowsOptions,
   InvokeWorkflowOptions,
   WorkflowInvocationResult,
+  JobStatus,
   JobStatusResult,
-  N8nWorkflowError,
   BibleCharacter,
   BibleLocation,
   BibleProp,
@@ -35,8 +38,10 @@ import type {
   GenerateBibleResult,
   GenerateScenesPayload,
   GenerateScenesResult,
+  AudioGenerationPayload,
   ApiKeys,
 } from "./types";
+import { N8nWorkflowError } from "./types";
 
 // ============================================================================
 // Workflow Discovery
@@ -45,8 +50,8 @@ import type {
 /**
  * Discover available n8n workflows
  *
- * Currently uses statically configured webhooks from environment variables.
- * Future: Could query n8n API for dynamic discovery.
+ * Reads the workflow registry (built-in defaults, config file, and
+ * database overrides - see registry.ts).
  *
  * @param options - Discovery options (filtering, etc.)
  * @returns Array of discovered workflows
@@ -54,73 +59,7 @@ import type {
 export async function discoverWorkflows(
   options: DiscoverWorkflowsOptions = {}
 ): Promise<WorkflowInfo[]> {
-  // Static workflow registry (discovered via MCP during development)
-  const workflows: WorkflowInfo[] = [
-    {
-      name: "break_script_into_scenes",
-      id: "1TA6wjxa1CZ3uAEk",
-      active: true,
-      webhookUrl: env.N8N_PARSE_SCREENPLAY_WEBHOOK,
-      webhookMethod: "POST",
-    },
-    {
-      name: "image_generation_orchestrator",
-      id: "jDyejkSUkUFy39Dk",
-      active: true,
-      webhookUrl: env.N8N_IMAGE_GENERATION_WEBHOOK,
-      webhookMethod: "POST",
-      description: "Universal image generator supporting Seedream 4.5, Nano Banana Pro, Flux.2",
-    },
-    {
-      name: "image_enhancement_flux",
-      id: "LC5VLGYa1Z82045s",
-      active: true,
-      webhookUrl: env.N8N_FLUX_ENHANCEMENT_WEBHOOK,
-      webhookMethod: "POST",
-    },
-    {
-      name: "video_generation_veo3",
-      id: "9P08lK46cM96q9vE",
-      active: true,
-      webhookUrl: env.N8N_VIDEO_GENERATION_WEBHOOK,
-      webhookMethod: "POST",
-      description: "Generate sequential videos using VEO3 with Extend mode. First shot uses image-to-video, subsequent shots extend from previous.",
-    },
-    // Split screenplay parsing workflows (optimized for timeout avoidance)
-    {
-      name: "generate_bible",
-      id: "Jp286Vtl5SgnFoCi",
-      active: true,
-      webhookUrl: env.N8N_GENERATE_BIBLE_WEBHOOK,
-      webhookMethod: "POST",
-      description: "Generate Visual Bible (characters, locations, props) from screenplay - ~2.5 min",
-    },
-    {
-      name: "generate_scenes",
-      id: "RCuxHJ956y6pqQUM",
-      active: true,
-      webhookUrl: env.N8N_GENERATE_SCENES_WEBHOOK,
-      webhookMethod: "POST",
-      description: "Generate scene breakdown from screenplay with Bible data - ~3 min",
-    },
-    // MVP workflows
-    {
-      name: "scene_to_shots",
-      id: "NfCxtVWOW1M3h62I",
-      active: true,
-      webhookUrl: env.N8N_SCENE_TO_SHOTS_WEBHOOK,
-      webhookMethod: "POST",
-      description: "AI scene division into 8s shots using Claude Sonnet 4.5",
-    },
-    {
-      name: "video_generation_simple",
-      id: "jHtOZ9R8Lut4QB1d",
-      active: true,
-      webhookUrl: env.N8N_VIDEO_GENERATION_SIMPLE_WEBHOOK,
-      webhookMethod: "POST",
-      description: "Simple video generation (no Extend mode) - single shot per call",
-    },
-  ];
+  const workflows = await loadWorkflowRegistry();
 
   // Apply filters
   let filtered = workflows;
@@ -211,6 +150,13 @@ export async function invokeWorkflow<T = unknown>(
     };
   }
 
+  if (!workflow.active) {
+    return {
+      success: false,
+      error: `Workflow "${workflowName}" is disabled in the workflow registry`,
+    };
+  }
+
   // Note: callbackUrl is optional for async mode
   // n8n workflows can handle callbacks internally (e.g., KIE.ai -> n8n -> Next.js)
 
@@ -262,13 +208,17 @@ export async function invokeWorkflow<T = unknown>(
       timeoutId = setTimeout(() => controller.abort(), timeout);
     }
 
+    // Sign the exact body we send so n8n can verify it came from us
+    const body = JSON.stringify(requestPayload);
+
     const response = await fetch(workflow.webhookUrl, {
       method: workflow.webhookMethod || "POST",
       headers: {
         "Content-Type": "application/json",
         ...headers,
+        ...createSignedHeaders(body),
       },
-      body: JSON.stringify(requestPayload),
+      body,
       signal: controller.signal,
     });
 
@@ -344,24 +294,84 @@ export async function invokeWorkflow<T = unknown>(
 // ============================================================================
 
 /**
- * Get job status for an async workflow execution
+ * Execution record returned by the n8n REST API (GET /api/v1/executions/:id)
+ * Only the fields we read are typed.
+ */
+interface N8nExecution {
+  id: string | number;
+  finished?: boolean;
+  status?: "new" | "running" | "waiting" | "success" | "error" | "crashed" | "canceled" | "unknown";
+  startedAt?: string;
+  stoppedAt?: string | null;
+  data?: {
+    resultData?: {
+      lastNodeExecuted?: string;
+      error?: { message?: string };
+      runData?: Record<
+        string,
+        Array<{ data?: { main?: Array<Array<{ json?: unknown }> | null> } }>
+      >;
+    };
+  };
+}
+
+/**
+ * Get job status for a workflow execution from the n8n REST API
  *
- * Note: This is a placeholder for future n8n API integration.
- * Currently, status updates come via webhook callbacks.
+ * Requires N8N_API_URL and N8N_API_KEY. Use this when a callback never
+ * arrived - webhook callbacks remain the primary way results come back.
  *
  * @param executionId - n8n execution ID
- * @returns Job status result
+ * @returns Job status result (`notFound` is set if n8n has no such execution)
+ * @throws N8nWorkflowError if the API is not configured or the request fails
  */
 export async function getJobStatus<T = unknown>(
   executionId: string
 ): Promise<JobStatusResult<T>> {
-  // TODO: Implement n8n API call to get execution status
-  // For now, return pending status
-  console.warn("⚠️ getJobStatus is not yet implemented - use webhook callbacks for status updates");
+  if (!env.N8N_API_URL || !env.N8N_API_KEY) {
+    throw new N8nWorkflowError("n8n API not configured (N8N_API_URL / N8N_API_KEY)", undefined, executionId);
+  }
+
+  const url = new URL(`/api/v1/executions/${encodeURIComponent(executionId)}`, env.N8N_API_URL);
+  url.searchParams.set("includeData", "true");
+
+  const response = await fetch(url, {
+    headers: {
+      "X-N8N-API-KEY": env.N8N_API_KEY,
+      Accept: "application/json",
+    },
+    cache: "no-store",
+  });
+
+  // Pruned executions and non-numeric IDs (e.g. provider task IDs) both come back as 404/400
+  if (response.status === 404 || response.status === 400) {
+    return {
+      status: "failed",
+      error: `n8n execution ${executionId} not found`,
+      notFound: true,
+    };
+  }
+
+  if (!response.ok) {
+    throw new N8nWorkflowError(
+      `n8n API request failed: ${response.status} ${response.statusText}`,
+      undefined,
+      executionId,
+      response.status
+    );
+  }
+
+  const execution = (await response.json()) as N8nExecution;
+  const status = mapExecutionStatus(execution);
+  const resultData = execution.data?.resultData;
 
   return {
-    status: "pending",
-    progress: 0,
+    status,
+    progress: status === "success" ? 100 : undefined,
+    data: status === "success" ? extractExecutionOutput<T>(execution) : undefined,
+    error: status === "failed" ? resultData?.error?.message || "n8n execution failed" : undefined,
+    startedAt: execution.startedAt,
+    finishedAt: execution.stoppedAt ?? undefined,
   };
 }
 
@@ -371,6 +381,7 @@ export async function getJobStatus<T = unknown>(
  * @param executionId - n8n execution ID
  * @param options - Polling options
  * @returns Final job status result
+ * @throws N8nWorkflowError if the n8n API is not configured or unreachable
  */
 export async function pollJobStatus<T = unknown>(
   executionId: string,
@@ -409,10 +420,59 @@ export async function pollJobStatus<T = unknown>(
 // Helper Functions
 // ============================================================================
 
+/**
+ * Map an n8n execution status to our job status
+ * Older n8n versions only report `finished`/`stoppedAt`.
+ */
+function mapExecutionStatus(execution: N8nExecution): JobStatus {
+  switch (execution.status) {
+    case "success":
+      return "success";
+    case "error":
+    case "crashed":
+      return "failed";
+    case "canceled":
+      return "canceled";
+    case "waiting":
+      return "waiting";
+    case "running":
+      return "running";
+    case "new":
+      return "pending";
+  }
+
+  if (execution.finished) return "success";
+  if (execution.stoppedAt) return "failed";
+  return "running";
+}
+
+/**
+ * Extract the output of the last executed node
+ * Returns the single item's JSON, or an array when the node emitted several items.
+ */
+function extractExecutionOutput<T>(execution: N8nExecution): T | undefined {
+  const resultData = execution.data?.resultData;
+  const lastNode = resultData?.lastNodeExecuted;
+  if (!lastNode) return undefined;
+
+  const runs = resultData.runData?.[lastNode];
+  const items = runs?.[runs.length - 1]?.data?.main?.[0];
+  if (!items || items.length === 0) return undefined;
+
+  const outputs = items.map((item) => item.json);
+  return (outputs.length === 1 ? outputs[0] : outputs) as T;
+}
+
 /**
  * Extract execution ID from n8n response
+ * Workflows include it as `executionId: {{ $execution.id }}` in their webhook response.
  */
 function extractExecutionId(result: unknown): string | undefined {
+  // Respond to Webhook nodes often return an array of items
+  if (Array.isArray(result)) {
+    return extractExecutionId(result[0]?.json ?? result[0]);
+  }
+
   if (typeof result === "object" && result !== null) {
     const obj = result as Record<string, unknown>;
     if (typeof obj.execution_id === "string") {
@@ -421,6 +481,9 @@ function extractExecutionId(result: unknown): string | undefined {
     if (typeof obj.executionId === "string") {
       return obj.executionId;
     }
+    if (typeof obj.executionId === "number") {
+      return String(obj.executionId);
+    }
   }
   return undefined;
 }
@@ -818,6 +881,7 @@ export async function generateImage(payload: {
   prop_id?: string;
   shot_type?: string; // "portrait", "three_quarter", "full_body"
   variant_id?: string; // For multi-variant generation
+  negative_prompt?: string; // From the project's style preset
   next_js_callback_url?: string; // Webhook URL to receive result
 }, apiKeys?: ApiKeys): Promise<WorkflowInvocationResult<{ taskId: string; message: string }>> {
   return invokeWorkflow<{ taskId: string; message: string }>(
@@ -827,42 +891,6 @@ export async function generateImage(payload: {
   );
 }
 
-/**
- * Generate Bible asset image (character, location, or prop)
- *
- * Convenience wrapper for Bible-specific image generation
- *
- * @param payload - Bible asset generation parameters
- * @param apiKeys - Optional user-provided API keys
- * @returns Workflow invocation result with taskId
- */
-export async function generateBibleImage(payload: {
-  asset_type: "character" | "location" | "prop";
-  asset_id: string;
-  prompt: string;
-  model: string;
-  aspect_ratio?: string;
-  quality?: string;
-  shot_type?: "portrait" | "three_quarter" | "full_body"; // Only for characters
-  variant_id?: string; // For multi-variant generation
-  source_image_url?: string; // For image-to-image generation
-}, apiKeys?: ApiKeys): Promise<WorkflowInvocationResult<{ taskId: string; message: string }>> {
-  // Determine callback URL based on asset type
-  const callbackPath = payload.asset_type === 'character'
-    ? '/api/webhooks/n8n/bible/character-image'
-    : payload.asset_type === 'location'
-    ? '/api/webhooks/n8n/bible/location-image'
-    : '/api/webhooks/n8n/bible/prop-image';
-
-  const next_js_callback_url = `${env.NEXT_PUBLIC_APP_URL}${callbackPath}`;
-
-  return generateImage({
-    ...payload,
-    [`${payload.asset_type}_id`]: payload.asset_id,
-    next_js_callback_url,
-  }, apiKeys);
-}
-
 /**
  * Enhance image with Flux
  *
@@ -881,6 +909,31 @@ export async function enhanceImageWithFlux(payload: {
   );
 }
 
+// ============================================================================
+// Audio Generation
+// ============================================================================
+
+/**
+ * Generate a voiceover, SFX, or music track for a scene
+ *
+ * Convenience wrapper for the "audio_generation" workflow. Asynchronous:
+ * the workflow POSTs the result to `callback_url`
+ * (/api/webhooks/n8n/audio-generated).
+ *
+ * @param payload - Audio generation parameters
+ * @param apiKeys - Optional user-provided API keys
+ */
+export async function generateAudio(
+  payload: AudioGenerationPayload,
+  apiKeys?: ApiKeys
+): Promise<WorkflowInvocationResult<{ taskId?: string; message?: string }>> {
+  return invokeWorkflow<{ taskId?: string; message?: string }>(
+    "audio_generation",
+    payload as unknown as Record<string, unknown>,
+    { mode: "async", callbackUrl: payload.callback_url, apiKeys }
+  );
+}
+
 // ============================================================================
 // Veo 3.1 Scene Video Generation (all shots at once)
 // ============================================================================
@@ -891,9 +944,9 @@ export async function enhanceImageWithFlux(payload: {
 export type Veo31Model = 'veo3' | 'veo3_fast';
 
 /**
- * Veo 3.1 aspect ratios
+ * Veo 3.1 aspect ratios (a project's format picks one - see lib/formats)
  */
-export type Veo31AspectRatio = '16:9' | '9:16' | 'Auto';
+export type Veo31AspectRatio = VeoAspectRatio | 'Auto';
 
 /**
  * Shot data for n8n workflow
@@ -922,12 +975,14 @@ export interface ShotPayloadForN8n {
  * Payload for scene video generation
  * Sends all shots to n8n which handles the generate/extend chain
  *
- * Note: model (veo3_fast) and aspectRatio (16:9) are set by default in n8n
+ * Note: model (veo3_fast) is set by default in n8n
  */
 export interface SceneVideoPayload {
   scene_id: string;
   scene_number: number;
   slugline: string;
+  // The project's format (n8n defaults to 16:9)
+  aspectRatio?: Veo31AspectRatio;
   shots: ShotPayloadForN8n[];
 }
 
@@ -1025,6 +1080,9 @@ export interface VideoGenerationPayload {
   // Video prompt (action description + visual instructions)
   prompt: string;
 
+  // The project's format (defaults to 16:9)
+  aspectRatio?: Veo31AspectRatio;
+
   // Shot breakdown (from raw_scene_data.shots)
   shots?: VideoShotData[] | null;
 
@@ -1271,7 +1329,7 @@ export async function generateVideo(
   const newPayload = {
     shots: n8nShots,
     model: 'veo3',
-    aspectRatio: '16:9',
+    aspectRatio: payload.aspectRatio || '16:9',
 
     // Audio data for Veo 3.1 (generates video with audio)
     audio: {
@@ -1361,6 +1419,7 @@ export interface SceneToShotsResult {
  * Uses structured JSON output for reliable parsing.
  *
  * @param payload - Scene data to divide
+ * @param apiKeys - Optional user-provided API keys
  * @returns Array of shots with action descriptions
  */
 export async function divideSceneIntoShots(payload: {
@@ -1369,7 +1428,7 @@ export async function divideSceneIntoShots(payload: {
   dialogue?: string | null;
   characters?: string[];
   estimatedDuration?: number;
-}): Promise<WorkflowInvocationResult<SceneToShotsResult>> {
+}, apiKeys?: ApiKeys): Promise<WorkflowInvocationResult<SceneToShotsResult>> {
   // Check if webhook is configured
   const workflow = await getWorkflowByName("scene_to_shots");
   if (!workflow?.webhookUrl) {
@@ -1393,7 +1452,7 @@ export async function divideSceneIntoShots(payload: {
   return invokeWorkflow<SceneToShotsResult>(
     "scene_to_shots",
     payload as unknown as Record<string, unknown>,
-    { mode: "sync", timeout: 60000 } // 1 minute timeout
+    { mode: "sync", timeout: 60000, apiKeys } // 1 minute timeout
   );
 }
 
@@ -1429,7 +1488,8 @@ export async function generateVideoSimple(payload: {
   prompt: string;
   duration?: number;
   model?: 'veo3' | 'veo3_fast';
-  aspectRatio?: '16:9' | '9:16' | 'Auto';
+  aspectRatio?: Veo31AspectRatio;
+  negativePrompt?: string; // From the project's style preset
 }, apiKeys?: ApiKeys): Promise<WorkflowInvocationResult<SimpleVideoResult>> {
   // Check if webhook is configured
   const workflow = await getWorkflowByName("video_generation_simple");
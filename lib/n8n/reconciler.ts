@@ -0,0 +1,297 @@
+/**
+ * Generation Reconciler
+ *
+ * Rows are set to `generating` when we hand work to n8n, and flipped to
+ * `ready`/`failed` by the webhook callback. When a callback never arrives the
+ * row stays `generating` forever. The reconciler looks up the real n8n
+ * execution (via the stored `n8n_job_id` / `video_job_id`) for rows that
+ * have been generating too long and settles them:
+ *
+ * - execution failed or was canceled → `failed` with the n8n error
+ * - execution succeeded with a media URL in its output → `ready` (images
+ *   are stored in Supabase, like the webhooks do)
+ * - execution succeeded without a URL, or unknown to n8n → `failed` once
+ *   the row is older than the give-up age (the callback is not coming)
+ * - execution still running/waiting → left alone
+ *
+ * Runs with the job worker cron (/api/jobs/run).
+ */
+
+import { db } from "@/lib/drizzle/db";
+import {
+  bibleImageVariants,
+  sceneImageVariants,
+  scene_audio,
+  scene_videos,
+  shot_takes,
+  scenes,
+} from "@/lib/drizzle/schema";
+import { and, eq, lt } from "drizzle-orm";
+import { env } from "@/lib/env";
+import { drainVideoQueue } from "@/lib/videos";
+import { settleSceneAudio } from "@/lib/audio";
+import { settleShotTake } from "@/lib/takes";
+import { settleBibleVariant, settleSceneImageVariant } from "@/lib/image-variants";
+import { getJobStatus } from "./mcp-client";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReconcileOptions {
+  /** Only look at rows generating for longer than this (default 10) */
+  staleAfterMinutes?: number;
+  /** Fail rows whose callback still hasn't arrived after this (default 60) */
+  giveUpAfterMinutes?: number;
+  /** Max rows checked per table per run (default 25) */
+  limit?: number;
+}
+
+export interface ReconcileResult {
+  checked: number;
+  ready: number;
+  failed: number;
+  /** Still running in n8n, or lookup failed - checked again next run */
+  pending: number;
+}
+
+type Resolution =
+  | { status: "ready"; url: string }
+  | { status: "failed"; error: string }
+  | null;
+
+// ============================================================================
+// Reconciler
+// ============================================================================
+
+/**
+ * Settle generating rows whose n8n callback never arrived
+ */
+export async function reconcileOrphanedGenerations(
+  options: ReconcileOptions = {}
+): Promise<ReconcileResult> {
+  const { staleAfterMinutes = 10, giveUpAfterMinutes = 60, limit = 25 } = options;
+
+  const result: ReconcileResult = { checked: 0, ready: 0, failed: 0, pending: 0 };
+
+  if (env.GENERATION_PROVIDER === "mock") {
+    // Mock task IDs are not n8n executions
+    return result;
+  }
+
+  if (!env.N8N_API_URL || !env.N8N_API_KEY) {
+    console.warn("⚠️ [Reconciler] n8n API not configured - skipping stuck generation check");
+    return result;
+  }
+
+  const staleBefore = new Date(Date.now() - staleAfterMinutes * 60 * 1000);
+  const giveUpBefore = new Date(Date.now() - giveUpAfterMinutes * 60 * 1000);
+
+  const tally = (resolution: Resolution) => {
+    result.checked++;
+    if (!resolution) result.pending++;
+    else if (resolution.status === "ready") result.ready++;
+    else result.failed++;
+  };
+
+  // Bible image variants
+  const bibleVariants = await db
+    .select()
+    .from(bibleImageVariants)
+    .where(and(eq(bibleImageVariants.status, "generating"), lt(bibleImageVariants.updated_at, staleBefore)))
+    .limit(limit);
+
+  for (const variant of bibleVariants) {
+    const resolution = await resolveExecution(variant.n8n_job_id, variant.updated_at, giveUpBefore, IMAGE_URL_KEYS);
+    tally(resolution);
+    if (!resolution) continue;
+
+    await settleBibleVariant(
+      variant.id,
+      resolution.status === "ready"
+        ? { status: "ready", imageUrl: resolution.url }
+        : { status: "failed", error: resolution.error }
+    );
+
+    console.log(`🔧 [Reconciler] Bible variant ${variant.id} → ${resolution.status}`);
+  }
+
+  // Scene image variants
+  const sceneVariants = await db
+    .select()
+    .from(sceneImageVariants)
+    .where(and(eq(sceneImageVariants.status, "generating"), lt(sceneImageVariants.updated_at, staleBefore)))
+    .limit(limit);
+
+  for (const variant of sceneVariants) {
+    const resolution = await resolveExecution(variant.n8n_job_id, variant.updated_at, giveUpBefore, IMAGE_URL_KEYS);
+    tally(resolution);
+    if (!resolution) continue;
+
+    await settleSceneImageVariant(
+      variant.id,
+      resolution.status === "ready"
+        ? { status: "ready", imageUrl: resolution.url }
+        : { status: "failed", error: resolution.error }
+    );
+
+    console.log(`🔧 [Reconciler] Scene variant ${variant.id} → ${resolution.status}`);
+  }
+
+  // Shot video takes
+  const takes = await db
+    .select()
+    .from(shot_takes)
+    .where(and(eq(shot_takes.status, "generating"), lt(shot_takes.updated_at, staleBefore)))
+    .limit(limit);
+
+  for (const take of takes) {
+    const resolution = await resolveExecution(take.video_job_id, take.updated_at, giveUpBefore, VIDEO_URL_KEYS);
+    tally(resolution);
+    if (!resolution) continue;
+
+    await settleShotTake(
+      take.id,
+      resolution.status === "ready"
+        ? { status: "ready", videoUrl: resolution.url }
+        : { status: "failed", error: resolution.error }
+    );
+
+    console.log(`🔧 [Reconciler] Shot ${take.shot_id} take ${take.take_number} → ${resolution.status}`);
+  }
+
+  // Scene videos (legacy per-scene pipeline) - stuck rows also block the video queue
+  const sceneVideos = await db
+    .select({ video: scene_videos, projectId: scenes.project_id })
+    .from(scene_videos)
+    .innerJoin(scenes, eq(scene_videos.scene_id, scenes.id))
+    .where(and(eq(scene_videos.status, "generating"), lt(scene_videos.created_at, staleBefore)))
+    .limit(limit);
+
+  const projectsToDrain = new Set<string>();
+
+  for (const { video, projectId } of sceneVideos) {
+    const resolution = await resolveExecution(video.n8n_job_id, video.created_at, giveUpBefore, VIDEO_URL_KEYS);
+    tally(resolution);
+    if (!resolution) continue;
+
+    await db
+      .update(scene_videos)
+      .set(
+        resolution.status === "ready"
+          ? { status: "ready", video_url: resolution.url, error_message: null, n8n_job_id: null }
+          : { status: "failed", error_message: resolution.error, n8n_job_id: null }
+      )
+      .where(and(eq(scene_videos.id, video.id), eq(scene_videos.status, "generating")));
+
+    console.log(`🔧 [Reconciler] Scene video ${video.id} → ${resolution.status}`);
+    projectsToDrain.add(projectId);
+  }
+
+  // Scene audio tracks
+  const audioTracks = await db
+    .select()
+    .from(scene_audio)
+    .where(and(eq(scene_audio.status, "generating"), lt(scene_audio.updated_at, staleBefore)))
+    .limit(limit);
+
+  for (const track of audioTracks) {
+    const resolution = await resolveExecution(track.n8n_job_id, track.updated_at, giveUpBefore, AUDIO_URL_KEYS);
+    tally(resolution);
+    if (!resolution) continue;
+
+    await settleSceneAudio(
+      track.id,
+      resolution.status === "ready"
+        ? { status: "ready", audioUrl: resolution.url }
+        : { status: "failed", error: resolution.error }
+    );
+
+    console.log(`🔧 [Reconciler] Scene audio ${track.id} → ${resolution.status}`);
+  }
+
+  // A freed slot lets the next queued scene video start
+  for (const projectId of projectsToDrain) {
+    await drainVideoQueue(projectId);
+  }
+
+  if (result.checked > 0) {
+    console.log("✅ [Reconciler] Done:", result);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const IMAGE_URL_KEYS = ["imageUrl", "image_url"];
+const VIDEO_URL_KEYS = ["videoUrl", "video_url"];
+const AUDIO_URL_KEYS = ["audioUrl", "audio_url"];
+
+/**
+ * Decide what a stuck row should become based on its n8n execution
+ * @returns null to leave the row alone for now
+ */
+async function resolveExecution(
+  executionId: string | null,
+  generatingSince: Date,
+  giveUpBefore: Date,
+  urlKeys: string[]
+): Promise<Resolution> {
+  const givenUp = generatingSince < giveUpBefore;
+
+  if (!executionId) {
+    return givenUp
+      ? { status: "failed", error: "Generation timed out - no n8n execution was recorded" }
+      : null;
+  }
+
+  try {
+    const execution = await getJobStatus(executionId);
+
+    if (execution.notFound) {
+      return givenUp
+        ? { status: "failed", error: "Generation timed out - n8n execution not found" }
+        : null;
+    }
+
+    switch (execution.status) {
+      case "failed":
+        return { status: "failed", error: execution.error || "n8n execution failed" };
+      case "canceled":
+        return { status: "failed", error: "n8n execution was canceled" };
+      case "success": {
+        const url = findOutputUrl(execution.data, urlKeys);
+        if (url) return { status: "ready", url };
+        return givenUp
+          ? { status: "failed", error: "n8n execution finished but the result callback never arrived" }
+          : null;
+      }
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.error(`❌ [Reconciler] Could not look up n8n execution ${executionId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Find a media URL in a workflow's output (object or array of items)
+ */
+function findOutputUrl(output: unknown, urlKeys: string[]): string | null {
+  const item = Array.isArray(output) ? output[0] : output;
+  if (typeof item !== "object" || item === null) return null;
+
+  const record = item as Record<string, unknown>;
+  for (const key of urlKeys) {
+    const value = record[key];
+    if (typeof value === "string" && value.startsWith("http")) {
+      return value;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,423 @@
+/**
+ * n8n Workflow Registry
+ *
+ * Resolves which n8n workflow serves each pipeline stage. Entries are merged
+ * from three sources, later ones overriding earlier ones field by field:
+ *
+ * 1. Built-in defaults (webhook URLs from N8N_*_WEBHOOK env vars)
+ * 2. JSON config file (N8N_WORKFLOWS_CONFIG, or ./n8n.workflows.json if present)
+ * 3. The `n8n_workflows` database table
+ *
+ * The merged registry is cached briefly so invocations don't hit the
+ * database and file system every time.
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { db } from "@/lib/drizzle/db";
+import { n8n_workflows } from "@/lib/drizzle/schema";
+import { env } from "@/lib/env";
+import type { WorkflowHealth, WorkflowInfo } from "./types";
+
+// ============================================================================
+// Built-in Workflows
+// ============================================================================
+
+/**
+ * Pipeline stages in the order a project moves through them
+ */
+export const PIPELINE_STAGES = [
+  "Script",
+  "Bible",
+  "Scenes",
+  "Images",
+  "Shots",
+  "Video",
+  "Audio",
+  "Assembly",
+] as const;
+
+/**
+ * Default registry (discovered via MCP during development)
+ */
+function getDefaultWorkflows(): WorkflowInfo[] {
+  return [
+    {
+      name: "break_script_into_scenes",
+      id: "1TA6wjxa1CZ3uAEk",
+      active: true,
+      webhookUrl: env.N8N_PARSE_SCREENPLAY_WEBHOOK,
+      webhookMethod: "POST",
+      stage: "Script",
+      description: "Combined screenplay parsing (fallback when generate_bible is not configured)",
+      requiredInputs: ["script_content", "project_id"],
+    },
+    {
+      name: "image_generation_orchestrator",
+      id: "jDyejkSUkUFy39Dk",
+      active: true,
+      webhookUrl: env.N8N_IMAGE_GENERATION_WEBHOOK,
+      webhookMethod: "POST",
+      stage: "Images",
+      description: "Universal image generator supporting Seedream 4.5, Nano Banana Pro, Flux.2",
+      requiredInputs: ["prompt", "model"],
+    },
+    {
+      name: "image_enhancement_flux",
+      id: "LC5VLGYa1Z82045s",
+      active: true,
+      webhookUrl: env.N8N_FLUX_ENHANCEMENT_WEBHOOK,
+      webhookMethod: "POST",
+      stage: "Images",
+      description: "Natural language image refinement with Flux",
+      requiredInputs: ["scene_image_id", "enhancement_prompt"],
+    },
+    {
+      name: "video_generation_veo3",
+      id: "9P08lK46cM96q9vE",
+      active: true,
+      webhookUrl: env.N8N_VIDEO_GENERATION_WEBHOOK,
+      webhookMethod: "POST",
+      stage: "Video",
+      description: "Generate sequential videos using VEO3 with Extend mode. First shot uses image-to-video, subsequent shots extend from previous.",
+      requiredInputs: ["scene_id", "shots"],
+    },
+    // Split screenplay parsing workflows (optimized for timeout avoidance)
+    {
+      name: "generate_bible",
+      id: "Jp286Vtl5SgnFoCi",
+      active: true,
+      webhookUrl: env.N8N_GENERATE_BIBLE_WEBHOOK,
+      webhookMethod: "POST",
+      stage: "Bible",
+      description: "Generate Visual Bible (characters, locations, props) from screenplay - ~2.5 min",
+      requiredInputs: ["script_content", "project_id"],
+    },
+    {
+      name: "generate_scenes",
+      id: "RCuxHJ956y6pqQUM",
+      active: true,
+      webhookUrl: env.N8N_GENERATE_SCENES_WEBHOOK,
+      webhookMethod: "POST",
+      stage: "Scenes",
+      description: "Generate scene breakdown from screenplay with Bible data - ~3 min",
+      requiredInputs: ["script_content", "bible_data"],
+    },
+    // MVP workflows
+    {
+      name: "scene_to_shots",
+      id: "NfCxtVWOW1M3h62I",
+      active: true,
+      webhookUrl: env.N8N_SCENE_TO_SHOTS_WEBHOOK,
+      webhookMethod: "POST",
+      stage: "Shots",
+      description: "AI scene division into 8s shots using Claude Sonnet 4.5",
+      requiredInputs: ["sceneId"],
+    },
+    {
+      name: "video_generation_simple",
+      id: "jHtOZ9R8Lut4QB1d",
+      active: true,
+      webhookUrl: env.N8N_VIDEO_GENERATION_SIMPLE_WEBHOOK,
+      webhookMethod: "POST",
+      stage: "Video",
+      description: "Simple video generation (no Extend mode) - single shot per call",
+      requiredInputs: ["shotId", "imageUrl", "prompt"],
+    },
+    {
+      name: "audio_generation",
+      id: "",
+      active: true,
+      webhookUrl: env.N8N_AUDIO_GENERATION_WEBHOOK,
+      webhookMethod: "POST",
+      stage: "Audio",
+      description: "Scene voiceover, SFX, and music generation (result via callback)",
+      requiredInputs: ["scene_audio_id", "audio_type", "audio_description"],
+    },
+    {
+      name: "assembly_line",
+      id: "",
+      active: true,
+      webhookUrl: env.N8N_ASSEMBLY_WEBHOOK,
+      webhookMethod: "POST",
+      stage: "Assembly",
+      description: "FFmpeg video stitching and YouTube upload",
+      requiredInputs: ["projectId", "videos"],
+    },
+  ];
+}
+
+// ============================================================================
+// Config File
+// ============================================================================
+
+const workflowConfigEntrySchema = z.object({
+  name: z.string().min(1),
+  id: z.string().optional(),
+  active: z.boolean().optional(),
+  webhookUrl: z.string().url().optional(),
+  webhookMethod: z.enum(["GET", "POST", "PUT", "PATCH"]).optional(),
+  stage: z.enum(PIPELINE_STAGES).optional(),
+  description: z.string().optional(),
+  requiredInputs: z.array(z.string().min(1)).optional(),
+});
+
+const workflowConfigSchema = z.object({
+  workflows: z.array(workflowConfigEntrySchema),
+});
+
+type WorkflowConfigEntry = z.infer<typeof workflowConfigEntrySchema>;
+
+export class WorkflowRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowRegistryError";
+  }
+}
+
+/**
+ * Read and validate the workflow config file
+ * A missing default file is fine; a missing explicitly configured file is not.
+ */
+async function loadConfigFile(): Promise<WorkflowConfigEntry[]> {
+  const configPath = env.N8N_WORKFLOWS_CONFIG
+    ? path.resolve(process.cwd(), env.N8N_WORKFLOWS_CONFIG)
+    : path.join(process.cwd(), "n8n.workflows.json");
+
+  let raw: string;
+  try {
+    raw = await readFile(configPath, "utf8");
+  } catch {
+    if (env.N8N_WORKFLOWS_CONFIG) {
+      throw new WorkflowRegistryError(`Workflow config file not found: ${configPath}`);
+    }
+    return [];
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new WorkflowRegistryError(`Workflow config file is not valid JSON: ${configPath}`);
+  }
+
+  const parsed = workflowConfigSchema.safeParse(json);
+  if (!parsed.success) {
+    const problems = parsed.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+    throw new WorkflowRegistryError(`Invalid workflow config (${configPath}): ${problems}`);
+  }
+
+  return parsed.data.workflows;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const REGISTRY_CACHE_MS = 60 * 1000;
+
+let cachedRegistry: { workflows: WorkflowInfo[]; loadedAt: number } | null = null;
+
+/**
+ * Load the merged workflow registry
+ *
+ * @param options.fresh - Skip the cache (admin page, startup validation)
+ */
+export async function loadWorkflowRegistry(
+  options: { fresh?: boolean } = {}
+): Promise<WorkflowInfo[]> {
+  if (!options.fresh && cachedRegistry && Date.now() - cachedRegistry.loadedAt < REGISTRY_CACHE_MS) {
+    return cachedRegistry.workflows;
+  }
+
+  const byName = new Map<string, WorkflowInfo>();
+  for (const workflow of getDefaultWorkflows()) {
+    byName.set(workflow.name, { ...workflow, source: "default" });
+  }
+
+  for (const entry of await loadConfigFile()) {
+    const existing = byName.get(entry.name);
+    byName.set(entry.name, {
+      ...existing,
+      ...stripUndefined(entry),
+      name: entry.name,
+      id: entry.id ?? existing?.id ?? "",
+      active: entry.active ?? existing?.active ?? true,
+      source: "config",
+    });
+  }
+
+  try {
+    const rows = await db.select().from(n8n_workflows);
+    for (const row of rows) {
+      const existing = byName.get(row.name);
+      byName.set(row.name, {
+        ...existing,
+        name: row.name,
+        id: row.n8n_workflow_id ?? existing?.id ?? "",
+        active: row.active ?? existing?.active ?? true,
+        webhookUrl: row.webhook_url ?? existing?.webhookUrl,
+        webhookMethod: row.webhook_method ?? existing?.webhookMethod,
+        stage: row.stage ?? existing?.stage,
+        description: row.description ?? existing?.description,
+        requiredInputs: row.required_inputs ?? existing?.requiredInputs,
+        source: "database",
+      });
+    }
+  } catch (error) {
+    // Keep serving defaults + config if the table is missing or the DB is down
+    console.error("❌ Failed to load n8n workflow overrides from database:", error);
+  }
+
+  const workflows = [...byName.values()];
+  cachedRegistry = { workflows, loadedAt: Date.now() };
+  return workflows;
+}
+
+/**
+ * Validate the registry at startup
+ *
+ * Throws WorkflowRegistryError for an invalid config file so a
+ * misconfigured deployment fails fast; unwired stages are only logged.
+ */
+export async function validateWorkflowRegistry(): Promise<void> {
+  const workflows = await loadWorkflowRegistry({ fresh: true });
+
+  for (const workflow of workflows) {
+    if (workflow.webhookUrl) {
+      try {
+        new URL(workflow.webhookUrl);
+      } catch {
+        throw new WorkflowRegistryError(`Workflow "${workflow.name}" has an invalid webhook URL`);
+      }
+    }
+  }
+
+  const unwiredStages = PIPELINE_STAGES.filter(
+    (stage) => !workflows.some((w) => w.stage === stage && w.active && w.webhookUrl)
+  );
+
+  console.log(
+    `🔌 n8n workflow registry: ${workflows.filter((w) => w.webhookUrl).length}/${workflows.length} workflows configured`
+  );
+  if (unwiredStages.length > 0) {
+    console.warn(`⚠️ Pipeline stages without a configured workflow: ${unwiredStages.join(", ")}`);
+  }
+}
+
+// ============================================================================
+// Health Checks
+// ============================================================================
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * n8n REST API workflow record (GET /api/v1/workflows/:id) - only the fields we read
+ */
+interface N8nWorkflowRecord {
+  active?: boolean;
+  nodes?: unknown[];
+}
+
+/**
+ * Check a single workflow: webhook reachable, active in n8n, and reads
+ * the inputs we send it
+ *
+ * The webhook is probed with OPTIONS (CORS preflight), which n8n answers
+ * for registered webhooks without running the workflow. Active and input
+ * checks need N8N_API_URL / N8N_API_KEY and a workflow ID.
+ */
+export async function checkWorkflowHealth(workflow: WorkflowInfo): Promise<WorkflowHealth> {
+  const health: WorkflowHealth = {
+    name: workflow.name,
+    stage: workflow.stage,
+    configured: !!workflow.webhookUrl,
+    reachable: null,
+    active: null,
+    missingInputs: null,
+    issues: [],
+  };
+
+  if (!workflow.webhookUrl) {
+    health.issues.push("No webhook URL configured");
+  } else {
+    try {
+      const response = await fetch(workflow.webhookUrl, {
+        method: "OPTIONS",
+        signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+        cache: "no-store",
+      });
+      health.reachable = response.status !== 404 && response.status < 500;
+      if (response.status === 404) {
+        health.issues.push("Webhook not registered in n8n (workflow inactive or wrong path)");
+      } else if (response.status >= 500) {
+        health.issues.push(`Webhook returned ${response.status}`);
+      }
+    } catch (error) {
+      health.reachable = false;
+      health.issues.push(`Webhook unreachable: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  }
+
+  if (!env.N8N_API_URL || !env.N8N_API_KEY || !workflow.id) {
+    return health;
+  }
+
+  try {
+    const url = new URL(`/api/v1/workflows/${encodeURIComponent(workflow.id)}`, env.N8N_API_URL);
+    const response = await fetch(url, {
+      headers: { "X-N8N-API-KEY": env.N8N_API_KEY, Accept: "application/json" },
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      health.issues.push(
+        response.status === 404
+          ? `Workflow ${workflow.id} not found in n8n`
+          : `n8n API returned ${response.status}`
+      );
+      return health;
+    }
+
+    const record = (await response.json()) as N8nWorkflowRecord;
+    health.active = record.active ?? null;
+    if (record.active === false) {
+      health.issues.push("Workflow is inactive in n8n");
+    }
+
+    // Inputs are read in expressions like {{ $json.body.script_content }}
+    if (workflow.requiredInputs?.length) {
+      const serializedNodes = JSON.stringify(record.nodes ?? []);
+      health.missingInputs = workflow.requiredInputs.filter((input) => !serializedNodes.includes(input));
+      if (health.missingInputs.length > 0) {
+        health.issues.push(`Workflow never reads: ${health.missingInputs.join(", ")}`);
+      }
+    }
+  } catch (error) {
+    health.issues.push(`n8n API unreachable: ${error instanceof Error ? error.message : "unknown error"}`);
+  }
+
+  return health;
+}
+
+/**
+ * Health of every registered workflow
+ */
+export async function checkRegistryHealth(): Promise<WorkflowHealth[]> {
+  const workflows = await loadWorkflowRegistry({ fresh: true });
+  return Promise.all(workflows.map(checkWorkflowHealth));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,176 @@
+/**
+ * n8n Webhook Signing
+ *
+ * Outgoing workflow requests and incoming n8n callbacks are authenticated
+ * with an HMAC-SHA256 signature over `${timestamp}.${rawBody}` using the
+ * shared N8N_WEBHOOK_SECRET.
+ *
+ * Headers:
+ * - X-Ripreel-Timestamp: unix time in seconds
+ * - X-Ripreel-Signature: "v1=<hex digest>"
+ *
+ * Callbacks outside the timestamp tolerance, with a bad signature, or whose
+ * signature has already been seen (replay) are rejected.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { lt } from "drizzle-orm";
+import { db } from "@/lib/drizzle/db";
+import { webhook_deliveries } from "@/lib/drizzle/schema";
+import { env } from "@/lib/env";
+
+export const SIGNATURE_HEADER = "X-Ripreel-Signature";
+export const TIMESTAMP_HEADER = "X-Ripreel-Timestamp";
+
+const SIGNATURE_VERSION = "v1";
+
+/**
+ * Maximum clock skew accepted between n8n and the app (seconds)
+ * Also bounds how long delivery signatures are kept for replay checks
+ */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export type WebhookVerificationResult<T> =
+  | { success: true; payload: T }
+  | { success: false; response: NextResponse };
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+/**
+ * Compute the hex signature for a timestamp and raw body
+ */
+export function computeSignature(
+  secret: string,
+  timestamp: string,
+  rawBody: string
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest("hex");
+}
+
+/**
+ * Build signature headers for an outgoing n8n request
+ *
+ * The body must be sent exactly as passed here (already serialized).
+ * Returns no headers when N8N_WEBHOOK_SECRET is not configured.
+ */
+export function createSignedHeaders(rawBody: string): Record<string, string> {
+  if (!env.N8N_WEBHOOK_SECRET) {
+    console.warn("⚠️ N8N_WEBHOOK_SECRET not configured - sending unsigned n8n request");
+    return {};
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = computeSignature(env.N8N_WEBHOOK_SECRET, timestamp, rawBody);
+
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: `${SIGNATURE_VERSION}=${signature}`,
+  };
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+function reject(status: number, error: string): { success: false; response: NextResponse } {
+  return {
+    success: false,
+    response: NextResponse.json({ error }, { status }),
+  };
+}
+
+function signaturesMatch(expected: string, received: string): boolean {
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const receivedBuffer = Buffer.from(received, "hex");
+
+  if (expectedBuffer.length === 0 || expectedBuffer.length !== receivedBuffer.length) {
+    return false;
+  }
+
+  return timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+/**
+ * Record a delivery signature, returning false if it was already seen
+ * Expired signatures are pruned on the way in
+ */
+async function recordDelivery(signature: string, path: string): Promise<boolean> {
+  const cutoff = new Date(Date.now() - SIGNATURE_TOLERANCE_SECONDS * 2 * 1000);
+  await db.delete(webhook_deliveries).where(lt(webhook_deliveries.received_at, cutoff));
+
+  const inserted = await db
+    .insert(webhook_deliveries)
+    .values({ signature, path })
+    .onConflictDoNothing()
+    .returning({ signature: webhook_deliveries.signature });
+
+  return inserted.length > 0;
+}
+
+/**
+ * Verify a signed n8n callback and parse its JSON body
+ *
+ * Every route under /api/webhooks/n8n must call this instead of
+ * request.json(). On failure, return `result.response` as-is.
+ *
+ * @example
+ * ```typescript
+ * const verified = await verifyN8nWebhook<ImageGenerationCallback>(request);
+ * if (!verified.success) return verified.response;
+ * const callback = verified.payload;
+ * ```
+ */
+export async function verifyN8nWebhook<T = unknown>(
+  request: Request
+): Promise<WebhookVerificationResult<T>> {
+  const path = new URL(request.url).pathname;
+
+  if (!env.N8N_WEBHOOK_SECRET) {
+    console.error("❌ N8N_WEBHOOK_SECRET not configured - rejecting webhook:", path);
+    return reject(503, "Webhook verification is not configured");
+  }
+
+  const timestamp = request.headers.get(TIMESTAMP_HEADER);
+  const signatureHeader = request.headers.get(SIGNATURE_HEADER);
+
+  if (!timestamp || !signatureHeader) {
+    console.warn("🚫 Unsigned webhook rejected:", path);
+    return reject(401, "Missing webhook signature");
+  }
+
+  const timestampSeconds = Number(timestamp);
+  const nowSeconds = Math.floor(Date.now() / 1000);
+
+  if (
+    !Number.isInteger(timestampSeconds) ||
+    Math.abs(nowSeconds - timestampSeconds) > SIGNATURE_TOLERANCE_SECONDS
+  ) {
+    console.warn("🚫 Webhook timestamp outside tolerance:", path, timestamp);
+    return reject(401, "Webhook timestamp is invalid or expired");
+  }
+
+  const [version, received] = signatureHeader.split("=", 2);
+  const rawBody = await request.text();
+  const expected = computeSignature(env.N8N_WEBHOOK_SECRET, timestamp, rawBody);
+
+  if (version !== SIGNATURE_VERSION || !received || !signaturesMatch(expected, received)) {
+    console.warn("🚫 Webhook signature mismatch:", path);
+    return reject(401, "Invalid webhook signature");
+  }
+
+  if (!(await recordDelivery(expected, path))) {
+    console.warn("🚫 Webhook replay rejected:", path);
+    return reject(409, "Webhook already processed");
+  }
+
+  try {
+    return { success: true, payload: JSON.parse(rawBody) as T };
+  } catch {
+    return reject(400, "Invalid JSON body");
+  }
+}
@@ -20,6 +20,29 @@ export interface WorkflowInfo {
   webhookMethod?: string;
   /** Human-readable description of the workflow */
   description?: string;
+  /** Pipeline stage the workflow serves (e.g. "Scenes", "Video") */
+  stage?: string;
+  /** Payload fields the workflow reads - checked by the registry health check */
+  requiredInputs?: string[];
+  /** Where the entry came from (later sources override earlier ones) */
+  source?: WorkflowSource;
+}
+
+export type WorkflowSource = "default" | "config" | "database";
+
+export interface WorkflowHealth {
+  name: string;
+  stage?: string;
+  /** A webhook URL is configured */
+  configured: boolean;
+  /** Webhook URL answered (null when not configured) */
+  reachable: boolean | null;
+  /** Workflow is active in n8n (null when the n8n API is not configured) */
+  active: boolean | null;
+  /** Required inputs the workflow never reads (null when not checked) */
+  missingInputs: string[] | null;
+  /** Human-readable problems found */
+  issues: string[];
 }
 
 export interface DiscoverWorkflowsOptions {
@@ -95,6 +118,8 @@ export interface JobStatusResult<T = unknown> {
   startedAt?: string;
   /** Timestamp when job finished */
   finishedAt?: string;
+  /** True when n8n has no execution with this ID (deleted, pruned, or not an execution ID) */
+  notFound?: boolean;
 }
 
 // ============================================================================
@@ -364,6 +389,13 @@ export interface GenerateBiblePayload {
   is_pdf: boolean;
   project_id: string;
   user_id: string;
+  /** Facts from a local Fountain/FDX parse - exact, unlike the LLM's reading */
+  parsed_screenplay?: {
+    format: "fountain" | "fdx";
+    scene_count: number;
+    characters: string[];
+    sluglines: string[];
+  };
 }
 
 /**
@@ -405,6 +437,8 @@ export interface GenerateScenesPayload {
     }>;
   };
   project_id: string;
+  /** Scenes prefilled from a local Fountain/FDX parse (RawSceneData shape) */
+  parsed_scenes?: Array<Record<string, unknown>>;
 }
 
 /**
@@ -0,0 +1,346 @@
+import { db } from "@/lib/drizzle/db";
+import {
+  projects,
+  scenes,
+  scene_shots,
+  shot_takes,
+  scene_images,
+  scene_videos,
+  scene_audio,
+  sceneImageVariants,
+  projectCharacters,
+  projectLocations,
+  projectProps,
+  bibleImageVariants,
+  background_jobs,
+  final_reels,
+  type FinalReel,
+  type Project,
+} from "@/lib/drizzle/schema";
+import { eq } from "drizzle-orm";
+import { NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth";
+
+/**
+ * Project Access Control
+ *
+ * Every server action that reads or mutates project data resolves the
+ * owning project first and checks it against the signed-in user.
+ * Guards throw ProjectAccessError, which the actions' existing
+ * try/catch blocks surface as `{ success: false, error }`. The lib/
+ * helpers they call don't check ownership again.
+ */
+
+export class ProjectAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectAccessError";
+  }
+}
+
+export type BibleAssetType = "character" | "location" | "prop";
+
+/**
+ * Require an authenticated user and return their ID
+ * Unlike requireUserId, this throws instead of redirecting so it can be used in actions
+ */
+export async function requireAuthenticatedUserId(): Promise<string> {
+  const userId = await getCurrentUserId();
+
+  if (!userId) {
+    throw new ProjectAccessError("Authentication required");
+  }
+
+  return userId;
+}
+
+/**
+ * Check whether a user owns a project (no throw)
+ * Projects without an owner (legacy anonymous uploads) belong to nobody
+ */
+export function isProjectOwner(
+  project: Pick<Project, "owner_id">,
+  userId: string
+): boolean {
+  return project.owner_id !== null && project.owner_id === userId;
+}
+
+/**
+ * Require the current user to own the given project
+ * @returns The project row
+ */
+export async function requireProjectOwner(projectId: string): Promise<Project> {
+  const userId = await requireAuthenticatedUserId();
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    throw new ProjectAccessError("Project not found");
+  }
+
+  if (!isProjectOwner(project, userId)) {
+    console.warn(`🚫 User ${userId} attempted to access project ${projectId}`);
+    throw new ProjectAccessError("You do not have access to this project");
+  }
+
+  return project;
+}
+
+/**
+ * Check project ownership in an API route
+ * Authenticates first, so anonymous callers can't probe which projects exist.
+ * @returns The project row, or the 401/404/403 response to send instead
+ */
+export async function authorizeProjectRoute(projectId: string): Promise<Project | NextResponse> {
+  const userId = await getCurrentUserId();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    return NextResponse.json({ error: "Project not found" }, { status: 404 });
+  }
+
+  if (!isProjectOwner(project, userId)) {
+    console.warn(`🚫 User ${userId} attempted to access project ${projectId}`);
+    return NextResponse.json({ error: "You do not have access to this project" }, { status: 403 });
+  }
+
+  return project;
+}
+
+/**
+ * Require the current user to own the project a scene belongs to
+ * @returns The owning project ID
+ */
+export async function requireSceneOwner(sceneId: string): Promise<string> {
+  const [row] = await db
+    .select({ project_id: scenes.project_id })
+    .from(scenes)
+    .where(eq(scenes.id, sceneId))
+    .limit(1);
+
+  if (!row) {
+    throw new ProjectAccessError("Scene not found");
+  }
+
+  await requireProjectOwner(row.project_id);
+  return row.project_id;
+}
+
+/**
+ * Require the current user to own the project a shot belongs to
+ * @returns The owning project ID
+ */
+export async function requireShotOwner(shotId: string): Promise<string> {
+  const [row] = await db
+    .select({ project_id: scenes.project_id })
+    .from(scene_shots)
+    .innerJoin(scenes, eq(scene_shots.scene_id, scenes.id))
+    .where(eq(scene_shots.id, shotId))
+    .limit(1);
+
+  if (!row) {
+    throw new ProjectAccessError("Shot not found");
+  }
+
+  await requireProjectOwner(row.project_id);
+  return row.project_id;
+}
+
+/**
+ * Require the current user to own the project a shot take belongs to
+ * @returns The owning project ID
+ */
+export async function requireShotTakeOwner(takeId: string): Promise<string> {
+  const [row] = await db
+    .select({ project_id: scenes.project_id })
+    .from(shot_takes)
+    .innerJoin(scene_shots, eq(shot_takes.shot_id, scene_shots.id))
+    .innerJoin(scenes, eq(scene_shots.scene_id, scenes.id))
+    .where(eq(shot_takes.id, takeId))
+    .limit(1);
+
+  if (!row) {
+    throw new ProjectAccessError("Take not found");
+  }
+
+  await requireProjectOwner(row.project_id);
+  return row.project_id;
+}
+
+/**
+ * Require the current user to own the project a scene image belongs to
+ * @returns The owning project ID
+ */
+export async function requireSceneImageOwner(imageId: string): Promise<string> {
+  const [row] = await db
+    .select({ project_id: scenes.project_id })
+    .from(scene_images)
+    .innerJoin(scenes, eq(scene_images.scene_id, scenes.id))
+    .where(eq(scene_images.id, imageId))
+    .limit(1);
+
+  if (!row) {
+    throw new ProjectAccessError("Image not found");
+  }
+
+  await requireProjectOwner(row.project_id);
+  return row.project_id;
+}
+
+/**
+ * Require the current user to own the project a scene image variant belongs to
+ * @returns The owning project ID
+ */
+export async function requireSceneVariantOwner(variantId: string): Promise<string> {
+  const [row] = await db
+    .select({ project_id: scenes.project_id })
+    .from(sceneImageVariants)
+    .innerJoin(scenes, eq(sceneImageVariants.scene_id, scenes.id))
+    .where(eq(sceneImageVariants.id, variantId))
+    .limit(1);
+
+  if (!row) {
+    throw new ProjectAccessError("Variant not found");
+  }
+
+  await requireProjectOwner(row.project_id);
+  return row.project_id;
+}
+
+/**
+ * Require the current user to own the project a scene video belongs to
+ * @returns The owning project ID
+ */
+export async function requireSceneVideoOwner(sceneVideoId: string): Promise<string> {
+  const [row] = await db
+    .select({ project_id: scenes.project_id })
+    .from(scene_videos)
+    .innerJoin(scenes, eq(scene_videos.scene_id, scenes.id))
+    .where(eq(scene_videos.id, sceneVideoId))
+    .limit(1);
+
+  if (!row) {
+    throw new ProjectAccessError("Video not found");
+  }
+
+  await requireProjectOwner(row.project_id);
+  return row.project_id;
+}
+
+/**
+ * Require the current user to own the project a scene audio track belongs to
+ * @returns The owning project ID
+ */
+export async function requireSceneAudioOwner(audioId: string): Promise<string> {
+  const [row] = await db
+    .select({ project_id: scenes.project_id })
+    .from(scene_audio)
+    .innerJoin(scenes, eq(scene_audio.scene_id, scenes.id))
+    .where(eq(scene_audio.id, audioId))
+    .limit(1);
+
+  if (!row) {
+    throw new ProjectAccessError("Audio track not found");
+  }
+
+  await requireProjectOwner(row.project_id);
+  return row.project_id;
+}
+
+/**
+ * Require the current user to own the project a Bible asset belongs to
+ * @returns The owning project ID
+ */
+export async function requireBibleAssetOwner(
+  assetType: BibleAssetType,
+  assetId: string
+): Promise<string> {
+  const table =
+    assetType === "character"
+      ? projectCharacters
+      : assetType === "location"
+        ? projectLocations
+        : projectProps;
+
+  const [row] = await db
+    .select({ project_id: table.project_id })
+    .from(table)
+    .where(eq(table.id, assetId))
+    .limit(1);
+
+  if (!row) {
+    throw new ProjectAccessError(`${assetType.charAt(0).toUpperCase()}${assetType.slice(1)} not found`);
+  }
+
+  await requireProjectOwner(row.project_id);
+  return row.project_id;
+}
+
+/**
+ * Require the current user to own the project a Bible image variant belongs to
+ * @returns The owning project ID
+ */
+export async function requireBibleVariantOwner(variantId: string): Promise<string> {
+  const [variant] = await db
+    .select({ asset_type: bibleImageVariants.asset_type, asset_id: bibleImageVariants.asset_id })
+    .from(bibleImageVariants)
+    .where(eq(bibleImageVariants.id, variantId))
+    .limit(1);
+
+  if (!variant) {
+    throw new ProjectAccessError("Variant not found");
+  }
+
+  return requireBibleAssetOwner(variant.asset_type, variant.asset_id);
+}
+
+/**
+ * Require the current user to own the project a background job belongs to
+ * @returns The owning project ID
+ */
+export async function requireJobOwner(jobId: string): Promise<string> {
+  const [row] = await db
+    .select({ project_id: background_jobs.project_id })
+    .from(background_jobs)
+    .where(eq(background_jobs.id, jobId))
+    .limit(1);
+
+  if (!row) {
+    throw new ProjectAccessError("Job not found");
+  }
+
+  await requireProjectOwner(row.project_id);
+  return row.project_id;
+}
+
+/**
+ * Require the current user to own the project a reel version belongs to
+ * @returns The reel row
+ */
+export async function requireReelOwner(reelId: string): Promise<FinalReel> {
+  const [reel] = await db
+    .select()
+    .from(final_reels)
+    .where(eq(final_reels.id, reelId))
+    .limit(1);
+
+  if (!reel) {
+    throw new ProjectAccessError("Reel version not found");
+  }
+
+  await requireProjectOwner(reel.project_id);
+  return reel;
+}
@@ -0,0 +1,426 @@
+/**
+ * Veo Prompt Linting
+ *
+ * Catches prompt problems before a paid Veo 3.1 generation rather than after
+ * it fails: dialogue too long for the shot, empty required components,
+ * content-policy trigger words, character names that don't match the bible,
+ * and camera instructions that contradict each other.
+ *
+ * Errors block generation; warnings are shown in the prompt editor only.
+ * Issues with a fix carry the replacement value of the field it changes.
+ */
+
+import type { Veo3PromptData } from "@/lib/drizzle/schema";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Comfortable speaking pace - above this, lines sound rushed */
+export const MAX_WORDS_PER_SECOND = 2.5;
+
+/** Above this, Veo cuts the line off or garbles it */
+export const HARD_MAX_WORDS_PER_SECOND = 3.5;
+
+/** A structured prompt without these generates a shot of nothing in particular */
+export const REQUIRED_PROMPT_FIELDS = ["subject", "action"] as const;
+
+/** Terms that trip Veo's content policy, with a safer wording where one fits */
+export const BANNED_TERMS: { pattern: RegExp; term: string; replacement: string | null }[] = [
+  { pattern: /\bgor(e|y)\b/gi, term: "gore", replacement: "aftermath" },
+  { pattern: /\bblood[- ]soaked\b/gi, term: "blood-soaked", replacement: "stained" },
+  { pattern: /\bbloodbath\b/gi, term: "bloodbath", replacement: "chaos" },
+  { pattern: /\bdecapitat\w*/gi, term: "decapitation", replacement: null },
+  { pattern: /\bdismember\w*/gi, term: "dismemberment", replacement: null },
+  { pattern: /\bmutilat\w*/gi, term: "mutilation", replacement: null },
+  { pattern: /\bdisembowel\w*/gi, term: "disembowelment", replacement: null },
+  { pattern: /\btortur(e|ed|es|ing)\b/gi, term: "torture", replacement: "interrogation" },
+  { pattern: /\bsuicide\b/gi, term: "suicide", replacement: null },
+  { pattern: /\bself[- ]harm\b/gi, term: "self-harm", replacement: null },
+  { pattern: /\b(nude|naked|nudity)\b/gi, term: "nudity", replacement: null },
+  { pattern: /\b(sexual|sex scene|erotic)\b/gi, term: "sexual content", replacement: null },
+  { pattern: /\b(cocaine|heroin|meth)\b/gi, term: "hard drugs", replacement: null },
+];
+
+/** Camera instructions that can't both hold for one shot */
+const CAMERA_CONFLICTS: { first: RegExp; second: RegExp; message: string }[] = [
+  {
+    first: /\b(static|locked[- ]off|stationary) (camera|shot|frame)\b|\bno camera (movement|motion)\b|\btripod\b/i,
+    second:
+      /\b(pans?|panning)\s+(left|right|across|over|to|up|down)\b|\btilts?\s+(up|down)\b|\b(dolly|dollies|tracking shot|crane shot|handheld|steadicam|orbits?|orbiting)\b/i,
+    message: "A static camera is combined with camera movement",
+  },
+  {
+    first: /\bzoom(s|ing)? in\b|\bpush(es|ing)? in\b/i,
+    second: /\bzoom(s|ing)? out\b|\bpull(s|ing)? (out|back)\b/i,
+    message: "The camera both pushes in and pulls out",
+  },
+  {
+    first: /\b(extreme )?close[- ]?ups?\b/i,
+    second: /\b(extreme )?wide (shot|angle|establishing)\b|\bestablishing shot\b/i,
+    message: "The shot is framed both as a close-up and as a wide shot",
+  },
+  {
+    first: /\bslow[- ]motion\b/i,
+    second: /\btime[- ]lapse\b|\bfast[- ]motion\b/i,
+    message: "Slow motion is combined with time-lapse",
+  },
+];
+
+/** Capitalized words that are never character names */
+const NOT_NAMES = new Set([
+  "the", "she", "her", "his", "him", "they", "them", "then", "there", "this", "that", "with",
+  "camera", "close", "wide", "medium", "shot", "scene", "slow", "fast", "int", "ext", "day", "night",
+]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PromptField = keyof Veo3PromptData;
+
+export type PromptLintSeverity = "error" | "warning";
+
+export type PromptLintRule =
+  | "dialogue_pace"
+  | "missing_component"
+  | "banned_term"
+  | "character_name"
+  | "camera_conflict";
+
+/** Replace one field of the structured prompt */
+export interface PromptLintFix {
+  label: string;
+  field: PromptField;
+  value: string | null;
+}
+
+export interface PromptLintIssue {
+  rule: PromptLintRule;
+  severity: PromptLintSeverity;
+  /** The field it was found in (null for legacy single-string prompts) */
+  field: PromptField | null;
+  message: string;
+  fix: PromptLintFix | null;
+}
+
+export interface PromptLintInput {
+  /** The structured prompt (used when any field is set) */
+  prompt: Veo3PromptData | null;
+  /** The single-string prompt sent when there's no structured one */
+  legacyPrompt?: string | null;
+  durationSeconds: number;
+  /** Character names from the project's bible */
+  characterNames?: string[];
+}
+
+const FIELD_LABELS: Record<PromptField, string> = {
+  subject: "Subject",
+  action: "Action",
+  scene: "Scene",
+  style: "Style",
+  dialogue: "Dialogue",
+  sounds: "Sounds",
+  technical: "Technical",
+};
+
+// ============================================================================
+// Linting
+// ============================================================================
+
+/**
+ * Lint the prompt a shot would be generated with
+ * @returns Errors first, then warnings
+ */
+export function lintVeo3Prompt(input: PromptLintInput): PromptLintIssue[] {
+  const prompt = input.prompt && Object.values(input.prompt).some((value) => value) ? input.prompt : null;
+
+  // Legacy prompts can only be checked as a whole
+  const texts: { field: PromptField | null; text: string }[] = prompt
+    ? (Object.keys(FIELD_LABELS) as PromptField[])
+        .filter((field) => prompt[field])
+        .map((field) => ({ field, text: prompt[field]! }))
+    : input.legacyPrompt
+      ? [{ field: null, text: input.legacyPrompt }]
+      : [];
+
+  const issues: PromptLintIssue[] = [];
+
+  if (prompt) {
+    for (const field of REQUIRED_PROMPT_FIELDS) {
+      if (!prompt[field]?.trim()) {
+        issues.push({
+          rule: "missing_component",
+          severity: "error",
+          field,
+          message: `${FIELD_LABELS[field]} is empty - Veo needs it to know what to show`,
+          fix: null,
+        });
+      }
+    }
+  }
+
+  // Only quoted lines of a legacy prompt are spoken - the rest is direction
+  const dialogue = prompt
+    ? prompt.dialogue ?? null
+    : input.legacyPrompt && getQuotedLines(input.legacyPrompt).length > 0
+      ? input.legacyPrompt
+      : null;
+  if (dialogue) {
+    const pace = lintDialoguePace(dialogue, input.durationSeconds, prompt ? "dialogue" : null);
+    if (pace) issues.push(pace);
+  }
+
+  for (const { field, text } of texts) {
+    issues.push(...lintBannedTerms(field, text));
+  }
+
+  if (input.characterNames && input.characterNames.length > 0) {
+    for (const { field, text } of texts) {
+      if (field === "subject" || field === "action" || field === "dialogue" || field === null) {
+        issues.push(...lintCharacterNames(field, text, input.characterNames));
+      }
+    }
+  }
+
+  // Camera directions can be spread across fields - check them together
+  const cameraText = texts
+    .filter(({ field }) => field === null || field === "action" || field === "style" || field === "technical")
+    .map(({ text }) => text)
+    .join(" ");
+  for (const conflict of CAMERA_CONFLICTS) {
+    if (conflict.first.test(cameraText) && conflict.second.test(cameraText)) {
+      issues.push({
+        rule: "camera_conflict",
+        severity: "warning",
+        field: null,
+        message: `${conflict.message} - pick one`,
+        fix: null,
+      });
+    }
+  }
+
+  return [...issues.filter((issue) => issue.severity === "error"), ...issues.filter((issue) => issue.severity === "warning")];
+}
+
+/**
+ * Apply a fix to a structured prompt
+ */
+export function applyPromptLintFix(prompt: Veo3PromptData, fix: PromptLintFix): Veo3PromptData {
+  return { ...prompt, [fix.field]: fix.value };
+}
+
+/**
+ * The issues that block generation, as one sentence per issue
+ */
+export function formatPromptLintErrors(issues: PromptLintIssue[]): string | null {
+  const errors = issues.filter((issue) => issue.severity === "error");
+  return errors.length > 0 ? errors.map((issue) => issue.message).join(". ") : null;
+}
+
+/**
+ * Words that will be spoken: the quoted lines, or the whole text when
+ * nothing is quoted
+ */
+export function countSpokenWords(dialogue: string): number {
+  const quotes = getQuotedLines(dialogue);
+  const spoken = quotes.length > 0 ? quotes.map((quote) => quote.text).join(" ") : dialogue;
+  return countWords(spoken);
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+function lintDialoguePace(
+  dialogue: string,
+  durationSeconds: number,
+  field: PromptField | null
+): PromptLintIssue | null {
+  const words = countSpokenWords(dialogue);
+  const comfortable = Math.floor(durationSeconds * MAX_WORDS_PER_SECOND);
+  if (words <= comfortable) return null;
+
+  const tooLong = words > durationSeconds * HARD_MAX_WORDS_PER_SECOND;
+  return {
+    rule: "dialogue_pace",
+    severity: tooLong ? "error" : "warning",
+    field,
+    message: `${words} spoken words in ${durationSeconds}s (${(words / durationSeconds).toFixed(1)}/s) - ${
+      tooLong ? "Veo will cut the line off" : "the delivery will sound rushed"
+    }; aim for ${comfortable} or fewer`,
+    fix: field
+      ? { label: `Trim to ${comfortable} words`, field, value: trimSpokenWords(dialogue, comfortable) }
+      : null,
+  };
+}
+
+function lintBannedTerms(field: PromptField | null, text: string): PromptLintIssue[] {
+  const issues: PromptLintIssue[] = [];
+
+  for (const banned of BANNED_TERMS) {
+    // Negative prompts ("no gore") are fine
+    const match = [...text.matchAll(banned.pattern)].find((entry) => !isNegated(text, entry.index));
+    if (!match) continue;
+
+    issues.push({
+      rule: "banned_term",
+      severity: "error",
+      field,
+      message: `"${match[0]}" trips Veo's content policy (${banned.term})${
+        banned.replacement ? "" : " - describe it less explicitly"
+      }`,
+      fix:
+        field && banned.replacement
+          ? {
+              label: `Replace with "${banned.replacement}"`,
+              field,
+              value: text.replace(banned.pattern, (term: string, ...rest: unknown[]) => {
+                const offset = rest.find((value): value is number => typeof value === "number") ?? 0;
+                if (isNegated(text, offset)) return term;
+                return /^[A-Z]/.test(term)
+                  ? banned.replacement!.charAt(0).toUpperCase() + banned.replacement!.slice(1)
+                  : banned.replacement!;
+              }),
+            }
+          : null,
+    });
+  }
+
+  return issues;
+}
+
+function lintCharacterNames(
+  field: PromptField | null,
+  text: string,
+  characterNames: string[]
+): PromptLintIssue[] {
+  const nameParts = [
+    ...new Set(
+      characterNames.flatMap((name) => name.split(/\s+/)).filter((part) => /^[A-Za-z][A-Za-z'-]{2,}$/.test(part))
+    ),
+  ];
+  const known = new Set(nameParts.map((part) => part.toLowerCase()));
+  const issues: PromptLintIssue[] = [];
+  const seen = new Set<string>();
+  const misspelled = new Set<string>();
+
+  for (const [word] of text.matchAll(/\b[A-Z][A-Za-z'-]{2,}\b/g)) {
+    const lower = word.toLowerCase();
+    if (known.has(lower) || NOT_NAMES.has(lower) || seen.has(lower)) continue;
+    seen.add(lower);
+
+    const match = nameParts.find(
+      (part) => levenshtein(lower, part.toLowerCase()) <= (part.length >= 6 ? 2 : 1)
+    );
+    if (!match) continue;
+    misspelled.add(lower);
+
+    const replacement = word === word.toUpperCase() ? match.toUpperCase() : match;
+    issues.push({
+      rule: "character_name",
+      severity: "warning",
+      field,
+      message: `"${word}" isn't in the bible - did you mean "${replacement}"?`,
+      fix: field
+        ? {
+            label: `Use "${replacement}"`,
+            field,
+            value: text.replace(new RegExp(`\\b${word}\\b`, "g"), replacement),
+          }
+        : null,
+    });
+  }
+
+  // Speaker labels ("MAYA:", "MAYA (V.O.):") should name a bible character
+  if (field === "dialogue" || field === null) {
+    for (const [, speaker] of text.matchAll(SPEAKER_PATTERN)) {
+      const parts = speaker.split(/\s+/).map((part) => part.toLowerCase());
+      if (parts.some((part) => known.has(part)) || parts.some((part) => misspelled.has(part))) continue;
+
+      issues.push({
+        rule: "character_name",
+        severity: "warning",
+        field,
+        message: `Speaker "${speaker}" isn't a character in the bible`,
+        fix: null,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const QUOTE_PATTERN = /"([^"]*)"|“([^”]*)”/g;
+
+/** "MAYA:" or "MAYA (V.O.):" at the start of a line or after a sentence */
+const SPEAKER_PATTERN = /(?:^|[.!?"”]\s+)([A-Z][A-Z.' -]{1,40}?)\s*(?:\([^)]*\))?\s*:/gm;
+
+function getQuotedLines(text: string): { start: number; end: number; text: string }[] {
+  return [...text.matchAll(QUOTE_PATTERN)].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    text: match[1] ?? match[2] ?? "",
+  }));
+}
+
+function isNegated(text: string, index: number): boolean {
+  return /\b(no|not|without|avoid)\s+$/i.test(text.slice(Math.max(0, index - 12), index));
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[A-Za-z0-9]/.test(word)).length;
+}
+
+/**
+ * Keep the first `maxWords` spoken words; quoted lines past the budget are
+ * dropped, delivery notes outside the quotes are kept
+ */
+function trimSpokenWords(dialogue: string, maxWords: number): string {
+  const quotes = getQuotedLines(dialogue);
+  if (quotes.length === 0) {
+    return dialogue.split(/\s+/).filter(Boolean).slice(0, maxWords).join(" ");
+  }
+
+  let remaining = maxWords;
+  let result = "";
+  let cursor = 0;
+
+  for (const quote of quotes) {
+    result += dialogue.slice(cursor, quote.start);
+    cursor = quote.end;
+
+    const words = quote.text.split(/\s+/).filter(Boolean);
+    if (remaining <= 0) {
+      // Drop the dropped line's speaker label too
+      result = result.replace(/\s*[A-Z][A-Z.' -]*(\([^)]*\))?\s*:\s*$/, " ");
+      continue;
+    }
+
+    const kept = words.slice(0, remaining);
+    remaining -= kept.length;
+    result += `"${kept.join(" ")}${kept.length < words.length ? "..." : ""}"`;
+  }
+
+  return (result + dialogue.slice(cursor)).replace(/\s{2,}/g, " ").trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,35 @@
+/**
+ * Shot prompt pre-flight (server only) - see lib/prompt-lint for the rules
+ */
+
+import { db } from "@/lib/drizzle/db";
+import { projectCharacters, type SceneShot } from "@/lib/drizzle/schema";
+import { eq } from "drizzle-orm";
+import { lintVeo3Prompt, type PromptLintIssue } from "./index";
+
+/**
+ * Names of a project's bible characters
+ */
+export async function getProjectCharacterNames(projectId: string): Promise<string[]> {
+  const characters = await db
+    .select({ name: projectCharacters.name })
+    .from(projectCharacters)
+    .where(eq(projectCharacters.project_id, projectId));
+
+  return characters.map((character) => character.name);
+}
+
+/**
+ * Lint the prompt a shot would be generated with, against its project's bible
+ */
+export async function lintShotPrompt(
+  shot: Pick<SceneShot, "video_prompt_veo3" | "action_prompt" | "shot_duration_seconds">,
+  projectId: string
+): Promise<PromptLintIssue[]> {
+  return lintVeo3Prompt({
+    prompt: shot.video_prompt_veo3,
+    legacyPrompt: shot.action_prompt,
+    durationSeconds: shot.shot_duration_seconds,
+    characterNames: await getProjectCharacterNames(projectId),
+  });
+}
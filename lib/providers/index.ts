@@ -0,0 +1,185 @@
+/**
+ * Generation Providers - Main Entry Point
+ *
+ * All AI generation goes through the active provider, chosen with
+ * GENERATION_PROVIDER:
+ * - "n8n" (default): n8n workflows → KIE.ai and friends
+ * - "mock": deterministic placeholder media, no network (see mock.ts)
+ *
+ * Server code should import the generation functions from here rather
+ * than from "@/lib/n8n", so the mock can stand in for every step.
+ *
+ * Image and video functions take the project's visual style (see
+ * lib/styles) and inject it into the prompt before the provider sees it.
+ *
+ * @example
+ * ```typescript
+ * import { generateBibleImage } from "@/lib/providers";
+ *
+ * const result = await generateBibleImage({
+ *   asset_type: "character",
+ *   asset_id: characterId,
+ *   prompt: "...",
+ *   model: "seedream4.5",
+ * }, apiKeys, await getProjectStyle(projectId));
+ * ```
+ */
+
+import { env } from "@/lib/env";
+import { applyStyleToImagePayload, applyStyleToVideoPayload, type ResolvedStyle } from "@/lib/styles";
+import type {
+  ApiKeys,
+  AudioGenerationPayload,
+  GenerateBiblePayload,
+  GenerateBibleResult,
+  GenerateScenesPayload,
+  GenerateScenesResult,
+  WorkflowInvocationResult,
+} from "@/lib/n8n/types";
+import type { SceneToShotsResult, SimpleVideoResult } from "@/lib/n8n/mcp-client";
+import { n8nProvider } from "./n8n";
+import { mockProvider } from "./mock";
+import type {
+  AudioGenerationResponse,
+  GenerationProvider,
+  ImageGenerationPayload,
+  ImageGenerationResponse,
+  ReelAssemblyPayload,
+  ReelAssemblyResult,
+  SceneToShotsPayload,
+  SimpleVideoPayload,
+} from "./types";
+
+/**
+ * Get the provider selected by GENERATION_PROVIDER
+ */
+export function getGenerationProvider(): GenerationProvider {
+  return env.GENERATION_PROVIDER === "mock" ? mockProvider : n8nProvider;
+}
+
+// ============================================================================
+// Generation Functions
+// ============================================================================
+
+/**
+ * Generate the Visual Bible (characters, locations, props) from a screenplay
+ */
+export async function generateBible(
+  payload: GenerateBiblePayload,
+  apiKeys?: ApiKeys
+): Promise<GenerateBibleResult> {
+  return getGenerationProvider().generateBible(payload, apiKeys);
+}
+
+/**
+ * Generate the scene breakdown from a screenplay and its Bible
+ */
+export async function generateScenes(
+  payload: GenerateScenesPayload,
+  apiKeys?: ApiKeys
+): Promise<GenerateScenesResult> {
+  return getGenerationProvider().generateScenes(payload, apiKeys);
+}
+
+/**
+ * Start an image generation (result arrives on next_js_callback_url)
+ * @param style - Project style to inject (omit for refinements, which send only the edit instructions)
+ */
+export async function generateImage(
+  payload: ImageGenerationPayload,
+  apiKeys?: ApiKeys,
+  style?: ResolvedStyle | null
+): Promise<WorkflowInvocationResult<ImageGenerationResponse>> {
+  const styledPayload = style ? applyStyleToImagePayload(style, payload) : payload;
+  return getGenerationProvider().generateImage(styledPayload, apiKeys);
+}
+
+/**
+ * Generate Bible asset image (character, location, or prop)
+ *
+ * Picks the matching Bible callback route for the asset type.
+ */
+export async function generateBibleImage(payload: {
+  asset_type: "character" | "location" | "prop";
+  asset_id: string;
+  prompt: string;
+  model: string;
+  aspect_ratio?: string;
+  quality?: string;
+  shot_type?: "portrait" | "three_quarter" | "full_body"; // Only for characters
+  variant_id?: string; // For multi-variant generation
+  source_image_url?: string; // For image-to-image generation
+}, apiKeys?: ApiKeys, style?: ResolvedStyle | null): Promise<WorkflowInvocationResult<ImageGenerationResponse>> {
+  // Determine callback URL based on asset type
+  const callbackPath = payload.asset_type === "character"
+    ? "/api/webhooks/n8n/bible/character-image"
+    : payload.asset_type === "location"
+    ? "/api/webhooks/n8n/bible/location-image"
+    : "/api/webhooks/n8n/bible/prop-image";
+
+  const next_js_callback_url = `${env.NEXT_PUBLIC_APP_URL}${callbackPath}`;
+
+  return generateImage({
+    ...payload,
+    [`${payload.asset_type}_id`]: payload.asset_id,
+    next_js_callback_url,
+  }, apiKeys, style);
+}
+
+/**
+ * Divide a scene into 8-second shots
+ */
+export async function divideSceneIntoShots(
+  payload: SceneToShotsPayload,
+  apiKeys?: ApiKeys
+): Promise<WorkflowInvocationResult<SceneToShotsResult>> {
+  return getGenerationProvider().divideSceneIntoShots(payload, apiKeys);
+}
+
+/**
+ * Generate a single video from a start frame (returns when ready)
+ */
+export async function generateVideoSimple(
+  payload: SimpleVideoPayload,
+  apiKeys?: ApiKeys,
+  style?: ResolvedStyle | null
+): Promise<WorkflowInvocationResult<SimpleVideoResult>> {
+  const styledPayload = style ? applyStyleToVideoPayload(style, payload) : payload;
+  return getGenerationProvider().generateVideoSimple(styledPayload, apiKeys);
+}
+
+/**
+ * Start a scene voiceover, SFX, or music track (result arrives on callback_url)
+ */
+export async function generateAudio(
+  payload: AudioGenerationPayload,
+  apiKeys?: ApiKeys
+): Promise<WorkflowInvocationResult<AudioGenerationResponse>> {
+  return getGenerationProvider().generateAudio(payload, apiKeys);
+}
+
+/**
+ * Whether the active provider can assemble a final reel
+ */
+export async function isAssemblyAvailable(): Promise<boolean> {
+  return getGenerationProvider().isAssemblyAvailable();
+}
+
+/**
+ * Stitch shot videos into the final reel
+ */
+export async function assembleReel(payload: ReelAssemblyPayload): Promise<ReelAssemblyResult> {
+  return getGenerationProvider().assembleReel(payload);
+}
+
+export type {
+  AudioGenerationResponse,
+  GenerationProvider,
+  GenerationProviderName,
+  ImageGenerationPayload,
+  ImageGenerationResponse,
+  SceneToShotsPayload,
+  SimpleVideoPayload,
+  ReelAssemblyPayload,
+  ReelAssemblyResult,
+} from "./types";
@@ -0,0 +1,294 @@
+/**
+ * Placeholder Media for the Mock Provider
+ *
+ * Renders deterministic placeholder images (PNG, pure Node), audio (WAV,
+ * pure Node), and videos (MP4 via ffmpeg). The same seed always produces
+ * the same media, so mock runs are reproducible. Served by
+ * /api/mock-media/{image,audio,video}.
+ */
+
+import { createHash } from "crypto";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { deflateSync } from "zlib";
+import { existsSync } from "fs";
+import { mkdir, rename, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { env } from "@/lib/env";
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MOCK_ASPECT_RATIOS = ["16:9", "9:16", "1:1", "2:3", "3:2", "3:4", "4:3"] as const;
+export type MockAspectRatio = (typeof MOCK_ASPECT_RATIOS)[number];
+
+/** Longest edge of placeholder images (px) */
+const IMAGE_LONG_EDGE = 1024;
+
+/** Longest edge of placeholder videos (px) */
+const VIDEO_LONG_EDGE = 1280;
+
+/** Longest placeholder video we render (seconds) */
+export const MOCK_VIDEO_MAX_SECONDS = 600;
+
+export const MOCK_AUDIO_TYPES = ["voiceover", "sfx", "music"] as const;
+export type MockAudioType = (typeof MOCK_AUDIO_TYPES)[number];
+
+/** Longest placeholder audio track we render (seconds) */
+export const MOCK_AUDIO_MAX_SECONDS = 300;
+
+/** Placeholder audio sample rate (Hz, 16-bit mono) */
+const AUDIO_SAMPLE_RATE = 16000;
+
+const VIDEO_CACHE_DIR = path.join(tmpdir(), "ripreel-mock-media");
+
+// ============================================================================
+// Seeds and URLs
+// ============================================================================
+
+/**
+ * Derive a stable seed from any string (IDs, prompts, ...)
+ */
+export function mockSeed(value: string): string {
+  return createHash("sha1").update(value).digest("hex").slice(0, 12);
+}
+
+/**
+ * Check a seed from a request is one mockSeed could have produced
+ */
+export function isMockSeed(value: string | null): value is string {
+  return !!value && /^[0-9a-f]{12}$/.test(value);
+}
+
+export function isMockAspectRatio(value: string | null | undefined): value is MockAspectRatio {
+  return MOCK_ASPECT_RATIOS.includes(value as MockAspectRatio);
+}
+
+export function getMockImageUrl(seed: string, aspectRatio?: string): string {
+  const aspect = isMockAspectRatio(aspectRatio) ? aspectRatio : "16:9";
+  const params = new URLSearchParams({ seed, aspect });
+  return `${env.NEXT_PUBLIC_APP_URL}/api/mock-media/image?${params}`;
+}
+
+export function isMockAudioType(value: string | null | undefined): value is MockAudioType {
+  return MOCK_AUDIO_TYPES.includes(value as MockAudioType);
+}
+
+export function getMockAudioUrl(seed: string, durationSeconds: number, type: MockAudioType): string {
+  const duration = Math.min(Math.max(Math.round(durationSeconds), 1), MOCK_AUDIO_MAX_SECONDS);
+  const params = new URLSearchParams({ seed, duration: String(duration), type });
+  return `${env.NEXT_PUBLIC_APP_URL}/api/mock-media/audio?${params}`;
+}
+
+export function getMockVideoUrl(seed: string, durationSeconds: number, aspectRatio?: string): string {
+  const aspect = aspectRatio === "9:16" ? "9:16" : "16:9";
+  const duration = Math.min(Math.max(Math.round(durationSeconds), 1), MOCK_VIDEO_MAX_SECONDS);
+  const params = new URLSearchParams({ seed, duration: String(duration), aspect });
+  return `${env.NEXT_PUBLIC_APP_URL}/api/mock-media/video?${params}`;
+}
+
+// ============================================================================
+// Images
+// ============================================================================
+
+/**
+ * Render a placeholder PNG: a diagonal gradient between two seed colors
+ * inside a dark frame
+ */
+export function renderPlaceholderPng(seed: string, aspectRatio: MockAspectRatio): Buffer {
+  const { width, height } = getDimensions(aspectRatio, IMAGE_LONG_EDGE);
+  const [from, to] = [seedColor(seed, 0), seedColor(seed, 6)];
+  const border = Math.round(Math.min(width, height) * 0.04);
+
+  // One filter byte (0 = none) followed by RGB triplets per row
+  const rowLength = width * 3 + 1;
+  const pixels = Buffer.alloc(rowLength * height);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * rowLength;
+    for (let x = 0; x < width; x++) {
+      const offset = rowStart + 1 + x * 3;
+      const inFrame = x < border || y < border || x >= width - border || y >= height - border;
+      if (inFrame) {
+        pixels[offset] = pixels[offset + 1] = pixels[offset + 2] = 24;
+        continue;
+      }
+      const t = (x / width + y / height) / 2;
+      pixels[offset] = Math.round(from[0] + (to[0] - from[0]) * t);
+      pixels[offset + 1] = Math.round(from[1] + (to[1] - from[1]) * t);
+      pixels[offset + 2] = Math.round(from[2] + (to[2] - from[2]) * t);
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: truecolor RGB
+  // compression, filter, interlace: all 0
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(pixels)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+// ============================================================================
+// Audio
+// ============================================================================
+
+/**
+ * Render a placeholder WAV that sounds like its track type:
+ * voiceover = syllable-like tone bursts, sfx = decaying noise hits,
+ * music = a soft two-note drone
+ */
+export function renderPlaceholderWav(seed: string, durationSeconds: number, type: MockAudioType): Buffer {
+  const sampleCount = Math.round(durationSeconds * AUDIO_SAMPLE_RATE);
+  const samples = Buffer.alloc(sampleCount * 2);
+  const baseFrequency = 110 + (parseInt(seed.slice(0, 4), 16) % 110);
+  let noiseState = parseInt(seed.slice(4, 12), 16) || 1;
+
+  for (let i = 0; i < sampleCount; i++) {
+    const t = i / AUDIO_SAMPLE_RATE;
+    let value: number;
+
+    if (type === "voiceover") {
+      const inSyllable = t % 0.4 < 0.25;
+      value = inSyllable ? 0.4 * Math.sin(2 * Math.PI * baseFrequency * 1.5 * t) : 0;
+    } else if (type === "sfx") {
+      // xorshift noise, one hit per second
+      noiseState ^= noiseState << 13;
+      noiseState ^= noiseState >>> 17;
+      noiseState ^= noiseState << 5;
+      const noise = ((noiseState >>> 0) / 0xffffffff) * 2 - 1;
+      value = 0.5 * noise * Math.exp(-8 * (t % 1));
+    } else {
+      const tremolo = 0.75 + 0.25 * Math.sin(2 * Math.PI * 0.5 * t);
+      value = 0.2 * tremolo * (Math.sin(2 * Math.PI * baseFrequency * t) + Math.sin(2 * Math.PI * baseFrequency * 1.5 * t));
+    }
+
+    samples.writeInt16LE(Math.round(Math.max(-1, Math.min(1, value)) * 32767), i * 2);
+  }
+
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + samples.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16); // PCM chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(AUDIO_SAMPLE_RATE, 24);
+  header.writeUInt32LE(AUDIO_SAMPLE_RATE * 2, 28); // byte rate
+  header.writeUInt16LE(2, 32); // block align
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(samples.length, 40);
+
+  return Buffer.concat([header, samples]);
+}
+
+// ============================================================================
+// Videos
+// ============================================================================
+
+/**
+ * Render (or reuse) a placeholder MP4 with a silent audio track
+ * @returns Path of the cached video file
+ * @throws Error when ffmpeg is not installed
+ */
+export async function renderPlaceholderVideo(
+  seed: string,
+  durationSeconds: number,
+  aspectRatio: "16:9" | "9:16"
+): Promise<string> {
+  const outputPath = path.join(VIDEO_CACHE_DIR, `${seed}-${durationSeconds}s-${aspectRatio.replace(":", "x")}.mp4`);
+  if (existsSync(outputPath)) {
+    return outputPath;
+  }
+
+  await mkdir(VIDEO_CACHE_DIR, { recursive: true });
+
+  const { width, height } = getDimensions(aspectRatio, VIDEO_LONG_EDGE);
+  const color = seedColor(seed, 0).map((c) => c.toString(16).padStart(2, "0")).join("");
+  const partialPath = `${outputPath}.${process.pid}.partial.mp4`;
+
+  try {
+    await execFileAsync(
+      env.FFMPEG_PATH ?? "ffmpeg",
+      [
+        "-y",
+        "-loglevel", "error",
+        "-f", "lavfi", "-i", `color=c=0x${color}:s=${width}x${height}:r=24:d=${durationSeconds}`,
+        "-f", "lavfi", "-i", "anullsrc=r=44100:cl=stereo",
+        "-t", String(durationSeconds),
+        "-c:v", "libx264", "-pix_fmt", "yuv420p",
+        "-c:a", "aac",
+        "-movflags", "+faststart",
+        partialPath,
+      ],
+      { timeout: 120000 }
+    );
+    await rename(partialPath, outputPath);
+  } catch (error) {
+    await rm(partialPath, { force: true });
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error("ffmpeg not found - install ffmpeg or set FFMPEG_PATH to render mock videos");
+    }
+    throw error;
+  }
+
+  return outputPath;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getDimensions(aspectRatio: MockAspectRatio, longEdge: number): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  // Even dimensions keep yuv420p happy
+  const even = (value: number) => Math.round(value / 2) * 2;
+  return w >= h
+    ? { width: longEdge, height: even((longEdge * h) / w) }
+    : { width: even((longEdge * w) / h), height: longEdge };
+}
+
+/**
+ * Pick a mid-brightness RGB color from 6 hex digits of the seed
+ */
+function seedColor(seed: string, offset: number): [number, number, number] {
+  const hex = (seed + seed).slice(offset, offset + 6);
+  return [0, 2, 4].map((i) => 64 + (parseInt(hex.slice(i, i + 2), 16) % 160)) as [number, number, number];
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData), 0);
+  return Buffer.concat([length, typeAndData, crc]);
+}
@@ -0,0 +1,315 @@
+/**
+ * Mock Generation Provider
+ *
+ * Deterministic, offline stand-in for n8n so the whole pipeline
+ * (screenplay → Bible → scenes → images → shots → videos → assembly)
+ * can run locally and in CI without network access or API keys.
+ *
+ * - Bible and scenes come from the local Fountain parser
+ *   (INT./EXT. sluglines, uppercase character cues)
+ * - Images and audio tracks are placeholder PNGs/WAVs delivered through
+ *   the same signed /api/webhooks/n8n/* callbacks n8n uses, shortly after
+ *   the request
+ * - Videos and the final reel are placeholder MP4s rendered with ffmpeg
+ *
+ * Enable with GENERATION_PROVIDER=mock. Callbacks are signed, so
+ * N8N_WEBHOOK_SECRET must still be set.
+ */
+
+import type { BibleCharacter, BibleLocation, BibleProp } from "@/lib/n8n/types";
+import type { RawSceneData } from "@/lib/drizzle/schema";
+import type { GeneratedShot } from "@/lib/n8n/mcp-client";
+import { createSignedHeaders } from "@/lib/n8n/signing";
+import { env } from "@/lib/env";
+import { parseFountain, ScreenplayParseError, type ParsedScreenplay } from "@/lib/screenplay";
+import { getMockAudioUrl, getMockImageUrl, getMockVideoUrl, mockSeed } from "./mock-media";
+import type { GenerationProvider, ImageGenerationPayload } from "./types";
+
+/** Delay before an image/audio callback fires, so the caller has stored the task first */
+const MOCK_CALLBACK_DELAY_MS = 1500;
+
+/** Shots per scene produced by divideSceneIntoShots */
+const MOCK_SHOTS_PER_SCENE = 3;
+
+const MOCK_SHOT_SECONDS = 8;
+
+export const mockProvider: GenerationProvider = {
+  name: "mock",
+
+  async generateBible(payload) {
+    const screenplay = readScreenplay(payload.is_pdf ? "" : payload.script_content);
+    const style = payload.visual_style || "cinematic";
+    const names = screenplay.characters.length > 0 ? screenplay.characters.slice(0, MAX_CHARACTERS) : ["Protagonist"];
+
+    const characters: BibleCharacter[] = names.map((name, index) => {
+      const dna = `${name}, distinctive face, period-appropriate wardrobe, ${style} styling`;
+      return {
+        name,
+        role: index < 2 ? "lead" : "supporting",
+        tier: index < 2 ? "TIER 1" : "TIER 2",
+        scene_count: screenplay.scenes.filter((scene) => scene.characters.includes(name)).length,
+        visual_dna_reference: dna,
+        portrait_prompt_seedream: `Extreme close-up portrait of ${dna}`,
+        three_quarter_prompt_seedream: `Medium shot at 45 degrees of ${dna}`,
+        full_body_prompt_seedream: `Full body shot of ${dna}, full costume visible`,
+      };
+    });
+
+    const locationTypes = new Map<string, "INT" | "EXT">();
+    for (const scene of screenplay.scenes) {
+      if (!locationTypes.has(scene.location)) locationTypes.set(scene.location, scene.interior_exterior);
+    }
+
+    const locations: BibleLocation[] = [...locationTypes.entries()].map(([name, type]) => ({
+      name,
+      type,
+      visual_dna: `${name}, ${type === "EXT" ? "exterior" : "interior"}, ${style} production design`,
+      prompt_seedream: `Establishing shot of ${name}, ${style} production design, no people`,
+    }));
+
+    const props: BibleProp[] = [
+      {
+        name: "Key Prop",
+        importance: "medium",
+        generation_method: "GENERATE",
+        visual_dna: `A hero prop, ${style} styling`,
+        prompt_seedream: `Product shot of a hero prop on a neutral background, ${style} styling`,
+      },
+    ];
+
+    console.log("🧪 [Mock] Bible generated:", {
+      characters: characters.length,
+      locations: locations.length,
+      props: props.length,
+    });
+
+    return { success: true, data: { characters, locations, props } };
+  },
+
+  async generateScenes(payload) {
+    const screenplay = readScreenplay(payload.script_content.startsWith("http") ? "" : payload.script_content);
+
+    const scenes: RawSceneData[] = screenplay.scenes.map((scene) => ({
+      scene_number: scene.scene_number,
+      slugline: scene.slugline,
+      time_of_day: scene.time_of_day,
+      interior_exterior: scene.interior_exterior,
+      location: scene.location,
+      characters_present: scene.characters,
+      props_used: [],
+      action_description: scene.action || `Action unfolds at ${scene.location}.`,
+      dialogue_snippet: scene.dialogue[0]?.text,
+      shot_type: "Wide",
+      composition_instruction: `Wide shot of ${scene.location}, ${scene.time_of_day.toLowerCase()}, ${payload.visual_style} style`,
+      estimated_duration_seconds: MOCK_SHOTS_PER_SCENE * MOCK_SHOT_SECONDS,
+    }));
+
+    console.log("🧪 [Mock] Scenes generated:", scenes.length);
+
+    return {
+      success: true,
+      data: { scenes: scenes as unknown as Array<Record<string, unknown>> },
+    };
+  },
+
+  async generateImage(payload) {
+    const seed = mockSeed(payload.variant_id || `${payload.prompt}|${payload.model}|${payload.shot_type ?? ""}`);
+    const taskId = `mock-image-${seed}-${Date.now()}`;
+    const imageUrl = getMockImageUrl(seed, payload.aspect_ratio);
+
+    if (payload.next_js_callback_url) {
+      scheduleImageCallback(payload.next_js_callback_url, payload, taskId, imageUrl);
+    }
+
+    return {
+      success: true,
+      data: { taskId, message: "Mock image generation started" },
+    };
+  },
+
+  async divideSceneIntoShots(payload) {
+    const sentences = payload.sceneText
+      .split(/(?<=[.!?])\s+/)
+      .map((sentence) => sentence.trim())
+      .filter(Boolean);
+    const shotTypes: GeneratedShot["shot_type"][] = ["Wide", "Medium", "Close-up"];
+    const compositions = ["Establishing", "Character focus", "Detail"];
+
+    const shots: GeneratedShot[] = shotTypes.map((shotType, index) => {
+      // Spread the scene's sentences across the shots
+      const start = Math.floor((index * sentences.length) / MOCK_SHOTS_PER_SCENE);
+      const end = Math.floor(((index + 1) * sentences.length) / MOCK_SHOTS_PER_SCENE);
+      const action = sentences.slice(start, Math.max(end, start + 1)).join(" ");
+
+      return {
+        shot_number: index + 1,
+        duration_seconds: MOCK_SHOT_SECONDS,
+        action: action || `Shot ${index + 1}`,
+        dialogue: index === 1 ? payload.dialogue || null : null,
+        shot_type: shotType,
+        composition: compositions[index],
+      };
+    });
+
+    return {
+      success: true,
+      data: {
+        success: true,
+        sceneId: payload.sceneId,
+        totalShots: shots.length,
+        totalDuration: shots.length * MOCK_SHOT_SECONDS,
+        shots,
+      },
+    };
+  },
+
+  async generateVideoSimple(payload) {
+    const seed = mockSeed(`${payload.shotId}|${payload.prompt}`);
+
+    return {
+      success: true,
+      data: {
+        success: true,
+        shotId: payload.shotId,
+        prompt: payload.prompt,
+        taskId: `mock-video-${seed}-${Date.now()}`,
+        videoUrl: getMockVideoUrl(seed, payload.duration || MOCK_SHOT_SECONDS, payload.aspectRatio),
+        status: "completed",
+        mode: "simple",
+      },
+    };
+  },
+
+  async generateAudio(payload) {
+    const seed = mockSeed(`${payload.scene_audio_id}|${payload.audio_type}|${payload.audio_description}`);
+    const taskId = `mock-audio-${seed}-${Date.now()}`;
+    const audioUrl = getMockAudioUrl(seed, payload.duration, payload.audio_type);
+
+    scheduleSignedCallback(payload.callback_url, {
+      scene_audio_id: payload.scene_audio_id,
+      audio_type: payload.audio_type,
+      status: "ready",
+      audio_url: audioUrl,
+      duration_seconds: Math.round(payload.duration),
+    }, "Audio");
+
+    return {
+      success: true,
+      data: { taskId, message: "Mock audio generation started" },
+    };
+  },
+
+  async isAssemblyAvailable() {
+    return true;
+  },
+
+  async assembleReel(payload) {
+    // One placeholder clip as long as the cut - not a real concatenation
+    const totalSeconds = payload.videos.reduce((sum, video) => sum + video.duration, 0);
+    const seed = mockSeed(payload.videos.map((video) => video.url).join("|"));
+
+    console.log(`🧪 [Mock] Assembled ${payload.videos.length} videos (${totalSeconds}s)`);
+
+    return {
+      success: true,
+      projectId: payload.projectId,
+      videoUrl: getMockVideoUrl(seed, totalSeconds),
+    };
+  },
+};
+
+// ============================================================================
+// Callbacks
+// ============================================================================
+
+/**
+ * POST a signed "image ready" callback, shaped like the n8n image orchestrator's
+ */
+function scheduleImageCallback(
+  callbackUrl: string,
+  payload: ImageGenerationPayload,
+  taskId: string,
+  imageUrl: string
+): void {
+  scheduleSignedCallback(callbackUrl, {
+    taskId,
+    status: "ready",
+    imageUrl,
+    image_url: imageUrl,
+    variant_id: payload.variant_id,
+    character_id: payload.character_id,
+    location_id: payload.location_id,
+    prop_id: payload.prop_id,
+    shot_type: payload.shot_type,
+  }, "Image");
+}
+
+/**
+ * POST a signed callback after MOCK_CALLBACK_DELAY_MS
+ */
+function scheduleSignedCallback(callbackUrl: string, payload: Record<string, unknown>, label: string): void {
+  if (!env.N8N_WEBHOOK_SECRET) {
+    console.error(`❌ [Mock] N8N_WEBHOOK_SECRET not configured - ${label.toLowerCase()} callbacks would be rejected, skipping`);
+    return;
+  }
+
+  const body = JSON.stringify(payload);
+
+  setTimeout(() => {
+    fetch(callbackUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...createSignedHeaders(body),
+      },
+      body,
+    })
+      .then((response) => {
+        if (!response.ok) {
+          console.error(`❌ [Mock] ${label} callback returned ${response.status}:`, callbackUrl);
+        }
+      })
+      .catch((error) => {
+        console.error(`❌ [Mock] ${label} callback failed:`, callbackUrl, error);
+      });
+  }, MOCK_CALLBACK_DELAY_MS);
+}
+
+// ============================================================================
+// Screenplay Reading
+// ============================================================================
+
+const MAX_CHARACTERS = 8;
+
+/** Used when the script can't be read (e.g. PDFs, which the mock does not open) */
+const FALLBACK_SCREENPLAY = `INT. APARTMENT - NIGHT
+
+The Protagonist paces the room. A phone buzzes on the table.
+
+PROTAGONIST
+Not tonight.
+
+EXT. CITY STREET - NIGHT
+
+Rain on the pavement. The Protagonist meets a Stranger under a streetlamp.
+
+STRANGER
+You came.
+
+INT. APARTMENT - DAY
+
+Morning light. The Protagonist packs a bag and leaves.
+`;
+
+/**
+ * Read a plain-text screenplay with the Fountain parser
+ * (sluglines and character cues), falling back to a tiny generic script
+ */
+function readScreenplay(script: string): ParsedScreenplay {
+  try {
+    return parseFountain(script);
+  } catch (error) {
+    if (!(error instanceof ScreenplayParseError)) throw error;
+    return parseFountain(FALLBACK_SCREENPLAY);
+  }
+}
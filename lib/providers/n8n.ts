@@ -0,0 +1,68 @@
+/**
+ * n8n Generation Provider
+ *
+ * The production provider: every call goes to an n8n workflow from the
+ * workflow registry (which in turn talks to KIE.ai, Claude, FFmpeg API, ...).
+ */
+
+import {
+  generateBible,
+  generateScenes,
+  generateImage,
+  divideSceneIntoShots,
+  generateVideoSimple,
+  generateAudio,
+  getWorkflowByName,
+} from "@/lib/n8n/mcp-client";
+import { createSignedHeaders } from "@/lib/n8n/signing";
+import type { GenerationProvider, ReelAssemblyPayload, ReelAssemblyResult } from "./types";
+
+export const n8nProvider: GenerationProvider = {
+  name: "n8n",
+  generateBible,
+  generateScenes,
+  generateImage,
+  divideSceneIntoShots,
+  generateVideoSimple,
+  generateAudio,
+
+  async isAssemblyAvailable() {
+    return !!(await getWorkflowByName("assembly_line"))?.webhookUrl;
+  },
+
+  assembleReel,
+};
+
+/**
+ * Send shot videos to the n8n FFmpeg assembly workflow
+ *
+ * Returns `success: false` for webhook errors (the caller decides whether
+ * to retry); throws only if the workflow is not configured.
+ */
+async function assembleReel(payload: ReelAssemblyPayload): Promise<ReelAssemblyResult> {
+  const webhookUrl = (await getWorkflowByName("assembly_line"))?.webhookUrl;
+  if (!webhookUrl) {
+    throw new Error("Assembly webhook URL not configured");
+  }
+
+  console.log("🚀 Calling assembly webhook:", webhookUrl);
+  console.log("📦 Payload:", JSON.stringify(payload, null, 2));
+
+  const body = JSON.stringify(payload);
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...createSignedHeaders(body),
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("❌ Webhook error:", response.status, errorText);
+    return { success: false, error: `Webhook failed: ${response.status} ${errorText}` };
+  }
+
+  return (await response.json()) as ReelAssemblyResult;
+}
@@ -0,0 +1,163 @@
+/**
+ * Type definitions for generation providers
+ *
+ * A provider does the AI work behind the pipeline: Bible and scene
+ * breakdowns, images, shot division, videos, scene audio, and final assembly.
+ * Payloads and results match the n8n workflow contracts so callers
+ * don't care which provider is active.
+ */
+
+import type {
+  ApiKeys,
+  AudioGenerationPayload,
+  GenerateBiblePayload,
+  GenerateBibleResult,
+  GenerateScenesPayload,
+  GenerateScenesResult,
+  WorkflowInvocationResult,
+} from "@/lib/n8n/types";
+import type { SceneToShotsResult, SimpleVideoResult } from "@/lib/n8n/mcp-client";
+import type { Transition } from "@/lib/transitions";
+import type { ProjectFormat } from "@/lib/formats";
+
+export type GenerationProviderName = "n8n" | "mock";
+
+// ============================================================================
+// Payloads
+// ============================================================================
+
+/**
+ * Image generation request
+ *
+ * Images are asynchronous: the provider returns a taskId right away and
+ * POSTs the result to `next_js_callback_url` (a signed /api/webhooks/n8n/*
+ * callback) when the image is ready.
+ */
+export interface ImageGenerationPayload {
+  prompt: string;
+  model: string; // e.g., "seedream4.5", "nano-banana-pro", "flux.2"
+  aspect_ratio?: string; // e.g., "1:1", "16:9", "9:16"
+  quality?: string; // "low", "medium", "high"
+  source_image_url?: string; // For single image-to-image
+  reference_images?: string[]; // For multi-reference I2I (Bible injection)
+  character_id?: string;
+  location_id?: string;
+  prop_id?: string;
+  shot_type?: string; // "portrait", "three_quarter", "full_body"
+  variant_id?: string; // For multi-variant generation
+  negative_prompt?: string; // From the project's style preset
+  next_js_callback_url?: string; // Webhook URL to receive result
+}
+
+export interface ImageGenerationResponse {
+  taskId: string;
+  message: string;
+}
+
+export interface SceneToShotsPayload {
+  sceneId: string;
+  sceneText: string;
+  dialogue?: string | null;
+  characters?: string[];
+  estimatedDuration?: number;
+}
+
+export interface SimpleVideoPayload {
+  shotId: string;
+  imageUrl: string;
+  prompt: string;
+  duration?: number;
+  model?: "veo3" | "veo3_fast";
+  aspectRatio?: "16:9" | "9:16" | "Auto";
+  negativePrompt?: string; // From the project's style preset
+}
+
+/**
+ * Audio generation is asynchronous like images: the provider returns right
+ * away and POSTs the track to `callback_url` (/api/webhooks/n8n/audio-generated)
+ */
+export interface AudioGenerationResponse {
+  taskId?: string;
+  message?: string;
+}
+
+export interface ReelAssemblyPayload {
+  projectId: string;
+  title: string;
+  description: string;
+  /** Delivery format - sets the output frame (16:9 when unset) */
+  format?: ProjectFormat;
+  /**
+   * `muted` drops the shot's own (Veo) audio - set when a voiceover replaces it.
+   * `transition` is the transition from the previous video (ignored on the
+   * first; a crossfade when unset). `trimIn`/`trimOut` are the in/out points
+   * in seconds from the clip start (unset = clip start / end).
+   */
+  videos: Array<{
+    url: string;
+    duration: number;
+    muted?: boolean;
+    transition?: Transition;
+    trimIn?: number;
+    trimOut?: number;
+  }>;
+  /** Approved scene audio, mixed in starting at the scene's first video */
+  audio?: Array<{
+    url: string;
+    type: "voiceover" | "sfx" | "music";
+    startVideoIndex: number;
+  }>;
+}
+
+export interface ReelAssemblyResult {
+  success: boolean;
+  videoUrl?: string; // Temporary MP4 download URL (re-uploaded to Supabase by the caller)
+  youtubeUrl?: string; // YouTube unlisted video URL
+  youtubeId?: string; // YouTube video ID
+  projectId?: string;
+  error?: string;
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+export interface GenerationProvider {
+  name: GenerationProviderName;
+
+  /** Extract characters, locations, and props from a screenplay */
+  generateBible(payload: GenerateBiblePayload, apiKeys?: ApiKeys): Promise<GenerateBibleResult>;
+
+  /** Break a screenplay into scenes using the approved Bible */
+  generateScenes(payload: GenerateScenesPayload, apiKeys?: ApiKeys): Promise<GenerateScenesResult>;
+
+  /** Start an image generation - the result arrives on the callback URL */
+  generateImage(
+    payload: ImageGenerationPayload,
+    apiKeys?: ApiKeys
+  ): Promise<WorkflowInvocationResult<ImageGenerationResponse>>;
+
+  /** Divide a scene into 8-second shots */
+  divideSceneIntoShots(
+    payload: SceneToShotsPayload,
+    apiKeys?: ApiKeys
+  ): Promise<WorkflowInvocationResult<SceneToShotsResult>>;
+
+  /** Generate one video from a start frame (returns when the video is ready) */
+  generateVideoSimple(
+    payload: SimpleVideoPayload,
+    apiKeys?: ApiKeys
+  ): Promise<WorkflowInvocationResult<SimpleVideoResult>>;
+
+  /** Start a voiceover, SFX, or music track - the result arrives on the callback URL */
+  generateAudio(
+    payload: AudioGenerationPayload,
+    apiKeys?: ApiKeys
+  ): Promise<WorkflowInvocationResult<AudioGenerationResponse>>;
+
+  /** Whether final assembly can run (e.g. its webhook is configured) */
+  isAssemblyAvailable(): Promise<boolean>;
+
+  /** Stitch shot videos into the final reel */
+  assembleReel(payload: ReelAssemblyPayload): Promise<ReelAssemblyResult>;
+}
@@ -0,0 +1,225 @@
+/**
+ * Reel Versions
+ *
+ * Every assembly creates a new `final_reels` row (v1, v2, ...) and never
+ * touches earlier ones. Each version stores a manifest of exactly what it
+ * rendered: the videos and audio sent to the assembly backend, plus the
+ * timeline edit behind them (scene order, shots, transitions, trim points),
+ * which is what versions are compared by and what restoring one re-applies.
+ * Animatic versions (see lib/animatic.ts) record their stills and settings
+ * in place of videos.
+ */
+
+import type { AssemblyBackend, AudioForAssembly, VideoForAssembly } from "@/lib/assembly";
+import { ANIMATIC_TEXT_LABELS, KEN_BURNS_LABELS, type AnimaticManifest } from "@/lib/animatic";
+import type { AudioTrackType } from "@/lib/audio";
+import { getFormatSpec, type ProjectFormat } from "@/lib/formats";
+import { DEFAULT_TRANSITION, formatTransition, type Transition } from "@/lib/transitions";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReelManifestShot {
+  id: string;
+  shotNumber: number;
+  /** Stored transition into the shot (null = the default) */
+  transition: Transition | null;
+  trimIn: number | null;
+  trimOut: number | null;
+  /** Nominal shot length in seconds (unset on versions from before captions) */
+  duration?: number;
+}
+
+export interface ReelManifestScene {
+  id: string;
+  sceneNumber: number;
+  /** Stored transition into the scene (null = the default) */
+  transition: Transition | null;
+  /** The scene's shots that were in the reel, in playback order */
+  shots: ReelManifestShot[];
+}
+
+export type ReelMode = "video" | "animatic";
+
+export interface ReelManifest {
+  backend: AssemblyBackend;
+  /** Unset on versions from before animatics (= video) */
+  mode?: ReelMode;
+  /** The project's format at assembly (unset on versions from before formats = 16:9) */
+  format?: ProjectFormat;
+  title: string;
+  description: string;
+  /** The timeline edit, in playback order */
+  scenes: ReelManifestScene[];
+  /**
+   * Exactly what the assembly backend received (one video per manifest
+   * shot; empty for animatics)
+   */
+  videos: VideoForAssembly[];
+  /** `startVideoIndex` counts animatic frames for animatics */
+  audio: AudioForAssembly[];
+  /** The stills an animatic rendered and how */
+  animatic?: AnimaticManifest;
+}
+
+const AUDIO_TRACK_LABELS: Record<AudioTrackType, string> = {
+  voiceover: "Voiceover",
+  sfx: "Sound effects",
+  music: "Music",
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * "v3" or "v3 – producer notes"
+ */
+export function formatReelVersion(reel: { version_number: number; label: string | null }): string {
+  return reel.label ? `v${reel.version_number} – ${reel.label}` : `v${reel.version_number}`;
+}
+
+/**
+ * Read a reel's stored manifest (null for reels assembled before versioning)
+ */
+export function toReelManifest(manifest: unknown): ReelManifest | null {
+  if (!manifest || typeof manifest !== "object" || !Array.isArray((manifest as ReelManifest).scenes)) {
+    return null;
+  }
+  return manifest as ReelManifest;
+}
+
+export function isAnimaticManifest(manifest: ReelManifest): boolean {
+  return manifest.mode === "animatic";
+}
+
+export function countManifestShots(manifest: ReelManifest): number {
+  return manifest.scenes.reduce((count, scene) => count + scene.shots.length, 0);
+}
+
+/**
+ * What changed from one version to another, as readable lines
+ * ("Scene 2 added", "Scene 3 shot 1 trimmed 0.5s–full → 1s–3s", ...)
+ */
+export function compareReelManifests(from: ReelManifest, to: ReelManifest): string[] {
+  const changes: string[] = [];
+  const fromScenes = new Map(from.scenes.map((scene) => [scene.id, scene]));
+  const toScenes = new Map(to.scenes.map((scene) => [scene.id, scene]));
+
+  for (const scene of from.scenes) {
+    if (!toScenes.has(scene.id)) changes.push(`Scene ${scene.sceneNumber} removed`);
+  }
+  for (const scene of to.scenes) {
+    if (!fromScenes.has(scene.id)) changes.push(`Scene ${scene.sceneNumber} added`);
+  }
+
+  // Relative order of the scenes in both versions
+  const fromOrder = from.scenes.filter((scene) => toScenes.has(scene.id)).map((scene) => scene.id);
+  const toOrder = to.scenes.filter((scene) => fromScenes.has(scene.id)).map((scene) => scene.id);
+  if (fromOrder.some((id, index) => toOrder[index] !== id)) {
+    changes.push("Scenes reordered");
+  }
+
+  const fromFormat = getFormatSpec(from.format).value;
+  const toFormat = getFormatSpec(to.format).value;
+  if (fromFormat !== toFormat) {
+    changes.push(`Format ${fromFormat} → ${toFormat}`);
+  }
+
+  if (isAnimaticManifest(from) !== isAnimaticManifest(to)) {
+    changes.push(isAnimaticManifest(to) ? "Rendered as an animatic" : "Rendered from video");
+  }
+
+  // Media is only comparable between versions of the same mode
+  const sameMode = isAnimaticManifest(from) === isAnimaticManifest(to);
+  const mediaName = isAnimaticManifest(to) ? "still" : "video";
+  const fromUrls = getShotMediaUrls(from);
+  const toUrls = getShotMediaUrls(to);
+
+  for (const scene of to.scenes) {
+    const previous = fromScenes.get(scene.id);
+    if (!previous) continue;
+    const name = `Scene ${scene.sceneNumber}`;
+
+    if (describeTransition(previous.transition) !== describeTransition(scene.transition)) {
+      changes.push(`${name} transition ${describeTransition(previous.transition)} → ${describeTransition(scene.transition)}`);
+    }
+
+    const previousShots = new Map(previous.shots.map((shot) => [shot.id, shot]));
+    const shotIds = new Set(scene.shots.map((shot) => shot.id));
+    for (const shot of previous.shots) {
+      if (!shotIds.has(shot.id)) changes.push(`${name} shot ${shot.shotNumber} removed`);
+    }
+
+    scene.shots.forEach((shot, index) => {
+      const before = previousShots.get(shot.id);
+      const shotName = `${name} shot ${shot.shotNumber}`;
+      if (!before) {
+        changes.push(`${shotName} added`);
+        return;
+      }
+      if (sameMode && fromUrls.get(shot.id) !== toUrls.get(shot.id)) {
+        changes.push(`${shotName} ${mediaName} replaced`);
+      }
+      // The transition into a scene's first shot is the scene's
+      if (index > 0 && describeTransition(before.transition) !== describeTransition(shot.transition)) {
+        changes.push(`${shotName} transition ${describeTransition(before.transition)} → ${describeTransition(shot.transition)}`);
+      }
+      if (describeTrim(before) !== describeTrim(shot)) {
+        changes.push(`${shotName} trimmed ${describeTrim(before)} → ${describeTrim(shot)}`);
+      }
+    });
+  }
+
+  const fromAudio = new Set(from.audio.map((track) => track.url));
+  const toAudio = new Set(to.audio.map((track) => track.url));
+  for (const track of from.audio) {
+    if (!toAudio.has(track.url)) changes.push(`${AUDIO_TRACK_LABELS[track.type]} track removed`);
+  }
+  for (const track of to.audio) {
+    if (!fromAudio.has(track.url)) changes.push(`${AUDIO_TRACK_LABELS[track.type]} track added`);
+  }
+
+  if (from.backend !== to.backend) {
+    changes.push(`Assembly engine ${from.backend} → ${to.backend}`);
+  }
+
+  if (from.animatic && to.animatic) {
+    const before = from.animatic.settings;
+    const after = to.animatic.settings;
+    if (before.motion !== after.motion) {
+      changes.push(`Motion ${KEN_BURNS_LABELS[before.motion]} → ${KEN_BURNS_LABELS[after.motion]}`);
+    }
+    if (before.zoom !== after.zoom) {
+      changes.push(`Zoom ${before.zoom}× → ${after.zoom}×`);
+    }
+    if (before.text !== after.text) {
+      changes.push(`On-screen text ${ANIMATIC_TEXT_LABELS[before.text]} → ${ANIMATIC_TEXT_LABELS[after.text]}`);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Each manifest shot's video URL (videos line up with the flattened shots),
+ * or its still for animatics
+ */
+function getShotMediaUrls(manifest: ReelManifest): Map<string, string | undefined> {
+  if (manifest.animatic) {
+    return new Map(
+      manifest.animatic.frames.flatMap((frame) => (frame.shotId ? [[frame.shotId, frame.imageUrl] as const] : []))
+    );
+  }
+  const shots = manifest.scenes.flatMap((scene) => scene.shots);
+  return new Map(shots.map((shot, index) => [shot.id, manifest.videos[index]?.url]));
+}
+
+function describeTransition(transition: Transition | null): string {
+  return formatTransition(transition ?? DEFAULT_TRANSITION);
+}
+
+function describeTrim(shot: ReelManifestShot): string {
+  return `${shot.trimIn ?? 0}s–${shot.trimOut === null ? "full" : `${shot.trimOut}s`}`;
+}
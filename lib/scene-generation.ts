@@ -0,0 +1,126 @@
+/**
+ * Scene Generation
+ *
+ * Second step of project creation: turns the screenplay plus the generated
+ * Bible into scene rows. Runs as a `scene_generation` background job
+ * (see lib/jobs) because the n8n workflow takes ~3 minutes.
+ */
+
+import { db } from "@/lib/drizzle/db";
+import { projects, scenes as scenesTable, type RawSceneData } from "@/lib/drizzle/schema";
+import { count, eq } from "drizzle-orm";
+import { generateScenes } from "@/lib/providers";
+import { mergeParsedScenes } from "@/lib/screenplay";
+import type { ApiKeys } from "@/lib/n8n/types";
+import { JobPermanentError, type SceneGenerationBibleData } from "@/lib/jobs/types";
+
+/**
+ * Generate scenes with n8n and store them for a project
+ *
+ * Idempotent: if a previous attempt already stored scenes, nothing is regenerated.
+ * Throws on failure so the job queue can retry.
+ *
+ * With `parsedScenes` (from a Fountain/FDX import) the stored scenes follow
+ * the parse exactly - same count, sluglines, and dialogue - and the LLM
+ * output only fills in the interpretive fields.
+ */
+export async function generateProjectScenes(
+  projectId: string,
+  scriptContent: string,
+  visualStyle: string,
+  bibleData: SceneGenerationBibleData,
+  apiKeys?: ApiKeys,
+  parsedScenes?: RawSceneData[]
+): Promise<{ sceneCount: number; skipped?: boolean }> {
+  const [project] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) {
+    throw new JobPermanentError("Project not found");
+  }
+
+  const [existing] = await db
+    .select({ count: count() })
+    .from(scenesTable)
+    .where(eq(scenesTable.project_id, projectId));
+
+  if (existing && existing.count > 0) {
+    console.log(`⏭️ [Scenes] Project ${projectId} already has ${existing.count} scenes - skipping generation`);
+    return { sceneCount: existing.count, skipped: true };
+  }
+
+  console.log("🎬 [Scenes] Starting scene generation for project:", projectId);
+
+  // Call the provider's scene generation (n8n workflow by default)
+  const sceneResult = await generateScenes({
+    script_content: scriptContent,
+    visual_style: visualStyle,
+    project_id: projectId,
+    bible_data: {
+      characters: bibleData.characters.map((c) => ({
+        name: c.name,
+        role: c.role || "supporting",
+        visual_dna: c.visual_dna_reference || c.visual_dna || "",
+      })),
+      locations: bibleData.locations.map((l) => ({
+        name: l.name,
+        visual_dna: l.visual_dna || "",
+      })),
+      props: bibleData.props.map((p) => ({
+        name: p.name,
+        importance: p.importance || "medium",
+        visual_dna: p.visual_dna || "",
+      })),
+    },
+    parsed_scenes: parsedScenes as unknown as Array<Record<string, unknown>> | undefined,
+  }, apiKeys);
+
+  const generatedScenes = sceneResult.data?.scenes as unknown as RawSceneData[] | undefined;
+  const scenes = parsedScenes && generatedScenes
+    ? mergeParsedScenes(parsedScenes, generatedScenes)
+    : generatedScenes;
+
+  console.log("🎬 [Scenes] Scene generation result:", {
+    success: sceneResult.success,
+    sceneCount: scenes?.length || 0,
+  });
+
+  if (!sceneResult.success || !scenes || scenes.length === 0) {
+    throw new Error(sceneResult.error || "Scene generation returned no scenes");
+  }
+
+  // Store scenes in database
+  console.log("💾 [Scenes] Storing", scenes.length, "scenes...");
+
+  const sceneValues = scenes.map((rawScene, index) => {
+    return {
+      project_id: projectId,
+      scene_number: rawScene.scene_number || index + 1,
+      slugline: rawScene.slugline || `Scene ${index + 1}`,
+      action_text: rawScene.action_description || rawScene.action_summary || "",
+      dialogue_text: rawScene.dialogue_snippet || null,
+      status: "pending" as const,
+      full_data: rawScene,
+    };
+  });
+
+  // Insert scenes and scene order together so a retry never sees a half-written project
+  await db.transaction(async (tx) => {
+    await tx.insert(scenesTable).values(sceneValues);
+
+    const sceneOrder = sceneValues.map((_, idx: number) => idx + 1);
+    await tx
+      .update(projects)
+      .set({
+        scene_order: sceneOrder,
+        // Keep at bible_review (scenes ready for when user navigates to Scenes tab)
+      })
+      .where(eq(projects.id, projectId));
+  });
+
+  console.log("✅ [Scenes] Scenes stored successfully:", scenes.length, "scenes");
+  return { sceneCount: scenes.length };
+}
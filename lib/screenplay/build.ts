@@ -0,0 +1,138 @@
+/**
+ * Shared screenplay assembly
+ *
+ * The Fountain and FDX readers both reduce a file to a flat list of
+ * elements (headings, action, cues, dialogue); this module turns that list
+ * into scenes with characters and dialogue.
+ */
+
+import {
+  ScreenplayParseError,
+  type ParsedScene,
+  type ParsedScreenplay,
+  type ScreenplayFormat,
+} from "./types";
+
+export type ScreenplayElement =
+  | { type: "heading"; text: string }
+  | { type: "action"; text: string }
+  | { type: "character"; text: string }
+  | { type: "parenthetical"; text: string }
+  | { type: "dialogue"; text: string };
+
+const SLUGLINE_PREFIX = /^(INT\.?\s*\/\s*EXT|EXT\.?\s*\/\s*INT|I\s*\/\s*E|INT|EXT|EST)\b\.?\s*/i;
+
+/** Screenplay keywords that start a scene heading (Fountain auto-detection) */
+export const SCENE_HEADING_PATTERN = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+
+/**
+ * Build scenes from a flat element list
+ * @throws ScreenplayParseError when there are no scene headings
+ */
+export function buildScreenplay(
+  format: ScreenplayFormat,
+  title: string | null,
+  elements: ScreenplayElement[]
+): ParsedScreenplay {
+  const scenes: ParsedScene[] = [];
+  const lineCounts = new Map<string, number>();
+
+  let current: ParsedScene | null = null;
+  let actionParts: string[] = [];
+  let speaker: string | null = null;
+  let parenthetical: string | null = null;
+
+  const closeScene = () => {
+    if (current) current.action = actionParts.join("\n\n");
+    actionParts = [];
+  };
+
+  for (const element of elements) {
+    if (element.type === "heading") {
+      closeScene();
+      current = parseSlugline(element.text, scenes.length + 1);
+      scenes.push(current);
+      speaker = null;
+      continue;
+    }
+
+    // Anything before the first heading (FADE IN:, cold titles) is skipped
+    if (!current) continue;
+
+    switch (element.type) {
+      case "action":
+        speaker = null;
+        actionParts.push(element.text);
+        break;
+      case "character":
+        speaker = formatCharacterName(element.text);
+        parenthetical = null;
+        if (!speaker) break;
+        if (!current.characters.includes(speaker)) current.characters.push(speaker);
+        break;
+      case "parenthetical":
+        parenthetical = element.text;
+        break;
+      case "dialogue":
+        if (!speaker) break;
+        current.dialogue.push({ character: speaker, parenthetical, text: element.text });
+        lineCounts.set(speaker, (lineCounts.get(speaker) ?? 0) + 1);
+        parenthetical = null;
+        break;
+    }
+  }
+
+  closeScene();
+
+  if (scenes.length === 0) {
+    throw new ScreenplayParseError("No scene headings (INT./EXT.) found in the screenplay");
+  }
+
+  const characters = [...lineCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([name]) => name);
+
+  return { format, title, scenes, characters };
+}
+
+/**
+ * Split a slugline into INT/EXT, location, and time of day
+ * "INT. HOUSE - KITCHEN - NIGHT" → INT, "House - Kitchen", "NIGHT"
+ */
+export function parseSlugline(slugline: string, sceneNumber: number): ParsedScene {
+  const prefixMatch = slugline.match(SLUGLINE_PREFIX);
+  const prefix = prefixMatch ? prefixMatch[1].toUpperCase() : "";
+  const rest = prefixMatch ? slugline.slice(prefixMatch[0].length) : slugline;
+  const parts = rest.split(/\s+[-–—]\s+/).map((part) => part.trim()).filter(Boolean);
+
+  const timeOfDay = parts.length > 1 ? parts.pop()!.toUpperCase() : "DAY";
+
+  return {
+    scene_number: sceneNumber,
+    slugline,
+    // INT./EXT. and I/E scenes are treated as interiors
+    interior_exterior: prefix.startsWith("EXT") || prefix === "EST" ? "EXT" : "INT",
+    location: titleCase(parts.join(" - ") || slugline),
+    time_of_day: timeOfDay,
+    action: "",
+    characters: [],
+    dialogue: [],
+  };
+}
+
+/**
+ * Character cue → display name: drops extensions like (V.O.) / (CONT'D)
+ * and dual-dialogue markers, then title-cases ("DETECTIVE GRAY" → "Detective Gray")
+ */
+export function formatCharacterName(cue: string): string {
+  return titleCase(
+    cue
+      .replace(/\(.*?\)/g, "")
+      .replace(/\^$/, "")
+      .trim()
+  );
+}
+
+export function titleCase(value: string): string {
+  return value.toLowerCase().replace(/(^|[^a-z'])([a-z])/g, (_, before: string, char: string) => before + char.toUpperCase());
+}
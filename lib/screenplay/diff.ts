@@ -0,0 +1,296 @@
+/**
+ * Draft diffing
+ *
+ * Compares a re-imported screenplay draft against a project's current
+ * scenes. Scenes are matched by slugline first (in script order, so repeated
+ * sluglines pair up correctly), then by text similarity for scenes whose
+ * slugline was rewritten. Anything left over is added or removed.
+ *
+ * Scenes imported from Fountain/FDX carry a source fingerprint and compare
+ * exactly. Older scenes (PDF or pasted-text imports) only have the LLM's
+ * rewording of the script, which never matches the draft word for word, so
+ * they compare on slugline and characters only. Re-importing backfills the
+ * draft's fingerprint and dialogue on them.
+ */
+
+import type { RawSceneData, Scene, SceneData } from "@/lib/drizzle/schema";
+import { parseSlugline } from "./build";
+import { normalizeSlugline } from "./scene-data";
+import type { ParsedScreenplay } from "./types";
+
+export type SceneChangeType = "added" | "removed" | "changed" | "unchanged";
+
+export type SceneChangeField = "slugline" | "action" | "dialogue" | "characters";
+
+export type ExistingScene = Pick<
+  Scene,
+  "id" | "scene_number" | "slugline" | "action_text" | "full_data" | "raw_scene_data"
+>;
+
+export interface SceneDiffEntry {
+  type: SceneChangeType;
+  /** Current scene row (null for added scenes) */
+  existingSceneId: string | null;
+  previousSceneNumber: number | null;
+  /** Position in the new draft (null for removed scenes) */
+  sceneNumber: number | null;
+  slugline: string;
+  previousSlugline: string | null;
+  changes: SceneChangeField[];
+  /** Scene data from the new draft (null for removed scenes) */
+  scene: RawSceneData | null;
+}
+
+export interface ScreenplayDiff {
+  /** New draft order, with removed scenes after the scene they used to follow */
+  entries: SceneDiffEntry[];
+  counts: Record<SceneChangeType, number>;
+  /** Speaking characters not in the Bible */
+  newCharacters: string[];
+  /** Locations of added/changed scenes that neither the Bible nor any current scene uses */
+  newLocations: Array<{ name: string; type: "INT" | "EXT" }>;
+}
+
+/** Word overlap above which an unmatched pair counts as the same (rewritten) scene */
+const REWRITE_SIMILARITY = 0.5;
+
+/**
+ * Diff a new draft's scenes against the current scenes
+ *
+ * @param existing - Current scene rows
+ * @param incoming - Scene data from the new draft (toRawSceneData)
+ * @param screenplay - The parsed draft (for speaking characters)
+ * @param bible - Names already in the project Bible
+ */
+export function diffScreenplayScenes(
+  existing: ExistingScene[],
+  incoming: RawSceneData[],
+  screenplay: ParsedScreenplay,
+  bible: { characters: string[]; locations: string[] }
+): ScreenplayDiff {
+  const current = [...existing].sort((a, b) => a.scene_number - b.scene_number);
+  const matches = new Map<number, ExistingScene>(); // incoming index → existing scene
+  const unmatched = new Set(current);
+
+  // Pass 1: same slugline - prefer the closest content, then the closest position
+  incoming.forEach((scene, index) => {
+    const key = normalizeSlugline(scene.slugline);
+    let best: { scene: ExistingScene; score: number } | null = null;
+
+    for (const candidate of unmatched) {
+      if (normalizeSlugline(candidate.slugline) !== key) continue;
+      const score = contentSimilarity(candidate, scene) - Math.abs(candidate.scene_number - (index + 1)) * 0.001;
+      if (!best || score > best.score) best = { scene: candidate, score };
+    }
+
+    if (best) {
+      matches.set(index, best.scene);
+      unmatched.delete(best.scene);
+    }
+  });
+
+  // Pass 2: rewritten sluglines - pair the most similar leftovers
+  incoming.forEach((scene, index) => {
+    if (matches.has(index)) return;
+    let best: { scene: ExistingScene; score: number } | null = null;
+
+    for (const candidate of unmatched) {
+      const score = contentSimilarity(candidate, scene);
+      if (score >= REWRITE_SIMILARITY && (!best || score > best.score)) best = { scene: candidate, score };
+    }
+
+    if (best) {
+      matches.set(index, best.scene);
+      unmatched.delete(best.scene);
+    }
+  });
+
+  const entries: SceneDiffEntry[] = incoming.map((scene, index) => {
+    const match = matches.get(index);
+    if (!match) {
+      return {
+        type: "added",
+        existingSceneId: null,
+        previousSceneNumber: null,
+        sceneNumber: index + 1,
+        slugline: scene.slugline,
+        previousSlugline: null,
+        changes: [],
+        scene,
+      };
+    }
+
+    const changes = compareScene(match, scene);
+    return {
+      type: changes.length > 0 ? "changed" : "unchanged",
+      existingSceneId: match.id,
+      previousSceneNumber: match.scene_number,
+      sceneNumber: index + 1,
+      slugline: scene.slugline,
+      previousSlugline: match.slugline,
+      changes,
+      scene,
+    };
+  });
+
+  // Removed scenes go after the last kept scene that preceded them
+  for (const removed of unmatched) {
+    const removedEntry: SceneDiffEntry = {
+      type: "removed",
+      existingSceneId: removed.id,
+      previousSceneNumber: removed.scene_number,
+      sceneNumber: null,
+      slugline: removed.slugline,
+      previousSlugline: removed.slugline,
+      changes: [],
+      scene: null,
+    };
+    let insertAt = 0;
+    entries.forEach((entry, position) => {
+      if (entry.previousSceneNumber !== null && entry.previousSceneNumber < removed.scene_number) {
+        insertAt = position + 1;
+      }
+    });
+    entries.splice(insertAt, 0, removedEntry);
+  }
+
+  const counts: Record<SceneChangeType, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  for (const entry of entries) counts[entry.type]++;
+
+  return {
+    entries,
+    counts,
+    newCharacters: findNewNames(screenplay.characters, bible.characters),
+    newLocations: findNewLocations(entries, current, bible.locations),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function sceneData(scene: ExistingScene): RawSceneData | SceneData | null {
+  return scene.full_data ?? scene.raw_scene_data ?? null;
+}
+
+function compareScene(existing: ExistingScene, incoming: RawSceneData): SceneChangeField[] {
+  const data = sceneData(existing);
+  const fingerprint = data?.source_fingerprint;
+
+  // The fingerprint covers the slugline, action, and dialogue
+  if (fingerprint && fingerprint === incoming.source_fingerprint) return [];
+
+  const changes: SceneChangeField[] = [];
+
+  if (normalizeSlugline(existing.slugline) !== normalizeSlugline(incoming.slugline)) {
+    changes.push("slugline");
+  }
+
+  // Draft scenes list their speakers only - anyone else the LLM placed in the scene stays
+  const existingNames = characterNames(data?.characters_present);
+  const incomingNames = characterNames(incoming.characters_present);
+  const existingSpeakers = speakerNames(existingNames, data?.audio_requirements?.dialogue_transcript);
+  if (
+    [...incomingNames].some((name) => !existingNames.has(name)) ||
+    [...existingSpeakers].some((name) => !incomingNames.has(name))
+  ) {
+    changes.push("characters");
+  }
+
+  // Without a fingerprint the stored text is the LLM's, not the script's
+  if (!fingerprint || !incoming.source_fingerprint) return changes;
+
+  const existingTranscript = data?.audio_requirements?.dialogue_transcript;
+  if (existingTranscript !== undefined || incoming.audio_requirements?.dialogue_transcript !== undefined) {
+    if (normalizeText(existingTranscript ?? "") !== normalizeText(incoming.audio_requirements?.dialogue_transcript ?? "")) {
+      changes.push("dialogue");
+    }
+  }
+
+  if (!changes.includes("slugline") && !changes.includes("dialogue")) {
+    changes.push("action");
+  }
+
+  return changes;
+}
+
+/**
+ * Word overlap (0-1) between a current scene and a draft scene
+ */
+function contentSimilarity(existing: ExistingScene, incoming: RawSceneData): number {
+  const fingerprint = sceneData(existing)?.source_fingerprint;
+  if (fingerprint && fingerprint === incoming.source_fingerprint) return 1;
+
+  const transcript = sceneData(existing)?.audio_requirements?.dialogue_transcript ?? "";
+  return wordSimilarity(
+    `${existing.action_text} ${transcript}`,
+    `${incoming.action_description ?? ""} ${incoming.audio_requirements?.dialogue_transcript ?? ""}`
+  );
+}
+
+/**
+ * Dice coefficient over word sets
+ */
+function wordSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normalizeText(a).split(" ").filter(Boolean));
+  const wordsB = new Set(normalizeText(b).split(" ").filter(Boolean));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+
+  let shared = 0;
+  for (const word of wordsA) if (wordsB.has(word)) shared++;
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9']+/g, " ").trim();
+}
+
+function characterNames(characters: Array<string | { name?: string }> | undefined): Set<string> {
+  return new Set(
+    (characters ?? [])
+      .map((character) => (typeof character === "string" ? character : character.name ?? ""))
+      .map((name) => name.toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Names that have a line in a dialogue transcript ("NAME (parenthetical): text")
+ */
+function speakerNames(names: Set<string>, transcript: string | undefined): Set<string> {
+  const speakers = new Set<string>();
+  for (const line of (transcript ?? "").toLowerCase().split("\n")) {
+    const label = line.split(":")[0].replace(/\(.*\)/, "").trim();
+    if (names.has(label)) speakers.add(label);
+  }
+  return speakers;
+}
+
+function findNewNames(names: string[], known: string[]): string[] {
+  const existing = new Set(known.map((name) => name.toLowerCase()));
+  return names.filter((name) => !existing.has(name.toLowerCase()));
+}
+
+function findNewLocations(
+  entries: SceneDiffEntry[],
+  current: ExistingScene[],
+  bibleLocations: string[]
+): Array<{ name: string; type: "INT" | "EXT" }> {
+  const known = new Set(bibleLocations.map((name) => name.toLowerCase()));
+  for (const scene of current) {
+    known.add(parseSlugline(scene.slugline, scene.scene_number).location.toLowerCase());
+    const location = sceneData(scene)?.location;
+    if (location) known.add(location.toLowerCase());
+  }
+
+  const found = new Map<string, { name: string; type: "INT" | "EXT" }>();
+  for (const entry of entries) {
+    if ((entry.type !== "added" && entry.type !== "changed") || !entry.scene?.location) continue;
+    const key = entry.scene.location.toLowerCase();
+    if (!known.has(key) && !found.has(key)) {
+      found.set(key, { name: entry.scene.location, type: entry.scene.interior_exterior });
+    }
+  }
+
+  return [...found.values()];
+}
@@ -0,0 +1,92 @@
+/**
+ * Final Draft (.fdx) screenplay reader
+ *
+ * FDX is XML: the script body is a list of
+ * `<Paragraph Type="Scene Heading|Action|Character|Parenthetical|Dialogue|...">`
+ * elements whose text is split across `<Text>` runs. Only the main
+ * `<Content>` block is read - title page and header/footer paragraphs are
+ * skipped. A small regex reader is enough for this flat structure.
+ */
+
+import { buildScreenplay, type ScreenplayElement } from "./build";
+import { ScreenplayParseError, type ParsedScreenplay } from "./types";
+
+const PARAGRAPH_TYPES: Record<string, ScreenplayElement["type"]> = {
+  "scene heading": "heading",
+  action: "action",
+  general: "action",
+  shot: "action",
+  character: "character",
+  parenthetical: "parenthetical",
+  dialogue: "dialogue",
+};
+
+/**
+ * Parse a Final Draft XML screenplay
+ * @throws ScreenplayParseError for non-FDX input or a script without scene headings
+ */
+export function parseFdx(source: string): ParsedScreenplay {
+  if (!/<FinalDraft[\s>]/.test(source)) {
+    throw new ScreenplayParseError("Not a Final Draft (.fdx) file");
+  }
+
+  const title = readTitle(source);
+
+  const withoutExtras = source
+    .replace(/<TitlePage[\s\S]*?<\/TitlePage>/g, "")
+    .replace(/<HeaderAndFooter[\s\S]*?<\/HeaderAndFooter>/g, "");
+  const content = withoutExtras.match(/<Content>([\s\S]*?)<\/Content>/)?.[1];
+
+  if (!content) {
+    throw new ScreenplayParseError("Final Draft file has no script content");
+  }
+
+  const elements: ScreenplayElement[] = [];
+
+  for (const [, attributes, inner] of content.matchAll(/<Paragraph\b([^>]*)>([\s\S]*?)<\/Paragraph>/g)) {
+    const paragraphType = attributes.match(/\bType="([^"]*)"/)?.[1]?.toLowerCase() ?? "";
+    const type = PARAGRAPH_TYPES[paragraphType];
+    if (!type) continue; // Transitions, cast lists, ...
+
+    const text = readParagraphText(inner);
+    if (text) elements.push({ type, text });
+  }
+
+  return buildScreenplay("fdx", title, elements);
+}
+
+/**
+ * Join a paragraph's <Text> runs into plain text
+ */
+function readParagraphText(paragraph: string): string {
+  const runs = [...paragraph.matchAll(/<Text\b[^>]*>([\s\S]*?)<\/Text>/g)].map(([, run]) => run);
+  return decodeEntities(runs.join("")).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Title from the title page, if the writer filled it in
+ * (first centered paragraph, which is where Final Draft puts it)
+ */
+function readTitle(source: string): string | null {
+  const titlePage = source.match(/<TitlePage[\s\S]*?<\/TitlePage>/)?.[0];
+  if (!titlePage) return null;
+
+  for (const [, attributes, inner] of titlePage.matchAll(/<Paragraph\b([^>]*)>([\s\S]*?)<\/Paragraph>/g)) {
+    if (!/Alignment="Center"/.test(attributes)) continue;
+    const text = readParagraphText(inner);
+    if (text) return text;
+  }
+
+  return null;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
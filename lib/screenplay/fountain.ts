@@ -0,0 +1,128 @@
+/**
+ * Fountain screenplay reader
+ *
+ * Covers the parts of the Fountain spec (https://fountain.io/syntax) that
+ * matter for scene breakdown: title page, scene headings (detected or
+ * forced with "."), character cues (detected or forced with "@"),
+ * parentheticals, dialogue, transitions, and action. Notes, boneyard,
+ * sections, synopses, and page breaks are ignored.
+ *
+ * Plain-text screenplays written in standard format read as Fountain too.
+ */
+
+import { buildScreenplay, SCENE_HEADING_PATTERN, type ScreenplayElement } from "./build";
+import type { ParsedScreenplay } from "./types";
+
+/**
+ * Parse a Fountain (or plain-text) screenplay
+ * @throws ScreenplayParseError when there are no scene headings
+ */
+export function parseFountain(source: string): ParsedScreenplay {
+  const text = source
+    .replace(/\r\n?/g, "\n")
+    .replace(/\/\*[\s\S]*?\*\//g, "") // boneyard
+    .replace(/\[\[[\s\S]*?\]\]/g, ""); // notes
+
+  const { title, body } = splitTitlePage(text);
+  const lines = body.split("\n");
+  const elements: ScreenplayElement[] = [];
+
+  let inDialogue = false;
+  let actionLines: string[] = [];
+
+  const flushAction = () => {
+    if (actionLines.length > 0) {
+      elements.push({ type: "action", text: stripEmphasis(actionLines.join("\n")) });
+      actionLines = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const previousBlank = i === 0 || lines[i - 1].trim() === "";
+    const nextBlank = i + 1 >= lines.length || lines[i + 1].trim() === "";
+
+    if (!line) {
+      flushAction();
+      inDialogue = false;
+      continue;
+    }
+
+    if (inDialogue) {
+      const isParenthetical = line.startsWith("(") && line.endsWith(")");
+      elements.push({ type: isParenthetical ? "parenthetical" : "dialogue", text: stripEmphasis(line) });
+      continue;
+    }
+
+    // Page breaks, sections, synopses
+    if (/^={3,}$/.test(line) || line.startsWith("#") || (line.startsWith("=") && !line.startsWith("=="))) {
+      continue;
+    }
+
+    // Scene heading: forced with a single "." or starting with INT/EXT/...
+    if (previousBlank && ((line.startsWith(".") && !line.startsWith("..")) || SCENE_HEADING_PATTERN.test(line))) {
+      flushAction();
+      const heading = line.replace(/^\./, "").replace(/\s*#[^#]+#\s*$/, "").trim();
+      elements.push({ type: "heading", text: heading });
+      continue;
+    }
+
+    // Transitions: forced ">" (but not centered "> <") or uppercase "... TO:"
+    if ((line.startsWith(">") && !line.endsWith("<")) || (previousBlank && nextBlank && isUppercase(line) && line.endsWith("TO:"))) {
+      flushAction();
+      continue;
+    }
+
+    // Character cue: forced "@", or an uppercase line followed by dialogue
+    const forcedCharacter = line.startsWith("@");
+    if (
+      forcedCharacter ||
+      (previousBlank && !nextBlank && !line.startsWith("!") && isUppercase(line.replace(/\(.*?\)/g, "")))
+    ) {
+      flushAction();
+      elements.push({ type: "character", text: line.replace(/^@/, "") });
+      inDialogue = true;
+      continue;
+    }
+
+    // Action (forced "!", lyrics "~", centered "> <")
+    actionLines.push(line.replace(/^[!~]/, "").replace(/^>\s*(.*?)\s*<$/, "$1"));
+  }
+
+  flushAction();
+
+  return buildScreenplay("fountain", title, elements);
+}
+
+/**
+ * Separate the optional "Key: value" title page from the script body
+ */
+function splitTitlePage(text: string): { title: string | null; body: string } {
+  const trimmed = text.replace(/^\s+/, "");
+  if (!/^[A-Za-z][A-Za-z ]*:/.test(trimmed) || SCENE_HEADING_PATTERN.test(trimmed)) {
+    return { title: null, body: text };
+  }
+
+  const end = trimmed.search(/\n\s*\n/);
+  const titlePage = end === -1 ? trimmed : trimmed.slice(0, end);
+  const body = end === -1 ? "" : trimmed.slice(end);
+
+  // The title may be inline ("Title: Foo") or on indented lines below the key
+  const match = titlePage.match(/^title:[ \t]*(.*(?:\n[ \t]+.*)*)/im);
+  const title = match
+    ? stripEmphasis(match[1].split("\n").map((part) => part.trim()).filter(Boolean).join(" ")) || null
+    : null;
+
+  return { title, body };
+}
+
+function isUppercase(value: string): boolean {
+  return /[A-Z]/.test(value) && value === value.toUpperCase();
+}
+
+/**
+ * Remove Fountain emphasis markers (*italic*, **bold**, _underline_)
+ */
+function stripEmphasis(value: string): string {
+  return value.replace(/(\*{1,3}|_)(?=\S)([\s\S]*?\S)\1/g, "$2");
+}
@@ -0,0 +1,63 @@
+/**
+ * Local Screenplay Import
+ *
+ * Deterministic parsing of Fountain (.fountain) and Final Draft (.fdx)
+ * screenplays. The parse prefills scene data and character names before the
+ * LLM pass, so the scene count and dialogue are exact. No server-only
+ * imports - the new-project page uses it for a preview.
+ *
+ * @example
+ * ```typescript
+ * import { detectScreenplayFormat, parseScreenplayFile } from "@/lib/screenplay";
+ *
+ * const format = detectScreenplayFormat(file.name); // "fountain" | "fdx" | null
+ * const screenplay = parseScreenplayFile(format, await file.text());
+ * console.log(screenplay.scenes.length, screenplay.characters);
+ * ```
+ */
+
+import { parseFountain } from "./fountain";
+import { parseFdx } from "./fdx";
+import type { ParsedScreenplay, ScreenplayFormat } from "./types";
+
+/** File extensions accepted for local parsing */
+export const SCREENPLAY_FILE_EXTENSIONS: Record<string, ScreenplayFormat> = {
+  ".fountain": "fountain",
+  ".spmd": "fountain",
+  ".fdx": "fdx",
+};
+
+/**
+ * Detect the screenplay format from a file name
+ */
+export function detectScreenplayFormat(fileName: string): ScreenplayFormat | null {
+  const extension = fileName.toLowerCase().match(/\.[a-z]+$/)?.[0] ?? "";
+  return SCREENPLAY_FILE_EXTENSIONS[extension] ?? null;
+}
+
+/**
+ * Parse screenplay file contents
+ * @throws ScreenplayParseError when the file can't be read as a screenplay
+ */
+export function parseScreenplayFile(format: ScreenplayFormat, content: string): ParsedScreenplay {
+  return format === "fdx" ? parseFdx(content) : parseFountain(content);
+}
+
+export { parseFountain } from "./fountain";
+export { parseFdx } from "./fdx";
+export { toRawSceneData, toScreenplayText, mergeParsedScenes, findMissingCharacters } from "./scene-data";
+export { diffScreenplayScenes } from "./diff";
+export type {
+  ScreenplayDiff,
+  SceneDiffEntry,
+  SceneChangeType,
+  SceneChangeField,
+  ExistingScene,
+} from "./diff";
+export { ScreenplayParseError } from "./types";
+export type {
+  ScreenplayFormat,
+  ParsedScreenplay,
+  ParsedScene,
+  ParsedDialogueLine,
+} from "./types";
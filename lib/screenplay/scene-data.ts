@@ -0,0 +1,152 @@
+/**
+ * Bridges between locally parsed screenplays and the LLM pipeline
+ *
+ * The local parse is authoritative for what the screenplay literally says
+ * (scene count, sluglines, INT/EXT, time of day, speakers, dialogue); the
+ * LLM adds everything interpretive (visual mood, composition, audio, ...).
+ */
+
+import type { RawSceneData } from "@/lib/drizzle/schema";
+import type { ParsedScene, ParsedScreenplay } from "./types";
+
+/**
+ * Prefill RawSceneData from a parsed screenplay
+ */
+export function toRawSceneData(screenplay: ParsedScreenplay): RawSceneData[] {
+  return screenplay.scenes.map((scene) => ({
+    scene_number: scene.scene_number,
+    slugline: scene.slugline,
+    time_of_day: scene.time_of_day,
+    interior_exterior: scene.interior_exterior,
+    location: scene.location,
+    characters_present: scene.characters,
+    action_description: scene.action,
+    dialogue_snippet: scene.dialogue[0]?.text,
+    audio_requirements: scene.dialogue.length > 0
+      ? { dialogue_transcript: formatTranscript(scene) }
+      : undefined,
+    source_fingerprint: sceneFingerprint(scene),
+  }));
+}
+
+/**
+ * Stable hash of what a scene literally says (slugline, action, dialogue)
+ * Whitespace and case are ignored, so reflowed text keeps its fingerprint.
+ */
+export function sceneFingerprint(scene: ParsedScene): string {
+  const text = [
+    scene.slugline,
+    scene.action,
+    ...scene.dialogue.map((line) => `${line.character}: ${line.parenthetical ?? ""} ${line.text}`),
+  ]
+    .join("\n")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+  // FNV-1a (32-bit) - no crypto import, this module also runs in the browser
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Render a parsed screenplay as standard plain-text screenplay format
+ * (sent to the LLM instead of raw FDX XML)
+ */
+export function toScreenplayText(screenplay: ParsedScreenplay): string {
+  const blocks: string[] = [];
+  if (screenplay.title) blocks.push(`Title: ${screenplay.title}`);
+
+  for (const scene of screenplay.scenes) {
+    blocks.push(scene.slugline.toUpperCase());
+    if (scene.action) blocks.push(scene.action);
+    for (const line of scene.dialogue) {
+      blocks.push(
+        [line.character.toUpperCase(), line.parenthetical, line.text].filter(Boolean).join("\n")
+      );
+    }
+  }
+
+  return blocks.join("\n\n");
+}
+
+/**
+ * Overlay the parsed facts onto LLM-generated scenes
+ *
+ * Scenes are matched by slugline (falling back to position). The result
+ * always has exactly the parsed scene count: invented scenes are dropped
+ * and scenes the LLM skipped are kept with their parsed data only.
+ */
+export function mergeParsedScenes(
+  parsedScenes: RawSceneData[],
+  generatedScenes: RawSceneData[]
+): RawSceneData[] {
+  const unmatched = [...generatedScenes];
+
+  return parsedScenes.map((parsed, index) => {
+    const key = normalizeSlugline(parsed.slugline);
+    let matchIndex = unmatched.findIndex((scene) => normalizeSlugline(scene.slugline ?? "") === key);
+    if (matchIndex === -1 && generatedScenes.length === parsedScenes.length) {
+      matchIndex = unmatched.indexOf(generatedScenes[index]);
+    }
+
+    const generated = matchIndex === -1 ? undefined : unmatched.splice(matchIndex, 1)[0];
+    if (!generated) return parsed;
+
+    return {
+      ...generated,
+      scene_number: parsed.scene_number,
+      slugline: parsed.slugline,
+      time_of_day: parsed.time_of_day,
+      interior_exterior: parsed.interior_exterior,
+      // Keep the LLM's location (it matches Bible location names)
+      location: generated.location || parsed.location,
+      characters_present: mergeNames(generated.characters_present, parsed.characters_present),
+      action_description: generated.action_description || parsed.action_description,
+      dialogue_snippet: parsed.dialogue_snippet,
+      audio_requirements: {
+        ...generated.audio_requirements,
+        dialogue_transcript: parsed.audio_requirements?.dialogue_transcript,
+      },
+      source_fingerprint: parsed.source_fingerprint,
+    };
+  });
+}
+
+/**
+ * Speaking characters missing from a list of names (case-insensitive)
+ */
+export function findMissingCharacters(screenplay: ParsedScreenplay, existingNames: string[]): string[] {
+  const existing = new Set(existingNames.map((name) => name.toLowerCase()));
+  return screenplay.characters.filter((name) => !existing.has(name.toLowerCase()));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatTranscript(scene: ParsedScene): string {
+  return scene.dialogue
+    .map((line) => `${line.character.toUpperCase()}${line.parenthetical ? ` ${line.parenthetical}` : ""}: ${line.text}`)
+    .join("\n");
+}
+
+export function normalizeSlugline(slugline: string): string {
+  return slugline.toUpperCase().replace(/[^A-Z0-9]+/g, " ").trim();
+}
+
+function mergeNames(primary: string[] | undefined, secondary: string[] | undefined): string[] {
+  const names = [...(primary ?? [])];
+  const seen = new Set(names.map((name) => name.toLowerCase()));
+  for (const name of secondary ?? []) {
+    if (!seen.has(name.toLowerCase())) {
+      names.push(name);
+      seen.add(name.toLowerCase());
+    }
+  }
+  return names;
+}
@@ -0,0 +1,45 @@
+/**
+ * Type definitions for local screenplay parsing
+ * Pure data - safe to import from client components
+ */
+
+export type ScreenplayFormat = "fountain" | "fdx";
+
+export interface ParsedDialogueLine {
+  /** Speaker as written in the cue, without extensions like (V.O.) */
+  character: string;
+  parenthetical: string | null;
+  text: string;
+}
+
+export interface ParsedScene {
+  /** 1-based, in screenplay order */
+  scene_number: number;
+  slugline: string;
+  interior_exterior: "INT" | "EXT";
+  location: string;
+  time_of_day: string;
+  /** Action paragraphs joined with blank lines */
+  action: string;
+  /** Speaking characters in order of first appearance */
+  characters: string[];
+  dialogue: ParsedDialogueLine[];
+}
+
+export interface ParsedScreenplay {
+  format: ScreenplayFormat;
+  title: string | null;
+  scenes: ParsedScene[];
+  /** Every speaking character, most lines first */
+  characters: string[];
+}
+
+/**
+ * Thrown when a file cannot be read as a screenplay
+ */
+export class ScreenplayParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScreenplayParseError";
+  }
+}
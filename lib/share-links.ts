@@ -0,0 +1,303 @@
+/**
+ * Share Links
+ *
+ * Public, account-free review links for a project's reel. A link resolves
+ * to its reel version (or the latest ready version when it has none) plus a
+ * scene-by-scene storyboard (approved scene images and ready shot videos in
+ * timeline order).
+ *
+ * A link is usable while it is active and not past `expires_at`. Revoking
+ * deactivates it rather than deleting it, so the view count is kept.
+ */
+
+import { randomBytes } from "crypto";
+import { db } from "@/lib/drizzle/db";
+import {
+  final_reels,
+  projects,
+  scene_shots,
+  scenes,
+  share_links,
+  type ShareLink,
+} from "@/lib/drizzle/schema";
+import { and, desc, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import { env } from "@/lib/env";
+import { formatReelVersion } from "@/lib/reel-versions";
+import { toCaptionCues, type CaptionCue } from "@/lib/captions";
+import { getVideoPosterUrl } from "@/lib/video-media";
+import { getFormatSpec, type ProjectFormat } from "@/lib/formats";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ShareLinkSummary extends ShareLink {
+  url: string;
+  isExpired: boolean;
+}
+
+export interface SharedStoryboardScene {
+  id: string;
+  sceneNumber: number;
+  slugline: string;
+  actionText: string;
+  imageUrl: string | null;
+  videos: SharedShotVideo[];
+}
+
+export interface SharedShotVideo {
+  url: string;
+  /** Processed poster frame (see lib/video-media), else null */
+  posterUrl: string | null;
+}
+
+export interface SharedReel {
+  link: ShareLink;
+  projectTitle: string;
+  /** The project's format - the reel and storyboard are framed in it */
+  format: ProjectFormat;
+  reel: {
+    /** "v3 – producer notes" */
+    version: string;
+    videoUrl: string | null;
+    posterUrl: string | null;
+    youtubeId: string | null;
+    durationSeconds: number | null;
+    /** Captions are served as WebVTT by /api/share/<id>/captions */
+    hasCaptions: boolean;
+  } | null;
+  storyboard: SharedStoryboardScene[];
+}
+
+export type ShareLinkLookup =
+  | { status: "ok"; link: ShareLink }
+  | { status: "not_found" }
+  | { status: "revoked"; link: ShareLink }
+  | { status: "expired"; link: ShareLink };
+
+// ============================================================================
+// Link Management
+// ============================================================================
+
+/**
+ * Create a share link
+ * @param expiresInDays - null for a link that never expires
+ * @param reelId - The reel version to show (null = always the latest)
+ */
+export async function createShareLinkRecord(
+  projectId: string,
+  title: string,
+  expiresInDays: number | null,
+  reelId: string | null = null
+): Promise<ShareLink> {
+  const expiresAt = expiresInDays
+    ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const [link] = await db
+    .insert(share_links)
+    .values({
+      project_id: projectId,
+      reel_id: reelId,
+      share_id: generateShareId(),
+      title,
+      expires_at: expiresAt,
+    })
+    .returning();
+
+  return link;
+}
+
+/**
+ * All share links of a project, newest first
+ */
+export async function listProjectShareLinks(projectId: string): Promise<ShareLinkSummary[]> {
+  const links = await db
+    .select()
+    .from(share_links)
+    .where(eq(share_links.project_id, projectId))
+    .orderBy(desc(share_links.created_at));
+
+  return links.map(toShareLinkSummary);
+}
+
+export function toShareLinkSummary(link: ShareLink): ShareLinkSummary {
+  return {
+    ...link,
+    url: `${env.NEXT_PUBLIC_APP_URL}/share/${link.share_id}`,
+    isExpired: isShareLinkExpired(link),
+  };
+}
+
+export function isShareLinkExpired(link: Pick<ShareLink, "expires_at">): boolean {
+  return link.expires_at !== null && link.expires_at.getTime() <= Date.now();
+}
+
+// ============================================================================
+// Public Access
+// ============================================================================
+
+/**
+ * Resolve a public share id, reporting why an unusable link can't be opened
+ */
+export async function lookupShareLink(shareId: string): Promise<ShareLinkLookup> {
+  const [link] = await db
+    .select()
+    .from(share_links)
+    .where(eq(share_links.share_id, shareId))
+    .limit(1);
+
+  if (!link) return { status: "not_found" };
+  if (!link.is_active) return { status: "revoked", link };
+  if (isShareLinkExpired(link)) return { status: "expired", link };
+  return { status: "ok", link };
+}
+
+/**
+ * Count a view of a share link
+ */
+export async function recordShareView(linkId: string): Promise<void> {
+  await db
+    .update(share_links)
+    .set({ view_count: sql`${share_links.view_count} + 1` })
+    .where(eq(share_links.id, linkId));
+}
+
+/**
+ * Load what a share link shows: its reel version (else the latest ready
+ * one) and the storyboard
+ */
+export async function getSharedReel(link: ShareLink): Promise<SharedReel | null> {
+  const [project] = await db
+    .select({ title: projects.title, scene_order: projects.scene_order, format: projects.format })
+    .from(projects)
+    .where(eq(projects.id, link.project_id))
+    .limit(1);
+
+  if (!project) return null;
+
+  const reel = await findSharedReelVersion(link);
+
+  const projectScenes = await db
+    .select()
+    .from(scenes)
+    .where(eq(scenes.project_id, link.project_id));
+
+  const readyShots = projectScenes.length > 0
+    ? await db
+        .select({
+          scene_id: scene_shots.scene_id,
+          video_url: scene_shots.video_url,
+          video_media: scene_shots.video_media,
+        })
+        .from(scene_shots)
+        .where(
+          and(
+            inArray(scene_shots.scene_id, projectScenes.map((s) => s.id)),
+            eq(scene_shots.video_status, "ready"),
+            isNotNull(scene_shots.video_url)
+          )
+        )
+        .orderBy(scene_shots.scene_id, scene_shots.shot_number)
+    : [];
+
+  const videosByScene = new Map<string, SharedShotVideo[]>();
+  for (const shot of readyShots) {
+    if (!shot.video_url) continue;
+    videosByScene.set(shot.scene_id, [
+      ...(videosByScene.get(shot.scene_id) ?? []),
+      { url: shot.video_url, posterUrl: getVideoPosterUrl(shot) },
+    ]);
+  }
+
+  const storyboard = orderScenes(projectScenes, project.scene_order)
+    .map((scene) => ({
+      id: scene.id,
+      sceneNumber: scene.scene_number,
+      slugline: scene.slugline,
+      actionText: scene.action_text,
+      imageUrl: scene.approved_image_url,
+      videos: videosByScene.get(scene.id) ?? [],
+    }))
+    // Scenes with nothing generated yet would be empty frames
+    .filter((scene) => scene.imageUrl || scene.videos.length > 0);
+
+  return {
+    link,
+    projectTitle: project.title,
+    format: getFormatSpec(project.format).value,
+    reel: reel && (reel.video_url || reel.youtube_id)
+      ? {
+          version: formatReelVersion(reel),
+          videoUrl: reel.video_url,
+          posterUrl: getVideoPosterUrl(reel),
+          youtubeId: reel.youtube_id,
+          durationSeconds: reel.duration_seconds,
+          hasCaptions: (toCaptionCues(reel.captions)?.length ?? 0) > 0,
+        }
+      : null,
+    storyboard,
+  };
+}
+
+/**
+ * Caption cues of the reel a share link shows (null when it has none)
+ */
+export async function getSharedReelCaptions(link: ShareLink): Promise<CaptionCue[] | null> {
+  const reel = await findSharedReelVersion(link);
+  const cues = reel ? toCaptionCues(reel.captions) : null;
+  return cues && cues.length > 0 ? cues : null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The link's reel version, else the latest ready one
+ */
+async function findSharedReelVersion(link: ShareLink) {
+  const [reel] = await db
+    .select()
+    .from(final_reels)
+    .where(
+      and(
+        eq(final_reels.project_id, link.project_id),
+        eq(final_reels.status, "ready"),
+        link.reel_id ? eq(final_reels.id, link.reel_id) : undefined
+      )
+    )
+    .orderBy(desc(final_reels.version_number))
+    .limit(1);
+
+  return reel ?? null;
+}
+
+/**
+ * Unguessable, URL-safe share id (12 characters)
+ */
+function generateShareId(): string {
+  return randomBytes(9).toString("base64url");
+}
+
+/**
+ * Timeline order: scene_order holds scene UUIDs (or scene numbers on older
+ * projects); scenes missing from it follow by scene number
+ */
+function orderScenes<T extends { id: string; scene_number: number }>(
+  projectScenes: T[],
+  sceneOrder: unknown
+): T[] {
+  const order = Array.isArray(sceneOrder) ? (sceneOrder as Array<string | number>) : [];
+  const position = new Map<string, number>();
+  order.forEach((entry, index) => {
+    const scene = projectScenes.find((s) => s.id === entry || s.scene_number === entry);
+    if (scene && !position.has(scene.id)) position.set(scene.id, index);
+  });
+
+  return [...projectScenes].sort((a, b) => {
+    const posA = position.get(a.id) ?? order.length + a.scene_number;
+    const posB = position.get(b.id) ?? order.length + b.scene_number;
+    return posA - posB || a.scene_number - b.scene_number;
+  });
+}
@@ -0,0 +1,200 @@
+/**
+ * Shot Dependencies
+ *
+ * A shot video is generated from upstream assets: the scene's approved
+ * image or the shot's start frame, the shot's end frame, and - with Veo
+ * extend - the previous shot's take. Each take records the inputs it used
+ * (`shot_takes.sources`); when one of them no longer matches the current
+ * asset, the shot's selected take is stale.
+ *
+ * Generated start/end frames record the scene image they were made from
+ * (`*_frame_source_image_url`). A frame made from an older scene image is
+ * stale, and so is a take that used it - the frame is regenerated first.
+ *
+ * In a scene's continuity mode, a chained shot's start frame is the previous
+ * shot's end frame or last frame (see lib/continuity) - a take is stale when
+ * that image has changed or has to be extracted from a new video.
+ *
+ * Staleness cascades down extend and continuity chains: a take that extends
+ * a stale shot, or starts on a stale shot's end frame or last frame, is
+ * stale too, because what it continues is going to change. Stale shots are
+ * listed in chain order (scene order, then shot order), which is the order
+ * they have to be regenerated in.
+ *
+ * Takes recorded before dependency tracking have no sources and are never
+ * stale.
+ */
+
+import type { Scene, SceneShot, ShotTake, TakeSources } from "@/lib/drizzle/schema";
+import { planContinuity } from "@/lib/continuity";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StaleReason =
+  | "scene_image"
+  | "start_frame"
+  | "end_frame"
+  | "start_frame_source"
+  | "end_frame_source"
+  | "previous_shot"
+  | "upstream_stale";
+
+export type ShotFrameType = "start" | "end";
+
+export interface StaleShot {
+  shotId: string;
+  shotNumber: number;
+  reasons: StaleReason[];
+  /** Generated frames made from an older scene image - regenerated before the video */
+  staleFrames: ShotFrameType[];
+  /** The selected take has to be regenerated */
+  videoStale: boolean;
+  /** Shot whose video or end frame this shot continues (extend or continuity) */
+  upstreamShotId: string | null;
+}
+
+export const STALE_REASON_LABELS: Record<StaleReason, string> = {
+  scene_image: "Scene image changed",
+  start_frame: "Start frame changed",
+  end_frame: "End frame changed",
+  start_frame_source: "Start frame was made from an older scene image",
+  end_frame_source: "End frame was made from an older scene image",
+  previous_shot: "Extends an older take of the previous shot",
+  upstream_stale: "Continues a stale shot",
+};
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+/**
+ * Inputs a single-shot generation uses now
+ *
+ * Single-shot generation starts from the scene's approved image - or, for a
+ * shot chained by keyframe continuity, from its chained start frame - and
+ * doesn't extend the previous shot.
+ */
+export function getShotVideoSources(
+  scene: Pick<Scene, "approved_image_url">,
+  continuityStartFrameUrl?: string | null
+): TakeSources {
+  return continuityStartFrameUrl
+    ? { start_frame_url: continuityStartFrameUrl }
+    : { scene_image_url: scene.approved_image_url };
+}
+
+// ============================================================================
+// Staleness
+// ============================================================================
+
+/**
+ * Find the stale shots of a scene
+ *
+ * @param scene - The scene, for its approved image and continuity mode
+ * @param shots - The scene's shots in play order
+ * @param takes - Takes of those shots (only selected takes are checked)
+ * @returns Stale shots in chain order
+ */
+export function findStaleShots(
+  scene: Pick<Scene, "approved_image_url" | "continuity_mode">,
+  shots: SceneShot[],
+  takes: Pick<ShotTake, "id" | "shot_id" | "is_selected" | "sources">[]
+): StaleShot[] {
+  const selectedByShot = new Map(
+    takes.filter((take) => take.is_selected).map((take) => [take.shot_id, take])
+  );
+
+  const continuityLinks = new Map(planContinuity(scene, shots).map((link) => [link.shotId, link]));
+
+  const staleById = new Map<string, StaleShot>();
+
+  shots.forEach((shot, index) => {
+    const link = continuityLinks.get(shot.id);
+    const reasons: StaleReason[] = [];
+
+    // A chained start frame isn't generated - it belongs to the previous shot
+    const staleFrames: ShotFrameType[] = [];
+    if (!link && changed(shot.start_frame_source_image_url, scene.approved_image_url)) {
+      staleFrames.push("start");
+      reasons.push("start_frame_source");
+    }
+    if (changed(shot.end_frame_source_image_url, scene.approved_image_url)) {
+      staleFrames.push("end");
+      reasons.push("end_frame_source");
+    }
+
+    const take = selectedByShot.get(shot.id);
+    const sources = take?.sources;
+    const takeReasons: StaleReason[] = [];
+
+    if (take && sources) {
+      if (link) {
+        // The start frame is chained - the scene image isn't an input
+        const from = staleById.get(link.fromShotId);
+        if (link.needsExtraction || (link.frame && sources.start_frame_url !== link.frame.url)) {
+          takeReasons.push("start_frame");
+        } else if (
+          from &&
+          link.frame &&
+          (link.frame.source === "end_frame" ? from.staleFrames.includes("end") : from.videoStale)
+        ) {
+          takeReasons.push("upstream_stale");
+        }
+      } else {
+        if (changed(sources.scene_image_url, scene.approved_image_url)) {
+          takeReasons.push("scene_image");
+        }
+        if (changed(sources.start_frame_url, shot.start_frame_image_url)) {
+          takeReasons.push("start_frame");
+        }
+      }
+      if (changed(sources.end_frame_url, shot.end_frame_image_url)) {
+        takeReasons.push("end_frame");
+      }
+
+      if (sources.previous_take_id) {
+        const previous = index > 0 ? shots[index - 1] : null;
+        if (!previous || selectedByShot.get(previous.id)?.id !== sources.previous_take_id) {
+          takeReasons.push("previous_shot");
+        } else if (staleById.get(previous.id)?.videoStale) {
+          takeReasons.push("upstream_stale");
+        }
+      }
+    }
+
+    // A take made from a frame that is going to be regenerated
+    const usesStaleFrame =
+      (staleFrames.includes("start") && !!sources?.start_frame_url) ||
+      (staleFrames.includes("end") && !!sources?.end_frame_url);
+
+    reasons.push(...takeReasons);
+    if (reasons.length > 0) {
+      staleById.set(shot.id, {
+        shotId: shot.id,
+        shotNumber: shot.shot_number,
+        reasons,
+        staleFrames,
+        videoStale: takeReasons.length > 0 || usesStaleFrame,
+        upstreamShotId: link?.fromShotId ?? (sources?.previous_take_id && index > 0 ? shots[index - 1].id : null),
+      });
+    }
+  });
+
+  return [...staleById.values()];
+}
+
+/**
+ * Describe why a shot is stale, e.g. "Scene image changed; Extends a stale shot"
+ */
+export function formatStaleReasons(reasons: StaleReason[]): string {
+  return reasons.map((reason) => STALE_REASON_LABELS[reason]).join("; ");
+}
+
+/**
+ * A recorded input is stale when it was used (set) and the asset has changed
+ */
+function changed(recorded: string | null | undefined, current: string | null): boolean {
+  return recorded !== undefined && recorded !== null && recorded !== current;
+}
@@ -0,0 +1,72 @@
+/**
+ * Stale shot lookup (server only) - see lib/shot-dependencies for the rules
+ */
+
+import { db } from "@/lib/drizzle/db";
+import { scenes, scene_shots, shot_takes } from "@/lib/drizzle/schema";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { findStaleShots, type StaleShot } from "./index";
+
+export interface ProjectStaleShot extends StaleShot {
+  sceneId: string;
+  sceneNumber: number;
+  /** A new take or frame is already generating */
+  generating: boolean;
+  /** The shot it continues has a take or frame generating - its final image will change */
+  upstreamGenerating: boolean;
+}
+
+/**
+ * Stale shots of a project (or one of its scenes), in chain order
+ */
+export async function getStaleShots(projectId: string, sceneId?: string | null): Promise<ProjectStaleShot[]> {
+  const projectScenes = await db
+    .select()
+    .from(scenes)
+    .where(sceneId ? and(eq(scenes.project_id, projectId), eq(scenes.id, sceneId)) : eq(scenes.project_id, projectId))
+    .orderBy(asc(scenes.scene_number));
+
+  if (projectScenes.length === 0) return [];
+
+  const shots = await db
+    .select()
+    .from(scene_shots)
+    .where(inArray(scene_shots.scene_id, projectScenes.map((scene) => scene.id)))
+    .orderBy(asc(scene_shots.shot_number));
+
+  if (shots.length === 0) return [];
+
+  const selectedTakes = await db
+    .select({
+      id: shot_takes.id,
+      shot_id: shot_takes.shot_id,
+      is_selected: shot_takes.is_selected,
+      sources: shot_takes.sources,
+    })
+    .from(shot_takes)
+    .where(and(inArray(shot_takes.shot_id, shots.map((shot) => shot.id)), eq(shot_takes.is_selected, true)));
+
+  const generatingShotIds = new Set(
+    shots
+      .filter((shot) =>
+        shot.video_status === "generating" ||
+        shot.start_frame_status === "generating" ||
+        shot.end_frame_status === "generating"
+      )
+      .map((shot) => shot.id)
+  );
+
+  return projectScenes.flatMap((scene) =>
+    findStaleShots(
+      scene,
+      shots.filter((shot) => shot.scene_id === scene.id),
+      selectedTakes
+    ).map((stale) => ({
+      ...stale,
+      sceneId: scene.id,
+      sceneNumber: scene.scene_number,
+      generating: generatingShotIds.has(stale.shotId),
+      upstreamGenerating: !!stale.upstreamShotId && generatingShotIds.has(stale.upstreamShotId),
+    }))
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Shot Frame Generation
+ *
+ * Start and end frame images for Veo 3.1 first/last frame generation, made
+ * from the shot's composition_instruction / end_frame_instruction with
+ * Seedream 4.5. The scene's approved image is passed as a reference and
+ * recorded on the frame when it is ready (see lib/shot-dependencies). The
+ * result arrives on the shot-frame-generated webhook.
+ */
+
+import { db } from "@/lib/drizzle/db";
+import { scene_shots, scenes } from "@/lib/drizzle/schema";
+import { asc, eq } from "drizzle-orm";
+import { env } from "@/lib/env";
+import { generateImage } from "@/lib/providers";
+import { getProjectStyle } from "@/lib/styles/resolve";
+import { getFormatSpec, getImageFormatError } from "@/lib/formats";
+import { getProjectFormat } from "@/lib/formats/resolve";
+import { planContinuity } from "@/lib/continuity";
+import type { ShotFrameType } from "@/lib/shot-dependencies";
+import type { AIModel } from "@/lib/bible/models";
+import type { ApiKeys } from "@/lib/n8n";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ShotFrameStartResult =
+  | { success: true; shotId: string }
+  | { success: false; error: string };
+
+/** Start/end frames are generated with Seedream 4.5 ('seedream4.5' in n8n) */
+const FRAME_MODEL: AIModel = "seedream-4.5-text-to-image";
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+/**
+ * Start generating a shot's start or end frame
+ *
+ * Start frames need a composition_instruction, end frames an
+ * end_frame_instruction. A shot chained by keyframe continuity takes its
+ * start frame from the previous shot instead.
+ */
+export async function startShotFrameGeneration(
+  shotId: string,
+  frameType: ShotFrameType,
+  apiKeys?: ApiKeys
+): Promise<ShotFrameStartResult> {
+  console.log(`🖼️ Triggering ${frameType} frame generation for shot:`, shotId);
+
+  const [shot] = await db
+    .select()
+    .from(scene_shots)
+    .where(eq(scene_shots.id, shotId))
+    .limit(1);
+
+  if (!shot) {
+    return { success: false, error: "Shot not found" };
+  }
+
+  const prompt = frameType === "start" ? shot.composition_instruction : shot.end_frame_instruction;
+  if (!prompt) {
+    return {
+      success: false,
+      error: frameType === "start"
+        ? "Shot has no composition_instruction for start frame"
+        : "Shot has no end_frame_instruction",
+    };
+  }
+
+  const [scene] = await db.select().from(scenes).where(eq(scenes.id, shot.scene_id)).limit(1);
+  if (!scene) {
+    return { success: false, error: "Scene not found" };
+  }
+
+  // In continuity mode the start frame comes from the previous shot
+  if (frameType === "start" && scene.continuity_mode) {
+    const sceneShots = await db
+      .select()
+      .from(scene_shots)
+      .where(eq(scene_shots.scene_id, shot.scene_id))
+      .orderBy(asc(scene_shots.shot_number));
+    const link = planContinuity(scene, sceneShots).find((entry) => entry.shotId === shotId);
+    if (link) {
+      return {
+        success: false,
+        error: `Shot ${shot.shot_number} starts on shot ${link.fromShotNumber}'s last image - override continuity to give it its own start frame`,
+      };
+    }
+  }
+
+  const format = await getProjectFormat(scene.project_id);
+  const formatError = getImageFormatError(format, FRAME_MODEL);
+  if (formatError) {
+    return { success: false, error: formatError };
+  }
+
+  // Update status to generating
+  await db
+    .update(scene_shots)
+    .set(frameType === "start" ? { start_frame_status: "generating" } : { end_frame_status: "generating" })
+    .where(eq(scene_shots.id, shotId));
+
+  // The webhook records the scene image the frame was made from
+  const sourceImageUrl = scene.approved_image_url;
+  const callbackParams = new URLSearchParams({ shot_id: shotId, frame_type: frameType });
+  if (sourceImageUrl) {
+    callbackParams.set("source_image_url", sourceImageUrl);
+  }
+
+  // Invoke n8n image generation workflow
+  const result = await generateImage({
+    prompt,
+    model: "seedream4.5",
+    aspect_ratio: getFormatSpec(format).aspectRatio,
+    ...(sourceImageUrl ? { reference_images: [sourceImageUrl] } : {}),
+    next_js_callback_url: `${env.NEXT_PUBLIC_APP_URL}/api/webhooks/n8n/shot-frame-generated?${callbackParams}`,
+  }, apiKeys, await getProjectStyle(scene.project_id));
+
+  if (!result.success) {
+    const error = result.error ||
+      (frameType === "start" ? "Failed to start frame generation" : "Failed to start end frame generation");
+    await db
+      .update(scene_shots)
+      .set(
+        frameType === "start"
+          ? { start_frame_status: "failed", error_message: error }
+          : { end_frame_status: "failed", error_message: error }
+      )
+      .where(eq(scene_shots.id, shotId));
+
+    return { success: false, error };
+  }
+
+  // Store job ID for tracking
+  await db
+    .update(scene_shots)
+    .set(frameType === "start" ? { start_frame_job_id: result.data?.taskId } : { end_frame_job_id: result.data?.taskId })
+    .where(eq(scene_shots.id, shotId));
+
+  console.log(`✅ ${frameType === "start" ? "Start" : "End"} frame generation triggered for shot:`, shotId);
+
+  return { success: true, shotId };
+}
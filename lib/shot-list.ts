@@ -0,0 +1,106 @@
+/**
+ * Shot List Editing
+ *
+ * Directors edit a scene's shot list by hand after the AI breakdown: insert
+ * shots, split and merge them, reorder, and change their type and length.
+ * Every edit ends by renumbering the scene's shots 1..n in play order and
+ * relinking the Veo extend chain - an extend shot continues the clip of the
+ * shot now before it, and the first shot never extends.
+ */
+
+import type { Veo3PromptData } from "@/lib/drizzle/schema";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Veo 3.1 generates at most 8 seconds per shot */
+export const MAX_SHOT_SECONDS = 8;
+export const MIN_SHOT_SECONDS = 1;
+
+/** Whole-second shot lengths, shortest first */
+export const SHOT_SECONDS_OPTIONS = Array.from(
+  { length: MAX_SHOT_SECONDS - MIN_SHOT_SECONDS + 1 },
+  (_, index) => MIN_SHOT_SECONDS + index
+);
+
+/** Offered in the shot type field - any text is allowed */
+export const SHOT_TYPE_SUGGESTIONS = [
+  "Wide Establishing Shot",
+  "Wide Shot",
+  "Medium Shot",
+  "Medium Close-up",
+  "Close-up",
+  "Extreme Close-up",
+  "Over-the-Shoulder",
+  "POV",
+  "Insert",
+  "Cutaway",
+] as const;
+
+/** Merged shots keep the first shot's subject, scene, style, and technical notes */
+const MERGED_VEO3_KEYS = ["action", "dialogue", "sounds"] as const;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ShotChainLink {
+  id: string;
+  uses_extend: boolean;
+}
+
+/** Chain columns of one shot after an edit */
+export interface ShotChainPosition {
+  id: string;
+  shot_number: number;
+  is_first_shot: boolean;
+  uses_extend: boolean;
+  previous_shot_id: string | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Number shots in play order and point each extend shot at its predecessor
+ * @param orderedShots - The scene's shots in their new order
+ */
+export function planShotChain(orderedShots: ShotChainLink[]): ShotChainPosition[] {
+  return orderedShots.map((shot, index) => {
+    const usesExtend = index > 0 && shot.uses_extend;
+    return {
+      id: shot.id,
+      shot_number: index + 1,
+      is_first_shot: index === 0,
+      uses_extend: usesExtend,
+      previous_shot_id: usesExtend ? orderedShots[index - 1].id : null,
+    };
+  });
+}
+
+/**
+ * Combine two consecutive shots' structured prompts - the action, dialogue,
+ * and sounds run one after the other
+ */
+export function mergeVeo3Prompts(
+  first: Veo3PromptData | null,
+  second: Veo3PromptData | null
+): Veo3PromptData | null {
+  if (!first || !second) return first ?? second;
+
+  const merged: Veo3PromptData = { ...second, ...first };
+  for (const key of MERGED_VEO3_KEYS) {
+    merged[key] = joinText(first[key], second[key]);
+  }
+  return merged;
+}
+
+/**
+ * Join two optional pieces of text with a space
+ */
+export function joinText(first: string | null | undefined, second: string | null | undefined): string | null {
+  const parts = [first?.trim(), second?.trim()].filter((part): part is string => !!part);
+  return parts.length > 0 ? parts.join(" ") : null;
+}
@@ -0,0 +1,111 @@
+/**
+ * Style injection
+ *
+ * One place that turns a project's visual style into prompt text, so Bible
+ * images, scene images, shot frames, and videos all carry the same look.
+ * The generation wrappers in lib/providers call these when given a style.
+ */
+
+import type { StyleModelOverrides, StylePreset } from "@/lib/drizzle/schema";
+import type { ImageGenerationPayload, SimpleVideoPayload } from "@/lib/providers/types";
+import { getBuiltinStyle } from "./builtin";
+
+export interface ResolvedStyle {
+  name: string;
+  prompt_fragment: string;
+  negative_prompt: string | null;
+  color_palette: string[];
+  reference_image_urls: string[];
+  model_overrides: StyleModelOverrides;
+}
+
+/**
+ * Resolve a project's style from its custom preset or built-in key
+ * Unknown keys (legacy projects) still read as a plain style name.
+ */
+export function resolveStyle(visualStyle: string, preset?: StylePreset | null): ResolvedStyle {
+  if (preset) {
+    return {
+      name: preset.name,
+      prompt_fragment: preset.prompt_fragment,
+      negative_prompt: preset.negative_prompt,
+      color_palette: preset.color_palette,
+      reference_image_urls: preset.reference_image_urls,
+      model_overrides: preset.model_overrides,
+    };
+  }
+
+  const builtin = getBuiltinStyle(visualStyle);
+  return {
+    name: builtin?.label ?? visualStyle,
+    prompt_fragment: builtin?.prompt_fragment ?? visualStyle,
+    negative_prompt: null,
+    color_palette: [],
+    reference_image_urls: [],
+    model_overrides: {},
+  };
+}
+
+/**
+ * Add the style to an image generation request
+ *
+ * The per-model override (Seedream / Nano Banana) replaces the generic
+ * fragment. Style reference images are only added to requests that already
+ * use references - adding them to a text-to-image call would change the
+ * model mode.
+ */
+export function applyStyleToImagePayload(
+  style: ResolvedStyle,
+  payload: ImageGenerationPayload
+): ImageGenerationPayload {
+  const family = payload.model.includes("seedream")
+    ? "seedream"
+    : payload.model.includes("nano-banana")
+    ? "nano_banana"
+    : null;
+  const fragment = (family && style.model_overrides[family]) || style.prompt_fragment;
+
+  return {
+    ...payload,
+    prompt: joinPrompt([fragment, payload.prompt, formatPalette(style)]),
+    negative_prompt: joinNegative(payload.negative_prompt, style.negative_prompt),
+    reference_images: payload.reference_images?.length
+      ? [...payload.reference_images, ...style.reference_image_urls]
+      : payload.reference_images,
+  };
+}
+
+/**
+ * Add the style to a Veo video request
+ */
+export function applyStyleToVideoPayload(
+  style: ResolvedStyle,
+  payload: SimpleVideoPayload
+): SimpleVideoPayload {
+  const fragment = style.model_overrides.veo || style.prompt_fragment;
+
+  return {
+    ...payload,
+    prompt: [payload.prompt, `Style: ${joinPrompt([fragment, formatPalette(style)])}.`].join("\n\n"),
+    negativePrompt: joinNegative(payload.negativePrompt, style.negative_prompt),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatPalette(style: ResolvedStyle): string | null {
+  return style.color_palette.length > 0 ? `Color palette: ${style.color_palette.join(", ")}` : null;
+}
+
+function joinPrompt(parts: Array<string | null | undefined>): string {
+  return parts
+    .map((part) => part?.trim().replace(/\.$/, ""))
+    .filter(Boolean)
+    .join(". ");
+}
+
+function joinNegative(...parts: Array<string | null | undefined>): string | undefined {
+  return parts.filter(Boolean).join(", ") || undefined;
+}
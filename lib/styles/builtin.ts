@@ -0,0 +1,41 @@
+/**
+ * Built-in visual styles
+ *
+ * Always available, stored on the project as `visual_style` (the key).
+ * Custom presets live in the `style_presets` table.
+ */
+
+export interface BuiltinStyle {
+  key: string;
+  label: string;
+  description: string;
+  /** Injected into every image and video prompt */
+  prompt_fragment: string;
+}
+
+export const BUILTIN_STYLES: BuiltinStyle[] = [
+  {
+    key: "wes-anderson",
+    label: "Wes Anderson",
+    description: "Symmetrical, pastel palette, whimsical nostalgia",
+    prompt_fragment: "Wes Anderson style, symmetrical centered framing, pastel palette, whimsical nostalgia",
+  },
+  {
+    key: "classic-noir",
+    label: "Classic Film Noir",
+    description: "Black & white, high contrast, shadows",
+    prompt_fragment: "Classic film noir, black and white, high contrast, deep shadows, venetian blind light",
+  },
+  {
+    key: "70s-crime-drama",
+    label: "The Godfather Style",
+    description: "Warm amber, low-key lighting, operatic",
+    prompt_fragment: "1970s crime drama, warm amber tones, low-key lighting, operatic composition, film grain",
+  },
+];
+
+export const DEFAULT_STYLE_KEY = "wes-anderson";
+
+export function getBuiltinStyle(key: string): BuiltinStyle | undefined {
+  return BUILTIN_STYLES.find((style) => style.key === key);
+}
@@ -0,0 +1,25 @@
+/**
+ * Visual Styles
+ *
+ * Built-in styles plus user-defined presets (`style_presets` table), and
+ * the injection that applies a style to generation prompts. No server-only
+ * imports - the new-project page lists the built-ins from here. Server code
+ * loads a project's style with getProjectStyle from "@/lib/styles/resolve".
+ *
+ * @example
+ * ```typescript
+ * import { getProjectStyle } from "@/lib/styles/resolve";
+ * import { generateImage } from "@/lib/providers";
+ *
+ * const style = await getProjectStyle(projectId);
+ * await generateImage({ prompt, model: "seedream4.5" }, apiKeys, style);
+ * ```
+ */
+
+export { BUILTIN_STYLES, DEFAULT_STYLE_KEY, getBuiltinStyle, type BuiltinStyle } from "./builtin";
+export {
+  resolveStyle,
+  applyStyleToImagePayload,
+  applyStyleToVideoPayload,
+  type ResolvedStyle,
+} from "./apply";
@@ -0,0 +1,24 @@
+/**
+ * Project style lookup (server only)
+ */
+
+import { db } from "@/lib/drizzle/db";
+import { projects, style_presets } from "@/lib/drizzle/schema";
+import { eq } from "drizzle-orm";
+import { resolveStyle, type ResolvedStyle } from "./apply";
+
+/**
+ * Load the resolved visual style of a project (null if the project doesn't exist)
+ */
+export async function getProjectStyle(projectId: string): Promise<ResolvedStyle | null> {
+  const [row] = await db
+    .select({ visual_style: projects.visual_style, preset: style_presets })
+    .from(projects)
+    .leftJoin(style_presets, eq(projects.style_preset_id, style_presets.id))
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!row) return null;
+
+  return resolveStyle(row.visual_style, row.preset);
+}
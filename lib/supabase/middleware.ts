@@ -3,7 +3,7 @@ import { NextResponse, type NextRequest } from "next/server";
 import { env } from "../env";
 
 export async function updateSession(request: NextRequest) {
-  // Skip authentication for webhook endpoints
+  // Skip session auth for webhook endpoints - routes verify the n8n HMAC signature instead
   if (request.nextUrl.pathname.startsWith("/api/webhooks/")) {
     return NextResponse.next({
       request,
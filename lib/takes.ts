@@ -0,0 +1,217 @@
+/**
+ * Shot Takes
+ *
+ * Every Veo generation of a shot becomes a take (see `shot_takes`), so a
+ * regeneration never replaces a good video. One take per shot is selected:
+ * its video, storage path, and Veo task ID are copied onto the shot, which is
+ * what the timeline, assembly, exports, and extend chains read.
+ *
+ * A shot's `video_status` follows its latest generation. When a take fails
+ * or is cancelled and the shot already has a selected take, the shot goes
+ * back to `ready` with that take.
+ *
+ * The first take to finish is selected automatically; after that the
+ * selection only changes when the user picks another take, or when a take
+ * started to replace a stale one finishes (`replaces_selection`).
+ */
+
+import { db } from "@/lib/drizzle/db";
+import { scene_shots, shot_takes, type ShotTake, type TakeSources } from "@/lib/drizzle/schema";
+import { and, desc, eq, inArray, isNotNull } from "drizzle-orm";
+import { queueShotMedia } from "@/lib/video-media/process";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TakeOutcome =
+  | { status: "ready"; videoUrl: string; veoTaskId?: string | null }
+  | { status: "failed"; error: string };
+
+type ShotLocker = Pick<typeof db, "select">;
+
+export interface NewTakeOptions {
+  /** Inputs the generation uses - see lib/shot-dependencies */
+  sources?: TakeSources | null;
+  /** Select the take when it's ready, even if the shot has a selected take */
+  replacesSelection?: boolean;
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+/**
+ * Start the next take of a shot (take 1, 2, ...), marked as generating
+ */
+export async function createShotTake(
+  shotId: string,
+  prompt: string | null,
+  options: NewTakeOptions = {}
+): Promise<ShotTake> {
+  return db.transaction(async (tx) => {
+    // Concurrent generations of the shot wait here for their take number
+    await lockShot(tx, shotId);
+
+    const [latest] = await tx
+      .select({ take_number: shot_takes.take_number })
+      .from(shot_takes)
+      .where(eq(shot_takes.shot_id, shotId))
+      .orderBy(desc(shot_takes.take_number))
+      .limit(1);
+
+    const [take] = await tx
+      .insert(shot_takes)
+      .values({
+        shot_id: shotId,
+        take_number: (latest?.take_number ?? 0) + 1,
+        prompt,
+        sources: options.sources ?? null,
+        replaces_selection: options.replacesSelection ?? false,
+        status: "generating",
+      })
+      .returning();
+
+    return take;
+  });
+}
+
+/**
+ * Record a take's generation result
+ *
+ * Only generating takes are settled. A ready take is selected when the shot
+ * has no selected take yet or it replaces the selection; the shot's status
+ * is updated either way, and stays `generating` while another take runs.
+ * @returns The settled take, or null when it is gone or already settled
+ */
+export async function settleShotTake(takeId: string, outcome: TakeOutcome): Promise<ShotTake | null> {
+  const [take] = await db
+    .update(shot_takes)
+    .set(
+      outcome.status === "ready"
+        ? {
+            status: "ready",
+            video_url: outcome.videoUrl,
+            ...(outcome.veoTaskId ? { veo_task_id: outcome.veoTaskId } : {}),
+            error_message: null,
+            updated_at: new Date(),
+          }
+        : { status: "failed", error_message: outcome.error, updated_at: new Date() }
+    )
+    .where(and(eq(shot_takes.id, takeId), eq(shot_takes.status, "generating")))
+    .returning();
+
+  if (!take) return null;
+
+  const [selected] = await db
+    .select({ id: shot_takes.id })
+    .from(shot_takes)
+    .where(and(eq(shot_takes.shot_id, take.shot_id), eq(shot_takes.is_selected, true)))
+    .limit(1);
+
+  if (take.status === "ready" && (!selected || take.replaces_selection)) {
+    await applyTakeSelection(take);
+    return { ...take, is_selected: true };
+  }
+
+  // The shot stays `generating` while another take is still running
+  const [generating] = await db
+    .select({ id: shot_takes.id })
+    .from(shot_takes)
+    .where(and(eq(shot_takes.shot_id, take.shot_id), eq(shot_takes.status, "generating")))
+    .limit(1);
+
+  await db
+    .update(scene_shots)
+    .set({
+      video_status: generating ? "generating" : take.status === "ready" || selected ? "ready" : "failed",
+      error_message: take.status === "failed" ? take.error_message : null,
+      updated_at: new Date(),
+    })
+    .where(eq(scene_shots.id, take.shot_id));
+
+  return take;
+}
+
+/**
+ * Drop the generating takes of cancelled shots
+ * Shots with a selected take go back to `ready`.
+ */
+export async function discardGeneratingTakes(shotIds: string[]): Promise<void> {
+  if (shotIds.length === 0) return;
+
+  await db
+    .delete(shot_takes)
+    .where(and(inArray(shot_takes.shot_id, shotIds), eq(shot_takes.status, "generating")));
+
+  await db
+    .update(scene_shots)
+    .set({ video_status: "ready", updated_at: new Date() })
+    .where(and(inArray(scene_shots.id, shotIds), isNotNull(scene_shots.video_url)));
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Make a ready take the shot's selected take
+ * Queues media processing (poster, frames, scrub sprite) for its video.
+ */
+export async function applyTakeSelection(take: ShotTake): Promise<void> {
+  await db.transaction(async (tx) => {
+    // One selection change per shot at a time (the partial unique index allows one selected take)
+    await lockShot(tx, take.shot_id);
+
+    await tx
+      .update(shot_takes)
+      .set({ is_selected: false, updated_at: new Date() })
+      .where(and(eq(shot_takes.shot_id, take.shot_id), eq(shot_takes.is_selected, true)));
+
+    await tx
+      .update(shot_takes)
+      .set({ is_selected: true, updated_at: new Date() })
+      .where(eq(shot_takes.id, take.id));
+
+    // The shot stays `generating` while a newer take is still running
+    const [generating] = await tx
+      .select({ id: shot_takes.id })
+      .from(shot_takes)
+      .where(and(eq(shot_takes.shot_id, take.shot_id), eq(shot_takes.status, "generating")))
+      .limit(1);
+
+    await tx
+      .update(scene_shots)
+      .set({
+        video_url: take.video_url,
+        video_storage_path: take.video_storage_path,
+        veo_task_id: take.veo_task_id,
+        video_status: generating ? "generating" : "ready",
+        error_message: null,
+        updated_at: new Date(),
+      })
+      .where(eq(scene_shots.id, take.shot_id));
+  });
+
+  // New video, new stills - a failure here only costs the thumbnails
+  try {
+    await queueShotMedia(take.shot_id);
+  } catch (error) {
+    console.error(`❌ Failed to queue media processing for shot ${take.shot_id}:`, error);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Lock a shot's row until the transaction ends
+ */
+async function lockShot(tx: ShotLocker, shotId: string): Promise<void> {
+  await tx
+    .select({ id: scene_shots.id })
+    .from(scene_shots)
+    .where(eq(scene_shots.id, shotId))
+    .for("update");
+}
@@ -0,0 +1,89 @@
+/**
+ * Cut Transitions
+ *
+ * The transition into a scene or shot from the one before it. Scenes store
+ * the transition at the scene boundary; shots store the one between shots
+ * of the same scene (a scene's first shot uses the scene's). Unset
+ * boundaries use DEFAULT_TRANSITION - the crossfade assembly always applied.
+ *
+ * - cut: hard cut
+ * - dissolve: crossfade
+ * - fade_to_black: the outgoing shot fades out, the next one cuts in
+ * - fade_from_black: cut to black, the incoming shot fades in
+ * - dip_to_white: crossfade through white
+ * - whip: fast blurred swipe
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const TRANSITION_TYPES = [
+  "cut",
+  "dissolve",
+  "fade_to_black",
+  "fade_from_black",
+  "dip_to_white",
+  "whip",
+] as const;
+export type TransitionType = (typeof TRANSITION_TYPES)[number];
+
+export interface Transition {
+  type: TransitionType;
+  /** Seconds (0 for a cut) */
+  duration: number;
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const MAX_TRANSITION_SECONDS = 3;
+
+export const DEFAULT_TRANSITION: Transition = { type: "dissolve", duration: 0.5 };
+
+/** Duration picked when switching a boundary to a type */
+export const DEFAULT_TRANSITION_SECONDS: Record<TransitionType, number> = {
+  cut: 0,
+  dissolve: 0.5,
+  fade_to_black: 0.75,
+  fade_from_black: 0.75,
+  dip_to_white: 0.5,
+  whip: 0.3,
+};
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  cut: "Cut",
+  dissolve: "Dissolve",
+  fade_to_black: "Fade to Black",
+  fade_from_black: "Fade from Black",
+  dip_to_white: "Dip to White",
+  whip: "Whip",
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build a transition from stored columns (null type = the default)
+ */
+export function resolveTransition(type: TransitionType | null, seconds: number | null): Transition {
+  if (!type) return DEFAULT_TRANSITION;
+  if (type === "cut") return { type, duration: 0 };
+  return { type, duration: seconds ?? DEFAULT_TRANSITION_SECONDS[type] };
+}
+
+/**
+ * Whether the two shots overlap during the transition (shortening the reel
+ * by its duration) rather than playing back to back
+ */
+export function isOverlappingTransition(type: TransitionType): boolean {
+  return type === "dissolve" || type === "dip_to_white" || type === "whip";
+}
+
+export function formatTransition(transition: Transition): string {
+  return transition.type === "cut"
+    ? TRANSITION_LABELS.cut
+    : `${TRANSITION_LABELS[transition.type]} ${transition.duration}s`;
+}
@@ -0,0 +1,45 @@
+/**
+ * Shot Trim Points
+ *
+ * In/out points cut dead frames and artifacts off a shot's head and tail.
+ * They are stored on scene_shots as seconds from the start of the clip (a
+ * null in point is the clip start, a null out point its end). The preview,
+ * timeline durations, and assembly all play only the trimmed range.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TrimPoints {
+  inSeconds: number;
+  /** Null = the end of the clip */
+  outSeconds: number | null;
+}
+
+/** Shortest a trimmed shot may be */
+export const MIN_TRIMMED_SECONDS = 0.5;
+
+/** Trim points snap to frames of the 24 fps reel */
+const TRIM_FPS = 24;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Length of the trimmed range, falling back to the nominal shot length for
+ * the clip end
+ */
+export function getTrimmedDuration(
+  nominalSeconds: number,
+  trimInSeconds: number | null,
+  trimOutSeconds: number | null
+): number {
+  const duration = (trimOutSeconds ?? nominalSeconds) - (trimInSeconds ?? 0);
+  return Math.max(0, Math.round(duration * 100) / 100);
+}
+
+export function snapToFrame(seconds: number): number {
+  return Math.round(seconds * TRIM_FPS) / TRIM_FPS;
+}
@@ -0,0 +1,119 @@
+/**
+ * Video Media
+ *
+ * Every shot video and reel gets a set of stills once it's ready: its first,
+ * middle, and last frames, a poster frame, and a scrub sprite sheet. Galleries
+ * show the poster instead of loading the MP4, the timeline scrubs through the
+ * sprite, and keyframe continuity chains the last frame into the next shot.
+ *
+ * Media records the video it was made from; when a shot's selected take
+ * changes, its media is out of date until it's processed again.
+ */
+
+import type { ScrubSprite, VideoMedia } from "@/lib/drizzle/schema";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** The poster is taken a quarter of the way in, past fade-ins and slates */
+export const POSTER_POSITION = 0.25;
+
+/** Sprite tiles are this wide; the height follows the video's aspect ratio */
+export const SPRITE_TILE_WIDTH = 160;
+
+/** Shot-length videos get a tile every half second */
+export const MIN_SPRITE_INTERVAL_SECONDS = 0.5;
+
+/** Long reels space their tiles out to stay under this many */
+export const MAX_SPRITE_FRAMES = 100;
+
+export const SPRITE_COLUMNS = 10;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SpriteLayout = Omit<ScrubSprite, "url">;
+
+/** A row that can carry media - a shot or a reel */
+export interface VideoMediaRow {
+  video_url: string | null;
+  video_media: VideoMedia | null;
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Lay out the scrub sprite for a video
+ * @param width - Video width (null when unknown - assumes 16:9)
+ */
+export function planScrubSprite(
+  durationSeconds: number,
+  width: number | null,
+  height: number | null
+): SpriteLayout {
+  const interval = Math.max(
+    MIN_SPRITE_INTERVAL_SECONDS,
+    Math.ceil((durationSeconds / MAX_SPRITE_FRAMES) * 10) / 10
+  );
+  const frameCount = Math.min(MAX_SPRITE_FRAMES, Math.max(1, Math.floor(durationSeconds / interval)));
+  const columns = Math.min(SPRITE_COLUMNS, frameCount);
+  const aspect = width && height ? height / width : 9 / 16;
+
+  return {
+    columns,
+    rows: Math.ceil(frameCount / columns),
+    frame_count: frameCount,
+    tile_width: SPRITE_TILE_WIDTH,
+    // Even heights keep the encoder happy
+    tile_height: Math.max(2, Math.round((SPRITE_TILE_WIDTH * aspect) / 2) * 2),
+    interval_seconds: interval,
+  };
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * A row's media, if it was made from the row's current video
+ */
+export function getFreshVideoMedia(row: VideoMediaRow): VideoMedia | null {
+  return row.video_media && row.video_url && row.video_media.video_url === row.video_url
+    ? row.video_media
+    : null;
+}
+
+/**
+ * A row's poster frame, if its media is up to date
+ */
+export function getVideoPosterUrl(row: VideoMediaRow): string | null {
+  return getFreshVideoMedia(row)?.poster_url ?? null;
+}
+
+/**
+ * Background size and position (CSS percentages) showing the sprite tile
+ * nearest a moment of the video, scaled to fill its box
+ */
+export function getSpriteTileStyle(
+  sprite: ScrubSprite,
+  seconds: number
+): { backgroundImage: string; backgroundSize: string; backgroundPosition: string } {
+  const index = Math.min(
+    sprite.frame_count - 1,
+    Math.max(0, Math.floor(seconds / sprite.interval_seconds))
+  );
+  const column = index % sprite.columns;
+  const row = Math.floor(index / sprite.columns);
+
+  return {
+    backgroundImage: `url("${sprite.url}")`,
+    backgroundSize: `${sprite.columns * 100}% ${sprite.rows * 100}%`,
+    backgroundPosition: `${sprite.columns > 1 ? (column / (sprite.columns - 1)) * 100 : 0}% ${
+      sprite.rows > 1 ? (row / (sprite.rows - 1)) * 100 : 0
+    }%`,
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Video media processing (server only) - see lib/video-media
+ *
+ * Makes the stills for a shot's selected video or a ready reel with local
+ * ffmpeg, uploads them to Supabase, and records them on the row. Runs as a
+ * `video_media` background job, queued when a shot's video changes or a reel
+ * finishes assembling.
+ */
+
+import { readFile } from "fs/promises";
+import { db } from "@/lib/drizzle/db";
+import { final_reels, scene_shots, scenes, type VideoMedia } from "@/lib/drizzle/schema";
+import { and, eq } from "drizzle-orm";
+import { createSupabaseServerAdminClient } from "@/lib/supabase/admin";
+import { extractVideoStills, isFfmpegAvailable, type VideoStillFiles } from "@/lib/ffmpeg";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { getFreshVideoMedia } from "./index";
+
+/** Shot stills live next to the generated shot frames */
+const SHOT_MEDIA_BUCKET = "scene-images";
+const REEL_MEDIA_BUCKET = "reels";
+
+// ============================================================================
+// Queueing
+// ============================================================================
+
+/**
+ * Queue media processing for a shot's current video
+ *
+ * Skipped when this server has no ffmpeg - galleries fall back to the
+ * scene image.
+ */
+export async function queueShotMedia(shotId: string): Promise<void> {
+  const [shot] = await db
+    .select({ project_id: scenes.project_id })
+    .from(scene_shots)
+    .innerJoin(scenes, eq(scene_shots.scene_id, scenes.id))
+    .where(eq(scene_shots.id, shotId))
+    .limit(1);
+
+  if (!shot || !(await isFfmpegAvailable())) return;
+
+  // One job per video - a queued job for another shot must not absorb this one
+  await enqueueJob(shot.project_id, "video_media", { target: "shot", id: shotId }, { dedupe: false, maxAttempts: 2 });
+}
+
+/**
+ * Queue media processing for a ready reel
+ */
+export async function queueReelMedia(projectId: string, reelId: string): Promise<void> {
+  if (!(await isFfmpegAvailable())) return;
+
+  await enqueueJob(projectId, "video_media", { target: "reel", id: reelId }, { dedupe: false, maxAttempts: 2 });
+}
+
+// ============================================================================
+// Processing
+// ============================================================================
+
+/**
+ * Make and record the stills for a shot's current video
+ *
+ * Also records the last frame for keyframe continuity (see lib/continuity).
+ * @returns The shot's media, or null when it has no video or the video
+ *   changed while processing (a newer job handles that one)
+ * @throws Error when ffmpeg is missing or extraction or upload fails
+ */
+export async function processShotMedia(shotId: string): Promise<VideoMedia | null> {
+  const [shot] = await db.select().from(scene_shots).where(eq(scene_shots.id, shotId)).limit(1);
+  if (!shot?.video_url) return null;
+
+  const existing = getFreshVideoMedia(shot);
+  if (existing) return existing;
+
+  console.log(`🖼️ Processing media for shot ${shot.shot_number}:`, shotId);
+
+  const videoUrl = shot.video_url;
+  const media = await makeVideoMedia(videoUrl, SHOT_MEDIA_BUCKET, `shots/${shotId}/media_${Date.now()}`);
+
+  // Only record it if the shot still has this video
+  const [updated] = await db
+    .update(scene_shots)
+    .set({
+      video_media: media,
+      last_frame_image_url: media.last_frame_url,
+      last_frame_storage_path: `${media.storage_prefix}/last-frame.png`,
+      last_frame_video_url: videoUrl,
+      updated_at: new Date(),
+    })
+    .where(and(eq(scene_shots.id, shotId), eq(scene_shots.video_url, videoUrl)))
+    .returning({ id: scene_shots.id });
+
+  if (!updated) {
+    console.log(`⏭️ Shot ${shotId} video changed while processing media`);
+    return null;
+  }
+
+  console.log(`✅ Media ready for shot ${shot.shot_number}`);
+  return media;
+}
+
+/**
+ * Make and record the stills for a reel
+ * @returns The reel's media, or null when it has no video
+ * @throws Error when ffmpeg is missing or extraction or upload fails
+ */
+export async function processReelMedia(reelId: string): Promise<VideoMedia | null> {
+  const [reel] = await db.select().from(final_reels).where(eq(final_reels.id, reelId)).limit(1);
+  if (!reel?.video_url) return null;
+
+  const existing = getFreshVideoMedia(reel);
+  if (existing) return existing;
+
+  console.log(`🖼️ Processing media for reel v${reel.version_number}:`, reelId);
+
+  const media = await makeVideoMedia(
+    reel.video_url,
+    REEL_MEDIA_BUCKET,
+    `${reel.project_id}/media/reel-${reelId}_${Date.now()}`
+  );
+
+  await db
+    .update(final_reels)
+    .set({ video_media: media })
+    .where(and(eq(final_reels.id, reelId), eq(final_reels.video_url, reel.video_url)));
+
+  console.log(`✅ Media ready for reel v${reel.version_number}`);
+  return media;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const STILL_UPLOADS: { key: keyof VideoStillFiles; name: string; contentType: string }[] = [
+  { key: "firstFrame", name: "first-frame.jpg", contentType: "image/jpeg" },
+  { key: "middleFrame", name: "middle-frame.jpg", contentType: "image/jpeg" },
+  { key: "lastFrame", name: "last-frame.png", contentType: "image/png" },
+  { key: "poster", name: "poster.jpg", contentType: "image/jpeg" },
+  { key: "sprite", name: "sprite.jpg", contentType: "image/jpeg" },
+];
+
+async function makeVideoMedia(videoUrl: string, bucket: string, storagePrefix: string): Promise<VideoMedia> {
+  if (!(await isFfmpegAvailable())) {
+    throw new Error("ffmpeg not found - install ffmpeg or set FFMPEG_PATH to make video stills");
+  }
+
+  const stills = await extractVideoStills(videoUrl);
+  try {
+    const supabase = createSupabaseServerAdminClient();
+    const urls = {} as Record<keyof VideoStillFiles, string>;
+
+    for (const upload of STILL_UPLOADS) {
+      const storagePath = `${storagePrefix}/${upload.name}`;
+      const { error } = await supabase.storage
+        .from(bucket)
+        .upload(storagePath, await readFile(stills.files[upload.key]), {
+          contentType: upload.contentType,
+          upsert: true,
+        });
+
+      if (error) {
+        throw new Error(`Failed to upload ${upload.name}: ${error.message}`);
+      }
+
+      urls[upload.key] = supabase.storage.from(bucket).getPublicUrl(storagePath).data.publicUrl;
+    }
+
+    return {
+      video_url: videoUrl,
+      duration_seconds: stills.durationSeconds,
+      first_frame_url: urls.firstFrame,
+      middle_frame_url: urls.middleFrame,
+      last_frame_url: urls.lastFrame,
+      poster_url: urls.poster,
+      sprite: { url: urls.sprite, ...stills.sprite },
+      storage_prefix: storagePrefix,
+      processed_at: new Date().toISOString(),
+    };
+  } finally {
+    await stills.cleanup();
+  }
+}
@@ -1,13 +1,37 @@
 /**
- * Video Generation Query Functions
+ * Video Generation Functions
  *
- * Server-side functions for querying video generation status.
- * Used by Server Components and Server Actions.
+ * Server-side functions for querying and running video generation.
+ * Used by Server Components, Server Actions, and background jobs.
  */
 
 import { db } from "@/lib/drizzle/db";
-import { scene_videos, scenes, type Scene } from "@/lib/drizzle/schema";
-import { eq, count, inArray } from "drizzle-orm";
+import {
+  scene_videos,
+  scenes,
+  scene_shots,
+  shot_takes,
+  sceneImageVariants,
+  type Scene,
+  type SceneShot,
+  type RawSceneData,
+} from "@/lib/drizzle/schema";
+import { eq, count, inArray, asc } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { generateVideoSimple } from "@/lib/providers";
+import { getProjectStyle } from "@/lib/styles/resolve";
+import { getVideoAspectRatio, getVideoFormatError } from "@/lib/formats";
+import { getProjectFormat } from "@/lib/formats/resolve";
+import { createShotTake, settleShotTake } from "@/lib/takes";
+import { startShotFrameGeneration } from "@/lib/shot-frames";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { getShotVideoSources } from "@/lib/shot-dependencies";
+import { getStaleShots } from "@/lib/shot-dependencies/resolve";
+import { resolveContinuityStartFrame } from "@/lib/continuity/resolve";
+import { formatPromptLintErrors } from "@/lib/prompt-lint";
+import { lintShotPrompt } from "@/lib/prompt-lint/resolve";
+import type { SimpleVideoResult } from "@/lib/n8n/mcp-client";
+import type { ApiKeys } from "@/lib/n8n";
 
 // ============================================================================
 // Constants
@@ -19,6 +43,12 @@ import { eq, count, inArray } from "drizzle-orm";
  */
 export const MAX_CONCURRENT_VIDEO_JOBS = 3;
 
+/** Delay between stale regeneration steps - a Veo take usually needs 2-5 minutes */
+const STALE_REGENERATION_STEP_SECONDS = 90;
+
+/** Steps before stale regeneration stops waiting for upstream shots (about 90 minutes) */
+const STALE_REGENERATION_MAX_STEPS = 60;
+
 // ============================================================================
 // Query Functions
 // ============================================================================
@@ -509,3 +539,684 @@ export function composeVideoPrompt(scene: Scene): string {
 
   return allParts.join(". ") || scene.slugline || "Generate video";
 }
+
+// ============================================================================
+// Shot Prompt Composition
+// ============================================================================
+
+/**
+ * Compose video_prompt_veo3 into a single prompt string
+ * Veo 3.1 7-component format: subject, action, scene, style, dialogue, sounds, technical
+ *
+ * NOTE: Content policy compliance is handled by n8n workflow (Claude Haiku rewrite)
+ * See workflow "video_generation_simple" for detection and rewriting logic.
+ */
+export function composeVeo3Prompt(vp: {
+  subject?: string | null;
+  action?: string | null;
+  scene?: string | null;
+  style?: string | null;
+  dialogue?: string | null;
+  sounds?: string | null;
+  technical?: string | null;
+}): string {
+  const parts: string[] = [];
+  if (vp.subject) parts.push(vp.subject);
+  if (vp.action) parts.push(vp.action);
+  if (vp.scene) parts.push(vp.scene);
+  if (vp.style) parts.push(vp.style);
+  if (vp.dialogue) parts.push(vp.dialogue);
+  if (vp.sounds) parts.push(vp.sounds);
+  if (vp.technical) parts.push(vp.technical);
+
+  return parts.join('. ');
+}
+
+/**
+ * Compose a complete video prompt for Veo 3.1
+ *
+ * Veo 3.1 generates video WITH audio from a single prompt.
+ * All audio (dialogue, SFX, ambient, music) must be described in the prompt.
+ *
+ * Prompt structure:
+ * 1. Camera type and movement
+ * 2. Main action description
+ * 3. Visual atmosphere (lighting, colors)
+ * 4. Dialogue with voice description
+ * 5. Sound effects and ambient audio
+ * 6. Music mood
+ *
+ * @param shot - The shot data
+ * @param scene - The parent scene with full data
+ * @returns A complete video generation prompt for Veo 3.1
+ */
+export function composeShotVideoPrompt(
+  shot: SceneShot,
+  scene: {
+    raw_scene_data: RawSceneData | null;
+    slugline: string;
+  }
+): string {
+  // PREFER structured VEO 3.1 prompt if available
+  // This gives full control over the 7 prompt components
+  if (shot.video_prompt_veo3 && Object.values(shot.video_prompt_veo3).some(v => v)) {
+    console.log('📹 Using structured VEO3 prompt for shot:', shot.id);
+    return composeVeo3Prompt(shot.video_prompt_veo3);
+  }
+
+  // Fallback to action_prompt if it exists (composed from video_prompt_veo3 or legacy)
+  // NOTE: Content policy compliance is handled by n8n workflow
+  if (shot.action_prompt) {
+    console.log('📹 Using action_prompt fallback for shot:', shot.id);
+    return shot.action_prompt;
+  }
+
+  // Legacy: Build prompt from scene data (for shots created before structured prompts)
+  console.log('📹 Using legacy scene data for shot:', shot.id);
+  const parts: string[] = [];
+  const rawData = scene.raw_scene_data;
+  const audioReqs = rawData?.audio_requirements;
+
+  // 1. Camera type (shot framing)
+  if (shot.shot_type) {
+    parts.push(`${shot.shot_type}.`);
+  }
+
+  // 2. Camera movement / composition instruction
+  if (shot.composition_instruction) {
+    parts.push(`Camera: ${shot.composition_instruction}.`);
+  } else if (rawData?.composition_instruction) {
+    parts.push(`Camera: ${rawData.composition_instruction}.`);
+  }
+
+  // 3. Visual atmosphere
+  if (rawData?.visual_atmosphere) {
+    parts.push(rawData.visual_atmosphere);
+  } else if (rawData?.visual_mood?.atmosphere) {
+    parts.push(rawData.visual_mood.atmosphere);
+  }
+
+  // 4. Lighting
+  if (rawData?.visual_mood?.lighting) {
+    parts.push(`${rawData.visual_mood.lighting} lighting.`);
+  }
+
+  // 5. Color palette
+  if (rawData?.visual_mood?.color_palette) {
+    parts.push(`${rawData.visual_mood.color_palette} color palette.`);
+  }
+
+  // 6. Dialogue with voice type (Veo 3.1 generates spoken audio)
+  const dialogue = shot.dialogue_segment ||
+    rawData?.dialogue_snippet ||
+    audioReqs?.dialogue_transcript;
+
+  if (dialogue) {
+    const voiceDesc = audioReqs?.voice_type
+      ? ` in a ${audioReqs.voice_type} voice`
+      : '';
+    const toneDesc = audioReqs?.dialogue_tone
+      ? `, ${audioReqs.dialogue_tone}`
+      : '';
+    parts.push(`Character speaks${voiceDesc}${toneDesc}: "${dialogue}"`);
+  }
+
+  // 7. Sound effects
+  if (audioReqs?.sfx) {
+    const sfxArray = Array.isArray(audioReqs.sfx) ? audioReqs.sfx : [audioReqs.sfx];
+    if (sfxArray.length > 0) {
+      parts.push(`Sound effects: ${sfxArray.join(', ')}.`);
+    }
+  }
+
+  // 8. Ambient sounds
+  if (audioReqs?.ambient) {
+    const ambientArray = Array.isArray(audioReqs.ambient) ? audioReqs.ambient : [audioReqs.ambient];
+    if (ambientArray.length > 0) {
+      parts.push(`Ambient audio: ${ambientArray.join(', ')}.`);
+    }
+  }
+
+  // 9. Music mood
+  if (audioReqs?.music_mood) {
+    parts.push(`Music: ${audioReqs.music_mood}.`);
+  } else if (audioReqs?.music) {
+    parts.push(`Music: ${audioReqs.music}.`);
+  }
+
+  // NOTE: Content policy compliance is handled by n8n workflow
+  return parts.join(' ');
+}
+
+// ============================================================================
+// Shot Video Generation
+// ============================================================================
+
+export type ShotVideoStartResult =
+  | { success: true; shotId: string }
+  | { success: false; error: string };
+
+/**
+ * Generate video for a single shot (MVP: No extend mode)
+ *
+ * MVP SIMPLIFICATION:
+ * - Uses scene's approved image as start frame (no separate frame generation)
+ * - Independent 8s video per shot
+ * - No chaining with previous shots
+ *
+ * In a scene's continuity mode, a chained shot starts on the previous shot's
+ * end frame or last frame instead (see lib/continuity) and can't generate
+ * until the previous shot has one.
+ *
+ * Prompts with lint errors (see lib/prompt-lint) are refused before any
+ * generation starts.
+ *
+ * Each call records a new take (see lib/takes.ts) with the inputs it was
+ * generated from (see lib/shot-dependencies); the shot keeps its selected
+ * take until the user picks another, unless `replacesSelection` is set.
+ */
+export async function startShotVideoGeneration(
+  shotId: string,
+  apiKeys?: ApiKeys,
+  options: { replacesSelection?: boolean } = {}
+): Promise<ShotVideoStartResult> {
+  console.log('🎬 MVP: Generating video for shot:', shotId);
+
+  const [shot] = await db
+    .select()
+    .from(scene_shots)
+    .where(eq(scene_shots.id, shotId))
+    .limit(1);
+
+  if (!shot) {
+    return { success: false, error: 'Shot not found' };
+  }
+
+  // Get scene with approved image
+  const [scene] = await db
+    .select()
+    .from(scenes)
+    .where(eq(scenes.id, shot.scene_id))
+    .limit(1);
+
+  if (!scene) {
+    return { success: false, error: 'Scene not found' };
+  }
+
+  // MVP: Use scene's approved image as start frame
+  if (!scene.approved_image_url) {
+    return { success: false, error: 'No approved image for scene. Generate and approve a scene image first.' };
+  }
+
+  // Pre-flight: don't pay for a generation the prompt will fail
+  const lintError = formatPromptLintErrors(await lintShotPrompt(shot, scene.project_id));
+  if (lintError) {
+    console.log('🚫 Shot prompt failed pre-flight:', shotId, lintError);
+    return { success: false, error: `Fix the prompt for shot ${shot.shot_number} first: ${lintError}` };
+  }
+
+  // Keyframe continuity: start where the previous shot ends
+  const continuity = await resolveContinuityStartFrame(scene, shotId);
+  if (continuity?.fromShotGenerating) {
+    return { success: false, error: `Waiting for shot ${continuity.fromShotNumber} to finish - this shot starts on its last frame` };
+  }
+  if (continuity && !continuity.frame) {
+    return {
+      success: false,
+      error: continuity.needsExtraction
+        ? `Couldn't extract the last frame of shot ${continuity.fromShotNumber} - check ffmpeg, or override continuity for this shot`
+        : `Shot ${continuity.fromShotNumber} has no video or end frame yet - generate it first, or override continuity for this shot`,
+    };
+  }
+  const continuityFrameUrl = continuity?.frame?.url ?? null;
+  const imageUrl = continuityFrameUrl ?? scene.approved_image_url;
+
+  const format = await getProjectFormat(scene.project_id);
+  const aspectRatio = getVideoAspectRatio(format);
+  if (!aspectRatio) {
+    return { success: false, error: getVideoFormatError(format) ?? 'Unsupported project format' };
+  }
+
+  // Compose video prompt
+  const videoPrompt = composeShotVideoPrompt(shot, scene);
+
+  // Each generation is a new take - the selected take stays on the shot
+  const take = await createShotTake(shotId, videoPrompt, {
+    sources: getShotVideoSources(scene, continuityFrameUrl),
+    replacesSelection: options.replacesSelection,
+  });
+
+  // Update status to generating
+  await db
+    .update(scene_shots)
+    .set({
+      video_status: 'generating',
+      start_frame_image_url: imageUrl, // Store reference to scene image (or chained frame)
+      start_frame_source_image_url: null, // No longer a generated frame
+      updated_at: new Date(),
+    })
+    .where(eq(scene_shots.id, shotId));
+
+  // Call VEO3 via the generation provider - simplified (no extend)
+  // n8n: workflow "video_generation_simple", no timeout - video generation can take 2-5 minutes
+  const result = await generateVideoSimple(
+    {
+      shotId: shot.id,
+      imageUrl,
+      prompt: videoPrompt,
+      duration: shot.shot_duration_seconds,
+      aspectRatio,
+    },
+    apiKeys,
+    await getProjectStyle(scene.project_id)
+  );
+
+  if (!result.success) {
+    await settleShotTake(take.id, { status: 'failed', error: result.error || 'Video generation failed' });
+    return { success: false, error: result.error || 'Video generation failed' };
+  }
+
+  // Store job ID for tracking (async workflow)
+  if (result.data?.taskId) {
+    await db
+      .update(shot_takes)
+      .set({
+        video_job_id: result.executionId ?? result.data.taskId,
+        veo_task_id: result.data.taskId,
+        updated_at: new Date(),
+      })
+      .where(eq(shot_takes.id, take.id));
+  }
+
+  // If synchronous result with video URL
+  if (result.data?.videoUrl) {
+    await settleShotTake(take.id, {
+      status: 'ready',
+      videoUrl: result.data.videoUrl,
+      veoTaskId: result.data.taskId,
+    });
+  }
+
+  console.log('✅ MVP: Video generation triggered for shot:', shotId);
+  revalidatePath(`/projects/${scene.project_id}/studio/video`, 'page');
+
+  return { success: true, shotId };
+}
+
+/**
+ * Generate videos for all pending shots in a project
+ *
+ * Processes shots in batches of MAX_CONCURRENT_VIDEO_JOBS to avoid
+ * overloading n8n. Runs as a `shot_video_batch` background job.
+ * Only scenes with an approved image are included.
+ */
+export async function generateProjectShotVideos(
+  projectId: string,
+  apiKeys?: ApiKeys
+): Promise<{ queued: number; total: number; shotIds: string[] }> {
+  console.log('🎬 MVP: Generating all shot videos for project:', projectId);
+
+  // Get all shots for the project
+  const projectScenes = await db
+    .select()
+    .from(scenes)
+    .where(eq(scenes.project_id, projectId))
+    .orderBy(asc(scenes.scene_number));
+
+  const allShots: SceneShot[] = [];
+
+  for (const scene of projectScenes) {
+    // Only process scenes with approved images
+    if (!scene.approved_image_url) {
+      console.log(`⏭️ Skipping scene ${scene.scene_number} - no approved image`);
+      continue;
+    }
+
+    const shots = await db
+      .select()
+      .from(scene_shots)
+      .where(eq(scene_shots.scene_id, scene.id))
+      .orderBy(asc(scene_shots.shot_number));
+
+    allShots.push(...shots);
+  }
+
+  // Filter to shots that haven't been processed yet (null or generating)
+  const pendingShots = allShots.filter(
+    (s) => s.video_status === null || s.video_status === 'generating'
+  );
+
+  console.log(`📊 Found ${pendingShots.length} pending shots to process`);
+
+  // Process in batches of MAX_CONCURRENT_VIDEO_JOBS
+  const allShotIds: string[] = [];
+
+  for (let i = 0; i < pendingShots.length; i += MAX_CONCURRENT_VIDEO_JOBS) {
+    const batch = pendingShots.slice(i, i + MAX_CONCURRENT_VIDEO_JOBS);
+    console.log(`🔄 Processing batch ${Math.floor(i / MAX_CONCURRENT_VIDEO_JOBS) + 1}: ${batch.length} shots`);
+
+    const results = await Promise.all(
+      batch.map((shot) => startShotVideoGeneration(shot.id, apiKeys))
+    );
+
+    for (const result of results) {
+      if (result.success) {
+        allShotIds.push(result.shotId);
+      }
+    }
+  }
+
+  console.log(`✅ MVP: Video generation triggered for ${allShotIds.length} shots`);
+
+  return { queued: allShotIds.length, total: pendingShots.length, shotIds: allShotIds };
+}
+
+/**
+ * Run one step of regenerating a project's stale shots (or one scene's)
+ *
+ * Each step walks the stale shots in chain order. A shot whose upstream
+ * shot is still regenerating waits; otherwise its stale frames are
+ * regenerated first, or - once they are ready - its video. Shots already
+ * generating are skipped. The new takes replace the stale selected takes
+ * when ready.
+ *
+ * While shots wait, the step queues the next one, so a chain regenerates
+ * one link at a time. A shot downstream of a failure is left stale.
+ * Runs as a `stale_shot_regeneration` background job.
+ *
+ * @param step - Steps run before this one
+ */
+export async function regenerateStaleShotVideos(
+  projectId: string,
+  sceneId: string | null,
+  apiKeys?: ApiKeys,
+  step = 0
+): Promise<{ queued: number; total: number; waiting: number; failed: string[] }> {
+  const staleShots = await getStaleShots(projectId, sceneId);
+
+  console.log(`♻️ Regenerating ${staleShots.length} stale shots for project (step ${step + 1}):`, projectId);
+
+  let queued = 0;
+  let waiting = 0;
+  const failed: string[] = [];
+
+  // Shots whose new frame or take isn't ready yet, and shots that couldn't start
+  const busyShotIds = new Set<string>();
+  const failedShotIds = new Set<string>();
+
+  for (const stale of staleShots) {
+    const label = `Scene ${stale.sceneNumber} shot ${stale.shotNumber}`;
+
+    if (stale.generating) {
+      busyShotIds.add(stale.shotId);
+      continue;
+    }
+
+    // Upstream first - this shot continues where the upstream shot's new take ends
+    if (stale.upstreamShotId && failedShotIds.has(stale.upstreamShotId)) {
+      failedShotIds.add(stale.shotId);
+      failed.push(`${label}: the shot it continues could not be regenerated`);
+      continue;
+    }
+    if (stale.upstreamGenerating || (stale.upstreamShotId && busyShotIds.has(stale.upstreamShotId))) {
+      busyShotIds.add(stale.shotId);
+      waiting++;
+      continue;
+    }
+
+    // Frames before the video made from them
+    if (stale.staleFrames.length > 0) {
+      for (const frameType of stale.staleFrames) {
+        const result = await startShotFrameGeneration(stale.shotId, frameType, apiKeys);
+        if (result.success) {
+          queued++;
+        } else {
+          failed.push(`${label} ${frameType} frame: ${result.error}`);
+          failedShotIds.add(stale.shotId);
+        }
+      }
+      if (!failedShotIds.has(stale.shotId)) {
+        busyShotIds.add(stale.shotId);
+        if (stale.videoStale) waiting++;
+      }
+      continue;
+    }
+
+    if (!stale.videoStale) continue;
+
+    const result = await startShotVideoGeneration(stale.shotId, apiKeys, { replacesSelection: true });
+    if (result.success) {
+      queued++;
+      busyShotIds.add(stale.shotId);
+    } else {
+      failed.push(`${label}: ${result.error}`);
+      failedShotIds.add(stale.shotId);
+    }
+  }
+
+  if (waiting > 0) {
+    if (step + 1 < STALE_REGENERATION_MAX_STEPS) {
+      await enqueueJob(
+        projectId,
+        "stale_shot_regeneration",
+        { sceneId, apiKeys, step: step + 1 },
+        { dedupe: false, runAt: new Date(Date.now() + STALE_REGENERATION_STEP_SECONDS * 1000) }
+      );
+    } else {
+      failed.push(`Stopped waiting for ${waiting} shot(s) - regenerate stale shots again once their upstream shots are ready`);
+    }
+  }
+
+  console.log(`✅ Stale regeneration step ${step + 1}: ${queued} started, ${waiting} waiting, ${failed.length} failed`);
+
+  return { queued, total: staleShots.length, waiting, failed };
+}
+
+// ============================================================================
+// Queue Processing
+// ============================================================================
+
+export type SceneVideoStartResult =
+  | { success: true; videoId?: string; queued?: boolean }
+  | { success: false; error: string };
+
+/**
+ * Start video generation for a scene from an approved variant
+ *
+ * Creates a scene_video record and invokes the n8n workflow.
+ */
+export async function startSceneVideoGeneration(
+  sceneId: string,
+  variantId: string,
+  apiKeys?: ApiKeys
+): Promise<SceneVideoStartResult> {
+  try {
+    console.log('🎬 Triggering video generation for scene:', sceneId);
+
+    // Get the scene
+    const [scene] = await db
+      .select()
+      .from(scenes)
+      .where(eq(scenes.id, sceneId))
+      .limit(1);
+
+    if (!scene) {
+      return { success: false, error: 'Scene not found' };
+    }
+
+    // Get the approved variant
+    const [variant] = await db
+      .select()
+      .from(sceneImageVariants)
+      .where(eq(sceneImageVariants.id, variantId))
+      .limit(1);
+
+    if (!variant) {
+      return { success: false, error: 'Variant not found' };
+    }
+
+    if (!variant.image_url) {
+      return { success: false, error: 'Variant has no image URL' };
+    }
+
+    const format = await getProjectFormat(scene.project_id);
+    const aspectRatio = getVideoAspectRatio(format);
+    if (!aspectRatio) {
+      return { success: false, error: getVideoFormatError(format) ?? 'Unsupported project format' };
+    }
+
+    // Check if video already exists for this scene
+    const [existingVideo] = await db
+      .select()
+      .from(scene_videos)
+      .where(eq(scene_videos.scene_id, sceneId))
+      .limit(1);
+
+    if (existingVideo) {
+      console.log('⚠️ Video already exists for scene:', sceneId);
+      // If already generating, just return success
+      if (existingVideo.status === 'generating') {
+        return { success: true, videoId: existingVideo.id, queued: false };
+      }
+      // If ready/approved, don't regenerate automatically
+      if (existingVideo.status === 'ready' || existingVideo.status === 'approved') {
+        return { success: true, videoId: existingVideo.id };
+      }
+      // If failed, we could regenerate - but for now just return the existing
+      return { success: true, videoId: existingVideo.id };
+    }
+
+    // Check batch limit
+    const canStart = await canStartVideoGeneration();
+    if (!canStart) {
+      console.log('⏳ Batch limit reached, scene queued for later');
+      // Don't create a record yet - it will be picked up by queue processor
+      return { success: true, queued: true };
+    }
+
+    // Create video record
+    const [video] = await db
+      .insert(scene_videos)
+      .values({
+        scene_id: sceneId,
+        source_variant_id: variantId,
+        status: 'generating',
+      })
+      .returning();
+
+    console.log('📹 Created video record:', video.id);
+
+    // Compose video prompt for simple workflow
+    const prompt = composeVideoPrompt(scene);
+    console.log('📝 Video prompt:', prompt.substring(0, 200) + (prompt.length > 200 ? '...' : ''));
+
+    // Invoke n8n simple video workflow (synchronous - returns when video is ready)
+    const result = await generateVideoSimple({
+      shotId: video.id,
+      imageUrl: variant.image_url,
+      prompt,
+      duration: 8,
+      model: 'veo3_fast',
+      aspectRatio,
+    }, apiKeys, await getProjectStyle(scene.project_id));
+
+    if (!result.success) {
+      console.error('❌ Failed to generate video:', result.error);
+      // Update video status to failed
+      await db
+        .update(scene_videos)
+        .set({
+          status: 'failed',
+          error_message: result.error || 'Failed to generate video',
+        })
+        .where(eq(scene_videos.id, video.id));
+
+      return { success: false, error: result.error || 'Failed to generate video' };
+    }
+
+    // Extract video URL from simple workflow response
+    const simpleResponse = result.data as SimpleVideoResult;
+    const videoUrl = simpleResponse?.videoUrl;
+    const taskId = simpleResponse?.taskId;
+
+    if (videoUrl) {
+      // Update video record with the URL (video is ready!)
+      await db
+        .update(scene_videos)
+        .set({
+          status: 'ready',
+          video_url: videoUrl,
+          n8n_job_id: taskId || null,
+        })
+        .where(eq(scene_videos.id, video.id));
+
+      console.log('✅ Video generation complete:', video.id, videoUrl);
+    } else {
+      console.log('✅ Video generation started (no URL in response yet):', video.id);
+    }
+
+    revalidatePath(`/projects/${scene.project_id}/studio/images`, 'page');
+    revalidatePath(`/projects/${scene.project_id}/studio/video`, 'page');
+
+    return { success: true, videoId: video.id };
+  } catch (error) {
+    console.error('❌ Error triggering video generation:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to trigger video generation',
+    };
+  }
+}
+
+/**
+ * Start queued scene videos while batch slots are available
+ */
+export async function drainVideoQueue(projectId: string): Promise<{ triggered: number }> {
+  try {
+    console.log('🔄 Processing video queue for project:', projectId);
+
+    let triggered = 0;
+
+    // Get scenes with approved images but no video
+    const projectScenes = await db
+      .select()
+      .from(scenes)
+      .where(eq(scenes.project_id, projectId))
+      .orderBy(scenes.scene_number);
+
+    for (const scene of projectScenes) {
+      // Check if we can start more jobs
+      const canStart = await canStartVideoGeneration();
+      if (!canStart) {
+        console.log('⏳ Batch limit reached, stopping queue processing');
+        break;
+      }
+
+      // Skip scenes without approved images
+      if (!scene.approved_image_id) continue;
+
+      // Check if video already exists
+      const [existingVideo] = await db
+        .select()
+        .from(scene_videos)
+        .where(eq(scene_videos.scene_id, scene.id))
+        .limit(1);
+
+      if (existingVideo) continue;
+
+      // Trigger video generation
+      console.log(`📹 Queue: Starting video for scene ${scene.scene_number}`);
+      const result = await startSceneVideoGeneration(scene.id, scene.approved_image_id);
+
+      if (result.success && !result.queued) {
+        triggered++;
+      }
+    }
+
+    console.log(`✅ Queue processing complete: ${triggered} videos triggered`);
+    return { triggered };
+  } catch (error) {
+    console.error('❌ Error processing video queue:', error);
+    return { triggered: 0 };
+  }
+}
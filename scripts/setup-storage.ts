@@ -49,6 +49,13 @@ const buckets: BucketConfig[] = [
     fileSizeLimit: 10 * 1024 * 1024, // 10MB
     allowedMimeTypes: ["audio/mpeg", "audio/wav", "audio/webm"],
   },
+  // Scene audio tracks (uploaded voiceover/score, mixed at assembly)
+  {
+    name: "scene-audio",
+    public: true, // Public so the assembler can fetch tracks
+    fileSizeLimit: 15 * 1024 * 1024, // 15MB
+    allowedMimeTypes: ["audio/mpeg", "audio/wav", "audio/x-wav", "audio/webm", "audio/mp4", "audio/aac"],
+  },
   {
     name: "reels",
     public: true, // Public read for shareable previews